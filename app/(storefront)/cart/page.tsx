@@ -8,6 +8,9 @@ import { CartSummary } from "@/components/storefront/cart-summary"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import { getCart } from "@/lib/actions/cart"
+import { getCrossSellRecommendations } from "@/lib/catalog/recommendations"
+import { getPricingConfig } from "@/lib/shipping/pricing-config"
+import { calculateOrderTotals } from "@/lib/utils/pricing"
 
 export const metadata = {
   title: "Shopping Cart | IUS Shop",
@@ -15,7 +18,10 @@ export const metadata = {
 }
 
 async function CartContent() {
-  const cart = await getCart()
+  const [cart, pricingConfig] = await Promise.all([
+    getCart(),
+    getPricingConfig(),
+  ])
 
   if (cart.items.length === 0) {
     return (
@@ -35,13 +41,27 @@ async function CartContent() {
     )
   }
 
+  const recommendations = await getCrossSellRecommendations([
+    ...new Set(cart.items.map((item) => item.product.id)),
+  ])
+
   return (
     <div className="grid gap-8 lg:grid-cols-3">
       <div className="lg:col-span-2">
-        <CartItems items={cart.items} />
+        <CartItems items={cart.items} recommendations={recommendations} />
       </div>
       <div className="lg:col-span-1">
-        <CartSummary subtotal={cart.subtotal} itemCount={cart.itemCount} />
+        <CartSummary
+          itemCount={cart.itemCount}
+          totals={calculateOrderTotals(
+            {
+              subtotal: cart.subtotal,
+              weight: cart.weight,
+              shippingMethod: "standard",
+            },
+            pricingConfig,
+          )}
+        />
       </div>
     </div>
   )
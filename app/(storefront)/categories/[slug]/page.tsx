@@ -1,21 +1,35 @@
+import { Fragment } from "react"
 import Link from "next/link"
 import { notFound } from "next/navigation"
 
 import { ChevronLeft, ChevronRight, FolderOpen, Package } from "lucide-react"
 
 import { ProductCard } from "@/components/storefront/product-card"
+import { ProductFacets } from "@/components/storefront/product-facets"
 import { ProductsFilter } from "@/components/storefront/products-filter"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { getCategoryBySlug } from "@/lib/actions/category"
-import { getStorefrontProducts } from "@/lib/actions/product"
+import {
+  getStorefrontFacets,
+  getStorefrontProducts,
+} from "@/lib/actions/product"
+import { getCategoryAncestors } from "@/lib/catalog/category-tree"
+import {
+  appendFacetParams,
+  hasFacetFilters,
+  parseFacetFilters,
+  type SearchParamsRecord,
+} from "@/lib/search/facet-params"
 
 interface CategoryPageProps {
   params: Promise<{ slug: string }>
-  searchParams: Promise<{
-    page?: string
-    sort?: string
-  }>
+  searchParams: Promise<
+    {
+      page?: string
+      sort?: string
+    } & SearchParamsRecord
+  >
 }
 
 export async function generateMetadata({ params }: CategoryPageProps) {
@@ -37,7 +51,9 @@ export default async function CategoryPage({
   searchParams,
 }: CategoryPageProps) {
   const { slug } = await params
-  const { page: pageStr, sort } = await searchParams
+  const query = await searchParams
+  const { page: pageStr, sort } = query
+  const facets = parseFacetFilters(query)
 
   const category = await getCategoryBySlug(slug)
 
@@ -49,12 +65,27 @@ export default async function CategoryPage({
   const sortBy =
     (sort as "newest" | "price-low" | "price-high" | "name") || "newest"
 
-  const { products, total, totalPages } = await getStorefrontProducts({
-    categoryId: category.id,
-    page,
-    limit: 12,
-    sortBy,
-  })
+  const [{ products, total, totalPages }, facetCounts, ancestors] =
+    await Promise.all([
+      getStorefrontProducts({
+        categoryId: category.id,
+        page,
+        limit: 12,
+        sortBy,
+        facets,
+      }),
+      getStorefrontFacets({ categoryId: category.id, facets }),
+      getCategoryAncestors(category.id),
+    ])
+
+  // Build query string for pagination
+  const buildQueryString = (newPage: number) => {
+    const params = new URLSearchParams()
+    params.set("page", newPage.toString())
+    if (sort) params.set("sort", sort)
+    appendFacetParams(params, facets)
+    return params.toString()
+  }
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -67,6 +98,19 @@ export default async function CategoryPage({
         <Link href="/categories" className="hover:text-foreground">
           Categories
         </Link>
+        {ancestors
+          .filter((crumb) => crumb.id !== category.id)
+          .map((crumb) => (
+            <Fragment key={crumb.id}>
+              <ChevronRight className="h-4 w-4" />
+              <Link
+                href={`/categories/${crumb.slug}`}
+                className="hover:text-foreground"
+              >
+                {crumb.name}
+              </Link>
+            </Fragment>
+          ))}
         <ChevronRight className="h-4 w-4" />
         <span className="text-foreground font-medium">{category.name}</span>
       </nav>
@@ -89,68 +133,93 @@ export default async function CategoryPage({
         </Badge>
       </div>
 
-      {/* Filters & Sorting */}
-      <ProductsFilter
-        currentSort={sortBy}
-        baseUrl={`/categories/${slug}`}
-        total={total}
-      />
-
-      {/* Products Grid */}
-      {products.length === 0 ? (
-        <div className="text-center py-16">
-          <Package className="mx-auto h-16 w-16 text-muted-foreground/50" />
-          <h2 className="mt-4 text-xl font-semibold">No products found</h2>
-          <p className="mt-2 text-muted-foreground">
-            There are no products in this category yet.
-          </p>
-          <Button asChild className="mt-6">
-            <Link href="/categories">Browse Other Categories</Link>
-          </Button>
-        </div>
-      ) : (
-        <>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mt-6">
-            {products.map((product) => (
-              <ProductCard key={product.id} product={product} />
-            ))}
-          </div>
-
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div className="mt-8 flex items-center justify-center gap-2">
-              <Button variant="outline" size="sm" asChild disabled={page <= 1}>
-                <Link
-                  href={`/categories/${slug}?page=${page - 1}${sort ? `&sort=${sort}` : ""}`}
-                  className={page <= 1 ? "pointer-events-none opacity-50" : ""}
-                >
-                  <ChevronLeft className="h-4 w-4 mr-1" />
-                  Previous
-                </Link>
-              </Button>
-              <span className="px-4 text-sm text-muted-foreground">
-                Page {page} of {totalPages}
-              </span>
-              <Button
-                variant="outline"
-                size="sm"
-                asChild
-                disabled={page >= totalPages}
-              >
-                <Link
-                  href={`/categories/${slug}?page=${page + 1}${sort ? `&sort=${sort}` : ""}`}
-                  className={
-                    page >= totalPages ? "pointer-events-none opacity-50" : ""
-                  }
-                >
-                  Next
-                  <ChevronRight className="h-4 w-4 ml-1" />
-                </Link>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        {/* Facets Sidebar */}
+        <aside className="lg:col-span-1">
+          <ProductFacets
+            facets={facetCounts}
+            filters={facets}
+            pathname={`/categories/${slug}`}
+            searchParams={query}
+          />
+        </aside>
+
+        <div className="lg:col-span-3">
+          {/* Filters & Sorting */}
+          <ProductsFilter
+            currentSort={sortBy}
+            baseUrl={`/categories/${slug}`}
+            total={total}
+          />
+
+          {/* Products Grid */}
+          {products.length === 0 ? (
+            <div className="text-center py-16">
+              <Package className="mx-auto h-16 w-16 text-muted-foreground/50" />
+              <h2 className="mt-4 text-xl font-semibold">No products found</h2>
+              <p className="mt-2 text-muted-foreground">
+                {hasFacetFilters(facets)
+                  ? "No products in this category match the selected filters."
+                  : "There are no products in this category yet."}
+              </p>
+              <Button asChild className="mt-6">
+                <Link href="/categories">Browse Other Categories</Link>
               </Button>
             </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6 mt-6">
+                {products.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="mt-8 flex items-center justify-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    asChild
+                    disabled={page <= 1}
+                  >
+                    <Link
+                      href={`/categories/${slug}?${buildQueryString(page - 1)}`}
+                      className={
+                        page <= 1 ? "pointer-events-none opacity-50" : ""
+                      }
+                    >
+                      <ChevronLeft className="h-4 w-4 mr-1" />
+                      Previous
+                    </Link>
+                  </Button>
+                  <span className="px-4 text-sm text-muted-foreground">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    asChild
+                    disabled={page >= totalPages}
+                  >
+                    <Link
+                      href={`/categories/${slug}?${buildQueryString(page + 1)}`}
+                      className={
+                        page >= totalPages
+                          ? "pointer-events-none opacity-50"
+                          : ""
+                      }
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4 ml-1" />
+                    </Link>
+                  </Button>
+                </div>
+              )}
+            </>
           )}
-        </>
-      )}
+        </div>
+      </div>
     </div>
   )
 }
@@ -4,7 +4,11 @@ import { redirect } from "next/navigation"
 import { CheckoutForm } from "@/components/storefront/checkout/checkout-form"
 import { CheckoutSummary } from "@/components/storefront/checkout/checkout-summary"
 import { Skeleton } from "@/components/ui/skeleton"
-import { getCheckoutSummary, getUserAddresses } from "@/lib/actions/checkout"
+import {
+  getCheckoutSummary,
+  getUserAddresses,
+  isGuestCheckoutEnabled,
+} from "@/lib/actions/checkout"
 import { getServerSession } from "@/lib/auth/rbac"
 
 export const metadata = {
@@ -13,11 +17,19 @@ export const metadata = {
 }
 
 async function CheckoutContent() {
-  const [summary, addresses, session] = await Promise.all([
-    getCheckoutSummary(),
-    getUserAddresses(),
-    getServerSession(),
-  ])
+  const [summary, addresses, session, guestCheckoutEnabled] = await Promise.all(
+    [
+      getCheckoutSummary(),
+      getUserAddresses(),
+      getServerSession(),
+      isGuestCheckoutEnabled(),
+    ],
+  )
+
+  // Sign in first when the store doesn't take guest orders
+  if (!session?.user && !guestCheckoutEnabled) {
+    redirect("/auth/login?callbackUrl=/checkout")
+  }
 
   // Redirect to cart if empty
   if (!summary || summary.items.length === 0) {
@@ -35,6 +47,7 @@ async function CheckoutContent() {
             addresses={addresses}
             isLoggedIn={!!session?.user}
             userEmail={session?.user?.email || ""}
+            initialTotals={summary.totals}
           />
         </div>
 
@@ -137,7 +137,7 @@ async function OrderConfirmation({ orderId }: { orderId: string }) {
               <p className="text-muted-foreground">Shipping</p>
               <p className="font-medium flex items-center gap-2">
                 <Truck className="h-4 w-4" />
-                {parseFloat(order.shippingCost) > 15
+                {order.shippingMethod === "express"
                   ? "Express (1-2 days)"
                   : "Standard (5-7 days)"}
               </p>
@@ -162,6 +162,7 @@ async function OrderConfirmation({ orderId }: { orderId: string }) {
                   <p className="font-medium">{item.productName}</p>
                   <p className="text-sm text-muted-foreground">
                     {item.variantName} × {item.quantity}
+                    {item.bundleName && ` · Part of ${item.bundleName}`}
                   </p>
                 </div>
                 <p className="font-medium">{formatCurrency(item.subtotal)}</p>
@@ -184,6 +185,14 @@ async function OrderConfirmation({ orderId }: { orderId: string }) {
                   : formatCurrency(order.shippingCost)}
               </span>
             </div>
+            {parseFloat(order.codFee) > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  Cash on Delivery Fee
+                </span>
+                <span>{formatCurrency(order.codFee)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Tax</span>
               <span>{formatCurrency(order.taxAmount)}</span>
@@ -221,6 +230,8 @@ async function OrderConfirmation({ orderId }: { orderId: string }) {
                 <p className="text-sm text-muted-foreground">
                   You&apos;ll receive an order confirmation email with your
                   order details.
+                  {!order.userId &&
+                    " It has a link to check on your order any time, no account needed."}
                 </p>
               </div>
             </div>
@@ -1,5 +1,6 @@
 import { Percent, Tag } from "lucide-react"
 
+import { CampaignCountdown } from "@/components/storefront/campaign-countdown"
 import { ProductCard } from "@/components/storefront/product-card"
 import { getDealProducts } from "@/lib/actions/storefront"
 
@@ -66,6 +67,17 @@ export default async function DealsPage() {
                     </div>
                   )}
                   <ProductCard product={product} />
+                  {product.campaign && (
+                    <div className="mt-2 flex items-center justify-between gap-2 text-xs">
+                      <span className="truncate font-medium text-red-600">
+                        {product.campaign.name}
+                      </span>
+                      <CampaignCountdown
+                        endsAt={product.campaign.endsAt}
+                        className="shrink-0 text-muted-foreground"
+                      />
+                    </div>
+                  )}
                 </div>
               )
             })}
@@ -1,36 +1,78 @@
+import type { MenuCategory } from "@/components/storefront/category-mega-menu"
+import { SelectedDeviceProvider } from "@/components/storefront/device-context"
 import { StorefrontFooter } from "@/components/storefront/footer"
 import { StorefrontHeader } from "@/components/storefront/header"
+import { getActiveCategories } from "@/lib/actions/category"
+import { getSelectedDevice } from "@/lib/actions/devices"
 import { getServerSession } from "@/lib/auth/rbac"
+import { getDeviceMenu } from "@/lib/catalog/devices"
+import type { CategoryNode } from "@/lib/utils/categories"
+import { deviceDisplayName } from "@/lib/utils/devices"
+
+// Only what the menu renders, to keep the page payload small
+function toMenuCategories(
+  nodes: CategoryNode<{ id: string; name: string; slug: string }>[],
+): MenuCategory[] {
+  return nodes.map((node) => ({
+    id: node.id,
+    name: node.name,
+    slug: node.slug,
+    children: toMenuCategories(node.children),
+  }))
+}
 
 /**
  * Storefront Layout
  *
  * Layout for all public-facing pages.
- * Includes header and footer.
+ * Includes header and footer, and shares the customer's selected device.
  */
 export default async function StorefrontLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
-  const session = await getServerSession()
+  const [session, categories, devices, selectedDevice] = await Promise.all([
+    getServerSession(),
+    getActiveCategories(),
+    getDeviceMenu(),
+    getSelectedDevice(),
+  ])
 
   return (
-    <div className="flex min-h-screen flex-col">
-      <StorefrontHeader
-        isAuthenticated={!!session?.user}
-        user={
-          session?.user
-            ? {
-                name: session.user.name,
-                email: session.user.email,
-                image: session.user.image,
-              }
-            : undefined
-        }
-      />
-      <main className="flex-1">{children}</main>
-      <StorefrontFooter />
-    </div>
+    <SelectedDeviceProvider
+      device={
+        selectedDevice
+          ? {
+              id: selectedDevice.id,
+              name: deviceDisplayName(
+                selectedDevice.brandName,
+                selectedDevice.name,
+              ),
+              slug: selectedDevice.slug,
+              productIds: selectedDevice.productIds,
+            }
+          : null
+      }
+    >
+      <div className="flex min-h-screen flex-col">
+        <StorefrontHeader
+          categories={toMenuCategories(categories)}
+          devices={devices}
+          isAuthenticated={!!session?.user}
+          user={
+            session?.user
+              ? {
+                  name: session.user.name,
+                  email: session.user.email,
+                  image: session.user.image,
+                }
+              : undefined
+          }
+        />
+        <main className="flex-1">{children}</main>
+        <StorefrontFooter />
+      </div>
+    </SelectedDeviceProvider>
   )
 }
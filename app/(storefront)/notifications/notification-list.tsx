@@ -0,0 +1,107 @@
+"use client"
+
+import { useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { formatDistanceToNow } from "date-fns"
+import { CheckCheck } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import {
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "@/lib/actions/notifications"
+import { cn } from "@/lib/utils"
+
+interface Notification {
+  id: string
+  title: string
+  body: string | null
+  href: string | null
+  readAt: Date | null
+  createdAt: Date
+}
+
+interface NotificationListProps {
+  notifications: Notification[]
+}
+
+export function NotificationList({ notifications }: NotificationListProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const hasUnread = notifications.some((notification) => !notification.readAt)
+
+  const handleOpen = (notification: Notification) => {
+    startTransition(async () => {
+      if (!notification.readAt) {
+        await markNotificationRead(notification.id)
+      }
+      if (notification.href) {
+        router.push(notification.href)
+      } else {
+        router.refresh()
+      }
+    })
+  }
+
+  const handleMarkAllRead = () => {
+    startTransition(async () => {
+      await markAllNotificationsRead()
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {hasUnread && (
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleMarkAllRead}
+            disabled={isPending}
+          >
+            <CheckCheck className="mr-2 h-4 w-4" />
+            Mark all as read
+          </Button>
+        </div>
+      )}
+
+      <Card className="gap-0 divide-y py-0">
+        {notifications.map((notification) => (
+          <button
+            key={notification.id}
+            type="button"
+            onClick={() => handleOpen(notification)}
+            disabled={isPending}
+            className="flex w-full items-start gap-3 p-4 text-left transition-colors hover:bg-muted/50"
+          >
+            <span
+              className={cn(
+                "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                notification.readAt ? "bg-transparent" : "bg-primary",
+              )}
+            />
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className={cn(!notification.readAt && "font-medium")}>
+                {notification.title}
+              </p>
+              {notification.body && (
+                <p className="text-sm text-muted-foreground">
+                  {notification.body}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.createdAt), {
+                  addSuffix: true,
+                })}
+              </p>
+            </div>
+          </button>
+        ))}
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import Link from "next/link"
+import { redirect } from "next/navigation"
+
+import { Bell } from "lucide-react"
+
+import { getNotifications } from "@/lib/actions/notifications"
+import { getServerSession } from "@/lib/auth/rbac"
+
+import { NotificationList } from "./notification-list"
+
+export const metadata = {
+  title: "Notifications",
+  description: "Updates about your orders, payments and reviews",
+}
+
+export default async function NotificationsPage() {
+  const session = await getServerSession()
+
+  if (!session?.user?.id) {
+    redirect("/auth/login?callbackUrl=/notifications")
+  }
+
+  const notifications = await getNotifications()
+
+  return (
+    <div className="container mx-auto max-w-3xl px-4 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold sm:text-3xl flex items-center gap-2">
+          <Bell className="h-7 w-7" />
+          Notifications
+        </h1>
+        <p className="mt-2 text-muted-foreground">
+          Updates about your orders, payments and reviews. Choose what you get
+          in your{" "}
+          <Link href="/profile" className="text-primary hover:underline">
+            profile
+          </Link>
+          .
+        </p>
+      </div>
+
+      {notifications.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <Bell className="h-16 w-16 text-muted-foreground/50 mb-4" />
+          <h2 className="text-xl font-semibold">No notifications yet</h2>
+          <p className="mt-2 text-muted-foreground max-w-md">
+            We&apos;ll let you know here when your orders move along.
+          </p>
+        </div>
+      ) : (
+        <NotificationList notifications={notifications} />
+      )}
+    </div>
+  )
+}
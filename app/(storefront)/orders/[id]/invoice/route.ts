@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { and, eq } from "drizzle-orm"
+import { z } from "zod"
+
+import { getServerSession } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import { orders } from "@/lib/db/schema"
+import { renderOrderDocuments } from "@/lib/pdf/order-documents"
+
+// GET /orders/[id]/invoice - the signed-in customer's invoice for an order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params
+
+  const session = await getServerSession()
+  if (!session?.user) {
+    return NextResponse.redirect(
+      new URL(`/auth/login?callbackUrl=/orders/${id}`, request.url),
+    )
+  }
+
+  if (!z.string().uuid().safeParse(id).success) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 })
+  }
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, id), eq(orders.userId, session.user.id)),
+    columns: { id: true },
+  })
+
+  if (!order) {
+    return NextResponse.json({ error: "Order not found" }, { status: 404 })
+  }
+
+  try {
+    const result = await renderOrderDocuments("invoice", [order.id])
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "An invoice is available once the order is paid" },
+        { status: 404 },
+      )
+    }
+
+    return new NextResponse(new Uint8Array(result.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="invoice-${result.orderNumbers[0]}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Failed to render invoice:", error)
+    return NextResponse.json(
+      { error: "Failed to generate invoice" },
+      { status: 500 },
+    )
+  }
+}
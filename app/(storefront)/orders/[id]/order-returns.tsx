@@ -0,0 +1,117 @@
+"use client"
+
+import { useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { format } from "date-fns"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { cancelReturnRequest } from "@/lib/actions/customer-returns"
+import {
+  RETURN_REASON_LABELS,
+  RETURN_STATUS_COLORS,
+  RETURN_STATUS_LABELS,
+  type ReturnReason,
+  type ReturnStatus,
+} from "@/lib/utils/returns"
+
+interface ReturnRequest {
+  id: string
+  rmaNumber: string
+  status: ReturnStatus
+  reason: ReturnReason
+  customerNotes: string | null
+  photos: string[]
+  rejectionReason: string | null
+  createdAt: Date
+  items: Array<{
+    orderItemId: string
+    productName: string
+    variantName: string
+    quantity: number
+  }>
+}
+
+interface OrderReturnsProps {
+  requests: ReturnRequest[]
+}
+
+// What happens next, shown under each request
+const statusDescriptions: Record<ReturnStatus, string> = {
+  requested: "We're reviewing your request.",
+  approved:
+    "Your return has been approved. Please send the items back to us with your RMA number.",
+  rejected: "Your return request was not approved.",
+  received: "We've received your items and are inspecting them.",
+  completed: "Your return is complete. Any refund has been issued.",
+  cancelled: "You cancelled this return request.",
+}
+
+export function OrderReturns({ requests }: OrderReturnsProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const handleCancel = (id: string) => {
+    startTransition(async () => {
+      const result = await cancelReturnRequest(id)
+
+      if (result.success) {
+        toast.success("Return request cancelled")
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to cancel return request")
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {requests.map((request) => (
+        <div key={request.id} className="rounded-lg border p-4 text-sm">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium">{request.rmaNumber}</p>
+              <p className="text-xs text-muted-foreground">
+                Requested {format(new Date(request.createdAt), "MMM d, yyyy")} ·{" "}
+                {RETURN_REASON_LABELS[request.reason]}
+              </p>
+            </div>
+            <Badge className={RETURN_STATUS_COLORS[request.status]}>
+              {RETURN_STATUS_LABELS[request.status]}
+            </Badge>
+          </div>
+
+          <ul className="mt-3 space-y-1 text-muted-foreground">
+            {request.items.map((item) => (
+              <li key={item.orderItemId}>
+                {item.quantity} × {item.productName}
+                {item.variantName && ` (${item.variantName})`}
+              </li>
+            ))}
+          </ul>
+
+          <p className="mt-3">{statusDescriptions[request.status]}</p>
+          {request.rejectionReason && (
+            <p className="mt-1 text-red-600">{request.rejectionReason}</p>
+          )}
+
+          {request.status === "requested" && (
+            <Button
+              variant="link"
+              size="sm"
+              className="mt-2 h-auto p-0 text-muted-foreground"
+              onClick={() => handleCancel(request.id)}
+              disabled={isPending}
+            >
+              {isPending && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+              Cancel request
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
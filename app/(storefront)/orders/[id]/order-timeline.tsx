@@ -1,7 +1,14 @@
 "use client"
 
 import { format } from "date-fns"
-import { CheckCircle2, Clock, Package, Truck, XCircle } from "lucide-react"
+import {
+  CheckCircle2,
+  Clock,
+  ExternalLink,
+  Package,
+  Truck,
+  XCircle,
+} from "lucide-react"
 
 import { cn } from "@/lib/utils"
 
@@ -10,6 +17,7 @@ interface TimelineEntry {
   label: string
   date: Date
   description: string
+  trackingUrl?: string | null
 }
 
 interface OrderTimelineProps {
@@ -35,8 +43,10 @@ function getStatusIcon(status: string, isActive: boolean) {
     case "packing":
       return <Package className={iconClass} />
     case "shipped":
+    case "parcel_shipped":
       return <Truck className={iconClass} />
     case "delivered":
+    case "parcel_delivered":
       return <CheckCircle2 className={iconClass} />
     case "cancelled":
     case "refunded":
@@ -101,6 +111,17 @@ export function OrderTimeline({ timeline, currentStatus }: OrderTimelineProps) {
                   {entry.description}
                 </p>
               )}
+              {entry.trackingUrl && (
+                <a
+                  href={entry.trackingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-sm text-primary hover:underline mt-1"
+                >
+                  Track parcel
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
             </div>
           </div>
         )
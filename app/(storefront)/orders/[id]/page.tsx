@@ -10,6 +10,7 @@ import {
   HelpCircle,
   MapPin,
   Package,
+  Undo2,
 } from "lucide-react"
 
 import { Badge } from "@/components/ui/badge"
@@ -20,10 +21,14 @@ import {
   getCustomerOrder,
   getOrderTimeline,
 } from "@/lib/actions/customer-orders"
+import { getOrderReturns } from "@/lib/actions/customer-returns"
 import { getServerSession } from "@/lib/auth/rbac"
+import { INVOICE_STATUSES } from "@/lib/pdf/order-documents"
 
 import { CancelOrderButton } from "./cancel-order-button"
+import { OrderReturns } from "./order-returns"
 import { OrderTimeline } from "./order-timeline"
+import { ReturnRequestButton } from "./return-request-button"
 
 interface OrderDetailPageProps {
   params: Promise<{ id: string }>
@@ -106,9 +111,10 @@ export default async function OrderDetailPage({
   }
 
   const { id } = await params
-  const [order, timeline] = await Promise.all([
+  const [order, timeline, returns] = await Promise.all([
     getCustomerOrder(id),
     getOrderTimeline(id),
+    getOrderReturns(id),
   ])
 
   if (!order) {
@@ -117,6 +123,7 @@ export default async function OrderDetailPage({
 
   const statusConfig = getStatusConfig(order.status)
   const canCancel = ["draft", "pending_payment", "paid"].includes(order.status)
+  const canDownloadInvoice = INVOICE_STATUSES.includes(order.status)
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
@@ -176,6 +183,11 @@ export default async function OrderDetailPage({
                         <p className="text-sm text-muted-foreground">
                           SKU: {item.sku}
                         </p>
+                        {item.bundleName && (
+                          <p className="text-sm text-muted-foreground">
+                            Part of {item.bundleName}
+                          </p>
+                        )}
                         <div className="flex items-center justify-between mt-2">
                           <span className="text-sm">
                             {formatCurrency(item.unitPrice)} × {item.quantity}
@@ -192,6 +204,21 @@ export default async function OrderDetailPage({
             </CardContent>
           </Card>
 
+          {/* Returns */}
+          {returns && returns.requests.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Undo2 className="h-5 w-5" />
+                  Returns
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderReturns requests={returns.requests} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Order Timeline */}
           {timeline && timeline.length > 0 && (
             <Card>
@@ -271,6 +298,14 @@ export default async function OrderDetailPage({
                   <span className="text-muted-foreground">Shipping</span>
                   <span>{formatCurrency(order.shippingCost)}</span>
                 </div>
+                {parseFloat(order.codFee) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      Cash on Delivery Fee
+                    </span>
+                    <span>{formatCurrency(order.codFee)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Tax</span>
                   <span>{formatCurrency(order.taxAmount)}</span>
@@ -323,10 +358,19 @@ export default async function OrderDetailPage({
           {/* Actions */}
           <Card>
             <CardContent className="pt-6 space-y-3">
-              <Button variant="outline" className="w-full" disabled>
-                <Download className="h-4 w-4 mr-2" />
-                Download Invoice
-              </Button>
+              {canDownloadInvoice ? (
+                <Button variant="outline" className="w-full" asChild>
+                  <a href={`/orders/${order.id}/invoice`}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Invoice
+                  </a>
+                </Button>
+              ) : (
+                <Button variant="outline" className="w-full" disabled>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Invoice
+                </Button>
+              )}
               <Button variant="outline" className="w-full" asChild>
                 <Link href="/contact">
                   <HelpCircle className="h-4 w-4 mr-2" />
@@ -334,6 +378,20 @@ export default async function OrderDetailPage({
                 </Link>
               </Button>
               {canCancel && <CancelOrderButton orderId={order.id} />}
+              {returns?.canRequestReturn && (
+                <ReturnRequestButton
+                  orderId={order.id}
+                  items={order.items}
+                  returnableQuantities={returns.returnableQuantities}
+                />
+              )}
+              {returns?.returnDeadline && order.status === "delivered" && (
+                <p className="text-xs text-center text-muted-foreground">
+                  {returns.withinReturnWindow
+                    ? `Returns accepted until ${format(new Date(returns.returnDeadline), "MMMM d, yyyy")}`
+                    : `The return window closed on ${format(new Date(returns.returnDeadline), "MMMM d, yyyy")}`}
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
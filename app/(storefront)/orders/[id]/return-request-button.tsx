@@ -0,0 +1,313 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { ImagePlus, Loader2, Undo2, X } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { createReturnRequest } from "@/lib/actions/customer-returns"
+import {
+  MAX_RETURN_PHOTOS,
+  RETURN_REASON_LABELS,
+  RETURN_REASONS,
+  type ReturnReason,
+} from "@/lib/utils/returns"
+
+interface ReturnableItem {
+  id: string
+  productName: string
+  variantName: string
+  quantity: number
+}
+
+interface ReturnRequestButtonProps {
+  orderId: string
+  items: ReturnableItem[]
+  returnableQuantities: Record<string, number>
+}
+
+const ALLOWED_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"]
+
+export function ReturnRequestButton({
+  orderId,
+  items,
+  returnableQuantities,
+}: ReturnRequestButtonProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+  const [isPending, startTransition] = useTransition()
+  const [isUploading, setIsUploading] = useState(false)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [reason, setReason] = useState<ReturnReason | "">("")
+  const [notes, setNotes] = useState("")
+  const [photos, setPhotos] = useState<string[]>([])
+
+  const selectedCount = Object.values(quantities).reduce(
+    (sum, quantity) => sum + quantity,
+    0,
+  )
+
+  const handleOpenChange = (value: boolean) => {
+    if (value) {
+      setQuantities({})
+      setReason("")
+      setNotes("")
+      setPhotos([])
+    }
+    setOpen(value)
+  }
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ""
+
+    if (photos.length + files.length > MAX_RETURN_PHOTOS) {
+      toast.error(`You can attach up to ${MAX_RETURN_PHOTOS} photos`)
+      return
+    }
+
+    for (const file of files) {
+      if (!ALLOWED_PHOTO_TYPES.includes(file.type)) {
+        toast.error("Please upload JPEG, PNG or WebP images")
+        return
+      }
+      if (file.size > 5 * 1024 * 1024) {
+        toast.error("Each photo must be less than 5MB")
+        return
+      }
+    }
+
+    setIsUploading(true)
+    try {
+      for (const file of files) {
+        const formData = new FormData()
+        formData.append("file", file)
+        formData.append("folder", "returns")
+
+        const response = await fetch("/api/upload", {
+          method: "POST",
+          body: formData,
+        })
+
+        if (!response.ok) {
+          throw new Error("Failed to upload photo")
+        }
+
+        const { url } = await response.json()
+        setPhotos((prev) => [...prev, url])
+      }
+    } catch (error) {
+      console.error("Upload error:", error)
+      toast.error("Failed to upload photo")
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleSubmit = () => {
+    if (!reason) {
+      toast.error("Please choose a reason for the return")
+      return
+    }
+
+    startTransition(async () => {
+      const result = await createReturnRequest({
+        orderId,
+        reason,
+        notes: notes || undefined,
+        photos,
+        items: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+      })
+
+      if (result.success) {
+        toast.success(
+          `Return ${result.rmaNumber} submitted. We'll review it shortly.`,
+        )
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to submit return request")
+      }
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <Undo2 className="h-4 w-4 mr-2" />
+          Return Items
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request a Return</DialogTitle>
+          <DialogDescription>
+            Choose the items you&apos;d like to send back. You can track the
+            status of your request on this page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Items</Label>
+            <div className="divide-y rounded-lg border">
+              {items.map((item) => {
+                const returnable = returnableQuantities[item.id] || 0
+                return (
+                  <div
+                    key={item.id}
+                    className="flex items-center justify-between gap-4 p-3"
+                  >
+                    <div className="min-w-0 text-sm">
+                      <p className="truncate font-medium">{item.productName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {item.variantName && `${item.variantName} · `}
+                        {returnable} of {item.quantity} returnable
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={returnable}
+                      className="w-20"
+                      disabled={returnable === 0}
+                      value={quantities[item.id] ?? 0}
+                      onChange={(e) =>
+                        setQuantities((prev) => ({
+                          ...prev,
+                          [item.id]: Math.min(
+                            returnable,
+                            Math.max(0, parseInt(e.target.value) || 0),
+                          ),
+                        }))
+                      }
+                    />
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">Reason *</Label>
+            <Select
+              value={reason}
+              onValueChange={(value) => setReason(value as ReturnReason)}
+            >
+              <SelectTrigger id="return-reason">
+                <SelectValue placeholder="Why are you returning these items?" />
+              </SelectTrigger>
+              <SelectContent>
+                {RETURN_REASONS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {RETURN_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return-notes">Details (optional)</Label>
+            <Textarea
+              id="return-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Tell us more about the problem..."
+              rows={3}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Photos (optional)</Label>
+            <div className="flex flex-wrap gap-2">
+              {photos.map((url) => (
+                <div
+                  key={url}
+                  className="relative h-16 w-16 overflow-hidden rounded-md border"
+                >
+                  <img
+                    src={url}
+                    alt="Return photo"
+                    className="h-full w-full object-cover"
+                  />
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPhotos((prev) => prev.filter((p) => p !== url))
+                    }
+                    className="absolute right-0.5 top-0.5 rounded-full bg-background/80 p-0.5"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              {photos.length < MAX_RETURN_PHOTOS && (
+                <label className="flex h-16 w-16 cursor-pointer items-center justify-center rounded-md border-2 border-dashed hover:border-primary/50 transition-colors">
+                  {isUploading ? (
+                    <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                  ) : (
+                    <ImagePlus className="h-5 w-5 text-muted-foreground" />
+                  )}
+                  <input
+                    type="file"
+                    accept={ALLOWED_PHOTO_TYPES.join(",")}
+                    multiple
+                    className="hidden"
+                    disabled={isUploading}
+                    onChange={handlePhotoChange}
+                  />
+                </label>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Photos help us process damaged or defective items faster. Up to{" "}
+              {MAX_RETURN_PHOTOS} images, 5MB each.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isPending || isUploading || selectedCount === 0}
+          >
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Return
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { Loader2, UserPlus } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { claimGuestOrder } from "@/lib/actions/customer-orders"
+
+interface ClaimOrderButtonProps {
+  token: string
+}
+
+export function ClaimOrderButton({ token }: ClaimOrderButtonProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const handleClaim = () => {
+    startTransition(async () => {
+      const result = await claimGuestOrder(token)
+
+      if (result.success) {
+        toast.success(
+          result.claimed === 1
+            ? "Order added to your account"
+            : `${result.claimed} orders added to your account`,
+        )
+        router.push("/orders")
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to add the order")
+      }
+    })
+  }
+
+  return (
+    <Button className="w-full" onClick={handleClaim} disabled={isPending}>
+      {isPending ? (
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+      ) : (
+        <UserPlus className="h-4 w-4 mr-2" />
+      )}
+      Add to My Account
+    </Button>
+  )
+}
@@ -0,0 +1,298 @@
+import Link from "next/link"
+
+import { format } from "date-fns"
+import { Clock, LinkIcon, MapPin, Package, UserRound } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { getGuestOrder } from "@/lib/actions/customer-orders"
+import { getServerSession } from "@/lib/auth/rbac"
+
+import { OrderTimeline } from "../../[id]/order-timeline"
+import { ClaimOrderButton } from "./claim-order-button"
+
+export const metadata = {
+  title: "Your Order | IUS Shop",
+  description: "View the status of your order",
+}
+
+interface GuestOrderPageProps {
+  params: Promise<{ token: string }>
+}
+
+function formatCurrency(amount: string | number): string {
+  const num = typeof amount === "string" ? parseFloat(amount) : amount
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(num)
+}
+
+function getStatusLabel(status: string): string {
+  const labels: Record<string, string> = {
+    draft: "Draft",
+    pending_payment: "Pending Payment",
+    paid: "Paid",
+    processing: "Processing",
+    packing: "Packing",
+    shipped: "Shipped",
+    delivered: "Delivered",
+    cancelled: "Cancelled",
+    refunded: "Refunded",
+  }
+  return labels[status] || status
+}
+
+/**
+ * Guest Order Page
+ *
+ * Read-only view of an order opened from a signed guest link. Signed-in
+ * customers with the order's email can move it into their account.
+ */
+export default async function GuestOrderPage({ params }: GuestOrderPageProps) {
+  const { token } = await params
+  const [order, session] = await Promise.all([
+    getGuestOrder(token),
+    getServerSession(),
+  ])
+
+  if (!order) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-md text-center">
+        <LinkIcon className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+        <h1 className="text-xl font-semibold mb-2">
+          This link is invalid or has expired
+        </h1>
+        <p className="text-muted-foreground mb-6">
+          Request a new link with your order number and email.
+        </p>
+        <Button asChild>
+          <Link href="/orders/lookup">Find Your Order</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const user = session?.user
+  const ownsOrder = !!user && order.userId === user.id
+  const emailMatches =
+    !!user && user.email.toLowerCase() === order.customerEmail.toLowerCase()
+  const callbackUrl = encodeURIComponent(`/orders/guest/${token}`)
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Order Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-2xl font-bold mb-1">Order {order.orderNumber}</h1>
+          <p className="text-muted-foreground">
+            Placed on{" "}
+            {format(new Date(order.createdAt), "MMMM d, yyyy 'at' h:mm a")}
+          </p>
+        </div>
+        <Badge className="w-fit text-base px-4 py-1">
+          {getStatusLabel(order.status)}
+        </Badge>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_300px]">
+        <div className="space-y-6">
+          {/* Order Items */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Order Items
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {order.items.map((item, index) => (
+                  <div key={item.id}>
+                    {index > 0 && <Separator className="mb-4" />}
+                    <div className="flex justify-between gap-4">
+                      <div className="min-w-0">
+                        <h3 className="font-medium truncate">
+                          {item.productName}
+                        </h3>
+                        {item.variantName && (
+                          <p className="text-sm text-muted-foreground">
+                            {item.variantName}
+                          </p>
+                        )}
+                        {item.bundleName && (
+                          <p className="text-sm text-muted-foreground">
+                            Part of {item.bundleName}
+                          </p>
+                        )}
+                        <p className="text-sm">
+                          {formatCurrency(item.unitPrice)} × {item.quantity}
+                        </p>
+                      </div>
+                      <span className="font-medium">
+                        {formatCurrency(item.subtotal)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Order Timeline */}
+          {order.timeline.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="h-5 w-5" />
+                  Order Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderTimeline
+                  timeline={order.timeline}
+                  currentStatus={order.status}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Shipping Address */}
+          {order.shippingAddress && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <MapPin className="h-5 w-5" />
+                  Shipping Address
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm">
+                <p className="font-medium">
+                  {order.shippingAddress.recipientName}
+                </p>
+                <p className="text-muted-foreground">
+                  {order.shippingAddress.addressLine1}
+                </p>
+                {order.shippingAddress.addressLine2 && (
+                  <p className="text-muted-foreground">
+                    {order.shippingAddress.addressLine2}
+                  </p>
+                )}
+                <p className="text-muted-foreground">
+                  {order.shippingAddress.city}, {order.shippingAddress.state}{" "}
+                  {order.shippingAddress.postalCode}
+                </p>
+                <p className="text-muted-foreground">
+                  {order.shippingAddress.country}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Order Summary */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Order Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Subtotal</span>
+                  <span>{formatCurrency(order.subtotal)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Shipping</span>
+                  <span>{formatCurrency(order.shippingCost)}</span>
+                </div>
+                {parseFloat(order.codFee) > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      Cash on Delivery Fee
+                    </span>
+                    <span>{formatCurrency(order.codFee)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Tax</span>
+                  <span>{formatCurrency(order.taxAmount)}</span>
+                </div>
+                {parseFloat(order.discountAmount) > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount</span>
+                    <span>-{formatCurrency(order.discountAmount)}</span>
+                  </div>
+                )}
+              </div>
+              <Separator />
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{formatCurrency(order.total)}</span>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Account */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <UserRound className="h-5 w-5" />
+                Your Account
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              {ownsOrder ? (
+                <>
+                  <p className="text-muted-foreground">
+                    This order is in your account.
+                  </p>
+                  <Button variant="outline" className="w-full" asChild>
+                    <Link href={`/orders/${order.id}`}>Manage Order</Link>
+                  </Button>
+                </>
+              ) : order.userId ? (
+                <p className="text-muted-foreground">
+                  This order is saved in an account. Sign in with{" "}
+                  {order.customerEmail} to manage it.
+                </p>
+              ) : emailMatches ? (
+                <>
+                  <p className="text-muted-foreground">
+                    Keep your orders together, and review what you bought. Your
+                    other guest orders with this email are added too.
+                  </p>
+                  <ClaimOrderButton token={token} />
+                </>
+              ) : (
+                <>
+                  <p className="text-muted-foreground">
+                    Sign in or create an account with{" "}
+                    <span className="font-medium text-foreground">
+                      {order.customerEmail}
+                    </span>{" "}
+                    to keep this order with your others and review what you
+                    bought.
+                  </p>
+                  <Button className="w-full" asChild>
+                    <Link href={`/auth/login?callbackUrl=${callbackUrl}`}>
+                      Sign In
+                    </Link>
+                  </Button>
+                  <Button variant="outline" className="w-full" asChild>
+                    <Link href={`/auth/register?callbackUrl=${callbackUrl}`}>
+                      Create Account
+                    </Link>
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, useTransition } from "react"
+
+import { Loader2, MailCheck } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { requestOrderAccessLink } from "@/lib/actions/customer-orders"
+
+export function OrderLookupForm() {
+  const [orderNumber, setOrderNumber] = useState("")
+  const [email, setEmail] = useState("")
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    startTransition(async () => {
+      const result = await requestOrderAccessLink({ orderNumber, email })
+
+      if (result.success) {
+        setSentTo(email)
+      } else {
+        toast.error(result.error || "Failed to send the link")
+      }
+    })
+  }
+
+  if (sentTo) {
+    return (
+      <div className="text-center space-y-3">
+        <MailCheck className="h-10 w-10 mx-auto text-green-600" />
+        <p className="font-medium">Check your inbox</p>
+        <p className="text-sm text-muted-foreground">
+          If a guest order matches, we&apos;ve sent a link to view it to{" "}
+          <span className="font-medium text-foreground">{sentTo}</span>. The
+          link works for 24 hours.
+        </p>
+        <Button variant="outline" onClick={() => setSentTo(null)}>
+          Look up another order
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="orderNumber">Order Number</Label>
+        <Input
+          id="orderNumber"
+          placeholder="ORD-..."
+          value={orderNumber}
+          onChange={(e) => setOrderNumber(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          type="email"
+          placeholder="The email you ordered with"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Email Me a Link
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,48 @@
+import Link from "next/link"
+
+import { PackageSearch } from "lucide-react"
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+
+import { OrderLookupForm } from "./order-lookup-form"
+
+export const metadata = {
+  title: "Find Your Order | IUS Shop",
+  description: "Look up an order placed without an account",
+}
+
+export default function OrderLookupPage() {
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-md">
+      <Card>
+        <CardHeader className="text-center">
+          <PackageSearch className="h-10 w-10 mx-auto text-muted-foreground mb-2" />
+          <CardTitle>Find Your Order</CardTitle>
+          <CardDescription>
+            Checked out as a guest? Enter your order number and email, and
+            we&apos;ll email you a link to your order.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <OrderLookupForm />
+          <p className="text-sm text-center text-muted-foreground">
+            Have an account?{" "}
+            <Link
+              href="/auth/login?callbackUrl=/orders"
+              className="text-primary hover:underline"
+            >
+              Sign in
+            </Link>{" "}
+            to see all your orders.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -182,6 +182,15 @@ export default async function OrdersPage({ searchParams }: OrdersPageProps) {
             <Button asChild>
               <Link href="/products">Start Shopping</Link>
             </Button>
+            <p className="text-sm text-muted-foreground mt-4">
+              Ordered as a guest?{" "}
+              <Link
+                href="/orders/lookup"
+                className="text-primary hover:underline"
+              >
+                Find your order
+              </Link>
+            </p>
           </CardContent>
         </Card>
       ) : (
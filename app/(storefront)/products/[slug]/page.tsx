@@ -4,18 +4,21 @@ import { notFound } from "next/navigation"
 import { ChevronRight } from "lucide-react"
 
 import { ProductCard } from "@/components/storefront/product-card"
-import { ProductGallery } from "@/components/storefront/product-gallery"
-import { ProductInfo } from "@/components/storefront/product-info"
+import { ProductMain } from "@/components/storefront/product-main"
 import { ProductReviews } from "@/components/storefront/product-reviews"
 import { Badge } from "@/components/ui/badge"
 import { isProductFavorited } from "@/lib/actions/favorites"
-import { getProductBySlug, getStorefrontProducts } from "@/lib/actions/product"
+import { getStockAlertVariantIds } from "@/lib/actions/notifications"
+import { getProductBySlug } from "@/lib/actions/product"
 import {
   canUserReview,
   getProductReviews,
   getProductReviewStats,
 } from "@/lib/actions/product-reviews"
 import { getServerSession } from "@/lib/auth/rbac"
+import { getCompatibleDevices } from "@/lib/catalog/devices"
+import { getProductRecommendations } from "@/lib/catalog/recommendations"
+import { deviceDisplayName } from "@/lib/utils/devices"
 
 interface ProductPageProps {
   params: Promise<{ slug: string }>
@@ -59,23 +62,23 @@ export default async function ProductPage({ params }: ProductPageProps) {
   // Fetch data in parallel
   const [
     isFavorited,
-    relatedProductsData,
+    recommendations,
+    compatibleDevices,
     reviewsData,
     reviewStats,
     reviewPermission,
+    stockAlertVariantIds,
   ] = await Promise.all([
     isProductFavorited(product.id),
-    product.categoryId
-      ? getStorefrontProducts({ categoryId: product.categoryId, limit: 4 })
-      : Promise.resolve(null),
+    getProductRecommendations(product.id),
+    getCompatibleDevices(product.id),
     getProductReviews(product.id),
     getProductReviewStats(product.id),
     canUserReview(product.id),
+    getStockAlertVariantIds(product.variants.map((variant) => variant.id)),
   ])
 
-  // Filter out current product from related
-  const filteredRelated =
-    relatedProductsData?.products.filter((p) => p.id !== product.id) || []
+  const activeVariants = product.variants.filter((v) => v.isActive)
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -106,13 +109,11 @@ export default async function ProductPage({ params }: ProductPageProps) {
       </nav>
 
       {/* Product Main Section */}
-      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12">
-        {/* Gallery */}
-        <ProductGallery images={product.images} name={product.name} />
-
-        {/* Product Info */}
-        <ProductInfo product={product} initialIsFavorited={isFavorited} />
-      </div>
+      <ProductMain
+        product={product}
+        initialIsFavorited={isFavorited}
+        initialStockAlertVariantIds={stockAlertVariantIds}
+      />
 
       {/* Product Description */}
       {product.description && (
@@ -145,25 +146,46 @@ export default async function ProductPage({ params }: ProductPageProps) {
               )}
             </dd>
           </div>
-          {product.variants.length > 0 && (
+          {activeVariants.length > 0 && (
             <div className="border rounded-lg p-4">
               <dt className="text-sm text-muted-foreground">Variants</dt>
               <dd className="mt-1">
                 <div className="flex flex-wrap gap-1">
-                  {product.variants.slice(0, 5).map((v) => (
+                  {activeVariants.slice(0, 5).map((v) => (
                     <Badge key={v.id} variant="secondary">
                       {v.name}
                     </Badge>
                   ))}
-                  {product.variants.length > 5 && (
+                  {activeVariants.length > 5 && (
                     <Badge variant="outline">
-                      +{product.variants.length - 5} more
+                      +{activeVariants.length - 5} more
                     </Badge>
                   )}
                 </div>
               </dd>
             </div>
           )}
+          {compatibleDevices.length > 0 && (
+            <div className="border rounded-lg p-4 sm:col-span-2">
+              <dt className="text-sm text-muted-foreground">
+                Compatible Devices
+              </dt>
+              <dd className="mt-1">
+                <div className="flex flex-wrap gap-1">
+                  {compatibleDevices.map((device) => (
+                    <Link
+                      key={device.id}
+                      href={`/search?device=${device.slug}`}
+                    >
+                      <Badge variant="secondary" className="hover:bg-muted">
+                        {deviceDisplayName(device.brandName, device.name)}
+                      </Badge>
+                    </Link>
+                  ))}
+                </div>
+              </dd>
+            </div>
+          )}
           {product.metaTitle && (
             <div className="border rounded-lg p-4 sm:col-span-2">
               <dt className="text-sm text-muted-foreground">SKU</dt>
@@ -175,8 +197,22 @@ export default async function ProductPage({ params }: ProductPageProps) {
         </dl>
       </div>
 
+      {/* Frequently Bought Together */}
+      {recommendations.boughtTogether.length > 0 && (
+        <div className="mt-16">
+          <h2 className="text-xl font-semibold mb-6">
+            Frequently Bought Together
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {recommendations.boughtTogether.map((addOn) => (
+              <ProductCard key={addOn.id} product={addOn} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Related Products */}
-      {filteredRelated.length > 0 && (
+      {recommendations.related.length > 0 && (
         <div className="mt-16">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-xl font-semibold">Related Products</h2>
@@ -191,7 +227,7 @@ export default async function ProductPage({ params }: ProductPageProps) {
             )}
           </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-            {filteredRelated.map((relatedProduct) => (
+            {recommendations.related.map((relatedProduct) => (
               <ProductCard key={relatedProduct.id} product={relatedProduct} />
             ))}
           </div>
@@ -3,12 +3,22 @@ import Link from "next/link"
 import { ChevronLeft, ChevronRight, Package, Search } from "lucide-react"
 
 import { ProductCard } from "@/components/storefront/product-card"
+import { ProductFacets } from "@/components/storefront/product-facets"
 import { ProductsFilter } from "@/components/storefront/products-filter"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { getActiveCategories } from "@/lib/actions/category"
-import { getStorefrontProducts } from "@/lib/actions/product"
+import {
+  getStorefrontFacets,
+  getStorefrontProducts,
+} from "@/lib/actions/product"
+import {
+  appendFacetParams,
+  hasFacetFilters,
+  parseFacetFilters,
+  type SearchParamsRecord,
+} from "@/lib/search/facet-params"
 
 export const metadata = {
   title: "Products | IUS Shop",
@@ -16,30 +26,40 @@ export const metadata = {
 }
 
 interface ProductsPageProps {
-  searchParams: Promise<{
-    page?: string
-    sort?: string
-    search?: string
-    category?: string
-  }>
+  searchParams: Promise<
+    {
+      page?: string
+      sort?: string
+      search?: string
+      category?: string
+    } & SearchParamsRecord
+  >
 }
 
 export default async function ProductsPage({
   searchParams,
 }: ProductsPageProps) {
-  const { page: pageStr, sort, search, category } = await searchParams
+  const params = await searchParams
+  const { page: pageStr, sort, search, category } = params
+  const facets = parseFacetFilters(params)
 
   const page = pageStr ? parseInt(pageStr) : 1
   const sortBy =
     (sort as "newest" | "price-low" | "price-high" | "name") || "newest"
 
-  const [productsResult, categories] = await Promise.all([
+  const [productsResult, facetCounts, categories] = await Promise.all([
     getStorefrontProducts({
       page,
       limit: 12,
       sortBy,
       search: search || undefined,
       categoryId: category || undefined,
+      facets,
+    }),
+    getStorefrontFacets({
+      search: search || undefined,
+      categoryId: category || undefined,
+      facets,
     }),
     getActiveCategories(),
   ])
@@ -53,6 +73,7 @@ export default async function ProductsPage({
     if (sort) params.set("sort", sort)
     if (search) params.set("search", search)
     if (category) params.set("category", category)
+    appendFacetParams(params, facets)
     return params.toString()
   }
 
@@ -135,68 +156,97 @@ export default async function ProductsPage({
         </div>
       )}
 
-      {/* Filters & Sorting */}
-      <ProductsFilter currentSort={sortBy} baseUrl="/products" total={total} />
-
-      {/* Products Grid */}
-      {products.length === 0 ? (
-        <div className="text-center py-16">
-          <Package className="mx-auto h-16 w-16 text-muted-foreground/50" />
-          <h2 className="mt-4 text-xl font-semibold">No products found</h2>
-          <p className="mt-2 text-muted-foreground">
-            {search
-              ? `No products match "${search}". Try a different search term.`
-              : "Check back soon for new products."}
-          </p>
-          {search && (
-            <Button asChild className="mt-6">
-              <Link href="/products">Clear Search</Link>
-            </Button>
-          )}
-        </div>
-      ) : (
-        <>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 mt-6">
-            {products.map((product) => (
-              <ProductCard key={product.id} product={product} />
-            ))}
-          </div>
-
-          {/* Pagination */}
-          {totalPages > 1 && (
-            <div className="mt-8 flex items-center justify-center gap-2">
-              <Button variant="outline" size="sm" asChild disabled={page <= 1}>
-                <Link
-                  href={`/products?${buildQueryString(page - 1)}`}
-                  className={page <= 1 ? "pointer-events-none opacity-50" : ""}
-                >
-                  <ChevronLeft className="h-4 w-4 mr-1" />
-                  Previous
-                </Link>
-              </Button>
-              <span className="px-4 text-sm text-muted-foreground">
-                Page {page} of {totalPages}
-              </span>
-              <Button
-                variant="outline"
-                size="sm"
-                asChild
-                disabled={page >= totalPages}
-              >
-                <Link
-                  href={`/products?${buildQueryString(page + 1)}`}
-                  className={
-                    page >= totalPages ? "pointer-events-none opacity-50" : ""
-                  }
-                >
-                  Next
-                  <ChevronRight className="h-4 w-4 ml-1" />
-                </Link>
-              </Button>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        {/* Facets Sidebar */}
+        <aside className="lg:col-span-1">
+          <ProductFacets
+            facets={facetCounts}
+            filters={facets}
+            pathname="/products"
+            searchParams={params}
+          />
+        </aside>
+
+        <div className="lg:col-span-3">
+          {/* Filters & Sorting */}
+          <ProductsFilter
+            currentSort={sortBy}
+            baseUrl="/products"
+            total={total}
+          />
+
+          {/* Products Grid */}
+          {products.length === 0 ? (
+            <div className="text-center py-16">
+              <Package className="mx-auto h-16 w-16 text-muted-foreground/50" />
+              <h2 className="mt-4 text-xl font-semibold">No products found</h2>
+              <p className="mt-2 text-muted-foreground">
+                {search
+                  ? `No products match "${search}". Try a different search term.`
+                  : hasFacetFilters(facets)
+                    ? "No products match the selected filters."
+                    : "Check back soon for new products."}
+              </p>
+              {search && (
+                <Button asChild className="mt-6">
+                  <Link href="/products">Clear Search</Link>
+                </Button>
+              )}
             </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6 mt-6">
+                {products.map((product) => (
+                  <ProductCard key={product.id} product={product} />
+                ))}
+              </div>
+
+              {/* Pagination */}
+              {totalPages > 1 && (
+                <div className="mt-8 flex items-center justify-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    asChild
+                    disabled={page <= 1}
+                  >
+                    <Link
+                      href={`/products?${buildQueryString(page - 1)}`}
+                      className={
+                        page <= 1 ? "pointer-events-none opacity-50" : ""
+                      }
+                    >
+                      <ChevronLeft className="h-4 w-4 mr-1" />
+                      Previous
+                    </Link>
+                  </Button>
+                  <span className="px-4 text-sm text-muted-foreground">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    asChild
+                    disabled={page >= totalPages}
+                  >
+                    <Link
+                      href={`/products?${buildQueryString(page + 1)}`}
+                      className={
+                        page >= totalPages
+                          ? "pointer-events-none opacity-50"
+                          : ""
+                      }
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4 ml-1" />
+                    </Link>
+                  </Button>
+                </div>
+              )}
+            </>
           )}
-        </>
-      )}
+        </div>
+      </div>
     </div>
   )
 }
@@ -94,17 +94,20 @@ export default async function ProfilePage() {
             lastPasswordChange={userProfile.lastPasswordChange}
           />
 
-          {/* Marketing Preferences */}
+          {/* Email and Notification Preferences */}
           <Card>
             <CardHeader>
-              <CardTitle>Email Preferences</CardTitle>
+              <CardTitle>Notification Preferences</CardTitle>
               <CardDescription>
-                Manage your email notification settings
+                Choose which emails and notifications you get
               </CardDescription>
             </CardHeader>
             <CardContent>
               <PreferencesForm
                 marketingOptIn={userProfile.profile?.marketingOptIn ?? false}
+                notificationPreferences={
+                  userProfile.profile?.notificationPreferences ?? {}
+                }
               />
             </CardContent>
           </Card>
@@ -4,15 +4,37 @@ import { useState } from "react"
 
 import { Loader2 } from "lucide-react"
 
-import { updateMarketingPreferences } from "@/lib/actions/profile"
+import {
+  updateMarketingPreferences,
+  updateNotificationPreferences,
+} from "@/lib/actions/profile"
+import {
+  isNotificationEnabled,
+  NOTIFICATION_EVENTS,
+  type NotificationChannel,
+  type NotificationEvent,
+  notificationEventConfig,
+  type NotificationPreferences,
+} from "@/lib/utils/notifications"
 
 interface PreferencesFormProps {
   marketingOptIn: boolean
+  notificationPreferences: NotificationPreferences
 }
 
-export function PreferencesForm({ marketingOptIn }: PreferencesFormProps) {
+const channelLabels: Record<NotificationChannel, string> = {
+  email: "Email",
+  inApp: "On site",
+}
+
+export function PreferencesForm({
+  marketingOptIn,
+  notificationPreferences,
+}: PreferencesFormProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [optedIn, setOptedIn] = useState(marketingOptIn)
+  const [preferences, setPreferences] = useState(notificationPreferences)
+  const [saving, setSaving] = useState<string | null>(null)
   const [message, setMessage] = useState<{
     type: "success" | "error"
     text: string
@@ -46,6 +68,42 @@ export function PreferencesForm({ marketingOptIn }: PreferencesFormProps) {
     }
   }
 
+  const handleNotificationToggle = async (
+    event: NotificationEvent,
+    channel: NotificationChannel,
+  ) => {
+    const enabled = !isNotificationEnabled(preferences, event, channel)
+    const updated = {
+      ...preferences,
+      [event]: { ...preferences[event], [channel]: enabled },
+    }
+
+    setSaving(`${event}.${channel}`)
+    setMessage(null)
+
+    try {
+      const result = await updateNotificationPreferences(updated)
+      if (result.success) {
+        setPreferences(updated)
+        setMessage({
+          type: "success",
+          text: `${notificationEventConfig[event].label} ${
+            channel === "email" ? "emails" : "notifications"
+          } turned ${enabled ? "on" : "off"}`,
+        })
+      } else {
+        setMessage({ type: "error", text: "Failed to update preferences" })
+      }
+    } catch {
+      setMessage({
+        type: "error",
+        text: "An error occurred. Please try again.",
+      })
+    } finally {
+      setSaving(null)
+    }
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-start justify-between gap-4">
@@ -55,48 +113,68 @@ export function PreferencesForm({ marketingOptIn }: PreferencesFormProps) {
             Receive emails about new products, promotions, and exclusive offers
           </p>
         </div>
-        <button
-          type="button"
-          role="switch"
-          aria-checked={optedIn}
+        <ToggleSwitch
+          checked={optedIn}
+          loading={isLoading}
           disabled={isLoading}
           onClick={handleToggle}
-          className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 ${
-            optedIn ? "bg-primary" : "bg-input"
-          }`}
-        >
-          <span
-            className={`pointer-events-none inline-flex h-5 w-5 items-center justify-center rounded-full bg-background shadow-lg ring-0 transition-transform ${
-              optedIn ? "translate-x-5" : "translate-x-0"
-            }`}
-          >
-            {isLoading && <Loader2 className="h-3 w-3 animate-spin" />}
-          </span>
-        </button>
+          label="Marketing emails"
+        />
       </div>
 
-      <div className="flex items-start justify-between gap-4">
+      <div className="space-y-3">
         <div className="space-y-1">
-          <p className="font-medium">Order Updates</p>
+          <p className="font-medium">Notifications</p>
           <p className="text-sm text-muted-foreground">
-            Receive email notifications about your orders (shipping, delivery,
-            etc.)
+            Choose how we keep you updated. On site notifications appear under
+            the bell at the top of the page.
           </p>
         </div>
-        <button
-          type="button"
-          role="switch"
-          aria-checked={true}
-          disabled={true}
-          className="relative inline-flex h-6 w-11 shrink-0 cursor-not-allowed rounded-full border-2 border-transparent bg-primary opacity-50"
-        >
-          <span className="pointer-events-none inline-flex h-5 w-5 translate-x-5 items-center justify-center rounded-full bg-background shadow-lg ring-0" />
-        </button>
+
+        <div className="divide-y rounded-lg border">
+          <div className="grid grid-cols-[1fr_auto_auto] gap-4 px-4 py-2 text-xs font-medium text-muted-foreground">
+            <span>Update</span>
+            {(Object.keys(channelLabels) as NotificationChannel[]).map(
+              (channel) => (
+                <span key={channel} className="w-11 text-center">
+                  {channelLabels[channel]}
+                </span>
+              ),
+            )}
+          </div>
+          {NOTIFICATION_EVENTS.map((event) => (
+            <div
+              key={event}
+              className="grid grid-cols-[1fr_auto_auto] items-center gap-4 px-4 py-3"
+            >
+              <div className="space-y-0.5">
+                <p className="text-sm font-medium">
+                  {notificationEventConfig[event].label}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {notificationEventConfig[event].description}
+                </p>
+              </div>
+              {(Object.keys(channelLabels) as NotificationChannel[]).map(
+                (channel) => (
+                  <ToggleSwitch
+                    key={channel}
+                    checked={isNotificationEnabled(preferences, event, channel)}
+                    loading={saving === `${event}.${channel}`}
+                    disabled={saving !== null}
+                    onClick={() => handleNotificationToggle(event, channel)}
+                    label={`${notificationEventConfig[event].label}: ${channelLabels[channel]}`}
+                  />
+                ),
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Account emails, like password resets, are always sent. Guest orders
+          always get order emails.
+        </p>
       </div>
-      <p className="text-xs text-muted-foreground">
-        Order update emails cannot be disabled as they contain important
-        information about your purchases.
-      </p>
 
       {message && (
         <div
@@ -112,3 +190,39 @@ export function PreferencesForm({ marketingOptIn }: PreferencesFormProps) {
     </div>
   )
 }
+
+function ToggleSwitch({
+  checked,
+  loading,
+  disabled,
+  onClick,
+  label,
+}: {
+  checked: boolean
+  loading: boolean
+  disabled: boolean
+  onClick: () => void
+  label: string
+}) {
+  return (
+    <button
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      disabled={disabled}
+      onClick={onClick}
+      className={`relative inline-flex h-6 w-11 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 ${
+        checked ? "bg-primary" : "bg-input"
+      }`}
+    >
+      <span
+        className={`pointer-events-none inline-flex h-5 w-5 items-center justify-center rounded-full bg-background shadow-lg ring-0 transition-transform ${
+          checked ? "translate-x-5" : "translate-x-0"
+        }`}
+      >
+        {loading && <Loader2 className="h-3 w-3 animate-spin" />}
+      </span>
+    </button>
+  )
+}
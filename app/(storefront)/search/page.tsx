@@ -1,39 +1,79 @@
 import { Suspense } from "react"
 
+import { getDeviceModel } from "@/lib/catalog/devices"
+import {
+  parseFacetFilters,
+  type SearchParamsRecord,
+} from "@/lib/search/facet-params"
+import { deviceDisplayName } from "@/lib/utils/devices"
+
+import { SearchFacets } from "./search-facets"
 import { SearchFilters } from "./search-filters"
 import { SearchResults } from "./search-results"
 
 interface SearchPageProps {
-  searchParams: Promise<{
-    q?: string
-    category?: string
-    minPrice?: string
-    maxPrice?: string
-    sort?: string
-    page?: string
-  }>
+  searchParams: Promise<
+    {
+      q?: string
+      category?: string
+      device?: string
+      minPrice?: string
+      maxPrice?: string
+      sort?: string
+      page?: string
+    } & SearchParamsRecord
+  >
 }
 
 export default async function SearchPage({ searchParams }: SearchPageProps) {
   const params = await searchParams
   const query = params.q || ""
+  const facets = parseFacetFilters(params)
+  const minPrice = params.minPrice ? parseFloat(params.minPrice) : undefined
+  const maxPrice = params.maxPrice ? parseFloat(params.maxPrice) : undefined
+  const device = params.device
+    ? await getDeviceModel({ slug: params.device })
+    : null
+  const deviceName = device
+    ? deviceDisplayName(device.brandName, device.name)
+    : undefined
 
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-6">
         <h1 className="text-2xl font-bold sm:text-3xl">
-          {query ? `Search results for "${query}"` : "Search Products"}
+          {query
+            ? `Search results for "${query}"`
+            : deviceName
+              ? `Accessories for ${deviceName}`
+              : "Search Products"}
         </h1>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
         {/* Filters Sidebar */}
-        <aside className="lg:col-span-1">
+        <aside className="lg:col-span-1 space-y-4">
           <SearchFilters
             currentCategory={params.category}
+            currentDevice={deviceName}
             minPrice={params.minPrice}
             maxPrice={params.maxPrice}
           />
+          <Suspense
+            fallback={
+              <div className="h-64 rounded-lg bg-muted animate-pulse" />
+            }
+          >
+            <SearchFacets
+              query={query}
+              category={params.category}
+              device={params.device}
+              minPrice={minPrice}
+              maxPrice={maxPrice}
+              facets={facets}
+              searchParams={params}
+            />
+          </Suspense>
         </aside>
 
         {/* Results */}
@@ -53,12 +93,10 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
             <SearchResults
               query={query}
               category={params.category}
-              minPrice={
-                params.minPrice ? parseFloat(params.minPrice) : undefined
-              }
-              maxPrice={
-                params.maxPrice ? parseFloat(params.maxPrice) : undefined
-              }
+              device={params.device}
+              minPrice={minPrice}
+              maxPrice={maxPrice}
+              facets={facets}
               sort={
                 params.sort as
                   | "relevance"
@@ -0,0 +1,44 @@
+import { ProductFacets } from "@/components/storefront/product-facets"
+import { getSearchFacets } from "@/lib/actions/search"
+import {
+  type ProductFacetFilters,
+  type SearchParamsRecord,
+} from "@/lib/search/facet-params"
+
+interface SearchFacetsProps {
+  query: string
+  category?: string
+  device?: string
+  minPrice?: number
+  maxPrice?: number
+  facets: ProductFacetFilters
+  searchParams: SearchParamsRecord
+}
+
+export async function SearchFacets({
+  query,
+  category,
+  device,
+  minPrice,
+  maxPrice,
+  facets,
+  searchParams,
+}: SearchFacetsProps) {
+  const counts = await getSearchFacets({
+    query,
+    category,
+    device,
+    minPrice,
+    maxPrice,
+    facets,
+  })
+
+  return (
+    <ProductFacets
+      facets={counts}
+      filters={facets}
+      pathname="/search"
+      searchParams={searchParams}
+    />
+  )
+}
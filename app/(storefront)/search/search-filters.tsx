@@ -13,12 +13,14 @@ import { Separator } from "@/components/ui/separator"
 
 interface SearchFiltersProps {
   currentCategory?: string
+  currentDevice?: string // Display name of the device filter
   minPrice?: string
   maxPrice?: string
 }
 
 export function SearchFilters({
   currentCategory,
+  currentDevice,
   minPrice: initialMinPrice,
   maxPrice: initialMaxPrice,
 }: SearchFiltersProps) {
@@ -27,7 +29,8 @@ export function SearchFilters({
   const [minPrice, setMinPrice] = useState(initialMinPrice || "")
   const [maxPrice, setMaxPrice] = useState(initialMaxPrice || "")
 
-  const hasFilters = currentCategory || initialMinPrice || initialMaxPrice
+  const hasFilters =
+    currentCategory || currentDevice || initialMinPrice || initialMaxPrice
 
   const applyFilters = () => {
     const params = new URLSearchParams(searchParams.toString())
@@ -62,6 +65,13 @@ export function SearchFilters({
     router.push(`/search?${params.toString()}`)
   }
 
+  const removeDevice = () => {
+    const params = new URLSearchParams(searchParams.toString())
+    params.delete("device")
+    params.set("page", "1")
+    router.push(`/search?${params.toString()}`)
+  }
+
   return (
     <Card>
       <CardHeader className="pb-4">
@@ -94,6 +104,14 @@ export function SearchFilters({
                   </button>
                 </span>
               )}
+              {currentDevice && (
+                <span className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary">
+                  Fits {currentDevice}
+                  <button onClick={removeDevice}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              )}
               {(initialMinPrice || initialMaxPrice) && (
                 <span className="inline-flex items-center gap-1 rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary">
                   {initialMinPrice && initialMaxPrice
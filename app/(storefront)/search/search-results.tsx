@@ -12,12 +12,18 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { searchProducts } from "@/lib/actions/search"
+import {
+  appendFacetParams,
+  type ProductFacetFilters,
+} from "@/lib/search/facet-params"
 
 interface SearchResultsProps {
   query: string
   category?: string
+  device?: string
   minPrice?: number
   maxPrice?: number
+  facets: ProductFacetFilters
   sort?: "relevance" | "price-asc" | "price-desc" | "newest"
   page?: number
 }
@@ -25,16 +31,20 @@ interface SearchResultsProps {
 export async function SearchResults({
   query,
   category,
+  device,
   minPrice,
   maxPrice,
+  facets,
   sort = "relevance",
   page = 1,
 }: SearchResultsProps) {
   const results = await searchProducts({
     query,
     category,
+    device,
     minPrice,
     maxPrice,
+    facets,
     sort,
     page,
     limit: 12,
@@ -47,8 +57,10 @@ export async function SearchResults({
     const params = new URLSearchParams()
     if (query) params.set("q", query)
     if (category) params.set("category", category)
+    if (device) params.set("device", device)
     if (minPrice) params.set("minPrice", minPrice.toString())
     if (maxPrice) params.set("maxPrice", maxPrice.toString())
+    appendFacetParams(params, facets)
 
     Object.entries(newParams).forEach(([key, value]) => {
       if (value !== undefined) {
@@ -67,7 +79,9 @@ export async function SearchResults({
         <p className="mt-2 text-muted-foreground max-w-md">
           {query
             ? `We couldn't find any products matching "${query}". Try different keywords or browse our categories.`
-            : "Enter a search term to find products."}
+            : device
+              ? "We don't have accessories for this device yet."
+              : "Enter a search term to find products."}
         </p>
         <div className="mt-6 flex gap-4">
           <Button asChild>
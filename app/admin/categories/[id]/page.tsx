@@ -5,7 +5,8 @@ import { ChevronLeft } from "lucide-react"
 
 import { EditCategoryForm } from "@/components/admin/categories/edit-category-form"
 import { Button } from "@/components/ui/button"
-import { getCategoriesFlat, getCategory } from "@/lib/actions/category"
+import { getCategories, getCategory } from "@/lib/actions/category"
+import { descendantIds, flattenCategoryTree } from "@/lib/utils/categories"
 
 interface EditCategoryPageProps {
   params: Promise<{ id: string }>
@@ -30,24 +31,23 @@ export default async function EditCategoryPage({
 }: EditCategoryPageProps) {
   const { id } = await params
 
-  const [category, allCategories] = await Promise.all([
-    getCategory(id),
-    getCategoriesFlat(),
-  ])
+  const [category, tree] = await Promise.all([getCategory(id), getCategories()])
 
   if (!category) {
     notFound()
   }
 
   // Filter out current category and its children from parent options
+  const allCategories = flattenCategoryTree(tree)
+  const excludedIds = descendantIds(allCategories, id)
   const parentOptions = allCategories
-    .filter((cat) => cat.id !== id)
+    .filter((cat) => !excludedIds.has(cat.id))
     .map((cat) => ({
       id: cat.id,
       name: cat.name,
       slug: cat.slug,
-      level: 0,
-      path: cat.name,
+      level: cat.level,
+      path: cat.path,
     }))
 
   return (
@@ -6,7 +6,8 @@ import { ChevronLeft } from "lucide-react"
 import { NewCategoryForm } from "@/components/admin/categories/new-category-form"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
-import { getCategoriesFlat } from "@/lib/actions/category"
+import { getCategories } from "@/lib/actions/category"
+import { flattenCategoryTree } from "@/lib/utils/categories"
 
 export const metadata = {
   title: "Add New Category | Admin Dashboard",
@@ -14,15 +15,15 @@ export const metadata = {
 }
 
 async function CategoryFormWrapper() {
-  const categories = await getCategoriesFlat()
+  const categories = flattenCategoryTree(await getCategories())
 
   // Transform to include level and path for the form
   const flatCategories = categories.map((cat) => ({
     id: cat.id,
     name: cat.name,
     slug: cat.slug,
-    level: 0,
-    path: cat.name,
+    level: cat.level,
+    path: cat.path,
   }))
 
   return <NewCategoryForm categories={flatCategories} />
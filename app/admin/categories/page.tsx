@@ -3,10 +3,10 @@ import Link from "next/link"
 
 import { Plus } from "lucide-react"
 
-import { CategoriesTable } from "@/components/admin/categories/categories-table"
+import { CategoryTree } from "@/components/admin/categories/category-tree"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
-import { getCategoriesFlat } from "@/lib/actions/category"
+import { getCategories } from "@/lib/actions/category"
 
 export const metadata = {
   title: "Categories | Admin Dashboard",
@@ -14,20 +14,9 @@ export const metadata = {
 }
 
 async function CategoriesData() {
-  const categories = await getCategoriesFlat()
+  const categories = await getCategories()
 
-  // Transform to include level and path for the table
-  const flatCategories = categories.map((cat) => ({
-    id: cat.id,
-    name: cat.name,
-    slug: cat.slug,
-    level: 0,
-    path: cat.name,
-    isActive: cat.isActive,
-    sortOrder: cat.sortOrder,
-  }))
-
-  return <CategoriesTable categories={flatCategories} />
+  return <CategoryTree categories={categories} />
 }
 
 export default function CategoriesPage() {
@@ -0,0 +1,41 @@
+import { Suspense } from "react"
+
+import { DeviceCatalog } from "@/components/admin/devices/device-catalog"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getDeviceCatalog } from "@/lib/actions/devices"
+
+export const metadata = {
+  title: "Devices | Admin Dashboard",
+  description: "Manage the device models accessories fit",
+}
+
+async function DevicesData() {
+  const brands = await getDeviceCatalog()
+
+  return <DeviceCatalog brands={brands} />
+}
+
+export default function DevicesPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Devices</h1>
+        <p className="text-neutral-500">
+          Phone brands and models. Link accessories to the models they fit on
+          the product form.
+        </p>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="space-y-4">
+            <Skeleton className="h-10 w-32 ml-auto" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        }
+      >
+        <DevicesData />
+      </Suspense>
+    </div>
+  )
+}
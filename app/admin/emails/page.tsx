@@ -0,0 +1,85 @@
+import { Suspense } from "react"
+
+import { EmailMessageList } from "@/components/admin/emails/email-message-list"
+import { EmailTemplateGallery } from "@/components/admin/emails/email-template-gallery"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getEmailDeliveryLog, getEmailPreviews } from "@/lib/actions/emails"
+import { getServerSession } from "@/lib/auth/rbac"
+
+export const metadata = {
+  title: "Emails | Admin Dashboard",
+  description: "Preview, test and track the emails the store sends",
+}
+
+async function EmailPreviewsData() {
+  const [templates, session] = await Promise.all([
+    getEmailPreviews(),
+    getServerSession(),
+  ])
+
+  return (
+    <EmailTemplateGallery
+      templates={templates}
+      defaultRecipient={session?.user?.email ?? ""}
+    />
+  )
+}
+
+async function DeliveryLogData() {
+  const messages = await getEmailDeliveryLog()
+
+  return messages.length > 0 ? (
+    <EmailMessageList messages={messages} showOrderLink />
+  ) : (
+    <p className="py-4 text-center text-sm text-muted-foreground">
+      No emails sent yet.
+    </p>
+  )
+}
+
+export default function EmailsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Emails</h1>
+        <p className="text-neutral-500">
+          Every email the store sends, shown with sample data and your store
+          branding from Settings.
+        </p>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+            <Skeleton className="h-96 w-full" />
+            <Skeleton className="h-[600px] w-full" />
+          </div>
+        }
+      >
+        <EmailPreviewsData />
+      </Suspense>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery Log</CardTitle>
+          <CardDescription>
+            The 100 most recent emails. Failed deliveries are retried
+            automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense fallback={<Skeleton className="h-48 w-full" />}>
+            <DeliveryLogData />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,11 +1,18 @@
 import Link from "next/link"
 import { notFound } from "next/navigation"
 
-import { ChevronLeft } from "lucide-react"
+import { ChevronLeft, ClipboardList, FileText } from "lucide-react"
 
 import { OrderDetail } from "@/components/admin/orders/order-detail"
 import { Button } from "@/components/ui/button"
+import { getOrderCommunications } from "@/lib/actions/emails"
 import { getOrder } from "@/lib/actions/order"
+import { getOrderRefunds } from "@/lib/actions/refund"
+import { getOrderShipments } from "@/lib/actions/shipments"
+import {
+  INVOICE_STATUSES,
+  PACKING_SLIP_STATUSES,
+} from "@/lib/pdf/order-documents"
 
 interface OrderDetailPageProps {
   params: Promise<{ id: string }>
@@ -15,12 +22,21 @@ export default async function OrderDetailPage({
   params,
 }: OrderDetailPageProps) {
   const { id } = await params
-  const result = await getOrder(id)
+  const [result, refunds, shipments, communications] = await Promise.all([
+    getOrder(id),
+    getOrderRefunds(id),
+    getOrderShipments(id),
+    getOrderCommunications(id),
+  ])
 
   if (!result.success || !result.data) {
     notFound()
   }
 
+  const order = result.data
+  const documentsUrl = (type: string) =>
+    `/admin/orders/documents?type=${type}&ids=${order.id}`
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -30,16 +46,47 @@ export default async function OrderDetailPage({
           </Link>
         </Button>
         <div>
-          <h1 className="text-2xl font-bold">
-            Order {result.data.orderNumber}
-          </h1>
+          <h1 className="text-2xl font-bold">Order {order.orderNumber}</h1>
           <p className="text-muted-foreground text-sm">
             Manage order details and status
           </p>
         </div>
+        <div className="ml-auto flex gap-2">
+          {(order.invoiceNumber || INVOICE_STATUSES.includes(order.status)) && (
+            <Button variant="outline" size="sm" asChild>
+              <a
+                href={documentsUrl("invoice")}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <FileText className="mr-2 h-4 w-4" />
+                {order.invoiceNumber
+                  ? `Invoice ${order.invoiceNumber}`
+                  : "Invoice"}
+              </a>
+            </Button>
+          )}
+          {PACKING_SLIP_STATUSES.includes(order.status) && (
+            <Button variant="outline" size="sm" asChild>
+              <a
+                href={documentsUrl("packing-slip")}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <ClipboardList className="mr-2 h-4 w-4" />
+                Packing Slip
+              </a>
+            </Button>
+          )}
+        </div>
       </div>
 
-      <OrderDetail order={result.data} />
+      <OrderDetail
+        order={order}
+        refunds={refunds}
+        shipments={shipments}
+        communications={communications}
+      />
     </div>
   )
 }
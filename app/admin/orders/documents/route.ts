@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { z } from "zod"
+
+import { hasPermission, requireAuth } from "@/lib/auth/rbac"
+import {
+  MAX_DOCUMENTS_PER_DOWNLOAD,
+  renderOrderDocuments,
+} from "@/lib/pdf/order-documents"
+
+const querySchema = z.object({
+  type: z.enum(["invoice", "packing-slip"]),
+  ids: z
+    .array(z.string().uuid())
+    .min(1, "Select at least one order")
+    .max(
+      MAX_DOCUMENTS_PER_DOWNLOAD,
+      `Download at most ${MAX_DOCUMENTS_PER_DOWNLOAD} orders at a time`,
+    ),
+})
+
+// GET /admin/orders/documents?type=invoice&ids=<id>,<id>
+export async function GET(request: NextRequest) {
+  let userId: string
+  try {
+    const session = await requireAuth()
+    userId = session.user.id
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!(await hasPermission(userId, "order.read"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  const { searchParams } = request.nextUrl
+  const parsed = querySchema.safeParse({
+    type: searchParams.get("type"),
+    ids: (searchParams.get("ids") || "").split(",").filter(Boolean),
+  })
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.errors[0]?.message || "Invalid request" },
+      { status: 400 },
+    )
+  }
+
+  const { type, ids } = parsed.data
+
+  try {
+    const result = await renderOrderDocuments(type, [...new Set(ids)])
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          error:
+            type === "invoice"
+              ? "None of the selected orders can be invoiced yet"
+              : "None of the selected orders are ready to pack",
+        },
+        { status: 404 },
+      )
+    }
+
+    const filename =
+      result.orderNumbers.length === 1
+        ? `${type}-${result.orderNumbers[0]}.pdf`
+        : `${type}s-${new Date().toISOString().slice(0, 10)}.pdf`
+
+    return new NextResponse(new Uint8Array(result.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Failed to render order documents:", error)
+    return NextResponse.json(
+      { error: "Failed to generate documents" },
+      { status: 500 },
+    )
+  }
+}
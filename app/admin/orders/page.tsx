@@ -50,6 +50,8 @@ async function OrdersData({
 
   return (
     <OrdersTable
+      // Start with an empty selection on each page of results
+      key={`${search}-${status}-${result.data.pagination.page}`}
       orders={result.data.orders}
       total={result.data.pagination.total}
       page={result.data.pagination.page}
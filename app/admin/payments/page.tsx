@@ -1,8 +1,12 @@
 import { Suspense } from "react"
+import Link from "next/link"
+
+import { Webhook } from "lucide-react"
 
 import { BankTransferQueue } from "@/components/admin/payments/bank-transfer-queue"
 import { PaymentStats } from "@/components/admin/payments/payment-stats"
 import { PaymentsTable } from "@/components/admin/payments/payments-table"
+import { Button } from "@/components/ui/button"
 import {
   Card,
   CardContent,
@@ -90,11 +94,19 @@ export default async function PaymentsPage({ searchParams }: PageProps) {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Payments</h1>
-        <p className="text-muted-foreground">
-          Manage payment transactions and verify bank transfers
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Payments</h1>
+          <p className="text-muted-foreground">
+            Manage payment transactions and verify bank transfers
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/payments/webhooks">
+            <Webhook className="mr-2 h-4 w-4" />
+            Webhooks
+          </Link>
+        </Button>
       </div>
 
       <Suspense fallback={<PaymentStatsSkeleton />}>
@@ -0,0 +1,89 @@
+import { Suspense } from "react"
+import Link from "next/link"
+
+import { ArrowLeft } from "lucide-react"
+
+import { WebhookEventsTable } from "@/components/admin/payments/webhook-events-table"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getWebhookEvents } from "@/lib/actions/webhook-events"
+
+export const metadata = {
+  title: "Payment Webhooks | Admin Dashboard",
+  description: "Inspect and replay payment gateway webhooks",
+}
+
+interface WebhooksPageProps {
+  searchParams: Promise<{
+    status?: string
+    provider?: string
+    search?: string
+    page?: string
+  }>
+}
+
+async function WebhookEventsData({
+  searchParams,
+}: {
+  searchParams: WebhooksPageProps["searchParams"]
+}) {
+  const params = await searchParams
+  const search = params.search || ""
+  const page = parseInt(params.page || "1", 10)
+
+  const { events, statusCounts, pagination } = await getWebhookEvents({
+    status: params.status,
+    provider: params.provider,
+    search,
+    page,
+  })
+
+  return (
+    <WebhookEventsTable
+      events={events}
+      statusCounts={statusCounts}
+      total={pagination.total}
+      page={pagination.page}
+      totalPages={pagination.totalPages}
+      search={search}
+      status={params.status || ""}
+      provider={params.provider || ""}
+    />
+  )
+}
+
+export default function WebhooksPage({ searchParams }: WebhooksPageProps) {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/admin/payments">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Payment Webhooks
+          </h1>
+          <p className="text-muted-foreground">
+            Every notification received from the payment gateways
+          </p>
+        </div>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="space-y-4">
+            <div className="flex gap-4">
+              <Skeleton className="h-10 w-96" />
+              <Skeleton className="h-10 w-64" />
+            </div>
+            <Skeleton className="h-96 w-full" />
+          </div>
+        }
+      >
+        <WebhookEventsData searchParams={searchParams} />
+      </Suspense>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+
+import { ChevronLeft } from "lucide-react"
+
+import { PriceCampaignForm } from "@/components/admin/price-campaigns/price-campaign-form"
+import { Button } from "@/components/ui/button"
+import {
+  getPriceCampaign,
+  getPriceCampaignScopeOptions,
+} from "@/lib/actions/price-campaign"
+
+interface EditPriceCampaignPageProps {
+  params: Promise<{ id: string }>
+}
+
+export async function generateMetadata({ params }: EditPriceCampaignPageProps) {
+  const { id } = await params
+  const campaign = await getPriceCampaign(id)
+
+  if (!campaign) {
+    return { title: "Campaign Not Found" }
+  }
+
+  return {
+    title: `Edit ${campaign.name} | Admin Dashboard`,
+    description: `Edit price campaign: ${campaign.name}`,
+  }
+}
+
+export default async function EditPriceCampaignPage({
+  params,
+}: EditPriceCampaignPageProps) {
+  const { id } = await params
+
+  const [campaign, { products, variants, categories }] = await Promise.all([
+    getPriceCampaign(id),
+    getPriceCampaignScopeOptions(),
+  ])
+
+  if (!campaign) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" asChild>
+          <Link href="/admin/price-campaigns">
+            <ChevronLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Edit Price Campaign</h1>
+          <p className="text-muted-foreground">
+            Update &quot;{campaign.name}&quot;
+          </p>
+        </div>
+      </div>
+
+      <PriceCampaignForm
+        campaign={campaign}
+        products={products}
+        variants={variants}
+        categories={categories}
+      />
+    </div>
+  )
+}
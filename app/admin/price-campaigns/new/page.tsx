@@ -0,0 +1,55 @@
+import { Suspense } from "react"
+import Link from "next/link"
+
+import { ChevronLeft } from "lucide-react"
+
+import { PriceCampaignForm } from "@/components/admin/price-campaigns/price-campaign-form"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getPriceCampaignScopeOptions } from "@/lib/actions/price-campaign"
+
+export const metadata = {
+  title: "Add Price Campaign | Admin Dashboard",
+  description: "Schedule a new sale",
+}
+
+async function PriceCampaignFormWrapper() {
+  const { products, variants, categories } =
+    await getPriceCampaignScopeOptions()
+
+  return (
+    <PriceCampaignForm
+      products={products}
+      variants={variants}
+      categories={categories}
+    />
+  )
+}
+
+export default function NewPriceCampaignPage() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" asChild>
+          <Link href="/admin/price-campaigns">
+            <ChevronLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Add Price Campaign</h1>
+          <p className="text-neutral-500">Schedule a new sale</p>
+        </div>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="max-w-2xl space-y-4">
+            <Skeleton className="h-64 w-full" />
+          </div>
+        }
+      >
+        <PriceCampaignFormWrapper />
+      </Suspense>
+    </div>
+  )
+}
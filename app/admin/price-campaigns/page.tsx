@@ -0,0 +1,51 @@
+import { Suspense } from "react"
+import Link from "next/link"
+
+import { Plus } from "lucide-react"
+
+import { PriceCampaignsTable } from "@/components/admin/price-campaigns/price-campaigns-table"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getPriceCampaigns } from "@/lib/actions/price-campaign"
+
+export const metadata = {
+  title: "Price Campaigns | Admin Dashboard",
+  description: "Schedule sales and markdowns",
+}
+
+async function PriceCampaignsData() {
+  const campaigns = await getPriceCampaigns()
+
+  return <PriceCampaignsTable campaigns={campaigns} />
+}
+
+export default function PriceCampaignsPage() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Price Campaigns</h1>
+          <p className="text-neutral-500">
+            Schedule sales on products, variants and categories
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/admin/price-campaigns/new">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Campaign
+          </Link>
+        </Button>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="space-y-4">
+            <Skeleton className="h-64 w-full" />
+          </div>
+        }
+      >
+        <PriceCampaignsData />
+      </Suspense>
+    </div>
+  )
+}
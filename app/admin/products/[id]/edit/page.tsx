@@ -1,8 +1,13 @@
 import { notFound } from "next/navigation"
 
 import { EditProductForm } from "@/components/admin/products/edit-product-form"
+import { ProductBundleEditor } from "@/components/admin/products/product-bundle-editor"
+import { ProductLinksEditor } from "@/components/admin/products/product-links-editor"
 import { getCategoriesFlat } from "@/lib/actions/category"
+import { getDeviceOptions, getProductDeviceIds } from "@/lib/actions/devices"
 import { getProduct } from "@/lib/actions/product"
+import { getProductBundleEditor } from "@/lib/actions/product-bundles"
+import { getProductLinkEditor } from "@/lib/actions/product-links"
 
 interface EditProductPageProps {
   params: Promise<{ id: string }>
@@ -13,10 +18,15 @@ export default async function EditProductPage({
 }: EditProductPageProps) {
   const { id } = await params
 
-  const [product, categories] = await Promise.all([
-    getProduct(id),
-    getCategoriesFlat(),
-  ])
+  const [product, categories, devices, deviceIds, bundleEditor, linkEditor] =
+    await Promise.all([
+      getProduct(id),
+      getCategoriesFlat(),
+      getDeviceOptions(),
+      getProductDeviceIds(id),
+      getProductBundleEditor(id),
+      getProductLinkEditor(id),
+    ])
 
   if (!product) {
     notFound()
@@ -35,7 +45,30 @@ export default async function EditProductPage({
         product={product}
         categories={categories}
         images={product.images}
+        devices={devices}
+        deviceIds={deviceIds}
       />
+
+      <div className="max-w-3xl mx-auto space-y-6">
+        <ProductBundleEditor
+          variants={product.variants
+            .filter((v) => v.isActive)
+            .map((v) => ({
+              id: v.id,
+              name: v.name,
+              sku: v.sku,
+              price: v.price,
+            }))}
+          bundles={bundleEditor.bundles}
+          componentOptions={bundleEditor.componentOptions}
+        />
+        <ProductLinksEditor
+          productId={product.id}
+          related={linkEditor.related}
+          crossSell={linkEditor.crossSell}
+          productOptions={linkEditor.productOptions}
+        />
+      </div>
     </div>
   )
 }
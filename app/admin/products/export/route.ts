@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+
+import { hasPermission, requireAuth } from "@/lib/auth/rbac"
+import { exportProductsCsv } from "@/lib/catalog/product-export"
+
+// GET /admin/products/export
+export async function GET() {
+  let userId: string
+  try {
+    const session = await requireAuth()
+    userId = session.user.id
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (!(await hasPermission(userId, "product.read"))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  try {
+    const csv = await exportProductsCsv()
+    const filename = `products-${new Date().toISOString().slice(0, 10)}.csv`
+
+    // The byte order mark makes Excel read the file as UTF-8
+    return new NextResponse(`\uFEFF${csv}`, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    })
+  } catch (error) {
+    console.error("Failed to export products:", error)
+    return NextResponse.json(
+      { error: "Failed to export products" },
+      { status: 500 },
+    )
+  }
+}
@@ -7,6 +7,7 @@ import { NewProductForm } from "@/components/admin/products/new-product-form"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import { getCategoriesFlat } from "@/lib/actions/category"
+import { getDeviceOptions } from "@/lib/actions/devices"
 
 export const metadata = {
   title: "Add New Product | Admin Dashboard",
@@ -14,7 +15,10 @@ export const metadata = {
 }
 
 async function ProductFormWrapper() {
-  const categories = await getCategoriesFlat()
+  const [categories, devices] = await Promise.all([
+    getCategoriesFlat(),
+    getDeviceOptions(),
+  ])
 
   // Transform to include level and path for the form
   const flatCategories = categories.map((cat) => ({
@@ -25,7 +29,7 @@ async function ProductFormWrapper() {
     path: cat.name,
   }))
 
-  return <NewProductForm categories={flatCategories} />
+  return <NewProductForm categories={flatCategories} devices={devices} />
 }
 
 export default function NewProductPage() {
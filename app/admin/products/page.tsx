@@ -1,9 +1,11 @@
 import Link from "next/link"
 
-import { Plus } from "lucide-react"
+import { Download, Plus } from "lucide-react"
 
+import { ProductImportDialog } from "@/components/admin/products/product-import-dialog"
 import { ProductsTable } from "@/components/admin/products/products-table"
 import { Button } from "@/components/ui/button"
+import { getCategoriesFlat } from "@/lib/actions/category"
 import { getProducts } from "@/lib/actions/product"
 
 interface ProductsPageProps {
@@ -22,12 +24,15 @@ export default async function ProductsPage({
   const search = params.search || ""
   const status = params.status || ""
 
-  const { products, total, totalPages } = await getProducts({
-    page,
-    search,
-    status,
-    limit: 20,
-  })
+  const [{ products, total, totalPages }, categories] = await Promise.all([
+    getProducts({
+      page,
+      search,
+      status,
+      limit: 20,
+    }),
+    getCategoriesFlat(),
+  ])
 
   return (
     <div className="space-y-6">
@@ -36,16 +41,26 @@ export default async function ProductsPage({
           <h1 className="text-3xl font-bold">Products</h1>
           <p className="text-neutral-500">Manage your product catalog</p>
         </div>
-        <Button asChild>
-          <Link href="/admin/products/new">
-            <Plus className="mr-2 h-4 w-4" />
-            Add Product
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href="/admin/products/export" download>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </a>
+          </Button>
+          <ProductImportDialog />
+          <Button asChild>
+            <Link href="/admin/products/new">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Product
+            </Link>
+          </Button>
+        </div>
       </div>
 
       <ProductsTable
         products={products}
+        categories={categories}
         total={total}
         page={page}
         totalPages={totalPages}
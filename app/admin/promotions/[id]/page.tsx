@@ -0,0 +1,66 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+
+import { ChevronLeft } from "lucide-react"
+
+import { PromotionForm } from "@/components/admin/promotions/promotion-form"
+import { Button } from "@/components/ui/button"
+import { getPromotion, getPromotionScopeOptions } from "@/lib/actions/promotion"
+
+interface EditPromotionPageProps {
+  params: Promise<{ id: string }>
+}
+
+export async function generateMetadata({ params }: EditPromotionPageProps) {
+  const { id } = await params
+  const promotion = await getPromotion(id)
+
+  if (!promotion) {
+    return { title: "Promotion Not Found" }
+  }
+
+  return {
+    title: `Edit ${promotion.code} | Admin Dashboard`,
+    description: `Edit promotion: ${promotion.name}`,
+  }
+}
+
+export default async function EditPromotionPage({
+  params,
+}: EditPromotionPageProps) {
+  const { id } = await params
+
+  const [promotion, { products, categories }] = await Promise.all([
+    getPromotion(id),
+    getPromotionScopeOptions(),
+  ])
+
+  if (!promotion) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" asChild>
+          <Link href="/admin/promotions">
+            <ChevronLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Edit Promotion</h1>
+          <p className="text-muted-foreground">
+            Update &quot;{promotion.code}&quot; · used {promotion.usageCount}{" "}
+            time(s)
+          </p>
+        </div>
+      </div>
+
+      <PromotionForm
+        promotion={promotion}
+        products={products}
+        categories={categories}
+      />
+    </div>
+  )
+}
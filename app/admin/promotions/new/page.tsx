@@ -0,0 +1,48 @@
+import { Suspense } from "react"
+import Link from "next/link"
+
+import { ChevronLeft } from "lucide-react"
+
+import { PromotionForm } from "@/components/admin/promotions/promotion-form"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getPromotionScopeOptions } from "@/lib/actions/promotion"
+
+export const metadata = {
+  title: "Add New Promotion | Admin Dashboard",
+  description: "Create a new promotion code",
+}
+
+async function PromotionFormWrapper() {
+  const { products, categories } = await getPromotionScopeOptions()
+
+  return <PromotionForm products={products} categories={categories} />
+}
+
+export default function NewPromotionPage() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" asChild>
+          <Link href="/admin/promotions">
+            <ChevronLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Add New Promotion</h1>
+          <p className="text-neutral-500">Create a new coupon code</p>
+        </div>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="max-w-2xl space-y-4">
+            <Skeleton className="h-64 w-full" />
+          </div>
+        }
+      >
+        <PromotionFormWrapper />
+      </Suspense>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { Suspense } from "react"
+import Link from "next/link"
+
+import { Plus } from "lucide-react"
+
+import { PromotionsTable } from "@/components/admin/promotions/promotions-table"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getPromotions } from "@/lib/actions/promotion"
+
+export const metadata = {
+  title: "Promotions | Admin Dashboard",
+  description: "Manage coupon and promotion codes",
+}
+
+async function PromotionsData() {
+  const promotions = await getPromotions()
+
+  return <PromotionsTable promotions={promotions} />
+}
+
+export default function PromotionsPage() {
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Promotions</h1>
+          <p className="text-neutral-500">
+            Manage coupon codes and track campaign performance
+          </p>
+        </div>
+        <Button asChild>
+          <Link href="/admin/promotions/new">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Promotion
+          </Link>
+        </Button>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="space-y-4">
+            <Skeleton className="h-64 w-full" />
+          </div>
+        }
+      >
+        <PromotionsData />
+      </Suspense>
+    </div>
+  )
+}
@@ -3,8 +3,10 @@ import { Suspense } from "react"
 import { CustomerStats } from "@/components/admin/reports/customer-stats"
 import { OrderStatusChart } from "@/components/admin/reports/order-status-chart"
 import { PaymentMethodsChart } from "@/components/admin/reports/payment-methods-chart"
+import { PromotionPerformanceTable } from "@/components/admin/reports/promotion-performance-table"
 import { SalesChart } from "@/components/admin/reports/sales-chart"
 import { SalesOverview } from "@/components/admin/reports/sales-overview"
+import { SearchTermsTable } from "@/components/admin/reports/search-terms-table"
 import { TopProductsTable } from "@/components/admin/reports/top-products-table"
 import { Card, CardContent, CardHeader } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -12,8 +14,10 @@ import {
   getCustomerStats,
   getOrderStatusDistribution,
   getPaymentMethodStats,
+  getPromotionPerformance,
   getSalesByDay,
   getSalesOverview,
+  getSearchTerms,
   getTopProducts,
 } from "@/lib/actions/reports"
 
@@ -62,6 +66,16 @@ async function TopProductsSection() {
   return <TopProductsTable products={products} />
 }
 
+async function PromotionPerformanceSection() {
+  const promotions = await getPromotionPerformance()
+  return <PromotionPerformanceTable promotions={promotions} />
+}
+
+async function SearchTermsSection() {
+  const data = await getSearchTerms()
+  return <SearchTermsTable {...data} />
+}
+
 async function PaymentMethodsSection() {
   const data = await getPaymentMethodStats()
   return <PaymentMethodsChart data={data} />
@@ -99,6 +113,8 @@ export default function ReportsPage() {
           <TabsTrigger value="products">Products</TabsTrigger>
           <TabsTrigger value="customers">Customers</TabsTrigger>
           <TabsTrigger value="orders">Orders</TabsTrigger>
+          <TabsTrigger value="promotions">Promotions</TabsTrigger>
+          <TabsTrigger value="search">Search</TabsTrigger>
         </TabsList>
 
         <TabsContent value="sales" className="space-y-4">
@@ -129,6 +145,18 @@ export default function ReportsPage() {
             <OrderStatusSection />
           </Suspense>
         </TabsContent>
+
+        <TabsContent value="promotions">
+          <Suspense fallback={<ChartSkeleton />}>
+            <PromotionPerformanceSection />
+          </Suspense>
+        </TabsContent>
+
+        <TabsContent value="search">
+          <Suspense fallback={<ChartSkeleton />}>
+            <SearchTermsSection />
+          </Suspense>
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,54 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+
+import { ChevronLeft } from "lucide-react"
+
+import { ReturnDetail } from "@/components/admin/returns/return-detail"
+import { Button } from "@/components/ui/button"
+import { getReturnRequest } from "@/lib/actions/returns"
+
+interface ReturnDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+export async function generateMetadata({ params }: ReturnDetailPageProps) {
+  const { id } = await params
+  const request = await getReturnRequest(id)
+
+  return {
+    title: request
+      ? `Return ${request.rmaNumber} | Admin Dashboard`
+      : "Return Not Found | Admin Dashboard",
+  }
+}
+
+export default async function ReturnDetailPage({
+  params,
+}: ReturnDetailPageProps) {
+  const { id } = await params
+  const request = await getReturnRequest(id)
+
+  if (!request) {
+    notFound()
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="icon" asChild>
+          <Link href="/admin/returns">
+            <ChevronLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold">Return {request.rmaNumber}</h1>
+          <p className="text-muted-foreground text-sm">
+            For order {request.orderNumber}
+          </p>
+        </div>
+      </div>
+
+      <ReturnDetail request={request} />
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { Suspense } from "react"
+
+import { ReturnsTable } from "@/components/admin/returns/returns-table"
+import { Skeleton } from "@/components/ui/skeleton"
+import { getReturnRequests } from "@/lib/actions/returns"
+
+export const metadata = {
+  title: "Returns | Admin Dashboard",
+  description: "Review and process customer return requests",
+}
+
+interface ReturnsPageProps {
+  searchParams: Promise<{
+    status?: string
+    search?: string
+    page?: string
+  }>
+}
+
+async function ReturnsData({
+  searchParams,
+}: {
+  searchParams: ReturnsPageProps["searchParams"]
+}) {
+  const params = await searchParams
+  const search = params.search || ""
+  const page = parseInt(params.page || "1", 10)
+
+  const { requests, statusCounts, pagination } = await getReturnRequests({
+    status: params.status,
+    search,
+    page,
+  })
+
+  return (
+    <ReturnsTable
+      requests={requests}
+      statusCounts={statusCounts}
+      total={pagination.total}
+      page={pagination.page}
+      totalPages={pagination.totalPages}
+      search={search}
+      status={params.status || ""}
+    />
+  )
+}
+
+export default function ReturnsPage({ searchParams }: ReturnsPageProps) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Returns</h1>
+        <p className="text-neutral-500">
+          Approve, receive and inspect customer returns
+        </p>
+      </div>
+
+      <Suspense
+        fallback={
+          <div className="space-y-4">
+            <div className="flex gap-4">
+              <Skeleton className="h-10 w-96" />
+              <Skeleton className="h-10 w-64" />
+            </div>
+            <Skeleton className="h-96 w-full" />
+          </div>
+        }
+      >
+        <ReturnsData searchParams={searchParams} />
+      </Suspense>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { Suspense } from "react"
+
+import { ShippingZonesTable } from "@/components/admin/shipping/shipping-zones-table"
+import { TaxRatesTable } from "@/components/admin/shipping/tax-rates-table"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { getShippingZones, getTaxRates } from "@/lib/actions/shipping"
+
+export const metadata = {
+  title: "Shipping & Tax | Admin Dashboard",
+  description: "Manage shipping zones and tax rates",
+}
+
+function TableSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-lg">
+        <div className="h-10 border-b bg-muted/50" />
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-14 border-b flex items-center px-4">
+            <div className="h-4 w-full bg-muted animate-pulse rounded" />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+async function ShippingZonesSection() {
+  const zones = await getShippingZones()
+  return <ShippingZonesTable zones={zones} />
+}
+
+async function TaxRatesSection() {
+  const rates = await getTaxRates()
+  return <TaxRatesTable rates={rates} />
+}
+
+export default function ShippingPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Shipping & Tax</h1>
+        <p className="text-muted-foreground">
+          Regional shipping rates and tax rules. Store-wide defaults live in
+          Settings.
+        </p>
+      </div>
+
+      <Tabs defaultValue="zones" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="zones">Shipping Zones</TabsTrigger>
+          <TabsTrigger value="tax">Tax Rates</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="zones">
+          <Card>
+            <CardHeader>
+              <CardTitle>Shipping Zones</CardTitle>
+              <CardDescription>
+                Flat rates per method plus an optional per kg surcharge
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Suspense fallback={<TableSkeleton />}>
+                <ShippingZonesSection />
+              </Suspense>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="tax">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tax Rates</CardTitle>
+              <CardDescription>
+                Percentage tax applied by shipping destination
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Suspense fallback={<TableSkeleton />}>
+                <TaxRatesSection />
+              </Suspense>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
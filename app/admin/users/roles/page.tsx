@@ -116,6 +116,12 @@ export default async function RolesPage() {
                 <li>
                   <strong>Reports</strong> - Access analytics and reports
                 </li>
+                <li>
+                  <strong>Promotions</strong> - Manage coupon codes
+                </li>
+                <li>
+                  <strong>Returns</strong> - Review and process return requests
+                </li>
               </ul>
             </div>
             <div>
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { sendBackInStockAlerts } from "@/lib/jobs/back-in-stock"
+import { verifyCronRequest } from "@/lib/jobs/cron-auth"
+
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    const result = await sendBackInStockAlerts()
+
+    console.log(`Back in stock: ${result.notified} alert(s) sent`)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Back in stock alerts failed:", error)
+    return NextResponse.json(
+      { error: "Failed to send back in stock alerts" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,40 @@
+import { revalidatePath } from "next/cache"
+import { NextRequest, NextResponse } from "next/server"
+
+import { cancelStaleOrders } from "@/lib/jobs/cancel-stale-orders"
+import { verifyCronRequest } from "@/lib/jobs/cron-auth"
+
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    const result = await cancelStaleOrders()
+
+    if (result.cancelled.length > 0) {
+      revalidatePath("/admin/orders")
+      revalidatePath("/admin/payments")
+      revalidatePath("/admin/inventory")
+      revalidatePath("/orders")
+    }
+
+    console.log(
+      `Cancelled ${result.cancelled.length} stale order(s) older than ${result.hours}h`,
+    )
+
+    return NextResponse.json({
+      success: true,
+      hours: result.hours,
+      cancelled: result.cancelled,
+      skipped: result.skipped,
+    })
+  } catch (error) {
+    console.error("Stale order cancellation failed:", error)
+    return NextResponse.json(
+      { error: "Failed to cancel stale orders" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { verifyCronRequest } from "@/lib/jobs/cron-auth"
+import { processEmailOutbox } from "@/lib/jobs/email-outbox"
+
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    const result = await processEmailOutbox()
+
+    console.log(
+      `Email outbox: ${result.sent} sent, ${result.retrying} retrying, ${result.failed} failed`,
+    )
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Email outbox run failed:", error)
+    return NextResponse.json(
+      { error: "Failed to process the email outbox" },
+      { status: 500 },
+    )
+  }
+}
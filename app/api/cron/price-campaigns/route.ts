@@ -0,0 +1,35 @@
+import { revalidatePath } from "next/cache"
+import { NextRequest, NextResponse } from "next/server"
+
+import { verifyCronRequest } from "@/lib/jobs/cron-auth"
+import { collectPriceCampaignTransitions } from "@/lib/jobs/price-campaigns"
+import { revalidateProductCaches } from "@/lib/utils/cache"
+
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    const result = await collectPriceCampaignTransitions()
+
+    if (result.started.length > 0 || result.ended.length > 0) {
+      revalidateProductCaches()
+      revalidatePath("/deals")
+      revalidatePath("/admin/price-campaigns")
+    }
+
+    console.log(
+      `Price campaigns: ${result.started.length} started, ${result.ended.length} ended`,
+    )
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Price campaign refresh failed:", error)
+    return NextResponse.json(
+      { error: "Failed to refresh price campaigns" },
+      { status: 500 },
+    )
+  }
+}
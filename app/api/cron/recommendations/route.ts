@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server"
+
+import { refreshCoPurchases } from "@/lib/jobs/co-purchases"
+import { verifyCronRequest } from "@/lib/jobs/cron-auth"
+
+export async function GET(request: NextRequest) {
+  const unauthorized = verifyCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    const result = await refreshCoPurchases()
+
+    console.log(`Recommendations: ${result.pairs} co-purchase pairs`)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Recommendation refresh failed:", error)
+    return NextResponse.json(
+      { error: "Failed to refresh recommendations" },
+      { status: 500 },
+    )
+  }
+}
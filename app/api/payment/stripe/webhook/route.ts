@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server"
+
+import { stripeProvider } from "@/lib/payments/stripe"
+import { handlePaymentWebhook } from "@/lib/payments/webhooks"
+
+// Stripe Checkout webhook handler
+export async function POST(request: NextRequest) {
+  return handlePaymentWebhook(stripeProvider, request)
+}
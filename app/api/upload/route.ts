@@ -10,14 +10,43 @@ import { hasAnyRole } from "@/lib/auth/rbac"
 // Maximum file size: 10MB
 const MAX_FILE_SIZE = 10 * 1024 * 1024
 
-// Allowed image types
-const ALLOWED_TYPES = [
-  "image/jpeg",
-  "image/png",
-  "image/webp",
-  "image/gif",
-  "image/avif",
-]
+// Allowed image types and the extension each is stored with
+const ALLOWED_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/avif": "avif",
+}
+
+// Folders any signed-in customer may upload to (e.g. return photos)
+const CUSTOMER_FOLDERS = ["returns"]
+
+/**
+ * Work out the image type from the file's leading bytes, so the declared
+ * type and file name are never trusted
+ */
+function detectImageType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end))
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg"
+  }
+  if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") {
+    return "image/png"
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+    return "image/gif"
+  }
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+    return "image/webp"
+  }
+  if (ascii(4, 8) === "ftyp" && ["avif", "avis"].includes(ascii(8, 12))) {
+    return "image/avif"
+  }
+  return null
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,8 +59,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    // Check if user is admin or manager
-    const canUpload = await hasAnyRole(session.user.id, ["admin", "manager"])
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    const folder = (formData.get("folder") as string) || "products"
+
+    // Check if user is admin or manager, unless the folder is open to customers
+    const canUpload =
+      CUSTOMER_FOLDERS.includes(folder) ||
+      (await hasAnyRole(session.user.id, ["admin", "manager"]))
     if (!canUpload) {
       return NextResponse.json(
         { error: "Forbidden - Admin access required" },
@@ -39,10 +74,6 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const formData = await request.formData()
-    const file = formData.get("file") as File | null
-    const folder = (formData.get("folder") as string) || "products"
-
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 })
     }
@@ -55,22 +86,25 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate file type
-    if (!ALLOWED_TYPES.includes(file.type)) {
+    // Validate file type against the file's contents
+    const type = detectImageType(
+      new Uint8Array(await file.slice(0, 16).arrayBuffer()),
+    )
+    if (!type) {
       return NextResponse.json(
         { error: "Invalid file type. Allowed: JPEG, PNG, WebP, GIF, AVIF" },
         { status: 400 },
       )
     }
 
-    // Generate unique filename with original extension
-    const ext = file.name.split(".").pop()?.toLowerCase() || "jpg"
-    const filename = `${folder}/${nanoid()}.${ext}`
+    // Generate unique filename with the extension for the detected type
+    const filename = `${folder}/${nanoid()}.${ALLOWED_TYPES[type]}`
 
     // Upload to Vercel Blob
     const blob = await put(filename, file, {
       access: "public",
       addRandomSuffix: false,
+      contentType: type,
     })
 
     return NextResponse.json({
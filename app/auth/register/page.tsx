@@ -3,7 +3,7 @@
 import { Suspense, useState } from "react"
 import { useForm } from "react-hook-form"
 import Link from "next/link"
-import { useRouter } from "next/navigation"
+import { useRouter, useSearchParams } from "next/navigation"
 
 import { zodResolver } from "@hookform/resolvers/zod"
 import { toast } from "sonner"
@@ -54,6 +54,12 @@ type RegisterFormData = z.infer<typeof registerSchema>
  */
 function RegisterForm() {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  // Sent on to the login page, e.g. back to a guest order
+  const callbackUrl = searchParams.get("callbackUrl")
+  const loginUrl = callbackUrl
+    ? `/auth/login?callbackUrl=${encodeURIComponent(callbackUrl)}`
+    : "/auth/login"
   const [isLoading, setIsLoading] = useState(false)
 
   const {
@@ -80,7 +86,7 @@ function RegisterForm() {
       }
 
       toast.success("Account created successfully! Please sign in.")
-      router.push("/auth/login")
+      router.push(loginUrl)
     } catch {
       toast.error("An unexpected error occurred")
     } finally {
@@ -163,7 +169,7 @@ function RegisterForm() {
           <p className="text-center text-sm text-neutral-600 dark:text-neutral-400">
             Already have an account?{" "}
             <Link
-              href="/auth/login"
+              href={loginUrl}
               className="font-medium underline hover:text-neutral-900 dark:hover:text-neutral-100"
             >
               Sign in
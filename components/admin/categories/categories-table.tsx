@@ -1,193 +0,0 @@
-"use client"
-
-import { useState } from "react"
-import Link from "next/link"
-import { useRouter } from "next/navigation"
-
-import { Eye, FolderTree, MoreHorizontal, Pencil, Trash2 } from "lucide-react"
-import { toast } from "sonner"
-
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog"
-import { Badge } from "@/components/ui/badge"
-import { Button } from "@/components/ui/button"
-import {
-  DropdownMenu,
-  DropdownMenuContent,
-  DropdownMenuItem,
-  DropdownMenuTrigger,
-} from "@/components/ui/dropdown-menu"
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableHead,
-  TableHeader,
-  TableRow,
-} from "@/components/ui/table"
-import { deleteCategory } from "@/lib/actions/category"
-
-interface Category {
-  id: string
-  name: string
-  slug: string
-  level: number
-  path: string
-  isActive: boolean
-  sortOrder: number
-}
-
-interface CategoriesTableProps {
-  categories: Category[]
-}
-
-export function CategoriesTable({ categories }: CategoriesTableProps) {
-  const router = useRouter()
-  const [deleteId, setDeleteId] = useState<string | null>(null)
-  const [isDeleting, setIsDeleting] = useState(false)
-
-  const handleDelete = async () => {
-    if (!deleteId) return
-
-    setIsDeleting(true)
-    try {
-      const result = await deleteCategory(deleteId)
-      if (result.success) {
-        toast.success("Category deleted successfully")
-        router.refresh()
-      } else {
-        toast.error(result.error || "Failed to delete category")
-      }
-    } catch (error) {
-      toast.error("Something went wrong")
-      console.log(error)
-    } finally {
-      setIsDeleting(false)
-      setDeleteId(null)
-    }
-  }
-
-  return (
-    <>
-      <div className="rounded-md border">
-        <Table>
-          <TableHeader>
-            <TableRow>
-              <TableHead>Category</TableHead>
-              <TableHead>Slug</TableHead>
-              <TableHead>Status</TableHead>
-              <TableHead>Sort Order</TableHead>
-              <TableHead className="w-17.5"></TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {categories.length === 0 ? (
-              <TableRow>
-                <TableCell
-                  colSpan={5}
-                  className="text-center py-8 text-neutral-500"
-                >
-                  No categories found
-                </TableCell>
-              </TableRow>
-            ) : (
-              categories.map((category) => (
-                <TableRow key={category.id}>
-                  <TableCell>
-                    <div className="flex items-center gap-2">
-                      {category.level > 0 && (
-                        <span className="text-neutral-300">
-                          {"└".padStart(category.level * 2, "  ")}
-                        </span>
-                      )}
-                      <FolderTree className="h-4 w-4 text-neutral-500" />
-                      <span className="font-medium">{category.name}</span>
-                    </div>
-                  </TableCell>
-                  <TableCell className="text-neutral-500">
-                    {category.slug}
-                  </TableCell>
-                  <TableCell>
-                    <Badge
-                      className={
-                        category.isActive
-                          ? "bg-green-100 text-green-800"
-                          : "bg-neutral-100 text-neutral-800"
-                      }
-                    >
-                      {category.isActive ? "Active" : "Inactive"}
-                    </Badge>
-                  </TableCell>
-                  <TableCell>{category.sortOrder}</TableCell>
-                  <TableCell>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="icon">
-                          <MoreHorizontal className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem asChild>
-                          <Link
-                            href={`/categories/${category.slug}`}
-                            target="_blank"
-                          >
-                            <Eye className="mr-2 h-4 w-4" />
-                            View
-                          </Link>
-                        </DropdownMenuItem>
-                        <DropdownMenuItem asChild>
-                          <Link href={`/admin/categories/${category.id}`}>
-                            <Pencil className="mr-2 h-4 w-4" />
-                            Edit
-                          </Link>
-                        </DropdownMenuItem>
-                        <DropdownMenuItem
-                          className="text-red-600"
-                          onClick={() => setDeleteId(category.id)}
-                        >
-                          <Trash2 className="mr-2 h-4 w-4" />
-                          Delete
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </TableCell>
-                </TableRow>
-              ))
-            )}
-          </TableBody>
-        </Table>
-      </div>
-
-      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete this
-              category and may affect associated products.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              onClick={handleDelete}
-              disabled={isDeleting}
-              className="bg-red-600 hover:bg-red-700"
-            >
-              {isDeleting ? "Deleting..." : "Delete"}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-    </>
-  )
-}
@@ -0,0 +1,322 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import {
+  ChevronDown,
+  ChevronRight,
+  Eye,
+  FolderTree,
+  GripVertical,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+} from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { deleteCategory, moveCategory } from "@/lib/actions/category"
+import { cn } from "@/lib/utils"
+import {
+  type CategoryNode,
+  descendantIds,
+  flattenCategoryTree,
+} from "@/lib/utils/categories"
+
+interface Category {
+  id: string
+  name: string
+  slug: string
+  parentId: string | null
+  isActive: boolean
+}
+
+interface CategoryTreeProps {
+  categories: CategoryNode<Category>[]
+}
+
+// Where a dragged category lands relative to the row under the pointer
+type DropPosition = "before" | "inside" | "after"
+
+function dropPositionFor(event: React.DragEvent<HTMLElement>): DropPosition {
+  const rect = event.currentTarget.getBoundingClientRect()
+  const offset = (event.clientY - rect.top) / rect.height
+  if (offset < 0.25) return "before"
+  if (offset > 0.75) return "after"
+  return "inside"
+}
+
+export function CategoryTree({ categories }: CategoryTreeProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{
+    id: string
+    position: DropPosition
+  } | null>(null)
+  const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const flat = flattenCategoryTree(categories)
+  const nodes = new Map<string, CategoryNode<Category>>()
+  const collect = (list: CategoryNode<Category>[]) => {
+    for (const node of list) {
+      nodes.set(node.id, node)
+      collect(node.children)
+    }
+  }
+  collect(categories)
+
+  // The dragged category and its subtree are not valid drop targets
+  const blockedIds = draggingId ? descendantIds(flat, draggingId) : new Set()
+
+  const toggleCollapsed = (id: string) => {
+    const next = new Set(collapsed)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setCollapsed(next)
+  }
+
+  const handleDrop = (targetId: string, position: DropPosition) => {
+    const id = draggingId
+    setDraggingId(null)
+    setDropTarget(null)
+    if (!id || blockedIds.has(targetId)) return
+
+    const target = nodes.get(targetId)!
+    let parentId: string | null
+    let index: number
+
+    if (position === "inside") {
+      parentId = target.id
+      index = target.children.filter((c) => c.id !== id).length
+    } else {
+      parentId = target.parentId
+      const siblings = (
+        parentId ? nodes.get(parentId)!.children : categories
+      ).filter((c) => c.id !== id)
+      index =
+        siblings.findIndex((c) => c.id === targetId) +
+        (position === "after" ? 1 : 0)
+    }
+
+    startTransition(async () => {
+      const result = await moveCategory({ id, parentId, index })
+      if (result.success) {
+        if (position === "inside") {
+          const next = new Set(collapsed)
+          next.delete(targetId)
+          setCollapsed(next)
+        }
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to move category")
+      }
+    })
+  }
+
+  const handleDelete = async () => {
+    if (!deleteId) return
+
+    setIsDeleting(true)
+    try {
+      const result = await deleteCategory(deleteId)
+      if (result.success) {
+        toast.success("Category deleted successfully")
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to delete category")
+      }
+    } catch (error) {
+      toast.error("Something went wrong")
+      console.log(error)
+    } finally {
+      setIsDeleting(false)
+      setDeleteId(null)
+    }
+  }
+
+  const renderNode = (node: CategoryNode<Category>, level: number) => {
+    const isCollapsed = collapsed.has(node.id)
+    const isTarget = dropTarget?.id === node.id
+
+    return (
+      <li key={node.id}>
+        <div
+          draggable={!isPending}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move"
+            e.dataTransfer.setData("text/plain", node.id)
+            setDraggingId(node.id)
+          }}
+          onDragEnd={() => {
+            setDraggingId(null)
+            setDropTarget(null)
+          }}
+          onDragOver={(e) => {
+            if (!draggingId || blockedIds.has(node.id)) return
+            e.preventDefault()
+            e.dataTransfer.dropEffect = "move"
+            const position = dropPositionFor(e)
+            if (!isTarget || dropTarget?.position !== position) {
+              setDropTarget({ id: node.id, position })
+            }
+          }}
+          onDragLeave={() => isTarget && setDropTarget(null)}
+          onDrop={(e) => {
+            e.preventDefault()
+            handleDrop(node.id, dropPositionFor(e))
+          }}
+          className={cn(
+            "flex items-center gap-2 border-b px-3 py-2 bg-white dark:bg-neutral-950",
+            draggingId === node.id && "opacity-50",
+            isTarget &&
+              dropTarget.position === "inside" &&
+              "bg-primary/10 ring-1 ring-inset ring-primary",
+            isTarget &&
+              dropTarget.position === "before" &&
+              "border-t-2 border-t-primary",
+            isTarget &&
+              dropTarget.position === "after" &&
+              "border-b-2 border-b-primary",
+          )}
+          style={{ paddingLeft: `${level * 1.5 + 0.75}rem` }}
+        >
+          <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-neutral-400" />
+          {node.children.length > 0 ? (
+            <button
+              type="button"
+              onClick={() => toggleCollapsed(node.id)}
+              className="text-neutral-500 hover:text-neutral-900"
+              aria-label={isCollapsed ? "Expand" : "Collapse"}
+            >
+              {isCollapsed ? (
+                <ChevronRight className="h-4 w-4" />
+              ) : (
+                <ChevronDown className="h-4 w-4" />
+              )}
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+          <FolderTree className="h-4 w-4 text-neutral-500" />
+          <span className="font-medium">{node.name}</span>
+          <span className="text-sm text-neutral-500">{node.slug}</span>
+          {node.children.length > 0 && (
+            <span className="text-xs text-neutral-400">
+              {node.children.length} subcategor
+              {node.children.length === 1 ? "y" : "ies"}
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-2">
+            <Badge
+              className={
+                node.isActive
+                  ? "bg-green-100 text-green-800"
+                  : "bg-neutral-100 text-neutral-800"
+              }
+            >
+              {node.isActive ? "Active" : "Inactive"}
+            </Badge>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon">
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <Link href={`/categories/${node.slug}`} target="_blank">
+                    <Eye className="mr-2 h-4 w-4" />
+                    View
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <Link href={`/admin/categories/${node.id}`}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit
+                  </Link>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="text-red-600"
+                  onClick={() => setDeleteId(node.id)}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+        {node.children.length > 0 && !isCollapsed && (
+          <ul>{node.children.map((child) => renderNode(child, level + 1))}</ul>
+        )}
+      </li>
+    )
+  }
+
+  return (
+    <>
+      <p className="text-sm text-neutral-500">
+        Drag a category onto another to nest it, or to its top or bottom edge to
+        place it before or after.
+      </p>
+      <div className="rounded-md border overflow-hidden">
+        {categories.length === 0 ? (
+          <div className="text-center py-8 text-neutral-500">
+            No categories found
+          </div>
+        ) : (
+          <ul className={cn(isPending && "opacity-60")}>
+            {categories.map((node) => renderNode(node, 0))}
+          </ul>
+        )}
+      </div>
+
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. This will permanently delete this
+              category and may affect associated products.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,489 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+
+import { Loader2, Pencil, Plus, Smartphone, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  deleteDeviceBrand,
+  deleteDeviceModel,
+  saveDeviceBrand,
+  saveDeviceModel,
+} from "@/lib/actions/devices"
+
+interface DeviceModel {
+  id: string
+  brandId: string
+  name: string
+  releaseYear: number | null
+  sortOrder: number
+  isActive: boolean
+  productCount: number
+}
+
+interface DeviceBrand {
+  id: string
+  name: string
+  sortOrder: number
+  models: DeviceModel[]
+}
+
+interface DeviceCatalogProps {
+  brands: DeviceBrand[]
+}
+
+interface BrandFormValues {
+  name: string
+  sortOrder: string
+}
+
+interface ModelFormValues {
+  brandId: string
+  name: string
+  releaseYear: string
+  sortOrder: string
+  isActive: boolean
+}
+
+const EMPTY_BRAND_FORM: BrandFormValues = { name: "", sortOrder: "0" }
+
+const EMPTY_MODEL_FORM: ModelFormValues = {
+  brandId: "",
+  name: "",
+  releaseYear: "",
+  sortOrder: "0",
+  isActive: true,
+}
+
+type DeleteTarget = { type: "brand" | "model"; id: string; name: string }
+
+export function DeviceCatalog({ brands }: DeviceCatalogProps) {
+  const router = useRouter()
+  const [brandDialogOpen, setBrandDialogOpen] = useState(false)
+  const [modelDialogOpen, setModelDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [brandForm, setBrandForm] = useState<BrandFormValues>(EMPTY_BRAND_FORM)
+  const [modelForm, setModelForm] = useState<ModelFormValues>(EMPTY_MODEL_FORM)
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  function openCreateBrand() {
+    setEditingId(null)
+    setBrandForm(EMPTY_BRAND_FORM)
+    setBrandDialogOpen(true)
+  }
+
+  function openEditBrand(brand: DeviceBrand) {
+    setEditingId(brand.id)
+    setBrandForm({ name: brand.name, sortOrder: brand.sortOrder.toString() })
+    setBrandDialogOpen(true)
+  }
+
+  function openCreateModel(brandId: string) {
+    setEditingId(null)
+    setModelForm({ ...EMPTY_MODEL_FORM, brandId })
+    setModelDialogOpen(true)
+  }
+
+  function openEditModel(model: DeviceModel) {
+    setEditingId(model.id)
+    setModelForm({
+      brandId: model.brandId,
+      name: model.name,
+      releaseYear: model.releaseYear?.toString() ?? "",
+      sortOrder: model.sortOrder.toString(),
+      isActive: model.isActive,
+    })
+    setModelDialogOpen(true)
+  }
+
+  function updateModelField<K extends keyof ModelFormValues>(
+    key: K,
+    value: ModelFormValues[K],
+  ) {
+    setModelForm((prev) => ({ ...prev, [key]: value }))
+  }
+
+  async function handleSaveBrand() {
+    setIsSubmitting(true)
+    const result = await saveDeviceBrand(
+      {
+        name: brandForm.name,
+        sortOrder: parseInt(brandForm.sortOrder) || 0,
+      },
+      editingId ?? undefined,
+    )
+    setIsSubmitting(false)
+
+    if (result.success) {
+      toast.success(editingId ? "Brand updated" : "Brand added")
+      setBrandDialogOpen(false)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to save brand")
+    }
+  }
+
+  async function handleSaveModel() {
+    setIsSubmitting(true)
+    const result = await saveDeviceModel(
+      {
+        brandId: modelForm.brandId,
+        name: modelForm.name,
+        releaseYear: modelForm.releaseYear
+          ? parseInt(modelForm.releaseYear)
+          : null,
+        sortOrder: parseInt(modelForm.sortOrder) || 0,
+        isActive: modelForm.isActive,
+      },
+      editingId ?? undefined,
+    )
+    setIsSubmitting(false)
+
+    if (result.success) {
+      toast.success(editingId ? "Device updated" : "Device added")
+      setModelDialogOpen(false)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to save device")
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteTarget) return
+
+    setIsSubmitting(true)
+    const result =
+      deleteTarget.type === "brand"
+        ? await deleteDeviceBrand(deleteTarget.id)
+        : await deleteDeviceModel(deleteTarget.id)
+    setIsSubmitting(false)
+    setDeleteTarget(null)
+
+    if (result.success) {
+      toast.success(`${deleteTarget.name} deleted`)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to delete")
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openCreateBrand}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Brand
+        </Button>
+      </div>
+
+      {brands.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center py-12 text-center">
+            <Smartphone className="h-10 w-10 text-neutral-400 mb-3" />
+            <p className="text-neutral-500">
+              No devices yet. Add a brand, then the models your accessories fit.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        brands.map((brand) => (
+          <Card key={brand.id}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-lg">{brand.name}</CardTitle>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => openCreateModel(brand.id)}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Model
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => openEditBrand(brand)}
+                  title="Edit brand"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    setDeleteTarget({
+                      type: "brand",
+                      id: brand.id,
+                      name: brand.name,
+                    })
+                  }
+                  title="Delete brand"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Model</TableHead>
+                      <TableHead>Released</TableHead>
+                      <TableHead className="text-right">Products</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="w-24"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {brand.models.length === 0 ? (
+                      <TableRow>
+                        <TableCell
+                          colSpan={5}
+                          className="text-center py-6 text-neutral-500"
+                        >
+                          No models for this brand yet.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      brand.models.map((model) => (
+                        <TableRow key={model.id}>
+                          <TableCell className="font-medium">
+                            {model.name}
+                          </TableCell>
+                          <TableCell className="text-neutral-500">
+                            {model.releaseYear ?? "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {model.productCount}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={model.isActive ? "default" : "secondary"}
+                            >
+                              {model.isActive ? "Active" : "Hidden"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openEditModel(model)}
+                                title="Edit"
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() =>
+                                  setDeleteTarget({
+                                    type: "model",
+                                    id: model.id,
+                                    name: model.name,
+                                  })
+                                }
+                                title="Delete"
+                              >
+                                <Trash2 className="h-4 w-4 text-red-600" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {/* Brand Dialog */}
+      <Dialog open={brandDialogOpen} onOpenChange={setBrandDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Brand" : "Add Brand"}</DialogTitle>
+            <DialogDescription>
+              Brands group device models in the storefront device selector.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="brand-name">Name</Label>
+              <Input
+                id="brand-name"
+                placeholder="Apple"
+                value={brandForm.name}
+                onChange={(e) =>
+                  setBrandForm((prev) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="brand-sort">Sort Order</Label>
+              <Input
+                id="brand-sort"
+                type="number"
+                value={brandForm.sortOrder}
+                onChange={(e) =>
+                  setBrandForm((prev) => ({
+                    ...prev,
+                    sortOrder: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBrandDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveBrand} disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save Brand
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Model Dialog */}
+      <Dialog open={modelDialogOpen} onOpenChange={setModelDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? "Edit Device" : "Add Device"}
+            </DialogTitle>
+            <DialogDescription>
+              Hidden devices keep their product links but aren&apos;t offered in
+              the storefront.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="model-name">Model Name</Label>
+              <Input
+                id="model-name"
+                placeholder="iPhone 15 Pro"
+                value={modelForm.name}
+                onChange={(e) => updateModelField("name", e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="model-year">Release Year</Label>
+                <Input
+                  id="model-year"
+                  type="number"
+                  placeholder="Optional"
+                  value={modelForm.releaseYear}
+                  onChange={(e) =>
+                    updateModelField("releaseYear", e.target.value)
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="model-sort">Sort Order</Label>
+                <Input
+                  id="model-sort"
+                  type="number"
+                  value={modelForm.sortOrder}
+                  onChange={(e) =>
+                    updateModelField("sortOrder", e.target.value)
+                  }
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="model-active">Active</Label>
+              <Switch
+                id="model-active"
+                checked={modelForm.isActive}
+                onCheckedChange={(checked) =>
+                  updateModelField("isActive", checked)
+                }
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setModelDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveModel} disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save Device
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!deleteTarget}
+        onOpenChange={() => setDeleteTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleteTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.type === "brand"
+                ? "All of its models are deleted too, and products lose their compatibility with them."
+                : "Products lose their compatibility with this device."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { Loader2, RefreshCw } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { resendEmailMessage } from "@/lib/actions/emails"
+import { formatDate } from "@/lib/utils"
+
+interface EmailMessage {
+  id: string
+  templateName: string
+  recipient: string
+  subject: string
+  status: "queued" | "sending" | "sent" | "failed"
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: Date
+  lastError: string | null
+  transport: string | null
+  resendOf: string | null
+  requestedByName: string | null
+  orderId: string | null
+  createdAt: Date
+  sentAt: Date | null
+  canResend: boolean
+}
+
+interface EmailMessageListProps {
+  messages: EmailMessage[]
+  // Link each email to its order, for lists that span orders
+  showOrderLink?: boolean
+}
+
+const emailStatusColors: Record<EmailMessage["status"], string> = {
+  queued: "bg-yellow-100 text-yellow-800",
+  sending: "bg-blue-100 text-blue-800",
+  sent: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+}
+
+const dateTime: Intl.DateTimeFormatOptions = {
+  dateStyle: "medium",
+  timeStyle: "short",
+}
+
+export function EmailMessageList({
+  messages,
+  showOrderLink = false,
+}: EmailMessageListProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [resendingId, setResendingId] = useState<string | null>(null)
+
+  const handleResend = (id: string) => {
+    setResendingId(id)
+    startTransition(async () => {
+      const result = await resendEmailMessage(id)
+
+      if (result.success) {
+        toast.success("Email queued to send again")
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to resend email")
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      {messages.map((message) => (
+        <div key={message.id} className="rounded-lg border p-3 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium">{message.templateName}</span>
+            <Badge className={emailStatusColors[message.status]}>
+              {message.status}
+            </Badge>
+          </div>
+          <p className="truncate text-muted-foreground">{message.subject}</p>
+          <p className="text-xs text-muted-foreground">
+            To {message.recipient} · {formatDate(message.createdAt, dateTime)}
+            {message.resendOf &&
+              ` · Resent${message.requestedByName ? ` by ${message.requestedByName}` : ""}`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {message.status === "sent" && message.sentAt
+              ? `Delivered ${formatDate(message.sentAt, dateTime)}${
+                  message.transport === "capture" ? " · Captured locally" : ""
+                }`
+              : message.status === "queued" && message.attempts > 0
+                ? `Attempt ${message.attempts} of ${message.maxAttempts} failed · Retrying ${formatDate(message.nextAttemptAt, dateTime)}`
+                : message.status === "failed"
+                  ? `Gave up after ${message.attempts} attempts`
+                  : "Waiting to send"}
+          </p>
+          {message.lastError && message.status !== "sent" && (
+            <p className="mt-1 text-red-600">{message.lastError}</p>
+          )}
+          <div className="mt-2 flex items-center justify-between gap-2">
+            {showOrderLink && message.orderId ? (
+              <Link
+                href={`/admin/orders/${message.orderId}`}
+                className="text-xs text-primary hover:underline"
+              >
+                View order
+              </Link>
+            ) : (
+              <span />
+            )}
+            {message.canResend && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleResend(message.id)}
+                disabled={isPending}
+              >
+                {isPending && resendingId === message.id ? (
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-3 w-3" />
+                )}
+                Resend
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+"use client"
+
+import { useState, useTransition } from "react"
+
+import { Loader2, Mail, Send } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { sendTestEmail } from "@/lib/actions/emails"
+import { cn } from "@/lib/utils"
+
+interface EmailPreview {
+  id: string
+  name: string
+  description: string
+  group: string
+  subject: string
+  html: string
+  text: string
+}
+
+interface EmailTemplateGalleryProps {
+  templates: EmailPreview[]
+  defaultRecipient: string
+}
+
+export function EmailTemplateGallery({
+  templates,
+  defaultRecipient,
+}: EmailTemplateGalleryProps) {
+  const [selectedId, setSelectedId] = useState(templates[0]?.id)
+  const [recipient, setRecipient] = useState(defaultRecipient)
+  const [isPending, startTransition] = useTransition()
+
+  const selected = templates.find((t) => t.id === selectedId) ?? templates[0]
+  const groups = [...new Set(templates.map((t) => t.group))]
+
+  const handleSendTest = () => {
+    if (!selected) return
+
+    startTransition(async () => {
+      const result = await sendTestEmail({
+        template: selected.id,
+        to: recipient,
+      })
+
+      if (result.success) {
+        toast.success(
+          result.capturedTo ? "Test email captured" : "Test email sent",
+          {
+            description: result.capturedTo
+              ? `No email provider is configured. Saved to ${result.capturedTo}`
+              : `Sent to ${recipient}`,
+          },
+        )
+      } else {
+        toast.error(result.error || "Failed to send test email")
+      }
+    })
+  }
+
+  if (!selected) {
+    return null
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[280px_1fr]">
+      {/* Template List */}
+      <Card className="h-fit">
+        <CardContent className="space-y-4 p-4">
+          {groups.map((group) => (
+            <div key={group} className="space-y-1">
+              <p className="px-2 text-xs font-medium uppercase text-neutral-500">
+                {group}
+              </p>
+              {templates
+                .filter((t) => t.group === group)
+                .map((template) => (
+                  <button
+                    key={template.id}
+                    type="button"
+                    onClick={() => setSelectedId(template.id)}
+                    className={cn(
+                      "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm transition-colors",
+                      template.id === selected.id
+                        ? "bg-primary text-primary-foreground"
+                        : "hover:bg-muted",
+                    )}
+                  >
+                    <Mail className="h-4 w-4 shrink-0" />
+                    {template.name}
+                  </button>
+                ))}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Preview */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <CardTitle>{selected.name}</CardTitle>
+              <CardDescription>{selected.description}</CardDescription>
+            </div>
+            <Badge variant="outline" className="font-mono">
+              {selected.id}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-md border bg-muted/50 px-3 py-2 text-sm">
+            <span className="text-muted-foreground">Subject: </span>
+            {selected.subject}
+          </div>
+
+          <Tabs defaultValue="html">
+            <TabsList>
+              <TabsTrigger value="html">HTML</TabsTrigger>
+              <TabsTrigger value="text">Plain Text</TabsTrigger>
+            </TabsList>
+            <TabsContent value="html">
+              <iframe
+                key={selected.id}
+                title={`${selected.name} preview`}
+                srcDoc={selected.html}
+                sandbox=""
+                className="h-[600px] w-full rounded-md border bg-white"
+              />
+            </TabsContent>
+            <TabsContent value="text">
+              <pre className="h-[600px] overflow-auto whitespace-pre-wrap rounded-md border p-4 text-sm">
+                {selected.text}
+              </pre>
+            </TabsContent>
+          </Tabs>
+
+          {/* Send Test */}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSendTest()
+            }}
+            className="flex flex-col gap-2 sm:flex-row"
+          >
+            <Input
+              type="email"
+              placeholder="you@example.com"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              required
+            />
+            <Button type="submit" disabled={isPending || !recipient}>
+              {isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Send Test
+            </Button>
+          </form>
+          <p className="text-xs text-muted-foreground">
+            Test emails use the sample data shown above and have
+            &quot;[Test]&quot; added to the subject.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -18,6 +18,7 @@ import { toast } from "sonner"
 
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import {
   Dialog,
   DialogContent,
@@ -44,7 +45,12 @@ import {
   TableRow,
 } from "@/components/ui/table"
 import { Textarea } from "@/components/ui/textarea"
-import { adjustStock, updateLowStockThreshold } from "@/lib/actions/inventory"
+import {
+  adjustStock,
+  bulkAdjustStock,
+  updateLowStockThreshold,
+} from "@/lib/actions/inventory"
+import { summarizeBulkResults } from "@/lib/utils/bulk-actions"
 
 interface InventoryItem {
   id: string
@@ -93,6 +99,26 @@ export function InventoryTable({
   const [adjustReason, setAdjustReason] = useState("")
   const [newThreshold, setNewThreshold] = useState(5)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [bulkDialogOpen, setBulkDialogOpen] = useState(false)
+
+  const toggleSelect = (id: string) => {
+    const newSelected = new Set(selectedIds)
+    if (newSelected.has(id)) {
+      newSelected.delete(id)
+    } else {
+      newSelected.add(id)
+    }
+    setSelectedIds(newSelected)
+  }
+
+  const selectAll = () => {
+    if (selectedIds.size === items.length) {
+      setSelectedIds(new Set())
+    } else {
+      setSelectedIds(new Set(items.map((i) => i.id)))
+    }
+  }
 
   function updateFilters(updates: Record<string, string>) {
     const params = new URLSearchParams(searchParams.toString())
@@ -150,6 +176,40 @@ export function InventoryTable({
     }
   }
 
+  async function handleBulkAdjustStock() {
+    if (adjustment === 0 || !adjustReason.trim()) {
+      toast.error("Please provide adjustment quantity and reason")
+      return
+    }
+
+    setIsSubmitting(true)
+    const result = await bulkAdjustStock({
+      inventoryItemIds: Array.from(selectedIds),
+      adjustment,
+      reason: adjustReason,
+    })
+    setIsSubmitting(false)
+
+    if (!result.success) {
+      toast.error(result.error)
+      return
+    }
+
+    const summary = summarizeBulkResults(result.results, "item", "adjusted")
+    if (summary.allSucceeded) {
+      toast.success(summary.title)
+    } else {
+      toast.warning(summary.title, { description: summary.description })
+    }
+    setSelectedIds(
+      new Set(result.results.filter((r) => !r.success).map((r) => r.id)),
+    )
+    setBulkDialogOpen(false)
+    setAdjustment(0)
+    setAdjustReason("")
+    router.refresh()
+  }
+
   async function handleUpdateThreshold() {
     if (!selectedItem) return
 
@@ -220,11 +280,41 @@ export function InventoryTable({
         </Select>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedIds.size > 0 && (
+        <div className="flex items-center justify-between rounded-md border bg-muted/50 px-4 py-2">
+          <span className="text-sm text-muted-foreground">
+            {selectedIds.size} selected
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              setAdjustment(0)
+              setAdjustReason("")
+              setBulkDialogOpen(true)
+            }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Adjust Stock
+          </Button>
+        </div>
+      )}
+
       {/* Table */}
       <div className="rounded-md border">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={
+                    items.length > 0 && selectedIds.size === items.length
+                  }
+                  onCheckedChange={selectAll}
+                  aria-label="Select all items"
+                />
+              </TableHead>
               <TableHead>Product / SKU</TableHead>
               <TableHead className="text-center">Available</TableHead>
               <TableHead className="text-center">Reserved</TableHead>
@@ -238,7 +328,7 @@ export function InventoryTable({
             {items.length === 0 ? (
               <TableRow>
                 <TableCell
-                  colSpan={7}
+                  colSpan={8}
                   className="text-center py-8 text-muted-foreground"
                 >
                   No inventory items found
@@ -247,6 +337,13 @@ export function InventoryTable({
             ) : (
               items.map((item) => (
                 <TableRow key={item.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.has(item.id)}
+                      onCheckedChange={() => toggleSelect(item.id)}
+                      aria-label={`Select ${item.variantSku}`}
+                    />
+                  </TableCell>
                   <TableCell>
                     <div>
                       <Link
@@ -433,6 +530,57 @@ export function InventoryTable({
         </DialogContent>
       </Dialog>
 
+      {/* Bulk Adjust Stock Dialog */}
+      <Dialog open={bulkDialogOpen} onOpenChange={setBulkDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Stock</DialogTitle>
+            <DialogDescription>
+              Apply the same adjustment to {selectedIds.size} selected item
+              {selectedIds.size === 1 ? "" : "s"}. Items that would drop below
+              zero are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-adjustment">Adjustment</Label>
+              <Input
+                id="bulk-adjustment"
+                type="number"
+                value={adjustment}
+                onChange={(e) => setAdjustment(parseInt(e.target.value) || 0)}
+                className="w-24 text-center"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-reason">Reason *</Label>
+              <Textarea
+                id="bulk-reason"
+                placeholder="Enter reason for adjustment..."
+                value={adjustReason}
+                onChange={(e) => setAdjustReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBulkDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleBulkAdjustStock}
+              disabled={
+                isSubmitting || adjustment === 0 || !adjustReason.trim()
+              }
+            >
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Apply Adjustment
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Threshold Dialog */}
       <Dialog open={thresholdDialogOpen} onOpenChange={setThresholdDialogOpen}>
         <DialogContent>
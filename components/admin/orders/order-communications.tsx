@@ -0,0 +1,37 @@
+import { Mail } from "lucide-react"
+
+import { EmailMessageList } from "@/components/admin/emails/email-message-list"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+
+interface OrderCommunicationsProps {
+  data: React.ComponentProps<typeof EmailMessageList>["messages"]
+}
+
+export function OrderCommunications({ data }: OrderCommunicationsProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Mail className="h-4 w-4" />
+          Communications
+        </CardTitle>
+        <CardDescription>Emails sent about this order</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {data.length > 0 ? (
+          <EmailMessageList messages={data} />
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No emails sent yet.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -16,6 +16,9 @@ import {
   XCircle,
 } from "lucide-react"
 
+import { OrderCommunications } from "@/components/admin/orders/order-communications"
+import { OrderRefunds } from "@/components/admin/orders/order-refunds"
+import { OrderShipments } from "@/components/admin/orders/order-shipments"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -80,6 +83,7 @@ interface OrderItem {
   productName: string
   variantName: string
   sku: string
+  bundleName: string | null
   variant: {
     id: string | null
     name: string | null
@@ -108,6 +112,9 @@ interface Order {
   taxAmount: string
   shippingCost: string
   discountAmount: string
+  promotionCode: string | null
+  codFee: string
+  shippingMethod: string | null
   total: string
   notes: string | null
   adminNotes: string | null
@@ -129,6 +136,9 @@ interface Order {
 
 interface OrderDetailProps {
   order: Order
+  refunds: React.ComponentProps<typeof OrderRefunds>["data"]
+  shipments: React.ComponentProps<typeof OrderShipments>["data"]
+  communications: React.ComponentProps<typeof OrderCommunications>["data"]
 }
 
 const statusConfig: Record<
@@ -261,7 +271,12 @@ function AddressCard({
   )
 }
 
-export function OrderDetail({ order }: OrderDetailProps) {
+export function OrderDetail({
+  order,
+  refunds,
+  shipments,
+  communications,
+}: OrderDetailProps) {
   const router = useRouter()
   const [isPending, startTransition] = useTransition()
   const [selectedStatus, setSelectedStatus] = useState<string>("")
@@ -416,6 +431,11 @@ export function OrderDetail({ order }: OrderDetailProps) {
                           <p className="text-xs text-muted-foreground">
                             SKU: {item.sku}
                           </p>
+                          {item.bundleName && (
+                            <Badge variant="outline" className="mt-1">
+                              Part of {item.bundleName}
+                            </Badge>
+                          )}
                         </td>
                         <td className="text-center p-3">{item.quantity}</td>
                         <td className="text-right p-3">
@@ -439,11 +459,27 @@ export function OrderDetail({ order }: OrderDetailProps) {
                     <tr>
                       <td colSpan={3} className="text-right p-3 text-sm">
                         Shipping
+                        {order.shippingMethod && (
+                          <span className="capitalize text-muted-foreground">
+                            {" "}
+                            ({order.shippingMethod})
+                          </span>
+                        )}
                       </td>
                       <td className="text-right p-3">
                         {formatCurrency(order.shippingCost)}
                       </td>
                     </tr>
+                    {parseFloat(order.codFee) > 0 && (
+                      <tr>
+                        <td colSpan={3} className="text-right p-3 text-sm">
+                          COD Fee
+                        </td>
+                        <td className="text-right p-3">
+                          {formatCurrency(order.codFee)}
+                        </td>
+                      </tr>
+                    )}
                     <tr>
                       <td colSpan={3} className="text-right p-3 text-sm">
                         Tax
@@ -459,6 +495,7 @@ export function OrderDetail({ order }: OrderDetailProps) {
                           className="text-right p-3 text-sm text-green-600"
                         >
                           Discount
+                          {order.promotionCode && ` (${order.promotionCode})`}
                         </td>
                         <td className="text-right p-3 text-green-600">
                           -{formatCurrency(order.discountAmount)}
@@ -479,6 +516,14 @@ export function OrderDetail({ order }: OrderDetailProps) {
             </CardContent>
           </Card>
 
+          {/* Shipments */}
+          <OrderShipments
+            orderId={order.id}
+            orderStatus={order.status}
+            items={order.items}
+            data={shipments}
+          />
+
           {/* Addresses */}
           <div className="grid md:grid-cols-2 gap-4">
             <AddressCard
@@ -567,8 +612,9 @@ export function OrderDetail({ order }: OrderDetailProps) {
                             Cancel this order?
                           </AlertDialogTitle>
                           <AlertDialogDescription>
-                            This action will cancel the order. The customer will
-                            be notified. This cannot be undone.
+                            This action will cancel the order. Paid orders are
+                            refunded in full and their items returned to stock.
+                            This cannot be undone.
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
@@ -602,6 +648,21 @@ export function OrderDetail({ order }: OrderDetailProps) {
             </CardContent>
           </Card>
 
+          {/* Refunds */}
+          <OrderRefunds
+            orderId={order.id}
+            items={order.items}
+            totals={{
+              subtotal: order.subtotal,
+              discountAmount: order.discountAmount,
+              taxAmount: order.taxAmount,
+            }}
+            data={refunds}
+          />
+
+          {/* Communications */}
+          <OrderCommunications data={communications} />
+
           {/* Admin Notes */}
           <Card>
             <CardHeader>
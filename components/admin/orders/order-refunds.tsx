@@ -0,0 +1,386 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { Loader2, RotateCcw } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { createRefund } from "@/lib/actions/refund"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { calculateRefundAmount } from "@/lib/utils/refunds"
+
+interface OrderItem {
+  id: string
+  productName: string
+  variantName: string
+  quantity: number
+  unitPrice: string
+}
+
+interface RefundItem {
+  orderItemId: string
+  productName: string
+  quantity: number
+}
+
+interface Refund {
+  id: string
+  status: "pending" | "completed" | "failed"
+  amount: string
+  reason: string | null
+  isManual: boolean
+  restock: boolean
+  externalId: string | null
+  failureReason: string | null
+  createdAt: Date
+  processedByName: string | null
+  items: RefundItem[]
+}
+
+interface RefundData {
+  payment: {
+    id: string
+    method: string
+    status: string
+    amount: string
+  } | null
+  refundedAmount: number
+  refundableBalance: number
+  refundedQuantities: Record<string, number>
+  refunds: Refund[]
+}
+
+interface OrderRefundsProps {
+  orderId: string
+  items: OrderItem[]
+  totals: {
+    subtotal: string
+    discountAmount: string
+    taxAmount: string
+  }
+  data: RefundData
+}
+
+const refundStatusColors: Record<Refund["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+}
+
+const methodLabels: Record<string, string> = {
+  card: "Card",
+  bank_transfer: "Bank Transfer",
+  cash_on_delivery: "Cash on Delivery",
+}
+
+export function OrderRefunds({
+  orderId,
+  items,
+  totals,
+  data,
+}: OrderRefundsProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [open, setOpen] = useState(false)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [customAmount, setCustomAmount] = useState("")
+  const [reason, setReason] = useState("")
+  const [restock, setRestock] = useState(true)
+
+  const remainingFor = (item: OrderItem) =>
+    item.quantity - (data.refundedQuantities[item.id] || 0)
+
+  const selectedLines = items
+    .filter((item) => (quantities[item.id] || 0) > 0)
+    .map((item) => ({
+      unitPrice: parseFloat(item.unitPrice),
+      quantity: quantities[item.id],
+    }))
+
+  const refundsEverything = items.every(
+    (item) => remainingFor(item) - (quantities[item.id] || 0) <= 0,
+  )
+
+  const suggestedAmount = refundsEverything
+    ? data.refundableBalance
+    : calculateRefundAmount(
+        {
+          subtotal: parseFloat(totals.subtotal),
+          discountAmount: parseFloat(totals.discountAmount),
+          taxAmount: parseFloat(totals.taxAmount),
+        },
+        selectedLines,
+        data.refundableBalance,
+      )
+
+  const refundAmount = customAmount ? parseFloat(customAmount) : suggestedAmount
+  const isManual = data.payment?.method !== "card"
+
+  const openDialog = () => {
+    setQuantities({})
+    setCustomAmount("")
+    setReason("")
+    setRestock(true)
+    setOpen(true)
+  }
+
+  const selectAll = () => {
+    setQuantities(
+      Object.fromEntries(items.map((item) => [item.id, remainingFor(item)])),
+    )
+  }
+
+  const handleRefund = () => {
+    startTransition(async () => {
+      const result = await createRefund({
+        orderId,
+        items: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        amount: customAmount
+          ? parseFloat(customAmount)
+          : selectedLines.length === 0
+            ? suggestedAmount
+            : null,
+        reason: reason || undefined,
+        restock,
+      })
+
+      if (result.success) {
+        toast.success(
+          `Refunded ${formatCurrency(result.amount)}${
+            result.fullyRefunded ? " — order fully refunded" : ""
+          }`,
+        )
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to issue refund")
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <RotateCcw className="h-4 w-4" />
+          Refunds
+        </CardTitle>
+        <CardDescription>
+          {data.payment
+            ? `${methodLabels[data.payment.method] || data.payment.method} payment of ${formatCurrency(parseFloat(data.payment.amount))}`
+            : "No completed payment on this order"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.payment && (
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            <span className="text-muted-foreground">Refunded</span>
+            <span className="text-right font-medium">
+              {formatCurrency(data.refundedAmount)}
+            </span>
+            <span className="text-muted-foreground">Refundable</span>
+            <span className="text-right font-medium">
+              {formatCurrency(data.refundableBalance)}
+            </span>
+          </div>
+        )}
+
+        {data.refunds.length > 0 && (
+          <div className="space-y-3">
+            {data.refunds.map((refund) => (
+              <div key={refund.id} className="rounded-lg border p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    {formatCurrency(parseFloat(refund.amount))}
+                  </span>
+                  <Badge className={refundStatusColors[refund.status]}>
+                    {refund.status}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {formatDate(refund.createdAt)}
+                  {refund.processedByName && ` by ${refund.processedByName}`}
+                  {refund.isManual ? " · Manual" : " · Gateway"}
+                  {refund.restock && " · Restocked"}
+                </p>
+                {refund.items.length > 0 && (
+                  <ul className="mt-1 text-xs text-muted-foreground">
+                    {refund.items.map((item) => (
+                      <li key={item.orderItemId}>
+                        {item.quantity} × {item.productName}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {refund.reason && (
+                  <p className="mt-1 text-muted-foreground">{refund.reason}</p>
+                )}
+                {refund.failureReason && (
+                  <p className="mt-1 text-red-600">{refund.failureReason}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={openDialog}
+          disabled={!data.payment || data.refundableBalance <= 0}
+        >
+          Issue Refund
+        </Button>
+      </CardContent>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Issue Refund</DialogTitle>
+            <DialogDescription>
+              {isManual
+                ? "This payment was not made by card. Record the refund once the customer has been paid back."
+                : "The refund will be sent to the customer's card through the payment gateway."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Items</Label>
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={selectAll}
+                >
+                  Select all
+                </Button>
+              </div>
+              <div className="divide-y rounded-lg border">
+                {items.map((item) => {
+                  const remaining = remainingFor(item)
+                  return (
+                    <div
+                      key={item.id}
+                      className="flex items-center justify-between gap-4 p-3"
+                    >
+                      <div className="min-w-0 text-sm">
+                        <p className="truncate font-medium">
+                          {item.productName}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.variantName} · {remaining} of {item.quantity}{" "}
+                          refundable
+                        </p>
+                      </div>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={remaining}
+                        className="w-20"
+                        disabled={remaining === 0}
+                        value={quantities[item.id] ?? 0}
+                        onChange={(e) =>
+                          setQuantities((prev) => ({
+                            ...prev,
+                            [item.id]: Math.min(
+                              remaining,
+                              Math.max(0, parseInt(e.target.value) || 0),
+                            ),
+                          }))
+                        }
+                      />
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min={0}
+                max={data.refundableBalance}
+                step="0.01"
+                placeholder={suggestedAmount.toFixed(2)}
+                value={customAmount}
+                onChange={(e) => setCustomAmount(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave empty to refund the selected items including their share
+                of tax and discounts. Up to{" "}
+                {formatCurrency(data.refundableBalance)} can be refunded.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea
+                id="refund-reason"
+                rows={2}
+                placeholder="Why is this refund being issued?"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="refund-restock">Return items to stock</Label>
+                <p className="text-xs text-muted-foreground">
+                  Records a return movement in the inventory ledger
+                </p>
+              </div>
+              <Switch
+                id="refund-restock"
+                checked={restock}
+                onCheckedChange={setRestock}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRefund}
+              disabled={isPending || !(refundAmount > 0)}
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Refund {formatCurrency(refundAmount > 0 ? refundAmount : 0)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,473 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { ExternalLink, Loader2, Pencil, Trash2, Truck } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  createShipment,
+  deleteShipment,
+  markShipmentDelivered,
+  markShipmentShipped,
+  updateShipment,
+} from "@/lib/actions/shipments"
+import { formatDate } from "@/lib/utils"
+import {
+  buildTrackingUrl,
+  CARRIERS,
+  getCarrier,
+  getCarrierName,
+  SHIPMENT_STATUS_COLORS,
+  SHIPMENT_STATUS_LABELS,
+  type ShipmentStatus,
+} from "@/lib/utils/shipments"
+
+interface OrderItem {
+  id: string
+  productName: string
+  variantName: string
+  quantity: number
+}
+
+interface Shipment {
+  id: string
+  carrier: string | null
+  trackingNumber: string | null
+  trackingUrl: string | null
+  shippedAt: Date | null
+  deliveredAt: Date | null
+  notes: string | null
+  createdAt: Date
+  status: ShipmentStatus
+  items: Array<{
+    orderItemId: string
+    productName: string
+    variantName: string
+    quantity: number
+  }>
+}
+
+interface ShipmentData {
+  shipments: Shipment[]
+  shippedQuantities: Record<string, number>
+  refundedQuantities: Record<string, number>
+}
+
+interface OrderShipmentsProps {
+  orderId: string
+  orderStatus: string
+  items: OrderItem[]
+  data: ShipmentData
+}
+
+// Orders that can still have parcels packed for them
+const SHIPPABLE_STATUSES = ["paid", "processing", "packing", "shipped"]
+
+export function OrderShipments({
+  orderId,
+  orderStatus,
+  items,
+  data,
+}: OrderShipmentsProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [open, setOpen] = useState(false)
+  // Null while creating a new shipment
+  const [editing, setEditing] = useState<Shipment | null>(null)
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [carrier, setCarrier] = useState("")
+  const [customCarrier, setCustomCarrier] = useState("")
+  const [trackingNumber, setTrackingNumber] = useState("")
+  const [trackingUrl, setTrackingUrl] = useState("")
+  const [notes, setNotes] = useState("")
+
+  const remainingFor = (item: OrderItem) =>
+    item.quantity -
+    (data.shippedQuantities[item.id] || 0) -
+    (data.refundedQuantities[item.id] || 0)
+
+  const unitsLeft = items.reduce(
+    (sum, item) => sum + Math.max(0, remainingFor(item)),
+    0,
+  )
+  const canCreate = SHIPPABLE_STATUSES.includes(orderStatus) && unitsLeft > 0
+
+  const carrierValue = carrier === "other" ? customCarrier.trim() : carrier
+  const suggestedUrl = buildTrackingUrl(carrier, trackingNumber)
+
+  const openDialog = (shipment: Shipment | null) => {
+    const known = getCarrier(shipment?.carrier ?? null)
+
+    setEditing(shipment)
+    setQuantities(
+      shipment
+        ? {}
+        : Object.fromEntries(
+            items.map((item) => [item.id, Math.max(0, remainingFor(item))]),
+          ),
+    )
+    setCarrier(shipment?.carrier ? (known ? known.id : "other") : "")
+    setCustomCarrier(shipment?.carrier && !known ? shipment.carrier : "")
+    setTrackingNumber(shipment?.trackingNumber ?? "")
+    // Only keep URLs staff typed in; template URLs are rebuilt on save
+    setTrackingUrl(
+      shipment?.trackingUrl &&
+        shipment.trackingUrl !==
+          buildTrackingUrl(shipment.carrier, shipment.trackingNumber)
+        ? shipment.trackingUrl
+        : "",
+    )
+    setNotes(shipment?.notes ?? "")
+    setOpen(true)
+  }
+
+  const handleSave = () => {
+    const tracking = {
+      carrier: carrierValue || undefined,
+      trackingNumber: trackingNumber.trim() || undefined,
+      trackingUrl: trackingUrl.trim() || undefined,
+      notes: notes.trim() || undefined,
+    }
+
+    startTransition(async () => {
+      const result = editing
+        ? await updateShipment({ shipmentId: editing.id, ...tracking })
+        : await createShipment({
+            orderId,
+            items: Object.entries(quantities).map(
+              ([orderItemId, quantity]) => ({ orderItemId, quantity }),
+            ),
+            ...tracking,
+          })
+
+      if (result.success) {
+        toast.success(editing ? "Tracking updated" : "Shipment created")
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to save shipment")
+      }
+    })
+  }
+
+  const handleProgress = (shipment: Shipment) => {
+    startTransition(async () => {
+      const result =
+        shipment.status === "pending"
+          ? await markShipmentShipped(shipment.id)
+          : await markShipmentDelivered(shipment.id)
+
+      if (result.success) {
+        toast.success(
+          result.orderStatus
+            ? `Order marked as ${result.orderStatus}`
+            : shipment.status === "pending"
+              ? "Shipment marked as shipped"
+              : "Shipment marked as delivered",
+        )
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to update shipment")
+      }
+    })
+  }
+
+  const handleDelete = (shipment: Shipment) => {
+    startTransition(async () => {
+      const result = await deleteShipment(shipment.id)
+
+      if (result.success) {
+        toast.success("Shipment deleted")
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to delete shipment")
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              Shipments
+            </CardTitle>
+            <CardDescription>
+              {data.shipments.length === 0
+                ? "No parcels created yet"
+                : unitsLeft > 0
+                  ? `${unitsLeft} unit${unitsLeft !== 1 ? "s" : ""} still to pack`
+                  : "Every item is packed"}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => openDialog(null)}
+            disabled={!canCreate || isPending}
+          >
+            Create Shipment
+          </Button>
+        </div>
+      </CardHeader>
+      {data.shipments.length > 0 && (
+        <CardContent className="space-y-3">
+          {data.shipments.map((shipment, index) => (
+            <div key={shipment.id} className="rounded-lg border p-4 text-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-medium">
+                    Parcel {index + 1}
+                    {shipment.carrier &&
+                      ` · ${getCarrierName(shipment.carrier)}`}
+                  </p>
+                  {shipment.trackingNumber && (
+                    <p className="font-mono text-xs">
+                      {shipment.trackingUrl ? (
+                        <a
+                          href={shipment.trackingUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 hover:underline"
+                        >
+                          {shipment.trackingNumber}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      ) : (
+                        shipment.trackingNumber
+                      )}
+                    </p>
+                  )}
+                </div>
+                <Badge className={SHIPMENT_STATUS_COLORS[shipment.status]}>
+                  {SHIPMENT_STATUS_LABELS[shipment.status]}
+                </Badge>
+              </div>
+
+              <ul className="mt-2 text-muted-foreground">
+                {shipment.items.map((item) => (
+                  <li key={item.orderItemId}>
+                    {item.quantity} × {item.productName}
+                    {item.variantName && ` (${item.variantName})`}
+                  </li>
+                ))}
+              </ul>
+
+              <p className="mt-2 text-xs text-muted-foreground">
+                Created {formatDate(shipment.createdAt)}
+                {shipment.shippedAt &&
+                  ` · Shipped ${formatDate(shipment.shippedAt)}`}
+                {shipment.deliveredAt &&
+                  ` · Delivered ${formatDate(shipment.deliveredAt)}`}
+              </p>
+              {shipment.notes && (
+                <p className="mt-1 text-muted-foreground">{shipment.notes}</p>
+              )}
+
+              <div className="mt-3 flex flex-wrap gap-2">
+                {shipment.status !== "delivered" && (
+                  <Button
+                    size="sm"
+                    onClick={() => handleProgress(shipment)}
+                    disabled={isPending}
+                  >
+                    {shipment.status === "pending"
+                      ? "Mark Shipped"
+                      : "Mark Delivered"}
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => openDialog(shipment)}
+                  disabled={isPending}
+                >
+                  <Pencil className="mr-1 h-3 w-3" />
+                  Tracking
+                </Button>
+                {shipment.status === "pending" && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={() => handleDelete(shipment)}
+                    disabled={isPending}
+                  >
+                    <Trash2 className="mr-1 h-3 w-3" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? "Edit Tracking" : "Create Shipment"}
+            </DialogTitle>
+            <DialogDescription>
+              {editing
+                ? "Update the carrier and tracking details for this parcel."
+                : "Choose the items packed in this parcel. The order moves to shipped once every parcel has shipped."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {!editing && (
+              <div className="space-y-2">
+                <Label>Items</Label>
+                <div className="divide-y rounded-lg border">
+                  {items.map((item) => {
+                    const remaining = Math.max(0, remainingFor(item))
+                    return (
+                      <div
+                        key={item.id}
+                        className="flex items-center justify-between gap-4 p-3"
+                      >
+                        <div className="min-w-0 text-sm">
+                          <p className="truncate font-medium">
+                            {item.productName}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {item.variantName} · {remaining} of {item.quantity}{" "}
+                            left to ship
+                          </p>
+                        </div>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          className="w-20"
+                          disabled={remaining === 0}
+                          value={quantities[item.id] ?? 0}
+                          onChange={(e) =>
+                            setQuantities((prev) => ({
+                              ...prev,
+                              [item.id]: Math.min(
+                                remaining,
+                                Math.max(0, parseInt(e.target.value) || 0),
+                              ),
+                            }))
+                          }
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Carrier</Label>
+                <Select value={carrier} onValueChange={setCarrier}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select carrier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CARRIERS.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracking-number">Tracking Number</Label>
+                <Input
+                  id="tracking-number"
+                  value={trackingNumber}
+                  onChange={(e) => setTrackingNumber(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {carrier === "other" && (
+              <div className="space-y-2">
+                <Label htmlFor="carrier-name">Carrier Name</Label>
+                <Input
+                  id="carrier-name"
+                  value={customCarrier}
+                  onChange={(e) => setCustomCarrier(e.target.value)}
+                  placeholder="e.g. Local courier"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="tracking-url">Tracking URL</Label>
+              <Input
+                id="tracking-url"
+                type="url"
+                value={trackingUrl}
+                onChange={(e) => setTrackingUrl(e.target.value)}
+                placeholder={suggestedUrl ?? "https://"}
+              />
+              <p className="text-xs text-muted-foreground">
+                {suggestedUrl
+                  ? "Leave empty to use the carrier's tracking page."
+                  : "Optional link where the customer can follow the parcel."}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="shipment-notes">Notes</Label>
+              <Textarea
+                id="shipment-notes"
+                rows={2}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editing ? "Save Tracking" : "Create Shipment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
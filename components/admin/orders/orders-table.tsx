@@ -1,13 +1,38 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useTransition } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 
-import { Eye, Search } from "lucide-react"
+import {
+  ChevronDown,
+  ClipboardList,
+  Eye,
+  FileText,
+  Loader2,
+  Search,
+} from "lucide-react"
+import { toast } from "sonner"
 
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { Input } from "@/components/ui/input"
 import {
   Select,
@@ -24,7 +49,15 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
+import { bulkUpdateOrderStatus } from "@/lib/actions/order"
 import { formatCurrency, formatDate } from "@/lib/utils"
+import { summarizeBulkResults } from "@/lib/utils/bulk-actions"
+import {
+  getValidTransitions,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
+  type OrderStatus,
+} from "@/lib/utils/order-status"
 
 interface Order {
   id: string
@@ -83,6 +116,71 @@ export function OrdersTable({
 }: OrdersTableProps) {
   const router = useRouter()
   const [searchInput, setSearchInput] = useState(search)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [isPending, startTransition] = useTransition()
+  const [bulkStatus, setBulkStatus] = useState<OrderStatus | null>(null)
+
+  // Statuses at least one selected order can move to
+  const selectedOrders = orders.filter((o) => selectedIds.has(o.id))
+  const bulkStatusOptions = ORDER_STATUSES.filter((s) =>
+    selectedOrders.some((o) => getValidTransitions(o.status).includes(s)),
+  )
+  const eligibleCount = bulkStatus
+    ? selectedOrders.filter((o) =>
+        getValidTransitions(o.status).includes(bulkStatus),
+      ).length
+    : 0
+
+  const toggleSelect = (id: string) => {
+    const newSelected = new Set(selectedIds)
+    if (newSelected.has(id)) {
+      newSelected.delete(id)
+    } else {
+      newSelected.add(id)
+    }
+    setSelectedIds(newSelected)
+  }
+
+  const selectAll = () => {
+    if (selectedIds.size === orders.length) {
+      setSelectedIds(new Set())
+    } else {
+      setSelectedIds(new Set(orders.map((o) => o.id)))
+    }
+  }
+
+  // Opens one combined PDF; orders that are not eligible are left out
+  const openDocuments = (type: "invoice" | "packing-slip") => {
+    const ids = Array.from(selectedIds).join(",")
+    window.open(`/admin/orders/documents?type=${type}&ids=${ids}`, "_blank")
+  }
+
+  const handleBulkStatus = () => {
+    if (!bulkStatus) return
+
+    startTransition(async () => {
+      const result = await bulkUpdateOrderStatus({
+        orderIds: Array.from(selectedIds),
+        status: bulkStatus,
+      })
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+
+      const summary = summarizeBulkResults(result.results, "order", "updated")
+      if (summary.allSucceeded) {
+        toast.success(summary.title)
+      } else {
+        toast.warning(summary.title, { description: summary.description })
+      }
+      setSelectedIds(
+        new Set(result.results.filter((r) => !r.success).map((r) => r.id)),
+      )
+      setBulkStatus(null)
+      router.refresh()
+    })
+  }
 
   const handleSearch = () => {
     const params = new URLSearchParams()
@@ -143,11 +241,72 @@ export function OrdersTable({
         </Select>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedIds.size > 0 && (
+        <div className="flex items-center justify-between rounded-md border bg-muted/50 px-4 py-2">
+          <span className="text-sm text-muted-foreground">
+            {selectedIds.size} selected
+          </span>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isPending || bulkStatusOptions.length === 0}
+                >
+                  {isPending && (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  )}
+                  Change Status
+                  <ChevronDown className="h-4 w-4 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {bulkStatusOptions.map((option) => (
+                  <DropdownMenuItem
+                    key={option}
+                    onClick={() => setBulkStatus(option)}
+                  >
+                    {ORDER_STATUS_LABELS[option]}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openDocuments("invoice")}
+            >
+              <FileText className="h-4 w-4 mr-1" />
+              Invoices
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => openDocuments("packing-slip")}
+            >
+              <ClipboardList className="h-4 w-4 mr-1" />
+              Packing Slips
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Table */}
       <div className="rounded-md border">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={
+                    orders.length > 0 && selectedIds.size === orders.length
+                  }
+                  onCheckedChange={selectAll}
+                  aria-label="Select all orders"
+                />
+              </TableHead>
               <TableHead>Order</TableHead>
               <TableHead>Customer</TableHead>
               <TableHead>Status</TableHead>
@@ -160,7 +319,7 @@ export function OrdersTable({
             {orders.length === 0 ? (
               <TableRow>
                 <TableCell
-                  colSpan={6}
+                  colSpan={7}
                   className="text-center py-8 text-neutral-500"
                 >
                   No orders found
@@ -169,6 +328,13 @@ export function OrdersTable({
             ) : (
               orders.map((order) => (
                 <TableRow key={order.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.has(order.id)}
+                      onCheckedChange={() => toggleSelect(order.id)}
+                      aria-label={`Select order ${order.orderNumber}`}
+                    />
+                  </TableCell>
                   <TableCell>
                     <div className="font-medium">{order.orderNumber}</div>
                   </TableCell>
@@ -236,6 +402,42 @@ export function OrdersTable({
           </Button>
         </div>
       </div>
+
+      {/* Bulk Status Dialog */}
+      <AlertDialog
+        open={bulkStatus !== null}
+        onOpenChange={(open) => !open && setBulkStatus(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Mark Orders as {bulkStatus && ORDER_STATUS_LABELS[bulkStatus]}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {eligibleCount} of {selectedOrders.length} selected orders can
+              move to this status; the others are skipped and listed in the
+              results.
+              {(bulkStatus === "cancelled" || bulkStatus === "refunded") &&
+                " Paid orders are refunded in full."}
+              {(bulkStatus === "shipped" || bulkStatus === "delivered") &&
+                " Customers are notified by email."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleBulkStatus()
+              }}
+              disabled={isPending}
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Update Orders
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
@@ -0,0 +1,437 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { formatDistanceToNow } from "date-fns"
+import { Eye, RotateCcw, Search, ShieldAlert, ShieldCheck } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { replayWebhookEvent } from "@/lib/actions/webhook-events"
+import { formatDate } from "@/lib/utils"
+
+type WebhookEventStatus =
+  | "received"
+  | "processed"
+  | "duplicate"
+  | "ignored"
+  | "rejected"
+  | "failed"
+
+interface WebhookEvent {
+  id: string
+  provider: string
+  eventId: string | null
+  eventType: string | null
+  externalId: string | null
+  transactionId: string | null
+  payload: string
+  headers: string
+  signatureValid: boolean
+  status: WebhookEventStatus
+  outcome: string | null
+  error: string | null
+  attempts: number
+  receivedAt: Date
+  processedAt: Date | null
+  orderId: string | null
+  orderNumber: string | null
+}
+
+interface WebhookEventsTableProps {
+  events: WebhookEvent[]
+  statusCounts: Partial<Record<WebhookEventStatus, number>>
+  total: number
+  page: number
+  totalPages: number
+  search: string
+  status: string
+  provider: string
+}
+
+const STATUS_TABS: WebhookEventStatus[] = [
+  "processed",
+  "duplicate",
+  "ignored",
+  "failed",
+  "rejected",
+]
+
+const statusColors: Record<WebhookEventStatus, string> = {
+  received: "bg-blue-500/10 text-blue-500 hover:bg-blue-500/20",
+  processed: "bg-green-500/10 text-green-500 hover:bg-green-500/20",
+  duplicate: "bg-neutral-500/10 text-neutral-500 hover:bg-neutral-500/20",
+  ignored: "bg-neutral-500/10 text-neutral-500 hover:bg-neutral-500/20",
+  rejected: "bg-orange-500/10 text-orange-500 hover:bg-orange-500/20",
+  failed: "bg-red-500/10 text-red-500 hover:bg-red-500/20",
+}
+
+const providerLabels: Record<string, string> = {
+  directpay: "DirectPay",
+  stripe: "Stripe",
+}
+
+// Pretty-print stored JSON, falling back to the raw text
+function formatJson(value: string) {
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2)
+  } catch {
+    return value
+  }
+}
+
+export function WebhookEventsTable({
+  events,
+  statusCounts,
+  total,
+  page,
+  totalPages,
+  search,
+  status,
+  provider,
+}: WebhookEventsTableProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [searchInput, setSearchInput] = useState(search)
+  const [selected, setSelected] = useState<WebhookEvent | null>(null)
+
+  const navigate = (updates: {
+    search?: string
+    status?: string
+    provider?: string
+    page?: number
+  }) => {
+    const params = new URLSearchParams()
+    const nextSearch = updates.search ?? search
+    const nextStatus = updates.status ?? status
+    const nextProvider = updates.provider ?? provider
+    if (nextSearch) params.set("search", nextSearch)
+    if (nextStatus && nextStatus !== "all") params.set("status", nextStatus)
+    if (nextProvider && nextProvider !== "all") {
+      params.set("provider", nextProvider)
+    }
+    params.set("page", (updates.page ?? 1).toString())
+    router.push(`/admin/payments/webhooks?${params.toString()}`)
+  }
+
+  const handleReplay = (event: WebhookEvent) => {
+    startTransition(async () => {
+      const result = await replayWebhookEvent(event.id)
+
+      if (result.success) {
+        toast.success(
+          result.status === "processed"
+            ? "Webhook replayed and applied"
+            : `Webhook replayed: ${result.status}`,
+        )
+        setSelected(null)
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to replay webhook")
+        router.refresh()
+      }
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-center">
+        <Tabs
+          value={status || "all"}
+          onValueChange={(value) => navigate({ status: value })}
+        >
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            {STATUS_TABS.map((value) => (
+              <TabsTrigger key={value} value={value} className="capitalize">
+                {value}
+                {statusCounts[value] ? ` (${statusCounts[value]})` : ""}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="flex flex-1 gap-2 lg:justify-end">
+          <Select
+            value={provider || "all"}
+            onValueChange={(value) => navigate({ provider: value })}
+          >
+            <SelectTrigger className="w-37.5">
+              <SelectValue placeholder="Provider" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Providers</SelectItem>
+              {Object.entries(providerLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Search by session, transaction or order..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            onKeyDown={(e) =>
+              e.key === "Enter" && navigate({ search: searchInput })
+            }
+            className="max-w-sm"
+          />
+          <Button
+            variant="outline"
+            onClick={() => navigate({ search: searchInput })}
+          >
+            <Search className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Received</TableHead>
+              <TableHead>Provider</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>Signature</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Attempts</TableHead>
+              <TableHead className="w-17.5"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {events.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={8}
+                  className="text-center py-8 text-muted-foreground"
+                >
+                  No webhook events found
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatDistanceToNow(new Date(event.receivedAt), {
+                      addSuffix: true,
+                    })}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">
+                      {providerLabels[event.provider] || event.provider}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">
+                      {event.eventType || "Unreadable payload"}
+                    </div>
+                    {event.externalId && (
+                      <div className="font-mono text-xs text-muted-foreground">
+                        {event.externalId}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {event.orderId ? (
+                      <Link
+                        href={`/admin/orders/${event.orderId}`}
+                        className="hover:underline"
+                      >
+                        {event.orderNumber}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {event.signatureValid ? (
+                      <ShieldCheck className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <ShieldAlert className="h-4 w-4 text-orange-500" />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      className={`capitalize ${statusColors[event.status]}`}
+                    >
+                      {event.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">{event.attempts}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setSelected(event)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Showing {events.length} of {total} webhook events
+        </p>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => navigate({ page: page - 1 })}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => navigate({ page: page + 1 })}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+
+      {/* Event detail */}
+      <Dialog
+        open={selected !== null}
+        onOpenChange={(open) => !open && setSelected(null)}
+      >
+        <DialogContent className="sm:max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {selected.eventType || "Unreadable payload"}
+                </DialogTitle>
+                <DialogDescription>
+                  {providerLabels[selected.provider] || selected.provider}{" "}
+                  webhook received{" "}
+                  {formatDate(selected.receivedAt, { timeStyle: "medium" })}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 text-sm">
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2">
+                  <dt className="text-muted-foreground">Status</dt>
+                  <dd>
+                    <Badge
+                      className={`capitalize ${statusColors[selected.status]}`}
+                    >
+                      {selected.status}
+                    </Badge>
+                  </dd>
+                  <dt className="text-muted-foreground">Signature</dt>
+                  <dd>{selected.signatureValid ? "Valid" : "Invalid"}</dd>
+                  {selected.eventId && (
+                    <>
+                      <dt className="text-muted-foreground">Event ID</dt>
+                      <dd className="font-mono text-xs break-all">
+                        {selected.eventId}
+                      </dd>
+                    </>
+                  )}
+                  {selected.transactionId && (
+                    <>
+                      <dt className="text-muted-foreground">Transaction ID</dt>
+                      <dd className="font-mono text-xs break-all">
+                        {selected.transactionId}
+                      </dd>
+                    </>
+                  )}
+                  {selected.outcome && (
+                    <>
+                      <dt className="text-muted-foreground">Outcome</dt>
+                      <dd>{selected.outcome}</dd>
+                    </>
+                  )}
+                  {selected.error && (
+                    <>
+                      <dt className="text-muted-foreground">Error</dt>
+                      <dd className="text-red-500">{selected.error}</dd>
+                    </>
+                  )}
+                  {selected.processedAt && (
+                    <>
+                      <dt className="text-muted-foreground">Last processed</dt>
+                      <dd>
+                        {formatDate(selected.processedAt, {
+                          timeStyle: "medium",
+                        })}
+                      </dd>
+                    </>
+                  )}
+                </dl>
+
+                <div className="space-y-1">
+                  <p className="font-medium">Payload</p>
+                  <pre className="max-h-60 overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {formatJson(selected.payload)}
+                  </pre>
+                </div>
+
+                <div className="space-y-1">
+                  <p className="font-medium">Headers</p>
+                  <pre className="max-h-40 overflow-auto rounded-md bg-muted p-3 text-xs">
+                    {formatJson(selected.headers)}
+                  </pre>
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelected(null)}>
+                  Close
+                </Button>
+                <Button
+                  onClick={() => handleReplay(selected)}
+                  disabled={isPending || !selected.signatureValid}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  {isPending ? "Replaying..." : "Replay"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,432 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useForm } from "react-hook-form"
+import { useRouter } from "next/navigation"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { z } from "zod"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  createPriceCampaign,
+  updatePriceCampaign,
+} from "@/lib/actions/price-campaign"
+import {
+  PRICE_CAMPAIGN_TYPE_LABELS,
+  type PriceCampaignType,
+} from "@/lib/utils/price-campaigns"
+
+const priceCampaignFormSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().optional(),
+  type: z.enum(["percentage", "fixed_price"]),
+  value: z.string().min(1, "Discount value is required"),
+  startsAt: z.string().min(1, "Start date is required"),
+  endsAt: z.string().min(1, "End date is required"),
+  productIds: z.array(z.string()),
+  variantIds: z.array(z.string()),
+  categoryIds: z.array(z.string()),
+  isActive: z.boolean(),
+})
+
+type PriceCampaignFormData = z.infer<typeof priceCampaignFormSchema>
+
+type TargetField = "productIds" | "variantIds" | "categoryIds"
+
+interface ScopeOption {
+  id: string
+  name: string
+}
+
+interface VariantOption extends ScopeOption {
+  sku: string
+  productName: string
+}
+
+interface PriceCampaign {
+  id: string
+  name: string
+  description: string | null
+  type: PriceCampaignType
+  value: string
+  productIds: string[]
+  variantIds: string[]
+  categoryIds: string[]
+  startsAt: Date
+  endsAt: Date
+  isActive: boolean
+}
+
+interface PriceCampaignFormProps {
+  campaign?: PriceCampaign
+  products: ScopeOption[]
+  variants: VariantOption[]
+  categories: ScopeOption[]
+}
+
+// Format a date for a datetime-local input in the browser's timezone
+function toDateTimeLocal(date: Date | null): string {
+  if (!date) return ""
+  const d = new Date(date)
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset())
+  return d.toISOString().slice(0, 16)
+}
+
+export function PriceCampaignForm({
+  campaign,
+  products,
+  variants,
+  categories,
+}: PriceCampaignFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [productFilter, setProductFilter] = useState("")
+  const [variantFilter, setVariantFilter] = useState("")
+
+  const form = useForm<PriceCampaignFormData>({
+    resolver: zodResolver(priceCampaignFormSchema),
+    defaultValues: {
+      name: campaign?.name ?? "",
+      description: campaign?.description ?? "",
+      type: campaign?.type ?? "percentage",
+      value: campaign?.value ?? "",
+      startsAt: toDateTimeLocal(campaign?.startsAt ?? null),
+      endsAt: toDateTimeLocal(campaign?.endsAt ?? null),
+      productIds: campaign?.productIds ?? [],
+      variantIds: campaign?.variantIds ?? [],
+      categoryIds: campaign?.categoryIds ?? [],
+      isActive: campaign?.isActive ?? true,
+    },
+  })
+
+  const {
+    register,
+    setValue,
+    watch,
+    formState: { errors },
+    handleSubmit,
+  } = form
+  const watchedValues = watch()
+
+  const filteredProducts = products.filter((product) =>
+    product.name.toLowerCase().includes(productFilter.toLowerCase()),
+  )
+  const filteredVariants = variants.filter((variant) =>
+    `${variant.productName} ${variant.name} ${variant.sku}`
+      .toLowerCase()
+      .includes(variantFilter.toLowerCase()),
+  )
+
+  const toggleId = (field: TargetField, id: string) => {
+    const current = watchedValues[field]
+    setValue(
+      field,
+      current.includes(id)
+        ? current.filter((value) => value !== id)
+        : [...current, id],
+    )
+  }
+
+  const onSubmit = async (data: PriceCampaignFormData) => {
+    startTransition(async () => {
+      try {
+        const payload = {
+          name: data.name,
+          description: data.description || null,
+          type: data.type,
+          value: Number(data.value) || 0,
+          startsAt: new Date(data.startsAt),
+          endsAt: new Date(data.endsAt),
+          productIds: data.productIds,
+          variantIds: data.variantIds,
+          categoryIds: data.categoryIds,
+          isActive: data.isActive,
+        }
+
+        const result = campaign
+          ? await updatePriceCampaign(campaign.id, payload)
+          : await createPriceCampaign(payload)
+
+        if (result.success) {
+          toast.success(
+            campaign
+              ? "Campaign updated successfully!"
+              : "Campaign created successfully!",
+          )
+          router.push("/admin/price-campaigns")
+          router.refresh()
+        } else {
+          toast.error(result.error || "Failed to save campaign")
+        }
+      } catch {
+        toast.error("Something went wrong")
+      }
+    })
+  }
+
+  const renderChecklist = (
+    field: TargetField,
+    options: { id: string; label: string }[],
+    emptyText: string,
+    height: string,
+  ) => (
+    <ScrollArea className={`${height} rounded-md border p-3`}>
+      <div className="space-y-2">
+        {options.length === 0 ? (
+          <p className="text-sm text-neutral-500">{emptyText}</p>
+        ) : (
+          options.map((option) => (
+            <div key={option.id} className="flex items-center gap-2">
+              <Checkbox
+                id={`${field}-${option.id}`}
+                checked={watchedValues[field].includes(option.id)}
+                onCheckedChange={() => toggleId(field, option.id)}
+              />
+              <Label htmlFor={`${field}-${option.id}`} className="font-normal">
+                {option.label}
+              </Label>
+            </div>
+          ))
+        )}
+      </div>
+    </ScrollArea>
+  )
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="max-w-2xl space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Campaign Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Name *</Label>
+            <Input
+              id="name"
+              placeholder="e.g., Weekend Sale"
+              {...register("name")}
+            />
+            <p className="text-xs text-neutral-500">
+              Shown to customers next to the sale price
+            </p>
+            {errors.name && (
+              <p className="text-sm text-red-500">{errors.name.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              placeholder="Internal notes about this campaign..."
+              rows={2}
+              {...register("description")}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="type">Price Type</Label>
+              <Select
+                value={watchedValues.type}
+                onValueChange={(value) =>
+                  setValue("type", value as PriceCampaignType)
+                }
+              >
+                <SelectTrigger id="type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRICE_CAMPAIGN_TYPE_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="value">
+                {watchedValues.type === "percentage"
+                  ? "Percentage (%) *"
+                  : "Sale Price *"}
+              </Label>
+              <Input
+                id="value"
+                type="number"
+                min="0"
+                step="0.01"
+                {...register("value")}
+              />
+              {errors.value && (
+                <p className="text-sm text-red-500">{errors.value.message}</p>
+              )}
+            </div>
+          </div>
+
+          {watchedValues.type === "fixed_price" && (
+            <p className="text-xs text-neutral-500">
+              Every targeted variant sells at this price. Variants that already
+              cost less keep their own price.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="isActive">Active</Label>
+              <p className="text-xs text-neutral-500">
+                Turn off to pause the campaign without deleting it
+              </p>
+            </div>
+            <Switch
+              id="isActive"
+              checked={watchedValues.isActive}
+              onCheckedChange={(checked) => setValue("isActive", checked)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Schedule</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="startsAt">Starts At *</Label>
+              <Input
+                id="startsAt"
+                type="datetime-local"
+                {...register("startsAt")}
+              />
+              {errors.startsAt && (
+                <p className="text-sm text-red-500">
+                  {errors.startsAt.message}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endsAt">Ends At *</Label>
+              <Input
+                id="endsAt"
+                type="datetime-local"
+                {...register("endsAt")}
+              />
+              {errors.endsAt && (
+                <p className="text-sm text-red-500">{errors.endsAt.message}</p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Applies To</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-neutral-500">
+            Choose at least one target. A category includes its subcategories.
+            When campaigns overlap, the lowest price wins.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            {renderChecklist(
+              "categoryIds",
+              categories.map((category) => ({
+                id: category.id,
+                label: category.name,
+              })),
+              "No categories",
+              "h-40",
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Products</Label>
+            <Input
+              placeholder="Filter products..."
+              value={productFilter}
+              onChange={(e) => setProductFilter(e.target.value)}
+            />
+            {renderChecklist(
+              "productIds",
+              filteredProducts.map((product) => ({
+                id: product.id,
+                label: product.name,
+              })),
+              "No products found",
+              "h-56",
+            )}
+            {watchedValues.productIds.length > 0 && (
+              <p className="text-xs text-neutral-500">
+                {watchedValues.productIds.length} product(s) selected
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Variants</Label>
+            <Input
+              placeholder="Filter by product, variant or SKU..."
+              value={variantFilter}
+              onChange={(e) => setVariantFilter(e.target.value)}
+            />
+            {renderChecklist(
+              "variantIds",
+              filteredVariants.map((variant) => ({
+                id: variant.id,
+                label: `${variant.productName} — ${variant.name} (${variant.sku})`,
+              })),
+              "No variants found",
+              "h-56",
+            )}
+            {watchedValues.variantIds.length > 0 && (
+              <p className="text-xs text-neutral-500">
+                {watchedValues.variantIds.length} variant(s) selected
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => router.back()}
+          disabled={isPending}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {campaign ? "Save Changes" : "Create Campaign"}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,216 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { Pencil, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { deletePriceCampaign } from "@/lib/actions/price-campaign"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import {
+  PRICE_CAMPAIGN_TYPE_LABELS,
+  type PriceCampaignType,
+} from "@/lib/utils/price-campaigns"
+
+interface PriceCampaign {
+  id: string
+  name: string
+  type: PriceCampaignType
+  value: string
+  productIds: string[]
+  variantIds: string[]
+  categoryIds: string[]
+  startsAt: Date
+  endsAt: Date
+  isActive: boolean
+}
+
+interface PriceCampaignsTableProps {
+  campaigns: PriceCampaign[]
+}
+
+const DATE_TIME: Intl.DateTimeFormatOptions = {
+  dateStyle: "medium",
+  timeStyle: "short",
+}
+
+function formatValue(campaign: PriceCampaign): string {
+  return campaign.type === "percentage"
+    ? `${parseFloat(campaign.value)}% off`
+    : formatCurrency(parseFloat(campaign.value))
+}
+
+function formatTargets(campaign: PriceCampaign): string {
+  const parts = [
+    [campaign.categoryIds.length, "category", "categories"],
+    [campaign.productIds.length, "product", "products"],
+    [campaign.variantIds.length, "variant", "variants"],
+  ] as const
+
+  return parts
+    .filter(([count]) => count > 0)
+    .map(([count, one, many]) => `${count} ${count === 1 ? one : many}`)
+    .join(", ")
+}
+
+function getStatus(campaign: PriceCampaign): {
+  label: string
+  variant: "default" | "secondary" | "outline"
+} {
+  const now = new Date()
+  if (!campaign.isActive) return { label: "Paused", variant: "secondary" }
+  if (new Date(campaign.endsAt) <= now) {
+    return { label: "Ended", variant: "secondary" }
+  }
+  if (new Date(campaign.startsAt) > now) {
+    return { label: "Scheduled", variant: "outline" }
+  }
+  return { label: "Running", variant: "default" }
+}
+
+export function PriceCampaignsTable({ campaigns }: PriceCampaignsTableProps) {
+  const router = useRouter()
+  const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  async function handleDelete() {
+    if (!deleteId) return
+
+    setIsDeleting(true)
+    const result = await deletePriceCampaign(deleteId)
+    setIsDeleting(false)
+    setDeleteId(null)
+
+    if (result.success) {
+      toast.success("Campaign deleted")
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to delete campaign")
+    }
+  }
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Campaign</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-24"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {campaigns.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center py-8 text-neutral-500"
+                >
+                  No price campaigns yet. Schedule one to put products on sale
+                  for a set time.
+                </TableCell>
+              </TableRow>
+            ) : (
+              campaigns.map((campaign) => {
+                const status = getStatus(campaign)
+                return (
+                  <TableRow key={campaign.id}>
+                    <TableCell className="font-medium">
+                      {campaign.name}
+                    </TableCell>
+                    <TableCell>
+                      {PRICE_CAMPAIGN_TYPE_LABELS[campaign.type]}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatValue(campaign)}
+                    </TableCell>
+                    <TableCell className="text-sm text-neutral-500">
+                      {formatTargets(campaign)}
+                    </TableCell>
+                    <TableCell className="text-sm text-neutral-500">
+                      {formatDate(campaign.startsAt, DATE_TIME)} –{" "}
+                      {formatDate(campaign.endsAt, DATE_TIME)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" asChild>
+                          <Link
+                            href={`/admin/price-campaigns/${campaign.id}`}
+                            title="Edit"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeleteId(campaign.id)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete campaign?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Prices return to normal straight away if the campaign is running.
+              Orders already placed keep the prices they were sold at.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import { useState } from "react"
+
+import { Plus, X } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { deviceDisplayName } from "@/lib/utils/devices"
+
+export interface DeviceOption {
+  id: string
+  name: string
+  brandName: string
+  isActive: boolean
+}
+
+interface DeviceCompatibilityFieldProps {
+  devices: DeviceOption[]
+  value: string[]
+  onChange: (ids: string[]) => void
+}
+
+/**
+ * Device Compatibility Field
+ *
+ * Picks the device models an accessory fits. Leave it empty for products
+ * that fit any device.
+ */
+export function DeviceCompatibilityField({
+  devices,
+  value,
+  onChange,
+}: DeviceCompatibilityFieldProps) {
+  const [filter, setFilter] = useState("")
+
+  const label = (device: DeviceOption) =>
+    deviceDisplayName(device.brandName, device.name)
+
+  const selected = value
+    .map((id) => devices.find((device) => device.id === id))
+    .filter((device): device is DeviceOption => !!device)
+
+  const matches = filter
+    ? devices
+        .filter(
+          (device) =>
+            !value.includes(device.id) &&
+            `${device.brandName} ${device.name}`
+              .toLowerCase()
+              .includes(filter.toLowerCase()),
+        )
+        .slice(0, 20)
+    : []
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <Label htmlFor="compatibleDevices">Compatible Devices</Label>
+        <p className="text-xs text-neutral-500">
+          Leave empty if the product isn&apos;t made for specific devices.
+        </p>
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {selected.map((device) => (
+            <Badge
+              key={device.id}
+              variant={device.isActive ? "secondary" : "outline"}
+              className="gap-1 pr-1"
+            >
+              {label(device)}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((id) => id !== device.id))}
+                className="rounded-full p-0.5 hover:bg-neutral-300"
+                title="Remove"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Input
+        id="compatibleDevices"
+        placeholder={
+          devices.length > 0
+            ? "Search devices to add..."
+            : "Add devices under Admin → Devices first"
+        }
+        disabled={devices.length === 0}
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+      />
+      {filter && (
+        <ScrollArea className="h-40 rounded-md border p-2">
+          {matches.length === 0 ? (
+            <p className="p-1 text-sm text-muted-foreground">
+              No devices found
+            </p>
+          ) : (
+            matches.map((device) => (
+              <button
+                key={device.id}
+                type="button"
+                onClick={() => {
+                  onChange([...value, device.id])
+                  setFilter("")
+                }}
+                className="flex w-full items-center justify-between gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+              >
+                <span>
+                  {label(device)}
+                  {!device.isActive && (
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      (hidden)
+                    </span>
+                  )}
+                </span>
+                <Plus className="h-4 w-4 shrink-0" />
+              </button>
+            ))
+          )}
+        </ScrollArea>
+      )}
+    </div>
+  )
+}
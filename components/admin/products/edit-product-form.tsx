@@ -10,6 +10,11 @@ import { toast } from "sonner"
 import { z } from "zod"
 
 import { ImageUpload } from "@/components/admin/image-upload"
+import {
+  DeviceCompatibilityField,
+  type DeviceOption,
+} from "@/components/admin/products/device-compatibility-field"
+import { VariantMatrixEditor } from "@/components/admin/products/variant-matrix-editor"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -40,12 +45,15 @@ import {
 } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
 import { Textarea } from "@/components/ui/textarea"
+import { saveProductDevices } from "@/lib/actions/devices"
 import {
   deleteProduct,
   updateProduct,
   updateProductImages,
 } from "@/lib/actions/product"
+import { saveProductVariants } from "@/lib/actions/product-variants"
 import { cn } from "@/lib/utils"
+import { type VariantMatrixInput } from "@/lib/utils/variants"
 
 // Form schemas
 const basicInfoSchema = z.object({
@@ -97,6 +105,19 @@ interface Product {
   isFeatured: boolean
   metaTitle: string | null
   metaDescription: string | null
+  options: {
+    name: string
+    values: { id: string; value: string; swatch: string | null }[]
+  }[]
+  variants: {
+    id: string
+    sku: string | null
+    price: string
+    compareAtPrice: string | null
+    isActive: boolean
+    optionValueIds: string[]
+    inventory: { quantity: number; reservedQuantity: number } | null
+  }[]
 }
 
 interface ProductImage {
@@ -104,6 +125,7 @@ interface ProductImage {
   url: string
   altText: string | null
   isPrimary: boolean
+  variantId: string | null
 }
 
 interface UploadedImage {
@@ -117,19 +139,58 @@ interface EditProductFormProps {
   product: Product
   categories: Category[]
   images?: ProductImage[]
+  devices?: DeviceOption[]
+  deviceIds?: string[]
 }
 
 const steps = [
   { id: 1, name: "Basic Info", description: "Product name and description" },
   { id: 2, name: "Pricing", description: "Price details" },
   { id: 3, name: "Images", description: "Product photos and media" },
-  { id: 4, name: "Settings", description: "Status and SEO settings" },
+  { id: 4, name: "Variants", description: "Options, SKUs and stock" },
+  { id: 5, name: "Settings", description: "Status and SEO settings" },
 ]
 
+// Editable matrix from the saved options and variants
+function toVariantMatrix(
+  product: Product,
+  images: ProductImage[],
+): VariantMatrixInput {
+  const valueById = new Map(
+    product.options.flatMap((option) =>
+      option.values.map((v) => [v.id, v.value] as const),
+    ),
+  )
+
+  return {
+    options: product.options.map((option) => ({
+      name: option.name,
+      values: option.values.map((v) => ({ value: v.value, swatch: v.swatch })),
+    })),
+    variants: product.variants.map((variant) => ({
+      id: variant.id,
+      values: product.options.map((option) => {
+        const valueId = option.values.find((v) =>
+          variant.optionValueIds.includes(v.id),
+        )?.id
+        return (valueId && valueById.get(valueId)) || ""
+      }),
+      sku: variant.sku || "",
+      price: variant.price,
+      compareAtPrice: variant.compareAtPrice,
+      initialStock: 0,
+      isActive: variant.isActive,
+      imageUrl: images.find((image) => image.variantId === variant.id)?.url,
+    })),
+  }
+}
+
 export function EditProductForm({
   product,
   categories,
   images: initialImages = [],
+  devices = [],
+  deviceIds: initialDeviceIds = [],
 }: EditProductFormProps) {
   const router = useRouter()
   const [currentStep, setCurrentStep] = useState(1)
@@ -144,12 +205,37 @@ export function EditProductForm({
     })),
   )
   const [imagesChanged, setImagesChanged] = useState(false)
+  const [variantMatrix, setVariantMatrix] = useState(() =>
+    toVariantMatrix(product, initialImages),
+  )
+  const [variantsChanged, setVariantsChanged] = useState(false)
+  const [deviceIds, setDeviceIds] = useState(initialDeviceIds)
+  const [devicesChanged, setDevicesChanged] = useState(false)
+
+  const variantStock = Object.fromEntries(
+    product.variants.map((variant) => [
+      variant.id,
+      variant.inventory
+        ? variant.inventory.quantity - variant.inventory.reservedQuantity
+        : 0,
+    ]),
+  )
 
   const handleImagesChange = (newImages: UploadedImage[]) => {
     setImages(newImages)
     setImagesChanged(true)
   }
 
+  const handleVariantsChange = (matrix: VariantMatrixInput) => {
+    setVariantMatrix(matrix)
+    setVariantsChanged(true)
+  }
+
+  const handleDevicesChange = (ids: string[]) => {
+    setDeviceIds(ids)
+    setDevicesChanged(true)
+  }
+
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
     defaultValues: {
@@ -203,6 +289,9 @@ export function EditProductForm({
         // Images step - no form validation needed
         return true
       case 4:
+        // Variants are validated when saved
+        return true
+      case 5:
         fieldsToValidate.push(
           "status",
           "isFeatured",
@@ -259,6 +348,25 @@ export function EditProductForm({
           )
         }
 
+        // Saved after images so variants can link to new uploads
+        if (variantsChanged) {
+          const result = await saveProductVariants(product.id, variantMatrix)
+          if (!result.success) {
+            toast.error(result.error)
+            setCurrentStep(4)
+            return
+          }
+        }
+
+        if (devicesChanged) {
+          const result = await saveProductDevices(product.id, deviceIds)
+          if (!result.success) {
+            toast.error(result.error)
+            setCurrentStep(1)
+            return
+          }
+        }
+
         toast.success("Product updated successfully!")
         router.push("/admin/products")
         router.refresh()
@@ -271,7 +379,11 @@ export function EditProductForm({
   const handleDelete = async () => {
     setIsDeleting(true)
     try {
-      await deleteProduct(product.id)
+      const result = await deleteProduct(product.id)
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
       toast.success("Product deleted successfully!")
       router.push("/admin/products")
       router.refresh()
@@ -409,6 +521,12 @@ export function EditProductForm({
                 </Select>
               </div>
 
+              <DeviceCompatibilityField
+                devices={devices}
+                value={deviceIds}
+                onChange={handleDevicesChange}
+              />
+
               <div className="space-y-2">
                 <Label htmlFor="shortDescription">Short Description</Label>
                 <Textarea
@@ -518,8 +636,32 @@ export function EditProductForm({
           </Card>
         )}
 
-        {/* Step 4: Settings */}
+        {/* Step 4: Variants */}
         {currentStep === 4 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Variants</CardTitle>
+              <CardDescription>
+                Options such as storage or color, and the SKU, price and stock
+                of each combination
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <VariantMatrixEditor
+                value={variantMatrix}
+                onChange={handleVariantsChange}
+                productName={watchedValues.name}
+                basePrice={watchedValues.basePrice}
+                compareAtPrice={watchedValues.compareAtPrice}
+                images={images}
+                stock={variantStock}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Step 5: Settings */}
+        {currentStep === 5 && (
           <Card>
             <CardHeader>
               <CardTitle>Settings & SEO</CardTitle>
@@ -674,7 +816,18 @@ export function EditProductForm({
                 <ChevronRight className="ml-2 h-4 w-4" />
               </Button>
             ) : (
-              <Button type="submit" disabled={isPending || !isDirty}>
+              <Button
+                type="submit"
+                disabled={
+                  isPending ||
+                  !(
+                    isDirty ||
+                    imagesChanged ||
+                    variantsChanged ||
+                    devicesChanged
+                  )
+                }
+              >
                 {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Save Changes
               </Button>
@@ -10,6 +10,11 @@ import { toast } from "sonner"
 import { z } from "zod"
 
 import { ImageUpload } from "@/components/admin/image-upload"
+import {
+  DeviceCompatibilityField,
+  type DeviceOption,
+} from "@/components/admin/products/device-compatibility-field"
+import { VariantMatrixEditor } from "@/components/admin/products/variant-matrix-editor"
 import { Button } from "@/components/ui/button"
 import {
   Card,
@@ -29,8 +34,16 @@ import {
 } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
 import { Textarea } from "@/components/ui/textarea"
+import { saveProductDevices } from "@/lib/actions/devices"
 import { addProductImages, createProduct } from "@/lib/actions/product"
+import { saveProductVariants } from "@/lib/actions/product-variants"
 import { cn, slugify } from "@/lib/utils"
+import {
+  buildVariantRows,
+  defaultSkuPattern,
+  skuPrefix,
+  type VariantMatrixInput,
+} from "@/lib/utils/variants"
 
 // Form schemas for each step
 const basicInfoSchema = z.object({
@@ -45,8 +58,6 @@ const pricingSchema = z.object({
   basePrice: z.string().min(1, "Price is required"),
   compareAtPrice: z.string().optional(),
   costPrice: z.string().optional(),
-  sku: z.string().max(100).optional(),
-  barcode: z.string().max(100).optional(),
 })
 
 const settingsSchema = z.object({
@@ -72,6 +83,7 @@ interface Category {
 
 interface NewProductFormProps {
   categories: Category[]
+  devices?: DeviceOption[]
 }
 
 interface UploadedImage {
@@ -83,16 +95,25 @@ interface UploadedImage {
 
 const steps = [
   { id: 1, name: "Basic Info", description: "Product name and description" },
-  { id: 2, name: "Pricing", description: "Price and inventory details" },
+  { id: 2, name: "Pricing", description: "Price details" },
   { id: 3, name: "Images", description: "Product photos and media" },
-  { id: 4, name: "Settings", description: "Status and SEO settings" },
+  { id: 4, name: "Variants", description: "Options, SKUs and stock" },
+  { id: 5, name: "Settings", description: "Status and SEO settings" },
 ]
 
-export function NewProductForm({ categories }: NewProductFormProps) {
+export function NewProductForm({
+  categories,
+  devices = [],
+}: NewProductFormProps) {
   const router = useRouter()
   const [currentStep, setCurrentStep] = useState(1)
   const [isPending, startTransition] = useTransition()
   const [images, setImages] = useState<UploadedImage[]>([])
+  const [variantMatrix, setVariantMatrix] = useState<VariantMatrixInput>({
+    options: [],
+    variants: [],
+  })
+  const [deviceIds, setDeviceIds] = useState<string[]>([])
 
   const form = useForm<ProductFormData>({
     resolver: zodResolver(productSchema),
@@ -105,8 +126,6 @@ export function NewProductForm({ categories }: NewProductFormProps) {
       basePrice: "",
       compareAtPrice: "",
       costPrice: "",
-      sku: "",
-      barcode: "",
       status: "draft",
       isFeatured: false,
       isDigital: false,
@@ -153,18 +172,15 @@ export function NewProductForm({ categories }: NewProductFormProps) {
         )
         break
       case 2:
-        fieldsToValidate.push(
-          "basePrice",
-          "compareAtPrice",
-          "costPrice",
-          "sku",
-          "barcode",
-        )
+        fieldsToValidate.push("basePrice", "compareAtPrice", "costPrice")
         break
       case 3:
         // Images step - no form validation needed
         return true
       case 4:
+        // Variants are validated when saved
+        return true
+      case 5:
         fieldsToValidate.push(
           "status",
           "isFeatured",
@@ -182,6 +198,18 @@ export function NewProductForm({ categories }: NewProductFormProps) {
   const nextStep = async () => {
     const isValid = await validateStep(currentStep)
     if (isValid && currentStep < steps.length) {
+      // Start the variants step with a single default variant
+      if (currentStep + 1 === 4 && variantMatrix.variants.length === 0) {
+        setVariantMatrix({
+          options: [],
+          variants: buildVariantRows([], [], {
+            skuPattern: defaultSkuPattern(skuPrefix(watchedValues.name), []),
+            basePrice: watchedValues.basePrice,
+            compareAtPrice: watchedValues.compareAtPrice,
+            adjustments: [],
+          }),
+        })
+      }
       setCurrentStep(currentStep + 1)
     }
   }
@@ -216,6 +244,30 @@ export function NewProductForm({ categories }: NewProductFormProps) {
             )
           }
 
+          // The product exists at this point, so a rejected matrix is fixed
+          // from its edit page
+          const variantsResult = await saveProductVariants(
+            result.data.id,
+            variantMatrix,
+          )
+          if (!variantsResult.success) {
+            toast.error(`Product created, but ${variantsResult.error}`)
+            router.push(`/admin/products/${result.data.id}/edit`)
+            return
+          }
+
+          if (deviceIds.length > 0) {
+            const devicesResult = await saveProductDevices(
+              result.data.id,
+              deviceIds,
+            )
+            if (!devicesResult.success) {
+              toast.error(`Product created, but ${devicesResult.error}`)
+              router.push(`/admin/products/${result.data.id}/edit`)
+              return
+            }
+          }
+
           toast.success("Product created successfully!")
           router.push("/admin/products")
           router.refresh()
@@ -367,6 +419,12 @@ export function NewProductForm({ categories }: NewProductFormProps) {
                 </Select>
               </div>
 
+              <DeviceCompatibilityField
+                devices={devices}
+                value={deviceIds}
+                onChange={setDeviceIds}
+              />
+
               <div className="space-y-2">
                 <Label htmlFor="shortDescription">Short Description</Label>
                 <Textarea
@@ -397,9 +455,9 @@ export function NewProductForm({ categories }: NewProductFormProps) {
         {currentStep === 2 && (
           <Card>
             <CardHeader>
-              <CardTitle>Pricing & Inventory</CardTitle>
+              <CardTitle>Pricing</CardTitle>
               <CardDescription>
-                Set the pricing and inventory details
+                Set the pricing details. Variants start from the base price.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -451,26 +509,6 @@ export function NewProductForm({ categories }: NewProductFormProps) {
                   For profit calculations (not shown to customers)
                 </p>
               </div>
-
-              <div className="grid gap-6 md:grid-cols-2">
-                <div className="space-y-2">
-                  <Label htmlFor="sku">SKU</Label>
-                  <Input
-                    id="sku"
-                    placeholder="e.g., IPH-15-PRO-128"
-                    {...register("sku")}
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="barcode">Barcode (ISBN, UPC, etc.)</Label>
-                  <Input
-                    id="barcode"
-                    placeholder="e.g., 123456789012"
-                    {...register("barcode")}
-                  />
-                </div>
-              </div>
             </CardContent>
           </Card>
         )}
@@ -496,8 +534,31 @@ export function NewProductForm({ categories }: NewProductFormProps) {
           </Card>
         )}
 
-        {/* Step 4: Settings */}
+        {/* Step 4: Variants */}
         {currentStep === 4 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Variants</CardTitle>
+              <CardDescription>
+                Add options such as storage or color to sell the product in
+                several combinations, each with its own SKU, price and stock.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <VariantMatrixEditor
+                value={variantMatrix}
+                onChange={setVariantMatrix}
+                productName={watchedValues.name}
+                basePrice={watchedValues.basePrice}
+                compareAtPrice={watchedValues.compareAtPrice}
+                images={images}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Step 5: Settings */}
+        {currentStep === 5 && (
           <Card>
             <CardHeader>
               <CardTitle>Settings & SEO</CardTitle>
@@ -0,0 +1,406 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  removeProductBundle,
+  saveProductBundle,
+} from "@/lib/actions/product-bundles"
+import { formatCurrency } from "@/lib/utils"
+import {
+  bundleComponentTotal,
+  discountedBundlePrice,
+} from "@/lib/utils/bundles"
+
+const FIXED_PRICE = "fixed"
+const DISCOUNT = "discount"
+
+interface BundleVariant {
+  id: string
+  name: string
+  sku: string
+  price: string
+}
+
+interface ComponentOption {
+  id: string
+  name: string
+  sku: string
+  price: string
+  productName: string
+}
+
+interface Bundle {
+  variantId: string
+  discountPercent: number | null
+  items: { componentVariantId: string; quantity: number }[]
+}
+
+interface ProductBundleEditorProps {
+  variants: BundleVariant[]
+  bundles: Bundle[]
+  componentOptions: ComponentOption[]
+}
+
+/**
+ * Product Bundle Editor
+ *
+ * Makes a variant a kit of other products' variants. The bundle sells at
+ * the variant's own price or at a discount off its components, and its
+ * stock follows the components.
+ */
+export function ProductBundleEditor({
+  variants,
+  bundles,
+  componentOptions,
+}: ProductBundleEditorProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const initialVariantId = bundles[0]?.variantId ?? variants[0]?.id ?? ""
+  const [variantId, setVariantId] = useState(initialVariantId)
+  const [items, setItems] = useState(
+    bundles.find((b) => b.variantId === initialVariantId)?.items ?? [],
+  )
+  const [discount, setDiscount] = useState(() => {
+    const percent = bundles.find(
+      (b) => b.variantId === initialVariantId,
+    )?.discountPercent
+    return percent !== null && percent !== undefined ? String(percent) : ""
+  })
+  const [pricing, setPricing] = useState(discount ? DISCOUNT : FIXED_PRICE)
+  const [filter, setFilter] = useState("")
+
+  const variant = variants.find((v) => v.id === variantId)
+  const existing = bundles.find((b) => b.variantId === variantId)
+
+  const selectVariant = (id: string) => {
+    const bundle = bundles.find((b) => b.variantId === id)
+    setVariantId(id)
+    setItems(bundle?.items ?? [])
+    setDiscount(
+      bundle?.discountPercent !== null && bundle?.discountPercent !== undefined
+        ? String(bundle.discountPercent)
+        : "",
+    )
+    setPricing(
+      bundle?.discountPercent !== null && bundle?.discountPercent !== undefined
+        ? DISCOUNT
+        : FIXED_PRICE,
+    )
+  }
+
+  const optionById = new Map(componentOptions.map((o) => [o.id, o]))
+  const matches = filter
+    ? componentOptions
+        .filter(
+          (o) =>
+            !items.some((i) => i.componentVariantId === o.id) &&
+            `${o.productName} ${o.name} ${o.sku}`
+              .toLowerCase()
+              .includes(filter.toLowerCase()),
+        )
+        .slice(0, 20)
+    : []
+
+  const lines = items.map((item) => ({
+    price: parseFloat(optionById.get(item.componentVariantId)?.price ?? "0"),
+    quantity: item.quantity,
+  }))
+  const componentTotal = bundleComponentTotal(lines)
+  const bundlePrice =
+    pricing === DISCOUNT
+      ? discountedBundlePrice(lines, parseFloat(discount) || 0)
+      : parseFloat(variant?.price ?? "0")
+
+  const addComponent = (id: string) => {
+    setItems((prev) => [...prev, { componentVariantId: id, quantity: 1 }])
+    setFilter("")
+  }
+
+  const setQuantity = (id: string, quantity: number) => {
+    setItems((prev) =>
+      prev.map((item) =>
+        item.componentVariantId === id
+          ? { ...item, quantity: Math.max(1, quantity || 1) }
+          : item,
+      ),
+    )
+  }
+
+  const removeComponent = (id: string) => {
+    setItems((prev) => prev.filter((item) => item.componentVariantId !== id))
+  }
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await saveProductBundle({
+        variantId,
+        items,
+        discountPercent:
+          pricing === DISCOUNT ? parseFloat(discount) || 0 : null,
+      })
+
+      if (result.success) {
+        toast.success("Bundle saved")
+        router.refresh()
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  const handleRemove = () => {
+    startTransition(async () => {
+      const result = await removeProductBundle(variantId)
+
+      if (result.success) {
+        toast.success("Bundle removed")
+        setItems([])
+        router.refresh()
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  if (variants.length === 0) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bundle</CardTitle>
+        <CardDescription>
+          Sell a variant as a kit of other products. Stock comes from the
+          components, and orders list each component for fulfilment.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {variants.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="bundle-variant">Variant</Label>
+            <Select value={variantId} onValueChange={selectVariant}>
+              <SelectTrigger id="bundle-variant" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {variants.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>
+                    {v.name} ({v.sku})
+                    {bundles.some((b) => b.variantId === v.id) && " · Bundle"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* Components */}
+        <div className="space-y-2">
+          <Label>Components</Label>
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Not a bundle. Add components to sell this variant as a kit.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="w-24">Qty</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => {
+                  const option = optionById.get(item.componentVariantId)
+                  return (
+                    <TableRow key={item.componentVariantId}>
+                      <TableCell>
+                        <p className="font-medium">
+                          {option?.productName ?? "Unavailable variant"}
+                        </p>
+                        {option && (
+                          <p className="text-xs text-muted-foreground">
+                            {option.name} · {option.sku}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={99}
+                          value={item.quantity}
+                          onChange={(e) =>
+                            setQuantity(
+                              item.componentVariantId,
+                              parseInt(e.target.value),
+                            )
+                          }
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {option
+                          ? formatCurrency(parseFloat(option.price))
+                          : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            removeComponent(item.componentVariantId)
+                          }
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <Input
+            placeholder="Search products or SKUs to add..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+          {filter && (
+            <ScrollArea className="h-48 rounded-md border p-2">
+              {matches.length === 0 ? (
+                <p className="p-1 text-sm text-muted-foreground">
+                  No variants found
+                </p>
+              ) : (
+                matches.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => addComponent(option.id)}
+                    className="flex w-full items-center justify-between gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+                  >
+                    <span>
+                      {option.productName}
+                      <span className="ml-1 text-muted-foreground">
+                        {option.name} · {option.sku}
+                      </span>
+                    </span>
+                    <Plus className="h-4 w-4 shrink-0" />
+                  </button>
+                ))
+              )}
+            </ScrollArea>
+          )}
+        </div>
+
+        {/* Pricing */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="bundle-pricing">Pricing</Label>
+            <Select value={pricing} onValueChange={setPricing}>
+              <SelectTrigger id="bundle-pricing" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={FIXED_PRICE}>Variant price</SelectItem>
+                <SelectItem value={DISCOUNT}>
+                  Discount off components
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {pricing === DISCOUNT && (
+            <div className="space-y-2">
+              <Label htmlFor="bundle-discount">Discount (%)</Label>
+              <Input
+                id="bundle-discount"
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={discount}
+                onChange={(e) => setDiscount(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="rounded-lg bg-muted p-4 text-sm space-y-1">
+            <div className="flex justify-between">
+              <span>Components bought separately</span>
+              <span>{formatCurrency(componentTotal)}</span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span>Bundle price</span>
+              <span>{formatCurrency(bundlePrice)}</span>
+            </div>
+            {pricing === FIXED_PRICE && (
+              <p className="text-xs text-muted-foreground">
+                Change the variant price in the Variants step.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {existing && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleRemove}
+              disabled={isPending}
+            >
+              Remove Bundle
+            </Button>
+          )}
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={isPending || items.length === 0}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Bundle
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,245 @@
+"use client"
+
+import { useRef, useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { AlertCircle, Loader2, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  importProducts,
+  previewProductImport,
+} from "@/lib/actions/product-import"
+import type {
+  ProductImportChange,
+  ProductImportPreview,
+} from "@/lib/catalog/product-sheet"
+
+const actionColors: Record<ProductImportChange["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  unchanged: "bg-neutral-100 text-neutral-600",
+}
+
+const actionLabels: Record<ProductImportChange["action"], string> = {
+  create: "New",
+  update: "Update",
+  unchanged: "Unchanged",
+}
+
+export function ProductImportDialog() {
+  const router = useRouter()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isPending, startTransition] = useTransition()
+  const [open, setOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ProductImportPreview | null>(null)
+
+  const openDialog = () => {
+    setFile(null)
+    setPreview(null)
+    setOpen(true)
+  }
+
+  const formDataFor = (selected: File) => {
+    const formData = new FormData()
+    formData.set("file", selected)
+    return formData
+  }
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected)
+    setPreview(null)
+    if (!selected) return
+
+    startTransition(async () => {
+      const result = await previewProductImport(formDataFor(selected))
+      if (result.success) {
+        setPreview(result.data)
+      } else {
+        toast.error(result.error)
+        setFile(null)
+        if (inputRef.current) inputRef.current.value = ""
+      }
+    })
+  }
+
+  const handleImport = () => {
+    if (!file) return
+
+    startTransition(async () => {
+      const result = await importProducts(formDataFor(file))
+      if (result.success) {
+        const { created, updated } = result.data
+        toast.success(
+          `Imported ${created} new and ${updated} updated product${
+            created + updated === 1 ? "" : "s"
+          }`,
+        )
+        setOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error)
+        if ("data" in result && result.data) setPreview(result.data)
+      }
+    })
+  }
+
+  const count = (action: ProductImportChange["action"]) =>
+    preview?.products.filter((p) => p.action === action).length ?? 0
+  const hasChanges = count("create") + count("update") > 0
+  const canImport =
+    !!preview && preview.errors.length === 0 && hasChanges && !isPending
+
+  return (
+    <>
+      <Button variant="outline" onClick={openDialog}>
+        <Upload className="mr-2 h-4 w-4" />
+        Import
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Import Products</DialogTitle>
+            <DialogDescription>
+              Upload a .csv or .xlsx file in the export format, one row per
+              variant. Nothing is saved until you review the changes and import.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                ref={inputRef}
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                disabled={isPending}
+                onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              />
+            </div>
+
+            {isPending && !preview && (
+              <div className="flex items-center gap-2 text-sm text-neutral-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Checking file...
+              </div>
+            )}
+
+            {preview && (
+              <>
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <span>{preview.rowCount} rows</span>
+                  <span className="text-green-700">{count("create")} new</span>
+                  <span className="text-blue-700">
+                    {count("update")} updated
+                  </span>
+                  <span className="text-neutral-500">
+                    {count("unchanged")} unchanged
+                  </span>
+                  {preview.errors.length > 0 && (
+                    <span className="text-red-600">
+                      {preview.errors.length} errors
+                    </span>
+                  )}
+                </div>
+
+                {preview.errors.length > 0 && (
+                  <div className="max-h-48 space-y-1 overflow-y-auto rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                    {preview.errors.map((error, index) => (
+                      <div key={index} className="flex gap-2">
+                        <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                        <span>
+                          Row {error.row}
+                          {error.column && (
+                            <span className="font-mono"> ({error.column})</span>
+                          )}
+                          : {error.message}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {preview.products.length > 0 && (
+                  <div className="max-h-72 overflow-y-auto rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Action</TableHead>
+                          <TableHead>Changes</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.products.map((product) => (
+                          <TableRow key={product.handle}>
+                            <TableCell>
+                              <div className="font-medium">{product.name}</div>
+                              <div className="text-xs text-neutral-500">
+                                {product.handle} · row
+                                {product.rows.length === 1 ? "" : "s"}{" "}
+                                {product.rows.join(", ")}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge
+                                variant="secondary"
+                                className={actionColors[product.action]}
+                              >
+                                {actionLabels[product.action]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className="text-sm whitespace-normal">
+                              {product.changes.length > 0
+                                ? product.changes.join("; ")
+                                : "—"}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={!canImport}>
+              {isPending && preview && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Import
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,238 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { saveProductLinks } from "@/lib/actions/product-links"
+
+interface ProductOption {
+  id: string
+  name: string
+  status: string
+}
+
+interface ProductLinksEditorProps {
+  productId: string
+  related: string[]
+  crossSell: string[]
+  productOptions: ProductOption[]
+}
+
+interface LinkListProps {
+  id: string
+  label: string
+  description: string
+  ids: string[]
+  onChange: (ids: string[]) => void
+  optionById: Map<string, ProductOption>
+  productOptions: ProductOption[]
+}
+
+function LinkList({
+  id,
+  label,
+  description,
+  ids,
+  onChange,
+  optionById,
+  productOptions,
+}: LinkListProps) {
+  const [filter, setFilter] = useState("")
+
+  const matches = filter
+    ? productOptions
+        .filter(
+          (o) =>
+            !ids.includes(o.id) &&
+            o.name.toLowerCase().includes(filter.toLowerCase()),
+        )
+        .slice(0, 20)
+    : []
+
+  const move = (index: number, offset: number) => {
+    const next = [...ids]
+    const [moved] = next.splice(index, 1)
+    next.splice(index + offset, 0, moved)
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <Label htmlFor={id}>{label}</Label>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+
+      {ids.length > 0 && (
+        <ul className="divide-y rounded-md border">
+          {ids.map((linkedId, index) => {
+            const option = optionById.get(linkedId)
+            return (
+              <li
+                key={linkedId}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm"
+              >
+                <span className="flex-1">
+                  {option?.name ?? "Unavailable product"}
+                  {option && option.status !== "active" && (
+                    <Badge variant="secondary" className="ml-2 capitalize">
+                      {option.status}
+                    </Badge>
+                  )}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => move(index, 1)}
+                  disabled={index === ids.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onChange(ids.filter((i) => i !== linkedId))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <Input
+        id={id}
+        placeholder="Search products to add..."
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+      />
+      {filter && (
+        <ScrollArea className="h-48 rounded-md border p-2">
+          {matches.length === 0 ? (
+            <p className="p-1 text-sm text-muted-foreground">
+              No products found
+            </p>
+          ) : (
+            matches.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => {
+                  onChange([...ids, option.id])
+                  setFilter("")
+                }}
+                className="flex w-full items-center justify-between gap-2 rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+              >
+                {option.name}
+                <Plus className="h-4 w-4 shrink-0" />
+              </button>
+            ))
+          )}
+        </ScrollArea>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Product Links Editor
+ *
+ * Hand-picks related products and cross-sells. They are shown before the
+ * frequently-bought-together and same-category suggestions.
+ */
+export function ProductLinksEditor({
+  productId,
+  related: initialRelated,
+  crossSell: initialCrossSell,
+  productOptions,
+}: ProductLinksEditorProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [related, setRelated] = useState(initialRelated)
+  const [crossSell, setCrossSell] = useState(initialCrossSell)
+
+  const optionById = new Map(productOptions.map((o) => [o.id, o]))
+
+  const handleSave = () => {
+    startTransition(async () => {
+      const result = await saveProductLinks({ productId, related, crossSell })
+
+      if (result.success) {
+        toast.success("Recommendations saved")
+        router.refresh()
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recommendations</CardTitle>
+        <CardDescription>
+          Products to suggest alongside this one. Without picks, the store
+          suggests what customers bought together and products from the same
+          category.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <LinkList
+          id="cross-sell-search"
+          label="Cross-sells"
+          description="Add-ons shown as frequently bought together, in the cart and in order confirmations."
+          ids={crossSell}
+          onChange={setCrossSell}
+          optionById={optionById}
+          productOptions={productOptions}
+        />
+        <LinkList
+          id="related-search"
+          label="Related products"
+          description="Alternatives shown under related products on the product page."
+          ids={related}
+          onChange={setRelated}
+          optionById={optionById}
+          productOptions={productOptions}
+        />
+
+        <div className="flex justify-end">
+          <Button type="button" onClick={handleSave} disabled={isPending}>
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Recommendations
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,13 +1,42 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useTransition } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 
-import { Eye, MoreHorizontal, Pencil, Search, Trash2 } from "lucide-react"
+import {
+  ChevronDown,
+  Eye,
+  FolderInput,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Search,
+  Trash2,
+} from "lucide-react"
+import { toast } from "sonner"
 
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,7 +59,16 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
+import {
+  bulkAssignProductCategory,
+  bulkDeleteProducts,
+  bulkUpdateProductStatus,
+} from "@/lib/actions/product"
 import { formatCurrency } from "@/lib/utils"
+import {
+  type BulkRowResult,
+  summarizeBulkResults,
+} from "@/lib/utils/bulk-actions"
 
 interface Product {
   id: string
@@ -42,8 +80,14 @@ interface Product {
   createdAt: Date
 }
 
+interface Category {
+  id: string
+  name: string
+}
+
 interface ProductsTableProps {
   products: Product[]
+  categories: Category[]
   total: number
   page: number
   totalPages: number
@@ -51,8 +95,12 @@ interface ProductsTableProps {
   status: string
 }
 
+// Sentinel for "no category" in the category select
+const NO_CATEGORY = "none"
+
 export function ProductsTable({
   products,
+  categories,
   total,
   page,
   totalPages,
@@ -61,6 +109,81 @@ export function ProductsTable({
 }: ProductsTableProps) {
   const router = useRouter()
   const [searchInput, setSearchInput] = useState(search)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [isPending, startTransition] = useTransition()
+  const [categoryDialogOpen, setCategoryDialogOpen] = useState(false)
+  const [categoryId, setCategoryId] = useState(NO_CATEGORY)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+
+  const toggleSelect = (id: string) => {
+    const newSelected = new Set(selectedIds)
+    if (newSelected.has(id)) {
+      newSelected.delete(id)
+    } else {
+      newSelected.add(id)
+    }
+    setSelectedIds(newSelected)
+  }
+
+  const selectAll = () => {
+    if (selectedIds.size === products.length) {
+      setSelectedIds(new Set())
+    } else {
+      setSelectedIds(new Set(products.map((p) => p.id)))
+    }
+  }
+
+  // Runs a bulk action and reports its per-row results
+  const runBulkAction = (
+    action: () => Promise<
+      | { success: true; results: BulkRowResult[] }
+      | { success: false; error: string }
+    >,
+    verb: string,
+  ) => {
+    startTransition(async () => {
+      const result = await action()
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+
+      const summary = summarizeBulkResults(result.results, "product", verb)
+      if (summary.allSucceeded) {
+        toast.success(summary.title)
+      } else {
+        toast.warning(summary.title, { description: summary.description })
+      }
+      setSelectedIds(
+        new Set(result.results.filter((r) => !r.success).map((r) => r.id)),
+      )
+      setCategoryDialogOpen(false)
+      setDeleteDialogOpen(false)
+      router.refresh()
+    })
+  }
+
+  const handleBulkStatus = (value: Product["status"]) => {
+    runBulkAction(
+      () => bulkUpdateProductStatus(Array.from(selectedIds), value),
+      "updated",
+    )
+  }
+
+  const handleBulkCategory = () => {
+    runBulkAction(
+      () =>
+        bulkAssignProductCategory(
+          Array.from(selectedIds),
+          categoryId === NO_CATEGORY ? null : categoryId,
+        ),
+      "moved",
+    )
+  }
+
+  const handleBulkDelete = () => {
+    runBulkAction(() => bulkDeleteProducts(Array.from(selectedIds)), "deleted")
+  }
 
   const handleSearch = () => {
     const params = new URLSearchParams()
@@ -121,11 +244,75 @@ export function ProductsTable({
         </Select>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedIds.size > 0 && (
+        <div className="flex items-center justify-between rounded-md border bg-muted/50 px-4 py-2">
+          <span className="text-sm text-muted-foreground">
+            {selectedIds.size} selected
+          </span>
+          <div className="flex gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isPending}>
+                  {isPending && (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  )}
+                  Set Status
+                  <ChevronDown className="h-4 w-4 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleBulkStatus("active")}>
+                  Active
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleBulkStatus("draft")}>
+                  Draft
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleBulkStatus("archived")}>
+                  Archived
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() => {
+                setCategoryId(NO_CATEGORY)
+                setCategoryDialogOpen(true)
+              }}
+            >
+              <FolderInput className="h-4 w-4 mr-1" />
+              Move to Category
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() => setDeleteDialogOpen(true)}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Table */}
       <div className="rounded-md border">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={
+                    products.length > 0 && selectedIds.size === products.length
+                  }
+                  onCheckedChange={selectAll}
+                  aria-label="Select all products"
+                />
+              </TableHead>
               <TableHead>Product</TableHead>
               <TableHead>Price</TableHead>
               <TableHead>Status</TableHead>
@@ -137,7 +324,7 @@ export function ProductsTable({
             {products.length === 0 ? (
               <TableRow>
                 <TableCell
-                  colSpan={5}
+                  colSpan={6}
                   className="text-center py-8 text-neutral-500"
                 >
                   No products found
@@ -146,6 +333,13 @@ export function ProductsTable({
             ) : (
               products.map((product) => (
                 <TableRow key={product.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.has(product.id)}
+                      onCheckedChange={() => toggleSelect(product.id)}
+                      aria-label={`Select ${product.name}`}
+                    />
+                  </TableCell>
                   <TableCell>
                     <div>
                       <div className="font-medium">{product.name}</div>
@@ -230,6 +424,73 @@ export function ProductsTable({
           </Button>
         </div>
       </div>
+
+      {/* Category Dialog */}
+      <Dialog open={categoryDialogOpen} onOpenChange={setCategoryDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move to Category</DialogTitle>
+            <DialogDescription>
+              Assign {selectedIds.size} selected product
+              {selectedIds.size === 1 ? "" : "s"} to a category.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={categoryId} onValueChange={setCategoryId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setCategoryDialogOpen(false)}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleBulkCategory} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move Products
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Dialog */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Products</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {selectedIds.size} selected
+              product{selectedIds.size === 1 ? "" : "s"}? Their variants, images
+              and stock records are deleted too. Archive products instead to
+              keep them out of the store.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault()
+                handleBulkDelete()
+              }}
+              disabled={isPending}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
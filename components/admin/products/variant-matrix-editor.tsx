@@ -0,0 +1,588 @@
+"use client"
+
+import { useState } from "react"
+
+import { Plus, Trash2, Wand2, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  applySkuPattern,
+  buildVariantRows,
+  combinationPrice,
+  defaultSkuPattern,
+  MAX_VARIANT_OPTIONS,
+  skuPrefix,
+  type VariantMatrixInput,
+  variantName,
+  type VariantOptionInput,
+  type VariantRowInput,
+} from "@/lib/utils/variants"
+
+const NO_IMAGE = "none"
+const DEFAULT_SWATCH = "#9ca3af"
+
+// Editor-only state kept alongside each option
+interface OptionSettings {
+  swatches: boolean
+  adjustments: Record<string, string> // Value -> price adjustment as typed
+  newValue: string
+}
+
+function parseAdjustments(settings: OptionSettings[]) {
+  return settings.map((s) =>
+    Object.fromEntries(
+      Object.entries(s.adjustments).map(([value, amount]) => [
+        value,
+        parseFloat(amount) || 0,
+      ]),
+    ),
+  )
+}
+
+interface VariantMatrixEditorProps {
+  value: VariantMatrixInput
+  onChange: (value: VariantMatrixInput) => void
+  productName: string
+  basePrice: string
+  compareAtPrice?: string
+  images: { url: string; altText?: string }[]
+  stock?: Record<string, number> // Variant ID -> available quantity
+}
+
+export function VariantMatrixEditor({
+  value,
+  onChange,
+  productName,
+  basePrice,
+  compareAtPrice,
+  images,
+  stock = {},
+}: VariantMatrixEditorProps) {
+  const { options, variants } = value
+  const [settings, setSettings] = useState<OptionSettings[]>(() =>
+    options.map((option) => ({
+      swatches: option.values.some((v) => v.swatch),
+      adjustments: {},
+      newValue: "",
+    })),
+  )
+  const [customSkuPattern, setCustomSkuPattern] = useState<string | null>(null)
+
+  const skuPattern =
+    customSkuPattern ?? defaultSkuPattern(skuPrefix(productName), options)
+
+  // Products created before options existed have several unlinked variants
+  const isLegacy = options.length === 0 && variants.length > 1
+
+  // Regenerate rows for the new options, keeping rows of combinations
+  // that still exist
+  const updateOptions = (
+    nextOptions: VariantOptionInput[],
+    nextSettings: OptionSettings[],
+    rows: VariantRowInput[] = variants,
+  ) => {
+    setSettings(nextSettings)
+    onChange({
+      options: nextOptions,
+      variants: buildVariantRows(nextOptions, rows, {
+        skuPattern:
+          customSkuPattern ??
+          defaultSkuPattern(skuPrefix(productName), nextOptions),
+        basePrice,
+        compareAtPrice,
+        adjustments: parseAdjustments(nextSettings),
+      }),
+    })
+  }
+
+  const updateSettings = (index: number, patch: Partial<OptionSettings>) => {
+    setSettings(settings.map((s, i) => (i === index ? { ...s, ...patch } : s)))
+  }
+
+  const updateRow = (index: number, patch: Partial<VariantRowInput>) => {
+    onChange({
+      options,
+      variants: variants.map((row, i) =>
+        i === index ? { ...row, ...patch } : row,
+      ),
+    })
+  }
+
+  const addOption = () => {
+    updateOptions(
+      [...options, { name: "", values: [] }],
+      [...settings, { swatches: false, adjustments: {}, newValue: "" }],
+    )
+  }
+
+  const removeOption = (index: number) => {
+    updateOptions(
+      options.filter((_, i) => i !== index),
+      settings.filter((_, i) => i !== index),
+      variants.map((row) => ({
+        ...row,
+        values: row.values.filter((_, i) => i !== index),
+      })),
+    )
+  }
+
+  const renameOption = (index: number, name: string) => {
+    onChange({
+      options: options.map((o, i) => (i === index ? { ...o, name } : o)),
+      variants,
+    })
+  }
+
+  const toggleSwatches = (index: number, swatches: boolean) => {
+    const nextOptions = options.map((o, i) =>
+      i === index
+        ? {
+            ...o,
+            values: o.values.map((v) => ({
+              ...v,
+              swatch: swatches ? v.swatch || DEFAULT_SWATCH : null,
+            })),
+          }
+        : o,
+    )
+    setSettings(settings.map((s, i) => (i === index ? { ...s, swatches } : s)))
+    onChange({ options: nextOptions, variants })
+  }
+
+  const addValue = (index: number) => {
+    const newValue = settings[index].newValue.trim()
+    if (!newValue) return
+    if (
+      options[index].values.some(
+        (v) => v.value.toLowerCase() === newValue.toLowerCase(),
+      )
+    ) {
+      return
+    }
+
+    updateOptions(
+      options.map((o, i) =>
+        i === index
+          ? {
+              ...o,
+              values: [
+                ...o.values,
+                {
+                  value: newValue,
+                  swatch: settings[index].swatches ? DEFAULT_SWATCH : null,
+                },
+              ],
+            }
+          : o,
+      ),
+      settings.map((s, i) => (i === index ? { ...s, newValue: "" } : s)),
+    )
+  }
+
+  const removeValue = (index: number, valueIndex: number) => {
+    const removed = options[index].values[valueIndex].value
+    updateOptions(
+      options.map((o, i) =>
+        i === index
+          ? { ...o, values: o.values.filter((_, vi) => vi !== valueIndex) }
+          : o,
+      ),
+      settings,
+      variants.filter((row) => row.values[index] !== removed),
+    )
+  }
+
+  const renameValue = (index: number, valueIndex: number, next: string) => {
+    const previous = options[index].values[valueIndex].value
+    const { [previous]: adjustment, ...adjustments } =
+      settings[index].adjustments
+
+    updateSettings(index, {
+      adjustments:
+        adjustment !== undefined
+          ? { ...adjustments, [next]: adjustment }
+          : adjustments,
+    })
+    onChange({
+      options: options.map((o, i) =>
+        i === index
+          ? {
+              ...o,
+              values: o.values.map((v, vi) =>
+                vi === valueIndex ? { ...v, value: next } : v,
+              ),
+            }
+          : o,
+      ),
+      variants: variants.map((row) =>
+        row.values[index] === previous
+          ? {
+              ...row,
+              values: row.values.map((v, i) => (i === index ? next : v)),
+            }
+          : row,
+      ),
+    })
+  }
+
+  const setSwatch = (index: number, valueIndex: number, swatch: string) => {
+    onChange({
+      options: options.map((o, i) =>
+        i === index
+          ? {
+              ...o,
+              values: o.values.map((v, vi) =>
+                vi === valueIndex ? { ...v, swatch } : v,
+              ),
+            }
+          : o,
+      ),
+      variants,
+    })
+  }
+
+  const setAdjustment = (index: number, value: string, amount: string) => {
+    updateSettings(index, {
+      adjustments: {
+        ...settings[index].adjustments,
+        [value]: amount,
+      },
+    })
+  }
+
+  const applySkus = () => {
+    onChange({
+      options,
+      variants: variants.map((row) => ({
+        ...row,
+        sku: applySkuPattern(skuPattern, options, row.values),
+      })),
+    })
+  }
+
+  const applyPrices = () => {
+    const adjustments = parseAdjustments(settings)
+    onChange({
+      options,
+      variants: variants.map((row) => ({
+        ...row,
+        price: combinationPrice(basePrice, row.values, adjustments),
+        compareAtPrice: compareAtPrice || null,
+      })),
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {isLegacy && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          These variants were created without options. Add options to rebuild
+          them as a matrix; variants whose SKU does not come back are
+          deactivated, not deleted.
+        </div>
+      )}
+
+      {/* Options */}
+      <div className="space-y-4">
+        {options.map((option, index) => (
+          <div key={index} className="space-y-4 rounded-lg border p-4">
+            <div className="flex items-end gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor={`option-${index}`}>Option Name</Label>
+                <Input
+                  id={`option-${index}`}
+                  placeholder="e.g., Color"
+                  value={option.name}
+                  onChange={(e) => renameOption(index, e.target.value)}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id={`option-${index}-swatches`}
+                  checked={settings[index]?.swatches ?? false}
+                  onCheckedChange={(checked) => toggleSwatches(index, checked)}
+                />
+                <Label htmlFor={`option-${index}-swatches`}>Swatches</Label>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => removeOption(index)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {option.values.length > 0 && (
+                <div className="grid grid-cols-[1fr_8rem_2.25rem] gap-2 text-xs text-neutral-500">
+                  <span>Value</span>
+                  <span>Price adjustment</span>
+                </div>
+              )}
+              {option.values.map((v, valueIndex) => (
+                <div
+                  key={valueIndex}
+                  className="grid grid-cols-[1fr_8rem_2.25rem] items-center gap-2"
+                >
+                  <div className="flex items-center gap-2">
+                    {settings[index]?.swatches && (
+                      <input
+                        type="color"
+                        aria-label={`${v.value} swatch`}
+                        value={v.swatch || DEFAULT_SWATCH}
+                        onChange={(e) =>
+                          setSwatch(index, valueIndex, e.target.value)
+                        }
+                        className="h-9 w-9 shrink-0 cursor-pointer rounded-md border bg-transparent p-1"
+                      />
+                    )}
+                    <Input
+                      value={v.value}
+                      onChange={(e) =>
+                        renameValue(index, valueIndex, e.target.value)
+                      }
+                    />
+                  </div>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={settings[index]?.adjustments[v.value] ?? ""}
+                    onChange={(e) =>
+                      setAdjustment(index, v.value, e.target.value)
+                    }
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeValue(index, valueIndex)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Add a value and press Enter"
+                  value={settings[index]?.newValue ?? ""}
+                  onChange={(e) =>
+                    updateSettings(index, { newValue: e.target.value })
+                  }
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault()
+                      addValue(index)
+                    }
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => addValue(index)}
+                >
+                  Add
+                </Button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addOption}
+          disabled={options.length >= MAX_VARIANT_OPTIONS}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Option
+        </Button>
+        <p className="text-xs text-neutral-500">
+          Up to {MAX_VARIANT_OPTIONS} options, e.g. Storage and Color. A variant
+          is generated for every combination of their values.
+        </p>
+      </div>
+
+      {/* Bulk patterns */}
+      <div className="grid gap-4 border-t pt-6 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="skuPattern">SKU Pattern</Label>
+          <div className="flex gap-2">
+            <Input
+              id="skuPattern"
+              value={skuPattern}
+              onChange={(e) => setCustomSkuPattern(e.target.value)}
+            />
+            <Button type="button" variant="outline" onClick={applySkus}>
+              <Wand2 className="mr-2 h-4 w-4" />
+              Apply
+            </Button>
+          </div>
+          <p className="text-xs text-neutral-500">
+            {"{option name}"} is replaced by the variant&apos;s value
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Prices</Label>
+          <div>
+            <Button type="button" variant="outline" onClick={applyPrices}>
+              <Wand2 className="mr-2 h-4 w-4" />
+              Apply Prices
+            </Button>
+          </div>
+          <p className="text-xs text-neutral-500">
+            Base price ${basePrice || "0.00"} plus each value&apos;s adjustment
+          </p>
+        </div>
+      </div>
+
+      {/* Variants */}
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variant</TableHead>
+              <TableHead>SKU</TableHead>
+              <TableHead>Price</TableHead>
+              <TableHead>Compare at</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead>Image</TableHead>
+              <TableHead>Active</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {variants.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="py-6 text-center text-neutral-500"
+                >
+                  Add values to every option to generate variants
+                </TableCell>
+              </TableRow>
+            ) : (
+              variants.map((row, index) => (
+                <TableRow key={row.id ?? row.values.join("/")}>
+                  <TableCell className="font-medium whitespace-nowrap">
+                    {variantName(row.values)}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="min-w-32"
+                      value={row.sku}
+                      onChange={(e) =>
+                        updateRow(index, { sku: e.target.value })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="w-24"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={row.price}
+                      onChange={(e) =>
+                        updateRow(index, { price: e.target.value })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      className="w-24"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={row.compareAtPrice ?? ""}
+                      onChange={(e) =>
+                        updateRow(index, {
+                          compareAtPrice: e.target.value || null,
+                        })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    {row.id ? (
+                      <span className="text-sm">{stock[row.id] ?? 0}</span>
+                    ) : (
+                      <Input
+                        className="w-20"
+                        type="number"
+                        min="0"
+                        value={row.initialStock}
+                        onChange={(e) =>
+                          updateRow(index, {
+                            initialStock: Math.max(
+                              0,
+                              parseInt(e.target.value) || 0,
+                            ),
+                          })
+                        }
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={row.imageUrl || NO_IMAGE}
+                      onValueChange={(url) =>
+                        updateRow(index, {
+                          imageUrl: url === NO_IMAGE ? null : url,
+                        })
+                      }
+                      disabled={images.length === 0}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_IMAGE}>None</SelectItem>
+                        {images.map((image, imageIndex) => (
+                          <SelectItem key={image.url} value={image.url}>
+                            {image.altText || `Image ${imageIndex + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={row.isActive}
+                      onCheckedChange={(isActive) =>
+                        updateRow(index, { isActive })
+                      }
+                    />
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-neutral-500">
+        Stock of existing variants is managed in Inventory. Inactive variants
+        are hidden from the storefront; variants removed from the matrix are
+        deactivated.
+      </p>
+    </div>
+  )
+}
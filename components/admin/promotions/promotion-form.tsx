@@ -0,0 +1,475 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useForm } from "react-hook-form"
+import { useRouter } from "next/navigation"
+
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+import { z } from "zod"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { createPromotion, updatePromotion } from "@/lib/actions/promotion"
+import {
+  PROMOTION_TYPE_LABELS,
+  type PromotionType,
+} from "@/lib/utils/promotions"
+
+const promotionFormSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3, "Code must be at least 3 characters")
+    .max(64)
+    .regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, - and _ only"),
+  name: z.string().min(1, "Name is required").max(255),
+  description: z.string().optional(),
+  type: z.enum(["percentage", "fixed_amount", "free_shipping"]),
+  value: z.string(),
+  maxDiscount: z.string(),
+  minSubtotal: z.string(),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  usageLimit: z.string(),
+  usageLimitPerCustomer: z.string(),
+  productIds: z.array(z.string()),
+  categoryIds: z.array(z.string()),
+  isActive: z.boolean(),
+})
+
+type PromotionFormData = z.infer<typeof promotionFormSchema>
+
+interface ScopeOption {
+  id: string
+  name: string
+}
+
+interface Promotion {
+  id: string
+  code: string
+  name: string
+  description: string | null
+  type: PromotionType
+  value: string
+  maxDiscount: string | null
+  minSubtotal: string | null
+  productIds: string[]
+  categoryIds: string[]
+  startsAt: Date | null
+  endsAt: Date | null
+  usageLimit: number | null
+  usageLimitPerCustomer: number | null
+  isActive: boolean
+}
+
+interface PromotionFormProps {
+  promotion?: Promotion
+  products: ScopeOption[]
+  categories: ScopeOption[]
+}
+
+// Format a date for a datetime-local input in the browser's timezone
+function toDateTimeLocal(date: Date | null): string {
+  if (!date) return ""
+  const d = new Date(date)
+  d.setMinutes(d.getMinutes() - d.getTimezoneOffset())
+  return d.toISOString().slice(0, 16)
+}
+
+function toNumberOrNull(value: string): number | null {
+  return value.trim() === "" ? null : Number(value)
+}
+
+export function PromotionForm({
+  promotion,
+  products,
+  categories,
+}: PromotionFormProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [productFilter, setProductFilter] = useState("")
+
+  const form = useForm<PromotionFormData>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: {
+      code: promotion?.code ?? "",
+      name: promotion?.name ?? "",
+      description: promotion?.description ?? "",
+      type: promotion?.type ?? "percentage",
+      value: promotion?.value ?? "",
+      maxDiscount: promotion?.maxDiscount ?? "",
+      minSubtotal: promotion?.minSubtotal ?? "",
+      startsAt: toDateTimeLocal(promotion?.startsAt ?? null),
+      endsAt: toDateTimeLocal(promotion?.endsAt ?? null),
+      usageLimit: promotion?.usageLimit?.toString() ?? "",
+      usageLimitPerCustomer: promotion?.usageLimitPerCustomer?.toString() ?? "",
+      productIds: promotion?.productIds ?? [],
+      categoryIds: promotion?.categoryIds ?? [],
+      isActive: promotion?.isActive ?? true,
+    },
+  })
+
+  const {
+    register,
+    setValue,
+    watch,
+    formState: { errors },
+    handleSubmit,
+  } = form
+  const watchedValues = watch()
+
+  const filteredProducts = products.filter((product) =>
+    product.name.toLowerCase().includes(productFilter.toLowerCase()),
+  )
+
+  const toggleId = (field: "productIds" | "categoryIds", id: string) => {
+    const current = watchedValues[field]
+    setValue(
+      field,
+      current.includes(id)
+        ? current.filter((value) => value !== id)
+        : [...current, id],
+    )
+  }
+
+  const onSubmit = async (data: PromotionFormData) => {
+    startTransition(async () => {
+      try {
+        const payload = {
+          code: data.code,
+          name: data.name,
+          description: data.description || null,
+          type: data.type,
+          value: data.type === "free_shipping" ? 0 : Number(data.value) || 0,
+          maxDiscount:
+            data.type === "percentage"
+              ? toNumberOrNull(data.maxDiscount)
+              : null,
+          minSubtotal: toNumberOrNull(data.minSubtotal),
+          startsAt: data.startsAt ? new Date(data.startsAt) : null,
+          endsAt: data.endsAt ? new Date(data.endsAt) : null,
+          usageLimit: toNumberOrNull(data.usageLimit),
+          usageLimitPerCustomer: toNumberOrNull(data.usageLimitPerCustomer),
+          productIds: data.productIds,
+          categoryIds: data.categoryIds,
+          isActive: data.isActive,
+        }
+
+        const result = promotion
+          ? await updatePromotion(promotion.id, payload)
+          : await createPromotion(payload)
+
+        if (result.success) {
+          toast.success(
+            promotion
+              ? "Promotion updated successfully!"
+              : "Promotion created successfully!",
+          )
+          router.push("/admin/promotions")
+          router.refresh()
+        } else {
+          toast.error(result.error || "Failed to save promotion")
+        }
+      } catch {
+        toast.error("Something went wrong")
+      }
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="max-w-2xl space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Promotion Details</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="code">Code *</Label>
+              <Input
+                id="code"
+                placeholder="e.g., SUMMER20"
+                className="uppercase"
+                {...register("code")}
+              />
+              {errors.code && (
+                <p className="text-sm text-red-500">{errors.code.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="name">Campaign Name *</Label>
+              <Input
+                id="name"
+                placeholder="e.g., Summer Sale"
+                {...register("name")}
+              />
+              {errors.name && (
+                <p className="text-sm text-red-500">{errors.name.message}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              placeholder="Internal notes about this campaign..."
+              rows={2}
+              {...register("description")}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="type">Discount Type</Label>
+              <Select
+                value={watchedValues.type}
+                onValueChange={(value) =>
+                  setValue("type", value as PromotionType)
+                }
+              >
+                <SelectTrigger id="type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PROMOTION_TYPE_LABELS).map(
+                    ([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {watchedValues.type !== "free_shipping" && (
+              <div className="space-y-2">
+                <Label htmlFor="value">
+                  {watchedValues.type === "percentage"
+                    ? "Percentage (%) *"
+                    : "Amount *"}
+                </Label>
+                <Input
+                  id="value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  {...register("value")}
+                />
+                {errors.value && (
+                  <p className="text-sm text-red-500">{errors.value.message}</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            {watchedValues.type === "percentage" && (
+              <div className="space-y-2">
+                <Label htmlFor="maxDiscount">Maximum Discount</Label>
+                <Input
+                  id="maxDiscount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No cap"
+                  {...register("maxDiscount")}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="minSubtotal">Minimum Subtotal</Label>
+              <Input
+                id="minSubtotal"
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="None"
+                {...register("minSubtotal")}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="isActive">Active</Label>
+              <p className="text-xs text-neutral-500">
+                Customers can redeem this code at checkout
+              </p>
+            </div>
+            <Switch
+              id="isActive"
+              checked={watchedValues.isActive}
+              onCheckedChange={(checked) => setValue("isActive", checked)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Validity & Limits</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="startsAt">Starts At</Label>
+              <Input
+                id="startsAt"
+                type="datetime-local"
+                {...register("startsAt")}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="endsAt">Ends At</Label>
+              <Input
+                id="endsAt"
+                type="datetime-local"
+                {...register("endsAt")}
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="usageLimit">Total Usage Limit</Label>
+              <Input
+                id="usageLimit"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                {...register("usageLimit")}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="usageLimitPerCustomer">Limit per Customer</Label>
+              <Input
+                id="usageLimitPerCustomer"
+                type="number"
+                min="1"
+                placeholder="Unlimited"
+                {...register("usageLimitPerCustomer")}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Applies To</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-neutral-500">
+            Leave both lists empty to apply the code to the entire cart.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            <ScrollArea className="h-40 rounded-md border p-3">
+              <div className="space-y-2">
+                {categories.length === 0 ? (
+                  <p className="text-sm text-neutral-500">No categories</p>
+                ) : (
+                  categories.map((category) => (
+                    <div key={category.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`category-${category.id}`}
+                        checked={watchedValues.categoryIds.includes(
+                          category.id,
+                        )}
+                        onCheckedChange={() =>
+                          toggleId("categoryIds", category.id)
+                        }
+                      />
+                      <Label
+                        htmlFor={`category-${category.id}`}
+                        className="font-normal"
+                      >
+                        {category.name}
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Products</Label>
+            <Input
+              placeholder="Filter products..."
+              value={productFilter}
+              onChange={(e) => setProductFilter(e.target.value)}
+            />
+            <ScrollArea className="h-56 rounded-md border p-3">
+              <div className="space-y-2">
+                {filteredProducts.length === 0 ? (
+                  <p className="text-sm text-neutral-500">No products found</p>
+                ) : (
+                  filteredProducts.map((product) => (
+                    <div key={product.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`product-${product.id}`}
+                        checked={watchedValues.productIds.includes(product.id)}
+                        onCheckedChange={() =>
+                          toggleId("productIds", product.id)
+                        }
+                      />
+                      <Label
+                        htmlFor={`product-${product.id}`}
+                        className="font-normal"
+                      >
+                        {product.name}
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            </ScrollArea>
+            {watchedValues.productIds.length > 0 && (
+              <p className="text-xs text-neutral-500">
+                {watchedValues.productIds.length} product(s) selected
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => router.back()}
+          disabled={isPending}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {promotion ? "Save Changes" : "Create Promotion"}
+        </Button>
+      </div>
+    </form>
+  )
+}
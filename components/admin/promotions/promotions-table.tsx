@@ -0,0 +1,231 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { Pencil, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { deletePromotion } from "@/lib/actions/promotion"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import {
+  PROMOTION_TYPE_LABELS,
+  type PromotionType,
+} from "@/lib/utils/promotions"
+
+interface Promotion {
+  id: string
+  code: string
+  name: string
+  type: PromotionType
+  value: string
+  startsAt: Date | null
+  endsAt: Date | null
+  usageLimit: number | null
+  usageCount: number
+  isActive: boolean
+  totalDiscount: string
+  totalRevenue: string
+}
+
+interface PromotionsTableProps {
+  promotions: Promotion[]
+}
+
+function formatValue(promotion: Promotion): string {
+  switch (promotion.type) {
+    case "percentage":
+      return `${parseFloat(promotion.value)}%`
+    case "fixed_amount":
+      return formatCurrency(parseFloat(promotion.value))
+    case "free_shipping":
+      return "—"
+  }
+}
+
+function getStatus(promotion: Promotion): {
+  label: string
+  variant: "default" | "secondary" | "outline"
+} {
+  const now = new Date()
+  if (!promotion.isActive) return { label: "Inactive", variant: "secondary" }
+  if (promotion.endsAt && new Date(promotion.endsAt) < now) {
+    return { label: "Expired", variant: "secondary" }
+  }
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) {
+    return { label: "Scheduled", variant: "outline" }
+  }
+  if (
+    promotion.usageLimit !== null &&
+    promotion.usageCount >= promotion.usageLimit
+  ) {
+    return { label: "Used Up", variant: "secondary" }
+  }
+  return { label: "Active", variant: "default" }
+}
+
+export function PromotionsTable({ promotions }: PromotionsTableProps) {
+  const router = useRouter()
+  const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  async function handleDelete() {
+    if (!deleteId) return
+
+    setIsDeleting(true)
+    const result = await deletePromotion(deleteId)
+    setIsDeleting(false)
+    setDeleteId(null)
+
+    if (result.success) {
+      toast.success(
+        result.deactivated
+          ? "Promotion has redemptions and was deactivated instead"
+          : "Promotion deleted",
+      )
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to delete promotion")
+    }
+  }
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+              <TableHead>Validity</TableHead>
+              <TableHead className="text-right">Uses</TableHead>
+              <TableHead className="text-right">Discounted</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-24"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promotions.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={9}
+                  className="text-center py-8 text-neutral-500"
+                >
+                  No promotions yet. Create a code to offer discounts at
+                  checkout.
+                </TableCell>
+              </TableRow>
+            ) : (
+              promotions.map((promotion) => {
+                const status = getStatus(promotion)
+                return (
+                  <TableRow key={promotion.id}>
+                    <TableCell>
+                      <div className="font-mono font-medium">
+                        {promotion.code}
+                      </div>
+                      <div className="text-sm text-neutral-500">
+                        {promotion.name}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {PROMOTION_TYPE_LABELS[promotion.type]}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatValue(promotion)}
+                    </TableCell>
+                    <TableCell className="text-sm text-neutral-500">
+                      {promotion.startsAt || promotion.endsAt
+                        ? `${promotion.startsAt ? formatDate(promotion.startsAt) : "Now"} – ${promotion.endsAt ? formatDate(promotion.endsAt) : "No end"}`
+                        : "Always"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {promotion.usageCount}
+                      {promotion.usageLimit !== null &&
+                        ` / ${promotion.usageLimit}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(parseFloat(promotion.totalDiscount))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(parseFloat(promotion.totalRevenue))}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" asChild>
+                          <Link
+                            href={`/admin/promotions/${promotion.id}`}
+                            title="Edit"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeleteId(promotion.id)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete promotion?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Codes that have already been redeemed are deactivated instead so
+              order history keeps its attribution.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import Link from "next/link"
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  PROMOTION_TYPE_LABELS,
+  type PromotionType,
+} from "@/lib/utils/promotions"
+
+interface Promotion {
+  promotionId: string
+  code: string
+  name: string
+  type: PromotionType
+  redemptions: number
+  totalDiscount: number
+  totalRevenue: number
+}
+
+interface PromotionPerformanceTableProps {
+  promotions: Promotion[]
+}
+
+export function PromotionPerformanceTable({
+  promotions,
+}: PromotionPerformanceTableProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-LK", {
+      style: "currency",
+      currency: "LKR",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Promotion Performance</CardTitle>
+        <CardDescription>
+          Revenue attributed to orders that redeemed a promotion code
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {promotions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No promotion redemptions yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Orders</TableHead>
+                <TableHead className="text-right">Discount Given</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Avg. Order</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.map((promotion) => (
+                <TableRow key={promotion.promotionId}>
+                  <TableCell>
+                    <Link
+                      href={`/admin/promotions/${promotion.promotionId}`}
+                      className="font-mono font-medium hover:underline"
+                    >
+                      {promotion.code}
+                    </Link>
+                    <div className="text-sm text-muted-foreground">
+                      {promotion.name}
+                    </div>
+                  </TableCell>
+                  <TableCell>{PROMOTION_TYPE_LABELS[promotion.type]}</TableCell>
+                  <TableCell className="text-right">
+                    {promotion.redemptions}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(promotion.totalDiscount)}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(promotion.totalRevenue)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(
+                      promotion.redemptions > 0
+                        ? promotion.totalRevenue / promotion.redemptions
+                        : 0,
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,125 @@
+"use client"
+
+import { formatDistanceToNow } from "date-fns"
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+interface SearchTerm {
+  query: string
+  searches: number
+  avgResults?: number
+  lastSearchedAt: Date
+}
+
+interface SearchTermsTableProps {
+  days: number
+  totalSearches: number
+  zeroResultSearchCount: number
+  topSearches: SearchTerm[]
+  zeroResultSearches: SearchTerm[]
+}
+
+function TermsTable({
+  terms,
+  showResults,
+}: {
+  terms: SearchTerm[]
+  showResults: boolean
+}) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Search</TableHead>
+          <TableHead className="text-right">Searches</TableHead>
+          {showResults && (
+            <TableHead className="text-right">Avg. Results</TableHead>
+          )}
+          <TableHead className="text-right">Last Searched</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {terms.map((term) => (
+          <TableRow key={term.query}>
+            <TableCell className="font-medium">{term.query}</TableCell>
+            <TableCell className="text-right">{term.searches}</TableCell>
+            {showResults && (
+              <TableCell className="text-right">{term.avgResults}</TableCell>
+            )}
+            <TableCell className="text-right text-muted-foreground">
+              {formatDistanceToNow(new Date(term.lastSearchedAt), {
+                addSuffix: true,
+              })}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+export function SearchTermsTable({
+  days,
+  totalSearches,
+  zeroResultSearchCount,
+  topSearches,
+  zeroResultSearches,
+}: SearchTermsTableProps) {
+  const zeroResultRate =
+    totalSearches > 0 ? (zeroResultSearchCount / totalSearches) * 100 : 0
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Top Searches</CardTitle>
+          <CardDescription>
+            {totalSearches} storefront searches in the last {days} days
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {topSearches.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No searches yet
+            </div>
+          ) : (
+            <TermsTable terms={topSearches} showResults />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Searches With No Results</CardTitle>
+          <CardDescription>
+            {zeroResultSearchCount} searches ({zeroResultRate.toFixed(1)}%)
+            found nothing
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {zeroResultSearches.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Every search found products
+            </div>
+          ) : (
+            <TermsTable terms={zeroResultSearches} showResults={false} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
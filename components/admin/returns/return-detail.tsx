@@ -0,0 +1,603 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import {
+  CheckCircle,
+  ClipboardCheck,
+  ExternalLink,
+  Loader2,
+  PackageCheck,
+  XCircle,
+} from "lucide-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  completeReturn,
+  markReturnReceived,
+  reviewReturnRequest,
+} from "@/lib/actions/returns"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import {
+  RETURN_REASON_LABELS,
+  RETURN_STATUS_COLORS,
+  RETURN_STATUS_LABELS,
+  type ReturnReason,
+  type ReturnStatus,
+} from "@/lib/utils/returns"
+
+type ItemCondition = "resellable" | "damaged"
+
+interface ReturnItem {
+  id: string
+  orderItemId: string
+  quantity: number
+  condition: ItemCondition | null
+  inspectionNotes: string | null
+  productName: string
+  variantName: string
+  sku: string
+  unitPrice: string
+  orderedQuantity: number
+}
+
+interface ReturnRequest {
+  id: string
+  rmaNumber: string
+  orderId: string
+  status: ReturnStatus
+  reason: ReturnReason
+  customerNotes: string | null
+  photos: string[]
+  staffNotes: string | null
+  rejectionReason: string | null
+  refundId: string | null
+  reviewedAt: Date | null
+  receivedAt: Date | null
+  completedAt: Date | null
+  createdAt: Date
+  reviewedByName: string | null
+  orderNumber: string
+  orderStatus: string
+  customerEmail: string
+  customerName: string | null
+  customerPhone: string | null
+  items: ReturnItem[]
+}
+
+interface ReturnDetailProps {
+  request: ReturnRequest
+}
+
+const conditionColors: Record<ItemCondition, string> = {
+  resellable: "bg-green-100 text-green-800",
+  damaged: "bg-red-100 text-red-800",
+}
+
+export function ReturnDetail({ request }: ReturnDetailProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+  const [reviewAction, setReviewAction] = useState<"approve" | "reject" | null>(
+    null,
+  )
+  const [reviewNotes, setReviewNotes] = useState("")
+  const [inspectOpen, setInspectOpen] = useState(false)
+  const [conditions, setConditions] = useState<Record<string, ItemCondition>>(
+    {},
+  )
+  const [itemNotes, setItemNotes] = useState<Record<string, string>>({})
+  const [staffNotes, setStaffNotes] = useState("")
+  const [refund, setRefund] = useState(true)
+
+  const openReview = (action: "approve" | "reject") => {
+    setReviewNotes("")
+    setReviewAction(action)
+  }
+
+  const openInspection = () => {
+    setConditions(
+      Object.fromEntries(
+        request.items.map((item) => [
+          item.id,
+          request.reason === "damaged" || request.reason === "defective"
+            ? "damaged"
+            : "resellable",
+        ]),
+      ),
+    )
+    setItemNotes({})
+    setStaffNotes("")
+    setRefund(true)
+    setInspectOpen(true)
+  }
+
+  const handleReview = () => {
+    if (!reviewAction) return
+
+    startTransition(async () => {
+      const result = await reviewReturnRequest(
+        request.id,
+        reviewAction === "approve",
+        reviewNotes || undefined,
+      )
+
+      if (result.success) {
+        toast.success(
+          reviewAction === "approve"
+            ? "Return request approved"
+            : "Return request rejected",
+        )
+        setReviewAction(null)
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to review return request")
+      }
+    })
+  }
+
+  const handleReceived = () => {
+    startTransition(async () => {
+      const result = await markReturnReceived(request.id)
+
+      if (result.success) {
+        toast.success("Return marked as received")
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to update return request")
+      }
+    })
+  }
+
+  const handleComplete = () => {
+    startTransition(async () => {
+      const result = await completeReturn({
+        returnRequestId: request.id,
+        items: request.items.map((item) => ({
+          id: item.id,
+          condition: conditions[item.id] || "resellable",
+          notes: itemNotes[item.id] || undefined,
+        })),
+        staffNotes: staffNotes || undefined,
+        refund,
+      })
+
+      if (result.success) {
+        if (result.refundError) {
+          toast.warning(
+            `Return completed, but the refund failed: ${result.refundError}`,
+          )
+        } else {
+          toast.success(
+            refund ? "Return completed and refunded" : "Return completed",
+          )
+        }
+        setInspectOpen(false)
+        router.refresh()
+      } else {
+        toast.error(result.error || "Failed to complete return")
+      }
+    })
+  }
+
+  const timeline = [
+    { label: "Requested", date: request.createdAt },
+    {
+      label: request.status === "rejected" ? "Rejected" : "Approved",
+      date: request.reviewedAt,
+      by: request.reviewedByName,
+    },
+    { label: "Received", date: request.receivedAt },
+    { label: "Completed", date: request.completedAt },
+  ].filter((entry) => entry.date)
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-3">
+      <div className="space-y-6 lg:col-span-2">
+        {/* Items */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Returned Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead>Condition</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {request.items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="font-medium">{item.productName}</div>
+                      <div className="text-sm text-neutral-500">
+                        {item.variantName} · {item.sku}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(parseFloat(item.unitPrice))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {item.quantity}
+                      <span className="text-neutral-500">
+                        {" "}
+                        / {item.orderedQuantity}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {item.condition ? (
+                        <div>
+                          <Badge className={conditionColors[item.condition]}>
+                            {item.condition === "resellable"
+                              ? "Restocked"
+                              : "Damaged"}
+                          </Badge>
+                          {item.inspectionNotes && (
+                            <p className="mt-1 text-xs text-neutral-500">
+                              {item.inspectionNotes}
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-neutral-400">
+                          Not inspected
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* Customer Request */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Customer Request</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <p className="text-sm text-neutral-500">Reason</p>
+              <p className="font-medium">
+                {RETURN_REASON_LABELS[request.reason]}
+              </p>
+            </div>
+            {request.customerNotes && (
+              <div>
+                <p className="text-sm text-neutral-500">Details</p>
+                <p className="whitespace-pre-wrap">{request.customerNotes}</p>
+              </div>
+            )}
+            {request.photos.length > 0 && (
+              <div>
+                <p className="mb-2 text-sm text-neutral-500">Photos</p>
+                <div className="flex flex-wrap gap-2">
+                  {request.photos.map((url) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="h-24 w-24 overflow-hidden rounded-md border hover:opacity-80"
+                    >
+                      <img
+                        src={url}
+                        alt="Return photo"
+                        className="h-full w-full object-cover"
+                      />
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="space-y-6">
+        {/* Status & Actions */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-base">Status</CardTitle>
+            <Badge className={RETURN_STATUS_COLORS[request.status]}>
+              {RETURN_STATUS_LABELS[request.status]}
+            </Badge>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2 text-sm">
+              {timeline.map((entry) => (
+                <div key={entry.label} className="flex justify-between">
+                  <span className="text-neutral-500">{entry.label}</span>
+                  <span>
+                    {formatDate(entry.date!)}
+                    {entry.by && ` by ${entry.by}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {request.rejectionReason && (
+              <p className="text-sm text-red-600">{request.rejectionReason}</p>
+            )}
+            {request.staffNotes && (
+              <div className="text-sm">
+                <p className="text-neutral-500">Staff notes</p>
+                <p className="whitespace-pre-wrap">{request.staffNotes}</p>
+              </div>
+            )}
+
+            {request.status === "requested" && (
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  className="flex-1 text-red-500 hover:text-red-600"
+                  onClick={() => openReview("reject")}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  className="flex-1 bg-green-600 hover:bg-green-700"
+                  onClick={() => openReview("approve")}
+                >
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              </div>
+            )}
+
+            {request.status === "approved" && (
+              <Button
+                className="w-full"
+                onClick={handleReceived}
+                disabled={isPending}
+              >
+                {isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <PackageCheck className="h-4 w-4 mr-2" />
+                )}
+                Mark as Received
+              </Button>
+            )}
+
+            {request.status === "received" && (
+              <Button className="w-full" onClick={openInspection}>
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Inspect & Complete
+              </Button>
+            )}
+
+            {request.status === "completed" && (
+              <p className="text-sm text-neutral-500">
+                {request.refundId
+                  ? "The returned items have been refunded."
+                  : "No refund was issued for this return. Refunds can be issued from the order page."}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Order */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Order</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <Link
+              href={`/admin/orders/${request.orderId}`}
+              className="flex items-center gap-1 font-medium hover:underline"
+            >
+              {request.orderNumber}
+              <ExternalLink className="h-3.5 w-3.5" />
+            </Link>
+            <p className="text-neutral-500">
+              Status:{" "}
+              {request.orderStatus.charAt(0).toUpperCase() +
+                request.orderStatus.slice(1).replace("_", " ")}
+            </p>
+            <div className="pt-2">
+              <p className="font-medium">{request.customerName || "—"}</p>
+              <p className="text-neutral-500">{request.customerEmail}</p>
+              {request.customerPhone && (
+                <p className="text-neutral-500">{request.customerPhone}</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Approve / Reject Dialog */}
+      <Dialog
+        open={reviewAction !== null}
+        onOpenChange={(open) => !open && setReviewAction(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewAction === "approve" ? "Approve" : "Reject"} Return
+            </DialogTitle>
+            <DialogDescription>
+              {reviewAction === "approve"
+                ? "The customer will be asked to send the items back."
+                : "The customer will see the rejection reason on their order page."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-notes">
+              {reviewAction === "approve"
+                ? "Notes (optional)"
+                : "Rejection reason"}
+            </Label>
+            <Textarea
+              id="review-notes"
+              rows={3}
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              placeholder={
+                reviewAction === "approve"
+                  ? "Internal notes about this return..."
+                  : "Please provide a reason for rejection..."
+              }
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setReviewAction(null)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleReview}
+              disabled={
+                isPending || (reviewAction === "reject" && !reviewNotes.trim())
+              }
+              className={
+                reviewAction === "approve"
+                  ? "bg-green-600 hover:bg-green-700"
+                  : "bg-red-600 hover:bg-red-700"
+              }
+            >
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {reviewAction === "approve" ? "Approve Return" : "Reject Return"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Inspection Dialog */}
+      <Dialog open={inspectOpen} onOpenChange={setInspectOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Inspect Returned Items</DialogTitle>
+            <DialogDescription>
+              Resellable items are returned to stock. Damaged items are written
+              off in the inventory ledger.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="divide-y rounded-lg border">
+              {request.items.map((item) => (
+                <div key={item.id} className="space-y-2 p-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0 text-sm">
+                      <p className="truncate font-medium">{item.productName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {item.variantName} · {item.quantity} returned
+                      </p>
+                    </div>
+                    <Select
+                      value={conditions[item.id]}
+                      onValueChange={(value) =>
+                        setConditions((prev) => ({
+                          ...prev,
+                          [item.id]: value as ItemCondition,
+                        }))
+                      }
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="resellable">Restock</SelectItem>
+                        <SelectItem value="damaged">Damaged</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Input
+                    placeholder="Inspection notes (optional)"
+                    value={itemNotes[item.id] || ""}
+                    onChange={(e) =>
+                      setItemNotes((prev) => ({
+                        ...prev,
+                        [item.id]: e.target.value,
+                      }))
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="staff-notes">Notes</Label>
+              <Textarea
+                id="staff-notes"
+                rows={2}
+                placeholder="Internal notes about this return..."
+                value={staffNotes}
+                onChange={(e) => setStaffNotes(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div className="space-y-0.5">
+                <Label htmlFor="return-refund">Refund returned items</Label>
+                <p className="text-xs text-muted-foreground">
+                  Refunds the items with their share of tax and discounts
+                </p>
+              </div>
+              <Switch
+                id="return-refund"
+                checked={refund}
+                onCheckedChange={setRefund}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setInspectOpen(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleComplete} disabled={isPending}>
+              {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Complete Return
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
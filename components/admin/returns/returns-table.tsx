@@ -0,0 +1,222 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { Eye, ImageIcon, Search } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { formatDate } from "@/lib/utils"
+import {
+  RETURN_REASON_LABELS,
+  RETURN_STATUS_COLORS,
+  RETURN_STATUS_LABELS,
+  RETURN_STATUSES,
+  type ReturnReason,
+  type ReturnStatus,
+} from "@/lib/utils/returns"
+
+interface ReturnRequest {
+  id: string
+  rmaNumber: string
+  orderId: string
+  status: ReturnStatus
+  reason: ReturnReason
+  photos: string[]
+  itemCount: number
+  createdAt: Date
+  orderNumber: string
+  customerEmail: string
+  customerName: string | null
+}
+
+interface ReturnsTableProps {
+  requests: ReturnRequest[]
+  statusCounts: Partial<Record<ReturnStatus, number>>
+  total: number
+  page: number
+  totalPages: number
+  search: string
+  status: string
+}
+
+export function ReturnsTable({
+  requests,
+  statusCounts,
+  total,
+  page,
+  totalPages,
+  search,
+  status,
+}: ReturnsTableProps) {
+  const router = useRouter()
+  const [searchInput, setSearchInput] = useState(search)
+
+  const navigate = (updates: {
+    search?: string
+    status?: string
+    page?: number
+  }) => {
+    const params = new URLSearchParams()
+    const nextSearch = updates.search ?? search
+    const nextStatus = updates.status ?? status
+    if (nextSearch) params.set("search", nextSearch)
+    if (nextStatus && nextStatus !== "all") params.set("status", nextStatus)
+    params.set("page", (updates.page ?? 1).toString())
+    router.push(`/admin/returns?${params.toString()}`)
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-col gap-4 lg:flex-row lg:items-center">
+        <Tabs
+          value={status || "all"}
+          onValueChange={(value) => navigate({ status: value })}
+        >
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            {RETURN_STATUSES.map((value) => (
+              <TabsTrigger key={value} value={value}>
+                {RETURN_STATUS_LABELS[value]}
+                {statusCounts[value] ? ` (${statusCounts[value]})` : ""}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="flex flex-1 gap-2 lg:justify-end">
+          <Input
+            placeholder="Search by RMA, order number or email..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            onKeyDown={(e) =>
+              e.key === "Enter" && navigate({ search: searchInput })
+            }
+            className="max-w-sm"
+          />
+          <Button
+            variant="outline"
+            onClick={() => navigate({ search: searchInput })}
+          >
+            <Search className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>RMA</TableHead>
+              <TableHead>Order</TableHead>
+              <TableHead>Customer</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead className="text-right">Items</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead className="w-17.5"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={8}
+                  className="text-center py-8 text-neutral-500"
+                >
+                  No return requests found
+                </TableCell>
+              </TableRow>
+            ) : (
+              requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2 font-medium">
+                      {request.rmaNumber}
+                      {request.photos.length > 0 && (
+                        <ImageIcon className="h-3.5 w-3.5 text-neutral-400" />
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Link
+                      href={`/admin/orders/${request.orderId}`}
+                      className="hover:underline"
+                    >
+                      {request.orderNumber}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">
+                      {request.customerName || "—"}
+                    </div>
+                    <div className="text-sm text-neutral-500">
+                      {request.customerEmail}
+                    </div>
+                  </TableCell>
+                  <TableCell>{RETURN_REASON_LABELS[request.reason]}</TableCell>
+                  <TableCell className="text-right">
+                    {request.itemCount}
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={RETURN_STATUS_COLORS[request.status]}>
+                      {RETURN_STATUS_LABELS[request.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-neutral-500">
+                    {formatDate(request.createdAt)}
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" asChild>
+                      <Link href={`/admin/returns/${request.id}`}>
+                        <Eye className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-neutral-500">
+          Showing {requests.length} of {total} return requests
+        </p>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => navigate({ page: page - 1 })}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= totalPages}
+            onClick={() => navigate({ page: page + 1 })}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,405 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { deleteShippingZone, saveShippingZone } from "@/lib/actions/shipping"
+
+interface ShippingZone {
+  id: string
+  name: string
+  countries: string[]
+  states: string[]
+  standardRate: string
+  expressRate: string
+  ratePerKg: string
+  freeShippingThreshold: string | null
+  isActive: boolean
+  sortOrder: number
+}
+
+interface ShippingZonesTableProps {
+  zones: ShippingZone[]
+}
+
+interface ZoneFormValues {
+  name: string
+  countries: string
+  states: string
+  standardRate: string
+  expressRate: string
+  ratePerKg: string
+  freeShippingThreshold: string
+  isActive: boolean
+  sortOrder: string
+}
+
+const EMPTY_FORM: ZoneFormValues = {
+  name: "",
+  countries: "",
+  states: "",
+  standardRate: "0",
+  expressRate: "0",
+  ratePerKg: "0",
+  freeShippingThreshold: "",
+  isActive: true,
+  sortOrder: "0",
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+}
+
+export function ShippingZonesTable({ zones }: ShippingZonesTableProps) {
+  const router = useRouter()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<ZoneFormValues>(EMPTY_FORM)
+  const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  function openCreate() {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+    setDialogOpen(true)
+  }
+
+  function openEdit(zone: ShippingZone) {
+    setEditingId(zone.id)
+    setForm({
+      name: zone.name,
+      countries: zone.countries.join(", "),
+      states: zone.states.join(", "),
+      standardRate: zone.standardRate,
+      expressRate: zone.expressRate,
+      ratePerKg: zone.ratePerKg,
+      freeShippingThreshold: zone.freeShippingThreshold ?? "",
+      isActive: zone.isActive,
+      sortOrder: zone.sortOrder.toString(),
+    })
+    setDialogOpen(true)
+  }
+
+  function updateField<K extends keyof ZoneFormValues>(
+    key: K,
+    value: ZoneFormValues[K],
+  ) {
+    setForm((prev) => ({ ...prev, [key]: value }))
+  }
+
+  async function handleSave() {
+    setIsSubmitting(true)
+    const result = await saveShippingZone(
+      {
+        name: form.name,
+        countries: splitList(form.countries),
+        states: splitList(form.states),
+        standardRate: parseFloat(form.standardRate) || 0,
+        expressRate: parseFloat(form.expressRate) || 0,
+        ratePerKg: parseFloat(form.ratePerKg) || 0,
+        freeShippingThreshold: form.freeShippingThreshold
+          ? parseFloat(form.freeShippingThreshold)
+          : null,
+        isActive: form.isActive,
+        sortOrder: parseInt(form.sortOrder) || 0,
+      },
+      editingId ?? undefined,
+    )
+    setIsSubmitting(false)
+
+    if (result.success) {
+      toast.success(editingId ? "Shipping zone updated" : "Shipping zone added")
+      setDialogOpen(false)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to save shipping zone")
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteId) return
+
+    setIsSubmitting(true)
+    const result = await deleteShippingZone(deleteId)
+    setIsSubmitting(false)
+    setDeleteId(null)
+
+    if (result.success) {
+      toast.success("Shipping zone deleted")
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to delete shipping zone")
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Zone
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Zone</TableHead>
+              <TableHead>Region</TableHead>
+              <TableHead className="text-right">Standard</TableHead>
+              <TableHead className="text-right">Express</TableHead>
+              <TableHead className="text-right">Per kg</TableHead>
+              <TableHead className="text-right">Free Over</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-24"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {zones.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={8}
+                  className="text-center py-8 text-neutral-500"
+                >
+                  No shipping zones. Store-wide rates from Settings apply.
+                </TableCell>
+              </TableRow>
+            ) : (
+              zones.map((zone) => (
+                <TableRow key={zone.id}>
+                  <TableCell className="font-medium">{zone.name}</TableCell>
+                  <TableCell className="text-neutral-500">
+                    {zone.countries.length > 0
+                      ? zone.countries.join(", ")
+                      : "All countries"}
+                    {zone.states.length > 0 && ` (${zone.states.join(", ")})`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {zone.standardRate}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {zone.expressRate}
+                  </TableCell>
+                  <TableCell className="text-right">{zone.ratePerKg}</TableCell>
+                  <TableCell className="text-right">
+                    {zone.freeShippingThreshold ?? "Default"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={zone.isActive ? "default" : "secondary"}>
+                      {zone.isActive ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEdit(zone)}
+                        title="Edit"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleteId(zone.id)}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Zone Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? "Edit Shipping Zone" : "Add Shipping Zone"}
+            </DialogTitle>
+            <DialogDescription>
+              Leave countries empty for a catch-all zone. The most specific
+              matching zone is used at checkout.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="zone-name">Name</Label>
+              <Input
+                id="zone-name"
+                value={form.name}
+                onChange={(e) => updateField("name", e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zone-countries">Countries</Label>
+                <Input
+                  id="zone-countries"
+                  placeholder="US, CA"
+                  value={form.countries}
+                  onChange={(e) => updateField("countries", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-states">States</Label>
+                <Input
+                  id="zone-states"
+                  placeholder="Optional"
+                  value={form.states}
+                  onChange={(e) => updateField("states", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zone-standard">Standard Rate</Label>
+                <Input
+                  id="zone-standard"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.standardRate}
+                  onChange={(e) => updateField("standardRate", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-express">Express Rate</Label>
+                <Input
+                  id="zone-express"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.expressRate}
+                  onChange={(e) => updateField("expressRate", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-per-kg">Rate per kg</Label>
+                <Input
+                  id="zone-per-kg"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.ratePerKg}
+                  onChange={(e) => updateField("ratePerKg", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="zone-free">Free Shipping Over</Label>
+                <Input
+                  id="zone-free"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="Store default"
+                  value={form.freeShippingThreshold}
+                  onChange={(e) =>
+                    updateField("freeShippingThreshold", e.target.value)
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zone-sort">Sort Order</Label>
+                <Input
+                  id="zone-sort"
+                  type="number"
+                  value={form.sortOrder}
+                  onChange={(e) => updateField("sortOrder", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="zone-active">Active</Label>
+              <Switch
+                id="zone-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => updateField("isActive", checked)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save Zone
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete shipping zone?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Checkout will fall back to the next matching zone or the
+              store-wide rates.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
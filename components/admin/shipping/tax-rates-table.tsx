@@ -0,0 +1,336 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { deleteTaxRate, saveTaxRate } from "@/lib/actions/shipping"
+
+interface TaxRate {
+  id: string
+  name: string
+  country: string
+  state: string | null
+  rate: string
+  appliesToShipping: boolean
+  isActive: boolean
+}
+
+interface TaxRatesTableProps {
+  rates: TaxRate[]
+}
+
+interface TaxRateFormValues {
+  name: string
+  country: string
+  state: string
+  rate: string
+  appliesToShipping: boolean
+  isActive: boolean
+}
+
+const EMPTY_FORM: TaxRateFormValues = {
+  name: "",
+  country: "",
+  state: "",
+  rate: "0",
+  appliesToShipping: false,
+  isActive: true,
+}
+
+export function TaxRatesTable({ rates }: TaxRatesTableProps) {
+  const router = useRouter()
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<TaxRateFormValues>(EMPTY_FORM)
+  const [deleteId, setDeleteId] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  function openCreate() {
+    setEditingId(null)
+    setForm(EMPTY_FORM)
+    setDialogOpen(true)
+  }
+
+  function openEdit(rate: TaxRate) {
+    setEditingId(rate.id)
+    setForm({
+      name: rate.name,
+      country: rate.country,
+      state: rate.state ?? "",
+      rate: rate.rate,
+      appliesToShipping: rate.appliesToShipping,
+      isActive: rate.isActive,
+    })
+    setDialogOpen(true)
+  }
+
+  function updateField<K extends keyof TaxRateFormValues>(
+    key: K,
+    value: TaxRateFormValues[K],
+  ) {
+    setForm((prev) => ({ ...prev, [key]: value }))
+  }
+
+  async function handleSave() {
+    setIsSubmitting(true)
+    const result = await saveTaxRate(
+      {
+        name: form.name,
+        country: form.country,
+        state: form.state || null,
+        rate: parseFloat(form.rate) || 0,
+        appliesToShipping: form.appliesToShipping,
+        isActive: form.isActive,
+      },
+      editingId ?? undefined,
+    )
+    setIsSubmitting(false)
+
+    if (result.success) {
+      toast.success(editingId ? "Tax rate updated" : "Tax rate added")
+      setDialogOpen(false)
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to save tax rate")
+    }
+  }
+
+  async function handleDelete() {
+    if (!deleteId) return
+
+    setIsSubmitting(true)
+    const result = await deleteTaxRate(deleteId)
+    setIsSubmitting(false)
+    setDeleteId(null)
+
+    if (result.success) {
+      toast.success("Tax rate deleted")
+      router.refresh()
+    } else {
+      toast.error(result.error || "Failed to delete tax rate")
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Tax Rate
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Country</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead>Shipping</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-24"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rates.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center py-8 text-neutral-500"
+                >
+                  No regional tax rates. The default tax rate from Settings
+                  applies.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rates.map((rate) => (
+                <TableRow key={rate.id}>
+                  <TableCell className="font-medium">{rate.name}</TableCell>
+                  <TableCell>{rate.country}</TableCell>
+                  <TableCell className="text-neutral-500">
+                    {rate.state || "All"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {parseFloat(rate.rate)}%
+                  </TableCell>
+                  <TableCell className="text-neutral-500">
+                    {rate.appliesToShipping ? "Taxed" : "Exempt"}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={rate.isActive ? "default" : "secondary"}>
+                      {rate.isActive ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEdit(rate)}
+                        title="Edit"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setDeleteId(rate.id)}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Tax Rate Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? "Edit Tax Rate" : "Add Tax Rate"}
+            </DialogTitle>
+            <DialogDescription>
+              A state-specific rate takes precedence over a country-wide rate.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax-name">Name</Label>
+              <Input
+                id="tax-name"
+                placeholder="e.g. VAT"
+                value={form.name}
+                onChange={(e) => updateField("name", e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tax-country">Country</Label>
+                <Input
+                  id="tax-country"
+                  placeholder="US"
+                  value={form.country}
+                  onChange={(e) => updateField("country", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-state">State</Label>
+                <Input
+                  id="tax-state"
+                  placeholder="Optional"
+                  value={form.state}
+                  onChange={(e) => updateField("state", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tax-rate">Rate (%)</Label>
+                <Input
+                  id="tax-rate"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.001"
+                  value={form.rate}
+                  onChange={(e) => updateField("rate", e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="tax-shipping">Apply to shipping</Label>
+              <Switch
+                id="tax-shipping"
+                checked={form.appliesToShipping}
+                onCheckedChange={(checked) =>
+                  updateField("appliesToShipping", checked)
+                }
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="tax-active">Active</Label>
+              <Switch
+                id="tax-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => updateField("isActive", checked)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSubmitting}>
+              {isSubmitting && (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              )}
+              Save Tax Rate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tax rate?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Orders already placed keep the tax they were charged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isSubmitting}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -4,16 +4,22 @@ import Link from "next/link"
 import { usePathname } from "next/navigation"
 
 import {
+  BadgePercent,
   BarChart3,
   Boxes,
   CreditCard,
   LayoutDashboard,
+  Mail,
   MessageSquare,
   Package,
   Settings,
   Shield,
   ShoppingCart,
+  Smartphone,
   Tags,
+  TicketPercent,
+  Truck,
+  Undo2,
   UserCog,
   Users,
 } from "lucide-react"
@@ -40,6 +46,11 @@ const navigation = [
     href: "/admin/categories",
     icon: Tags,
   },
+  {
+    name: "Devices",
+    href: "/admin/devices",
+    icon: Smartphone,
+  },
   {
     name: "Inventory",
     href: "/admin/inventory",
@@ -50,11 +61,31 @@ const navigation = [
     href: "/admin/orders",
     icon: ShoppingCart,
   },
+  {
+    name: "Returns",
+    href: "/admin/returns",
+    icon: Undo2,
+  },
   {
     name: "Payments",
     href: "/admin/payments",
     icon: CreditCard,
   },
+  {
+    name: "Promotions",
+    href: "/admin/promotions",
+    icon: TicketPercent,
+  },
+  {
+    name: "Price Campaigns",
+    href: "/admin/price-campaigns",
+    icon: BadgePercent,
+  },
+  {
+    name: "Shipping & Tax",
+    href: "/admin/shipping",
+    icon: Truck,
+  },
   {
     name: "Customers",
     href: "/admin/customers",
@@ -70,6 +101,11 @@ const navigation = [
     href: "/admin/reports",
     icon: BarChart3,
   },
+  {
+    name: "Emails",
+    href: "/admin/emails",
+    icon: Mail,
+  },
   {
     name: "Settings",
     href: "/admin/settings",
@@ -13,6 +13,8 @@ import {
   ShieldCheck,
   ShoppingCart,
   Star,
+  TicketPercent,
+  Undo2,
   User,
   Users,
   X,
@@ -54,6 +56,8 @@ const roleDefinitions = {
       staff: ["create", "read", "update", "delete", "list", "invite"],
       settings: ["read", "update"],
       reports: ["read", "export"],
+      promotion: ["create", "read", "update", "delete", "list"],
+      return: ["read", "update", "approve", "reject", "list"],
     },
   },
   manager: {
@@ -74,6 +78,8 @@ const roleDefinitions = {
       staff: [],
       settings: [],
       reports: ["read"],
+      promotion: ["create", "read", "update", "delete", "list"],
+      return: ["read", "update", "approve", "reject", "list"],
     },
   },
   support: {
@@ -94,6 +100,8 @@ const roleDefinitions = {
       staff: [],
       settings: [],
       reports: [],
+      promotion: [],
+      return: ["read", "approve", "reject", "list"],
     },
   },
   customer: {
@@ -113,6 +121,8 @@ const roleDefinitions = {
       staff: [],
       settings: [],
       reports: [],
+      promotion: [],
+      return: [],
     },
   },
 }
@@ -128,6 +138,8 @@ const resourceIcons: Record<string, typeof Package> = {
   staff: Users,
   settings: Settings,
   reports: BarChart3,
+  promotion: TicketPercent,
+  return: Undo2,
 }
 
 export const allActions = [
@@ -0,0 +1,62 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+import { Clock } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+
+interface CampaignCountdownProps {
+  endsAt: string
+  className?: string
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const clock = [hours, minutes, seconds]
+    .map((part) => part.toString().padStart(2, "0"))
+    .join(":")
+
+  return days > 0 ? `${days}d ${clock}` : clock
+}
+
+/**
+ * Campaign Countdown
+ *
+ * Time left until a price campaign ends, ticking every second. Renders
+ * nothing until mounted so server and client markup match.
+ */
+export function CampaignCountdown({
+  endsAt,
+  className,
+}: CampaignCountdownProps) {
+  const [now, setNow] = useState<number | null>(null)
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    const first = setTimeout(() => setNow(Date.now()), 0)
+    return () => {
+      clearInterval(timer)
+      clearTimeout(first)
+    }
+  }, [])
+
+  if (now === null) {
+    return null
+  }
+
+  const remaining = new Date(endsAt).getTime() - now
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 tabular-nums", className)}
+    >
+      <Clock className="h-3.5 w-3.5" />
+      {remaining > 0 ? `Ends in ${formatRemaining(remaining)}` : "Sale ended"}
+    </span>
+  )
+}
@@ -11,6 +11,7 @@ import {
   Minus,
   Package,
   Plus,
+  ShoppingCart,
   Trash2,
 } from "lucide-react"
 import { toast } from "sonner"
@@ -31,6 +32,7 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import {
+  addToCart,
   clearCart,
   removeFromCart,
   updateCartItemQuantity,
@@ -58,8 +60,18 @@ interface CartItem {
   image: string | null
 }
 
+interface RecommendedProduct {
+  id: string
+  name: string
+  slug: string
+  basePrice: string
+  image: string | null
+  variantId: string | null
+}
+
 interface CartItemsProps {
   items: CartItem[]
+  recommendations?: RecommendedProduct[]
 }
 
 function formatCurrency(amount: number): string {
@@ -251,7 +263,81 @@ function CartItemRow({ item }: { item: CartItem }) {
   )
 }
 
-export function CartItems({ items }: CartItemsProps) {
+function RecommendationRow({ product }: { product: RecommendedProduct }) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const handleAdd = (variantId: string) => {
+    startTransition(async () => {
+      const result = await addToCart(variantId, 1)
+      if (result.success) {
+        // Dispatch event to update cart badge
+        window.dispatchEvent(new Event("cart-updated"))
+        toast.success("Added to cart!", { description: product.name })
+      } else {
+        toast.error(result.error || "Failed to add to cart")
+      }
+      router.refresh()
+    })
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <Link
+        href={`/products/${product.slug}`}
+        className="relative h-14 w-14 flex-shrink-0 overflow-hidden rounded-md bg-muted"
+      >
+        {product.image ? (
+          <Image
+            src={product.image}
+            alt={product.name}
+            fill
+            className="object-cover"
+            sizes="56px"
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center">
+            <Package className="h-5 w-5 text-muted-foreground" />
+          </div>
+        )}
+      </Link>
+      <div className="min-w-0 flex-1">
+        <Link
+          href={`/products/${product.slug}`}
+          className="text-sm font-medium hover:text-primary transition-colors line-clamp-1"
+        >
+          {product.name}
+        </Link>
+        <p className="text-sm text-muted-foreground">
+          {formatCurrency(parseFloat(product.basePrice))}
+        </p>
+      </div>
+      {product.variantId ? (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => handleAdd(product.variantId!)}
+          disabled={isPending}
+        >
+          {isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <>
+              <ShoppingCart className="mr-1 h-4 w-4" />
+              Add
+            </>
+          )}
+        </Button>
+      ) : (
+        <Button variant="outline" size="sm" asChild>
+          <Link href={`/products/${product.slug}`}>Options</Link>
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function CartItems({ items, recommendations = [] }: CartItemsProps) {
   const router = useRouter()
   const [isPending, startTransition] = useTransition()
 
@@ -304,6 +390,20 @@ export function CartItems({ items }: CartItemsProps) {
           <CartItemRow key={item.id} item={item} />
         ))}
       </div>
+
+      {/* Recommendations */}
+      {recommendations.length > 0 && (
+        <Card>
+          <CardContent className="p-4">
+            <h3 className="mb-4 font-semibold">You might also like</h3>
+            <div className="space-y-3">
+              {recommendations.map((product) => (
+                <RecommendationRow key={product.id} product={product} />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   )
 }
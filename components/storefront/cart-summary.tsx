@@ -13,10 +13,11 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
+import type { CheckoutQuote } from "@/lib/schemas/checkout"
 
 interface CartSummaryProps {
-  subtotal: number
   itemCount: number
+  totals: CheckoutQuote
 }
 
 function formatCurrency(amount: number): string {
@@ -26,11 +27,9 @@ function formatCurrency(amount: number): string {
   }).format(amount)
 }
 
-export function CartSummary({ subtotal, itemCount }: CartSummaryProps) {
-  // These would typically come from settings or calculated based on location
-  const shipping = subtotal >= 100 ? 0 : 9.99
-  const tax = subtotal * 0.08 // 8% tax estimate
-  const total = subtotal + shipping + tax
+export function CartSummary({ itemCount, totals }: CartSummaryProps) {
+  // Estimate for standard shipping; checkout re-quotes for the address
+  const { subtotal, shipping, tax, total, freeShippingThreshold } = totals
 
   return (
     <div className="sticky top-4 space-y-4">
@@ -67,9 +66,10 @@ export function CartSummary({ subtotal, itemCount }: CartSummaryProps) {
             <span>{formatCurrency(total)}</span>
           </div>
 
-          {shipping > 0 && (
+          {shipping > 0 && freeShippingThreshold && (
             <p className="text-xs text-muted-foreground text-center">
-              Add {formatCurrency(100 - subtotal)} more for free shipping!
+              Add {formatCurrency(freeShippingThreshold - subtotal)} more for
+              free shipping!
             </p>
           )}
         </CardContent>
@@ -98,15 +98,17 @@ export function CartSummary({ subtotal, itemCount }: CartSummaryProps) {
               </p>
             </div>
           </div>
-          <div className="flex items-center gap-3 text-sm">
-            <Truck className="h-5 w-5 text-blue-600 flex-shrink-0" />
-            <div>
-              <p className="font-medium">Free Shipping</p>
-              <p className="text-xs text-muted-foreground">
-                On orders over $100
-              </p>
+          {freeShippingThreshold && (
+            <div className="flex items-center gap-3 text-sm">
+              <Truck className="h-5 w-5 text-blue-600 flex-shrink-0" />
+              <div>
+                <p className="font-medium">Free Shipping</p>
+                <p className="text-xs text-muted-foreground">
+                  On orders over {formatCurrency(freeShippingThreshold)}
+                </p>
+              </div>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,100 @@
+import Link from "next/link"
+
+import { ChevronDown } from "lucide-react"
+
+export interface MenuCategory {
+  id: string
+  name: string
+  slug: string
+  children: MenuCategory[]
+}
+
+interface CategoryMegaMenuProps {
+  categories: MenuCategory[]
+}
+
+// Links shown per column before "View all"
+const MAX_CHILD_LINKS = 6
+
+/**
+ * Category Mega Menu
+ *
+ * "Categories" navigation link that opens a panel of top-level categories
+ * with their subcategories on hover or keyboard focus.
+ */
+export function CategoryMegaMenu({ categories }: CategoryMegaMenuProps) {
+  const linkClass = "text-sm font-medium transition-colors hover:text-primary"
+
+  if (categories.length === 0) {
+    return (
+      <Link href="/categories" className={linkClass}>
+        Categories
+      </Link>
+    )
+  }
+
+  return (
+    <div className="group relative">
+      <Link href="/categories" className={`${linkClass} flex items-center`}>
+        Categories
+        <ChevronDown className="ml-1 h-4 w-4 transition-transform group-hover:rotate-180 group-focus-within:rotate-180" />
+      </Link>
+
+      {/* The top padding bridges the gap so the panel stays open */}
+      <div className="invisible absolute left-1/2 top-full z-50 -translate-x-1/2 pt-4 opacity-0 transition-opacity group-hover:visible group-hover:opacity-100 group-focus-within:visible group-focus-within:opacity-100">
+        <div className="grid w-max max-w-[min(56rem,90vw)] grid-cols-2 gap-x-8 gap-y-6 rounded-lg border bg-white p-6 shadow-lg md:grid-cols-3 lg:grid-cols-4 dark:bg-neutral-950">
+          {categories.map((category) => (
+            <div key={category.id} className="min-w-40 space-y-2">
+              <Link
+                href={`/categories/${category.slug}`}
+                className="font-semibold hover:text-primary"
+              >
+                {category.name}
+              </Link>
+              {category.children.length > 0 && (
+                <ul className="space-y-1.5">
+                  {category.children.slice(0, MAX_CHILD_LINKS).map((child) => (
+                    <li key={child.id}>
+                      <Link
+                        href={`/categories/${child.slug}`}
+                        className="text-sm text-muted-foreground hover:text-foreground"
+                      >
+                        {child.name}
+                      </Link>
+                      {child.children.length > 0 && (
+                        <ul className="mt-1 space-y-1 border-l pl-3">
+                          {child.children
+                            .slice(0, MAX_CHILD_LINKS)
+                            .map((grandchild) => (
+                              <li key={grandchild.id}>
+                                <Link
+                                  href={`/categories/${grandchild.slug}`}
+                                  className="text-xs text-muted-foreground hover:text-foreground"
+                                >
+                                  {grandchild.name}
+                                </Link>
+                              </li>
+                            ))}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                  {category.children.length > MAX_CHILD_LINKS && (
+                    <li>
+                      <Link
+                        href={`/categories/${category.slug}`}
+                        className="text-sm font-medium text-primary hover:underline"
+                      >
+                        View all
+                      </Link>
+                    </li>
+                  )}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useState, useTransition } from "react"
+
+import { Loader2, UserPlus } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { createCheckoutAccount } from "@/lib/actions/checkout"
+import type { ShippingAddress } from "@/lib/schemas/checkout"
+
+interface CheckoutAccountProps {
+  email: string
+  defaultName: string
+  getShipping: () => ShippingAddress
+  onCreated: (addressId?: string) => void
+}
+
+/**
+ * Optional account step for guests. Lives inside the checkout form, so it
+ * submits through its button rather than a nested form.
+ */
+export function CheckoutAccount({
+  email,
+  defaultName,
+  getShipping,
+  onCreated,
+}: CheckoutAccountProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [name, setName] = useState(defaultName)
+  const [password, setPassword] = useState("")
+  const [awaitingVerification, setAwaitingVerification] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      const result = await createCheckoutAccount({
+        name,
+        email,
+        password,
+        shipping: getShipping(),
+      })
+
+      if (result.success && !result.signedIn) {
+        toast.success("Account created", {
+          description:
+            "Check your email to verify it. You can finish this order as a guest.",
+        })
+        setAwaitingVerification(true)
+      } else if (result.success) {
+        toast.success("Account created", {
+          description: "You're signed in and your address is saved.",
+        })
+        onCreated(result.addressId)
+      } else {
+        toast.error(result.error || "Failed to create account")
+      }
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserPlus className="h-5 w-5" />
+          Create an Account (Optional)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {awaitingVerification ? (
+          <p className="text-sm text-muted-foreground">
+            We&apos;ve sent a verification link to{" "}
+            <span className="font-medium">{email}</span>. You can place this
+            order as a guest and sign in once your email is verified.
+          </p>
+        ) : (
+          <>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300"
+                checked={isOpen}
+                onChange={(e) => setIsOpen(e.target.checked)}
+              />
+              <span className="text-sm">
+                Create an account with{" "}
+                <span className="font-medium">{email}</span> to track this order
+                and check out faster next time
+              </span>
+            </label>
+
+            {isOpen && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="accountName">Name</Label>
+                  <Input
+                    id="accountName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={isPending}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="accountPassword">Password</Label>
+                  <Input
+                    id="accountPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    onKeyDown={(e) => {
+                      // Enter would otherwise place the order
+                      if (e.key === "Enter") {
+                        e.preventDefault()
+                        handleCreate()
+                      }
+                    }}
+                    disabled={isPending}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    At least 8 characters, with an uppercase letter, a lowercase
+                    letter and a number.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCreate}
+                  disabled={isPending || !password}
+                >
+                  {isPending && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  Create Account
+                </Button>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
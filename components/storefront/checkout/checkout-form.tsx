@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useTransition } from "react"
+import { useEffect, useRef, useState, useTransition } from "react"
 import { Controller, useForm } from "react-hook-form"
 import { useRouter } from "next/navigation"
 
@@ -15,8 +15,10 @@ import {
   MapPin,
   Package,
   Phone,
+  Tag,
   Truck,
   User,
+  X,
   Zap,
 } from "lucide-react"
 import { toast } from "sonner"
@@ -35,15 +37,18 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
-import { createOrder } from "@/lib/actions/checkout"
+import { createOrder, getCheckoutQuote } from "@/lib/actions/checkout"
 import {
-  calculateOrderTotals,
   type CheckoutData,
+  type CheckoutQuote,
   contactInfoSchema,
+  type ShippingAddress,
   shippingAddressSchema,
 } from "@/lib/schemas/checkout"
 import { cn } from "@/lib/utils"
 
+import { CheckoutAccount } from "./checkout-account"
+
 interface CustomerAddress {
   id: string
   type: string
@@ -63,6 +68,14 @@ interface CheckoutFormProps {
   addresses: CustomerAddress[]
   isLoggedIn: boolean
   userEmail: string
+  initialTotals: CheckoutQuote
+}
+
+function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(amount)
 }
 
 // Combined schema for all checkout data
@@ -85,12 +98,30 @@ const checkoutFormSchema = z.object({
   shippingMethod: z.enum(["standard", "express"]),
   // Payment
   paymentMethod: z.enum(["card", "bank_transfer", "cod"]),
+  // Promotion
+  promotionCode: z.string().optional(),
   // Notes
   notes: z.string().optional(),
 })
 
 type CheckoutFormData = z.infer<typeof checkoutFormSchema>
 
+function toShippingAddress(data: CheckoutFormData): ShippingAddress {
+  return {
+    addressId: data.selectedAddressId,
+    recipientName: data.recipientName,
+    phone: data.phone,
+    addressLine1: data.addressLine1,
+    addressLine2: data.addressLine2,
+    city: data.city,
+    state: data.state,
+    postalCode: data.postalCode,
+    country: data.country,
+    instructions: data.instructions,
+    saveAddress: data.saveAddress,
+  }
+}
+
 const STEPS = [
   { id: 1, name: "Contact", icon: Mail },
   { id: 2, name: "Shipping", icon: MapPin },
@@ -102,6 +133,7 @@ export function CheckoutForm({
   addresses,
   isLoggedIn,
   userEmail,
+  initialTotals,
 }: CheckoutFormProps) {
   const router = useRouter()
   const [isPending, startTransition] = useTransition()
@@ -115,6 +147,7 @@ export function CheckoutForm({
     handleSubmit,
     control,
     watch,
+    getValues,
     setValue,
     trigger,
     formState: { errors },
@@ -131,6 +164,66 @@ export function CheckoutForm({
 
   const shippingMethod = watch("shippingMethod")
   const paymentMethod = watch("paymentMethod")
+  const country = watch("country")
+  const state = watch("state")
+  const email = watch("email")
+  const promotionCode = watch("promotionCode")
+  const [totals, setTotals] = useState<CheckoutQuote>(initialTotals)
+  const [promoInput, setPromoInput] = useState("")
+  // Last applied code, so only a newly applied one is announced
+  const appliedCodeRef = useRef(initialTotals.promotion?.code)
+
+  // Re-quote totals server-side whenever pricing inputs change
+  useEffect(() => {
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      const quote = await getCheckoutQuote({
+        shippingMethod,
+        paymentMethod,
+        country,
+        state: state || undefined,
+        promotionCode: promotionCode || undefined,
+        email: email || undefined,
+      })
+      if (cancelled || !quote) return
+
+      if (quote.promotionError) {
+        toast.error(quote.promotionError)
+        setValue("promotionCode", "")
+      } else if (
+        quote.promotion &&
+        quote.promotion.code !== appliedCodeRef.current
+      ) {
+        toast.success(`Code ${quote.promotion.code} applied`)
+      }
+
+      appliedCodeRef.current = quote.promotion?.code
+      setTotals(quote)
+      window.dispatchEvent(
+        new CustomEvent("checkout-totals-updated", { detail: quote }),
+      )
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [
+    shippingMethod,
+    paymentMethod,
+    country,
+    state,
+    promotionCode,
+    email,
+    setValue,
+  ])
+
+  // Fall back to card when cash on delivery is disabled
+  useEffect(() => {
+    if (!totals.codAvailable && paymentMethod === "cod") {
+      setValue("paymentMethod", "card")
+    }
+  }, [totals.codAvailable, paymentMethod, setValue])
 
   // Pre-fill form with default address on mount
   useEffect(() => {
@@ -199,27 +292,27 @@ export function CheckoutForm({
     }
   }
 
+  // The guest is now signed in; refresh picks up their account and moved
+  // cart while the form keeps everything entered so far
+  const handleAccountCreated = (addressId?: string) => {
+    if (addressId) {
+      setSelectedAddressId(addressId)
+      setValue("selectedAddressId", addressId)
+    }
+    window.dispatchEvent(new Event("cart-updated"))
+    router.refresh()
+  }
+
   const onSubmit = async (data: CheckoutFormData) => {
     const checkoutData: CheckoutData = {
       contact: {
         email: data.email,
         phone: data.phone,
       },
-      shipping: {
-        addressId: data.selectedAddressId,
-        recipientName: data.recipientName,
-        phone: data.phone,
-        addressLine1: data.addressLine1,
-        addressLine2: data.addressLine2,
-        city: data.city,
-        state: data.state,
-        postalCode: data.postalCode,
-        country: data.country,
-        instructions: data.instructions,
-        saveAddress: data.saveAddress,
-      },
+      shipping: toShippingAddress(data),
       shippingMethod: data.shippingMethod,
       paymentMethod: data.paymentMethod,
+      promotionCode: data.promotionCode || undefined,
       notes: data.notes,
     }
 
@@ -565,7 +658,20 @@ export function CheckoutForm({
                             </p>
                           </div>
                         </div>
-                        <p className="font-medium">Free over $100</p>
+                        <div className="text-right">
+                          <p className="font-medium">
+                            {totals.shippingOptions.standard === 0
+                              ? "Free"
+                              : formatCurrency(totals.shippingOptions.standard)}
+                          </p>
+                          {totals.shippingOptions.standard > 0 &&
+                            totals.freeShippingThreshold && (
+                              <p className="text-xs text-muted-foreground">
+                                Free over{" "}
+                                {formatCurrency(totals.freeShippingThreshold)}
+                              </p>
+                            )}
+                        </div>
                       </div>
                     </button>
                     <button
@@ -588,7 +694,9 @@ export function CheckoutForm({
                             </p>
                           </div>
                         </div>
-                        <p className="font-medium">$19.99</p>
+                        <p className="font-medium">
+                          {formatCurrency(totals.shippingOptions.express)}
+                        </p>
                       </div>
                     </button>
                   </>
@@ -651,26 +759,35 @@ export function CheckoutForm({
                         </div>
                       </div>
                     </button>
-                    <button
-                      type="button"
-                      onClick={() => field.onChange("cod")}
-                      className={cn(
-                        "w-full p-4 rounded-lg border text-left transition-colors",
-                        field.value === "cod"
-                          ? "border-primary bg-primary/5"
-                          : "border-border hover:border-primary/50",
-                      )}
-                    >
-                      <div className="flex items-center gap-3">
-                        <Truck className="h-5 w-5 text-muted-foreground" />
-                        <div>
-                          <p className="font-medium">Cash on Delivery</p>
-                          <p className="text-sm text-muted-foreground">
-                            Pay when your order arrives
-                          </p>
+                    {totals.codAvailable && (
+                      <button
+                        type="button"
+                        onClick={() => field.onChange("cod")}
+                        className={cn(
+                          "w-full p-4 rounded-lg border text-left transition-colors",
+                          field.value === "cod"
+                            ? "border-primary bg-primary/5"
+                            : "border-border hover:border-primary/50",
+                        )}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <Truck className="h-5 w-5 text-muted-foreground" />
+                            <div>
+                              <p className="font-medium">Cash on Delivery</p>
+                              <p className="text-sm text-muted-foreground">
+                                Pay when your order arrives
+                              </p>
+                            </div>
+                          </div>
+                          {totals.codFee > 0 && (
+                            <p className="font-medium">
+                              +{formatCurrency(totals.codFee)}
+                            </p>
+                          )}
                         </div>
-                      </div>
-                    </button>
+                      </button>
+                    )}
                   </>
                 )}
               />
@@ -679,6 +796,16 @@ export function CheckoutForm({
         </div>
       )}
 
+      {/* Optional account for guests */}
+      {currentStep === 4 && !isLoggedIn && (
+        <CheckoutAccount
+          email={email}
+          defaultName={watch("recipientName")}
+          getShipping={() => toShippingAddress(getValues())}
+          onCreated={handleAccountCreated}
+        />
+      )}
+
       {/* Step 4: Review Order */}
       {currentStep === 4 && (
         <Card>
@@ -783,6 +910,59 @@ export function CheckoutForm({
               </p>
             </div>
 
+            {/* Promotion Code */}
+            <div className="border-t pt-4">
+              <h3 className="font-medium flex items-center gap-2 mb-2">
+                <Tag className="h-4 w-4" />
+                Promo Code
+              </h3>
+              {totals.promotion ? (
+                <div className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 p-3 dark:border-green-900 dark:bg-green-950">
+                  <div>
+                    <p className="font-medium">{totals.promotion.code}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {totals.promotion.name}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setValue("promotionCode", "")
+                      setPromoInput("")
+                    }}
+                  >
+                    <X className="mr-1 h-4 w-4" />
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Enter code"
+                    value={promoInput}
+                    onChange={(e) => setPromoInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault()
+                        setValue("promotionCode", promoInput.trim())
+                      }
+                    }}
+                    className="uppercase"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={!promoInput.trim()}
+                    onClick={() => setValue("promotionCode", promoInput.trim())}
+                  >
+                    Apply
+                  </Button>
+                </div>
+              )}
+            </div>
+
             {/* Order Notes */}
             <div className="border-t pt-4">
               <Label htmlFor="notes">Order Notes (Optional)</Label>
@@ -1,5 +1,6 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import Image from "next/image"
 
 import { Lock, Package, ShieldCheck } from "lucide-react"
@@ -7,7 +8,10 @@ import { Lock, Package, ShieldCheck } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
-import type { CheckoutSummary as CheckoutSummaryType } from "@/lib/schemas/checkout"
+import type {
+  CheckoutQuote,
+  CheckoutSummary as CheckoutSummaryType,
+} from "@/lib/schemas/checkout"
 
 interface CheckoutSummaryProps {
   summary: CheckoutSummaryType
@@ -21,6 +25,19 @@ function formatCurrency(amount: number): string {
 }
 
 export function CheckoutSummary({ summary }: CheckoutSummaryProps) {
+  const [totals, setTotals] = useState<CheckoutQuote>(summary.totals)
+
+  // Checkout form broadcasts a new quote when address/method changes
+  useEffect(() => {
+    const handleTotalsUpdated = (event: Event) => {
+      setTotals((event as CustomEvent<CheckoutQuote>).detail)
+    }
+
+    window.addEventListener("checkout-totals-updated", handleTotalsUpdated)
+    return () =>
+      window.removeEventListener("checkout-totals-updated", handleTotalsUpdated)
+  }, [])
+
   return (
     <div className="space-y-4 lg:sticky lg:top-24">
       <Card>
@@ -70,23 +87,40 @@ export function CheckoutSummary({ summary }: CheckoutSummaryProps) {
 
           <Separator />
 
-          {/* Totals - Will be updated based on selections */}
+          {/* Totals - Updated based on selections */}
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Subtotal</span>
-              <span>{formatCurrency(summary.subtotal)}</span>
+              <span>{formatCurrency(totals.subtotal)}</span>
             </div>
+            {totals.discount > 0 && (
+              <div className="flex justify-between text-sm text-green-600">
+                <span>
+                  Discount
+                  {totals.promotion && ` (${totals.promotion.code})`}
+                </span>
+                <span>-{formatCurrency(totals.discount)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Shipping</span>
-              <span className="text-muted-foreground">
-                Calculated at next step
-              </span>
+              {totals.shipping === 0 ? (
+                <span className="text-green-600 font-medium">FREE</span>
+              ) : (
+                <span>{formatCurrency(totals.shipping)}</span>
+              )}
             </div>
+            {totals.codFee > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  Cash on Delivery Fee
+                </span>
+                <span>{formatCurrency(totals.codFee)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Tax</span>
-              <span className="text-muted-foreground">
-                Calculated at next step
-              </span>
+              <span>{formatCurrency(totals.tax)}</span>
             </div>
           </div>
 
@@ -94,7 +128,7 @@ export function CheckoutSummary({ summary }: CheckoutSummaryProps) {
 
           <div className="flex justify-between font-medium text-lg">
             <span>Total</span>
-            <span>{formatCurrency(summary.subtotal)}</span>
+            <span>{formatCurrency(totals.total)}</span>
           </div>
 
           <p className="text-xs text-muted-foreground text-center">
@@ -0,0 +1,49 @@
+"use client"
+
+import { createContext, useContext, useMemo } from "react"
+
+export interface SelectedDevice {
+  id: string
+  name: string // Full name, e.g. "Apple iPhone 15"
+  slug: string
+  productIds: string[] // Products compatible with the device
+}
+
+interface SelectedDeviceContextValue {
+  device: SelectedDevice | null
+  fits: (productId: string) => boolean
+}
+
+const SelectedDeviceContext = createContext<SelectedDeviceContextValue>({
+  device: null,
+  fits: () => false,
+})
+
+/**
+ * Selected Device Provider
+ *
+ * Shares the device the customer shops for, so product cards anywhere in
+ * the storefront can show whether they fit it.
+ */
+export function SelectedDeviceProvider({
+  device,
+  children,
+}: {
+  device: SelectedDevice | null
+  children: React.ReactNode
+}) {
+  const value = useMemo(() => {
+    const productIds = new Set(device?.productIds)
+    return { device, fits: (productId: string) => productIds.has(productId) }
+  }, [device])
+
+  return (
+    <SelectedDeviceContext.Provider value={value}>
+      {children}
+    </SelectedDeviceContext.Provider>
+  )
+}
+
+export function useSelectedDevice() {
+  return useContext(SelectedDeviceContext)
+}
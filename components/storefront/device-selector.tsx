@@ -0,0 +1,170 @@
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { Loader2, Smartphone } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { selectDevice } from "@/lib/actions/devices"
+
+import { useSelectedDevice } from "./device-context"
+
+export interface DeviceMenuBrand {
+  id: string
+  name: string
+  models: { id: string; name: string; slug: string }[]
+}
+
+interface DeviceSelectorProps {
+  brands: DeviceMenuBrand[]
+}
+
+/**
+ * Device Selector
+ *
+ * "Shop for my device" picker in the header. The chosen device is
+ * remembered, and product cards show which products fit it.
+ */
+export function DeviceSelector({ brands }: DeviceSelectorProps) {
+  const router = useRouter()
+  const { device } = useSelectedDevice()
+  const [open, setOpen] = useState(false)
+  const [isPending, startTransition] = useTransition()
+
+  const selectedBrand = brands.find((brand) =>
+    brand.models.some((model) => model.id === device?.id),
+  )
+  const [brandId, setBrandId] = useState(
+    selectedBrand?.id ?? brands[0]?.id ?? "",
+  )
+  const [modelId, setModelId] = useState(device?.id ?? "")
+
+  const models = brands.find((brand) => brand.id === brandId)?.models ?? []
+
+  if (brands.length === 0) {
+    return null
+  }
+
+  const handleShop = () => {
+    const model = models.find((m) => m.id === modelId)
+    if (!model) return
+
+    startTransition(async () => {
+      const result = await selectDevice(model.id)
+      if (result.success) {
+        setOpen(false)
+        router.push(`/search?device=${model.slug}`)
+        router.refresh()
+      } else {
+        toast.error(result.error)
+      }
+    })
+  }
+
+  const handleClear = () => {
+    startTransition(async () => {
+      await selectDevice(null)
+      setModelId("")
+      setOpen(false)
+      router.refresh()
+    })
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <Smartphone className="h-5 w-5" />
+          <span className="hidden lg:inline max-w-32 truncate">
+            {device ? device.name : "My Device"}
+          </span>
+          <span className="sr-only">Shop for my device</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div>
+          <h3 className="font-medium">Shop for my device</h3>
+          <p className="text-sm text-muted-foreground">
+            {device
+              ? `Showing what fits your ${device.name}.`
+              : "Find cases, chargers and more that fit your phone."}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="device-brand">Brand</Label>
+          <Select
+            value={brandId}
+            onValueChange={(value) => {
+              setBrandId(value)
+              setModelId("")
+            }}
+          >
+            <SelectTrigger id="device-brand" className="w-full">
+              <SelectValue placeholder="Select a brand" />
+            </SelectTrigger>
+            <SelectContent>
+              {brands.map((brand) => (
+                <SelectItem key={brand.id} value={brand.id}>
+                  {brand.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="device-model">Model</Label>
+          <Select value={modelId} onValueChange={setModelId}>
+            <SelectTrigger id="device-model" className="w-full">
+              <SelectValue placeholder="Select a model" />
+            </SelectTrigger>
+            <SelectContent>
+              {models.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex gap-2">
+          {device && (
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={handleClear}
+              disabled={isPending}
+            >
+              Clear
+            </Button>
+          )}
+          <Button
+            className="flex-1"
+            onClick={handleShop}
+            disabled={isPending || !modelId}
+          >
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Shop Accessories
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
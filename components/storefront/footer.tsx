@@ -78,6 +78,14 @@ export function StorefrontFooter() {
                   Track Orders
                 </Link>
               </li>
+              <li>
+                <Link
+                  href="/orders/lookup"
+                  className="text-sm text-neutral-600 hover:text-neutral-900 dark:text-neutral-400 dark:hover:text-neutral-100"
+                >
+                  Find a Guest Order
+                </Link>
+              </li>
             </ul>
           </div>
 
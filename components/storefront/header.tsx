@@ -4,7 +4,7 @@ import { useState } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 
-import { Heart, LogOut, Menu, Package, Search, User } from "lucide-react"
+import { Bell, Heart, LogOut, Menu, Package, Search, User } from "lucide-react"
 
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
@@ -20,10 +20,15 @@ import { clearAuthCookies } from "@/lib/actions/admin-auth"
 import { signOut } from "@/lib/auth-client"
 
 import { CartBadge } from "./cart-badge"
+import { CategoryMegaMenu, type MenuCategory } from "./category-mega-menu"
+import { type DeviceMenuBrand, DeviceSelector } from "./device-selector"
 import { MobileNav } from "./mobile-nav"
+import { NotificationBell } from "./notification-bell"
 import { SearchDialog } from "./search-dialog"
 
 interface StorefrontHeaderProps {
+  categories?: MenuCategory[]
+  devices?: DeviceMenuBrand[]
   isAuthenticated?: boolean
   user?: {
     name?: string | null
@@ -38,6 +43,8 @@ interface StorefrontHeaderProps {
  * Navigation header for the storefront.
  */
 export function StorefrontHeader({
+  categories = [],
+  devices = [],
   isAuthenticated = false,
   user,
 }: StorefrontHeaderProps) {
@@ -77,12 +84,7 @@ export function StorefrontHeader({
             >
               Products
             </Link>
-            <Link
-              href="/categories"
-              className="text-sm font-medium transition-colors hover:text-primary"
-            >
-              Categories
-            </Link>
+            <CategoryMegaMenu categories={categories} />
             <Link
               href="/deals"
               className="text-sm font-medium transition-colors hover:text-primary"
@@ -93,6 +95,9 @@ export function StorefrontHeader({
 
           {/* Actions */}
           <div className="flex items-center space-x-2 sm:space-x-4">
+            {/* Shop for my device */}
+            <DeviceSelector brands={devices} />
+
             {/* Search */}
             <Button
               variant="ghost"
@@ -118,6 +123,9 @@ export function StorefrontHeader({
               </Button>
             )}
 
+            {/* Notifications */}
+            {isAuthenticated && <NotificationBell />}
+
             {/* Cart */}
             <CartBadge />
 
@@ -162,6 +170,12 @@ export function StorefrontHeader({
                       Favorites
                     </Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <Link href="/notifications" className="cursor-pointer">
+                      <Bell className="h-4 w-4 mr-2" />
+                      Notifications
+                    </Link>
+                  </DropdownMenuItem>
                   <DropdownMenuItem asChild>
                     <Link href="/profile" className="cursor-pointer">
                       <User className="h-4 w-4 mr-2" />
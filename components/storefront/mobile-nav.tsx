@@ -5,6 +5,7 @@ import Link from "next/link"
 import { usePathname, useRouter } from "next/navigation"
 
 import {
+  Bell,
   ChevronRight,
   Grid3X3,
   Heart,
@@ -40,6 +41,7 @@ const navLinks = [
 const accountLinks = [
   { href: "/orders", label: "My Orders", icon: ShoppingBag },
   { href: "/favorites", label: "Favorites", icon: Heart },
+  { href: "/notifications", label: "Notifications", icon: Bell },
   { href: "/profile", label: "Profile", icon: User },
 ]
 
@@ -0,0 +1,152 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+
+import { formatDistanceToNow } from "date-fns"
+import { Bell } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  getNotificationSummary,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "@/lib/actions/notifications"
+import { cn } from "@/lib/utils"
+
+type NotificationSummary = Awaited<ReturnType<typeof getNotificationSummary>>
+
+/**
+ * Notification Bell Component
+ *
+ * Unread count and the latest notifications for signed-in customers.
+ * Refreshes on mount, when opened and when the window regains focus.
+ */
+export function NotificationBell() {
+  const router = useRouter()
+  const [summary, setSummary] = useState<NotificationSummary>({
+    unreadCount: 0,
+    notifications: [],
+  })
+
+  const fetchSummary = useCallback(() => {
+    getNotificationSummary().then(setSummary)
+  }, [])
+
+  useEffect(() => {
+    fetchSummary()
+
+    window.addEventListener("focus", fetchSummary)
+    return () => {
+      window.removeEventListener("focus", fetchSummary)
+    }
+  }, [fetchSummary])
+
+  const handleSelect = async (
+    notification: NotificationSummary["notifications"][number],
+  ) => {
+    if (!notification.readAt) {
+      await markNotificationRead(notification.id)
+      fetchSummary()
+    }
+    if (notification.href) {
+      router.push(notification.href)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    await markAllNotificationsRead()
+    fetchSummary()
+  }
+
+  const { unreadCount, notifications } = summary
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && fetchSummary()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 h-5 w-5 rounded-full bg-primary text-[10px] font-medium text-primary-foreground flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications ({unreadCount} unread)</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              onClick={handleMarkAllRead}
+              className="text-xs font-normal text-primary hover:underline"
+            >
+              Mark all as read
+            </button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up.
+          </p>
+        ) : (
+          notifications.map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              onSelect={() => handleSelect(notification)}
+              className="cursor-pointer items-start gap-2"
+            >
+              <span
+                className={cn(
+                  "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                  notification.readAt ? "bg-transparent" : "bg-primary",
+                )}
+              />
+              <div className="min-w-0 space-y-0.5">
+                <p
+                  className={cn(
+                    "text-sm",
+                    !notification.readAt && "font-medium",
+                  )}
+                >
+                  {notification.title}
+                </p>
+                {notification.body && (
+                  <p className="line-clamp-2 text-xs text-muted-foreground">
+                    {notification.body}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(notification.createdAt), {
+                    addSuffix: true,
+                  })}
+                </p>
+              </div>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link
+            href="/notifications"
+            className="cursor-pointer justify-center text-sm"
+          >
+            View all notifications
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
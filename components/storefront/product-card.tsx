@@ -3,13 +3,15 @@
 import Image from "next/image"
 import Link from "next/link"
 
-import { Package, ShoppingCart } from "lucide-react"
+import { Package, ShoppingCart, Smartphone } from "lucide-react"
 
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { formatCurrency } from "@/lib/utils"
 
+import { useSelectedDevice } from "./device-context"
+
 interface Product {
   id: string
   name: string
@@ -26,6 +28,7 @@ interface ProductCardProps {
 }
 
 export function ProductCard({ product }: ProductCardProps) {
+  const { device, fits } = useSelectedDevice()
   const price = parseFloat(product.basePrice)
   const comparePrice = product.compareAtPrice
     ? parseFloat(product.compareAtPrice)
@@ -103,6 +106,15 @@ export function ProductCard({ product }: ProductCardProps) {
               </span>
             )}
           </div>
+          {device && fits(product.id) && (
+            <Badge
+              variant="secondary"
+              className="mt-2 bg-green-100 text-green-800"
+            >
+              <Smartphone className="mr-1 h-3 w-3" />
+              Fits {device.name}
+            </Badge>
+          )}
         </CardContent>
       </Card>
     </Link>
@@ -0,0 +1,198 @@
+import { type ReactNode } from "react"
+import Link from "next/link"
+
+import { Check, Filter, Star } from "lucide-react"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import {
+  attributeParam,
+  clearFacetParams,
+  hasFacetFilters,
+  type ProductFacetFilters,
+  type SearchParamsRecord,
+  toURLSearchParams,
+} from "@/lib/search/facet-params"
+import { type ProductFacets as ProductFacetCounts } from "@/lib/search/facets"
+import { cn } from "@/lib/utils"
+
+interface ProductFacetsProps {
+  facets: ProductFacetCounts
+  filters: ProductFacetFilters
+  pathname: string
+  searchParams: SearchParamsRecord
+}
+
+interface FacetOptionProps {
+  href: string
+  label: ReactNode
+  count: number
+  selected: boolean
+}
+
+// Options are plain links so every filtered listing has a crawlable URL
+function FacetOption({ href, label, count, selected }: FacetOptionProps) {
+  const content = (
+    <>
+      <span
+        className={cn(
+          "flex h-4 w-4 shrink-0 items-center justify-center rounded-[4px] border",
+          selected && "border-primary bg-primary text-primary-foreground",
+        )}
+      >
+        {selected && <Check className="h-3 w-3" />}
+      </span>
+      <span className="flex-1">{label}</span>
+      <span className="text-xs text-muted-foreground">{count}</span>
+    </>
+  )
+
+  if (count === 0 && !selected) {
+    return (
+      <div className="flex items-center gap-2 py-1 text-sm opacity-50">
+        {content}
+      </div>
+    )
+  }
+
+  return (
+    <Link
+      href={href}
+      scroll={false}
+      className="flex items-center gap-2 py-1 text-sm hover:text-primary"
+    >
+      {content}
+    </Link>
+  )
+}
+
+export function ProductFacets({
+  facets,
+  filters,
+  pathname,
+  searchParams,
+}: ProductFacetsProps) {
+  // Every facet change starts again from the first page
+  const buildHref = (update: (params: URLSearchParams) => void) => {
+    const params = toURLSearchParams(searchParams)
+    params.delete("page")
+    update(params)
+    const query = params.toString()
+    return query ? `${pathname}?${query}` : pathname
+  }
+
+  const toggleParam = (key: string, value: string, selected: boolean) =>
+    buildHref((params) => {
+      if (selected) {
+        params.delete(key, value)
+      } else {
+        params.append(key, value)
+      }
+    })
+
+  const clearHref = buildHref(clearFacetParams)
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center justify-between text-lg">
+          <span className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            Refine
+          </span>
+          {hasFacetFilters(filters) && (
+            <Link
+              href={clearHref}
+              scroll={false}
+              className="text-xs font-normal text-muted-foreground hover:text-foreground"
+            >
+              Clear All
+            </Link>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Availability */}
+        <div>
+          <p className="mb-2 text-sm font-medium">Availability</p>
+          <FacetOption
+            href={toggleParam("inStock", "1", filters.inStock)}
+            label="In stock only"
+            count={facets.inStock}
+            selected={filters.inStock}
+          />
+          <FacetOption
+            href={toggleParam("onSale", "1", filters.onSale)}
+            label="On sale"
+            count={facets.onSale}
+            selected={filters.onSale}
+          />
+        </div>
+
+        <Separator />
+
+        {/* Rating */}
+        <div>
+          <p className="mb-2 text-sm font-medium">Customer Rating</p>
+          {facets.ratings.map(({ rating, count }) => {
+            const selected = filters.minRating === rating
+            return (
+              <FacetOption
+                key={rating}
+                href={buildHref((params) => {
+                  if (selected) params.delete("rating")
+                  else params.set("rating", rating.toString())
+                })}
+                label={
+                  <span className="flex items-center gap-1">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                      <Star
+                        key={i}
+                        className={cn(
+                          "h-3 w-3",
+                          i < rating
+                            ? "fill-yellow-400 text-yellow-400"
+                            : "text-muted-foreground/30",
+                        )}
+                      />
+                    ))}
+                    <span className="ml-1">& up</span>
+                  </span>
+                }
+                count={count}
+                selected={selected}
+              />
+            )
+          })}
+        </div>
+
+        {/* Attributes */}
+        {facets.attributes.map((attribute) => {
+          const selectedValues = filters.attributes[attribute.slug] ?? []
+          return (
+            <div key={attribute.slug}>
+              <Separator className="mb-4" />
+              <p className="mb-2 text-sm font-medium">{attribute.name}</p>
+              {attribute.values.map(({ value, count }) => {
+                const selected = selectedValues.includes(value)
+                return (
+                  <FacetOption
+                    key={value}
+                    href={toggleParam(
+                      attributeParam(attribute.slug),
+                      value,
+                      selected,
+                    )}
+                    label={value}
+                    count={count}
+                    selected={selected}
+                  />
+                )
+              })}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -14,6 +14,7 @@ interface ProductImage {
   altText: string | null
   isPrimary: boolean
   sortOrder: number
+  variantId: string | null
 }
 
 interface ProductGalleryProps {
@@ -1,12 +1,14 @@
 "use client"
 
 import { useState, useTransition } from "react"
+import Link from "next/link"
 import { useRouter } from "next/navigation"
 
 import {
   Check,
   Loader2,
   Minus,
+  Package,
   Plus,
   RotateCcw,
   Share2,
@@ -16,7 +18,10 @@ import {
 } from "lucide-react"
 import { toast } from "sonner"
 
+import { CampaignCountdown } from "@/components/storefront/campaign-countdown"
 import { FavoriteButton } from "@/components/storefront/favorite-button"
+import { StockAlertButton } from "@/components/storefront/stock-alert-button"
+import { VariantPicker } from "@/components/storefront/variant-picker"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -30,6 +35,8 @@ import {
 } from "@/components/ui/select"
 import { addToCart } from "@/lib/actions/cart"
 import { formatCurrency } from "@/lib/utils"
+import type { AppliedCampaign } from "@/lib/utils/price-campaigns"
+import { DEFAULT_VARIANT_NAME } from "@/lib/utils/variants"
 
 interface ProductVariant {
   id: string
@@ -41,12 +48,22 @@ interface ProductVariant {
   weight: string | null
   isDefault: boolean
   isActive: boolean
+  optionValueIds: string[]
+  campaign: AppliedCampaign | null
   inventory: {
     id: string
     quantity: number
     reservedQuantity: number
     lowStockThreshold: number | null
   } | null
+  bundle: {
+    components: {
+      productName: string
+      productSlug: string
+      variantName: string
+      quantity: number
+    }[]
+  } | null
 }
 
 interface Product {
@@ -57,8 +74,10 @@ interface Product {
   shortDescription: string | null
   basePrice: string
   compareAtPrice: string | null
+  campaign: AppliedCampaign | null
   isFeatured: boolean
   variants: ProductVariant[]
+  options: React.ComponentProps<typeof VariantPicker>["options"]
   category: {
     id: string
     name: string
@@ -69,20 +88,26 @@ interface Product {
 interface ProductInfoProps {
   product: Product
   initialIsFavorited?: boolean
+  // Out of stock variants the customer asked to be alerted about
+  initialStockAlertVariantIds?: string[]
+  // Selection is owned by the page so the gallery can follow it
+  selectedVariantId: string
+  onVariantChange: (variantId: string) => void
 }
 
 export function ProductInfo({
   product,
   initialIsFavorited = false,
+  initialStockAlertVariantIds = [],
+  selectedVariantId,
+  onVariantChange,
 }: ProductInfoProps) {
   const router = useRouter()
   const [isPending, startTransition] = useTransition()
-  const [selectedVariantId, setSelectedVariantId] = useState<string>(
-    product.variants.find((v) => v.isDefault)?.id ||
-      product.variants[0]?.id ||
-      "",
-  )
   const [quantity, setQuantity] = useState(1)
+  const [stockAlertVariantIds, setStockAlertVariantIds] = useState(
+    initialStockAlertVariantIds,
+  )
 
   const selectedVariant = product.variants.find(
     (v) => v.id === selectedVariantId,
@@ -96,6 +121,8 @@ export function ProductInfo({
       ? parseFloat(product.compareAtPrice)
       : null
 
+  const campaign = selectedVariant ? selectedVariant.campaign : product.campaign
+
   const hasDiscount = comparePrice && comparePrice > price
   const discountPercent = hasDiscount
     ? Math.round(((comparePrice - price) / comparePrice) * 100)
@@ -172,6 +199,45 @@ export function ProductInfo({
           </>
         )}
       </div>
+      {campaign && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+          <span className="font-medium text-red-600">{campaign.name}</span>
+          <CampaignCountdown
+            endsAt={campaign.endsAt}
+            className="text-muted-foreground"
+          />
+        </div>
+      )}
+
+      {/* Bundle Contents */}
+      {selectedVariant?.bundle && (
+        <div className="rounded-lg border p-4">
+          <p className="flex items-center gap-2 text-sm font-medium">
+            <Package className="h-4 w-4" />
+            In this bundle
+          </p>
+          <ul className="mt-2 space-y-1 text-sm">
+            {selectedVariant.bundle.components.map((component) => (
+              <li
+                key={`${component.productSlug}-${component.variantName}`}
+                className="flex gap-2"
+              >
+                <span className="text-muted-foreground tabular-nums">
+                  {component.quantity}×
+                </span>
+                <Link
+                  href={`/products/${component.productSlug}`}
+                  className="hover:underline"
+                >
+                  {component.productName}
+                  {component.variantName !== DEFAULT_VARIANT_NAME &&
+                    ` (${component.variantName})`}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
 
       {/* Stock Status */}
       <div className="flex items-center gap-2">
@@ -193,32 +259,38 @@ export function ProductInfo({
       </div>
 
       {/* Variant Selector */}
-      {product.variants.length > 1 && (
-        <div className="space-y-2">
-          <Label htmlFor="variant">Select Option</Label>
-          <Select
-            value={selectedVariantId}
-            onValueChange={setSelectedVariantId}
-          >
-            <SelectTrigger id="variant" className="w-full">
-              <SelectValue placeholder="Select an option" />
-            </SelectTrigger>
-            <SelectContent>
-              {product.variants
-                .filter((v) => v.isActive)
-                .map((variant) => (
-                  <SelectItem key={variant.id} value={variant.id}>
-                    {variant.name}
-                    {variant.price !== product.basePrice && (
-                      <span className="ml-2 text-muted-foreground">
-                        ({formatCurrency(parseFloat(variant.price))})
-                      </span>
-                    )}
-                  </SelectItem>
-                ))}
-            </SelectContent>
-          </Select>
-        </div>
+      {product.options.length > 0 ? (
+        <VariantPicker
+          options={product.options}
+          variants={product.variants}
+          selectedVariantId={selectedVariantId}
+          onChange={onVariantChange}
+        />
+      ) : (
+        product.variants.length > 1 && (
+          <div className="space-y-2">
+            <Label htmlFor="variant">Select Option</Label>
+            <Select value={selectedVariantId} onValueChange={onVariantChange}>
+              <SelectTrigger id="variant" className="w-full">
+                <SelectValue placeholder="Select an option" />
+              </SelectTrigger>
+              <SelectContent>
+                {product.variants
+                  .filter((v) => v.isActive)
+                  .map((variant) => (
+                    <SelectItem key={variant.id} value={variant.id}>
+                      {variant.name}
+                      {variant.price !== product.basePrice && (
+                        <span className="ml-2 text-muted-foreground">
+                          ({formatCurrency(parseFloat(variant.price))})
+                        </span>
+                      )}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )
       )}
 
       {/* Quantity Selector */}
@@ -262,19 +334,34 @@ export function ProductInfo({
 
       {/* Action Buttons */}
       <div className="flex flex-col sm:flex-row gap-3">
-        <Button
-          size="lg"
-          className="flex-1"
-          disabled={!inStock || isPending}
-          onClick={handleAddToCart}
-        >
-          {isPending ? (
-            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-          ) : (
-            <ShoppingCart className="h-5 w-5 mr-2" />
-          )}
-          {isPending ? "Adding..." : "Add to Cart"}
-        </Button>
+        {!inStock && selectedVariant ? (
+          <StockAlertButton
+            variantId={selectedVariant.id}
+            isSubscribed={stockAlertVariantIds.includes(selectedVariant.id)}
+            onChange={(isSubscribed) =>
+              setStockAlertVariantIds((prev) =>
+                isSubscribed
+                  ? [...prev, selectedVariant.id]
+                  : prev.filter((id) => id !== selectedVariant.id),
+              )
+            }
+            className="flex-1"
+          />
+        ) : (
+          <Button
+            size="lg"
+            className="flex-1"
+            disabled={!inStock || isPending}
+            onClick={handleAddToCart}
+          >
+            {isPending ? (
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            ) : (
+              <ShoppingCart className="h-5 w-5 mr-2" />
+            )}
+            {isPending ? "Adding..." : "Add to Cart"}
+          </Button>
+        )}
         <FavoriteButton
           productId={product.id}
           initialIsFavorited={initialIsFavorited}
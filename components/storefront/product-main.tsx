@@ -0,0 +1,60 @@
+"use client"
+
+import { useState } from "react"
+
+import { ProductGallery } from "@/components/storefront/product-gallery"
+import { ProductInfo } from "@/components/storefront/product-info"
+import { imagesForVariant } from "@/lib/utils/variants"
+
+type MainProduct = React.ComponentProps<typeof ProductInfo>["product"] & {
+  images: React.ComponentProps<typeof ProductGallery>["images"]
+}
+
+interface ProductMainProps {
+  product: MainProduct
+  initialIsFavorited?: boolean
+  initialStockAlertVariantIds?: string[]
+}
+
+/**
+ * Gallery and buy box of the product page, sharing the selected variant so
+ * the gallery shows that variant's photos.
+ */
+export function ProductMain({
+  product,
+  initialIsFavorited,
+  initialStockAlertVariantIds,
+}: ProductMainProps) {
+  const [selectedVariantId, setSelectedVariantId] = useState<string>(
+    product.variants.find((v) => v.isDefault && v.isActive)?.id ||
+      product.variants.find((v) => v.isActive)?.id ||
+      product.variants[0]?.id ||
+      "",
+  )
+
+  const images = imagesForVariant(
+    product.images,
+    product.variants,
+    selectedVariantId,
+  )
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-12">
+      {/* Gallery; remounted when the image set changes to start at the first */}
+      <ProductGallery
+        key={images.map((image) => image.id).join()}
+        images={images}
+        name={product.name}
+      />
+
+      {/* Product Info */}
+      <ProductInfo
+        product={product}
+        initialIsFavorited={initialIsFavorited}
+        initialStockAlertVariantIds={initialStockAlertVariantIds}
+        selectedVariantId={selectedVariantId}
+        onVariantChange={setSelectedVariantId}
+      />
+    </div>
+  )
+}
@@ -4,7 +4,15 @@ import { useCallback, useEffect, useRef, useState } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
 
-import { Clock, Grid3X3, Package, Search, TrendingUp, X } from "lucide-react"
+import {
+  Clock,
+  Grid3X3,
+  Package,
+  Search,
+  Smartphone,
+  TrendingUp,
+  X,
+} from "lucide-react"
 
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -13,6 +21,7 @@ import {
   getPopularSearchTerms,
   getSearchSuggestions,
 } from "@/lib/actions/search"
+import { deviceDisplayName } from "@/lib/utils/devices"
 
 interface SearchDialogProps {
   isOpen: boolean
@@ -26,7 +35,8 @@ export function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
   const [suggestions, setSuggestions] = useState<{
     products: { id: string; name: string; slug: string }[]
     categories: { id: string; name: string; slug: string }[]
-  }>({ products: [], categories: [] })
+    devices: { id: string; name: string; slug: string; brandName: string }[]
+  }>({ products: [], categories: [], devices: [] })
   const [popularTerms, setPopularTerms] = useState<string[]>([])
   const [recentSearches, setRecentSearches] = useState<string[]>([])
   const [isLoading, setIsLoading] = useState(false)
@@ -68,7 +78,7 @@ export function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
   // Fetch suggestions with debounce
   useEffect(() => {
     if (query.length < 2) {
-      setSuggestions({ products: [], categories: [] })
+      setSuggestions({ products: [], categories: [], devices: [] })
       return
     }
 
@@ -206,9 +216,35 @@ export function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
                     </div>
                   )}
 
+                  {/* Device Suggestions */}
+                  {suggestions.devices.length > 0 && (
+                    <div>
+                      <h3 className="mb-2 text-xs font-medium uppercase text-muted-foreground">
+                        Shop by Device
+                      </h3>
+                      <div className="space-y-1">
+                        {suggestions.devices.map((device) => (
+                          <Link
+                            key={device.id}
+                            href={`/search?device=${device.slug}`}
+                            onClick={onClose}
+                            className="flex items-center gap-3 rounded-lg px-3 py-2 hover:bg-muted transition-colors"
+                          >
+                            <Smartphone className="h-4 w-4 text-muted-foreground" />
+                            <span>
+                              Accessories for{" "}
+                              {deviceDisplayName(device.brandName, device.name)}
+                            </span>
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* View All Results */}
                   {(suggestions.products.length > 0 ||
-                    suggestions.categories.length > 0) && (
+                    suggestions.categories.length > 0 ||
+                    suggestions.devices.length > 0) && (
                     <Button
                       variant="outline"
                       className="w-full"
@@ -220,7 +256,8 @@ export function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
 
                   {/* No Results */}
                   {suggestions.products.length === 0 &&
-                    suggestions.categories.length === 0 && (
+                    suggestions.categories.length === 0 &&
+                    suggestions.devices.length === 0 && (
                       <div className="py-8 text-center text-muted-foreground">
                         <p>No results found for &quot;{query}&quot;</p>
                         <p className="mt-1 text-sm">
@@ -266,24 +303,26 @@ export function SearchDialog({ isOpen, onClose }: SearchDialogProps) {
               )}
 
               {/* Popular Searches */}
-              <div>
-                <h3 className="mb-2 text-xs font-medium uppercase text-muted-foreground flex items-center gap-1">
-                  <TrendingUp className="h-3 w-3" />
-                  Popular Searches
-                </h3>
-                <div className="flex flex-wrap gap-2">
-                  {popularTerms.map((term, index) => (
-                    <Badge
-                      key={index}
-                      variant="secondary"
-                      className="cursor-pointer hover:bg-muted-foreground/20"
-                      onClick={() => handleSearch(term)}
-                    >
-                      {term}
-                    </Badge>
-                  ))}
+              {popularTerms.length > 0 && (
+                <div>
+                  <h3 className="mb-2 text-xs font-medium uppercase text-muted-foreground flex items-center gap-1">
+                    <TrendingUp className="h-3 w-3" />
+                    Popular Searches
+                  </h3>
+                  <div className="flex flex-wrap gap-2">
+                    {popularTerms.map((term, index) => (
+                      <Badge
+                        key={index}
+                        variant="secondary"
+                        className="cursor-pointer hover:bg-muted-foreground/20"
+                        onClick={() => handleSearch(term)}
+                      >
+                        {term}
+                      </Badge>
+                    ))}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
           )}
         </div>
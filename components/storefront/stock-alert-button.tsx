@@ -0,0 +1,73 @@
+"use client"
+
+import { useTransition } from "react"
+import { useRouter } from "next/navigation"
+
+import { Bell, BellOff, Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { toggleStockAlert } from "@/lib/actions/notifications"
+
+interface StockAlertButtonProps {
+  variantId: string
+  isSubscribed: boolean
+  onChange: (isSubscribed: boolean) => void
+  className?: string
+}
+
+/**
+ * Lets a signed-in customer ask to be told when an out of stock variant is
+ * available again.
+ */
+export function StockAlertButton({
+  variantId,
+  isSubscribed,
+  onChange,
+  className,
+}: StockAlertButtonProps) {
+  const router = useRouter()
+  const [isPending, startTransition] = useTransition()
+
+  const handleToggle = () => {
+    startTransition(async () => {
+      const result = await toggleStockAlert(variantId)
+
+      if (result.success) {
+        onChange(result.isSubscribed!)
+        toast.success(
+          result.isSubscribed
+            ? "We'll let you know when it's back in stock"
+            : "Back in stock alert removed",
+        )
+      } else {
+        toast.error(result.error || "Failed to update alert")
+        if (result.error?.includes("sign in")) {
+          router.push(
+            "/auth/login?callbackUrl=" +
+              encodeURIComponent(window.location.pathname),
+          )
+        }
+      }
+    })
+  }
+
+  return (
+    <Button
+      size="lg"
+      variant={isSubscribed ? "secondary" : "default"}
+      onClick={handleToggle}
+      disabled={isPending}
+      className={className}
+    >
+      {isPending ? (
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+      ) : isSubscribed ? (
+        <BellOff className="h-5 w-5 mr-2" />
+      ) : (
+        <Bell className="h-5 w-5 mr-2" />
+      )}
+      {isSubscribed ? "Cancel Stock Alert" : "Notify Me When Available"}
+    </Button>
+  )
+}
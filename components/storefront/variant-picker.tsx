@@ -0,0 +1,156 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+
+interface VariantOption {
+  id: string
+  name: string
+  values: { id: string; value: string; swatch: string | null }[]
+}
+
+interface PickerVariant {
+  id: string
+  isActive: boolean
+  optionValueIds: string[]
+  inventory: { quantity: number; reservedQuantity: number } | null
+}
+
+interface VariantPickerProps {
+  options: VariantOption[]
+  variants: PickerVariant[]
+  selectedVariantId: string
+  onChange: (variantId: string) => void
+}
+
+// Variants without an inventory row are not stock-tracked
+function isAvailable(variant: PickerVariant): boolean {
+  return (
+    variant.isActive &&
+    (!variant.inventory ||
+      variant.inventory.quantity - variant.inventory.reservedQuantity > 0)
+  )
+}
+
+export function VariantPicker({
+  options,
+  variants,
+  selectedVariantId,
+  onChange,
+}: VariantPickerProps) {
+  const activeVariants = variants.filter((v) => v.isActive)
+  const selected = activeVariants.find((v) => v.id === selectedVariantId)
+  const selectedValueIds = selected?.optionValueIds ?? []
+
+  // The variant a click on a value leads to: the combination with the other
+  // current selections if it can be bought, else the available variant with
+  // that value sharing the most selections
+  const targetFor = (option: VariantOption, valueId: string) => {
+    const otherIds = selectedValueIds.filter(
+      (id) => !option.values.some((v) => v.id === id),
+    )
+    const withValue = activeVariants.filter((v) =>
+      v.optionValueIds.includes(valueId),
+    )
+    const exact = withValue.find((v) =>
+      otherIds.every((id) => v.optionValueIds.includes(id)),
+    )
+    if (exact && isAvailable(exact)) return { variant: exact, exact: true }
+
+    const closest = withValue
+      .filter(isAvailable)
+      .map((v) => ({
+        variant: v,
+        score: otherIds.filter((id) => v.optionValueIds.includes(id)).length,
+      }))
+      .sort((a, b) => b.score - a.score)[0]?.variant
+
+    return { variant: closest ?? exact, exact: false }
+  }
+
+  return (
+    <div className="space-y-4">
+      {options.map((option) => {
+        const selectedValue = option.values.find((v) =>
+          selectedValueIds.includes(v.id),
+        )
+        const hasSwatches = option.values.some((v) => v.swatch)
+
+        return (
+          <div key={option.id} className="space-y-2">
+            <Label>
+              {option.name}
+              {selectedValue && (
+                <span className="font-normal text-muted-foreground">
+                  {selectedValue.value}
+                </span>
+              )}
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              {option.values.map((value) => {
+                const { variant, exact } = targetFor(option, value.id)
+                const isSelected = selectedValue?.id === value.id
+                // No variant with this value can be bought at all
+                const isDisabled = !variant || !isAvailable(variant)
+                // Buyable, but not together with the other selections
+                const isUnavailable = !isSelected && !exact
+
+                const handleClick = () => {
+                  if (variant && !isSelected) onChange(variant.id)
+                }
+
+                if (hasSwatches) {
+                  return (
+                    <button
+                      key={value.id}
+                      type="button"
+                      title={value.value}
+                      aria-label={value.value}
+                      aria-pressed={isSelected}
+                      disabled={isDisabled}
+                      onClick={handleClick}
+                      className={cn(
+                        "relative h-9 w-9 rounded-full border-2 p-0.5 transition-all",
+                        isSelected
+                          ? "border-primary ring-2 ring-primary/20"
+                          : "border-transparent hover:border-muted-foreground/50",
+                        (isDisabled || isUnavailable) && "opacity-40",
+                        isDisabled && "cursor-not-allowed",
+                      )}
+                    >
+                      <span
+                        className="block h-full w-full rounded-full border"
+                        style={{ backgroundColor: value.swatch ?? undefined }}
+                      />
+                    </button>
+                  )
+                }
+
+                return (
+                  <button
+                    key={value.id}
+                    type="button"
+                    aria-pressed={isSelected}
+                    disabled={isDisabled}
+                    onClick={handleClick}
+                    className={cn(
+                      "rounded-md border px-3 py-1.5 text-sm transition-colors",
+                      isSelected
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "hover:border-primary",
+                      (isDisabled || isUnavailable) &&
+                        "text-muted-foreground line-through",
+                      isDisabled && "cursor-not-allowed opacity-50",
+                    )}
+                  >
+                    {value.value}
+                  </button>
+                )
+              })}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
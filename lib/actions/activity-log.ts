@@ -20,6 +20,7 @@ export type ActivityAction =
   | "product.update"
   | "product.delete"
   | "product.status_change"
+  | "product.import"
   // Category actions
   | "category.create"
   | "category.update"
@@ -28,6 +29,12 @@ export type ActivityAction =
   | "order.update_status"
   | "order.cancel"
   | "order.refund"
+  // Shipment actions
+  | "shipment.create"
+  | "shipment.update"
+  | "shipment.ship"
+  | "shipment.deliver"
+  | "shipment.delete"
   // Inventory actions
   | "inventory.adjust"
   | "inventory.reserve"
@@ -35,12 +42,29 @@ export type ActivityAction =
   // Payment actions
   | "payment.verify"
   | "payment.refund"
+  | "payment.webhook_replay"
   // Review actions
   | "review.approve"
   | "review.reject"
   | "review.delete"
+  // Promotion actions
+  | "promotion.create"
+  | "promotion.update"
+  | "promotion.delete"
+  // Price campaign actions
+  | "price_campaign.create"
+  | "price_campaign.update"
+  | "price_campaign.delete"
+  // Return actions
+  | "return.approve"
+  | "return.reject"
+  | "return.receive"
+  | "return.complete"
   // Settings actions
   | "settings.update"
+  | "settings.email_test"
+  // Email actions
+  | "email.resend"
   // Session actions
   | "session.revoke"
   | "session.revoke_all"
@@ -11,6 +11,8 @@ import { db } from "@/lib/db"
 import { user } from "@/lib/db/schema/auth"
 import { getCookieName } from "@/lib/utils/cookies"
 
+import { mergeCartsOnLogin } from "./cart"
+
 /**
  * Check if a user should be treated as a staff user (has staff role)
  */
@@ -150,7 +152,9 @@ export async function handlePostLoginRedirect(callbackUrl: string = "/") {
     // Staff goes to admin
     redirect("/admin")
   } else {
-    // Regular customer - go to their destination
+    // Regular customer - keep what they added to the cart as a guest, then
+    // go to their destination (e.g. back to checkout)
+    await mergeCartsOnLogin(currentUser.id)
     redirect(callbackUrl)
   }
 }
@@ -190,6 +190,8 @@ export async function createStaffUser(input: CreateStaffInput) {
         name: input.name,
         email: input.email.toLowerCase(),
         password: temporaryPassword,
+        // Set at creation so the new account isn't sent a welcome email
+        invitedBy: session.user.id,
       },
       headers: await headers(),
     })
@@ -214,7 +216,6 @@ export async function createStaffUser(input: CreateStaffInput) {
     await sendEmail({
       to: input.email,
       template: "staff-invitation",
-      subject: "You've been invited to join IUS Shop",
       data: {
         name: input.name,
         email: input.email,
@@ -223,6 +224,7 @@ export async function createStaffUser(input: CreateStaffInput) {
         temporaryPassword,
         loginUrl: `${process.env.NEXT_PUBLIC_APP_URL}/auth/login`,
       },
+      userId: result.user.id,
     })
 
     // Log activity
@@ -479,13 +481,13 @@ export async function resetStaffPassword(userId: string) {
     await sendEmail({
       to: targetUser.email,
       template: "password-reset-by-admin",
-      subject: "Your password has been reset",
       data: {
         name: targetUser.name || "Staff Member",
         temporaryPassword,
         adminName: currentUser?.name || "An administrator",
         loginUrl: `${process.env.NEXT_PUBLIC_APP_URL}/auth/login`,
       },
+      userId,
     })
 
     // Log activity
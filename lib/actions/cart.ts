@@ -8,6 +8,12 @@ import { and, eq, sql } from "drizzle-orm"
 import { nanoid } from "nanoid"
 
 import { auth } from "@/lib/auth"
+import {
+  bundleWeight,
+  getAvailableStock,
+  getBundleContents,
+} from "@/lib/catalog/bundles"
+import { getPriceResolver } from "@/lib/catalog/price-campaigns"
 import { db } from "@/lib/db"
 import {
   cartItems,
@@ -16,6 +22,8 @@ import {
   products,
   productVariants,
 } from "@/lib/db/schema"
+import { availableQuantity } from "@/lib/inventory/reservations"
+import { bundleAvailability } from "@/lib/utils/bundles"
 
 const CART_SESSION_COOKIE = "cart_session_id"
 const CART_SESSION_EXPIRY = 30 * 24 * 60 * 60 * 1000 // 30 days
@@ -84,6 +92,36 @@ export async function getOrCreateCart() {
   return cart
 }
 
+/**
+ * Find the cart for the signed-in user or the guest cart session, without
+ * creating one
+ */
+export async function getCartForCurrentShopper() {
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  })
+
+  if (session?.user?.id) {
+    const [cart] = await db
+      .select()
+      .from(carts)
+      .where(eq(carts.userId, session.user.id))
+      .limit(1)
+    return cart
+  }
+
+  const cookieStore = await cookies()
+  const sessionId = cookieStore.get(CART_SESSION_COOKIE)?.value
+  if (!sessionId) return undefined
+
+  const [cart] = await db
+    .select()
+    .from(carts)
+    .where(eq(carts.sessionId, sessionId))
+    .limit(1)
+  return cart
+}
+
 /**
  * Get cart with items and product details
  */
@@ -100,15 +138,18 @@ export async function getCart() {
         name: productVariants.name,
         sku: productVariants.sku,
         price: productVariants.price,
+        weight: productVariants.weight,
       },
       product: {
         id: products.id,
         name: products.name,
         slug: products.slug,
         status: products.status,
+        categoryId: products.categoryId,
       },
+      // Available to sell, so the cart badges match checkout
       inventory: {
-        quantity: inventoryItems.quantity,
+        quantity: availableQuantity,
       },
     })
     .from(cartItems)
@@ -117,9 +158,39 @@ export async function getCart() {
     .leftJoin(inventoryItems, eq(inventoryItems.variantId, productVariants.id))
     .where(eq(cartItems.cartId, cart.id))
 
+  // Bundles sell from their components' stock and weigh what they hold
+  const bundles = await getBundleContents(items.map((item) => item.variant.id))
+
+  // Price at today's selling price, so the cart matches checkout
+  const resolve = await getPriceResolver()
+  const pricedItems = items.map((item) => {
+    const bundle = bundles.get(item.variant.id)
+    return {
+      ...item,
+      inventory: bundle
+        ? { quantity: bundleAvailability(bundle.components) }
+        : item.inventory,
+      variant: {
+        ...item.variant,
+        weight: bundle
+          ? bundleWeight(bundle, item.variant.weight)
+          : item.variant.weight,
+        price: resolve(
+          {
+            productId: item.product.id,
+            variantId: item.variant.id,
+            categoryId: item.product.categoryId,
+          },
+          item.variant.price,
+          null,
+        ).price,
+      },
+    }
+  })
+
   // Get primary image for each product
   const itemsWithImages = await Promise.all(
-    items.map(async (item) => {
+    pricedItems.map(async (item) => {
       const [image] = await db
         .select({ url: sql<string>`url` })
         .from(sql`product_images`)
@@ -145,11 +216,17 @@ export async function getCart() {
     0,
   )
 
+  // Total weight in kg (used for shipping estimates)
+  const weight = itemsWithImages.reduce((sum, item) => {
+    return sum + parseFloat(item.variant.weight ?? "0") * item.quantity
+  }, 0)
+
   return {
     id: cart.id,
     items: itemsWithImages,
     itemCount,
     subtotal,
+    weight,
   }
 }
 
@@ -169,6 +246,7 @@ export async function addToCart(variantId: string, quantity: number = 1) {
         product: {
           id: products.id,
           status: products.status,
+          categoryId: products.categoryId,
         },
       })
       .from(productVariants)
@@ -184,14 +262,9 @@ export async function addToCart(variantId: string, quantity: number = 1) {
       return { success: false as const, error: "Product is not available" }
     }
 
-    // Check stock
-    const [inventory] = await db
-      .select({ quantity: inventoryItems.quantity })
-      .from(inventoryItems)
-      .where(eq(inventoryItems.variantId, variantId))
-      .limit(1)
-
-    const availableStock = inventory?.quantity || 0
+    // Check stock (bundles count from their components)
+    const availableStock =
+      (await getAvailableStock([variantId])).get(variantId) ?? 0
 
     // Check existing cart item
     const [existingItem] = await db
@@ -222,12 +295,23 @@ export async function addToCart(variantId: string, quantity: number = 1) {
         })
         .where(eq(cartItems.id, existingItem.id))
     } else {
-      // Add new item
+      // Add new item at today's selling price
+      const resolve = await getPriceResolver()
+      const { price } = resolve(
+        {
+          productId: variant.product.id,
+          variantId: variant.id,
+          categoryId: variant.product.categoryId,
+        },
+        variant.price,
+        null,
+      )
+
       await db.insert(cartItems).values({
         cartId: cart.id,
         variantId,
         quantity,
-        priceAtAdd: variant.price,
+        priceAtAdd: price,
       })
     }
 
@@ -265,14 +349,9 @@ export async function updateCartItemQuantity(itemId: string, quantity: number) {
       // Remove item
       await db.delete(cartItems).where(eq(cartItems.id, itemId))
     } else {
-      // Check stock
-      const [inventory] = await db
-        .select({ quantity: inventoryItems.quantity })
-        .from(inventoryItems)
-        .where(eq(inventoryItems.variantId, item.variantId))
-        .limit(1)
-
-      const availableStock = inventory?.quantity || 0
+      // Check stock (bundles count from their components)
+      const availableStock =
+        (await getAvailableStock([item.variantId])).get(item.variantId) ?? 0
 
       if (quantity > availableStock) {
         return {
@@ -2,13 +2,16 @@
 
 import { revalidatePath } from "next/cache"
 
-import { and, asc, eq } from "drizzle-orm"
+import { and, asc, eq, isNull, ne } from "drizzle-orm"
 import { z } from "zod"
 
+import { logActivity } from "@/lib/actions/activity-log"
 import { requirePermission } from "@/lib/auth/rbac"
 import { db } from "@/lib/db"
 import { categories, products } from "@/lib/db/schema"
+import { refreshProductSearchIndex } from "@/lib/search/product-index"
 import { revalidateCategoryCaches } from "@/lib/utils/cache"
+import { buildCategoryTree, wouldCreateCycle } from "@/lib/utils/categories"
 
 // Schema for creating/updating a category
 const categorySchema = z.object({
@@ -40,34 +43,7 @@ export async function getCategories() {
     .from(categories)
     .orderBy(asc(categories.sortOrder), asc(categories.name))
 
-  // Build tree structure
-  const categoryMap = new Map<
-    string,
-    (typeof allCategories)[0] & { children: typeof allCategories }
-  >()
-  const rootCategories: ((typeof allCategories)[0] & {
-    children: typeof allCategories
-  })[] = []
-
-  // First pass: create map entries
-  for (const category of allCategories) {
-    categoryMap.set(category.id, { ...category, children: [] })
-  }
-
-  // Second pass: build tree
-  for (const category of allCategories) {
-    const categoryWithChildren = categoryMap.get(category.id)!
-    if (category.parentId) {
-      const parent = categoryMap.get(category.parentId)
-      if (parent) {
-        parent.children.push(categoryWithChildren)
-      }
-    } else {
-      rootCategories.push(categoryWithChildren)
-    }
-  }
-
-  return rootCategories
+  return buildCategoryTree(allCategories)
 }
 
 /**
@@ -78,7 +54,8 @@ export async function getCategoriesFlat() {
 }
 
 /**
- * Get active categories for storefront (hierarchical)
+ * Get active categories for storefront, nested to any depth. Subcategories
+ * of an inactive category are left out with it.
  */
 export async function getActiveCategories() {
   const allCategories = await db
@@ -87,34 +64,7 @@ export async function getActiveCategories() {
     .where(eq(categories.isActive, true))
     .orderBy(asc(categories.sortOrder), asc(categories.name))
 
-  // Build tree structure
-  const categoryMap = new Map<
-    string,
-    (typeof allCategories)[0] & { children: typeof allCategories }
-  >()
-  const rootCategories: ((typeof allCategories)[0] & {
-    children: typeof allCategories
-  })[] = []
-
-  // First pass: create map entries
-  for (const category of allCategories) {
-    categoryMap.set(category.id, { ...category, children: [] })
-  }
-
-  // Second pass: build tree
-  for (const category of allCategories) {
-    const categoryWithChildren = categoryMap.get(category.id)!
-    if (category.parentId) {
-      const parent = categoryMap.get(category.parentId)
-      if (parent) {
-        parent.children.push(categoryWithChildren)
-      }
-    } else {
-      rootCategories.push(categoryWithChildren)
-    }
-  }
-
-  return rootCategories
+  return buildCategoryTree(allCategories)
 }
 
 /**
@@ -199,6 +149,17 @@ export async function updateCategory(
 ) {
   await requirePermission("product.write")
 
+  if (data.parentId) {
+    const allCategories = await db
+      .select({ id: categories.id, parentId: categories.parentId })
+      .from(categories)
+    if (wouldCreateCycle(allCategories, id, data.parentId)) {
+      throw new Error(
+        "A category cannot be moved under itself or one of its subcategories",
+      )
+    }
+  }
+
   const [category] = await db
     .update(categories)
     .set({
@@ -208,6 +169,15 @@ export async function updateCategory(
     .where(eq(categories.id, id))
     .returning()
 
+  // Category names are part of their products' search documents
+  if (data.name !== undefined) {
+    const categoryProducts = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(eq(products.categoryId, id))
+    await refreshProductSearchIndex(categoryProducts.map((p) => p.id))
+  }
+
   revalidatePath("/admin/categories")
   revalidatePath("/categories")
   revalidatePath(`/categories/${category.slug}`)
@@ -215,6 +185,102 @@ export async function updateCategory(
   return category
 }
 
+const moveCategorySchema = z.object({
+  id: z.string().uuid(),
+  parentId: z.string().uuid().nullable(),
+  index: z.number().int().min(0), // Position among the new siblings
+})
+
+/**
+ * Move a category to a new parent and position (Admin/Manager only). The
+ * siblings at the destination are renumbered so `sortOrder` stays dense.
+ */
+export async function moveCategory(input: z.infer<typeof moveCategorySchema>) {
+  try {
+    await requirePermission("product.write")
+
+    const parsed = moveCategorySchema.safeParse(input)
+    if (!parsed.success) {
+      return { success: false as const, error: "Invalid move" }
+    }
+    const { id, parentId, index } = parsed.data
+
+    const allCategories = await db
+      .select({
+        id: categories.id,
+        name: categories.name,
+        parentId: categories.parentId,
+        sortOrder: categories.sortOrder,
+      })
+      .from(categories)
+
+    const category = allCategories.find((c) => c.id === id)
+    if (!category) {
+      return { success: false as const, error: "Category not found" }
+    }
+    if (parentId && !allCategories.some((c) => c.id === parentId)) {
+      return { success: false as const, error: "Parent category not found" }
+    }
+    if (wouldCreateCycle(allCategories, id, parentId)) {
+      return {
+        success: false as const,
+        error:
+          "A category cannot be moved under itself or one of its subcategories",
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      const siblings = await tx
+        .select({ id: categories.id })
+        .from(categories)
+        .where(
+          and(
+            parentId
+              ? eq(categories.parentId, parentId)
+              : isNull(categories.parentId),
+            ne(categories.id, id),
+          ),
+        )
+        .orderBy(asc(categories.sortOrder), asc(categories.name))
+
+      const ordered = siblings.map((s) => s.id)
+      ordered.splice(Math.min(index, ordered.length), 0, id)
+
+      for (const [sortOrder, siblingId] of ordered.entries()) {
+        await tx
+          .update(categories)
+          .set(
+            siblingId === id
+              ? { parentId, sortOrder, updatedAt: new Date() }
+              : { sortOrder },
+          )
+          .where(eq(categories.id, siblingId))
+      }
+    })
+
+    if (category.parentId !== parentId) {
+      await logActivity({
+        action: "category.update",
+        entityType: "category",
+        entityId: id,
+        details: {
+          name: category.name,
+          fromParentId: category.parentId,
+          toParentId: parentId,
+        },
+      })
+    }
+
+    revalidatePath("/admin/categories")
+    revalidatePath("/categories")
+    revalidateCategoryCaches()
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to move category:", error)
+    return { success: false as const, error: "Failed to move category" }
+  }
+}
+
 /**
  * Delete a category (Admin only)
  */
@@ -1,35 +1,75 @@
 "use server"
 
 import { revalidatePath } from "next/cache"
-import { cookies } from "next/headers"
+import { cookies, headers } from "next/headers"
 
-import { eq } from "drizzle-orm"
+import { parseSetCookieHeader } from "better-auth/cookies"
+import { and, eq, isNull, or, sql } from "drizzle-orm"
 import { nanoid } from "nanoid"
 
+import { auth } from "@/lib/auth"
 import { getServerSession } from "@/lib/auth/rbac"
-import { db } from "@/lib/db"
+import { bundleWeight, getBundleContents } from "@/lib/catalog/bundles"
+import { getPriceResolver } from "@/lib/catalog/price-campaigns"
+import { type Database, db } from "@/lib/db"
 import {
   cartItems,
-  carts,
   customerAddresses,
   customerProfiles,
-  inventoryItems,
-  inventoryMovements,
   orderItems,
   orders,
   orderStatusHistory,
+  promotionRedemptions,
+  promotions,
+  user,
 } from "@/lib/db/schema"
+import { getOrderEmailData } from "@/lib/email/order-email-data"
+import { sendOrderConfirmationEmail } from "@/lib/email/order-notifications"
+import { reserveOrderStock } from "@/lib/inventory/reservations"
 import {
   type AddressForCheckout,
-  calculateOrderTotals,
   type CartValidationResult,
+  type CheckoutAccountInput,
+  type CheckoutAccountResult,
+  checkoutAccountSchema,
   type CheckoutData,
   checkoutDataSchema,
+  type CheckoutQuote,
+  type CheckoutQuoteInput,
   type CheckoutSummary,
   type CreateOrderResult,
 } from "@/lib/schemas/checkout"
+import { getPricingConfig } from "@/lib/shipping/pricing-config"
+import { allocateBundlePrice, bundleAvailability } from "@/lib/utils/bundles"
+import { calculateOrderTotals } from "@/lib/utils/pricing"
+import {
+  calculatePromotionDiscount,
+  normalizePromotionCode,
+} from "@/lib/utils/promotions"
+import { getSettingValue } from "@/lib/utils/settings-config"
+import { DEFAULT_VARIANT_NAME } from "@/lib/utils/variants"
+
+import { getCartForCurrentShopper, mergeCartsOnLogin } from "./cart"
+import { getSiteSettings } from "./settings"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
 
-const CART_SESSION_COOKIE = "cart_session"
+/**
+ * Errors that are safe to show to the customer
+ */
+class CheckoutError extends Error {}
+
+// ============================================
+// Guest Checkout
+// ============================================
+
+/**
+ * Whether shoppers can check out without signing in
+ */
+export async function isGuestCheckoutEnabled(): Promise<boolean> {
+  const settings = await getSiteSettings()
+  return getSettingValue(settings, "enable_guest_checkout") === "true"
+}
 
 // ============================================
 // Get User Addresses
@@ -77,21 +117,7 @@ export async function getUserAddresses(): Promise<AddressForCheckout[]> {
 // ============================================
 
 export async function validateCartForCheckout(): Promise<CartValidationResult> {
-  const session = await getServerSession()
-  const cookieStore = await cookies()
-  const guestCartId = cookieStore.get(CART_SESSION_COOKIE)?.value
-
-  // Find cart
-  let cart
-  if (session?.user?.id) {
-    cart = await db.query.carts.findFirst({
-      where: eq(carts.userId, session.user.id),
-    })
-  } else if (guestCartId) {
-    cart = await db.query.carts.findFirst({
-      where: eq(carts.id, guestCartId),
-    })
-  }
+  const cart = await getCartForCurrentShopper()
 
   if (!cart) {
     return { success: false, errors: ["Cart not found"] }
@@ -117,12 +143,21 @@ export async function validateCartForCheckout(): Promise<CartValidationResult> {
   const errors: string[] = []
   const validatedItems = []
   let subtotal = 0
+  const resolve = await getPriceResolver()
+  const bundles = await getBundleContents(items.map((item) => item.variant.id))
 
   for (const item of items) {
-    const availableQuantity = item.variant.inventory
-      ? item.variant.inventory.quantity -
-        item.variant.inventory.reservedQuantity
-      : 0
+    // Bundles sell from their components' stock
+    const bundle = bundles.get(item.variant.id)
+    const availableQuantity = bundle
+      ? bundleAvailability(bundle.components)
+      : item.variant.inventory
+        ? item.variant.inventory.quantity -
+          item.variant.inventory.reservedQuantity
+        : 0
+    const weight = bundle
+      ? bundleWeight(bundle, item.variant.weight)
+      : item.variant.weight
 
     // Check if product is still active
     if (item.variant.product.status !== "active") {
@@ -149,8 +184,17 @@ export async function validateCartForCheckout(): Promise<CartValidationResult> {
       }
     }
 
-    const price = parseFloat(item.variant.price)
-    subtotal += price * item.quantity
+    // Campaign price if one is running; createOrder charges this
+    const { price: variantPrice } = resolve(
+      {
+        productId: item.variant.product.id,
+        variantId: item.variant.id,
+        categoryId: item.variant.product.categoryId,
+      },
+      item.variant.price,
+      null,
+    )
+    subtotal += parseFloat(variantPrice) * item.quantity
 
     validatedItems.push({
       id: item.id,
@@ -158,12 +202,14 @@ export async function validateCartForCheckout(): Promise<CartValidationResult> {
       variantId: item.variant.id,
       variantName: item.variant.name,
       variantSku: item.variant.sku,
-      variantPrice: item.variant.price,
+      variantPrice,
       productId: item.variant.product.id,
       productName: item.variant.product.name,
       productSlug: item.variant.product.slug,
       productStatus: item.variant.product.status,
       availableQuantity,
+      categoryId: item.variant.product.categoryId,
+      weight: weight ? parseFloat(weight) : null,
     })
   }
 
@@ -179,6 +225,164 @@ export async function validateCartForCheckout(): Promise<CartValidationResult> {
   }
 }
 
+// ============================================
+// Checkout Totals
+// ============================================
+
+function getCartWeight(
+  items: Array<{ weight: number | null; quantity: number }>,
+) {
+  return items.reduce(
+    (sum, item) => sum + (item.weight ?? 0) * item.quantity,
+    0,
+  )
+}
+
+type ValidatedCart = NonNullable<CartValidationResult["cart"]>
+
+/**
+ * Look up a promotion code and work out its discount for the cart.
+ * Pass a transaction with `lock` when redeeming so usage limits hold
+ * under concurrent checkouts.
+ */
+async function resolvePromotion(
+  code: string,
+  cart: ValidatedCart,
+  customer: { userId?: string | null; email?: string },
+  options: { executor?: Database | Transaction; lock?: boolean } = {},
+) {
+  const executor = options.executor ?? db
+  const query = executor
+    .select()
+    .from(promotions)
+    .where(eq(promotions.code, normalizePromotionCode(code)))
+    .limit(1)
+  const [promotion] = options.lock ? await query.for("update") : await query
+
+  if (!promotion) {
+    return { success: false as const, error: "Invalid promotion code" }
+  }
+
+  const result = calculatePromotionDiscount(
+    {
+      code: promotion.code,
+      type: promotion.type,
+      value: parseFloat(promotion.value),
+      maxDiscount: promotion.maxDiscount
+        ? parseFloat(promotion.maxDiscount)
+        : null,
+      minSubtotal: promotion.minSubtotal
+        ? parseFloat(promotion.minSubtotal)
+        : null,
+      productIds: promotion.productIds,
+      categoryIds: promotion.categoryIds,
+      startsAt: promotion.startsAt,
+      endsAt: promotion.endsAt,
+      isActive: promotion.isActive,
+    },
+    cart.items.map((item) => ({
+      productId: item.productId,
+      categoryId: item.categoryId,
+      price: parseFloat(item.variantPrice),
+      quantity: item.quantity,
+    })),
+  )
+
+  if (!result.success) {
+    return result
+  }
+
+  if (
+    promotion.usageLimit !== null &&
+    promotion.usageCount >= promotion.usageLimit
+  ) {
+    return {
+      success: false as const,
+      error: "This code has reached its usage limit",
+    }
+  }
+
+  // Per-customer limit matches on account or email (guests)
+  const customerConditions = []
+  if (customer.userId) {
+    customerConditions.push(eq(promotionRedemptions.userId, customer.userId))
+  }
+  if (customer.email) {
+    customerConditions.push(
+      sql`lower(${promotionRedemptions.customerEmail}) = ${customer.email.toLowerCase()}`,
+    )
+  }
+
+  if (
+    promotion.usageLimitPerCustomer !== null &&
+    customerConditions.length > 0
+  ) {
+    const [usage] = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(promotionRedemptions)
+      .where(
+        and(
+          eq(promotionRedemptions.promotionId, promotion.id),
+          isNull(promotionRedemptions.releasedAt),
+          or(...customerConditions),
+        ),
+      )
+
+    if (usage.count >= promotion.usageLimitPerCustomer) {
+      return {
+        success: false as const,
+        error: "You have already used this code",
+      }
+    }
+  }
+
+  return { ...result, promotion }
+}
+
+/**
+ * Quote totals for the current cart and destination.
+ * Uses the same pricing engine as createOrder so the UI never drifts.
+ */
+export async function getCheckoutQuote(
+  input: CheckoutQuoteInput,
+): Promise<CheckoutQuote | null> {
+  const cartValidation = await validateCartForCheckout()
+  if (!cartValidation.cart) {
+    return null
+  }
+
+  const cart = cartValidation.cart
+  const { promotionCode, email, ...pricingInput } = input
+
+  let promotion: Awaited<ReturnType<typeof resolvePromotion>> | null = null
+  if (promotionCode?.trim()) {
+    const session = await getServerSession()
+    promotion = await resolvePromotion(promotionCode, cart, {
+      userId: session?.user?.id,
+      email: session?.user?.email ?? email,
+    })
+  }
+
+  const totals = calculateOrderTotals(
+    {
+      ...pricingInput,
+      subtotal: cart.subtotal,
+      weight: getCartWeight(cart.items),
+      discount: promotion?.success ? promotion.discount : 0,
+      freeShipping: promotion?.success ? promotion.freeShipping : false,
+    },
+    await getPricingConfig(),
+  )
+
+  return {
+    ...totals,
+    promotion: promotion?.success
+      ? { code: promotion.promotion.code, name: promotion.promotion.name }
+      : null,
+    promotionError: promotion && !promotion.success ? promotion.error : null,
+  }
+}
+
 // ============================================
 // Create Order
 // ============================================
@@ -205,11 +409,22 @@ export async function createOrder(
   }
 
   const session = await getServerSession()
+  if (!session?.user && !(await isGuestCheckoutEnabled())) {
+    return {
+      success: false,
+      error: "Please sign in to place your order",
+    }
+  }
+
   const cart = cartValidation.cart
-  const totals = calculateOrderTotals(
-    cart.subtotal,
-    checkoutData.shippingMethod,
-  )
+  const pricingConfig = await getPricingConfig()
+
+  if (checkoutData.paymentMethod === "cod" && !pricingConfig.codEnabled) {
+    return {
+      success: false,
+      error: "Cash on delivery is not available",
+    }
+  }
 
   // Generate order number
   const orderNumber = `ORD-${Date.now().toString(36).toUpperCase()}-${nanoid(4).toUpperCase()}`
@@ -230,7 +445,38 @@ export async function createOrder(
   try {
     // Create order in transaction
     const result = await db.transaction(async (tx) => {
-      // 1. Create order
+      // 1. Apply promotion (row locked so usage limits hold)
+      const promotion = checkoutData.promotionCode
+        ? await resolvePromotion(
+            checkoutData.promotionCode,
+            cart,
+            {
+              userId: session?.user?.id,
+              email: checkoutData.contact.email,
+            },
+            { executor: tx, lock: true },
+          )
+        : null
+
+      if (promotion && !promotion.success) {
+        throw new CheckoutError(promotion.error)
+      }
+
+      const totals = calculateOrderTotals(
+        {
+          subtotal: cart.subtotal,
+          weight: getCartWeight(cart.items),
+          discount: promotion?.discount ?? 0,
+          freeShipping: promotion?.freeShipping ?? false,
+          shippingMethod: checkoutData.shippingMethod,
+          paymentMethod: checkoutData.paymentMethod,
+          country: checkoutData.shipping.country,
+          state: checkoutData.shipping.state,
+        },
+        pricingConfig,
+      )
+
+      // 2. Create order
       const [order] = await tx
         .insert(orders)
         .values({
@@ -240,10 +486,12 @@ export async function createOrder(
           customerPhone: checkoutData.contact.phone || null,
           customerName: checkoutData.shipping.recipientName,
           status: "draft", // Initial status
-          subtotal: cart.subtotal.toFixed(2),
+          shippingMethod: checkoutData.shippingMethod,
+          subtotal: totals.subtotal.toFixed(2),
           shippingCost: totals.shipping.toFixed(2),
           taxAmount: totals.tax.toFixed(2),
-          discountAmount: "0.00",
+          discountAmount: totals.discount.toFixed(2),
+          codFee: totals.codFee.toFixed(2),
           total: totals.total.toFixed(2),
           shippingAddress,
           billingAddress: shippingAddress, // Same for billing for now
@@ -251,8 +499,71 @@ export async function createOrder(
         })
         .returning()
 
-      // 2. Create order items
+      // 3. Record redemption against the order; cancelling it gives the
+      // use back
+      if (promotion) {
+        await tx.insert(promotionRedemptions).values({
+          promotionId: promotion.promotion.id,
+          orderId: order.id,
+          userId: session?.user?.id || null,
+          customerEmail: checkoutData.contact.email,
+          code: promotion.promotion.code,
+          discountAmount: (totals.discount + totals.shippingDiscount).toFixed(
+            2,
+          ),
+        })
+
+        await tx
+          .update(promotions)
+          .set({
+            usageCount: sql`${promotions.usageCount} + 1`,
+            updatedAt: new Date(),
+          })
+          .where(eq(promotions.id, promotion.promotion.id))
+      }
+
+      // 4. Create order items. A bundle is written as its component lines,
+      // priced to add up to the bundle price, so stock, shipments and
+      // refunds all work per component
+      const bundles = await getBundleContents(
+        cart.items.map((item) => item.variantId),
+        tx,
+      )
       for (const item of cart.items) {
+        const bundle = bundles.get(item.variantId)
+        if (bundle) {
+          const unitPrices = allocateBundlePrice(
+            parseFloat(item.variantPrice),
+            bundle.components.map((component) => ({
+              price: parseFloat(component.price),
+              quantity: component.quantity,
+            })),
+          )
+          const bundleName =
+            item.variantName === DEFAULT_VARIANT_NAME
+              ? item.productName
+              : `${item.productName} (${item.variantName})`
+
+          await tx.insert(orderItems).values(
+            bundle.components.map((component, index) => {
+              const quantity = component.quantity * item.quantity
+              return {
+                orderId: order.id,
+                variantId: component.variantId,
+                bundleVariantId: item.variantId,
+                bundleName,
+                quantity,
+                unitPrice: unitPrices[index].toFixed(2),
+                subtotal: (unitPrices[index] * quantity).toFixed(2),
+                productName: component.productName,
+                variantName: component.variantName,
+                sku: component.sku,
+              }
+            }),
+          )
+          continue
+        }
+
         await tx.insert(orderItems).values({
           orderId: order.id,
           variantId: item.variantId,
@@ -264,40 +575,20 @@ export async function createOrder(
           variantName: item.variantName,
           sku: item.variantSku,
         })
+      }
 
-        // 3. Reserve inventory
-        const [inventory] = await tx
-          .select()
-          .from(inventoryItems)
-          .where(eq(inventoryItems.variantId, item.variantId))
-          .for("update")
-
-        if (inventory) {
-          const newReserved = inventory.reservedQuantity + item.quantity
-
-          await tx
-            .update(inventoryItems)
-            .set({
-              reservedQuantity: newReserved,
-              updatedAt: new Date(),
-            })
-            .where(eq(inventoryItems.id, inventory.id))
-
-          // Record inventory movement
-          await tx.insert(inventoryMovements).values({
-            inventoryItemId: inventory.id,
-            type: "reserved",
-            quantity: -item.quantity,
-            previousQuantity: inventory.quantity - inventory.reservedQuantity,
-            newQuantity: inventory.quantity - newReserved,
-            referenceType: "order",
-            referenceId: order.id,
-            notes: `Reserved for order ${orderNumber}`,
-          })
-        }
+      // 5. Reserve inventory; the cart was checked without locks, so
+      // another order may have taken the last units since
+      const reservation = await reserveOrderStock(tx, order.id, {
+        notes: `Reserved for order ${orderNumber}`,
+        performedBy: session?.user?.id || null,
+      })
+
+      if (!reservation.success) {
+        throw new CheckoutError(reservation.error)
       }
 
-      // 4. Add order status history
+      // 6. Add order status history
       await tx.insert(orderStatusHistory).values({
         orderId: order.id,
         fromStatus: null,
@@ -306,10 +597,10 @@ export async function createOrder(
         changedBy: session?.user?.id || null,
       })
 
-      // 5. Delete cart items (effectively marks cart as converted)
+      // 7. Delete cart items (effectively marks cart as converted)
       await tx.delete(cartItems).where(eq(cartItems.cartId, cart.id))
 
-      // 6. Save address if requested and user is logged in
+      // 8. Save address if requested and user is logged in
       if (
         session?.user?.id &&
         checkoutData.shipping.saveAddress &&
@@ -356,12 +647,26 @@ export async function createOrder(
     revalidatePath("/orders")
     revalidatePath("/admin/orders")
 
+    // The order is placed either way; guests rely on this email's link to
+    // find their order again
+    try {
+      const orderData = await getOrderEmailData(result.id)
+      if (orderData) {
+        await sendOrderConfirmationEmail(orderData)
+      }
+    } catch (error) {
+      console.error("Failed to send order confirmation email:", error)
+    }
+
     return {
       success: true,
       orderId: result.id,
       orderNumber: result.orderNumber,
     }
   } catch (error) {
+    if (error instanceof CheckoutError) {
+      return { success: false, error: error.message }
+    }
     console.error("Failed to create order:", error)
     return {
       success: false,
@@ -371,26 +676,137 @@ export async function createOrder(
 }
 
 // ============================================
-// Get Checkout Summary
+// Create Account at Checkout
 // ============================================
 
-export async function getCheckoutSummary(): Promise<CheckoutSummary | null> {
+/**
+ * Sign a guest up part-way through checkout. Creates the user, their
+ * customer profile and a default address from the shipping form, signs
+ * them in and moves their cart over, so the order they place next is
+ * already in their account. When the account must verify its email before
+ * signing in, the guest cart is left alone and checkout continues as a
+ * guest.
+ */
+export async function createCheckoutAccount(
+  input: CheckoutAccountInput,
+): Promise<CheckoutAccountResult> {
+  const validation = checkoutAccountSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error.errors[0]?.message || "Invalid account details",
+    }
+  }
+
+  const data = validation.data
+  const email = data.email.toLowerCase()
+
   const session = await getServerSession()
-  const cookieStore = await cookies()
-  const guestCartId = cookieStore.get(CART_SESSION_COOKIE)?.value
-
-  // Find cart
-  let cart
-  if (session?.user?.id) {
-    cart = await db.query.carts.findFirst({
-      where: eq(carts.userId, session.user.id),
+  if (session?.user) {
+    return { success: false, error: "You are already signed in" }
+  }
+
+  const existingUser = await db.query.user.findFirst({
+    where: eq(user.email, email),
+  })
+  if (existingUser) {
+    return {
+      success: false,
+      error: "An account with this email already exists. Please sign in.",
+    }
+  }
+
+  let userId: string
+  let signedIn: boolean
+  try {
+    const result = await auth.api.signUpEmail({
+      body: { name: data.name, email, password: data.password },
+      headers: await headers(),
+      returnHeaders: true,
     })
-  } else if (guestCartId) {
-    cart = await db.query.carts.findFirst({
-      where: eq(carts.id, guestCartId),
+    userId = result.response.user.id
+    // No session when the account has to verify its email first
+    signedIn = !!result.response.token
+
+    // auth.api only returns the session cookie; set it on this response so
+    // the browser is signed in when the action returns
+    const setCookie = result.headers.get("set-cookie")
+    if (signedIn && setCookie) {
+      const cookieStore = await cookies()
+      parseSetCookieHeader(setCookie).forEach((cookie, name) => {
+        cookieStore.set(name, decodeURIComponent(cookie.value), {
+          maxAge: cookie["max-age"],
+          path: cookie.path,
+          domain: cookie.domain,
+          httpOnly: cookie.httponly,
+          secure: cookie.secure,
+          sameSite: cookie.samesite,
+        })
+      })
+    }
+  } catch (error) {
+    console.error("Failed to create checkout account:", error)
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to create account",
+    }
+  }
+
+  // The account exists by now; if saving the address fails, checkout
+  // carries on with the address typed into the form
+  const { shipping } = data
+  let addressId: string | undefined
+  try {
+    addressId = await db.transaction(async (tx) => {
+      const [profile] = await tx
+        .insert(customerProfiles)
+        .values({ userId, phone: shipping.phone })
+        .returning({ id: customerProfiles.id })
+
+      const [address] = await tx
+        .insert(customerAddresses)
+        .values({
+          customerId: profile.id,
+          type: "shipping",
+          recipientName: shipping.recipientName,
+          phone: shipping.phone,
+          addressLine1: shipping.addressLine1,
+          addressLine2: shipping.addressLine2 || null,
+          city: shipping.city,
+          state: shipping.state || null,
+          postalCode: shipping.postalCode,
+          country: shipping.country,
+          instructions: shipping.instructions || null,
+          isDefault: true,
+        })
+        .returning({ id: customerAddresses.id })
+
+      return address.id
     })
+  } catch (error) {
+    console.error("Failed to save checkout account address:", error)
+  }
+
+  // Without a session the shopper is still a guest, so the guest cart and
+  // the typed address carry the checkout on
+  if (!signedIn) {
+    return { success: true, signedIn: false }
   }
 
+  await mergeCartsOnLogin(userId)
+  revalidatePath("/checkout")
+
+  return { success: true, signedIn: true, addressId }
+}
+
+// ============================================
+// Get Checkout Summary
+// ============================================
+
+export async function getCheckoutSummary(): Promise<CheckoutSummary | null> {
+  const cart = await getCartForCurrentShopper()
+
   if (!cart) {
     return null
   }
@@ -419,9 +835,29 @@ export async function getCheckoutSummary(): Promise<CheckoutSummary | null> {
   }
 
   let subtotal = 0
+  let weight = 0
+  const resolve = await getPriceResolver()
+  const bundles = await getBundleContents(items.map((item) => item.variant.id))
   const formattedItems = items.map((item) => {
-    const price = parseFloat(item.variant.price)
+    const bundle = bundles.get(item.variant.id)
+    const price = parseFloat(
+      resolve(
+        {
+          productId: item.variant.product.id,
+          variantId: item.variant.id,
+          categoryId: item.variant.product.categoryId,
+        },
+        item.variant.price,
+        null,
+      ).price,
+    )
     subtotal += price * item.quantity
+    weight +=
+      parseFloat(
+        (bundle
+          ? bundleWeight(bundle, item.variant.weight)
+          : item.variant.weight) ?? "0",
+      ) * item.quantity
 
     return {
       id: item.id,
@@ -433,9 +869,23 @@ export async function getCheckoutSummary(): Promise<CheckoutSummary | null> {
     }
   })
 
+  // Estimate against the default address until the customer picks one
+  const defaultAddress = (await getUserAddresses()).find((a) => a.isDefault)
+  const totals = calculateOrderTotals(
+    {
+      subtotal,
+      weight,
+      shippingMethod: "standard",
+      country: defaultAddress?.country,
+      state: defaultAddress?.state ?? undefined,
+    },
+    await getPricingConfig(),
+  )
+
   return {
     items: formattedItems,
     subtotal,
     itemCount: formattedItems.reduce((sum, item) => sum + item.quantity, 0),
+    totals,
   }
 }
@@ -1,6 +1,9 @@
 "use server"
 
+import { revalidatePath } from "next/cache"
+
 import { and, desc, eq, inArray, sql } from "drizzle-orm"
+import { z } from "zod"
 
 import { getServerSession, requireAuth } from "@/lib/auth/rbac"
 import { db } from "@/lib/db"
@@ -10,7 +13,24 @@ import {
   orderStatusHistory,
   payments,
   productImages,
+  shipmentItems,
+  shipments,
 } from "@/lib/db/schema"
+import { getOrderEmailData } from "@/lib/email/order-email-data"
+import {
+  sendOrderAccessEmail,
+  sendOrderCancelledEmail,
+} from "@/lib/email/order-notifications"
+import { releaseOrderReservations } from "@/lib/inventory/reservations"
+import {
+  claimGuestOrders,
+  createOrderAccessPath,
+  getOrderByAccessToken,
+  LOOKUP_LINK_TTL,
+} from "@/lib/orders/guest-access"
+import { releaseOrderPromotion } from "@/lib/orders/promotions"
+import { getRefundablePayment, issueRefund } from "@/lib/payments/refunds"
+import { getCarrierName } from "@/lib/utils/shipments"
 
 // ============================================
 // Get Customer Orders
@@ -124,6 +144,11 @@ export async function getCustomerOrder(orderId: string) {
     return null
   }
 
+  return getOrderDetails(order)
+}
+
+// Items, status history and payment of an order the caller may see
+async function getOrderDetails(order: typeof orders.$inferSelect) {
   // Get order items
   const items = await db
     .select({
@@ -134,10 +159,11 @@ export async function getCustomerOrder(orderId: string) {
       productName: orderItems.productName,
       variantName: orderItems.variantName,
       sku: orderItems.sku,
+      bundleName: orderItems.bundleName,
       variantId: orderItems.variantId,
     })
     .from(orderItems)
-    .where(eq(orderItems.orderId, orderId))
+    .where(eq(orderItems.orderId, order.id))
 
   // Get status history
   const history = await db
@@ -149,12 +175,12 @@ export async function getCustomerOrder(orderId: string) {
       createdAt: orderStatusHistory.createdAt,
     })
     .from(orderStatusHistory)
-    .where(eq(orderStatusHistory.orderId, orderId))
+    .where(eq(orderStatusHistory.orderId, order.id))
     .orderBy(desc(orderStatusHistory.createdAt))
 
   // Get payment info
   const payment = await db.query.payments.findFirst({
-    where: eq(payments.orderId, orderId),
+    where: eq(payments.orderId, order.id),
   })
 
   return {
@@ -172,46 +198,120 @@ export async function getCustomerOrder(orderId: string) {
 export async function cancelCustomerOrder(orderId: string, reason?: string) {
   const session = await requireAuth()
 
-  // Get order with ownership check
-  const order = await db.query.orders.findFirst({
-    where: and(eq(orders.id, orderId), eq(orders.userId, session.user.id)),
-  })
+  // Only allow cancellation of orders in certain statuses
+  const cancellableStatuses = ["draft", "pending_payment", "paid"]
 
-  if (!order) {
+  const [existing] = await db
+    .select({ status: orders.status })
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.userId, session.user.id)))
+    .limit(1)
+
+  if (!existing) {
     return { success: false, error: "Order not found" }
   }
 
-  // Only allow cancellation of orders in certain statuses
-  const cancellableStatuses = ["draft", "pending_payment", "paid"]
-  if (!cancellableStatuses.includes(order.status)) {
+  if (!cancellableStatuses.includes(existing.status)) {
     return {
       success: false,
       error: "This order cannot be cancelled. Please contact support.",
     }
   }
 
-  // Update order status
-  await db
-    .update(orders)
-    .set({
-      status: "cancelled",
-      updatedAt: new Date(),
+  // Paid orders are refunded in full, and their sold stock returned, before
+  // they are cancelled, so a failed refund leaves the order as it was
+  const refunded =
+    existing.status === "paid" && !!(await getRefundablePayment(orderId))
+
+  if (refunded) {
+    const refund = await issueRefund({
+      orderId,
+      fullRefund: true,
+      reason: reason || "Cancelled by customer",
+      restock: true,
+      keepOrderStatus: true,
+      performedBy: session.user.id,
     })
-    .where(eq(orders.id, orderId))
-
-  // Record status change
-  await db.insert(orderStatusHistory).values({
-    orderId,
-    fromStatus: order.status,
-    toStatus: "cancelled",
-    notes: reason
-      ? `Customer requested cancellation: ${reason}`
-      : "Cancelled by customer",
-    changedBy: session.user.id,
+
+    if (!refund.success) {
+      console.error("Refund for customer cancellation failed:", refund.error)
+      return {
+        success: false,
+        error:
+          "We couldn't refund this order, so it was not cancelled. Please contact support.",
+      }
+    }
+  }
+
+  // Re-check under lock: a payment webhook may change the status at any time
+  const result = await db.transaction(async (tx) => {
+    const [order] = await tx
+      .select({ status: orders.status })
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.userId, session.user.id)))
+      .for("update")
+
+    if (!order) {
+      return { success: false as const, error: "Order not found" }
+    }
+
+    if (!cancellableStatuses.includes(order.status)) {
+      // Staff moved the order on while its refund went through
+      if (refunded) {
+        await tx.insert(orderStatusHistory).values({
+          orderId,
+          fromStatus: order.status,
+          toStatus: order.status,
+          notes:
+            "Refunded for a customer cancellation, but the order was no longer cancellable - review required",
+          changedBy: session.user.id,
+        })
+      }
+
+      return {
+        success: false as const,
+        error: "This order cannot be cancelled. Please contact support.",
+      }
+    }
+
+    // Update order status
+    await tx
+      .update(orders)
+      .set({
+        status: "cancelled",
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, orderId))
+
+    // Record status change
+    await tx.insert(orderStatusHistory).values({
+      orderId,
+      fromStatus: order.status,
+      toStatus: "cancelled",
+      notes: reason
+        ? `Customer requested cancellation: ${reason}`
+        : "Cancelled by customer",
+      changedBy: session.user.id,
+    })
+
+    // Unpaid orders still hold their stock in reserve
+    await releaseOrderReservations(tx, orderId, {
+      notes: "Released - Cancelled by customer",
+      performedBy: session.user.id,
+    })
+    await releaseOrderPromotion(tx, orderId)
+
+    return { success: true as const }
   })
 
-  // TODO: Release reserved inventory if order was paid
-  // TODO: Initiate refund if payment was made
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  const orderData = await getOrderEmailData(orderId)
+  if (orderData) {
+    await sendOrderCancelledEmail({ ...orderData, reason })
+  }
 
   return { success: true }
 }
@@ -232,6 +332,11 @@ export async function getOrderTimeline(orderId: string) {
     return null
   }
 
+  return buildOrderTimeline(order)
+}
+
+// Order placement, status changes and parcel tracking, oldest first
+async function buildOrderTimeline(order: typeof orders.$inferSelect) {
   const history = await db
     .select({
       id: orderStatusHistory.id,
@@ -241,11 +346,48 @@ export async function getOrderTimeline(orderId: string) {
       createdAt: orderStatusHistory.createdAt,
     })
     .from(orderStatusHistory)
-    .where(eq(orderStatusHistory.orderId, orderId))
+    .where(eq(orderStatusHistory.orderId, order.id))
     .orderBy(orderStatusHistory.createdAt)
 
+  const parcels = await db
+    .select({
+      id: shipments.id,
+      carrier: shipments.carrier,
+      trackingNumber: shipments.trackingNumber,
+      trackingUrl: shipments.trackingUrl,
+      shippedAt: shipments.shippedAt,
+      deliveredAt: shipments.deliveredAt,
+    })
+    .from(shipments)
+    .where(eq(shipments.orderId, order.id))
+    .orderBy(shipments.createdAt)
+
+  const parcelItems =
+    parcels.length > 1
+      ? await db
+          .select({
+            shipmentId: shipmentItems.shipmentId,
+            productName: orderItems.productName,
+            quantity: shipmentItems.quantity,
+          })
+          .from(shipmentItems)
+          .innerJoin(orderItems, eq(shipmentItems.orderItemId, orderItems.id))
+          .where(
+            inArray(
+              shipmentItems.shipmentId,
+              parcels.map((parcel) => parcel.id),
+            ),
+          )
+      : []
+
   // Create a timeline including order creation
-  const timeline = [
+  const timeline: Array<{
+    status: string
+    label: string
+    date: Date
+    description: string
+    trackingUrl?: string | null
+  }> = [
     {
       status: "created",
       label: "Order Placed",
@@ -264,7 +406,42 @@ export async function getOrderTimeline(orderId: string) {
     })
   }
 
-  return timeline
+  // Add parcel tracking; orders sent in several parcels list their contents
+  parcels.forEach((parcel, index) => {
+    const name =
+      parcels.length > 1 ? `Parcel ${index + 1} of ${parcels.length}` : "Parcel"
+    const contents = parcelItems
+      .filter((item) => item.shipmentId === parcel.id)
+      .map((item) => `${item.quantity} × ${item.productName}`)
+    const details = [
+      getCarrierName(parcel.carrier),
+      parcel.trackingNumber && `Tracking number ${parcel.trackingNumber}`,
+      ...contents,
+    ].filter(Boolean)
+
+    if (parcel.shippedAt) {
+      timeline.push({
+        status: "parcel_shipped",
+        label: `${name} shipped`,
+        date: parcel.shippedAt,
+        description: details.join(" · ") || "Your parcel is on its way",
+        trackingUrl: parcel.trackingUrl,
+      })
+    }
+
+    if (parcel.deliveredAt) {
+      timeline.push({
+        status: "parcel_delivered",
+        label: `${name} delivered`,
+        date: parcel.deliveredAt,
+        description: contents.join(" · "),
+      })
+    }
+  })
+
+  return timeline.sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime(),
+  )
 }
 
 // ============================================
@@ -346,3 +523,96 @@ export async function getCustomerOrderCounts() {
 
   return result
 }
+
+// ============================================
+// Guest Orders
+// ============================================
+
+const orderLookupSchema = z.object({
+  orderNumber: z.string().trim().min(1, "Enter your order number").max(50),
+  email: z.string().trim().email("Enter a valid email address"),
+})
+
+export type OrderLookupInput = z.input<typeof orderLookupSchema>
+
+/**
+ * Email a guest a link to their order. The reply never says whether the
+ * order exists, so the form can't be used to probe for orders.
+ */
+export async function requestOrderAccessLink(data: OrderLookupInput) {
+  const parsed = orderLookupSchema.safeParse(data)
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.errors[0]?.message || "Invalid order details",
+    }
+  }
+
+  try {
+    const order = await db.query.orders.findFirst({
+      where: and(
+        sql`upper(${orders.orderNumber}) = ${parsed.data.orderNumber.toUpperCase()}`,
+        sql`lower(${orders.customerEmail}) = ${parsed.data.email.toLowerCase()}`,
+      ),
+    })
+
+    // Orders placed while signed in are found in the account instead
+    if (order && !order.userId) {
+      await sendOrderAccessEmail({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        customerName: order.customerName || "Customer",
+        customerEmail: order.customerEmail,
+        orderPath: createOrderAccessPath(order, LOOKUP_LINK_TTL),
+      })
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to send order access link:", error)
+    return { success: false, error: "Failed to send the link. Try again." }
+  }
+}
+
+/**
+ * An order opened from a guest link, with its items and timeline.
+ */
+export async function getGuestOrder(token: string) {
+  const order = await getOrderByAccessToken(token)
+  if (!order) {
+    return null
+  }
+
+  const [details, timeline] = await Promise.all([
+    getOrderDetails(order),
+    buildOrderTimeline(order),
+  ])
+
+  return { ...details, timeline }
+}
+
+/**
+ * Move the guest order behind a link, and every other guest order with the
+ * same email, into the signed-in account. The link proves the email, so it
+ * must match the account's.
+ */
+export async function claimGuestOrder(token: string) {
+  const session = await requireAuth()
+
+  const order = await getOrderByAccessToken(token)
+  if (!order) {
+    return { success: false, error: "This link is invalid or has expired" }
+  }
+
+  if (order.customerEmail.toLowerCase() !== session.user.email.toLowerCase()) {
+    return {
+      success: false,
+      error: `Sign in with ${order.customerEmail} to add this order to your account`,
+    }
+  }
+
+  const claimed = await claimGuestOrders(session.user.id, order.customerEmail)
+
+  revalidatePath("/orders")
+  return { success: true, claimed }
+}
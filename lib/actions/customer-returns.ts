@@ -0,0 +1,373 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, desc, eq, inArray, notInArray, sql } from "drizzle-orm"
+import { nanoid } from "nanoid"
+import { z } from "zod"
+
+import { requireAuth } from "@/lib/auth/rbac"
+import { type Database, db } from "@/lib/db"
+import {
+  orderItems,
+  orders,
+  orderStatusHistory,
+  returnRequestItems,
+  returnRequests,
+} from "@/lib/db/schema"
+import { getRefundedQuantities } from "@/lib/payments/refunds"
+import {
+  CLOSED_RETURN_STATUSES,
+  getReturnableQuantity,
+  getReturnDeadline,
+  isReturnPhotoUrl,
+  isWithinReturnWindow,
+  MAX_RETURN_PHOTOS,
+  RETURN_REASONS,
+} from "@/lib/utils/returns"
+import { getSettingValue } from "@/lib/utils/settings-config"
+
+import { getSiteSettings } from "./settings"
+
+// Schema for a customer return request
+const createReturnRequestSchema = z.object({
+  orderId: z.string().uuid(),
+  reason: z.enum(RETURN_REASONS, {
+    errorMap: () => ({ message: "Please choose a reason for the return" }),
+  }),
+  notes: z.string().trim().max(1000).optional(),
+  photos: z
+    .array(
+      z
+        .string()
+        .url()
+        .refine(isReturnPhotoUrl, "Photos must be uploaded from this page"),
+    )
+    .max(MAX_RETURN_PHOTOS, `You can attach up to ${MAX_RETURN_PHOTOS} photos`)
+    .default([]),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().min(0),
+      }),
+    )
+    .refine((items) => items.some((item) => item.quantity > 0), {
+      message: "Select at least one item to return",
+    }),
+})
+
+export type CreateReturnRequestInput = z.input<typeof createReturnRequestSchema>
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+/**
+ * Units per order item held by open or completed return requests
+ */
+async function getReturnedQuantities(
+  orderId: string,
+  executor: Database | Transaction = db,
+) {
+  const rows = await executor
+    .select({
+      orderItemId: returnRequestItems.orderItemId,
+      quantity: sql<number>`SUM(${returnRequestItems.quantity})::int`,
+    })
+    .from(returnRequestItems)
+    .innerJoin(
+      returnRequests,
+      eq(returnRequestItems.returnRequestId, returnRequests.id),
+    )
+    .where(
+      and(
+        eq(returnRequests.orderId, orderId),
+        notInArray(returnRequests.status, CLOSED_RETURN_STATUSES),
+      ),
+    )
+    .groupBy(returnRequestItems.orderItemId)
+
+  return new Map(rows.map((row) => [row.orderItemId, row.quantity]))
+}
+
+/**
+ * When the order was delivered, taken from its status history
+ */
+async function getDeliveredAt(orderId: string) {
+  const [entry] = await db
+    .select({ createdAt: orderStatusHistory.createdAt })
+    .from(orderStatusHistory)
+    .where(
+      and(
+        eq(orderStatusHistory.orderId, orderId),
+        eq(orderStatusHistory.toStatus, "delivered"),
+      ),
+    )
+    .orderBy(desc(orderStatusHistory.createdAt))
+    .limit(1)
+
+  return entry?.createdAt || null
+}
+
+async function getReturnWindowDays() {
+  const settings = await getSiteSettings()
+  return parseInt(getSettingValue(settings, "return_window_days")) || 0
+}
+
+// ============================================
+// Get Order Returns
+// ============================================
+
+/**
+ * Return eligibility and request history for one of the customer's orders
+ */
+export async function getOrderReturns(orderId: string) {
+  const session = await requireAuth()
+
+  const order = await db.query.orders.findFirst({
+    where: and(eq(orders.id, orderId), eq(orders.userId, session.user.id)),
+  })
+
+  if (!order) {
+    return null
+  }
+
+  const [
+    items,
+    requests,
+    returnedQuantities,
+    refundedQuantities,
+    deliveredAt,
+    windowDays,
+  ] = await Promise.all([
+    db
+      .select({ id: orderItems.id, quantity: orderItems.quantity })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId)),
+    db
+      .select({
+        id: returnRequests.id,
+        rmaNumber: returnRequests.rmaNumber,
+        status: returnRequests.status,
+        reason: returnRequests.reason,
+        customerNotes: returnRequests.customerNotes,
+        photos: returnRequests.photos,
+        rejectionReason: returnRequests.rejectionReason,
+        createdAt: returnRequests.createdAt,
+        updatedAt: returnRequests.updatedAt,
+      })
+      .from(returnRequests)
+      .where(eq(returnRequests.orderId, orderId))
+      .orderBy(desc(returnRequests.createdAt)),
+    getReturnedQuantities(orderId),
+    getRefundedQuantities(orderId),
+    getDeliveredAt(orderId),
+    getReturnWindowDays(),
+  ])
+
+  const requestItems =
+    requests.length > 0
+      ? await db
+          .select({
+            returnRequestId: returnRequestItems.returnRequestId,
+            orderItemId: returnRequestItems.orderItemId,
+            productName: orderItems.productName,
+            variantName: orderItems.variantName,
+            quantity: returnRequestItems.quantity,
+            condition: returnRequestItems.condition,
+          })
+          .from(returnRequestItems)
+          .innerJoin(
+            orderItems,
+            eq(returnRequestItems.orderItemId, orderItems.id),
+          )
+          .where(
+            inArray(
+              returnRequestItems.returnRequestId,
+              requests.map((r) => r.id),
+            ),
+          )
+      : []
+
+  const returnableQuantities = Object.fromEntries(
+    items.map((item) => [
+      item.id,
+      getReturnableQuantity(
+        item.quantity,
+        returnedQuantities.get(item.id) || 0,
+        refundedQuantities.get(item.id) || 0,
+      ),
+    ]),
+  )
+
+  const withinReturnWindow =
+    order.status === "delivered" &&
+    isWithinReturnWindow(deliveredAt, windowDays)
+
+  return {
+    canRequestReturn:
+      withinReturnWindow &&
+      Object.values(returnableQuantities).some((quantity) => quantity > 0),
+    withinReturnWindow,
+    returnDeadline: getReturnDeadline(deliveredAt, windowDays),
+    returnableQuantities,
+    requests: requests.map((request) => ({
+      ...request,
+      items: requestItems.filter((item) => item.returnRequestId === request.id),
+    })),
+  }
+}
+
+// ============================================
+// Create Return Request
+// ============================================
+
+export async function createReturnRequest(input: CreateReturnRequestInput) {
+  try {
+    const session = await requireAuth()
+    const data = createReturnRequestSchema.parse(input)
+
+    const order = await db.query.orders.findFirst({
+      where: and(
+        eq(orders.id, data.orderId),
+        eq(orders.userId, session.user.id),
+      ),
+    })
+
+    if (!order) {
+      return { success: false as const, error: "Order not found" }
+    }
+
+    if (order.status !== "delivered") {
+      return {
+        success: false as const,
+        error: "Returns can only be requested for delivered orders",
+      }
+    }
+
+    const [deliveredAt, windowDays] = await Promise.all([
+      getDeliveredAt(order.id),
+      getReturnWindowDays(),
+    ])
+
+    if (!isWithinReturnWindow(deliveredAt, windowDays)) {
+      return {
+        success: false as const,
+        error: "The return window for this order has closed",
+      }
+    }
+
+    const result = await db.transaction(async (tx) => {
+      // Serialize requests for the same order so quantities cannot be
+      // claimed twice
+      await tx
+        .select({ id: orders.id })
+        .from(orders)
+        .where(eq(orders.id, order.id))
+        .for("update")
+
+      const items = await tx
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, order.id))
+      const returnedQuantities = await getReturnedQuantities(order.id, tx)
+      const refundedQuantities = await getRefundedQuantities(order.id, tx)
+
+      const lines = data.items.filter((line) => line.quantity > 0)
+      for (const line of lines) {
+        const item = items.find((i) => i.id === line.orderItemId)
+        if (!item) {
+          return { success: false as const, error: "Invalid order item" }
+        }
+
+        const returnable = getReturnableQuantity(
+          item.quantity,
+          returnedQuantities.get(item.id) || 0,
+          refundedQuantities.get(item.id) || 0,
+        )
+        if (line.quantity > returnable) {
+          return {
+            success: false as const,
+            error: `Only ${returnable} of ${item.productName} can be returned`,
+          }
+        }
+      }
+
+      const rmaNumber = `RMA-${Date.now().toString(36).toUpperCase()}-${nanoid(4).toUpperCase()}`
+
+      const [request] = await tx
+        .insert(returnRequests)
+        .values({
+          rmaNumber,
+          orderId: order.id,
+          userId: session.user.id,
+          reason: data.reason,
+          customerNotes: data.notes || null,
+          photos: data.photos,
+        })
+        .returning()
+
+      await tx.insert(returnRequestItems).values(
+        lines.map((line) => ({
+          returnRequestId: request.id,
+          orderItemId: line.orderItemId,
+          quantity: line.quantity,
+        })),
+      )
+
+      return { success: true as const, rmaNumber }
+    })
+
+    revalidatePath(`/orders/${order.id}`)
+    revalidatePath("/admin/returns")
+
+    return result
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid return request",
+      }
+    }
+    console.error("Failed to create return request:", error)
+    return {
+      success: false as const,
+      error: "Failed to submit return request",
+    }
+  }
+}
+
+// ============================================
+// Cancel Return Request
+// ============================================
+
+export async function cancelReturnRequest(returnRequestId: string) {
+  const session = await requireAuth()
+
+  const request = await db.query.returnRequests.findFirst({
+    where: and(
+      eq(returnRequests.id, returnRequestId),
+      eq(returnRequests.userId, session.user.id),
+    ),
+  })
+
+  if (!request) {
+    return { success: false, error: "Return request not found" }
+  }
+
+  if (request.status !== "requested") {
+    return {
+      success: false,
+      error: "This return has already been reviewed. Please contact support.",
+    }
+  }
+
+  await db
+    .update(returnRequests)
+    .set({ status: "cancelled", updatedAt: new Date() })
+    .where(eq(returnRequests.id, request.id))
+
+  revalidatePath(`/orders/${request.orderId}`)
+  revalidatePath("/admin/returns")
+
+  return { success: true }
+}
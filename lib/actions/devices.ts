@@ -0,0 +1,416 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { cookies } from "next/headers"
+
+import { asc, count, eq, inArray } from "drizzle-orm"
+import { z } from "zod"
+
+import { requirePermission } from "@/lib/auth/rbac"
+import {
+  type DeviceModelSummary,
+  getDeviceModel,
+  getDeviceProductIds,
+} from "@/lib/catalog/devices"
+import { db } from "@/lib/db"
+import {
+  deviceBrands,
+  deviceModels,
+  productCompatibleDevices,
+  products,
+} from "@/lib/db/schema"
+import { refreshProductSearchIndex } from "@/lib/search/product-index"
+import { slugify } from "@/lib/utils"
+import { revalidateProductCaches } from "@/lib/utils/cache"
+import { deviceDisplayName } from "@/lib/utils/devices"
+
+import { logActivity } from "./activity-log"
+
+const SELECTED_DEVICE_COOKIE = "selected_device"
+const SELECTED_DEVICE_EXPIRY = 365 * 24 * 60 * 60 // 1 year, in seconds
+
+const deviceBrandSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  sortOrder: z.number().int().default(0),
+})
+
+const deviceModelSchema = z.object({
+  brandId: z.string().uuid("Choose a brand"),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  releaseYear: z.number().int().min(1990).max(2100).nullable().default(null),
+  sortOrder: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+})
+
+const productDevicesSchema = z
+  .array(z.string().uuid())
+  .max(500, "Link at most 500 devices")
+
+export type DeviceBrandInput = z.input<typeof deviceBrandSchema>
+export type DeviceModelInput = z.input<typeof deviceModelSchema>
+
+// Device names are part of the search document of the products they fit
+async function refreshLinkedProducts(deviceModelIds: string[]) {
+  if (deviceModelIds.length === 0) return
+
+  const linked = await db
+    .selectDistinct({ productId: productCompatibleDevices.productId })
+    .from(productCompatibleDevices)
+    .where(inArray(productCompatibleDevices.deviceModelId, deviceModelIds))
+
+  await refreshProductSearchIndex(linked.map((row) => row.productId))
+}
+
+function revalidateDeviceCaches() {
+  revalidatePath("/admin/devices")
+  revalidatePath("/", "layout")
+  revalidateProductCaches()
+}
+
+// ============================================
+// Device Catalog (Admin)
+// ============================================
+
+/**
+ * Every brand with its models and how many products fit each model.
+ */
+export async function getDeviceCatalog() {
+  await requirePermission("product.read")
+
+  const [brands, models, linkCounts] = await Promise.all([
+    db
+      .select()
+      .from(deviceBrands)
+      .orderBy(asc(deviceBrands.sortOrder), asc(deviceBrands.name)),
+    db
+      .select()
+      .from(deviceModels)
+      .orderBy(asc(deviceModels.sortOrder), asc(deviceModels.name)),
+    db
+      .select({
+        deviceModelId: productCompatibleDevices.deviceModelId,
+        count: count(),
+      })
+      .from(productCompatibleDevices)
+      .groupBy(productCompatibleDevices.deviceModelId),
+  ])
+
+  return brands.map((brand) => ({
+    ...brand,
+    models: models
+      .filter((model) => model.brandId === brand.id)
+      .map((model) => ({
+        ...model,
+        productCount:
+          linkCounts.find((row) => row.deviceModelId === model.id)?.count ?? 0,
+      })),
+  }))
+}
+
+export async function saveDeviceBrand(data: DeviceBrandInput, id?: string) {
+  try {
+    await requirePermission("product.write")
+
+    const parsed = deviceBrandSchema.safeParse(data)
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message || "Invalid brand",
+      }
+    }
+    const values = { ...parsed.data, slug: slugify(parsed.data.name) }
+
+    const [existing] = await db
+      .select({ id: deviceBrands.id })
+      .from(deviceBrands)
+      .where(eq(deviceBrands.slug, values.slug))
+      .limit(1)
+    if (existing && existing.id !== id) {
+      return { success: false as const, error: "This brand already exists" }
+    }
+
+    if (id) {
+      await db
+        .update(deviceBrands)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(deviceBrands.id, id))
+
+      const models = await db
+        .select({ id: deviceModels.id })
+        .from(deviceModels)
+        .where(eq(deviceModels.brandId, id))
+      await refreshLinkedProducts(models.map((model) => model.id))
+    } else {
+      await db.insert(deviceBrands).values(values)
+    }
+
+    revalidateDeviceCaches()
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to save device brand:", error)
+    return { success: false as const, error: "Failed to save brand" }
+  }
+}
+
+/**
+ * Delete a brand with all its models. Products lose their links to them.
+ */
+export async function deleteDeviceBrand(id: string) {
+  try {
+    await requirePermission("product.write")
+
+    const models = await db
+      .select({ id: deviceModels.id })
+      .from(deviceModels)
+      .where(eq(deviceModels.brandId, id))
+    const linked = models.length
+      ? await db
+          .selectDistinct({ productId: productCompatibleDevices.productId })
+          .from(productCompatibleDevices)
+          .where(
+            inArray(
+              productCompatibleDevices.deviceModelId,
+              models.map((model) => model.id),
+            ),
+          )
+      : []
+
+    await db.delete(deviceBrands).where(eq(deviceBrands.id, id))
+    await refreshProductSearchIndex(linked.map((row) => row.productId))
+
+    revalidateDeviceCaches()
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to delete device brand:", error)
+    return { success: false as const, error: "Failed to delete brand" }
+  }
+}
+
+export async function saveDeviceModel(data: DeviceModelInput, id?: string) {
+  try {
+    await requirePermission("product.write")
+
+    const parsed = deviceModelSchema.safeParse(data)
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message || "Invalid device",
+      }
+    }
+
+    const [brand] = await db
+      .select({ name: deviceBrands.name })
+      .from(deviceBrands)
+      .where(eq(deviceBrands.id, parsed.data.brandId))
+      .limit(1)
+    if (!brand) {
+      return { success: false as const, error: "Brand not found" }
+    }
+
+    // "iPhone 15" by Apple becomes apple-iphone-15
+    const values = {
+      ...parsed.data,
+      slug: slugify(deviceDisplayName(brand.name, parsed.data.name)),
+    }
+
+    const [existing] = await db
+      .select({ id: deviceModels.id })
+      .from(deviceModels)
+      .where(eq(deviceModels.slug, values.slug))
+      .limit(1)
+    if (existing && existing.id !== id) {
+      return { success: false as const, error: "This device already exists" }
+    }
+
+    if (id) {
+      await db
+        .update(deviceModels)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(deviceModels.id, id))
+      await refreshLinkedProducts([id])
+    } else {
+      await db.insert(deviceModels).values(values)
+    }
+
+    revalidateDeviceCaches()
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to save device model:", error)
+    return { success: false as const, error: "Failed to save device" }
+  }
+}
+
+export async function deleteDeviceModel(id: string) {
+  try {
+    await requirePermission("product.write")
+
+    const linked = await db
+      .select({ productId: productCompatibleDevices.productId })
+      .from(productCompatibleDevices)
+      .where(eq(productCompatibleDevices.deviceModelId, id))
+
+    await db.delete(deviceModels).where(eq(deviceModels.id, id))
+    await refreshProductSearchIndex(linked.map((row) => row.productId))
+
+    revalidateDeviceCaches()
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to delete device model:", error)
+    return { success: false as const, error: "Failed to delete device" }
+  }
+}
+
+// ============================================
+// Product Compatibility (Admin)
+// ============================================
+
+/**
+ * Every device model, for the compatibility picker in the product forms.
+ */
+export async function getDeviceOptions() {
+  await requirePermission("product.read")
+
+  return db
+    .select({
+      id: deviceModels.id,
+      name: deviceModels.name,
+      brandName: deviceBrands.name,
+      isActive: deviceModels.isActive,
+    })
+    .from(deviceModels)
+    .innerJoin(deviceBrands, eq(deviceModels.brandId, deviceBrands.id))
+    .orderBy(
+      asc(deviceBrands.sortOrder),
+      asc(deviceBrands.name),
+      asc(deviceModels.sortOrder),
+      asc(deviceModels.name),
+    )
+}
+
+export async function getProductDeviceIds(productId: string) {
+  await requirePermission("product.read")
+
+  const rows = await db
+    .select({ deviceModelId: productCompatibleDevices.deviceModelId })
+    .from(productCompatibleDevices)
+    .where(eq(productCompatibleDevices.productId, productId))
+
+  return rows.map((row) => row.deviceModelId)
+}
+
+/**
+ * Replace the device models a product fits.
+ */
+export async function saveProductDevices(
+  productId: string,
+  deviceModelIds: string[],
+) {
+  try {
+    await requirePermission("product.write")
+
+    const parsed = productDevicesSchema.safeParse(deviceModelIds)
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message || "Invalid devices",
+      }
+    }
+    const ids = [...new Set(parsed.data)]
+
+    const [product] = await db
+      .select({ id: products.id, name: products.name, slug: products.slug })
+      .from(products)
+      .where(eq(products.id, productId))
+      .limit(1)
+    if (!product) {
+      return { success: false as const, error: "Product not found" }
+    }
+
+    if (ids.length > 0) {
+      const found = await db
+        .select({ id: deviceModels.id })
+        .from(deviceModels)
+        .where(inArray(deviceModels.id, ids))
+      if (found.length !== ids.length) {
+        return { success: false as const, error: "Device not found" }
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(productCompatibleDevices)
+        .where(eq(productCompatibleDevices.productId, productId))
+      if (ids.length > 0) {
+        await tx
+          .insert(productCompatibleDevices)
+          .values(ids.map((deviceModelId) => ({ productId, deviceModelId })))
+      }
+      await refreshProductSearchIndex([productId], tx)
+    })
+
+    await logActivity({
+      action: "product.update",
+      entityType: "product",
+      entityId: product.id,
+      details: { name: product.name, compatibleDevices: ids.length },
+    })
+
+    revalidatePath(`/admin/products/${product.id}`)
+    revalidatePath(`/products/${product.slug}`)
+    revalidateProductCaches()
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to save product devices:", error)
+    return { success: false as const, error: "Failed to save devices" }
+  }
+}
+
+// ============================================
+// Selected Device (Storefront)
+// ============================================
+
+/**
+ * The device the customer shops for, with the products that fit it.
+ * Remembered in a cookie, so it works for guests too.
+ */
+export async function getSelectedDevice(): Promise<
+  (DeviceModelSummary & { productIds: string[] }) | null
+> {
+  const cookieStore = await cookies()
+  const deviceModelId = cookieStore.get(SELECTED_DEVICE_COOKIE)?.value
+  if (!deviceModelId || !z.string().uuid().safeParse(deviceModelId).success) {
+    return null
+  }
+
+  const device = await getDeviceModel({ id: deviceModelId })
+  if (!device) return null
+
+  return { ...device, productIds: await getDeviceProductIds(device.id) }
+}
+
+/**
+ * Remember the customer's device, or forget it with `null`.
+ */
+export async function selectDevice(deviceModelId: string | null) {
+  const cookieStore = await cookies()
+
+  if (!deviceModelId) {
+    cookieStore.delete(SELECTED_DEVICE_COOKIE)
+    return { success: true as const, device: null }
+  }
+
+  const device = await getDeviceModel({ id: deviceModelId })
+  if (!device) {
+    return { success: false as const, error: "Device not found" }
+  }
+
+  cookieStore.set(SELECTED_DEVICE_COOKIE, device.id, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: SELECTED_DEVICE_EXPIRY,
+    path: "/",
+  })
+
+  return { success: true as const, device }
+}
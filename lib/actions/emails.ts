@@ -0,0 +1,207 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { desc, eq, type SQL, sql } from "drizzle-orm"
+import { z } from "zod"
+
+import { requirePermission, requireStaff } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import { emailOutbox, user } from "@/lib/db/schema"
+import { getEmailBranding } from "@/lib/email/branding"
+import { resendEmail } from "@/lib/email/outbox"
+import {
+  emailTemplates,
+  isEmailTemplate,
+  renderSampleEmail,
+} from "@/lib/email/templates"
+import { deliverEmail } from "@/lib/email/transport"
+
+import { logActivity } from "./activity-log"
+
+const sendTestEmailSchema = z.object({
+  template: z.string(),
+  to: z.string().email("Enter a valid email address"),
+})
+
+// ============================================
+// Admin: Email Template Previews
+// ============================================
+
+/**
+ * Every email template rendered with its sample data and the current
+ * store branding
+ */
+export async function getEmailPreviews() {
+  await requirePermission("settings.read")
+
+  const branding = await getEmailBranding()
+
+  return Object.entries(emailTemplates).map(([id, definition]) => {
+    const email = renderSampleEmail(id as keyof typeof emailTemplates, branding)
+    return {
+      id,
+      name: definition.name,
+      description: definition.description,
+      group: definition.group,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+    }
+  })
+}
+
+// ============================================
+// Admin: Send Test Email
+// ============================================
+
+export async function sendTestEmail(input: { template: string; to: string }) {
+  try {
+    await requirePermission("settings.update")
+  } catch {
+    return { success: false as const, error: "Insufficient permissions" }
+  }
+
+  const validation = sendTestEmailSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false as const,
+      error: validation.error.errors[0]?.message || "Invalid input",
+    }
+  }
+
+  const { template, to } = validation.data
+  if (!isEmailTemplate(template)) {
+    return { success: false as const, error: "Unknown email template" }
+  }
+
+  const branding = await getEmailBranding()
+  const email = renderSampleEmail(template, branding)
+
+  const result = await deliverEmail({
+    to,
+    subject: `[Test] ${email.subject}`,
+    html: email.html,
+    text: email.text,
+    replyTo: branding.supportEmail,
+  })
+
+  if (!result.success) {
+    return { success: false as const, error: result.error }
+  }
+
+  await logActivity({
+    action: "settings.email_test",
+    entityType: "email_template",
+    details: { template, to, transport: result.transport },
+  })
+
+  return {
+    success: true as const,
+    // Where the email went when no provider is configured
+    capturedTo: result.transport === "capture" ? result.file : null,
+  }
+}
+
+// ============================================
+// Admin: Delivery Log
+// ============================================
+
+async function listEmailMessages(where: SQL | undefined, limit: number) {
+  const messages = await db
+    .select({
+      id: emailOutbox.id,
+      template: emailOutbox.template,
+      recipient: emailOutbox.recipient,
+      subject: emailOutbox.subject,
+      status: emailOutbox.status,
+      attempts: emailOutbox.attempts,
+      maxAttempts: emailOutbox.maxAttempts,
+      nextAttemptAt: emailOutbox.nextAttemptAt,
+      lastError: emailOutbox.lastError,
+      transport: emailOutbox.transport,
+      providerMessageId: emailOutbox.providerMessageId,
+      resendOf: emailOutbox.resendOf,
+      hasBody: sql<boolean>`${emailOutbox.htmlBody} <> ''`,
+      requestedByName: user.name,
+      orderId: emailOutbox.orderId,
+      createdAt: emailOutbox.createdAt,
+      sentAt: emailOutbox.sentAt,
+    })
+    .from(emailOutbox)
+    .leftJoin(user, eq(emailOutbox.requestedBy, user.id))
+    .where(where)
+    .orderBy(desc(emailOutbox.createdAt))
+    .limit(limit)
+
+  return messages.map(({ hasBody, ...message }) => ({
+    ...message,
+    templateName: isEmailTemplate(message.template)
+      ? emailTemplates[message.template].name
+      : message.template,
+    canResend: hasBody,
+  }))
+}
+
+/**
+ * Emails sent about an order, newest first
+ */
+export async function getOrderCommunications(orderId: string) {
+  await requireStaff()
+  return listEmailMessages(eq(emailOutbox.orderId, orderId), 100)
+}
+
+/**
+ * The most recent emails across the store
+ */
+export async function getEmailDeliveryLog() {
+  await requirePermission("settings.read")
+  return listEmailMessages(undefined, 100)
+}
+
+/**
+ * Queue a copy of an earlier email. Order emails can be resent by anyone
+ * who can update orders; other emails need settings access.
+ */
+export async function resendEmailMessage(id: string) {
+  const message = await db.query.emailOutbox.findFirst({
+    where: eq(emailOutbox.id, id),
+    columns: { id: true, orderId: true, template: true, recipient: true },
+  })
+
+  if (!message) {
+    return { success: false as const, error: "Email not found" }
+  }
+
+  let session
+  try {
+    session = await requirePermission(
+      message.orderId ? "order.update" : "settings.update",
+    )
+  } catch {
+    return { success: false as const, error: "Insufficient permissions" }
+  }
+
+  const resentId = await resendEmail(message.id, session.user.id)
+  if (!resentId) {
+    return {
+      success: false as const,
+      error:
+        "This email contained a password or reset link and can't be resent",
+    }
+  }
+
+  await logActivity({
+    action: "email.resend",
+    entityType: message.orderId ? "order" : "email",
+    entityId: message.orderId ?? message.id,
+    details: { template: message.template, to: message.recipient, resentId },
+  })
+
+  if (message.orderId) {
+    revalidatePath(`/admin/orders/${message.orderId}`)
+  }
+  revalidatePath("/admin/emails")
+
+  return { success: true as const }
+}
@@ -5,6 +5,7 @@ import { revalidatePath } from "next/cache"
 import { and, desc, eq } from "drizzle-orm"
 
 import { getServerSession } from "@/lib/auth/rbac"
+import { withCampaignPrices } from "@/lib/catalog/price-campaigns"
 import { db } from "@/lib/db"
 import {
   favorites,
@@ -35,6 +36,7 @@ export async function getUserFavorites() {
         name: products.name,
         slug: products.slug,
         shortDescription: products.shortDescription,
+        categoryId: products.categoryId,
         basePrice: products.basePrice,
         compareAtPrice: products.compareAtPrice,
         isFeatured: products.isFeatured,
@@ -60,11 +62,14 @@ export async function getUserFavorites() {
       : []
 
   const imageMap = new Map(images.map((img) => [img.productId, img.url]))
+  const pricedProducts = await withCampaignPrices(
+    userFavorites.map((f) => f.product),
+  )
 
-  return userFavorites.map((f) => ({
+  return userFavorites.map((f, index) => ({
     ...f,
     product: {
-      ...f.product,
+      ...pricedProducts[index],
       image: imageMap.get(f.productId) || null,
     },
   }))
@@ -2,9 +2,10 @@
 
 import { revalidatePath } from "next/cache"
 
-import { and, count, desc, eq, ilike, or, sql } from "drizzle-orm"
+import { and, count, desc, eq, ilike, inArray, or, sql } from "drizzle-orm"
 import { z } from "zod"
 
+import { logActivity } from "@/lib/actions/activity-log"
 import { getServerSession, requireStaff } from "@/lib/auth/rbac"
 import { db } from "@/lib/db"
 import {
@@ -13,6 +14,8 @@ import {
   products,
   productVariants,
 } from "@/lib/db/schema"
+import { sendBackInStockAlerts } from "@/lib/jobs/back-in-stock"
+import { bulkIdsSchema, type BulkRowResult } from "@/lib/utils/bulk-actions"
 
 // ============================================
 // Get Inventory Overview Stats
@@ -240,6 +243,13 @@ export async function adjustStock(input: z.infer<typeof adjustStockSchema>) {
         throw new Error("Cannot adjust stock below zero")
       }
 
+      // Units held by open orders stay on hand until they are sold or released
+      if (newQuantity < item.reservedQuantity) {
+        throw new Error(
+          `Cannot adjust stock below the ${item.reservedQuantity} reserved for orders`,
+        )
+      }
+
       // Update inventory
       await tx
         .update(inventoryItems)
@@ -261,11 +271,27 @@ export async function adjustStock(input: z.infer<typeof adjustStockSchema>) {
         performedBy: session?.user?.id || null,
       })
 
-      return { previousQuantity: item.quantity, newQuantity }
+      return {
+        variantId: item.variantId,
+        previousQuantity: item.quantity,
+        newQuantity,
+      }
     })
 
     revalidatePath("/admin/inventory")
-    return { success: true, ...result }
+
+    // Alerts not sent here go out with the back-in-stock cron
+    if (adjustment > 0) {
+      await sendBackInStockAlerts({ variantIds: [result.variantId] }).catch(
+        (error) => console.error("Failed to send back in stock alerts:", error),
+      )
+    }
+
+    return {
+      success: true,
+      previousQuantity: result.previousQuantity,
+      newQuantity: result.newQuantity,
+    }
   } catch (error) {
     console.error("Failed to adjust stock:", error)
     return {
@@ -275,6 +301,79 @@ export async function adjustStock(input: z.infer<typeof adjustStockSchema>) {
   }
 }
 
+// ============================================
+// Bulk Adjust Stock
+// ============================================
+
+const bulkAdjustStockSchema = z.object({
+  inventoryItemIds: bulkIdsSchema,
+  adjustment: z
+    .number()
+    .int()
+    .refine((n) => n !== 0, "Adjustment cannot be zero"),
+  reason: z.string().min(1, "Reason is required"),
+})
+
+export async function bulkAdjustStock(
+  input: z.infer<typeof bulkAdjustStockSchema>,
+) {
+  await requireStaff()
+
+  const validation = bulkAdjustStockSchema.safeParse(input)
+  if (!validation.success) {
+    return {
+      success: false as const,
+      error: validation.error.errors[0]?.message || "Invalid adjustment",
+    }
+  }
+
+  const { inventoryItemIds, adjustment, reason } = validation.data
+
+  const rows = await db
+    .select({ id: inventoryItems.id, sku: productVariants.sku })
+    .from(inventoryItems)
+    .innerJoin(
+      productVariants,
+      eq(inventoryItems.variantId, productVariants.id),
+    )
+    .where(inArray(inventoryItems.id, inventoryItemIds))
+
+  // Each item gets its own transaction and movement, as with adjustStock
+  const results: BulkRowResult[] = []
+  for (const inventoryItemId of inventoryItemIds) {
+    const label =
+      rows.find((row) => row.id === inventoryItemId)?.sku ?? inventoryItemId
+    const result = await adjustStock({ inventoryItemId, adjustment, reason })
+
+    if (!result.success || !("previousQuantity" in result)) {
+      results.push({
+        id: inventoryItemId,
+        label,
+        success: false,
+        error: result.error,
+      })
+      continue
+    }
+
+    await logActivity({
+      action: "inventory.adjust",
+      entityType: "inventory_item",
+      entityId: inventoryItemId,
+      details: {
+        sku: label,
+        adjustment,
+        previousQuantity: result.previousQuantity,
+        newQuantity: result.newQuantity,
+        reason,
+      },
+    })
+    results.push({ id: inventoryItemId, label, success: true })
+  }
+
+  revalidatePath("/admin/inventory")
+  return { success: true as const, results }
+}
+
 // ============================================
 // Update Low Stock Threshold
 // ============================================
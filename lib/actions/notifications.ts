@@ -0,0 +1,173 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, count, desc, eq, inArray, isNull } from "drizzle-orm"
+
+import { getServerSession } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import { notifications, stockAlerts } from "@/lib/db/schema"
+
+// ============================================
+// Get Notifications
+// ============================================
+
+/**
+ * Unread count and the latest notifications, for the header
+ */
+export async function getNotificationSummary() {
+  const session = await getServerSession()
+  if (!session?.user?.id) {
+    return { unreadCount: 0, notifications: [] }
+  }
+
+  const [[unread], latest] = await Promise.all([
+    db
+      .select({ count: count() })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, session.user.id),
+          isNull(notifications.readAt),
+        ),
+      ),
+    getLatestNotifications(session.user.id, 8),
+  ])
+
+  return { unreadCount: unread?.count ?? 0, notifications: latest }
+}
+
+export async function getNotifications() {
+  const session = await getServerSession()
+  if (!session?.user?.id) {
+    return []
+  }
+
+  return getLatestNotifications(session.user.id, 100)
+}
+
+async function getLatestNotifications(userId: string, limit: number) {
+  return db
+    .select({
+      id: notifications.id,
+      event: notifications.event,
+      title: notifications.title,
+      body: notifications.body,
+      href: notifications.href,
+      readAt: notifications.readAt,
+      createdAt: notifications.createdAt,
+    })
+    .from(notifications)
+    .where(eq(notifications.userId, userId))
+    .orderBy(desc(notifications.createdAt))
+    .limit(limit)
+}
+
+// ============================================
+// Mark as Read
+// ============================================
+
+export async function markNotificationRead(notificationId: string) {
+  const session = await getServerSession()
+  if (!session?.user?.id) {
+    return { success: false, error: "Please sign in to view notifications" }
+  }
+
+  await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notifications.id, notificationId),
+        eq(notifications.userId, session.user.id),
+        isNull(notifications.readAt),
+      ),
+    )
+
+  revalidatePath("/notifications")
+  return { success: true }
+}
+
+export async function markAllNotificationsRead() {
+  const session = await getServerSession()
+  if (!session?.user?.id) {
+    return { success: false, error: "Please sign in to view notifications" }
+  }
+
+  await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notifications.userId, session.user.id),
+        isNull(notifications.readAt),
+      ),
+    )
+
+  revalidatePath("/notifications")
+  return { success: true }
+}
+
+// ============================================
+// Back in Stock Alerts
+// ============================================
+
+/**
+ * Variants the customer is waiting on, out of the given ones
+ */
+export async function getStockAlertVariantIds(variantIds: string[]) {
+  const session = await getServerSession()
+  if (!session?.user?.id || variantIds.length === 0) {
+    return []
+  }
+
+  const alerts = await db
+    .select({ variantId: stockAlerts.variantId })
+    .from(stockAlerts)
+    .where(
+      and(
+        eq(stockAlerts.userId, session.user.id),
+        inArray(stockAlerts.variantId, variantIds),
+        isNull(stockAlerts.notifiedAt),
+      ),
+    )
+
+  return alerts.map((alert) => alert.variantId)
+}
+
+export async function toggleStockAlert(variantId: string) {
+  const session = await getServerSession()
+  if (!session?.user?.id) {
+    return {
+      success: false,
+      error: "Please sign in to get back in stock alerts",
+    }
+  }
+
+  const [existing] = await db
+    .select({ id: stockAlerts.id, notifiedAt: stockAlerts.notifiedAt })
+    .from(stockAlerts)
+    .where(
+      and(
+        eq(stockAlerts.userId, session.user.id),
+        eq(stockAlerts.variantId, variantId),
+      ),
+    )
+    .limit(1)
+
+  if (existing && !existing.notifiedAt) {
+    await db.delete(stockAlerts).where(eq(stockAlerts.id, existing.id))
+    return { success: true, isSubscribed: false }
+  }
+
+  // Asking again after an alert was sent re-arms it
+  await db
+    .insert(stockAlerts)
+    .values({ userId: session.user.id, variantId })
+    .onConflictDoUpdate({
+      target: [stockAlerts.userId, stockAlerts.variantId],
+      set: { notifiedAt: null, createdAt: new Date() },
+    })
+
+  return { success: true, isSubscribed: true }
+}
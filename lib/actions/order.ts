@@ -1,23 +1,55 @@
 "use server"
 
-import { and, count, desc, eq, gte, ilike, lte, or, sql } from "drizzle-orm"
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gte,
+  ilike,
+  inArray,
+  lte,
+  or,
+  sql,
+} from "drizzle-orm"
 import { z } from "zod"
 
-import { getServerSession, requireStaff } from "@/lib/auth/rbac"
+import { logActivity } from "@/lib/actions/activity-log"
+import {
+  getServerSession,
+  requirePermission,
+  requireStaff,
+} from "@/lib/auth/rbac"
 import { db } from "@/lib/db"
 import {
+  invoices,
   orderItems,
   orders,
   orderStatusHistory,
   productVariants,
+  promotionRedemptions,
   user,
 } from "@/lib/db/schema"
+import { getOrderEmailData } from "@/lib/email/order-email-data"
 import {
-  type OrderEmailData,
+  sendOrderCancelledEmail,
   sendOrderDeliveredEmail,
   sendOrderShippedEmail,
 } from "@/lib/email/order-notifications"
+import {
+  commitOrderStock,
+  releaseOrderReservations,
+} from "@/lib/inventory/reservations"
+import { notifyCustomer } from "@/lib/notifications/notify"
+import { releaseOrderPromotion } from "@/lib/orders/promotions"
+import { getRefundablePayment, issueRefund } from "@/lib/payments/refunds"
+import { bulkIdsSchema, type BulkRowResult } from "@/lib/utils/bulk-actions"
 import { revalidateOrderCaches } from "@/lib/utils/cache"
+import {
+  getValidTransitions,
+  isValidTransition,
+  ORDER_STATUS_LABELS,
+} from "@/lib/utils/order-status"
 
 // Schemas
 const orderFilterSchema = z.object({
@@ -158,6 +190,14 @@ export async function getOrder(orderId: string) {
         taxAmount: orders.taxAmount,
         shippingCost: orders.shippingCost,
         discountAmount: orders.discountAmount,
+        promotionCode: sql<string | null>`(
+          SELECT ${promotionRedemptions.code}
+          FROM ${promotionRedemptions}
+          WHERE ${promotionRedemptions.orderId} = ${orders.id}
+          LIMIT 1
+        )`,
+        codFee: orders.codFee,
+        shippingMethod: orders.shippingMethod,
         total: orders.total,
         notes: orders.notes,
         adminNotes: orders.adminNotes,
@@ -168,6 +208,7 @@ export async function getOrder(orderId: string) {
         billingAddress: orders.billingAddress,
         createdAt: orders.createdAt,
         updatedAt: orders.updatedAt,
+        invoiceNumber: invoices.invoiceNumber,
         customer: {
           id: user.id,
           name: user.name,
@@ -176,6 +217,7 @@ export async function getOrder(orderId: string) {
       })
       .from(orders)
       .leftJoin(user, eq(orders.userId, user.id))
+      .leftJoin(invoices, eq(invoices.orderId, orders.id))
       .where(eq(orders.id, orderId))
       .limit(1)
 
@@ -193,6 +235,7 @@ export async function getOrder(orderId: string) {
         productName: orderItems.productName,
         variantName: orderItems.variantName,
         sku: orderItems.sku,
+        bundleName: orderItems.bundleName,
         variant: {
           id: productVariants.id,
           name: productVariants.name,
@@ -244,7 +287,12 @@ export async function updateOrderStatus(input: UpdateOrderStatusInput) {
     const { orderId, status, notes } = updateOrderStatusSchema.parse(input)
 
     const [existingOrder] = await db
-      .select({ id: orders.id, status: orders.status })
+      .select({
+        id: orders.id,
+        status: orders.status,
+        orderNumber: orders.orderNumber,
+        userId: orders.userId,
+      })
       .from(orders)
       .where(eq(orders.id, orderId))
       .limit(1)
@@ -254,58 +302,183 @@ export async function updateOrderStatus(input: UpdateOrderStatusInput) {
     }
 
     // Validate status transitions
-    const validTransitions: Record<string, string[]> = {
-      draft: ["pending_payment", "cancelled"],
-      pending_payment: ["paid", "cancelled"],
-      paid: ["processing", "cancelled"],
-      processing: ["packing", "cancelled"],
-      packing: ["shipped", "cancelled"],
-      shipped: ["delivered"],
-      delivered: ["refunded"],
-      cancelled: [],
-      refunded: [],
-    }
-
-    if (!validTransitions[existingOrder.status]?.includes(status)) {
+    if (!isValidTransition(existingOrder.status, status)) {
       return {
         success: false as const,
         error: `Cannot change status from ${existingOrder.status} to ${status}`,
       }
     }
 
-    // Update order status
-    await db
-      .update(orders)
-      .set({
-        status,
-        updatedAt: new Date(),
+    // Refunds and cancellations of paid orders move money back
+    const refundablePayment =
+      status === "refunded" || status === "cancelled"
+        ? await getRefundablePayment(orderId)
+        : null
+
+    if (refundablePayment) {
+      await requirePermission("order.refund")
+    }
+
+    if (status === "refunded") {
+      if (!refundablePayment) {
+        return {
+          success: false as const,
+          error: "This order has no completed payment to refund",
+        }
+      }
+
+      // The refund workflow records the status change itself
+      const refund = await issueRefund({
+        orderId,
+        fullRefund: true,
+        reason: notes || null,
+        restock: false,
+        performedBy: session?.user?.id || null,
       })
-      .where(eq(orders.id, orderId))
 
-    // Record status change in history
-    await db.insert(orderStatusHistory).values({
-      orderId,
-      fromStatus: existingOrder.status,
-      toStatus: status,
-      notes: notes || null,
-      changedBy: session?.user?.id || null,
+      if (!refund.success) {
+        return { success: false as const, error: refund.error }
+      }
+
+      return { success: true as const }
+    }
+
+    // Paid orders are refunded before they are cancelled, so a failed
+    // gateway refund leaves the order as it was for staff to retry
+    if (status === "cancelled" && refundablePayment) {
+      const refund = await issueRefund({
+        orderId,
+        fullRefund: true,
+        reason: notes || "Order cancelled",
+        restock: true,
+        keepOrderStatus: true,
+        performedBy: session?.user?.id || null,
+      })
+
+      if (!refund.success) {
+        return {
+          success: false as const,
+          error: `Refund failed, so the order was not cancelled: ${refund.error}`,
+        }
+      }
+    }
+
+    // Re-check under lock: payment webhooks and the stale order job may
+    // change the status at any time
+    const result = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select({ status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update")
+
+      if (!order) {
+        return { success: false as const, error: "Order not found" }
+      }
+
+      if (!isValidTransition(order.status, status)) {
+        return {
+          success: false as const,
+          error: `Cannot change status from ${order.status} to ${status}`,
+        }
+      }
+
+      // Update order status
+      await tx
+        .update(orders)
+        .set({
+          status,
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, orderId))
+
+      // Record status change in history
+      await tx.insert(orderStatusHistory).values({
+        orderId,
+        fromStatus: order.status,
+        toStatus: status,
+        notes: notes || null,
+        changedBy: session?.user?.id || null,
+      })
+
+      // Unpaid orders (including COD) still hold their stock in reserve
+      if (status === "cancelled") {
+        await releaseOrderReservations(tx, orderId, {
+          notes: "Released - Order cancelled",
+          performedBy: session?.user?.id || null,
+        })
+        await releaseOrderPromotion(tx, orderId)
+      }
+
+      // Marking an order paid by hand sells its reserved stock, as a
+      // completed payment does
+      if (status === "paid") {
+        await commitOrderStock(tx, orderId, {
+          notes: "Sold - Order marked as paid",
+          performedBy: session?.user?.id || null,
+        })
+      }
+
+      return { success: true as const }
     })
 
+    if (!result.success) {
+      return {
+        success: false as const,
+        error: refundablePayment
+          ? `Payment refunded, but the order was not cancelled: ${result.error}`
+          : result.error,
+      }
+    }
+
     // Send email notifications for specific status changes
-    if (status === "shipped" || status === "delivered") {
+    if (
+      status === "shipped" ||
+      status === "delivered" ||
+      status === "cancelled"
+    ) {
       // Get full order data for email
-      const orderData = await getOrderForEmail(orderId)
+      const orderData = await getOrderEmailData(orderId)
       if (orderData) {
         if (status === "shipped") {
           await sendOrderShippedEmail(orderData)
         } else if (status === "delivered") {
           await sendOrderDeliveredEmail(orderData)
+        } else {
+          await sendOrderCancelledEmail({
+            ...orderData,
+            reason: notes || undefined,
+          })
         }
       }
     }
 
-    // Invalidate best sellers cache when order status changes to paid
+    // Steps without an email still reach the customer's notification center
+    if (status === "processing" || status === "packing") {
+      await notifyCustomer({
+        event: "order_status",
+        userId: existingOrder.userId,
+        inApp: {
+          title:
+            status === "processing"
+              ? `Order ${existingOrder.orderNumber} is being processed`
+              : `Order ${existingOrder.orderNumber} is being packed`,
+          href: `/orders/${orderId}`,
+        },
+      })
+    }
+
+    // Payments marked by hand reach the notification center as settled
+    // card payments do; invalidate best sellers cache as well
     if (status === "paid") {
+      await notifyCustomer({
+        event: "payment",
+        userId: existingOrder.userId,
+        inApp: {
+          title: `Payment received for order ${existingOrder.orderNumber}`,
+          href: `/orders/${orderId}`,
+        },
+      })
       revalidateOrderCaches()
     }
 
@@ -316,6 +489,91 @@ export async function updateOrderStatus(input: UpdateOrderStatusInput) {
   }
 }
 
+// Move several orders to the same status. Each order is checked against its
+// own valid transitions and updated through `updateOrderStatus`.
+export async function bulkUpdateOrderStatus(input: {
+  orderIds: string[]
+  status: UpdateOrderStatusInput["status"]
+  notes?: string
+}) {
+  try {
+    await requireStaff()
+
+    const parsedIds = bulkIdsSchema.safeParse(input.orderIds)
+    const parsedStatus = updateOrderStatusSchema.shape.status.safeParse(
+      input.status,
+    )
+    if (!parsedIds.success || !parsedStatus.success) {
+      return {
+        success: false as const,
+        error: parsedIds.error?.errors[0]?.message || "Invalid status",
+      }
+    }
+    const status = parsedStatus.data
+
+    const rows = await db
+      .select({
+        id: orders.id,
+        orderNumber: orders.orderNumber,
+        status: orders.status,
+      })
+      .from(orders)
+      .where(inArray(orders.id, parsedIds.data))
+
+    const results: BulkRowResult[] = []
+    for (const orderId of parsedIds.data) {
+      const order = rows.find((o) => o.id === orderId)
+      if (!order) {
+        results.push({
+          id: orderId,
+          label: orderId,
+          success: false,
+          error: "Order not found",
+        })
+        continue
+      }
+
+      const result = { id: order.id, label: order.orderNumber }
+      if (!getValidTransitions(order.status).includes(status)) {
+        results.push({
+          ...result,
+          success: false,
+          error: `Cannot move from ${ORDER_STATUS_LABELS[order.status]} to ${ORDER_STATUS_LABELS[status]}`,
+        })
+        continue
+      }
+
+      const updated = await updateOrderStatus({
+        orderId: order.id,
+        status,
+        notes: input.notes,
+      })
+      if (!updated.success) {
+        results.push({ ...result, success: false, error: updated.error })
+        continue
+      }
+
+      await logActivity({
+        action: "order.update_status",
+        entityType: "order",
+        entityId: order.id,
+        details: {
+          orderNumber: order.orderNumber,
+          from: order.status,
+          to: status,
+          bulk: true,
+        },
+      })
+      results.push({ ...result, success: true })
+    }
+
+    return { success: true as const, results }
+  } catch (error) {
+    console.error("Failed to update orders:", error)
+    return { success: false as const, error: "Failed to update orders" }
+  }
+}
+
 // Update order admin notes
 export async function updateOrderNotes(orderId: string, adminNotes: string) {
   try {
@@ -382,42 +640,3 @@ export async function getOrderStats() {
     return { success: false as const, error: "Failed to fetch order stats" }
   }
 }
-
-// Helper function to get order data for email
-async function getOrderForEmail(
-  orderId: string,
-): Promise<OrderEmailData | null> {
-  const order = await db.query.orders.findFirst({
-    where: eq(orders.id, orderId),
-  })
-
-  if (!order) return null
-
-  const items = await db
-    .select({
-      productName: orderItems.productName,
-      quantity: orderItems.quantity,
-      unitPrice: orderItems.unitPrice,
-    })
-    .from(orderItems)
-    .where(eq(orderItems.orderId, orderId))
-
-  return {
-    orderNumber: order.orderNumber,
-    customerName: order.customerName || "Customer",
-    customerEmail: order.customerEmail,
-    total: new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(parseFloat(order.total)),
-    items: items.map((item) => ({
-      name: item.productName,
-      quantity: item.quantity,
-      price: new Intl.NumberFormat("en-US", {
-        style: "currency",
-        currency: "USD",
-      }).format(parseFloat(item.unitPrice)),
-    })),
-    shippingAddress: order.shippingAddress as OrderEmailData["shippingAddress"],
-  }
-}
@@ -6,27 +6,32 @@ import { and, count, desc, eq, ilike, or } from "drizzle-orm"
 import { nanoid } from "nanoid"
 
 import { getServerSession, requireStaff } from "@/lib/auth/rbac"
-import { db } from "@/lib/db"
+import { type Database, db } from "@/lib/db"
 import {
   bankTransferProofs,
-  inventoryItems,
-  inventoryMovements,
-  orderItems,
   orders,
   orderStatusHistory,
   payments,
 } from "@/lib/db/schema"
+import { getOrderEmailData } from "@/lib/email/order-email-data"
+import {
+  sendBankTransferApprovedEmail,
+  sendBankTransferRejectedEmail,
+} from "@/lib/email/order-notifications"
+import {
+  commitOrderStock,
+  releaseOrderReservations,
+  reserveOrderStock,
+} from "@/lib/inventory/reservations"
+import { releaseOrderPromotion } from "@/lib/orders/promotions"
+import { settleCardPayment } from "@/lib/payments/card-payments"
+import {
+  getActivePaymentProvider,
+  getPaymentProvider,
+} from "@/lib/payments/providers"
+import { isValidTransition, type OrderStatus } from "@/lib/utils/order-status"
 
-// ============================================
-// DirectPay IPG Configuration
-// ============================================
-
-const DIRECTPAY_CONFIG = {
-  baseUrl: process.env.DIRECTPAY_API_URL || "http://localhost:3001",
-  merchantId: process.env.DIRECTPAY_MERCHANT_ID || "MERCHANT_TEST",
-  apiKey: process.env.DIRECTPAY_API_KEY || "test_api_key",
-  secretKey: process.env.DIRECTPAY_SECRET_KEY || "test_secret_key",
-}
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
 
 // ============================================
 // Initiate Card Payment
@@ -55,6 +60,20 @@ export async function initiateCardPayment(input: InitiatePaymentInput) {
     return { success: false, error: "Order cannot be paid in current status" }
   }
 
+  // A failed attempt released the order's stock; hold it again for the retry
+  const reservation = await db.transaction((tx) =>
+    reserveOrderStock(tx, order.id, {
+      notes: `Reserved for order ${order.orderNumber}`,
+      performedBy: session?.user?.id || null,
+    }),
+  )
+
+  if (!reservation.success) {
+    return { success: false, error: reservation.error }
+  }
+
+  const provider = await getActivePaymentProvider()
+
   // Generate idempotency key
   const idempotencyKey = `pay_${order.id}_${Date.now()}`
 
@@ -65,6 +84,7 @@ export async function initiateCardPayment(input: InitiatePaymentInput) {
       .values({
         orderId: order.id,
         method: "card",
+        provider: provider.id,
         status: "pending",
         amount: order.total,
         currency: "LKR",
@@ -72,52 +92,39 @@ export async function initiateCardPayment(input: InitiatePaymentInput) {
       })
       .returning()
 
-    // Initiate payment with DirectPay
-    const response = await fetch(
-      `${DIRECTPAY_CONFIG.baseUrl}/api/v1/payment/initiate`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": DIRECTPAY_CONFIG.apiKey,
-        },
-        body: JSON.stringify({
-          merchantId: DIRECTPAY_CONFIG.merchantId,
-          amount: parseFloat(order.total),
-          currency: "LKR",
-          orderId: order.orderNumber,
-          description: `Order ${order.orderNumber}`,
-          customerEmail: order.customerEmail,
-          customerPhone: order.customerPhone || "",
-          customerName: order.customerName || "",
-          returnUrl: input.returnUrl,
-          cancelUrl: input.cancelUrl,
-          notifyUrl: `${process.env.NEXT_PUBLIC_SITE_URL}/api/payment/webhook`,
-        }),
+    // Initiate payment with the configured gateway
+    const result = await provider.initiatePayment({
+      paymentId: payment.id,
+      orderNumber: order.orderNumber,
+      amount: parseFloat(order.total),
+      currency: payment.currency,
+      description: `Order ${order.orderNumber}`,
+      customer: {
+        email: order.customerEmail,
+        name: order.customerName,
+        phone: order.customerPhone,
       },
-    )
-
-    const data = await response.json()
+      returnUrl: input.returnUrl,
+      cancelUrl: input.cancelUrl,
+      notifyUrl: `${process.env.NEXT_PUBLIC_SITE_URL}${provider.webhookPath}`,
+    })
 
-    if (!data.success) {
+    if (!result.success) {
       // Update payment as failed
       await db
         .update(payments)
-        .set({ status: "failed", failureReason: data.error })
+        .set({ status: "failed", failureReason: result.error })
         .where(eq(payments.id, payment.id))
 
-      return {
-        success: false,
-        error: data.error || "Failed to initiate payment",
-      }
+      return { success: false, error: result.error }
     }
 
     // Update payment with session ID
     await db
       .update(payments)
       .set({
-        externalId: data.sessionId,
-        metadata: JSON.stringify({ paymentUrl: data.paymentUrl }),
+        externalId: result.externalId,
+        metadata: JSON.stringify({ paymentUrl: result.paymentUrl }),
       })
       .where(eq(payments.id, payment.id))
 
@@ -129,8 +136,8 @@ export async function initiateCardPayment(input: InitiatePaymentInput) {
 
     return {
       success: true,
-      paymentUrl: data.paymentUrl,
-      sessionId: data.sessionId,
+      paymentUrl: result.paymentUrl,
+      sessionId: result.externalId,
     }
   } catch (error) {
     console.error("Payment initiation failed:", error)
@@ -143,63 +150,37 @@ export async function initiateCardPayment(input: InitiatePaymentInput) {
 // ============================================
 
 export async function verifyPaymentStatus(sessionId: string) {
+  const session = await getServerSession()
+
   try {
     // Find payment by session ID
     const payment = await db.query.payments.findFirst({
-      where: eq(payments.externalId, sessionId),
+      where: and(
+        eq(payments.externalId, sessionId),
+        eq(payments.method, "card"),
+      ),
     })
 
     if (!payment) {
       return { success: false, error: "Payment not found" }
     }
 
-    // Check with DirectPay
-    const response = await fetch(
-      `${DIRECTPAY_CONFIG.baseUrl}/api/v1/payment/verify`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": DIRECTPAY_CONFIG.apiKey,
-        },
-        body: JSON.stringify({ sessionId }),
-      },
-    )
-
-    const data = await response.json()
-
-    if (!data.success) {
-      return { success: false, error: data.error }
+    const provider = getPaymentProvider(payment.provider)
+    if (!provider) {
+      return { success: false, error: "Unknown payment provider" }
     }
 
-    // Update payment based on status
-    const updateData: Partial<typeof payments.$inferInsert> = {
-      externalStatus: data.status,
-      updatedAt: new Date(),
-    }
+    // Check with the gateway that took the payment
+    const result = await provider.verifyPayment(sessionId)
 
-    if (data.status === "completed") {
-      updateData.status = "completed"
-      updateData.processedAt = data.paidAt ? new Date(data.paidAt) : new Date()
-      updateData.metadata = JSON.stringify({
-        transactionId: data.transactionId,
-        cardLast4: data.cardLast4,
-        cardBrand: data.cardBrand,
-      })
-    } else if (data.status === "failed") {
-      updateData.status = "failed"
-      updateData.failureReason = "Payment declined"
-    } else if (data.status === "cancelled") {
-      updateData.status = "failed"
-      updateData.failureReason = "Payment cancelled by user"
+    if (!result.success) {
+      return { success: false, error: result.error }
     }
 
-    await db.update(payments).set(updateData).where(eq(payments.id, payment.id))
-
-    // If completed, update order status
-    if (data.status === "completed") {
-      await processSuccessfulPayment(payment.orderId)
-    }
+    await settleCardPayment(payment.id, provider, result, {
+      changedBy: session?.user?.id || null,
+      source: "return",
+    })
 
     revalidatePath(`/orders/${payment.orderId}`)
     revalidatePath("/admin/orders")
@@ -207,8 +188,8 @@ export async function verifyPaymentStatus(sessionId: string) {
 
     return {
       success: true,
-      status: data.status,
-      transactionId: data.transactionId,
+      status: result.status,
+      transactionId: result.transactionId,
     }
   } catch (error) {
     console.error("Payment verification failed:", error)
@@ -216,75 +197,6 @@ export async function verifyPaymentStatus(sessionId: string) {
   }
 }
 
-// ============================================
-// Process Successful Payment
-// ============================================
-
-async function processSuccessfulPayment(orderId: string) {
-  const session = await getServerSession()
-
-  await db.transaction(async (tx) => {
-    // Update order status to paid
-    await tx
-      .update(orders)
-      .set({ status: "paid", updatedAt: new Date() })
-      .where(eq(orders.id, orderId))
-
-    // Add status history
-    await tx.insert(orderStatusHistory).values({
-      orderId,
-      fromStatus: "pending_payment",
-      toStatus: "paid",
-      notes: "Payment completed",
-      changedBy: session?.user?.id || null,
-    })
-
-    // Convert reserved inventory to sold
-    const items = await tx
-      .select()
-      .from(orderItems)
-      .where(eq(orderItems.orderId, orderId))
-
-    for (const item of items) {
-      if (!item.variantId) continue
-
-      const [inventory] = await tx
-        .select()
-        .from(inventoryItems)
-        .where(eq(inventoryItems.variantId, item.variantId))
-        .for("update")
-
-      if (inventory) {
-        const newQuantity = inventory.quantity - item.quantity
-        const newReserved = Math.max(
-          0,
-          inventory.reservedQuantity - item.quantity,
-        )
-
-        await tx
-          .update(inventoryItems)
-          .set({
-            quantity: newQuantity,
-            reservedQuantity: newReserved,
-            updatedAt: new Date(),
-          })
-          .where(eq(inventoryItems.id, inventory.id))
-
-        await tx.insert(inventoryMovements).values({
-          inventoryItemId: inventory.id,
-          type: "sale",
-          quantity: -item.quantity,
-          previousQuantity: inventory.quantity,
-          newQuantity,
-          referenceType: "order",
-          referenceId: orderId,
-          notes: `Sold - Order payment completed`,
-        })
-      }
-    }
-  })
-}
-
 // ============================================
 // Record Bank Transfer Payment
 // ============================================
@@ -425,48 +337,10 @@ export async function markCODPaymentCollected(orderId: string) {
         .where(eq(payments.id, payment.id))
 
       // Process inventory - convert reserved to sold
-      const items = await tx
-        .select()
-        .from(orderItems)
-        .where(eq(orderItems.orderId, orderId))
-
-      for (const item of items) {
-        if (!item.variantId) continue
-
-        const [inventory] = await tx
-          .select()
-          .from(inventoryItems)
-          .where(eq(inventoryItems.variantId, item.variantId))
-          .for("update")
-
-        if (inventory) {
-          const newQuantity = inventory.quantity - item.quantity
-          const newReserved = Math.max(
-            0,
-            inventory.reservedQuantity - item.quantity,
-          )
-
-          await tx
-            .update(inventoryItems)
-            .set({
-              quantity: newQuantity,
-              reservedQuantity: newReserved,
-              updatedAt: new Date(),
-            })
-            .where(eq(inventoryItems.id, inventory.id))
-
-          await tx.insert(inventoryMovements).values({
-            inventoryItemId: inventory.id,
-            type: "sale",
-            quantity: -item.quantity,
-            previousQuantity: inventory.quantity,
-            newQuantity,
-            referenceType: "order",
-            referenceId: orderId,
-            notes: "COD payment collected",
-          })
-        }
-      }
+      await commitOrderStock(tx, orderId, {
+        notes: "COD payment collected",
+        performedBy: session?.user?.id || null,
+      })
     })
 
     revalidatePath("/admin/orders")
@@ -632,20 +506,30 @@ export async function verifyBankTransfer(
   await requireStaff()
   const session = await getServerSession()
 
-  const payment = await db.query.payments.findFirst({
-    where: eq(payments.id, paymentId),
-  })
+  try {
+    // Lock the payment and its order: another reviewer, the customer or the
+    // stale order job may act on them at the same time
+    const result = await db.transaction(async (tx) => {
+      const [payment] = await tx
+        .select()
+        .from(payments)
+        .where(eq(payments.id, paymentId))
+        .for("update")
 
-  if (!payment) {
-    return { success: false, error: "Payment not found" }
-  }
+      if (!payment) {
+        return { success: false as const, error: "Payment not found" }
+      }
 
-  if (payment.status !== "pending") {
-    return { success: false, error: "Payment already processed" }
-  }
+      if (payment.status !== "pending") {
+        return { success: false as const, error: "Payment already processed" }
+      }
+
+      const [order] = await tx
+        .select({ id: orders.id, status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, payment.orderId))
+        .for("update")
 
-  try {
-    await db.transaction(async (tx) => {
       if (approved) {
         // Update payment as completed
         await tx
@@ -668,51 +552,92 @@ export async function verifyBankTransfer(
           })
           .where(eq(bankTransferProofs.paymentId, paymentId))
 
+        // The money is on record either way; a cancelled order needs a refund
+        if (!isValidTransition(order.status, "paid")) {
+          await tx.insert(orderStatusHistory).values({
+            orderId: order.id,
+            fromStatus: order.status,
+            toStatus: order.status,
+            notes: `Bank transfer verified after the order was ${order.status} - refund required`,
+            changedBy: session?.user?.id || null,
+          })
+          return {
+            success: true as const,
+            orderId: order.id,
+            orderPaid: false,
+          }
+        }
+
         // Process the successful payment
         await processSuccessfulPaymentInTx(
           tx,
-          payment.orderId,
+          order.id,
+          order.status,
           session?.user?.id || null,
         )
-      } else {
-        // Reject the payment
-        await tx
-          .update(payments)
-          .set({
-            status: "failed",
-            failureReason: notes || "Bank transfer verification failed",
-            updatedAt: new Date(),
-          })
-          .where(eq(payments.id, paymentId))
+        return { success: true as const, orderId: order.id, orderPaid: true }
+      }
 
-        await tx
-          .update(bankTransferProofs)
-          .set({
-            verifiedAt: new Date(),
-            verifiedBy: session?.user?.id || null,
-            verificationNotes: notes,
-          })
-          .where(eq(bankTransferProofs.paymentId, paymentId))
+      // Reject the payment
+      await tx
+        .update(payments)
+        .set({
+          status: "failed",
+          failureReason: notes || "Bank transfer verification failed",
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, paymentId))
 
-        // Update order status back to draft
+      await tx
+        .update(bankTransferProofs)
+        .set({
+          verifiedAt: new Date(),
+          verifiedBy: session?.user?.id || null,
+          verificationNotes: notes,
+        })
+        .where(eq(bankTransferProofs.paymentId, paymentId))
+
+      // Only an order still waiting on this transfer is cancelled
+      if (order.status === "pending_payment") {
         await tx
           .update(orders)
           .set({ status: "cancelled", updatedAt: new Date() })
-          .where(eq(orders.id, payment.orderId))
+          .where(eq(orders.id, order.id))
 
         await tx.insert(orderStatusHistory).values({
-          orderId: payment.orderId,
-          fromStatus: "pending_payment",
+          orderId: order.id,
+          fromStatus: order.status,
           toStatus: "cancelled",
           notes: `Bank transfer rejected: ${notes || "Verification failed"}`,
           changedBy: session?.user?.id || null,
         })
+
+        await releaseOrderReservations(tx, order.id, {
+          notes: "Released - Bank transfer rejected",
+          performedBy: session?.user?.id || null,
+        })
+        await releaseOrderPromotion(tx, order.id)
       }
+
+      return { success: true as const, orderId: order.id, orderPaid: false }
     })
 
+    if (!result.success) {
+      return { success: false, error: result.error }
+    }
+
     revalidatePath("/admin/payments")
     revalidatePath("/admin/orders")
-    revalidatePath(`/admin/orders/${payment.orderId}`)
+    revalidatePath(`/admin/orders/${result.orderId}`)
+
+    const orderData = await getOrderEmailData(result.orderId)
+    if (orderData) {
+      if (result.orderPaid) {
+        await sendBankTransferApprovedEmail(orderData)
+      } else if (!approved) {
+        await sendBankTransferRejectedEmail({ ...orderData, reason: notes })
+      }
+    }
 
     return { success: true }
   } catch (error) {
@@ -723,8 +648,9 @@ export async function verifyBankTransfer(
 
 // Helper for transaction context
 async function processSuccessfulPaymentInTx(
-  tx: any,
+  tx: Transaction,
   orderId: string,
+  fromStatus: OrderStatus,
   userId: string | null,
 ) {
   await tx
@@ -734,53 +660,17 @@ async function processSuccessfulPaymentInTx(
 
   await tx.insert(orderStatusHistory).values({
     orderId,
-    fromStatus: "pending_payment",
+    fromStatus,
     toStatus: "paid",
     notes: "Bank transfer verified",
     changedBy: userId,
   })
 
   // Convert reserved to sold
-  const items = await tx
-    .select()
-    .from(orderItems)
-    .where(eq(orderItems.orderId, orderId))
-
-  for (const item of items) {
-    const [inventory] = await tx
-      .select()
-      .from(inventoryItems)
-      .where(eq(inventoryItems.variantId, item.variantId))
-      .for("update")
-
-    if (inventory) {
-      const newQuantity = inventory.quantity - item.quantity
-      const newReserved = Math.max(
-        0,
-        inventory.reservedQuantity - item.quantity,
-      )
-
-      await tx
-        .update(inventoryItems)
-        .set({
-          quantity: newQuantity,
-          reservedQuantity: newReserved,
-          updatedAt: new Date(),
-        })
-        .where(eq(inventoryItems.id, inventory.id))
-
-      await tx.insert(inventoryMovements).values({
-        inventoryItemId: inventory.id,
-        type: "sale",
-        quantity: -item.quantity,
-        previousQuantity: inventory.quantity,
-        newQuantity,
-        referenceType: "order",
-        referenceId: orderId,
-        notes: "Bank transfer payment verified",
-      })
-    }
-  }
+  await commitOrderStock(tx, orderId, {
+    notes: "Bank transfer payment verified",
+    performedBy: userId,
+  })
 }
 
 // ============================================
@@ -0,0 +1,264 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { asc, desc, eq, ne } from "drizzle-orm"
+import { z } from "zod"
+
+import { requirePermission } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import {
+  categories,
+  priceCampaigns,
+  products,
+  productVariants,
+} from "@/lib/db/schema"
+import { revalidateProductCaches } from "@/lib/utils/cache"
+
+import { logActivity } from "./activity-log"
+
+// Schema for creating/updating a price campaign
+const priceCampaignSchema = z
+  .object({
+    name: z.string().min(1, "Name is required").max(255),
+    description: z.string().optional().nullable(),
+    type: z.enum(["percentage", "fixed_price"]),
+    value: z.number().positive("Discount value is required"),
+    productIds: z.array(z.string().uuid()).default([]),
+    variantIds: z.array(z.string().uuid()).default([]),
+    categoryIds: z.array(z.string().uuid()).default([]),
+    startsAt: z.coerce.date({ required_error: "Start date is required" }),
+    endsAt: z.coerce.date({ required_error: "End date is required" }),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.type !== "percentage" || data.value <= 100, {
+    message: "Percentage cannot exceed 100",
+    path: ["value"],
+  })
+  .refine((data) => data.startsAt < data.endsAt, {
+    message: "End date must be after start date",
+    path: ["endsAt"],
+  })
+  .refine(
+    (data) =>
+      data.productIds.length +
+        data.variantIds.length +
+        data.categoryIds.length >
+      0,
+    {
+      message: "Choose at least one product, variant or category",
+      path: ["productIds"],
+    },
+  )
+
+export type PriceCampaignInput = z.input<typeof priceCampaignSchema>
+
+function toValues(data: z.infer<typeof priceCampaignSchema>) {
+  return {
+    name: data.name,
+    description: data.description || null,
+    type: data.type,
+    value: data.value.toFixed(2),
+    productIds: data.productIds,
+    variantIds: data.variantIds,
+    categoryIds: data.categoryIds,
+    startsAt: data.startsAt,
+    endsAt: data.endsAt,
+    isActive: data.isActive,
+  }
+}
+
+// Saving changes storefront prices right away if the campaign is running,
+// so cached listings are refreshed and the cron job has nothing to catch up
+function revalidateCampaignCaches() {
+  revalidateProductCaches()
+  revalidatePath("/deals")
+  revalidatePath("/admin/price-campaigns")
+}
+
+// ============================================
+// Get Price Campaigns
+// ============================================
+
+export async function getPriceCampaigns() {
+  await requirePermission("promotion.list")
+
+  return db
+    .select({
+      id: priceCampaigns.id,
+      name: priceCampaigns.name,
+      type: priceCampaigns.type,
+      value: priceCampaigns.value,
+      productIds: priceCampaigns.productIds,
+      variantIds: priceCampaigns.variantIds,
+      categoryIds: priceCampaigns.categoryIds,
+      startsAt: priceCampaigns.startsAt,
+      endsAt: priceCampaigns.endsAt,
+      isActive: priceCampaigns.isActive,
+    })
+    .from(priceCampaigns)
+    .orderBy(desc(priceCampaigns.startsAt))
+}
+
+export async function getPriceCampaign(id: string) {
+  await requirePermission("promotion.read")
+
+  const [campaign] = await db
+    .select()
+    .from(priceCampaigns)
+    .where(eq(priceCampaigns.id, id))
+    .limit(1)
+
+  return campaign || null
+}
+
+/**
+ * Products, variants and categories a campaign can target
+ */
+export async function getPriceCampaignScopeOptions() {
+  await requirePermission("promotion.read")
+
+  const [productOptions, variantOptions, categoryOptions] = await Promise.all([
+    db
+      .select({ id: products.id, name: products.name })
+      .from(products)
+      .where(ne(products.status, "archived"))
+      .orderBy(asc(products.name)),
+    db
+      .select({
+        id: productVariants.id,
+        name: productVariants.name,
+        sku: productVariants.sku,
+        productName: products.name,
+      })
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(ne(products.status, "archived"))
+      .orderBy(asc(products.name), asc(productVariants.sortOrder)),
+    db
+      .select({ id: categories.id, name: categories.name })
+      .from(categories)
+      .orderBy(asc(categories.name)),
+  ])
+
+  return {
+    products: productOptions,
+    variants: variantOptions,
+    categories: categoryOptions,
+  }
+}
+
+// ============================================
+// Create / Update / Delete
+// ============================================
+
+export async function createPriceCampaign(data: PriceCampaignInput) {
+  try {
+    const session = await requirePermission("promotion.create")
+    const validated = priceCampaignSchema.parse(data)
+
+    const [campaign] = await db
+      .insert(priceCampaigns)
+      .values({
+        ...toValues(validated),
+        cachesRefreshedAt: new Date(),
+        createdBy: session.user.id,
+      })
+      .returning()
+
+    await logActivity({
+      action: "price_campaign.create",
+      entityType: "price_campaign",
+      entityId: campaign.id,
+      details: {
+        name: campaign.name,
+        type: campaign.type,
+        value: campaign.value,
+      },
+    })
+
+    revalidateCampaignCaches()
+    return { success: true as const, data: campaign }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid campaign",
+      }
+    }
+    console.error("Failed to create price campaign:", error)
+    return { success: false as const, error: "Failed to create campaign" }
+  }
+}
+
+export async function updatePriceCampaign(
+  id: string,
+  data: PriceCampaignInput,
+) {
+  try {
+    await requirePermission("promotion.update")
+    const validated = priceCampaignSchema.parse(data)
+
+    const now = new Date()
+    const [campaign] = await db
+      .update(priceCampaigns)
+      .set({ ...toValues(validated), cachesRefreshedAt: now, updatedAt: now })
+      .where(eq(priceCampaigns.id, id))
+      .returning()
+
+    if (!campaign) {
+      return { success: false as const, error: "Campaign not found" }
+    }
+
+    await logActivity({
+      action: "price_campaign.update",
+      entityType: "price_campaign",
+      entityId: campaign.id,
+      details: { name: campaign.name },
+    })
+
+    revalidateCampaignCaches()
+    revalidatePath(`/admin/price-campaigns/${id}`)
+    return { success: true as const, data: campaign }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid campaign",
+      }
+    }
+    console.error("Failed to update price campaign:", error)
+    return { success: false as const, error: "Failed to update campaign" }
+  }
+}
+
+/**
+ * Delete a price campaign. Orders keep the prices they were placed at.
+ */
+export async function deletePriceCampaign(id: string) {
+  try {
+    await requirePermission("promotion.delete")
+
+    const [campaign] = await db
+      .delete(priceCampaigns)
+      .where(eq(priceCampaigns.id, id))
+      .returning({ id: priceCampaigns.id, name: priceCampaigns.name })
+
+    if (!campaign) {
+      return { success: false as const, error: "Campaign not found" }
+    }
+
+    await logActivity({
+      action: "price_campaign.delete",
+      entityType: "price_campaign",
+      entityId: id,
+      details: { name: campaign.name },
+    })
+
+    revalidateCampaignCaches()
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to delete price campaign:", error)
+    return { success: false as const, error: "Failed to delete campaign" }
+  }
+}
@@ -0,0 +1,257 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, asc, eq, inArray, ne } from "drizzle-orm"
+
+import { requirePermission } from "@/lib/auth/rbac"
+import { getBundleContents, refreshBundlePrices } from "@/lib/catalog/bundles"
+import { db } from "@/lib/db"
+import {
+  productBundleItems,
+  productBundles,
+  products,
+  productVariants,
+} from "@/lib/db/schema"
+import {
+  type ProductBundleInput,
+  productBundleSchema,
+} from "@/lib/schemas/product"
+import { revalidateProductCaches } from "@/lib/utils/cache"
+
+import { logActivity } from "./activity-log"
+
+function revalidateBundleCaches(productId: string, slug: string) {
+  revalidatePath("/admin/products")
+  revalidatePath(`/admin/products/${productId}`)
+  revalidatePath(`/products/${slug}`)
+  revalidateProductCaches()
+}
+
+// ============================================
+// Admin: Get Product Bundles
+// ============================================
+
+/**
+ * Bundles defined on a product's variants, and the variants that can go
+ * in them: any variant of another product that isn't a bundle itself.
+ */
+export async function getProductBundleEditor(productId: string) {
+  await requirePermission("product.read")
+
+  const variants = await db
+    .select({ id: productVariants.id })
+    .from(productVariants)
+    .where(eq(productVariants.productId, productId))
+
+  const [contents, bundleVariants, componentOptions] = await Promise.all([
+    getBundleContents(variants.map((v) => v.id)),
+    db.select({ variantId: productBundles.variantId }).from(productBundles),
+    db
+      .select({
+        id: productVariants.id,
+        name: productVariants.name,
+        sku: productVariants.sku,
+        price: productVariants.price,
+        productName: products.name,
+      })
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(
+        and(
+          ne(products.id, productId),
+          ne(products.status, "archived"),
+          eq(productVariants.isActive, true),
+        ),
+      )
+      .orderBy(asc(products.name), asc(productVariants.sortOrder)),
+  ])
+
+  const bundleIds = new Set(bundleVariants.map((b) => b.variantId))
+
+  return {
+    bundles: [...contents.values()].map((bundle) => ({
+      variantId: bundle.variantId,
+      discountPercent: bundle.discountPercent,
+      items: bundle.components.map((c) => ({
+        componentVariantId: c.variantId,
+        quantity: c.quantity,
+      })),
+    })),
+    componentOptions: componentOptions.filter((v) => !bundleIds.has(v.id)),
+  }
+}
+
+// ============================================
+// Admin: Save / Remove Product Bundle
+// ============================================
+
+/**
+ * Make a variant a bundle of other variants, or replace its contents.
+ * Discount bundles are repriced from their components right away.
+ */
+export async function saveProductBundle(input: ProductBundleInput) {
+  try {
+    await requirePermission("product.write")
+
+    const parsed = productBundleSchema.safeParse(input)
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message || "Invalid bundle",
+      }
+    }
+    const data = parsed.data
+    const componentIds = data.items.map((i) => i.componentVariantId)
+
+    const [variant] = await db
+      .select({
+        id: productVariants.id,
+        productId: productVariants.productId,
+        slug: products.slug,
+        productName: products.name,
+      })
+      .from(productVariants)
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(eq(productVariants.id, data.variantId))
+      .limit(1)
+
+    if (!variant) {
+      return { success: false as const, error: "Variant not found" }
+    }
+
+    const components = await db
+      .select({
+        id: productVariants.id,
+        productId: productVariants.productId,
+      })
+      .from(productVariants)
+      .where(inArray(productVariants.id, componentIds))
+
+    if (components.length !== componentIds.length) {
+      return { success: false as const, error: "Component not found" }
+    }
+    if (components.some((c) => c.productId === variant.productId)) {
+      return {
+        success: false as const,
+        error: "A bundle can't contain variants of its own product",
+      }
+    }
+
+    // One level only: bundles don't nest, and a component can't become one
+    const [nested] = await db
+      .select({ id: productBundles.id })
+      .from(productBundles)
+      .where(inArray(productBundles.variantId, componentIds))
+      .limit(1)
+    if (nested) {
+      return {
+        success: false as const,
+        error: "A bundle can't contain another bundle",
+      }
+    }
+
+    const [usedAsComponent] = await db
+      .select({ id: productBundleItems.id })
+      .from(productBundleItems)
+      .where(eq(productBundleItems.componentVariantId, data.variantId))
+      .limit(1)
+    if (usedAsComponent) {
+      return {
+        success: false as const,
+        error: "This variant is part of another bundle",
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      const discountPercent =
+        data.discountPercent !== null ? data.discountPercent.toFixed(2) : null
+
+      const [bundle] = await tx
+        .insert(productBundles)
+        .values({ variantId: data.variantId, discountPercent })
+        .onConflictDoUpdate({
+          target: productBundles.variantId,
+          set: { discountPercent, updatedAt: new Date() },
+        })
+        .returning()
+
+      await tx
+        .delete(productBundleItems)
+        .where(eq(productBundleItems.bundleId, bundle.id))
+      await tx.insert(productBundleItems).values(
+        data.items.map((item, index) => ({
+          bundleId: bundle.id,
+          componentVariantId: item.componentVariantId,
+          quantity: item.quantity,
+          sortOrder: index,
+        })),
+      )
+
+      await refreshBundlePrices(tx, { bundleVariantIds: [data.variantId] })
+    })
+
+    await logActivity({
+      action: "product.update",
+      entityType: "product",
+      entityId: variant.productId,
+      details: {
+        name: variant.productName,
+        bundleVariantId: data.variantId,
+        components: data.items.length,
+        discountPercent: data.discountPercent,
+      },
+    })
+
+    revalidateBundleCaches(variant.productId, variant.slug)
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to save product bundle:", error)
+    return { success: false as const, error: "Failed to save bundle" }
+  }
+}
+
+/**
+ * Turn a bundle back into a plain variant. It sells from its own
+ * inventory item again, so it is out of stock until restocked.
+ */
+export async function removeProductBundle(variantId: string) {
+  try {
+    await requirePermission("product.write")
+
+    const [bundle] = await db
+      .select({
+        id: productBundles.id,
+        productId: products.id,
+        slug: products.slug,
+        productName: products.name,
+      })
+      .from(productBundles)
+      .innerJoin(
+        productVariants,
+        eq(productBundles.variantId, productVariants.id),
+      )
+      .innerJoin(products, eq(productVariants.productId, products.id))
+      .where(eq(productBundles.variantId, variantId))
+      .limit(1)
+
+    if (!bundle) {
+      return { success: false as const, error: "Bundle not found" }
+    }
+
+    await db.delete(productBundles).where(eq(productBundles.id, bundle.id))
+
+    await logActivity({
+      action: "product.update",
+      entityType: "product",
+      entityId: bundle.productId,
+      details: { name: bundle.productName, removedBundleVariantId: variantId },
+    })
+
+    revalidateBundleCaches(bundle.productId, bundle.slug)
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to remove product bundle:", error)
+    return { success: false as const, error: "Failed to remove bundle" }
+  }
+}
@@ -0,0 +1,117 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { logActivity } from "@/lib/actions/activity-log"
+import { requirePermission } from "@/lib/auth/rbac"
+import {
+  applyProductImport,
+  planProductImport,
+  ProductSheetError,
+  readProductSheet,
+} from "@/lib/catalog/product-import"
+import { db } from "@/lib/db"
+import { refreshProductSearchIndex } from "@/lib/search/product-index"
+import { revalidateProductCaches } from "@/lib/utils/cache"
+
+function sheetFile(formData: FormData): File | null {
+  const file = formData.get("file")
+  return file instanceof File && file.size > 0 ? file : null
+}
+
+// ============================================
+// Admin: Import Preview (dry run)
+// ============================================
+
+/**
+ * Validate an uploaded product sheet and report what importing it would
+ * change, without writing anything.
+ */
+export async function previewProductImport(formData: FormData) {
+  try {
+    await requirePermission("product.write")
+
+    const file = sheetFile(formData)
+    if (!file) {
+      return { success: false as const, error: "Choose a file to import" }
+    }
+
+    const { preview } = await planProductImport(await readProductSheet(file))
+    return { success: true as const, data: preview }
+  } catch (error) {
+    if (error instanceof ProductSheetError) {
+      return { success: false as const, error: error.message }
+    }
+    console.error("Failed to preview product import:", error)
+    return { success: false as const, error: "Failed to read the file" }
+  }
+}
+
+// ============================================
+// Admin: Import Products
+// ============================================
+
+/**
+ * Import an uploaded product sheet. The sheet is validated again and
+ * nothing is written unless every row is valid; all products are then
+ * written in one transaction.
+ */
+export async function importProducts(formData: FormData) {
+  try {
+    const session = await requirePermission("product.write")
+
+    const file = sheetFile(formData)
+    if (!file) {
+      return { success: false as const, error: "Choose a file to import" }
+    }
+
+    const { plans, preview } = await planProductImport(
+      await readProductSheet(file),
+    )
+    if (preview.errors.length > 0) {
+      return {
+        success: false as const,
+        error: "Fix the errors in the file before importing",
+        data: preview,
+      }
+    }
+
+    const productIds = await db.transaction(async (tx) => {
+      const ids = await applyProductImport(tx, plans, session.user.id)
+      if (ids.length > 0) await refreshProductSearchIndex(ids, tx)
+      return ids
+    })
+
+    const count = (action: string) =>
+      preview.products.filter((p) => p.action === action).length
+    const summary = {
+      created: count("create"),
+      updated: count("update"),
+      unchanged: count("unchanged"),
+    }
+
+    await logActivity({
+      action: "product.import",
+      entityType: "product",
+      details: {
+        fileName: file.name,
+        rows: preview.rowCount,
+        ...summary,
+      },
+    })
+
+    if (productIds.length > 0) {
+      revalidatePath("/admin/products")
+      revalidatePath("/admin/inventory")
+      revalidatePath("/products")
+      revalidateProductCaches()
+    }
+    return { success: true as const, data: summary }
+  } catch (error) {
+    if (error instanceof ProductSheetError) {
+      return { success: false as const, error: error.message }
+    }
+    console.error("Failed to import products:", error)
+    return { success: false as const, error: "Failed to import products" }
+  }
+}
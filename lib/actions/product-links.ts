@@ -0,0 +1,150 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, asc, eq, inArray, ne } from "drizzle-orm"
+
+import { requirePermission } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import { productLinks, products } from "@/lib/db/schema"
+import {
+  type ProductLinksInput,
+  productLinksSchema,
+} from "@/lib/schemas/product"
+
+import { logActivity } from "./activity-log"
+
+// ============================================
+// Admin: Get Product Links
+// ============================================
+
+/**
+ * A product's hand-picked related products and cross-sells, and the
+ * products that can be linked: any other product that isn't archived.
+ */
+export async function getProductLinkEditor(productId: string) {
+  await requirePermission("product.read")
+
+  const [links, productOptions] = await Promise.all([
+    db
+      .select({
+        linkedProductId: productLinks.linkedProductId,
+        type: productLinks.type,
+      })
+      .from(productLinks)
+      .where(eq(productLinks.productId, productId))
+      .orderBy(asc(productLinks.sortOrder)),
+    db
+      .select({
+        id: products.id,
+        name: products.name,
+        status: products.status,
+      })
+      .from(products)
+      .where(and(ne(products.id, productId), ne(products.status, "archived")))
+      .orderBy(asc(products.name)),
+  ])
+
+  return {
+    related: links
+      .filter((link) => link.type === "related")
+      .map((link) => link.linkedProductId),
+    crossSell: links
+      .filter((link) => link.type === "cross_sell")
+      .map((link) => link.linkedProductId),
+    productOptions,
+  }
+}
+
+// ============================================
+// Admin: Save Product Links
+// ============================================
+
+/**
+ * Replace a product's hand-picked recommendations. They are shown ahead
+ * of frequently-bought-together and same-category suggestions.
+ */
+export async function saveProductLinks(input: ProductLinksInput) {
+  try {
+    await requirePermission("product.write")
+
+    const parsed = productLinksSchema.safeParse(input)
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message || "Invalid links",
+      }
+    }
+    const data = parsed.data
+    const linkedIds = [...new Set([...data.related, ...data.crossSell])]
+
+    if (linkedIds.includes(data.productId)) {
+      return {
+        success: false as const,
+        error: "A product can't be linked to itself",
+      }
+    }
+
+    const [product] = await db
+      .select({ id: products.id, name: products.name, slug: products.slug })
+      .from(products)
+      .where(eq(products.id, data.productId))
+      .limit(1)
+
+    if (!product) {
+      return { success: false as const, error: "Product not found" }
+    }
+
+    if (linkedIds.length > 0) {
+      const found = await db
+        .select({ id: products.id })
+        .from(products)
+        .where(inArray(products.id, linkedIds))
+      if (found.length !== linkedIds.length) {
+        return { success: false as const, error: "Linked product not found" }
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(productLinks)
+        .where(eq(productLinks.productId, data.productId))
+
+      const rows = [
+        ...data.related.map((id, index) => ({
+          productId: data.productId,
+          linkedProductId: id,
+          type: "related" as const,
+          sortOrder: index,
+        })),
+        ...data.crossSell.map((id, index) => ({
+          productId: data.productId,
+          linkedProductId: id,
+          type: "cross_sell" as const,
+          sortOrder: index,
+        })),
+      ]
+      if (rows.length > 0) {
+        await tx.insert(productLinks).values(rows)
+      }
+    })
+
+    await logActivity({
+      action: "product.update",
+      entityType: "product",
+      entityId: product.id,
+      details: {
+        name: product.name,
+        relatedProducts: data.related.length,
+        crossSells: data.crossSell.length,
+      },
+    })
+
+    revalidatePath(`/admin/products/${product.id}`)
+    revalidatePath(`/products/${product.slug}`)
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to save product links:", error)
+    return { success: false as const, error: "Failed to save links" }
+  }
+}
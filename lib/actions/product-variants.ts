@@ -0,0 +1,96 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, eq, inArray, ne } from "drizzle-orm"
+
+import { requirePermission } from "@/lib/auth/rbac"
+import { writeVariantMatrix } from "@/lib/catalog/variant-matrix"
+import { db } from "@/lib/db"
+import { products, productVariants } from "@/lib/db/schema"
+import { variantMatrixSchema } from "@/lib/schemas/product"
+import { refreshProductSearchIndex } from "@/lib/search/product-index"
+import { revalidateProductCaches } from "@/lib/utils/cache"
+import {
+  validateVariantMatrix,
+  type VariantMatrixInput,
+} from "@/lib/utils/variants"
+
+// ============================================
+// Admin: Save Product Options & Variant Matrix
+// ============================================
+
+/**
+ * Replace a product's option types and values, and bring its variants in
+ * line with the matrix (see `writeVariantMatrix`).
+ */
+export async function saveProductVariants(
+  productId: string,
+  input: VariantMatrixInput,
+) {
+  try {
+    const session = await requirePermission("product.write")
+
+    const parsed = variantMatrixSchema.safeParse(input)
+    if (!parsed.success) {
+      return {
+        success: false as const,
+        error: parsed.error.errors[0]?.message || "Invalid variants",
+      }
+    }
+    const data = parsed.data
+
+    const invalid = validateVariantMatrix(data)
+    if (invalid) {
+      return { success: false as const, error: invalid }
+    }
+
+    const [product] = await db
+      .select({ id: products.id, slug: products.slug })
+      .from(products)
+      .where(eq(products.id, productId))
+      .limit(1)
+
+    if (!product) {
+      return { success: false as const, error: "Product not found" }
+    }
+
+    // SKUs are unique across the catalog
+    const existingSkus = await db
+      .select({ sku: productVariants.sku })
+      .from(productVariants)
+      .where(
+        and(
+          inArray(
+            productVariants.sku,
+            data.variants.map((v) => v.sku),
+          ),
+          ne(productVariants.productId, productId),
+        ),
+      )
+
+    if (existingSkus.length > 0) {
+      return {
+        success: false as const,
+        error: `SKU "${existingSkus[0].sku}" is already used by another product`,
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      await writeVariantMatrix(tx, productId, data, session.user.id)
+
+      // Variant SKUs are searchable
+      await refreshProductSearchIndex([productId], tx)
+    })
+
+    revalidatePath("/admin/products")
+    revalidatePath(`/admin/products/${productId}`)
+    revalidatePath(`/products/${product.slug}`)
+    revalidatePath("/admin/inventory")
+    revalidateProductCaches()
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to save product variants:", error)
+    return { success: false as const, error: "Failed to save variants" }
+  }
+}
@@ -2,56 +2,47 @@
 
 import { revalidatePath } from "next/cache"
 
-import { and, asc, desc, eq, ilike, sql } from "drizzle-orm"
+import { and, asc, desc, eq, ilike, inArray, type SQL, sql } from "drizzle-orm"
 import { nanoid } from "nanoid"
 import { z } from "zod"
 
+import { logActivity } from "@/lib/actions/activity-log"
 import { requirePermission } from "@/lib/auth/rbac"
+import {
+  getBundleContents,
+  getContainingBundleNames,
+} from "@/lib/catalog/bundles"
+import { categorySubtreeIds } from "@/lib/catalog/category-tree"
+import {
+  effectivePriceSql,
+  getPriceResolver,
+  withCampaignPrices,
+} from "@/lib/catalog/price-campaigns"
 import { db } from "@/lib/db"
 import {
   categories,
   inventoryItems,
   inventoryMovements,
   productImages,
+  productOptions,
+  productOptionValues,
   products,
+  productVariantOptionValues,
   productVariants,
 } from "@/lib/db/schema"
+import {
+  type CreateProductInput,
+  createProductSchema,
+  type CreateVariantInput,
+  createVariantSchema,
+} from "@/lib/schemas/product"
+import { type ProductFacetFilters } from "@/lib/search/facet-params"
+import { getProductFacets, productFacetConditions } from "@/lib/search/facets"
+import { refreshProductSearchIndex } from "@/lib/search/product-index"
+import { bulkIdsSchema, type BulkRowResult } from "@/lib/utils/bulk-actions"
+import { bundleAvailability } from "@/lib/utils/bundles"
 import { revalidateProductCaches } from "@/lib/utils/cache"
 
-// Schema for creating a product
-const createProductSchema = z.object({
-  name: z.string().min(1).max(255),
-  slug: z.string().min(1).max(255).optional(),
-  description: z.string().optional(),
-  shortDescription: z.string().max(500).optional(),
-  categoryId: z.string().uuid().optional().nullable(),
-  basePrice: z
-    .string()
-    .refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0),
-  compareAtPrice: z.string().optional().nullable(),
-  costPrice: z.string().optional().nullable(),
-  status: z.enum(["draft", "active", "archived"]).default("draft"),
-  isFeatured: z.boolean().default(false),
-  metaTitle: z.string().max(100).optional(),
-  metaDescription: z.string().max(300).optional(),
-})
-
-// Schema for creating a product variant
-const createVariantSchema = z.object({
-  productId: z.string().uuid(),
-  sku: z.string().min(1).max(100).optional(),
-  name: z.string().min(1).max(255),
-  price: z
-    .string()
-    .refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0),
-  compareAtPrice: z.string().optional().nullable(),
-  costPrice: z.string().optional().nullable(),
-  weight: z.string().optional().nullable(),
-  isDefault: z.boolean().default(false),
-  isActive: z.boolean().default(true),
-  initialStock: z.number().int().min(0).default(0),
-})
-
 // Schema for updating stock
 const updateStockSchema = z.object({
   variantId: z.string().uuid(),
@@ -106,8 +97,11 @@ export async function getProducts(options?: {
     )
   }
 
+  // A category lists the products of its subcategories too
   if (options?.categoryId) {
-    conditions.push(eq(products.categoryId, options.categoryId))
+    conditions.push(
+      inArray(products.categoryId, categorySubtreeIds(options.categoryId)),
+    )
   }
 
   const whereClause = conditions.length > 0 ? and(...conditions) : undefined
@@ -149,25 +143,46 @@ export async function getProduct(id: string) {
     return null
   }
 
-  const [variants, images, category] = await Promise.all([
-    db
-      .select()
-      .from(productVariants)
-      .where(eq(productVariants.productId, id))
-      .orderBy(asc(productVariants.sortOrder)),
-    db
-      .select()
-      .from(productImages)
-      .where(eq(productImages.productId, id))
-      .orderBy(asc(productImages.sortOrder)),
-    product.categoryId
-      ? db
+  const [variants, images, category, options, variantOptionValues] =
+    await Promise.all([
+      db
         .select()
-        .from(categories)
-        .where(eq(categories.id, product.categoryId))
-        .limit(1)
-      : Promise.resolve([]),
-  ])
+        .from(productVariants)
+        .where(eq(productVariants.productId, id))
+        .orderBy(asc(productVariants.sortOrder)),
+      db
+        .select()
+        .from(productImages)
+        .where(eq(productImages.productId, id))
+        .orderBy(asc(productImages.sortOrder)),
+      product.categoryId
+        ? db
+            .select()
+            .from(categories)
+            .where(eq(categories.id, product.categoryId))
+            .limit(1)
+        : Promise.resolve([]),
+      db.query.productOptions.findMany({
+        where: eq(productOptions.productId, id),
+        orderBy: asc(productOptions.sortOrder),
+        with: {
+          values: {
+            orderBy: asc(productOptionValues.sortOrder),
+          },
+        },
+      }),
+      db
+        .select({
+          variantId: productVariantOptionValues.variantId,
+          optionValueId: productVariantOptionValues.optionValueId,
+        })
+        .from(productVariantOptionValues)
+        .innerJoin(
+          productVariants,
+          eq(productVariantOptionValues.variantId, productVariants.id),
+        )
+        .where(eq(productVariants.productId, id)),
+    ])
 
   // Get inventory for each variant
   const variantsWithInventory = await Promise.all(
@@ -180,6 +195,9 @@ export async function getProduct(id: string) {
 
       return {
         ...variant,
+        optionValueIds: variantOptionValues
+          .filter((v) => v.variantId === variant.id)
+          .map((v) => v.optionValueId),
         inventory: inventory || null,
       }
     }),
@@ -188,13 +206,15 @@ export async function getProduct(id: string) {
   return {
     ...product,
     variants: variantsWithInventory,
+    options,
     images,
     category: category[0] || null,
   }
 }
 
 /**
- * Get a product by slug (for storefront)
+ * Get a product by slug (for storefront), priced with any running price
+ * campaign
  */
 export async function getProductBySlug(slug: string) {
   const [product] = await db
@@ -207,25 +227,70 @@ export async function getProductBySlug(slug: string) {
     return null
   }
 
-  return getProduct(product.id)
+  const [detail, resolve] = await Promise.all([
+    getProduct(product.id),
+    getPriceResolver(),
+  ])
+
+  if (!detail) {
+    return null
+  }
+
+  const item = { productId: detail.id, categoryId: detail.categoryId }
+  const { price, compareAtPrice, campaign } = resolve(
+    item,
+    detail.basePrice,
+    detail.compareAtPrice,
+  )
+  const bundles = await getBundleContents(detail.variants.map((v) => v.id))
+
+  return {
+    ...detail,
+    basePrice: price,
+    compareAtPrice,
+    campaign,
+    variants: detail.variants.map((variant) => {
+      const bundle = bundles.get(variant.id)
+      return {
+        ...variant,
+        ...resolve(
+          { ...item, variantId: variant.id },
+          variant.price,
+          variant.compareAtPrice,
+        ),
+        // Bundles show the stock their components allow
+        inventory: bundle
+          ? {
+              id: variant.inventory?.id ?? variant.id,
+              quantity: bundleAvailability(bundle.components),
+              reservedQuantity: 0,
+              lowStockThreshold: null,
+            }
+          : variant.inventory,
+        bundle: bundle
+          ? {
+              components: bundle.components.map((c) => ({
+                productName: c.productName,
+                productSlug: c.productSlug,
+                variantName: c.variantName,
+                quantity: c.quantity,
+              })),
+            }
+          : null,
+      }
+    }),
+  }
 }
 
-/**
- * Get products for storefront with filtering and pagination
- */
-export async function getStorefrontProducts(options?: {
-  page?: number
-  limit?: number
+interface StorefrontProductFilters {
   categoryId?: string
   search?: string
-  sortBy?: "newest" | "price-low" | "price-high" | "name"
   featured?: boolean
-}) {
-  const page = options?.page || 1
-  const limit = options?.limit || 12
-  const offset = (page - 1) * limit
+}
 
-  const conditions = [eq(products.status, "active")]
+// Listing conditions before facets are applied
+function storefrontConditions(options?: StorefrontProductFilters) {
+  const conditions: SQL[] = [eq(products.status, "active")]
 
   if (options?.categoryId) {
     conditions.push(eq(products.categoryId, options.categoryId))
@@ -239,16 +304,39 @@ export async function getStorefrontProducts(options?: {
     conditions.push(eq(products.isFeatured, true))
   }
 
+  return conditions
+}
+
+/**
+ * Get products for storefront with filtering and pagination
+ */
+export async function getStorefrontProducts(
+  options?: StorefrontProductFilters & {
+    page?: number
+    limit?: number
+    sortBy?: "newest" | "price-low" | "price-high" | "name"
+    facets?: ProductFacetFilters
+  },
+) {
+  const page = options?.page || 1
+  const limit = options?.limit || 12
+  const offset = (page - 1) * limit
+
+  const conditions = storefrontConditions(options)
+  if (options?.facets) {
+    conditions.push(...productFacetConditions(options.facets))
+  }
+
   const whereClause = and(...conditions)
 
   // Determine sort order
   let orderBy
   switch (options?.sortBy) {
     case "price-low":
-      orderBy = asc(products.basePrice)
+      orderBy = asc(effectivePriceSql)
       break
     case "price-high":
-      orderBy = desc(products.basePrice)
+      orderBy = desc(effectivePriceSql)
       break
     case "name":
       orderBy = asc(products.name)
@@ -265,6 +353,7 @@ export async function getStorefrontProducts(options?: {
         name: products.name,
         slug: products.slug,
         shortDescription: products.shortDescription,
+        categoryId: products.categoryId,
         basePrice: products.basePrice,
         compareAtPrice: products.compareAtPrice,
         isFeatured: products.isFeatured,
@@ -283,7 +372,7 @@ export async function getStorefrontProducts(options?: {
 
   // Get primary image for each product
   const productsWithImages = await Promise.all(
-    productsList.map(async (product) => {
+    (await withCampaignPrices(productsList)).map(async (product) => {
       const [image] = await db
         .select()
         .from(productImages)
@@ -311,10 +400,19 @@ export async function getStorefrontProducts(options?: {
   }
 }
 
+/**
+ * Get facet options and counts for a storefront listing
+ */
+export async function getStorefrontFacets(
+  options: StorefrontProductFilters & { facets: ProductFacetFilters },
+) {
+  return getProductFacets(storefrontConditions(options), options.facets)
+}
+
 /**
  * Create a new product (Admin/Manager only)
  */
-export async function createProduct(data: z.infer<typeof createProductSchema>) {
+export async function createProduct(data: CreateProductInput) {
   try {
     const session = await requirePermission("product.write")
     const validated = createProductSchema.parse(data)
@@ -353,6 +451,8 @@ export async function createProduct(data: z.infer<typeof createProductSchema>) {
       })
       .returning()
 
+    await refreshProductSearchIndex([product.id])
+
     revalidatePath("/admin/products")
     revalidateProductCaches() // Invalidate cached product data
     return { success: true as const, data: product }
@@ -367,7 +467,7 @@ export async function createProduct(data: z.infer<typeof createProductSchema>) {
  */
 export async function updateProduct(
   id: string,
-  data: Partial<z.infer<typeof createProductSchema>>,
+  data: Partial<CreateProductInput>,
 ) {
   await requirePermission("product.write")
 
@@ -380,6 +480,8 @@ export async function updateProduct(
     .where(eq(products.id, id))
     .returning()
 
+  await refreshProductSearchIndex([id])
+
   revalidatePath("/admin/products")
   revalidatePath(`/admin/products/${id}`)
   revalidatePath(`/products/${product.slug}`)
@@ -393,17 +495,253 @@ export async function updateProduct(
 export async function deleteProduct(id: string) {
   await requirePermission("product.delete")
 
+  const bundleNames = await getContainingBundleNames(id)
+  if (bundleNames.length > 0) {
+    return {
+      success: false as const,
+      error: `Part of the bundle "${bundleNames[0]}"; remove it from the bundle first`,
+    }
+  }
+
   await db.delete(products).where(eq(products.id, id))
 
   revalidatePath("/admin/products")
   revalidateProductCaches() // Invalidate cached product data
-  return { success: true }
+  return { success: true as const }
+}
+
+// Products of a bulk action, with a "not found" result for missing IDs
+async function loadBulkProducts(ids: string[]) {
+  const rows = await db
+    .select({
+      id: products.id,
+      name: products.name,
+      slug: products.slug,
+      status: products.status,
+      categoryId: products.categoryId,
+    })
+    .from(products)
+    .where(inArray(products.id, ids))
+
+  const missing: BulkRowResult[] = ids
+    .filter((id) => !rows.some((p) => p.id === id))
+    .map((id) => ({
+      id,
+      label: id,
+      success: false,
+      error: "Product not found",
+    }))
+
+  return { rows, missing }
+}
+
+/**
+ * Change the status of several products (Admin/Manager only)
+ */
+export async function bulkUpdateProductStatus(
+  ids: string[],
+  status: CreateProductInput["status"],
+) {
+  try {
+    await requirePermission("product.write")
+
+    const parsedIds = bulkIdsSchema.safeParse(ids)
+    const parsedStatus = createProductSchema.shape.status.safeParse(status)
+    if (!parsedIds.success || !parsedStatus.success) {
+      return {
+        success: false as const,
+        error: parsedIds.error?.errors[0]?.message || "Invalid status",
+      }
+    }
+
+    const { rows, missing } = await loadBulkProducts(parsedIds.data)
+    const results: BulkRowResult[] = [...missing]
+    const changedIds: string[] = []
+
+    for (const product of rows) {
+      const result = { id: product.id, label: product.name }
+      if (product.status === parsedStatus.data) {
+        results.push({ ...result, success: true })
+        continue
+      }
+
+      try {
+        await db
+          .update(products)
+          .set({ status: parsedStatus.data, updatedAt: new Date() })
+          .where(eq(products.id, product.id))
+
+        await logActivity({
+          action: "product.status_change",
+          entityType: "product",
+          entityId: product.id,
+          details: {
+            name: product.name,
+            from: product.status,
+            to: parsedStatus.data,
+          },
+        })
+
+        changedIds.push(product.id)
+        results.push({ ...result, success: true })
+      } catch (error) {
+        console.error(`Failed to update status of ${product.id}:`, error)
+        results.push({ ...result, success: false, error: "Update failed" })
+      }
+    }
+
+    if (changedIds.length > 0) {
+      revalidatePath("/admin/products")
+      revalidateProductCaches()
+    }
+    return { success: true as const, results }
+  } catch (error) {
+    console.error("Failed to update products:", error)
+    return { success: false as const, error: "Failed to update products" }
+  }
+}
+
+/**
+ * Move several products to a category, or out of any with null
+ * (Admin/Manager only)
+ */
+export async function bulkAssignProductCategory(
+  ids: string[],
+  categoryId: string | null,
+) {
+  try {
+    await requirePermission("product.write")
+
+    const parsedIds = bulkIdsSchema.safeParse(ids)
+    if (!parsedIds.success) {
+      return {
+        success: false as const,
+        error: parsedIds.error.errors[0]?.message || "Invalid selection",
+      }
+    }
+
+    let category: { id: string; name: string } | undefined
+    if (categoryId) {
+      ;[category] = await db
+        .select({ id: categories.id, name: categories.name })
+        .from(categories)
+        .where(eq(categories.id, categoryId))
+        .limit(1)
+
+      if (!category) {
+        return { success: false as const, error: "Category not found" }
+      }
+    }
+
+    const { rows, missing } = await loadBulkProducts(parsedIds.data)
+    const results: BulkRowResult[] = [...missing]
+    const changedIds: string[] = []
+
+    for (const product of rows) {
+      const result = { id: product.id, label: product.name }
+      if (product.categoryId === (category?.id ?? null)) {
+        results.push({ ...result, success: true })
+        continue
+      }
+
+      try {
+        await db
+          .update(products)
+          .set({ categoryId: category?.id ?? null, updatedAt: new Date() })
+          .where(eq(products.id, product.id))
+
+        await logActivity({
+          action: "product.update",
+          entityType: "product",
+          entityId: product.id,
+          details: {
+            name: product.name,
+            categoryId: category?.id ?? null,
+            category: category?.name ?? null,
+          },
+        })
+
+        changedIds.push(product.id)
+        results.push({ ...result, success: true })
+      } catch (error) {
+        console.error(`Failed to update category of ${product.id}:`, error)
+        results.push({ ...result, success: false, error: "Update failed" })
+      }
+    }
+
+    // Category names are part of the search document
+    if (changedIds.length > 0) {
+      await refreshProductSearchIndex(changedIds)
+      revalidatePath("/admin/products")
+      revalidateProductCaches()
+    }
+    return { success: true as const, results }
+  } catch (error) {
+    console.error("Failed to update products:", error)
+    return { success: false as const, error: "Failed to update products" }
+  }
+}
+
+/**
+ * Delete several products (Admin only)
+ */
+export async function bulkDeleteProducts(ids: string[]) {
+  try {
+    await requirePermission("product.delete")
+
+    const parsedIds = bulkIdsSchema.safeParse(ids)
+    if (!parsedIds.success) {
+      return {
+        success: false as const,
+        error: parsedIds.error.errors[0]?.message || "Invalid selection",
+      }
+    }
+
+    const { rows, missing } = await loadBulkProducts(parsedIds.data)
+    const results: BulkRowResult[] = [...missing]
+
+    for (const product of rows) {
+      const result = { id: product.id, label: product.name }
+      try {
+        const bundleNames = await getContainingBundleNames(product.id)
+        if (bundleNames.length > 0) {
+          results.push({
+            ...result,
+            success: false,
+            error: `Part of the bundle "${bundleNames[0]}"`,
+          })
+          continue
+        }
+
+        await db.delete(products).where(eq(products.id, product.id))
+
+        await logActivity({
+          action: "product.delete",
+          entityType: "product",
+          entityId: product.id,
+          details: { name: product.name, slug: product.slug },
+        })
+
+        results.push({ ...result, success: true })
+      } catch (error) {
+        console.error(`Failed to delete product ${product.id}:`, error)
+        results.push({ ...result, success: false, error: "Delete failed" })
+      }
+    }
+
+    revalidatePath("/admin/products")
+    revalidateProductCaches()
+    return { success: true as const, results }
+  } catch (error) {
+    console.error("Failed to delete products:", error)
+    return { success: false as const, error: "Failed to delete products" }
+  }
 }
 
 /**
  * Create a product variant (Admin/Manager only)
  */
-export async function createVariant(data: z.infer<typeof createVariantSchema>) {
+export async function createVariant(data: CreateVariantInput) {
   const session = await requirePermission("product.write")
   const validated = createVariantSchema.parse(data)
 
@@ -469,6 +807,9 @@ export async function createVariant(data: z.infer<typeof createVariantSchema>) {
     })
   }
 
+  // Variant SKUs are searchable
+  await refreshProductSearchIndex([validated.productId])
+
   revalidatePath(`/admin/products/${validated.productId}`)
   return variant
 }
@@ -480,42 +821,53 @@ export async function updateStock(data: z.infer<typeof updateStockSchema>) {
   const session = await requirePermission("inventory.write")
   const validated = updateStockSchema.parse(data)
 
-  // Get current inventory
-  const [inventory] = await db
-    .select()
-    .from(inventoryItems)
-    .where(eq(inventoryItems.variantId, validated.variantId))
-    .limit(1)
+  const newQuantity = await db.transaction(async (tx) => {
+    // Get current inventory
+    const [inventory] = await tx
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.variantId, validated.variantId))
+      .for("update")
 
-  if (!inventory) {
-    throw new Error("Inventory not found")
-  }
+    if (!inventory) {
+      throw new Error("Inventory not found")
+    }
 
-  const previousQuantity = inventory.quantity
-  const newQuantity = previousQuantity + validated.quantity
+    const previousQuantity = inventory.quantity
+    const newQuantity = previousQuantity + validated.quantity
 
-  if (newQuantity < 0) {
-    throw new Error("Cannot reduce stock below zero")
-  }
+    if (newQuantity < 0) {
+      throw new Error("Cannot reduce stock below zero")
+    }
 
-  // Update inventory
-  await db
-    .update(inventoryItems)
-    .set({
-      quantity: newQuantity,
-      updatedAt: new Date(),
+    // Units held by open orders stay on hand until they are sold or released
+    if (newQuantity < inventory.reservedQuantity) {
+      throw new Error(
+        `Cannot reduce stock below the ${inventory.reservedQuantity} reserved for orders`,
+      )
+    }
+
+    // Update inventory
+    await tx
+      .update(inventoryItems)
+      .set({
+        quantity: newQuantity,
+        updatedAt: new Date(),
+      })
+      .where(eq(inventoryItems.id, inventory.id))
+
+    // Create movement record
+    await tx.insert(inventoryMovements).values({
+      inventoryItemId: inventory.id,
+      type: validated.type,
+      quantity: validated.quantity,
+      previousQuantity,
+      newQuantity,
+      notes: validated.notes,
+      performedBy: session.user.id,
     })
-    .where(eq(inventoryItems.id, inventory.id))
-
-  // Create movement record
-  await db.insert(inventoryMovements).values({
-    inventoryItemId: inventory.id,
-    type: validated.type,
-    quantity: validated.quantity,
-    previousQuantity,
-    newQuantity,
-    notes: validated.notes,
-    performedBy: session.user.id,
+
+    return newQuantity
   })
 
   revalidatePath("/admin/inventory")
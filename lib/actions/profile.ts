@@ -10,6 +10,10 @@ import { auth } from "@/lib/auth"
 import { getServerSession, requireAuth } from "@/lib/auth/rbac"
 import { db } from "@/lib/db"
 import { customerAddresses, customerProfiles, users } from "@/lib/db/schema"
+import {
+  NOTIFICATION_EVENTS,
+  type NotificationPreferences,
+} from "@/lib/utils/notifications"
 
 // ============================================
 // Schemas
@@ -23,6 +27,14 @@ const profileSchema = z.object({
   marketingOptIn: z.boolean().default(false),
 })
 
+const notificationPreferencesSchema = z.record(
+  z.enum(NOTIFICATION_EVENTS),
+  z.object({
+    email: z.boolean().optional(),
+    inApp: z.boolean().optional(),
+  }),
+)
+
 const addressSchema = z.object({
   type: z.enum(["shipping", "billing", "both"]),
   isDefault: z.boolean().default(false),
@@ -156,6 +168,43 @@ export async function updateMarketingPreferences(marketingOptIn: boolean) {
   return { success: true }
 }
 
+/**
+ * Update which notifications the customer gets, per event and channel
+ */
+export async function updateNotificationPreferences(
+  preferences: NotificationPreferences,
+) {
+  const session = await requireAuth()
+
+  const validation = notificationPreferencesSchema.safeParse(preferences)
+  if (!validation.success) {
+    return { success: false, error: "Invalid notification preferences" }
+  }
+
+  const notificationPreferences = validation.data
+
+  const existingProfile = await db
+    .select()
+    .from(customerProfiles)
+    .where(eq(customerProfiles.userId, session.user.id))
+    .limit(1)
+
+  if (existingProfile.length === 0) {
+    await db.insert(customerProfiles).values({
+      userId: session.user.id,
+      notificationPreferences,
+    })
+  } else {
+    await db
+      .update(customerProfiles)
+      .set({ notificationPreferences, updatedAt: new Date() })
+      .where(eq(customerProfiles.userId, session.user.id))
+  }
+
+  revalidatePath("/profile")
+  return { success: true }
+}
+
 /**
  * Change password
  */
@@ -0,0 +1,298 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, asc, desc, eq, ne, sql } from "drizzle-orm"
+import { z } from "zod"
+
+import { requirePermission } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import {
+  categories,
+  orders,
+  products,
+  promotionRedemptions,
+  promotions,
+} from "@/lib/db/schema"
+import { normalizePromotionCode } from "@/lib/utils/promotions"
+
+import { logActivity } from "./activity-log"
+
+// Schema for creating/updating a promotion
+const promotionSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, "Code must be at least 3 characters")
+      .max(64)
+      .regex(/^[A-Za-z0-9_-]+$/, "Use letters, numbers, - and _ only"),
+    name: z.string().min(1, "Name is required").max(255),
+    description: z.string().optional().nullable(),
+    type: z.enum(["percentage", "fixed_amount", "free_shipping"]),
+    value: z.number().min(0).default(0),
+    maxDiscount: z.number().min(0).nullable().default(null),
+    minSubtotal: z.number().min(0).nullable().default(null),
+    productIds: z.array(z.string().uuid()).default([]),
+    categoryIds: z.array(z.string().uuid()).default([]),
+    startsAt: z.coerce.date().nullable().default(null),
+    endsAt: z.coerce.date().nullable().default(null),
+    usageLimit: z.number().int().min(1).nullable().default(null),
+    usageLimitPerCustomer: z.number().int().min(1).nullable().default(null),
+    isActive: z.boolean().default(true),
+  })
+  .refine((data) => data.type !== "percentage" || data.value <= 100, {
+    message: "Percentage cannot exceed 100",
+    path: ["value"],
+  })
+  .refine((data) => data.type === "free_shipping" || data.value > 0, {
+    message: "Discount value is required",
+    path: ["value"],
+  })
+  .refine(
+    (data) => !data.startsAt || !data.endsAt || data.startsAt < data.endsAt,
+    { message: "End date must be after start date", path: ["endsAt"] },
+  )
+
+export type PromotionInput = z.input<typeof promotionSchema>
+
+function toValues(data: z.infer<typeof promotionSchema>) {
+  return {
+    code: normalizePromotionCode(data.code),
+    name: data.name,
+    description: data.description || null,
+    type: data.type,
+    value: data.value.toFixed(2),
+    maxDiscount: data.maxDiscount === null ? null : data.maxDiscount.toFixed(2),
+    minSubtotal: data.minSubtotal === null ? null : data.minSubtotal.toFixed(2),
+    productIds: data.productIds,
+    categoryIds: data.categoryIds,
+    startsAt: data.startsAt,
+    endsAt: data.endsAt,
+    usageLimit: data.usageLimit,
+    usageLimitPerCustomer: data.usageLimitPerCustomer,
+    isActive: data.isActive,
+  }
+}
+
+// ============================================
+// Get Promotions
+// ============================================
+
+/**
+ * List promotions with redemption and attributed revenue totals
+ */
+export async function getPromotions() {
+  await requirePermission("promotion.list")
+
+  return db
+    .select({
+      id: promotions.id,
+      code: promotions.code,
+      name: promotions.name,
+      type: promotions.type,
+      value: promotions.value,
+      startsAt: promotions.startsAt,
+      endsAt: promotions.endsAt,
+      usageLimit: promotions.usageLimit,
+      usageCount: promotions.usageCount,
+      isActive: promotions.isActive,
+      createdAt: promotions.createdAt,
+      totalDiscount: sql<string>`COALESCE((
+        SELECT SUM(${promotionRedemptions.discountAmount}::numeric)
+        FROM ${promotionRedemptions}
+        WHERE ${promotionRedemptions.promotionId} = ${promotions.id}
+          AND ${promotionRedemptions.releasedAt} IS NULL
+      ), 0)::text`,
+      totalRevenue: sql<string>`COALESCE((
+        SELECT SUM(${orders.total}::numeric)
+        FROM ${promotionRedemptions}
+        INNER JOIN ${orders} ON ${orders.id} = ${promotionRedemptions.orderId}
+        WHERE ${promotionRedemptions.promotionId} = ${promotions.id}
+          AND ${orders.status} NOT IN ('draft', 'cancelled', 'refunded')
+      ), 0)::text`,
+    })
+    .from(promotions)
+    .orderBy(desc(promotions.createdAt))
+}
+
+export async function getPromotion(id: string) {
+  await requirePermission("promotion.read")
+
+  const [promotion] = await db
+    .select()
+    .from(promotions)
+    .where(eq(promotions.id, id))
+    .limit(1)
+
+  return promotion || null
+}
+
+/**
+ * Products and categories a promotion can be scoped to
+ */
+export async function getPromotionScopeOptions() {
+  await requirePermission("promotion.read")
+
+  const [productOptions, categoryOptions] = await Promise.all([
+    db
+      .select({ id: products.id, name: products.name })
+      .from(products)
+      .where(ne(products.status, "archived"))
+      .orderBy(asc(products.name)),
+    db
+      .select({ id: categories.id, name: categories.name })
+      .from(categories)
+      .orderBy(asc(categories.name)),
+  ])
+
+  return { products: productOptions, categories: categoryOptions }
+}
+
+// ============================================
+// Create / Update / Delete
+// ============================================
+
+export async function createPromotion(data: PromotionInput) {
+  try {
+    const session = await requirePermission("promotion.create")
+    const validated = promotionSchema.parse(data)
+    const values = toValues(validated)
+
+    const [existing] = await db
+      .select({ id: promotions.id })
+      .from(promotions)
+      .where(eq(promotions.code, values.code))
+      .limit(1)
+
+    if (existing) {
+      return {
+        success: false as const,
+        error: "A promotion with this code already exists",
+      }
+    }
+
+    const [promotion] = await db
+      .insert(promotions)
+      .values({ ...values, createdBy: session.user.id })
+      .returning()
+
+    await logActivity({
+      action: "promotion.create",
+      entityType: "promotion",
+      entityId: promotion.id,
+      details: { code: promotion.code, type: promotion.type },
+    })
+
+    revalidatePath("/admin/promotions")
+    return { success: true as const, data: promotion }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid promotion",
+      }
+    }
+    console.error("Failed to create promotion:", error)
+    return { success: false as const, error: "Failed to create promotion" }
+  }
+}
+
+export async function updatePromotion(id: string, data: PromotionInput) {
+  try {
+    await requirePermission("promotion.update")
+    const validated = promotionSchema.parse(data)
+    const values = toValues(validated)
+
+    const [duplicate] = await db
+      .select({ id: promotions.id })
+      .from(promotions)
+      .where(and(eq(promotions.code, values.code), ne(promotions.id, id)))
+      .limit(1)
+
+    if (duplicate) {
+      return {
+        success: false as const,
+        error: "A promotion with this code already exists",
+      }
+    }
+
+    const [promotion] = await db
+      .update(promotions)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning()
+
+    if (!promotion) {
+      return { success: false as const, error: "Promotion not found" }
+    }
+
+    await logActivity({
+      action: "promotion.update",
+      entityType: "promotion",
+      entityId: promotion.id,
+      details: { code: promotion.code },
+    })
+
+    revalidatePath("/admin/promotions")
+    revalidatePath(`/admin/promotions/${id}`)
+    return { success: true as const, data: promotion }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid promotion",
+      }
+    }
+    console.error("Failed to update promotion:", error)
+    return { success: false as const, error: "Failed to update promotion" }
+  }
+}
+
+/**
+ * Delete a promotion. Codes that were already redeemed are deactivated
+ * instead so order attribution is preserved.
+ */
+export async function deletePromotion(id: string) {
+  try {
+    await requirePermission("promotion.delete")
+
+    const [promotion] = await db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.id, id))
+      .limit(1)
+
+    if (!promotion) {
+      return { success: false as const, error: "Promotion not found" }
+    }
+
+    if (promotion.usageCount > 0) {
+      await db
+        .update(promotions)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(promotions.id, id))
+    } else {
+      await db.delete(promotions).where(eq(promotions.id, id))
+    }
+
+    await logActivity({
+      action: "promotion.delete",
+      entityType: "promotion",
+      entityId: id,
+      details: {
+        code: promotion.code,
+        deactivated: promotion.usageCount > 0,
+      },
+    })
+
+    revalidatePath("/admin/promotions")
+    return {
+      success: true as const,
+      deactivated: promotion.usageCount > 0,
+    }
+  } catch (error) {
+    console.error("Failed to delete promotion:", error)
+    return { success: false as const, error: "Failed to delete promotion" }
+  }
+}
@@ -0,0 +1,172 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, desc, eq, inArray } from "drizzle-orm"
+import { z } from "zod"
+
+import { requirePermission, requireStaff } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import {
+  orderItems,
+  payments,
+  refundItems,
+  refunds,
+  user,
+} from "@/lib/db/schema"
+import {
+  getRefundedAmount,
+  getRefundedQuantities,
+  issueRefund,
+} from "@/lib/payments/refunds"
+
+// Schema for issuing a refund from the admin order page
+const createRefundSchema = z.object({
+  orderId: z.string().uuid(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().min(0),
+      }),
+    )
+    .default([]),
+  amount: z.number().positive().nullable().default(null),
+  reason: z.string().trim().max(500).optional(),
+  restock: z.boolean().default(true),
+})
+
+export type CreateRefundInput = z.input<typeof createRefundSchema>
+
+// ============================================
+// Get Order Refunds
+// ============================================
+
+/**
+ * Payment, refund history and refundable quantities for an order
+ */
+export async function getOrderRefunds(orderId: string) {
+  await requireStaff()
+
+  const [payment] = await db
+    .select({
+      id: payments.id,
+      method: payments.method,
+      status: payments.status,
+      amount: payments.amount,
+      currency: payments.currency,
+    })
+    .from(payments)
+    .where(
+      and(
+        eq(payments.orderId, orderId),
+        inArray(payments.status, ["completed", "refunded"]),
+      ),
+    )
+    .orderBy(desc(payments.createdAt))
+    .limit(1)
+
+  const refundList = await db
+    .select({
+      id: refunds.id,
+      status: refunds.status,
+      amount: refunds.amount,
+      currency: refunds.currency,
+      reason: refunds.reason,
+      isManual: refunds.isManual,
+      restock: refunds.restock,
+      externalId: refunds.externalId,
+      failureReason: refunds.failureReason,
+      processedAt: refunds.processedAt,
+      createdAt: refunds.createdAt,
+      processedByName: user.name,
+    })
+    .from(refunds)
+    .leftJoin(user, eq(refunds.processedBy, user.id))
+    .where(eq(refunds.orderId, orderId))
+    .orderBy(desc(refunds.createdAt))
+
+  const items =
+    refundList.length > 0
+      ? await db
+          .select({
+            refundId: refundItems.refundId,
+            orderItemId: refundItems.orderItemId,
+            productName: orderItems.productName,
+            variantName: orderItems.variantName,
+            quantity: refundItems.quantity,
+            amount: refundItems.amount,
+          })
+          .from(refundItems)
+          .innerJoin(orderItems, eq(refundItems.orderItemId, orderItems.id))
+          .where(
+            inArray(
+              refundItems.refundId,
+              refundList.map((r) => r.id),
+            ),
+          )
+      : []
+
+  const [refundedAmount, refundedQuantities] = await Promise.all([
+    payment ? getRefundedAmount(payment.id) : Promise.resolve(0),
+    getRefundedQuantities(orderId),
+  ])
+
+  return {
+    payment,
+    refundedAmount,
+    refundableBalance:
+      payment?.status === "completed"
+        ? Math.max(0, parseFloat(payment.amount) - refundedAmount)
+        : 0,
+    refundedQuantities: Object.fromEntries(refundedQuantities),
+    refunds: refundList.map((refund) => ({
+      ...refund,
+      items: items.filter((item) => item.refundId === refund.id),
+    })),
+  }
+}
+
+// ============================================
+// Create Refund
+// ============================================
+
+export async function createRefund(input: CreateRefundInput) {
+  try {
+    const session = await requirePermission("payment.refund")
+    const data = createRefundSchema.parse(input)
+
+    const result = await issueRefund({
+      orderId: data.orderId,
+      items: data.items,
+      amount: data.amount,
+      reason: data.reason,
+      restock: data.restock,
+      performedBy: session.user.id,
+    })
+
+    revalidatePath(`/admin/orders/${data.orderId}`)
+    revalidatePath("/admin/orders")
+    revalidatePath("/admin/payments")
+    revalidatePath(`/orders/${data.orderId}`)
+
+    if (!result.success) {
+      return { success: false as const, error: result.error }
+    }
+
+    return {
+      success: true as const,
+      amount: result.amount,
+      fullyRefunded: result.fullyRefunded,
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid refund",
+      }
+    }
+    console.error("Failed to create refund:", error)
+    return { success: false as const, error: "Failed to create refund" }
+  }
+}
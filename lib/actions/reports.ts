@@ -1,6 +1,16 @@
 "use server"
 
-import { and, count, desc, eq, gte, isNotNull, lte, sql } from "drizzle-orm"
+import {
+  and,
+  count,
+  desc,
+  eq,
+  gte,
+  isNotNull,
+  lte,
+  notInArray,
+  sql,
+} from "drizzle-orm"
 
 import { requireStaff } from "@/lib/auth/rbac"
 import { db } from "@/lib/db"
@@ -10,7 +20,10 @@ import {
   payments,
   products,
   productVariants,
+  promotionRedemptions,
+  promotions,
   reviews,
+  searchQueries,
   users,
 } from "@/lib/db/schema"
 
@@ -299,3 +312,98 @@ export async function getRevenueByCategory() {
     orderCount: r.orderCount,
   }))
 }
+
+// ============================================
+// Promotion Performance
+// ============================================
+
+export async function getPromotionPerformance(limit: number = 20) {
+  await requireStaff()
+
+  const result = await db
+    .select({
+      promotionId: promotions.id,
+      code: promotions.code,
+      name: promotions.name,
+      type: promotions.type,
+      redemptions: sql<number>`COUNT(${orders.id})::int`,
+      totalDiscount: sql<string>`COALESCE(SUM(${promotionRedemptions.discountAmount}::numeric), 0)::text`,
+      totalRevenue: sql<string>`COALESCE(SUM(${orders.total}::numeric), 0)::text`,
+    })
+    .from(promotionRedemptions)
+    .innerJoin(promotions, eq(promotionRedemptions.promotionId, promotions.id))
+    .innerJoin(orders, eq(promotionRedemptions.orderId, orders.id))
+    .where(notInArray(orders.status, ["draft", "cancelled", "refunded"]))
+    .groupBy(promotions.id, promotions.code, promotions.name, promotions.type)
+    .orderBy(desc(sql`SUM(${orders.total}::numeric)`))
+    .limit(limit)
+
+  return result.map((r) => ({
+    ...r,
+    totalDiscount: parseFloat(r.totalDiscount),
+    totalRevenue: parseFloat(r.totalRevenue),
+  }))
+}
+
+// ============================================
+// Search Terms
+// ============================================
+
+export async function getSearchTerms(days: number = 30, limit: number = 20) {
+  await requireStaff()
+
+  const startDate = new Date()
+  startDate.setDate(startDate.getDate() - days)
+
+  const [topSearches, zeroResultSearches, [totals]] = await Promise.all([
+    db
+      .select({
+        query: searchQueries.query,
+        searches: count(),
+        avgResults: sql<number>`ROUND(AVG(${searchQueries.resultCount}))::int`,
+        lastSearchedAt: sql<Date>`MAX(${searchQueries.createdAt})`,
+      })
+      .from(searchQueries)
+      .where(gte(searchQueries.createdAt, startDate))
+      .groupBy(searchQueries.query)
+      .orderBy(desc(count()), searchQueries.query)
+      .limit(limit),
+    db
+      .select({
+        query: searchQueries.query,
+        searches: count(),
+        lastSearchedAt: sql<Date>`MAX(${searchQueries.createdAt})`,
+      })
+      .from(searchQueries)
+      .where(
+        and(
+          gte(searchQueries.createdAt, startDate),
+          eq(searchQueries.resultCount, 0),
+        ),
+      )
+      .groupBy(searchQueries.query)
+      .orderBy(desc(count()), searchQueries.query)
+      .limit(limit),
+    db
+      .select({
+        searches: count(),
+        zeroResults: sql<number>`COUNT(*) FILTER (WHERE ${searchQueries.resultCount} = 0)::int`,
+      })
+      .from(searchQueries)
+      .where(gte(searchQueries.createdAt, startDate)),
+  ])
+
+  return {
+    days,
+    totalSearches: totals?.searches || 0,
+    zeroResultSearchCount: totals?.zeroResults || 0,
+    topSearches: topSearches.map((r) => ({
+      ...r,
+      lastSearchedAt: new Date(r.lastSearchedAt),
+    })),
+    zeroResultSearches: zeroResultSearches.map((r) => ({
+      ...r,
+      lastSearchedAt: new Date(r.lastSearchedAt),
+    })),
+  }
+}
@@ -0,0 +1,521 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, count, desc, eq, ilike, inArray, or } from "drizzle-orm"
+import { z } from "zod"
+
+import { requirePermission } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import {
+  inventoryItems,
+  inventoryMovements,
+  orderItems,
+  orders,
+  returnRequestItems,
+  returnRequests,
+  user,
+} from "@/lib/db/schema"
+import { issueRefund } from "@/lib/payments/refunds"
+import { RETURN_STATUSES, type ReturnStatus } from "@/lib/utils/returns"
+
+import { logActivity } from "./activity-log"
+
+// Schema for recording the inspection of a received return
+const completeReturnSchema = z.object({
+  returnRequestId: z.string().uuid(),
+  items: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        condition: z.enum(["resellable", "damaged"]),
+        notes: z.string().trim().max(500).optional(),
+      }),
+    )
+    .min(1, "Inspect at least one item"),
+  staffNotes: z.string().trim().max(1000).optional(),
+  refund: z.boolean().default(true),
+})
+
+export type CompleteReturnInput = z.input<typeof completeReturnSchema>
+
+interface ReturnFilterInput {
+  page?: number
+  limit?: number
+  status?: string
+  search?: string
+}
+
+function revalidateReturn(returnRequestId: string, orderId: string) {
+  revalidatePath("/admin/returns")
+  revalidatePath(`/admin/returns/${returnRequestId}`)
+  revalidatePath(`/admin/orders/${orderId}`)
+  revalidatePath(`/orders/${orderId}`)
+}
+
+// ============================================
+// Admin: Get Return Requests
+// ============================================
+
+export async function getReturnRequests(input: ReturnFilterInput = {}) {
+  await requirePermission("return.list")
+
+  const { page = 1, limit = 20, status, search } = input
+  const offset = (page - 1) * limit
+
+  const conditions = []
+  if (status && RETURN_STATUSES.includes(status as ReturnStatus)) {
+    conditions.push(eq(returnRequests.status, status as ReturnStatus))
+  }
+  if (search) {
+    conditions.push(
+      or(
+        ilike(returnRequests.rmaNumber, `%${search}%`),
+        ilike(orders.orderNumber, `%${search}%`),
+        ilike(orders.customerEmail, `%${search}%`),
+      ),
+    )
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined
+
+  const [requests, [totalResult], statusCounts] = await Promise.all([
+    db
+      .select({
+        id: returnRequests.id,
+        rmaNumber: returnRequests.rmaNumber,
+        orderId: returnRequests.orderId,
+        status: returnRequests.status,
+        reason: returnRequests.reason,
+        photos: returnRequests.photos,
+        createdAt: returnRequests.createdAt,
+        orderNumber: orders.orderNumber,
+        customerEmail: orders.customerEmail,
+        customerName: orders.customerName,
+      })
+      .from(returnRequests)
+      .innerJoin(orders, eq(returnRequests.orderId, orders.id))
+      .where(where)
+      .orderBy(desc(returnRequests.createdAt))
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ count: count() })
+      .from(returnRequests)
+      .innerJoin(orders, eq(returnRequests.orderId, orders.id))
+      .where(where),
+    db
+      .select({ status: returnRequests.status, count: count() })
+      .from(returnRequests)
+      .groupBy(returnRequests.status),
+  ])
+
+  const items =
+    requests.length > 0
+      ? await db
+          .select({
+            returnRequestId: returnRequestItems.returnRequestId,
+            quantity: returnRequestItems.quantity,
+          })
+          .from(returnRequestItems)
+          .where(
+            inArray(
+              returnRequestItems.returnRequestId,
+              requests.map((r) => r.id),
+            ),
+          )
+      : []
+
+  const total = totalResult?.count || 0
+
+  return {
+    requests: requests.map((request) => ({
+      ...request,
+      itemCount: items
+        .filter((item) => item.returnRequestId === request.id)
+        .reduce((sum, item) => sum + item.quantity, 0),
+    })),
+    statusCounts: Object.fromEntries(
+      statusCounts.map((row) => [row.status, row.count]),
+    ) as Partial<Record<ReturnStatus, number>>,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  }
+}
+
+// ============================================
+// Admin: Get Return Request
+// ============================================
+
+export async function getReturnRequest(returnRequestId: string) {
+  await requirePermission("return.read")
+
+  const [request] = await db
+    .select({
+      id: returnRequests.id,
+      rmaNumber: returnRequests.rmaNumber,
+      orderId: returnRequests.orderId,
+      status: returnRequests.status,
+      reason: returnRequests.reason,
+      customerNotes: returnRequests.customerNotes,
+      photos: returnRequests.photos,
+      staffNotes: returnRequests.staffNotes,
+      rejectionReason: returnRequests.rejectionReason,
+      refundId: returnRequests.refundId,
+      reviewedAt: returnRequests.reviewedAt,
+      receivedAt: returnRequests.receivedAt,
+      completedAt: returnRequests.completedAt,
+      createdAt: returnRequests.createdAt,
+      reviewedByName: user.name,
+      orderNumber: orders.orderNumber,
+      orderStatus: orders.status,
+      customerEmail: orders.customerEmail,
+      customerName: orders.customerName,
+      customerPhone: orders.customerPhone,
+    })
+    .from(returnRequests)
+    .innerJoin(orders, eq(returnRequests.orderId, orders.id))
+    .leftJoin(user, eq(returnRequests.reviewedBy, user.id))
+    .where(eq(returnRequests.id, returnRequestId))
+    .limit(1)
+
+  if (!request) {
+    return null
+  }
+
+  const items = await db
+    .select({
+      id: returnRequestItems.id,
+      orderItemId: returnRequestItems.orderItemId,
+      quantity: returnRequestItems.quantity,
+      condition: returnRequestItems.condition,
+      inspectionNotes: returnRequestItems.inspectionNotes,
+      productName: orderItems.productName,
+      variantName: orderItems.variantName,
+      sku: orderItems.sku,
+      unitPrice: orderItems.unitPrice,
+      orderedQuantity: orderItems.quantity,
+    })
+    .from(returnRequestItems)
+    .innerJoin(orderItems, eq(returnRequestItems.orderItemId, orderItems.id))
+    .where(eq(returnRequestItems.returnRequestId, request.id))
+
+  return { ...request, items }
+}
+
+// ============================================
+// Admin: Approve / Reject Return Request
+// ============================================
+
+export async function reviewReturnRequest(
+  returnRequestId: string,
+  approved: boolean,
+  notes?: string,
+) {
+  try {
+    const session = await requirePermission(
+      approved ? "return.approve" : "return.reject",
+    )
+
+    const request = await db.query.returnRequests.findFirst({
+      where: eq(returnRequests.id, returnRequestId),
+    })
+
+    if (!request) {
+      return { success: false, error: "Return request not found" }
+    }
+
+    if (request.status !== "requested") {
+      return {
+        success: false,
+        error: "This return request has already been reviewed",
+      }
+    }
+
+    if (!approved && !notes?.trim()) {
+      return { success: false, error: "A rejection reason is required" }
+    }
+
+    await db
+      .update(returnRequests)
+      .set({
+        status: approved ? "approved" : "rejected",
+        staffNotes: approved ? notes?.trim() || null : request.staffNotes,
+        rejectionReason: approved ? null : notes!.trim(),
+        reviewedBy: session.user.id,
+        reviewedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(returnRequests.id, request.id))
+
+    await logActivity({
+      action: approved ? "return.approve" : "return.reject",
+      entityType: "return",
+      entityId: request.id,
+      details: {
+        rmaNumber: request.rmaNumber,
+        orderId: request.orderId,
+        notes: notes || undefined,
+      },
+    })
+
+    revalidateReturn(request.id, request.orderId)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to review return request:", error)
+    return { success: false, error: "Failed to review return request" }
+  }
+}
+
+// ============================================
+// Admin: Mark Return Received
+// ============================================
+
+export async function markReturnReceived(returnRequestId: string) {
+  try {
+    await requirePermission("return.update")
+
+    const request = await db.query.returnRequests.findFirst({
+      where: eq(returnRequests.id, returnRequestId),
+    })
+
+    if (!request) {
+      return { success: false, error: "Return request not found" }
+    }
+
+    if (request.status !== "approved") {
+      return {
+        success: false,
+        error: "Only approved returns can be marked as received",
+      }
+    }
+
+    await db
+      .update(returnRequests)
+      .set({
+        status: "received",
+        receivedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(returnRequests.id, request.id))
+
+    await logActivity({
+      action: "return.receive",
+      entityType: "return",
+      entityId: request.id,
+      details: { rmaNumber: request.rmaNumber, orderId: request.orderId },
+    })
+
+    revalidateReturn(request.id, request.orderId)
+
+    return { success: true }
+  } catch (error) {
+    console.error("Failed to mark return received:", error)
+    return { success: false, error: "Failed to update return request" }
+  }
+}
+
+// ============================================
+// Admin: Complete Return Inspection
+// ============================================
+
+/**
+ * Record the inspection result for each returned item. Resellable items go
+ * back into stock; damaged items are received and written off in the
+ * inventory ledger. The returned items are then refunded if requested.
+ */
+export async function completeReturn(input: CompleteReturnInput) {
+  try {
+    const data = completeReturnSchema.parse(input)
+    const session = await requirePermission("return.update")
+    if (data.refund) {
+      await requirePermission("payment.refund")
+    }
+
+    const result = await db.transaction(async (tx) => {
+      const [request] = await tx
+        .select()
+        .from(returnRequests)
+        .where(eq(returnRequests.id, data.returnRequestId))
+        .for("update")
+
+      if (!request) {
+        return { success: false as const, error: "Return request not found" }
+      }
+
+      if (request.status !== "received") {
+        return {
+          success: false as const,
+          error: "Only received returns can be inspected",
+        }
+      }
+
+      const [order] = await tx
+        .select({ orderNumber: orders.orderNumber })
+        .from(orders)
+        .where(eq(orders.id, request.orderId))
+        .limit(1)
+
+      const lines = await tx
+        .select({
+          id: returnRequestItems.id,
+          orderItemId: returnRequestItems.orderItemId,
+          quantity: returnRequestItems.quantity,
+          variantId: orderItems.variantId,
+        })
+        .from(returnRequestItems)
+        .innerJoin(
+          orderItems,
+          eq(returnRequestItems.orderItemId, orderItems.id),
+        )
+        .where(eq(returnRequestItems.returnRequestId, request.id))
+
+      if (lines.some((line) => !data.items.find((i) => i.id === line.id))) {
+        return {
+          success: false as const,
+          error: "Record a condition for every returned item",
+        }
+      }
+
+      for (const line of lines) {
+        const inspection = data.items.find((i) => i.id === line.id)!
+
+        await tx
+          .update(returnRequestItems)
+          .set({
+            condition: inspection.condition,
+            inspectionNotes: inspection.notes || null,
+          })
+          .where(eq(returnRequestItems.id, line.id))
+
+        if (!line.variantId) continue
+
+        const [inventory] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(eq(inventoryItems.variantId, line.variantId))
+          .for("update")
+
+        if (!inventory) continue
+
+        // Every returned unit is received back into stock first
+        const receivedQuantity = inventory.quantity + line.quantity
+
+        await tx.insert(inventoryMovements).values({
+          inventoryItemId: inventory.id,
+          type: "return",
+          quantity: line.quantity,
+          previousQuantity: inventory.quantity,
+          newQuantity: receivedQuantity,
+          referenceType: "return",
+          referenceId: request.id,
+          notes: `Returned under ${request.rmaNumber} (order ${order?.orderNumber})`,
+          performedBy: session.user.id,
+        })
+
+        // Damaged units are then written off so they are never resold
+        const newQuantity =
+          inspection.condition === "damaged"
+            ? receivedQuantity - line.quantity
+            : receivedQuantity
+
+        if (inspection.condition === "damaged") {
+          await tx.insert(inventoryMovements).values({
+            inventoryItemId: inventory.id,
+            type: "damaged",
+            quantity: -line.quantity,
+            previousQuantity: receivedQuantity,
+            newQuantity,
+            referenceType: "return",
+            referenceId: request.id,
+            notes: inspection.notes
+              ? `Damaged on return ${request.rmaNumber}: ${inspection.notes}`
+              : `Damaged on return ${request.rmaNumber}`,
+            performedBy: session.user.id,
+          })
+        }
+
+        await tx
+          .update(inventoryItems)
+          .set({ quantity: newQuantity, updatedAt: new Date() })
+          .where(eq(inventoryItems.id, inventory.id))
+      }
+
+      await tx
+        .update(returnRequests)
+        .set({
+          status: "completed",
+          staffNotes: data.staffNotes || request.staffNotes,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(returnRequests.id, request.id))
+
+      return { success: true as const, request, lines }
+    })
+
+    if (!result.success) {
+      return result
+    }
+
+    const { request, lines } = result
+
+    // Refund outside the inspection transaction; card refunds call the
+    // gateway and the return stays completed even if the refund fails
+    let refundError: string | undefined
+    if (data.refund) {
+      const refund = await issueRefund({
+        orderId: request.orderId,
+        items: lines.map((line) => ({
+          orderItemId: line.orderItemId,
+          quantity: line.quantity,
+        })),
+        reason: `Return ${request.rmaNumber}`,
+        restock: false, // Stock was already handled by the inspection
+        performedBy: session.user.id,
+      })
+
+      if (refund.success) {
+        await db
+          .update(returnRequests)
+          .set({ refundId: refund.refundId, updatedAt: new Date() })
+          .where(eq(returnRequests.id, request.id))
+      } else {
+        refundError = refund.error
+      }
+    }
+
+    await logActivity({
+      action: "return.complete",
+      entityType: "return",
+      entityId: request.id,
+      details: {
+        rmaNumber: request.rmaNumber,
+        orderId: request.orderId,
+        items: data.items.map((item) => ({
+          id: item.id,
+          condition: item.condition,
+        })),
+        refunded: data.refund && !refundError,
+      },
+    })
+
+    revalidateReturn(request.id, request.orderId)
+    revalidatePath("/admin/inventory")
+
+    return { success: true as const, refundError }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid inspection",
+      }
+    }
+    console.error("Failed to complete return:", error)
+    return { success: false as const, error: "Failed to complete return" }
+  }
+}
@@ -2,11 +2,12 @@
 
 import { revalidatePath } from "next/cache"
 
-import { and, count, desc, eq, ilike, or, sql } from "drizzle-orm"
+import { and, count, desc, eq, ilike, inArray, ne, or, sql } from "drizzle-orm"
 
 import { requireStaff } from "@/lib/auth/rbac"
 import { db } from "@/lib/db"
 import { products, reviews, users } from "@/lib/db/schema"
+import { notifyCustomer } from "@/lib/notifications/notify"
 
 // ============================================
 // Get Reviews Stats
@@ -195,6 +196,10 @@ export async function moderateReview(
   revalidatePath("/admin/reviews")
   revalidatePath(`/products/${review.productId}`)
 
+  if (review.status !== newStatus) {
+    await notifyReviewsModerated([reviewId], newStatus)
+  }
+
   return { success: true }
 }
 
@@ -210,6 +215,17 @@ export async function bulkModerateReviews(
 
   const newStatus = action === "approve" ? "approved" : "rejected"
 
+  // Only reviews whose status changes now are notified
+  const changed =
+    reviewIds.length > 0
+      ? await db
+          .select({ id: reviews.id })
+          .from(reviews)
+          .where(
+            and(inArray(reviews.id, reviewIds), ne(reviews.status, newStatus)),
+          )
+      : []
+
   await db
     .update(reviews)
     .set({
@@ -220,9 +236,73 @@ export async function bulkModerateReviews(
 
   revalidatePath("/admin/reviews")
 
+  if (changed.length > 0) {
+    await notifyReviewsModerated(
+      changed.map((review) => review.id),
+      newStatus,
+    )
+  }
+
   return { success: true, count: reviewIds.length }
 }
 
+// Let customers know whether their reviews were published
+async function notifyReviewsModerated(
+  reviewIds: string[],
+  status: "approved" | "rejected",
+) {
+  const moderated = await db
+    .select({
+      userId: reviews.userId,
+      rating: reviews.rating,
+      title: reviews.title,
+      productName: products.name,
+      productSlug: products.slug,
+      userEmail: users.email,
+      userName: users.name,
+    })
+    .from(reviews)
+    .innerJoin(products, eq(reviews.productId, products.id))
+    .innerJoin(users, eq(reviews.userId, users.id))
+    .where(inArray(reviews.id, reviewIds))
+
+  for (const review of moderated) {
+    const productPath = `/products/${review.productSlug}`
+
+    if (status === "approved") {
+      await notifyCustomer({
+        event: "review",
+        userId: review.userId,
+        email: {
+          to: review.userEmail,
+          template: "review-approved",
+          data: {
+            customerName: review.userName,
+            productName: review.productName,
+            productPath,
+            rating: review.rating,
+            title: review.title,
+          },
+        },
+        inApp: {
+          title: `Your review of ${review.productName} is live`,
+          href: productPath,
+        },
+      })
+    } else {
+      await notifyCustomer({
+        event: "review",
+        userId: review.userId,
+        inApp: {
+          title: `Your review of ${review.productName} wasn't published`,
+          body: "It didn't meet our review guidelines.",
+          href: "/profile/reviews",
+        },
+      })
+    }
+  }
+}
+
 // ============================================
 // Delete Review
 // ============================================
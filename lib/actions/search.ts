@@ -1,49 +1,74 @@
 "use server"
 
-import { and, asc, desc, eq, ilike, inArray, or, sql } from "drizzle-orm"
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  type SQL,
+  sql,
+} from "drizzle-orm"
 
+import { getServerSession } from "@/lib/auth/rbac"
+import {
+  compatibleWithDeviceCondition,
+  findDeviceModels,
+} from "@/lib/catalog/devices"
+import {
+  effectivePriceSql,
+  withCampaignPrices,
+} from "@/lib/catalog/price-campaigns"
 import { db } from "@/lib/db"
-import { categories, productImages, products } from "@/lib/db/schema"
+import {
+  categories,
+  productImages,
+  products,
+  searchQueries,
+} from "@/lib/db/schema"
+import {
+  hasFacetFilters,
+  type ProductFacetFilters,
+} from "@/lib/search/facet-params"
+import { getProductFacets, productFacetConditions } from "@/lib/search/facets"
+import {
+  normalizeSearchQuery,
+  productSearchCondition,
+  productSearchRank,
+} from "@/lib/search/query"
 
 interface SearchParams {
   query: string
   category?: string
+  // Device model slug; only products compatible with it match
+  device?: string
   minPrice?: number
   maxPrice?: number
+  facets?: ProductFacetFilters
   sort?: "relevance" | "price-asc" | "price-desc" | "newest"
   page?: number
   limit?: number
 }
 
-// ============================================
-// Search Products
-// ============================================
+type SearchFilterParams = Omit<
+  SearchParams,
+  "facets" | "sort" | "page" | "limit"
+>
 
-export async function searchProducts(params: SearchParams) {
-  const {
-    query,
-    category,
-    minPrice,
-    maxPrice,
-    sort = "relevance",
-    page = 1,
-    limit = 12,
-  } = params
+// Conditions for the query, category, device and price; facets are applied
+// on top
+async function buildSearchConditions(params: SearchFilterParams) {
+  const { category, device, minPrice, maxPrice } = params
+  const term = normalizeSearchQuery(params.query)
 
-  const offset = (page - 1) * limit
+  const conditions: SQL[] = [eq(products.status, "active")]
 
-  // Build where conditions
-  const conditions = [eq(products.status, "active")]
-
-  // Search in name, description, short description
-  if (query) {
-    conditions.push(
-      or(
-        ilike(products.name, `%${query}%`),
-        ilike(products.description, `%${query}%`),
-        ilike(products.shortDescription, `%${query}%`),
-      )!,
-    )
+  // Full-text match on the search document, or a close product name
+  if (term) {
+    conditions.push(productSearchCondition(term))
   }
 
   // Category filter
@@ -56,30 +81,70 @@ export async function searchProducts(params: SearchParams) {
     }
   }
 
+  // Device filter
+  if (device) {
+    conditions.push(compatibleWithDeviceCondition(device))
+  }
+
   // Price filters
   if (minPrice !== undefined) {
-    conditions.push(sql`${products.basePrice}::numeric >= ${minPrice}`)
+    conditions.push(sql`${effectivePriceSql} >= ${minPrice}`)
   }
   if (maxPrice !== undefined) {
-    conditions.push(sql`${products.basePrice}::numeric <= ${maxPrice}`)
+    conditions.push(sql`${effectivePriceSql} <= ${maxPrice}`)
   }
 
+  return { term, conditions }
+}
+
+// ============================================
+// Search Products
+// ============================================
+
+export async function searchProducts(params: SearchParams) {
+  const {
+    category,
+    device,
+    minPrice,
+    maxPrice,
+    facets,
+    sort = "relevance",
+    page = 1,
+    limit = 12,
+  } = params
+
+  const offset = (page - 1) * limit
+  const { term, conditions: baseConditions } =
+    await buildSearchConditions(params)
+  const conditions = facets
+    ? [...baseConditions, ...productFacetConditions(facets)]
+    : baseConditions
+
   // Build order by
-  let orderByClause
+  let orderByClause: SQL[]
   switch (sort) {
     case "price-asc":
-      orderByClause = asc(sql`${products.basePrice}::numeric`)
+      orderByClause = [asc(effectivePriceSql)]
       break
     case "price-desc":
-      orderByClause = desc(sql`${products.basePrice}::numeric`)
+      orderByClause = [desc(effectivePriceSql)]
       break
     case "newest":
-      orderByClause = desc(products.createdAt)
+      orderByClause = [desc(products.createdAt)]
       break
     case "relevance":
     default:
-      // For relevance, prioritize exact matches, then featured products
-      orderByClause = desc(products.isFeatured)
+      if (term) {
+        // Text rank, then name similarity for typo matches
+        const { textRank, similarity } = productSearchRank(term)
+        orderByClause = [
+          desc(textRank),
+          desc(similarity),
+          desc(products.isFeatured),
+        ]
+      } else {
+        orderByClause = [desc(products.isFeatured)]
+      }
       break
   }
 
@@ -96,13 +161,14 @@ export async function searchProducts(params: SearchParams) {
       name: products.name,
       slug: products.slug,
       shortDescription: products.shortDescription,
+      categoryId: products.categoryId,
       basePrice: products.basePrice,
       compareAtPrice: products.compareAtPrice,
       isFeatured: products.isFeatured,
     })
     .from(products)
     .where(and(...conditions))
-    .orderBy(orderByClause)
+    .orderBy(...orderByClause)
     .limit(limit)
     .offset(offset)
 
@@ -126,10 +192,26 @@ export async function searchProducts(params: SearchParams) {
 
   const imageMap = new Map(images.map((img) => [img.productId, img.url]))
 
-  const productsWithImages = searchResults.map((p) => ({
-    ...p,
-    image: imageMap.get(p.id) || null,
-  }))
+  const productsWithImages = (await withCampaignPrices(searchResults)).map(
+    (p) => ({
+      ...p,
+      image: imageMap.get(p.id) || null,
+    }),
+  )
+
+  // Filters narrow the results, so only a plain first-page search tells us
+  // whether the catalog has what the customer asked for
+  if (
+    term &&
+    page === 1 &&
+    !category &&
+    !device &&
+    minPrice === undefined &&
+    maxPrice === undefined &&
+    !(facets && hasFacetFilters(facets))
+  ) {
+    await logSearchQuery(term, count)
+  }
 
   return {
     products: productsWithImages,
@@ -142,15 +224,29 @@ export async function searchProducts(params: SearchParams) {
   }
 }
 
+// ============================================
+// Search Facets
+// ============================================
+
+export async function getSearchFacets(
+  params: SearchFilterParams & { facets: ProductFacetFilters },
+) {
+  const { conditions } = await buildSearchConditions(params)
+  return getProductFacets(conditions, params.facets)
+}
+
 // ============================================
 // Search Suggestions (Autocomplete)
 // ============================================
 
 export async function getSearchSuggestions(query: string, limit: number = 5) {
   if (!query || query.length < 2) {
-    return { products: [], categories: [] }
+    return { products: [], categories: [], devices: [] }
   }
 
+  const term = normalizeSearchQuery(query)
+  const { textRank, similarity } = productSearchRank(term, { prefix: true })
+
   const suggestions = await db
     .select({
       id: products.id,
@@ -159,8 +255,12 @@ export async function getSearchSuggestions(query: string, limit: number = 5) {
     })
     .from(products)
     .where(
-      and(eq(products.status, "active"), ilike(products.name, `%${query}%`)),
+      and(
+        eq(products.status, "active"),
+        productSearchCondition(term, { prefix: true }),
+      ),
     )
+    .orderBy(desc(textRank), desc(similarity))
     .limit(limit)
 
   // Also get matching categories
@@ -176,9 +276,13 @@ export async function getSearchSuggestions(query: string, limit: number = 5) {
     )
     .limit(3)
 
+  // And device models, to shop accessories for
+  const deviceSuggestions = await findDeviceModels(query.trim(), 3)
+
   return {
     products: suggestions,
     categories: categorySuggestions,
+    devices: deviceSuggestions,
   }
 }
 
@@ -186,15 +290,42 @@ export async function getSearchSuggestions(query: string, limit: number = 5) {
 // Get Popular Search Terms
 // ============================================
 
-export async function getPopularSearchTerms() {
-  // For now, return static popular terms
-  // In production, you'd track search queries in a table
-  return [
-    "iPhone",
-    "Samsung",
-    "Accessories",
-    "Charger",
-    "Case",
-    "Screen Protector",
-  ]
+export async function getPopularSearchTerms(limit: number = 6) {
+  const since = new Date()
+  since.setDate(since.getDate() - 30)
+
+  // Most searched terms that actually find something
+  const terms = await db
+    .select({ query: searchQueries.query })
+    .from(searchQueries)
+    .where(
+      and(
+        gte(searchQueries.createdAt, since),
+        gt(searchQueries.resultCount, 0),
+      ),
+    )
+    .groupBy(searchQueries.query)
+    .orderBy(desc(sql`count(*)`), asc(searchQueries.query))
+    .limit(limit)
+
+  return terms.map((t) => t.query)
+}
+
+// ============================================
+// Search Logging
+// ============================================
+
+async function logSearchQuery(query: string, resultCount: number) {
+  try {
+    const session = await getServerSession()
+
+    await db.insert(searchQueries).values({
+      query,
+      resultCount,
+      userId: session?.user?.id || null,
+    })
+  } catch (error) {
+    // Analytics must never break search
+    console.error("Failed to log search query:", error)
+  }
 }
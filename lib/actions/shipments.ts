@@ -0,0 +1,536 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { asc, eq, inArray } from "drizzle-orm"
+import { z } from "zod"
+
+import { requirePermission, requireStaff } from "@/lib/auth/rbac"
+import { type Database, db } from "@/lib/db"
+import {
+  orderItems,
+  orders,
+  orderStatusHistory,
+  shipmentItems,
+  shipments,
+} from "@/lib/db/schema"
+import { getOrderEmailData } from "@/lib/email/order-email-data"
+import {
+  sendOrderDeliveredEmail,
+  sendOrderShippedEmail,
+} from "@/lib/email/order-notifications"
+import { getRefundedQuantities } from "@/lib/payments/refunds"
+import { isValidTransition, type OrderStatus } from "@/lib/utils/order-status"
+import { buildTrackingUrl, getShipmentStatus } from "@/lib/utils/shipments"
+
+import { logActivity } from "./activity-log"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+/**
+ * Errors that are safe to show to staff
+ */
+class ShipmentError extends Error {}
+
+// Orders that can still have parcels packed for them
+const SHIPPABLE_STATUSES: OrderStatus[] = [
+  "paid",
+  "processing",
+  "packing",
+  "shipped",
+]
+
+// Happy path through the order state machine, walked one step at a time
+const FULFILMENT_FLOW: OrderStatus[] = [
+  "paid",
+  "processing",
+  "packing",
+  "shipped",
+  "delivered",
+]
+
+// Schemas
+const trackingSchema = z.object({
+  carrier: z.string().trim().max(100).optional(),
+  trackingNumber: z.string().trim().max(100).optional(),
+  trackingUrl: z
+    .string()
+    .trim()
+    .url("Enter a valid tracking URL")
+    .optional()
+    .or(z.literal("")),
+  notes: z.string().trim().max(1000).optional(),
+})
+
+const createShipmentSchema = trackingSchema.extend({
+  orderId: z.string().uuid(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().min(0),
+      }),
+    )
+    .transform((items) => items.filter((item) => item.quantity > 0))
+    .refine((items) => items.length > 0, "Select at least one item to ship"),
+})
+
+const updateShipmentSchema = trackingSchema.extend({
+  shipmentId: z.string().uuid(),
+})
+
+export type CreateShipmentInput = z.input<typeof createShipmentSchema>
+export type UpdateShipmentInput = z.input<typeof updateShipmentSchema>
+
+function revalidateShipments(orderId: string) {
+  revalidatePath("/admin/orders")
+  revalidatePath(`/admin/orders/${orderId}`)
+  revalidatePath(`/orders/${orderId}`)
+}
+
+// Staff may paste a URL; otherwise the carrier's template is used
+function resolveTracking(data: z.infer<typeof trackingSchema>) {
+  const carrier = data.carrier || null
+  const trackingNumber = data.trackingNumber || null
+
+  return {
+    carrier,
+    trackingNumber,
+    trackingUrl: data.trackingUrl || buildTrackingUrl(carrier, trackingNumber),
+    notes: data.notes || null,
+  }
+}
+
+/**
+ * Units per order item already packed into a shipment
+ */
+async function getShippedQuantities(
+  orderId: string,
+  executor: Database | Transaction = db,
+): Promise<Map<string, number>> {
+  const rows = await executor
+    .select({
+      orderItemId: shipmentItems.orderItemId,
+      quantity: shipmentItems.quantity,
+    })
+    .from(shipmentItems)
+    .innerJoin(shipments, eq(shipmentItems.shipmentId, shipments.id))
+    .where(eq(shipments.orderId, orderId))
+
+  const quantities = new Map<string, number>()
+  for (const row of rows) {
+    quantities.set(
+      row.orderItemId,
+      (quantities.get(row.orderItemId) || 0) + row.quantity,
+    )
+  }
+  return quantities
+}
+
+/**
+ * Move the order to shipped or delivered once every unit is in a parcel and
+ * every parcel has shipped or been delivered. Returns the new status if the
+ * order moved.
+ */
+async function syncOrderWithShipments(
+  tx: Transaction,
+  orderId: string,
+  changedBy: string,
+): Promise<OrderStatus | null> {
+  const [order] = await tx
+    .select({ status: orders.status })
+    .from(orders)
+    .where(eq(orders.id, orderId))
+    .for("update")
+
+  const items = await tx
+    .select({ id: orderItems.id, quantity: orderItems.quantity })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId))
+
+  const parcels = await tx
+    .select({
+      shippedAt: shipments.shippedAt,
+      deliveredAt: shipments.deliveredAt,
+    })
+    .from(shipments)
+    .where(eq(shipments.orderId, orderId))
+
+  const shipped = await getShippedQuantities(orderId, tx)
+  const refunded = await getRefundedQuantities(orderId, tx)
+
+  // Refunded units will never ship
+  const allPacked = items.every(
+    (item) =>
+      (shipped.get(item.id) || 0) + (refunded.get(item.id) || 0) >=
+      item.quantity,
+  )
+
+  if (!order || !allPacked || parcels.length === 0) return null
+
+  const statuses = parcels.map(getShipmentStatus)
+  const target: OrderStatus | null = statuses.every((s) => s === "delivered")
+    ? "delivered"
+    : statuses.every((s) => s !== "pending")
+      ? "shipped"
+      : null
+
+  if (!target) return null
+
+  const from = FULFILMENT_FLOW.indexOf(order.status)
+  const to = FULFILMENT_FLOW.indexOf(target)
+
+  if (from === -1 || to <= from) return null
+
+  for (let step = from; step < to; step++) {
+    const fromStatus = FULFILMENT_FLOW[step]
+    const toStatus = FULFILMENT_FLOW[step + 1]
+
+    if (!isValidTransition(fromStatus, toStatus)) return null
+
+    await tx.insert(orderStatusHistory).values({
+      orderId,
+      fromStatus,
+      toStatus,
+      notes:
+        toStatus === "shipped"
+          ? "All parcels shipped"
+          : toStatus === "delivered"
+            ? "All parcels delivered"
+            : "Updated from shipments",
+      changedBy,
+    })
+  }
+
+  await tx
+    .update(orders)
+    .set({ status: target, updatedAt: new Date() })
+    .where(eq(orders.id, orderId))
+
+  return target
+}
+
+async function notifyCustomer(orderId: string, status: OrderStatus | null) {
+  if (status !== "shipped" && status !== "delivered") return
+
+  const orderData = await getOrderEmailData(orderId)
+  if (!orderData) return
+
+  if (status === "shipped") {
+    await sendOrderShippedEmail(orderData)
+  } else {
+    await sendOrderDeliveredEmail(orderData)
+  }
+}
+
+// ============================================
+// Get Order Shipments
+// ============================================
+
+/**
+ * Parcels for an order and how many units of each item are already packed
+ */
+export async function getOrderShipments(orderId: string) {
+  await requireStaff()
+
+  const parcels = await db
+    .select()
+    .from(shipments)
+    .where(eq(shipments.orderId, orderId))
+    .orderBy(asc(shipments.createdAt))
+
+  const items =
+    parcels.length > 0
+      ? await db
+          .select({
+            shipmentId: shipmentItems.shipmentId,
+            orderItemId: shipmentItems.orderItemId,
+            productName: orderItems.productName,
+            variantName: orderItems.variantName,
+            quantity: shipmentItems.quantity,
+          })
+          .from(shipmentItems)
+          .innerJoin(orderItems, eq(shipmentItems.orderItemId, orderItems.id))
+          .where(
+            inArray(
+              shipmentItems.shipmentId,
+              parcels.map((parcel) => parcel.id),
+            ),
+          )
+      : []
+
+  const [shipped, refunded] = await Promise.all([
+    getShippedQuantities(orderId),
+    getRefundedQuantities(orderId),
+  ])
+
+  return {
+    shipments: parcels.map((parcel) => ({
+      ...parcel,
+      status: getShipmentStatus(parcel),
+      items: items.filter((item) => item.shipmentId === parcel.id),
+    })),
+    shippedQuantities: Object.fromEntries(shipped),
+    refundedQuantities: Object.fromEntries(refunded),
+  }
+}
+
+// ============================================
+// Create Shipment
+// ============================================
+
+export async function createShipment(input: CreateShipmentInput) {
+  try {
+    await requirePermission("order.update")
+    const data = createShipmentSchema.parse(input)
+    const tracking = resolveTracking(data)
+
+    const shipment = await db.transaction(async (tx) => {
+      // Lock the order so two parcels cannot claim the same units
+      const [order] = await tx
+        .select({ id: orders.id, status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, data.orderId))
+        .for("update")
+
+      if (!order) {
+        throw new ShipmentError("Order not found")
+      }
+
+      if (!SHIPPABLE_STATUSES.includes(order.status)) {
+        throw new ShipmentError(
+          "Shipments can only be created for paid orders that have not been delivered",
+        )
+      }
+
+      const lines = await tx
+        .select({
+          id: orderItems.id,
+          productName: orderItems.productName,
+          quantity: orderItems.quantity,
+        })
+        .from(orderItems)
+        .where(eq(orderItems.orderId, order.id))
+
+      const shipped = await getShippedQuantities(order.id, tx)
+      const refunded = await getRefundedQuantities(order.id, tx)
+
+      for (const item of data.items) {
+        const line = lines.find((l) => l.id === item.orderItemId)
+        if (!line) {
+          throw new ShipmentError("Item does not belong to this order")
+        }
+
+        const remaining =
+          line.quantity -
+          (shipped.get(line.id) || 0) -
+          (refunded.get(line.id) || 0)
+
+        if (item.quantity > remaining) {
+          throw new ShipmentError(
+            `Only ${remaining} of ${line.productName} left to ship`,
+          )
+        }
+      }
+
+      const [created] = await tx
+        .insert(shipments)
+        .values({ orderId: order.id, ...tracking })
+        .returning()
+
+      await tx.insert(shipmentItems).values(
+        data.items.map((item) => ({
+          shipmentId: created.id,
+          orderItemId: item.orderItemId,
+          quantity: item.quantity,
+        })),
+      )
+
+      return created
+    })
+
+    await logActivity({
+      action: "shipment.create",
+      entityType: "shipment",
+      entityId: shipment.id,
+      details: {
+        orderId: data.orderId,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+      },
+    })
+
+    revalidateShipments(data.orderId)
+
+    return { success: true as const, shipmentId: shipment.id }
+  } catch (error) {
+    if (error instanceof ShipmentError) {
+      return { success: false as const, error: error.message }
+    }
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid shipment",
+      }
+    }
+    console.error("Failed to create shipment:", error)
+    return { success: false as const, error: "Failed to create shipment" }
+  }
+}
+
+// ============================================
+// Update Shipment Tracking
+// ============================================
+
+export async function updateShipment(input: UpdateShipmentInput) {
+  try {
+    await requirePermission("order.update")
+    const data = updateShipmentSchema.parse(input)
+
+    const [shipment] = await db
+      .update(shipments)
+      .set({ ...resolveTracking(data), updatedAt: new Date() })
+      .where(eq(shipments.id, data.shipmentId))
+      .returning()
+
+    if (!shipment) {
+      return { success: false as const, error: "Shipment not found" }
+    }
+
+    await logActivity({
+      action: "shipment.update",
+      entityType: "shipment",
+      entityId: shipment.id,
+      details: {
+        orderId: shipment.orderId,
+        carrier: shipment.carrier,
+        trackingNumber: shipment.trackingNumber,
+      },
+    })
+
+    revalidateShipments(shipment.orderId)
+
+    return { success: true as const }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid tracking details",
+      }
+    }
+    console.error("Failed to update shipment:", error)
+    return { success: false as const, error: "Failed to update shipment" }
+  }
+}
+
+// ============================================
+// Mark Shipment Shipped / Delivered
+// ============================================
+
+export async function markShipmentShipped(shipmentId: string) {
+  return setShipmentProgress(shipmentId, "shipped")
+}
+
+export async function markShipmentDelivered(shipmentId: string) {
+  return setShipmentProgress(shipmentId, "delivered")
+}
+
+async function setShipmentProgress(
+  shipmentId: string,
+  progress: "shipped" | "delivered",
+) {
+  try {
+    const session = await requirePermission("order.update")
+
+    const shipment = await db.query.shipments.findFirst({
+      where: eq(shipments.id, shipmentId),
+    })
+
+    if (!shipment) {
+      return { success: false as const, error: "Shipment not found" }
+    }
+
+    if (progress === "shipped" && shipment.shippedAt) {
+      return { success: false as const, error: "Shipment already shipped" }
+    }
+
+    if (progress === "delivered" && shipment.deliveredAt) {
+      return { success: false as const, error: "Shipment already delivered" }
+    }
+
+    const now = new Date()
+
+    const orderStatus = await db.transaction(async (tx) => {
+      await tx
+        .update(shipments)
+        .set({
+          shippedAt: shipment.shippedAt ?? now,
+          deliveredAt: progress === "delivered" ? now : null,
+          updatedAt: now,
+        })
+        .where(eq(shipments.id, shipment.id))
+
+      return syncOrderWithShipments(tx, shipment.orderId, session.user.id)
+    })
+
+    await logActivity({
+      action: progress === "shipped" ? "shipment.ship" : "shipment.deliver",
+      entityType: "shipment",
+      entityId: shipment.id,
+      details: {
+        orderId: shipment.orderId,
+        orderStatus: orderStatus ?? undefined,
+      },
+    })
+
+    await notifyCustomer(shipment.orderId, orderStatus)
+
+    revalidateShipments(shipment.orderId)
+
+    return { success: true as const, orderStatus }
+  } catch (error) {
+    console.error(`Failed to mark shipment ${progress}:`, error)
+    return { success: false as const, error: "Failed to update shipment" }
+  }
+}
+
+// ============================================
+// Delete Shipment
+// ============================================
+
+export async function deleteShipment(shipmentId: string) {
+  try {
+    await requirePermission("order.update")
+
+    const shipment = await db.query.shipments.findFirst({
+      where: eq(shipments.id, shipmentId),
+    })
+
+    if (!shipment) {
+      return { success: false as const, error: "Shipment not found" }
+    }
+
+    if (shipment.shippedAt) {
+      return {
+        success: false as const,
+        error: "Shipments that have left the warehouse cannot be deleted",
+      }
+    }
+
+    await db.delete(shipments).where(eq(shipments.id, shipment.id))
+
+    await logActivity({
+      action: "shipment.delete",
+      entityType: "shipment",
+      entityId: shipment.id,
+      details: { orderId: shipment.orderId },
+    })
+
+    revalidateShipments(shipment.orderId)
+
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to delete shipment:", error)
+    return { success: false as const, error: "Failed to delete shipment" }
+  }
+}
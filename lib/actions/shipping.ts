@@ -0,0 +1,166 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { asc, eq } from "drizzle-orm"
+import { z } from "zod"
+
+import { requireAdmin } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import { shippingZones, taxRates } from "@/lib/db/schema"
+
+const shippingZoneSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  countries: z.array(z.string().trim().min(2).max(3)).default([]),
+  states: z.array(z.string().trim().min(1)).default([]),
+  standardRate: z.number().min(0),
+  expressRate: z.number().min(0),
+  ratePerKg: z.number().min(0).default(0),
+  freeShippingThreshold: z.number().min(0).nullable().default(null),
+  isActive: z.boolean().default(true),
+  sortOrder: z.number().int().default(0),
+})
+
+const taxRateSchema = z.object({
+  name: z.string().min(1, "Name is required").max(255),
+  country: z.string().trim().min(2).max(3),
+  state: z.string().trim().nullable().default(null),
+  rate: z.number().min(0).max(100),
+  appliesToShipping: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+})
+
+export type ShippingZoneInput = z.input<typeof shippingZoneSchema>
+export type TaxRateInput = z.input<typeof taxRateSchema>
+
+// ============================================
+// Shipping Zones (Admin)
+// ============================================
+
+export async function getShippingZones() {
+  await requireAdmin()
+
+  return db
+    .select()
+    .from(shippingZones)
+    .orderBy(asc(shippingZones.sortOrder), asc(shippingZones.name))
+}
+
+export async function saveShippingZone(data: ShippingZoneInput, id?: string) {
+  try {
+    await requireAdmin()
+    const validated = shippingZoneSchema.parse(data)
+
+    const values = {
+      name: validated.name,
+      countries: validated.countries.map((c) => c.toUpperCase()),
+      states: validated.states,
+      standardRate: validated.standardRate.toFixed(2),
+      expressRate: validated.expressRate.toFixed(2),
+      ratePerKg: validated.ratePerKg.toFixed(2),
+      freeShippingThreshold:
+        validated.freeShippingThreshold === null
+          ? null
+          : validated.freeShippingThreshold.toFixed(2),
+      isActive: validated.isActive,
+      sortOrder: validated.sortOrder,
+    }
+
+    if (id) {
+      await db
+        .update(shippingZones)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(shippingZones.id, id))
+    } else {
+      await db.insert(shippingZones).values(values)
+    }
+
+    revalidatePath("/admin/shipping")
+    return { success: true as const }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid shipping zone",
+      }
+    }
+    console.error("Failed to save shipping zone:", error)
+    return { success: false as const, error: "Failed to save shipping zone" }
+  }
+}
+
+export async function deleteShippingZone(id: string) {
+  try {
+    await requireAdmin()
+    await db.delete(shippingZones).where(eq(shippingZones.id, id))
+
+    revalidatePath("/admin/shipping")
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to delete shipping zone:", error)
+    return { success: false as const, error: "Failed to delete shipping zone" }
+  }
+}
+
+// ============================================
+// Tax Rates (Admin)
+// ============================================
+
+export async function getTaxRates() {
+  await requireAdmin()
+
+  return db
+    .select()
+    .from(taxRates)
+    .orderBy(asc(taxRates.country), asc(taxRates.state))
+}
+
+export async function saveTaxRate(data: TaxRateInput, id?: string) {
+  try {
+    await requireAdmin()
+    const validated = taxRateSchema.parse(data)
+
+    const values = {
+      name: validated.name,
+      country: validated.country.toUpperCase(),
+      state: validated.state || null,
+      rate: validated.rate.toFixed(3),
+      appliesToShipping: validated.appliesToShipping,
+      isActive: validated.isActive,
+    }
+
+    if (id) {
+      await db
+        .update(taxRates)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(taxRates.id, id))
+    } else {
+      await db.insert(taxRates).values(values)
+    }
+
+    revalidatePath("/admin/shipping")
+    return { success: true as const }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false as const,
+        error: error.errors[0]?.message || "Invalid tax rate",
+      }
+    }
+    console.error("Failed to save tax rate:", error)
+    return { success: false as const, error: "Failed to save tax rate" }
+  }
+}
+
+export async function deleteTaxRate(id: string) {
+  try {
+    await requireAdmin()
+    await db.delete(taxRates).where(eq(taxRates.id, id))
+
+    revalidatePath("/admin/shipping")
+    return { success: true as const }
+  } catch (error) {
+    console.error("Failed to delete tax rate:", error)
+    return { success: false as const, error: "Failed to delete tax rate" }
+  }
+}
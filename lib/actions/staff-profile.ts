@@ -119,11 +119,11 @@ export async function changePassword(data: {
     if (userData) {
       await sendEmail({
         to: userData.email,
-        subject: "Your password has been changed",
         template: "password-changed",
         data: {
           name: userData.name,
         },
+        userId: userData.id,
       })
     }
 
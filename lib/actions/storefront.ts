@@ -1,8 +1,12 @@
 "use server"
 
 import { unstable_cache } from "next/cache"
-import { and, desc, eq, gte, inArray, sql } from "drizzle-orm"
+import { and, desc, eq, gte, inArray, or, sql } from "drizzle-orm"
 
+import {
+  onCampaignCondition,
+  withCampaignPrices,
+} from "@/lib/catalog/price-campaigns"
 import { db } from "@/lib/db"
 import {
   categories,
@@ -26,6 +30,7 @@ export async function getFeaturedProducts(limit: number = 8) {
           name: products.name,
           slug: products.slug,
           shortDescription: products.shortDescription,
+          categoryId: products.categoryId,
           basePrice: products.basePrice,
           compareAtPrice: products.compareAtPrice,
           isFeatured: products.isFeatured,
@@ -55,7 +60,7 @@ export async function getFeaturedProducts(limit: number = 8) {
 
       const imageMap = new Map(images.map((img) => [img.productId, img.url]))
 
-      return featuredProducts.map((p) => ({
+      return (await withCampaignPrices(featuredProducts)).map((p) => ({
         ...p,
         image: imageMap.get(p.id) || null,
       }))
@@ -85,6 +90,7 @@ export async function getNewArrivals(limit: number = 8) {
           name: products.name,
           slug: products.slug,
           shortDescription: products.shortDescription,
+          categoryId: products.categoryId,
           basePrice: products.basePrice,
           compareAtPrice: products.compareAtPrice,
           isFeatured: products.isFeatured,
@@ -120,7 +126,7 @@ export async function getNewArrivals(limit: number = 8) {
 
       const imageMap = new Map(images.map((img) => [img.productId, img.url]))
 
-      return newProducts.map((p) => ({
+      return (await withCampaignPrices(newProducts)).map((p) => ({
         ...p,
         image: imageMap.get(p.id) || null,
       }))
@@ -171,6 +177,7 @@ export async function getBestSellers(limit: number = 8) {
           name: products.name,
           slug: products.slug,
           shortDescription: products.shortDescription,
+          categoryId: products.categoryId,
           basePrice: products.basePrice,
           compareAtPrice: products.compareAtPrice,
           isFeatured: products.isFeatured,
@@ -196,7 +203,7 @@ export async function getBestSellers(limit: number = 8) {
       const salesMap = new Map(topSelling.map((p) => [p.productId, p.totalSold]))
 
       // Sort by sales count
-      return bestSellerProducts
+      return (await withCampaignPrices(bestSellerProducts))
         .map((p) => ({
           ...p,
           image: imageMap.get(p.id) || null,
@@ -270,15 +277,21 @@ export async function getFeaturedCategories(limit: number = 6) {
 // Get Deal Products (Products with discount)
 // ============================================
 
+/**
+ * Discounted products, biggest discount first: a compare-at price above the
+ * selling price, or a running price campaign. Campaign deals carry the
+ * campaign so the deals page can count down to its end.
+ */
 export async function getDealProducts(limit: number = 8) {
   return unstable_cache(
     async () => {
-      const deals = await db
+      const candidates = await db
         .select({
           id: products.id,
           name: products.name,
           slug: products.slug,
           shortDescription: products.shortDescription,
+          categoryId: products.categoryId,
           basePrice: products.basePrice,
           compareAtPrice: products.compareAtPrice,
           isFeatured: products.isFeatured,
@@ -287,15 +300,26 @@ export async function getDealProducts(limit: number = 8) {
         .where(
           and(
             eq(products.status, "active"),
-            sql`${products.compareAtPrice} IS NOT NULL AND ${products.compareAtPrice}::numeric > ${products.basePrice}::numeric`,
-          ),
-        )
-        .orderBy(
-          desc(
-            sql`(${products.compareAtPrice}::numeric - ${products.basePrice}::numeric) / ${products.compareAtPrice}::numeric`,
+            or(
+              sql`${products.compareAtPrice}::numeric > ${products.basePrice}::numeric`,
+              onCampaignCondition,
+            ),
           ),
         )
-        .limit(limit)
+
+      // Ranked after pricing, since campaigns change the discount. Products
+      // with only variants on a campaign keep their listed price and drop out.
+      const discount = (p: {
+        basePrice: string
+        compareAtPrice: string | null
+      }) =>
+        p.compareAtPrice
+          ? 1 - parseFloat(p.basePrice) / parseFloat(p.compareAtPrice)
+          : 0
+      const deals = (await withCampaignPrices(candidates))
+        .filter((p) => discount(p) > 0)
+        .sort((a, b) => discount(b) - discount(a))
+        .slice(0, limit)
 
       // Get primary images
       const productIds = deals.map((p) => p.id)
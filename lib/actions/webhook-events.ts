@@ -0,0 +1,167 @@
+"use server"
+
+import { revalidatePath } from "next/cache"
+
+import { and, count, desc, eq, ilike, or } from "drizzle-orm"
+
+import { requirePermission } from "@/lib/auth/rbac"
+import { db } from "@/lib/db"
+import { orders, payments, webhookEvents } from "@/lib/db/schema"
+import { processWebhookEvent } from "@/lib/payments/webhooks"
+
+import { logActivity } from "./activity-log"
+
+type WebhookEventStatus = (typeof webhookEvents.$inferSelect)["status"]
+
+const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = [
+  "received",
+  "processed",
+  "duplicate",
+  "ignored",
+  "rejected",
+  "failed",
+]
+
+interface WebhookEventFilterInput {
+  page?: number
+  limit?: number
+  status?: string
+  provider?: string
+  search?: string
+}
+
+// ============================================
+// Admin: Get Webhook Events
+// ============================================
+
+export async function getWebhookEvents(input: WebhookEventFilterInput = {}) {
+  await requirePermission("payment.list")
+
+  const { page = 1, limit = 20, status, provider, search } = input
+  const offset = (page - 1) * limit
+
+  const conditions = []
+  if (status && WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus)) {
+    conditions.push(eq(webhookEvents.status, status as WebhookEventStatus))
+  }
+  if (provider) {
+    conditions.push(eq(webhookEvents.provider, provider))
+  }
+  if (search) {
+    conditions.push(
+      or(
+        ilike(webhookEvents.externalId, `%${search}%`),
+        ilike(webhookEvents.transactionId, `%${search}%`),
+        ilike(webhookEvents.eventId, `%${search}%`),
+        ilike(orders.orderNumber, `%${search}%`),
+      ),
+    )
+  }
+  const where = conditions.length > 0 ? and(...conditions) : undefined
+
+  const [events, [totalResult], statusCounts] = await Promise.all([
+    db
+      .select({
+        id: webhookEvents.id,
+        provider: webhookEvents.provider,
+        eventId: webhookEvents.eventId,
+        eventType: webhookEvents.eventType,
+        externalId: webhookEvents.externalId,
+        transactionId: webhookEvents.transactionId,
+        payload: webhookEvents.payload,
+        headers: webhookEvents.headers,
+        signatureValid: webhookEvents.signatureValid,
+        status: webhookEvents.status,
+        outcome: webhookEvents.outcome,
+        error: webhookEvents.error,
+        attempts: webhookEvents.attempts,
+        receivedAt: webhookEvents.receivedAt,
+        processedAt: webhookEvents.processedAt,
+        orderId: orders.id,
+        orderNumber: orders.orderNumber,
+      })
+      .from(webhookEvents)
+      .leftJoin(payments, eq(webhookEvents.paymentId, payments.id))
+      .leftJoin(orders, eq(payments.orderId, orders.id))
+      .where(where)
+      .orderBy(desc(webhookEvents.receivedAt))
+      .limit(limit)
+      .offset(offset),
+    db
+      .select({ count: count() })
+      .from(webhookEvents)
+      .leftJoin(payments, eq(webhookEvents.paymentId, payments.id))
+      .leftJoin(orders, eq(payments.orderId, orders.id))
+      .where(where),
+    db
+      .select({ status: webhookEvents.status, count: count() })
+      .from(webhookEvents)
+      .groupBy(webhookEvents.status),
+  ])
+
+  const total = totalResult?.count || 0
+
+  return {
+    events,
+    statusCounts: Object.fromEntries(
+      statusCounts.map((row) => [row.status, row.count]),
+    ) as Partial<Record<WebhookEventStatus, number>>,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  }
+}
+
+// ============================================
+// Admin: Replay Webhook Event
+// ============================================
+
+export async function replayWebhookEvent(eventId: string) {
+  try {
+    const session = await requirePermission("payment.verify")
+
+    const event = await db.query.webhookEvents.findFirst({
+      where: eq(webhookEvents.id, eventId),
+      columns: { id: true, provider: true, signatureValid: true },
+    })
+
+    if (!event) {
+      return { success: false as const, error: "Webhook event not found" }
+    }
+
+    if (!event.signatureValid) {
+      return {
+        success: false as const,
+        error: "Events with an invalid signature cannot be replayed",
+      }
+    }
+
+    const result = await processWebhookEvent(event.id, {
+      replayedBy: session.user.id,
+    })
+
+    await logActivity({
+      action: "payment.webhook_replay",
+      entityType: "webhook_event",
+      entityId: event.id,
+      details: { provider: event.provider, status: result.status },
+    })
+
+    revalidatePath("/admin/payments/webhooks")
+
+    if (result.status === "failed") {
+      return {
+        success: false as const,
+        error: result.error || "Replay failed",
+      }
+    }
+
+    return { success: true as const, status: result.status }
+  } catch (error) {
+    console.error("Failed to replay webhook event:", error)
+    return { success: false as const, error: "Failed to replay webhook event" }
+  }
+}
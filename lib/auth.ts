@@ -7,6 +7,7 @@ import { ac, roles } from "@/lib/auth/permissions"
 import { db } from "@/lib/db"
 import * as schema from "@/lib/db/schema"
 import { sendEmail } from "@/lib/email/send"
+import { claimGuestOrdersForUser } from "@/lib/orders/guest-access"
 
 /**
  * BetterAuth Configuration
@@ -17,6 +18,8 @@ import { sendEmail } from "@/lib/email/send"
  * - Passkey authentication (WebAuthn)
  * - Admin plugin for user management
  * - Session management
+ * - Guest orders attached to verified accounts with the same email
+ * - Welcome email for new customer accounts
  */
 export const auth = betterAuth({
   database: drizzleAdapter(db, {
@@ -36,12 +39,12 @@ export const auth = betterAuth({
       // Send password reset email
       await sendEmail({
         to: user.email,
-        subject: "Reset your password",
         template: "password-reset",
         data: {
           name: user.name,
           url,
         },
+        userId: user.id,
       })
     },
   },
@@ -79,6 +82,35 @@ export const auth = betterAuth({
       maxAge: 60 * 5, // 5 minutes
     },
   },
+  databaseHooks: {
+    session: {
+      create: {
+        after: async (session) => {
+          await claimGuestOrdersForUser(session.userId)
+        },
+      },
+    },
+    user: {
+      create: {
+        // Staff invited from the admin get an invitation email instead
+        after: async (user) => {
+          if (user.invitedBy) return
+          await sendEmail({
+            to: user.email,
+            template: "welcome",
+            data: { name: user.name },
+            userId: user.id,
+          })
+        },
+      },
+      update: {
+        // Picks up guest orders as soon as an email is verified
+        after: async (user) => {
+          await claimGuestOrdersForUser(user.id)
+        },
+      },
+    },
+  },
   user: {
     additionalFields: {
       mustChangePassword: {
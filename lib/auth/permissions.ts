@@ -40,6 +40,12 @@ export const statement = {
 
   // Reports access
   reports: ["read", "export"],
+
+  // Promotion / coupon management
+  promotion: ["create", "read", "update", "delete", "list"],
+
+  // Return (RMA) handling
+  return: ["read", "update", "approve", "reject", "list"],
 } as const
 
 /**
@@ -84,6 +90,9 @@ export const support = ac.newRole({
 
   // Basic payment viewing
   payment: ["read", "list"],
+
+  // Return review
+  return: ["read", "approve", "reject", "list"],
 })
 
 /**
@@ -119,6 +128,12 @@ export const manager = ac.newRole({
 
   // Reports viewing
   reports: ["read"],
+
+  // Promotion management
+  promotion: ["create", "read", "update", "delete", "list"],
+
+  // Return handling
+  return: ["read", "update", "approve", "reject", "list"],
 })
 
 /**
@@ -159,6 +174,12 @@ export const admin = ac.newRole({
 
   // Full reports access
   reports: ["read", "export"],
+
+  // Full promotion management
+  promotion: ["create", "read", "update", "delete", "list"],
+
+  // Full return handling
+  return: ["read", "update", "approve", "reject", "list"],
 })
 
 /**
@@ -25,6 +25,8 @@ export type Resource =
   | "staff"
   | "settings"
   | "reports"
+  | "promotion"
+  | "return"
 
 /**
  * Action types for permission checks
@@ -75,6 +77,11 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     // Payments
     "payment.read",
     "payment.list",
+    // Returns
+    "return.read",
+    "return.list",
+    "return.approve",
+    "return.reject",
     // Reviews
     "review.read",
     "review.approve",
@@ -125,6 +132,18 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     "customer.list",
     // Reports
     "reports.read",
+    // Promotions
+    "promotion.create",
+    "promotion.read",
+    "promotion.update",
+    "promotion.delete",
+    "promotion.list",
+    // Returns
+    "return.read",
+    "return.list",
+    "return.approve",
+    "return.reject",
+    "return.update",
   ],
   admin: [
     // Admin has all permissions
@@ -0,0 +1,319 @@
+/**
+ * Product bundles
+ *
+ * Loads bundle contents and works out what bundles can be sold and for how
+ * much. A bundle has no stock of its own, so everything that checks stock
+ * (cart, checkout, the product page) goes through `getAvailableStock`.
+ */
+
+import { and, asc, eq, inArray, ne, type SQL, sql } from "drizzle-orm"
+import { alias } from "drizzle-orm/pg-core"
+
+import { type Database, db } from "@/lib/db"
+import {
+  inventoryItems,
+  productBundleItems,
+  productBundles,
+  products,
+  productVariants,
+} from "@/lib/db/schema"
+import { availableQuantity } from "@/lib/inventory/reservations"
+import {
+  bundleAvailability,
+  bundleComponentTotal,
+  discountedBundlePrice,
+} from "@/lib/utils/bundles"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+export interface BundleComponent {
+  variantId: string
+  productId: string
+  productName: string
+  productSlug: string
+  variantName: string
+  sku: string
+  price: string
+  weight: string | null
+  quantity: number
+  // Units on hand that no order holds; 0 while the component can't be sold
+  available: number
+}
+
+export interface BundleContents {
+  id: string
+  variantId: string
+  discountPercent: number | null
+  components: BundleComponent[]
+}
+
+/**
+ * Contents of the bundles among `variantIds`, keyed by bundle variant.
+ * Variants that aren't bundles are left out.
+ */
+export async function getBundleContents(
+  variantIds: string[],
+  executor: Database | Transaction = db,
+): Promise<Map<string, BundleContents>> {
+  const bundles = new Map<string, BundleContents>()
+  if (variantIds.length === 0) {
+    return bundles
+  }
+
+  const rows = await executor
+    .select({
+      bundleId: productBundles.id,
+      bundleVariantId: productBundles.variantId,
+      discountPercent: productBundles.discountPercent,
+      quantity: productBundleItems.quantity,
+      variantId: productVariants.id,
+      variantName: productVariants.name,
+      sku: productVariants.sku,
+      price: productVariants.price,
+      weight: productVariants.weight,
+      variantActive: productVariants.isActive,
+      productId: products.id,
+      productName: products.name,
+      productSlug: products.slug,
+      productStatus: products.status,
+      available: availableQuantity,
+    })
+    .from(productBundles)
+    .leftJoin(
+      productBundleItems,
+      eq(productBundleItems.bundleId, productBundles.id),
+    )
+    .leftJoin(
+      productVariants,
+      eq(productBundleItems.componentVariantId, productVariants.id),
+    )
+    .leftJoin(products, eq(productVariants.productId, products.id))
+    .leftJoin(inventoryItems, eq(inventoryItems.variantId, productVariants.id))
+    .where(inArray(productBundles.variantId, variantIds))
+    .orderBy(asc(productBundleItems.sortOrder))
+
+  for (const row of rows) {
+    let bundle = bundles.get(row.bundleVariantId)
+    if (!bundle) {
+      bundle = {
+        id: row.bundleId,
+        variantId: row.bundleVariantId,
+        discountPercent: row.discountPercent
+          ? parseFloat(row.discountPercent)
+          : null,
+        components: [],
+      }
+      bundles.set(row.bundleVariantId, bundle)
+    }
+
+    if (!row.variantId || !row.productId || row.quantity === null) continue
+
+    const sellable = row.variantActive && row.productStatus === "active"
+    bundle.components.push({
+      variantId: row.variantId,
+      productId: row.productId,
+      productName: row.productName!,
+      productSlug: row.productSlug!,
+      variantName: row.variantName!,
+      sku: row.sku!,
+      price: row.price!,
+      weight: row.weight,
+      quantity: row.quantity,
+      available: sellable ? Math.max(row.available ?? 0, 0) : 0,
+    })
+  }
+
+  return bundles
+}
+
+/**
+ * Units available to sell per variant. Bundles count from their
+ * components; other variants from their inventory item (0 without one).
+ */
+export async function getAvailableStock(
+  variantIds: string[],
+  executor: Database | Transaction = db,
+): Promise<Map<string, number>> {
+  const stock = new Map<string, number>()
+  if (variantIds.length === 0) {
+    return stock
+  }
+
+  const [inventory, bundles] = await Promise.all([
+    executor
+      .select({
+        variantId: inventoryItems.variantId,
+        available: availableQuantity,
+      })
+      .from(inventoryItems)
+      .where(inArray(inventoryItems.variantId, variantIds)),
+    getBundleContents(variantIds, executor),
+  ])
+
+  for (const variantId of variantIds) {
+    const bundle = bundles.get(variantId)
+    stock.set(
+      variantId,
+      bundle
+        ? bundleAvailability(bundle.components)
+        : (inventory.find((row) => row.variantId === variantId)?.available ??
+            0),
+    )
+  }
+
+  return stock
+}
+
+/**
+ * Products with an active bundle variant that can be sold right now: it
+ * has components, and each is sellable with enough unreserved stock. Used
+ * for the "in stock" facet.
+ */
+export const bundleInStockCondition: SQL = sql`exists (
+  select 1 from ${productBundles}
+  inner join ${productVariants} on ${productVariants.id} = ${productBundles.variantId}
+  where ${productVariants.productId} = ${products.id}
+    and ${productVariants.isActive}
+    and exists (
+      select 1 from ${productBundleItems}
+      where ${productBundleItems.bundleId} = ${productBundles.id}
+    )
+    and not exists (
+      select 1 from ${productBundleItems} item
+      inner join ${productVariants} component on component.id = item.component_variant_id
+      inner join ${products} component_product on component_product.id = component.product_id
+      left join ${inventoryItems} stock on stock.variant_id = component.id
+      where item.bundle_id = ${productBundles.id}
+        and (
+          not component.is_active
+          or component_product.status <> 'active'
+          or coalesce(stock.quantity - stock.reserved_quantity, 0) < item.quantity
+        )
+    )
+)`
+
+/**
+ * Bundle weight in kg: the variant's own weight when set, else what its
+ * components weigh together.
+ */
+export function bundleWeight(
+  bundle: BundleContents,
+  ownWeight: string | null,
+): string | null {
+  if (ownWeight) return ownWeight
+
+  const total = bundle.components.reduce(
+    (sum, c) => sum + parseFloat(c.weight ?? "0") * c.quantity,
+    0,
+  )
+  return total > 0 ? total.toFixed(3) : null
+}
+
+/**
+ * Bring bundle prices in line with their components: discount bundles are
+ * repriced, and every bundle's compare-at price shows what the components
+ * cost separately. A bundle sold as its product's default variant updates
+ * the product's listing prices too.
+ *
+ * Pass the bundles to refresh, or the component variants whose prices
+ * changed to refresh every bundle that contains them.
+ */
+export async function refreshBundlePrices(
+  tx: Transaction,
+  target: { bundleVariantIds?: string[]; componentVariantIds?: string[] },
+): Promise<void> {
+  const bundleVariantIds = new Set(target.bundleVariantIds ?? [])
+
+  if (target.componentVariantIds && target.componentVariantIds.length > 0) {
+    const containing = await tx
+      .selectDistinct({ variantId: productBundles.variantId })
+      .from(productBundleItems)
+      .innerJoin(
+        productBundles,
+        eq(productBundleItems.bundleId, productBundles.id),
+      )
+      .where(
+        inArray(
+          productBundleItems.componentVariantId,
+          target.componentVariantIds,
+        ),
+      )
+    for (const row of containing) bundleVariantIds.add(row.variantId)
+  }
+
+  if (bundleVariantIds.size === 0) {
+    return
+  }
+
+  const bundles = await getBundleContents([...bundleVariantIds], tx)
+  const variants = await tx
+    .select({
+      id: productVariants.id,
+      productId: productVariants.productId,
+      price: productVariants.price,
+      isDefault: productVariants.isDefault,
+    })
+    .from(productVariants)
+    .where(inArray(productVariants.id, [...bundles.keys()]))
+
+  for (const variant of variants) {
+    const bundle = bundles.get(variant.id)!
+    const lines = bundle.components.map((c) => ({
+      price: parseFloat(c.price),
+      quantity: c.quantity,
+    }))
+    const componentTotal = bundleComponentTotal(lines)
+    const price =
+      bundle.discountPercent !== null
+        ? discountedBundlePrice(lines, bundle.discountPercent).toFixed(2)
+        : variant.price
+    const compareAtPrice =
+      componentTotal > parseFloat(price) ? componentTotal.toFixed(2) : null
+
+    await tx
+      .update(productVariants)
+      .set({ price, compareAtPrice, updatedAt: new Date() })
+      .where(eq(productVariants.id, variant.id))
+
+    if (variant.isDefault) {
+      await tx
+        .update(products)
+        .set({ basePrice: price, compareAtPrice, updatedAt: new Date() })
+        .where(eq(products.id, variant.productId))
+    }
+  }
+}
+
+/**
+ * Names of the bundles (other than the product's own) that contain one of
+ * the product's variants. Such a product can't be deleted.
+ */
+export async function getContainingBundleNames(
+  productId: string,
+  executor: Database | Transaction = db,
+): Promise<string[]> {
+  const bundleVariant = alias(productVariants, "bundle_variant")
+  const bundleProduct = alias(products, "bundle_product")
+
+  const rows = await executor
+    .selectDistinct({ name: bundleProduct.name })
+    .from(productBundleItems)
+    .innerJoin(
+      productVariants,
+      eq(productBundleItems.componentVariantId, productVariants.id),
+    )
+    .innerJoin(
+      productBundles,
+      eq(productBundleItems.bundleId, productBundles.id),
+    )
+    .innerJoin(bundleVariant, eq(productBundles.variantId, bundleVariant.id))
+    .innerJoin(bundleProduct, eq(bundleVariant.productId, bundleProduct.id))
+    .where(
+      and(
+        eq(productVariants.productId, productId),
+        ne(bundleProduct.id, productId),
+      ),
+    )
+
+  return rows.map((row) => row.name)
+}
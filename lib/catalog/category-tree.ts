@@ -0,0 +1,73 @@
+/**
+ * Category hierarchy queries
+ *
+ * Recursive CTEs over `categories.parent_id`, walking down to a category's
+ * subcategories or up to its ancestors. Both are guarded against cycles,
+ * although the category actions refuse to create them.
+ */
+
+import { type SQL, sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { categories } from "@/lib/db/schema"
+
+// Deeper than any real catalog; stops the upward walk on corrupt data
+const MAX_CATEGORY_DEPTH = 32
+
+/**
+ * Subquery of a category's ID and the IDs of its active descendants, for
+ * `inArray(products.categoryId, categorySubtreeIds(id))`. Inactive
+ * subcategories are skipped along with everything below them.
+ */
+export function categorySubtreeIds(categoryId: string): SQL {
+  return sql`(
+    with recursive subtree as (
+      select ${categories.id} as id from ${categories}
+      where ${categories.id} = ${categoryId}
+      union
+      select child.id from ${categories} child
+      inner join subtree on child.parent_id = subtree.id
+      where child.is_active
+    )
+    select id from subtree
+  )`
+}
+
+export interface CategoryCrumb {
+  id: string
+  name: string
+  slug: string
+}
+
+/**
+ * A category and its active ancestors, from the root down, for breadcrumbs.
+ */
+export async function getCategoryAncestors(
+  categoryId: string,
+): Promise<CategoryCrumb[]> {
+  const rows = await db.execute<{
+    id: string
+    name: string
+    slug: string
+    isActive: boolean
+  }>(sql`
+    with recursive ancestors as (
+      select id, name, slug, parent_id, is_active, 0 as depth
+      from ${categories}
+      where id = ${categoryId}
+      union all
+      select parent.id, parent.name, parent.slug, parent.parent_id,
+        parent.is_active, ancestors.depth + 1
+      from ${categories} parent
+      inner join ancestors on parent.id = ancestors.parent_id
+      where ancestors.depth < ${MAX_CATEGORY_DEPTH}
+    )
+    select id, name, slug, is_active as "isActive"
+    from ancestors
+    order by depth desc
+  `)
+
+  return rows
+    .filter((row) => row.isActive)
+    .map(({ id, name, slug }) => ({ id, name, slug }))
+}
@@ -0,0 +1,179 @@
+/**
+ * Device compatibility
+ *
+ * Which device models an accessory fits, for the "shop for my device"
+ * selector, the compatibility badge on product cards and the device search
+ * filter. Products without compatible devices aren't device-specific and
+ * never match a device filter.
+ */
+
+import { and, asc, eq, ilike, or, type SQL, sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import {
+  deviceBrands,
+  deviceModels,
+  productCompatibleDevices,
+  products,
+} from "@/lib/db/schema"
+
+export interface DeviceModelSummary {
+  id: string
+  name: string
+  slug: string
+  brandName: string
+}
+
+export interface DeviceMenuBrand {
+  id: string
+  name: string
+  models: { id: string; name: string; slug: string }[]
+}
+
+const deviceModelSummary = {
+  id: deviceModels.id,
+  name: deviceModels.name,
+  slug: deviceModels.slug,
+  brandName: deviceBrands.name,
+}
+
+/**
+ * Products compatible with the active device model with this slug.
+ */
+export function compatibleWithDeviceCondition(deviceSlug: string): SQL {
+  return sql`exists (
+    select 1 from ${productCompatibleDevices}
+    inner join ${deviceModels} on ${deviceModels.id} = ${productCompatibleDevices.deviceModelId}
+    where ${productCompatibleDevices.productId} = ${products.id}
+      and ${deviceModels.slug} = ${deviceSlug}
+      and ${deviceModels.isActive}
+  )`
+}
+
+/**
+ * Brands with their active models, for the device selector. Brands without
+ * an active model are left out.
+ */
+export async function getDeviceMenu(): Promise<DeviceMenuBrand[]> {
+  const rows = await db
+    .select({
+      brandId: deviceBrands.id,
+      brandName: deviceBrands.name,
+      id: deviceModels.id,
+      name: deviceModels.name,
+      slug: deviceModels.slug,
+    })
+    .from(deviceModels)
+    .innerJoin(deviceBrands, eq(deviceModels.brandId, deviceBrands.id))
+    .where(eq(deviceModels.isActive, true))
+    .orderBy(
+      asc(deviceBrands.sortOrder),
+      asc(deviceBrands.name),
+      asc(deviceModels.sortOrder),
+      asc(deviceModels.name),
+    )
+
+  const brands: DeviceMenuBrand[] = []
+  for (const row of rows) {
+    let brand = brands.find((b) => b.id === row.brandId)
+    if (!brand) {
+      brand = { id: row.brandId, name: row.brandName, models: [] }
+      brands.push(brand)
+    }
+    brand.models.push({ id: row.id, name: row.name, slug: row.slug })
+  }
+
+  return brands
+}
+
+/**
+ * An active device model by ID or slug.
+ */
+export async function getDeviceModel(
+  by: { id: string } | { slug: string },
+): Promise<DeviceModelSummary | null> {
+  const [model] = await db
+    .select(deviceModelSummary)
+    .from(deviceModels)
+    .innerJoin(deviceBrands, eq(deviceModels.brandId, deviceBrands.id))
+    .where(
+      and(
+        "id" in by
+          ? eq(deviceModels.id, by.id)
+          : eq(deviceModels.slug, by.slug),
+        eq(deviceModels.isActive, true),
+      ),
+    )
+    .limit(1)
+
+  return model ?? null
+}
+
+/**
+ * IDs of the products compatible with a device model.
+ */
+export async function getDeviceProductIds(
+  deviceModelId: string,
+): Promise<string[]> {
+  const rows = await db
+    .select({ productId: productCompatibleDevices.productId })
+    .from(productCompatibleDevices)
+    .where(eq(productCompatibleDevices.deviceModelId, deviceModelId))
+
+  return rows.map((row) => row.productId)
+}
+
+/**
+ * Active device models a product fits, for the product page.
+ */
+export async function getCompatibleDevices(
+  productId: string,
+): Promise<DeviceModelSummary[]> {
+  return db
+    .select(deviceModelSummary)
+    .from(productCompatibleDevices)
+    .innerJoin(
+      deviceModels,
+      eq(productCompatibleDevices.deviceModelId, deviceModels.id),
+    )
+    .innerJoin(deviceBrands, eq(deviceModels.brandId, deviceBrands.id))
+    .where(
+      and(
+        eq(productCompatibleDevices.productId, productId),
+        eq(deviceModels.isActive, true),
+      ),
+    )
+    .orderBy(
+      asc(deviceBrands.sortOrder),
+      asc(deviceBrands.name),
+      asc(deviceModels.sortOrder),
+      asc(deviceModels.name),
+    )
+}
+
+/**
+ * Active device models whose name, with or without the brand, contains
+ * `query`. Used for search suggestions.
+ */
+export async function findDeviceModels(
+  query: string,
+  limit: number,
+): Promise<DeviceModelSummary[]> {
+  const pattern = `%${query}%`
+
+  return db
+    .select(deviceModelSummary)
+    .from(deviceModels)
+    .innerJoin(deviceBrands, eq(deviceModels.brandId, deviceBrands.id))
+    .where(
+      and(
+        eq(deviceModels.isActive, true),
+        or(
+          ilike(deviceModels.name, pattern),
+          sql`(${deviceBrands.name} || ' ' || ${deviceModels.name}) ilike ${pattern}`,
+        ),
+      ),
+    )
+    .orderBy(asc(deviceBrands.sortOrder), asc(deviceModels.sortOrder))
+    .limit(limit)
+}
@@ -0,0 +1,228 @@
+/**
+ * Price campaign resolution
+ *
+ * Loads the campaigns running now and applies them to product and variant
+ * prices. Listings, the product page, the cart and checkout all price
+ * through here, so customers pay what they were shown.
+ */
+
+import { and, eq, gt, lte, type SQL, sql } from "drizzle-orm"
+
+import { type Database, db } from "@/lib/db"
+import {
+  categories,
+  priceCampaigns,
+  products,
+  productVariants,
+} from "@/lib/db/schema"
+import { descendantIds } from "@/lib/utils/categories"
+import {
+  type AppliedCampaign,
+  type PriceCampaignRule,
+  type PricedItem,
+  resolveEffectivePrice,
+} from "@/lib/utils/price-campaigns"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+/**
+ * Campaigns running at `now`, with category targets expanded to their
+ * subcategories.
+ */
+export async function getActivePriceCampaigns(
+  now: Date = new Date(),
+  executor: Database | Transaction = db,
+): Promise<PriceCampaignRule[]> {
+  const rows = await executor
+    .select()
+    .from(priceCampaigns)
+    .where(
+      and(
+        eq(priceCampaigns.isActive, true),
+        lte(priceCampaigns.startsAt, now),
+        gt(priceCampaigns.endsAt, now),
+      ),
+    )
+
+  if (rows.length === 0) {
+    return []
+  }
+
+  const categoryRows = rows.some((row) => row.categoryIds.length > 0)
+    ? await executor
+        .select({ id: categories.id, parentId: categories.parentId })
+        .from(categories)
+    : []
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    value: parseFloat(row.value),
+    productIds: row.productIds,
+    variantIds: row.variantIds,
+    categoryIds: [
+      ...new Set(
+        row.categoryIds.flatMap((id) => [...descendantIds(categoryRows, id)]),
+      ),
+    ],
+    startsAt: row.startsAt,
+    endsAt: row.endsAt,
+  }))
+}
+
+export type PriceResolver = (
+  item: PricedItem,
+  price: string,
+  compareAtPrice: string | null,
+) => {
+  price: string
+  compareAtPrice: string | null
+  campaign: AppliedCampaign | null
+}
+
+/**
+ * Load the running campaigns once and return a function that prices items
+ * against them. Prices stay decimal strings, like the columns they replace.
+ */
+export async function getPriceResolver(
+  options: { now?: Date; executor?: Database | Transaction } = {},
+): Promise<PriceResolver> {
+  const now = options.now ?? new Date()
+  const rules = await getActivePriceCampaigns(now, options.executor)
+
+  return (item, price, compareAtPrice) => {
+    if (rules.length === 0) {
+      return { price, compareAtPrice, campaign: null }
+    }
+
+    const effective = resolveEffectivePrice(
+      item,
+      parseFloat(price),
+      compareAtPrice ? parseFloat(compareAtPrice) : null,
+      rules,
+      now,
+    )
+
+    if (!effective.campaign) {
+      return { price, compareAtPrice, campaign: null }
+    }
+
+    return {
+      price: effective.price.toFixed(2),
+      compareAtPrice: effective.compareAtPrice?.toFixed(2) ?? null,
+      campaign: effective.campaign,
+    }
+  }
+}
+
+/**
+ * Apply campaign prices to product listing rows. `basePrice` and
+ * `compareAtPrice` are replaced, so product cards need no changes.
+ */
+export async function withCampaignPrices<
+  T extends {
+    id: string
+    categoryId: string | null
+    basePrice: string
+    compareAtPrice: string | null
+  },
+>(rows: T[]): Promise<(T & { campaign: AppliedCampaign | null })[]> {
+  if (rows.length === 0) {
+    return []
+  }
+
+  const resolve = await getPriceResolver()
+
+  return rows.map((row) => {
+    const { price, compareAtPrice, campaign } = resolve(
+      { productId: row.id, categoryId: row.categoryId },
+      row.basePrice,
+      row.compareAtPrice,
+    )
+    return { ...row, basePrice: price, compareAtPrice, campaign }
+  })
+}
+
+// Evaluated against the database clock
+const campaignRunning = sql`${priceCampaigns.isActive} and ${priceCampaigns.startsAt} <= now() and ${priceCampaigns.endsAt} > now()`
+
+/**
+ * Products targeted by a running campaign, directly, through an active
+ * variant or through their category or one of its parents. Used for the
+ * deals page and the "on sale" facet.
+ */
+export const onCampaignCondition: SQL = sql`(
+  exists (
+    select 1 from ${priceCampaigns}
+    where ${campaignRunning}
+      and (
+        ${products.id} = any(${priceCampaigns.productIds})
+        or exists (
+          select 1 from ${productVariants}
+          where ${productVariants.productId} = ${products.id}
+            and ${productVariants.isActive}
+            and ${productVariants.id} = any(${priceCampaigns.variantIds})
+        )
+      )
+  )
+  or ${products.categoryId} in (
+    with recursive campaign_categories as (
+      select unnest(${priceCampaigns.categoryIds}) as id
+      from ${priceCampaigns}
+      where ${campaignRunning}
+      union
+      select child.id from ${categories} child
+      inner join campaign_categories on child.parent_id = campaign_categories.id
+    )
+    select id from campaign_categories
+  )
+)`
+
+/**
+ * What a product lists for right now, as a numeric SQL expression: the
+ * lowest running campaign price for the product or its category tree, else
+ * its base price. Mirrors `resolveEffectivePrice` for listing rows so price
+ * sorts and filters agree with the prices shown.
+ */
+export const effectivePriceSql: SQL<number> = sql<number>`(
+  select least(
+    ${products.basePrice}::numeric,
+    coalesce(
+      min(
+        round(
+          greatest(
+            0,
+            least(
+              ${products.basePrice}::numeric,
+              case ${priceCampaigns.type}
+                when 'percentage'
+                  then ${products.basePrice}::numeric * (1 - least(${priceCampaigns.value}::numeric, 100) / 100)
+                else ${priceCampaigns.value}::numeric
+              end
+            )
+          ),
+          2
+        )
+      ),
+      ${products.basePrice}::numeric
+    )
+  )
+  from ${priceCampaigns}
+  where ${campaignRunning}
+    and (
+      ${products.id} = any(${priceCampaigns.productIds})
+      or ${products.categoryId} in (
+        with recursive campaign_categories as (
+          select id as campaign_id, unnest(category_ids) as id
+          from ${priceCampaigns}
+          where ${campaignRunning}
+          union
+          select campaign_categories.campaign_id, child.id from ${categories} child
+          inner join campaign_categories on child.parent_id = campaign_categories.id
+        )
+        select campaign_categories.id from campaign_categories
+        where campaign_categories.campaign_id = ${priceCampaigns.id}
+      )
+    )
+)`
@@ -0,0 +1,116 @@
+/**
+ * Catalog export
+ *
+ * Writes the catalog in the product sheet format (see ./product-sheet), so
+ * an export can be edited and imported again.
+ */
+
+import { asc } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import {
+  productAttributes,
+  productImages,
+  productOptions,
+  productOptionValues,
+  products,
+  productVariants,
+} from "@/lib/db/schema"
+import { type CsvCell, toCsv } from "@/lib/utils/csv"
+
+import {
+  attributeColumn,
+  LIST_SEPARATOR,
+  OPTION_COLUMNS,
+  SHEET_COLUMNS,
+  VARIANT_COLUMNS,
+} from "./product-sheet"
+
+/**
+ * All products as CSV, one row per variant. Product columns, images and
+ * attributes are written on the first row of each product only.
+ */
+export async function exportProductsCsv(): Promise<string> {
+  const [attributes, catalog] = await Promise.all([
+    db
+      .select({ id: productAttributes.id, slug: productAttributes.slug })
+      .from(productAttributes)
+      .orderBy(asc(productAttributes.name)),
+    db.query.products.findMany({
+      orderBy: asc(products.name),
+      with: {
+        category: { columns: { slug: true } },
+        images: { orderBy: asc(productImages.sortOrder) },
+        attributeValues: true,
+        options: {
+          orderBy: asc(productOptions.sortOrder),
+          with: { values: { orderBy: asc(productOptionValues.sortOrder) } },
+        },
+        variants: {
+          orderBy: asc(productVariants.sortOrder),
+          with: { inventory: true, optionValues: true },
+        },
+      },
+    }),
+  ])
+
+  const rows: CsvCell[][] = [
+    [...SHEET_COLUMNS, ...attributes.map((a) => attributeColumn(a.slug))],
+  ]
+
+  for (const product of catalog) {
+    const productCells: CsvCell[] = [
+      product.name,
+      product.status,
+      product.isFeatured ? "yes" : "no",
+      product.category?.slug,
+      product.shortDescription,
+      product.description,
+      product.basePrice,
+      product.compareAtPrice,
+      product.costPrice,
+      product.metaTitle,
+      product.metaDescription,
+      product.images.map((image) => image.url).join(LIST_SEPARATOR),
+    ]
+    const attributeCells = attributes.map((attribute) =>
+      product.attributeValues
+        .filter((v) => v.attributeId === attribute.id)
+        .map((v) => v.value)
+        .join(LIST_SEPARATOR),
+    )
+
+    // A product without variants still gets a row for its own columns
+    const variants = product.variants.length > 0 ? product.variants : [null]
+    for (const [index, variant] of variants.entries()) {
+      const optionCells = OPTION_COLUMNS.flatMap((_, i) => {
+        const option = product.options[i]
+        const value = option?.values.find((v) =>
+          variant?.optionValues.some((link) => link.optionValueId === v.id),
+        )
+        return [option?.name, value?.value, value?.swatch]
+      })
+
+      const variantCells: CsvCell[] = variant
+        ? [
+            variant.sku,
+            variant.price,
+            variant.compareAtPrice,
+            variant.inventory?.quantity ?? 0,
+            variant.isActive ? "yes" : "no",
+            product.images.find((image) => image.variantId === variant.id)?.url,
+          ]
+        : VARIANT_COLUMNS.map(() => null)
+
+      rows.push([
+        product.slug,
+        ...(index === 0 ? productCells : productCells.map(() => null)),
+        ...optionCells,
+        ...variantCells,
+        ...(index === 0 ? attributeCells : attributeCells.map(() => null)),
+      ])
+    }
+  }
+
+  return toCsv(rows)
+}
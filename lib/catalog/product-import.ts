@@ -0,0 +1,852 @@
+/**
+ * Catalog import
+ *
+ * Turns a product sheet (see ./product-sheet) into one plan per product,
+ * validated with the product schemas and against the current catalog. The
+ * plans are shown as a dry run first, then applied in a single transaction.
+ */
+
+import { and, asc, eq, inArray } from "drizzle-orm"
+
+import { type Database, db } from "@/lib/db"
+import {
+  categories,
+  productAttributes,
+  productAttributeValues,
+  productImages,
+  productOptions,
+  productOptionValues,
+  products,
+  productVariantOptionValues,
+  productVariants,
+} from "@/lib/db/schema"
+import {
+  type CreateProductInput,
+  createProductSchema,
+  createVariantSchema,
+  variantMatrixSchema,
+} from "@/lib/schemas/product"
+import { parseCsv } from "@/lib/utils/csv"
+import {
+  validateVariantMatrix,
+  type VariantMatrixInput,
+  variantName,
+  type VariantOptionInput,
+} from "@/lib/utils/variants"
+import { readXlsxRows } from "@/lib/utils/xlsx"
+
+import {
+  ATTRIBUTE_COLUMN_PREFIX,
+  OPTION_COLUMNS,
+  parseSheetBoolean,
+  PRODUCT_COLUMNS,
+  type ProductColumn,
+  type ProductImportChange,
+  type ProductImportError,
+  type ProductImportPreview,
+  SHEET_COLUMNS,
+  splitList,
+} from "./product-sheet"
+import { writeVariantMatrix } from "./variant-matrix"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+export const MAX_IMPORT_FILE_SIZE = 4 * 1024 * 1024 // 4MB
+export const MAX_IMPORT_ROWS = 5000
+const MAX_IMPORT_UNZIPPED_SIZE = 32 * 1024 * 1024 // Per file in an .xlsx
+
+export class ProductSheetError extends Error {}
+
+// Variant fields checked per row; names come from the option values
+const variantRowSchema = createVariantSchema.omit({
+  productId: true,
+  name: true,
+})
+
+// Fields an update may leave out
+const updateProductSchema = createProductSchema.partial()
+
+// Columns that cannot be cleared; blank keeps the current value
+const REQUIRED_COLUMNS: ProductColumn[] = [
+  "name",
+  "status",
+  "featured",
+  "base_price",
+]
+
+const PRICE_COLUMNS: ProductColumn[] = [
+  "base_price",
+  "compare_at_price",
+  "cost_price",
+]
+
+// Long text is reported as updated rather than shown in full
+const TEXT_COLUMNS: ProductColumn[] = [
+  "short_description",
+  "description",
+  "meta_title",
+  "meta_description",
+]
+
+interface ExistingProduct {
+  id: string
+  name: string
+  fields: Record<string, unknown>
+  images: { url: string; variantId: string | null }[]
+  attributes: Map<string, string[]> // Attribute ID -> values
+  options: VariantOptionInput[]
+  variants: {
+    id: string
+    sku: string
+    name: string
+    linked: boolean // Has option values; legacy variants do not
+    price: string
+    compareAtPrice: string | null
+    isActive: boolean
+  }[]
+}
+
+export interface ProductImportPlan {
+  handle: string
+  existingId: string | null
+  action: ProductImportChange["action"]
+  fields: Partial<CreateProductInput> // Validated product columns
+  images: string[] | null // null leaves images alone
+  attributes: Map<string, string[]> // Attribute ID -> values
+  matrix: VariantMatrixInput | null // null leaves variants alone
+}
+
+/**
+ * Read the cells of an uploaded .csv or .xlsx file.
+ */
+export async function readProductSheet(file: File): Promise<string[][]> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    throw new ProductSheetError("The file is larger than 4MB")
+  }
+
+  const name = file.name.toLowerCase()
+  if (name.endsWith(".csv")) {
+    return parseCsv(await file.text())
+  }
+  if (name.endsWith(".xlsx")) {
+    try {
+      return readXlsxRows(Buffer.from(await file.arrayBuffer()), {
+        maxEntrySize: MAX_IMPORT_UNZIPPED_SIZE,
+        // Header row plus a margin for blank rows, which are skipped later
+        maxRows: MAX_IMPORT_ROWS * 2,
+      })
+    } catch (error) {
+      throw new ProductSheetError(
+        error instanceof Error ? error.message : "Could not read the workbook",
+      )
+    }
+  }
+
+  throw new ProductSheetError("Upload a .csv or .xlsx file")
+}
+
+function columnLabel(column: string): string {
+  const label = column.replace(/_/g, " ")
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+function isPrice(value: string): boolean {
+  return /^\d+(\.\d+)?$/.test(value)
+}
+
+function samePrice(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || a === "") {
+    return b === null || b === undefined || b === ""
+  }
+  return parseFloat(String(a)) === parseFloat(String(b))
+}
+
+function isUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === "https:" || url.protocol === "http:"
+  } catch {
+    return false
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`
+}
+
+// URL of the image linked to an existing variant
+function currentVariantImage(
+  existing: ExistingProduct | null,
+  sku: string,
+): string | null {
+  const variant = existing?.variants.find((v) => v.sku === sku)
+  if (!existing || !variant) return null
+  return existing.images.find((i) => i.variantId === variant.id)?.url ?? null
+}
+
+// Current state of the products the sheet refers to
+async function loadExistingProducts(
+  handles: string[],
+): Promise<Map<string, ExistingProduct>> {
+  if (handles.length === 0) return new Map()
+
+  const rows = await db
+    .select()
+    .from(products)
+    .where(inArray(products.slug, handles))
+  const ids = rows.map((p) => p.id)
+  if (ids.length === 0) return new Map()
+
+  const [images, attributeValues, options, variants, links] = await Promise.all(
+    [
+      db
+        .select()
+        .from(productImages)
+        .where(inArray(productImages.productId, ids))
+        .orderBy(asc(productImages.sortOrder)),
+      db
+        .select()
+        .from(productAttributeValues)
+        .where(inArray(productAttributeValues.productId, ids)),
+      db.query.productOptions.findMany({
+        where: inArray(productOptions.productId, ids),
+        orderBy: asc(productOptions.sortOrder),
+        with: { values: { orderBy: asc(productOptionValues.sortOrder) } },
+      }),
+      db
+        .select()
+        .from(productVariants)
+        .where(inArray(productVariants.productId, ids))
+        .orderBy(asc(productVariants.sortOrder)),
+      db
+        .select({
+          variantId: productVariantOptionValues.variantId,
+          optionValueId: productVariantOptionValues.optionValueId,
+        })
+        .from(productVariantOptionValues)
+        .innerJoin(
+          productVariants,
+          eq(productVariantOptionValues.variantId, productVariants.id),
+        )
+        .where(inArray(productVariants.productId, ids)),
+    ],
+  )
+
+  return new Map(
+    rows.map((product) => {
+      const attributes = new Map<string, string[]>()
+      for (const row of attributeValues) {
+        if (row.productId !== product.id) continue
+        attributes.set(row.attributeId, [
+          ...(attributes.get(row.attributeId) ?? []),
+          row.value,
+        ])
+      }
+
+      return [
+        product.slug,
+        {
+          id: product.id,
+          name: product.name,
+          fields: product,
+          images: images
+            .filter((image) => image.productId === product.id)
+            .map((image) => ({ url: image.url, variantId: image.variantId })),
+          attributes,
+          options: options
+            .filter((option) => option.productId === product.id)
+            .map((option) => ({
+              name: option.name,
+              values: option.values.map((v) => ({
+                value: v.value,
+                swatch: v.swatch,
+              })),
+            })),
+          variants: variants
+            .filter((variant) => variant.productId === product.id)
+            .map((variant) => ({
+              id: variant.id,
+              sku: variant.sku,
+              name: variant.name,
+              linked: links.some((link) => link.variantId === variant.id),
+              price: variant.price,
+              compareAtPrice: variant.compareAtPrice,
+              isActive: variant.isActive,
+            })),
+        },
+      ]
+    }),
+  )
+}
+
+/**
+ * Validate a sheet and work out what importing it would change. Nothing is
+ * written; `applyProductImport` carries out the returned plans.
+ */
+export async function planProductImport(sheet: string[][]): Promise<{
+  plans: ProductImportPlan[]
+  preview: ProductImportPreview
+}> {
+  const errors: ProductImportError[] = []
+  const fail = (row: number, message: string, column?: string) =>
+    errors.push({ row, column, message })
+
+  const header = (sheet[0] ?? []).map((cell) => cell.trim().toLowerCase())
+  const columns = new Map<string, number>()
+  for (const [index, column] of header.entries()) {
+    if (!column) continue
+    if (columns.has(column)) {
+      fail(1, `Duplicate column "${column}"`, column)
+    } else if (
+      !SHEET_COLUMNS.includes(column) &&
+      !column.startsWith(ATTRIBUTE_COLUMN_PREFIX)
+    ) {
+      fail(1, `Unknown column "${column}"`, column)
+    }
+    columns.set(column, index)
+  }
+
+  const emptyPreview = (rowCount: number) => ({
+    plans: [],
+    preview: { products: [], errors, rowCount },
+  })
+
+  if (!columns.has("handle")) {
+    fail(1, 'The sheet needs a "handle" column with the product slug')
+    return emptyPreview(0)
+  }
+
+  // Data rows with their sheet row numbers, skipping blank ones
+  const dataRows = sheet
+    .map((cells, index) => ({ cells, row: index + 1 }))
+    .slice(1)
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ""))
+
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    fail(1, `Import at most ${MAX_IMPORT_ROWS} rows at a time`)
+    return emptyPreview(dataRows.length)
+  }
+
+  const has = (column: string) => columns.has(column)
+  const cell = (cells: string[], column: string) => {
+    const index = columns.get(column)
+    return index === undefined ? "" : (cells[index] ?? "").trim()
+  }
+
+  // Rows grouped by product
+  const groups = new Map<string, typeof dataRows>()
+  for (const dataRow of dataRows) {
+    const handle = cell(dataRow.cells, "handle").toLowerCase()
+    if (!handle) {
+      fail(dataRow.row, "Handle is required", "handle")
+      continue
+    }
+    groups.set(handle, [...(groups.get(handle) ?? []), dataRow])
+  }
+
+  const fileSkus = dataRows
+    .map(({ cells }) => cell(cells, "variant_sku"))
+    .filter(Boolean)
+
+  const [categoryRows, attributeRows, existingProducts, skuOwners] =
+    await Promise.all([
+      db
+        .select({
+          id: categories.id,
+          slug: categories.slug,
+          name: categories.name,
+        })
+        .from(categories),
+      db
+        .select({
+          id: productAttributes.id,
+          slug: productAttributes.slug,
+          name: productAttributes.name,
+        })
+        .from(productAttributes),
+      loadExistingProducts([...groups.keys()]),
+      fileSkus.length > 0
+        ? db
+            .select({
+              sku: productVariants.sku,
+              productId: productVariants.productId,
+            })
+            .from(productVariants)
+            .where(inArray(productVariants.sku, fileSkus))
+        : Promise.resolve([]),
+    ])
+
+  const findCategory = (value: string) =>
+    categoryRows.find(
+      (c) =>
+        c.slug === value.toLowerCase() ||
+        c.name.toLowerCase() === value.toLowerCase(),
+    )
+
+  const attributeColumns = [...columns.keys()].flatMap((column) => {
+    if (!column.startsWith(ATTRIBUTE_COLUMN_PREFIX)) return []
+    const slug = column.slice(ATTRIBUTE_COLUMN_PREFIX.length)
+    const attribute = attributeRows.find((a) => a.slug === slug)
+    if (!attribute) {
+      fail(1, `Unknown attribute "${slug}"`, column)
+      return []
+    }
+    return [{ column, attribute }]
+  })
+
+  const productColumns = (
+    Object.keys(PRODUCT_COLUMNS) as ProductColumn[]
+  ).filter(has)
+  const skuHandles = new Map<string, string>()
+  const plans: ProductImportPlan[] = []
+  const changes: ProductImportChange[] = []
+
+  for (const [handle, rows] of groups) {
+    const errorCount = errors.length
+    const first = rows[0]
+    const existing = existingProducts.get(handle) ?? null
+    const groupChanges: string[] = []
+
+    // Product columns
+    const input: Record<string, unknown> = {}
+    for (const column of productColumns) {
+      const field = PRODUCT_COLUMNS[column]
+      const value = cell(first.cells, column)
+
+      if (!value && REQUIRED_COLUMNS.includes(column)) continue
+
+      if (column === "featured") {
+        const featured = parseSheetBoolean(value)
+        if (featured === null) {
+          fail(first.row, "Featured must be yes or no", column)
+        }
+        input[field] = featured
+      } else if (column === "status") {
+        input[field] = value.toLowerCase()
+      } else if (column === "category") {
+        if (!value) {
+          input[field] = null
+        } else {
+          const category = findCategory(value)
+          if (!category) fail(first.row, `Unknown category "${value}"`, column)
+          input[field] = category?.id ?? null
+        }
+      } else if (PRICE_COLUMNS.includes(column)) {
+        if (value && !isPrice(value)) {
+          fail(first.row, `${columnLabel(column)} must be a price`, column)
+        }
+        input[field] = value || null
+      } else {
+        input[field] = value
+      }
+    }
+
+    const parsed = existing
+      ? updateProductSchema.safeParse(input)
+      : createProductSchema.safeParse({ ...input, slug: handle })
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const column = productColumns.find(
+          (c) => PRODUCT_COLUMNS[c] === issue.path[0],
+        )
+        fail(
+          first.row,
+          `${column ? columnLabel(column) : String(issue.path[0])}: ${issue.message}`,
+          column,
+        )
+      }
+    }
+    const fields: Partial<CreateProductInput> = parsed.success
+      ? parsed.data
+      : {}
+
+    if (existing) {
+      for (const column of productColumns) {
+        const field = PRODUCT_COLUMNS[column]
+        if (!(field in fields)) continue
+        const next = fields[field]
+        const current = existing.fields[field]
+
+        const same = PRICE_COLUMNS.includes(column)
+          ? samePrice(current, next)
+          : (current ?? "") === (next ?? "")
+        if (same) continue
+
+        if (column === "category") {
+          const name = (id: unknown) =>
+            categoryRows.find((c) => c.id === id)?.name ?? "none"
+          groupChanges.push(`Category: ${name(current)} → ${name(next)}`)
+        } else if (TEXT_COLUMNS.includes(column)) {
+          groupChanges.push(`${columnLabel(column)} updated`)
+        } else {
+          groupChanges.push(
+            `${columnLabel(column)}: ${current ?? "none"} → ${next ?? "none"}`,
+          )
+        }
+      }
+    }
+
+    // Images
+    let images: string[] | null = null
+    if (has("images")) {
+      images = splitList(cell(first.cells, "images"))
+      for (const url of images) {
+        if (!isUrl(url)) fail(first.row, `Invalid image URL "${url}"`, "images")
+      }
+
+      const currentUrls = existing?.images.map((image) => image.url) ?? []
+      const added = images.filter((url) => !currentUrls.includes(url)).length
+      const removed = currentUrls.filter((url) => !images!.includes(url)).length
+      if (added > 0 || removed > 0) {
+        groupChanges.push(
+          [
+            added > 0 && `${plural(added, "image")} added`,
+            removed > 0 && `${plural(removed, "image")} removed`,
+          ]
+            .filter(Boolean)
+            .join(", "),
+        )
+      } else if (images.join() !== currentUrls.join()) {
+        groupChanges.push("Images reordered")
+      }
+    }
+    const imageUrls = images ?? existing?.images.map((image) => image.url) ?? []
+
+    // Attributes
+    const attributes = new Map<string, string[]>()
+    for (const { column, attribute } of attributeColumns) {
+      const values = splitList(cell(first.cells, column))
+      attributes.set(attribute.id, values)
+
+      const current = existing?.attributes.get(attribute.id) ?? []
+      if ([...values].sort().join() !== [...current].sort().join()) {
+        groupChanges.push(
+          `${attribute.name}: ${current.join(", ") || "none"} → ${values.join(", ") || "none"}`,
+        )
+      }
+    }
+
+    // Options and variants, when any row of the product has a SKU
+    let matrix: VariantMatrixInput | null = null
+    if (rows.some(({ cells }) => cell(cells, "variant_sku"))) {
+      const options: VariantOptionInput[] = []
+      const optionColumns = OPTION_COLUMNS.filter((c) =>
+        cell(first.cells, c.name),
+      )
+      for (const columnsOfOption of optionColumns) {
+        options.push({
+          name: cell(first.cells, columnsOfOption.name),
+          values: [],
+        })
+      }
+
+      const basePrice = String(
+        fields.basePrice ?? existing?.fields.basePrice ?? "0",
+      )
+      const variants: VariantMatrixInput["variants"] = []
+
+      for (const { cells, row } of rows) {
+        const values: string[] = []
+        for (const [index, c] of OPTION_COLUMNS.entries()) {
+          const name = cell(cells, c.name)
+          const value = cell(cells, c.value)
+          const option = options[index]
+
+          if (!option) {
+            if (value) fail(row, `${c.value} has no option name`, c.value)
+            continue
+          }
+          if (name && name.toLowerCase() !== option.name.toLowerCase()) {
+            fail(row, `Expected option "${option.name}"`, c.name)
+          }
+          if (!value) {
+            fail(row, `${option.name} is required`, c.value)
+            continue
+          }
+
+          const swatch = cell(cells, c.swatch)
+          if (swatch && !/^#[0-9a-fA-F]{6}$/.test(swatch)) {
+            fail(row, "Swatches are hex colors like #1f1f1f", c.swatch)
+          }
+          const known = option.values.find((v) => v.value === value)
+          if (!known) {
+            option.values.push({ value, swatch: swatch || null })
+          } else if (swatch && !known.swatch) {
+            known.swatch = swatch
+          }
+          values.push(value)
+        }
+
+        const stock = cell(cells, "variant_stock")
+        if (stock && !/^\d+$/.test(stock)) {
+          fail(row, "Stock must be a whole number", "variant_stock")
+        }
+        const compareAtPrice = cell(cells, "variant_compare_at_price")
+        if (compareAtPrice && !isPrice(compareAtPrice)) {
+          fail(
+            row,
+            "Compare at price must be a price",
+            "variant_compare_at_price",
+          )
+        }
+        const isActive = parseSheetBoolean(cell(cells, "variant_active"))
+        if (isActive === null) {
+          fail(row, "Active must be yes or no", "variant_active")
+        }
+        const imageUrl = cell(cells, "variant_image") || null
+        if (imageUrl && !imageUrls.includes(imageUrl)) {
+          fail(
+            row,
+            "Variant image must be one of the product images",
+            "variant_image",
+          )
+        }
+
+        const variant = variantRowSchema.safeParse({
+          sku: cell(cells, "variant_sku") || undefined,
+          price: cell(cells, "variant_price") || basePrice,
+          compareAtPrice: compareAtPrice || null,
+          initialStock: parseInt(stock || "0"),
+          isActive: isActive ?? true,
+        })
+        if (!variant.success) {
+          const issue = variant.error.issues[0]
+          fail(
+            row,
+            `${columnLabel(`variant_${String(issue.path[0])}`)}: ${issue.message}`,
+          )
+          continue
+        }
+        if (!variant.data.sku) {
+          fail(row, "Every variant needs a SKU", "variant_sku")
+          continue
+        }
+
+        const sku = variant.data.sku
+        const owner = skuOwners.find((o) => o.sku === sku)?.productId
+        if (owner && owner !== existing?.id) {
+          fail(row, `SKU "${sku}" belongs to another product`, "variant_sku")
+        }
+        const otherHandle = skuHandles.get(sku)
+        if (otherHandle && otherHandle !== handle) {
+          fail(
+            row,
+            `SKU "${sku}" is also used by "${otherHandle}"`,
+            "variant_sku",
+          )
+        }
+        skuHandles.set(sku, handle)
+
+        variants.push({
+          values,
+          sku,
+          price: variant.data.price,
+          compareAtPrice: variant.data.compareAtPrice,
+          initialStock: variant.data.initialStock,
+          isActive: variant.data.isActive,
+          imageUrl: has("variant_image")
+            ? imageUrl
+            : currentVariantImage(existing, sku),
+        })
+      }
+
+      matrix = { options, variants }
+      const matrixParsed = variantMatrixSchema.safeParse(matrix)
+      const invalid = matrixParsed.success
+        ? validateVariantMatrix(matrix)
+        : matrixParsed.error.issues[0]?.message
+      if (invalid && errors.length === errorCount) fail(first.row, invalid)
+
+      if (existing) {
+        const currentOptions = JSON.stringify(existing.options)
+        const nextOptions = JSON.stringify(
+          options.map((o) => ({
+            name: o.name,
+            values: o.values.map((v) => ({
+              value: v.value,
+              swatch: v.swatch ?? null,
+            })),
+          })),
+        )
+        if (currentOptions !== nextOptions) {
+          groupChanges.push(
+            `Options: ${options.map((o) => o.name).join(", ") || "none"}`,
+          )
+        }
+
+        let added = 0
+        let updated = 0
+        for (const variant of variants) {
+          const current = existing.variants.find((v) => v.sku === variant.sku)
+          if (!current) {
+            added++
+            continue
+          }
+          const currentImage = currentVariantImage(existing, variant.sku)
+          if (
+            !current.linked ||
+            current.name !== variantName(variant.values) ||
+            !samePrice(current.price, variant.price) ||
+            !samePrice(current.compareAtPrice, variant.compareAtPrice) ||
+            current.isActive !== variant.isActive ||
+            (currentImage ?? null) !== (variant.imageUrl ?? null)
+          ) {
+            updated++
+          }
+        }
+        const deactivated = existing.variants.filter(
+          (v) => v.isActive && !variants.some((row) => row.sku === v.sku),
+        ).length
+
+        if (added > 0) groupChanges.push(`${plural(added, "variant")} added`)
+        if (updated > 0) {
+          groupChanges.push(`${plural(updated, "variant")} updated`)
+        }
+        if (deactivated > 0) {
+          groupChanges.push(`${plural(deactivated, "variant")} deactivated`)
+        }
+      }
+    } else if (!existing && has("variant_sku")) {
+      fail(
+        first.row,
+        "New products need at least one variant SKU",
+        "variant_sku",
+      )
+    } else if (!existing) {
+      fail(
+        first.row,
+        'New products need variant rows; add "variant_sku" and "variant_price" columns',
+      )
+    }
+
+    const action = !existing
+      ? "create"
+      : groupChanges.length > 0
+        ? "update"
+        : "unchanged"
+
+    if (!existing) {
+      groupChanges.push(
+        plural(matrix?.variants.length ?? 0, "variant"),
+        plural(images?.length ?? 0, "image"),
+      )
+    }
+
+    changes.push({
+      handle,
+      name: fields.name ?? existing?.name ?? handle,
+      action,
+      rows: rows.map(({ row }) => row),
+      changes: groupChanges,
+    })
+
+    if (errors.length === errorCount) {
+      plans.push({
+        handle,
+        existingId: existing?.id ?? null,
+        action,
+        fields,
+        images,
+        attributes,
+        matrix,
+      })
+    }
+  }
+
+  return {
+    plans,
+    preview: {
+      products: changes,
+      errors: errors.sort((a, b) => a.row - b.row),
+      rowCount: dataRows.length,
+    },
+  }
+}
+
+// Replace a product's images with the given URLs, keeping existing rows
+async function syncImages(tx: Transaction, productId: string, urls: string[]) {
+  const current = await tx
+    .select({ id: productImages.id, url: productImages.url })
+    .from(productImages)
+    .where(eq(productImages.productId, productId))
+
+  const removedIds = current
+    .filter((image) => !urls.includes(image.url))
+    .map((image) => image.id)
+  if (removedIds.length > 0) {
+    await tx.delete(productImages).where(inArray(productImages.id, removedIds))
+  }
+
+  for (const [index, url] of urls.entries()) {
+    const image = current.find((i) => i.url === url)
+    if (image) {
+      await tx
+        .update(productImages)
+        .set({ sortOrder: index, isPrimary: index === 0 })
+        .where(eq(productImages.id, image.id))
+    } else {
+      await tx.insert(productImages).values({
+        productId,
+        url,
+        sortOrder: index,
+        isPrimary: index === 0,
+      })
+    }
+  }
+}
+
+/**
+ * Write import plans. Returns the IDs of the products created or updated;
+ * the caller refreshes their search index in the same transaction.
+ */
+export async function applyProductImport(
+  tx: Transaction,
+  plans: ProductImportPlan[],
+  performedBy: string,
+): Promise<string[]> {
+  const productIds: string[] = []
+
+  for (const plan of plans) {
+    if (plan.action === "unchanged") continue
+
+    let productId = plan.existingId
+    if (!productId) {
+      const [created] = await tx
+        .insert(products)
+        .values({ ...(plan.fields as CreateProductInput), slug: plan.handle })
+        .returning({ id: products.id })
+      productId = created.id
+    } else if (Object.keys(plan.fields).length > 0) {
+      await tx
+        .update(products)
+        .set({ ...plan.fields, updatedAt: new Date() })
+        .where(eq(products.id, productId))
+    }
+
+    if (plan.images) await syncImages(tx, productId, plan.images)
+
+    for (const [attributeId, values] of plan.attributes) {
+      await tx
+        .delete(productAttributeValues)
+        .where(
+          and(
+            eq(productAttributeValues.productId, productId),
+            eq(productAttributeValues.attributeId, attributeId),
+          ),
+        )
+      if (values.length > 0) {
+        await tx
+          .insert(productAttributeValues)
+          .values(values.map((value) => ({ productId, attributeId, value })))
+      }
+    }
+
+    if (plan.matrix) {
+      await writeVariantMatrix(tx, productId, plan.matrix, performedBy)
+    }
+
+    productIds.push(productId)
+  }
+
+  return productIds
+}
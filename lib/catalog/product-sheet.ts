@@ -0,0 +1,118 @@
+/**
+ * Product sheet format
+ *
+ * The catalog is imported and exported as one row per variant. Rows of the
+ * same product share its `handle` (the product slug); product columns are
+ * read from the first row of a product and may be left blank on the others.
+ *
+ *   handle, name, status, featured, category (slug or name), descriptions,
+ *   prices, meta_title, meta_description
+ *   images              image URLs separated by "|", the first is primary
+ *   optionN_name/value  up to three options, with an optional hex swatch
+ *   variant_*           SKU, price, compare-at price, stock, active, image
+ *   attr:<slug>         attribute values separated by "|"
+ *
+ * Only columns present in the header are applied, so a sheet with just
+ * `handle`, `variant_sku` and `variant_price` reprices variants and leaves
+ * everything else alone. `variant_stock` only sets the stock of variants
+ * the import creates; existing stock is adjusted in Inventory.
+ *
+ * Kept free of database imports so client components can use the types.
+ */
+
+import { MAX_VARIANT_OPTIONS } from "@/lib/utils/variants"
+
+export const LIST_SEPARATOR = "|"
+export const ATTRIBUTE_COLUMN_PREFIX = "attr:"
+
+// Product columns and the product field each one sets
+export const PRODUCT_COLUMNS = {
+  name: "name",
+  status: "status",
+  featured: "isFeatured",
+  category: "categoryId",
+  short_description: "shortDescription",
+  description: "description",
+  base_price: "basePrice",
+  compare_at_price: "compareAtPrice",
+  cost_price: "costPrice",
+  meta_title: "metaTitle",
+  meta_description: "metaDescription",
+} as const
+
+export type ProductColumn = keyof typeof PRODUCT_COLUMNS
+
+export const OPTION_COLUMNS = Array.from(
+  { length: MAX_VARIANT_OPTIONS },
+  (_, i) => ({
+    name: `option${i + 1}_name`,
+    value: `option${i + 1}_value`,
+    swatch: `option${i + 1}_swatch`,
+  }),
+)
+
+export const VARIANT_COLUMNS = [
+  "variant_sku",
+  "variant_price",
+  "variant_compare_at_price",
+  "variant_stock",
+  "variant_active",
+  "variant_image",
+] as const
+
+// Header of an export, before the attribute columns
+export const SHEET_COLUMNS = [
+  "handle",
+  ...(Object.keys(PRODUCT_COLUMNS) as ProductColumn[]),
+  "images",
+  ...OPTION_COLUMNS.flatMap((c) => [c.name, c.value, c.swatch]),
+  ...VARIANT_COLUMNS,
+]
+
+export function attributeColumn(slug: string): string {
+  return `${ATTRIBUTE_COLUMN_PREFIX}${slug}`
+}
+
+export function splitList(cell: string): string[] {
+  return [
+    ...new Set(
+      cell
+        .split(LIST_SEPARATOR)
+        .map((item) => item.trim())
+        .filter(Boolean),
+    ),
+  ]
+}
+
+// "yes", "TRUE", "1" -> true; blank -> undefined; anything else -> null
+export function parseSheetBoolean(cell: string): boolean | undefined | null {
+  const value = cell.trim().toLowerCase()
+  if (value === "") return undefined
+  if (["true", "yes", "y", "1"].includes(value)) return true
+  if (["false", "no", "n", "0"].includes(value)) return false
+  return null // Not a boolean
+}
+
+// ============================================
+// Import Preview
+// ============================================
+
+export interface ProductImportError {
+  row: number // Sheet row, the header being row 1
+  column?: string
+  message: string
+}
+
+export interface ProductImportChange {
+  handle: string
+  name: string
+  action: "create" | "update" | "unchanged"
+  rows: number[]
+  changes: string[] // What the import would change, for the dry run
+}
+
+export interface ProductImportPreview {
+  products: ProductImportChange[]
+  errors: ProductImportError[]
+  rowCount: number
+}
@@ -0,0 +1,266 @@
+/**
+ * Product recommendations
+ *
+ * Picks products to show next to a product, in the cart and in order
+ * emails. Hand-picked links come first, then products often bought in the
+ * same order (see lib/jobs/co-purchases.ts), then products from the same
+ * category so new catalogs still get suggestions.
+ */
+
+import { and, asc, desc, eq, inArray, notInArray, sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import {
+  productCoPurchases,
+  productImages,
+  productLinks,
+  products,
+  productVariants,
+} from "@/lib/db/schema"
+import type { AppliedCampaign } from "@/lib/utils/price-campaigns"
+
+import { withCampaignPrices } from "./price-campaigns"
+
+// Candidates loaded per source; more than any page shows
+const CANDIDATE_LIMIT = 20
+
+export interface RecommendedProduct {
+  id: string
+  name: string
+  slug: string
+  shortDescription: string | null
+  categoryId: string | null
+  basePrice: string
+  compareAtPrice: string | null
+  isFeatured: boolean
+  image: string | null
+  campaign: AppliedCampaign | null
+  // Set when the product has a single active variant, so it can be added
+  // to the cart without choosing options
+  variantId: string | null
+}
+
+/**
+ * Hand-picked links of one type from any of `productIds`, in the order
+ * staff arranged them.
+ */
+async function getLinkedProductIds(
+  productIds: string[],
+  type: "related" | "cross_sell",
+): Promise<string[]> {
+  const rows = await db
+    .select({ id: productLinks.linkedProductId })
+    .from(productLinks)
+    .where(
+      and(
+        inArray(productLinks.productId, productIds),
+        eq(productLinks.type, type),
+      ),
+    )
+    .orderBy(asc(productLinks.sortOrder))
+    .limit(CANDIDATE_LIMIT)
+
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Products bought together with any of `productIds`, most often first.
+ */
+async function getCoPurchasedProductIds(
+  productIds: string[],
+): Promise<string[]> {
+  const orderCount = sql<number>`sum(${productCoPurchases.orderCount})`
+
+  const rows = await db
+    .select({ id: productCoPurchases.relatedProductId })
+    .from(productCoPurchases)
+    .where(inArray(productCoPurchases.productId, productIds))
+    .groupBy(productCoPurchases.relatedProductId)
+    .orderBy(desc(orderCount))
+    .limit(CANDIDATE_LIMIT)
+
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Active products in `categoryIds`, featured and newest first.
+ */
+async function getCategoryProductIds(
+  categoryIds: string[],
+  excludeIds: string[],
+): Promise<string[]> {
+  if (categoryIds.length === 0) {
+    return []
+  }
+
+  const rows = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(
+      and(
+        eq(products.status, "active"),
+        inArray(products.categoryId, categoryIds),
+        excludeIds.length > 0 ? notInArray(products.id, excludeIds) : undefined,
+      ),
+    )
+    .orderBy(desc(products.isFeatured), desc(products.createdAt))
+    .limit(CANDIDATE_LIMIT)
+
+  return rows.map((row) => row.id)
+}
+
+/**
+ * Load product cards for `ids`, keeping their order. Products that aren't
+ * active are dropped, and at most `limit` are returned.
+ */
+async function loadRecommendedProducts(
+  ids: string[],
+  limit: number,
+): Promise<RecommendedProduct[]> {
+  if (ids.length === 0) {
+    return []
+  }
+
+  const [rows, images, variants] = await Promise.all([
+    db
+      .select({
+        id: products.id,
+        name: products.name,
+        slug: products.slug,
+        shortDescription: products.shortDescription,
+        categoryId: products.categoryId,
+        basePrice: products.basePrice,
+        compareAtPrice: products.compareAtPrice,
+        isFeatured: products.isFeatured,
+      })
+      .from(products)
+      .where(and(inArray(products.id, ids), eq(products.status, "active"))),
+    db
+      .select({ productId: productImages.productId, url: productImages.url })
+      .from(productImages)
+      .where(
+        and(
+          inArray(productImages.productId, ids),
+          eq(productImages.isPrimary, true),
+        ),
+      ),
+    db
+      .select({ id: productVariants.id, productId: productVariants.productId })
+      .from(productVariants)
+      .where(
+        and(
+          inArray(productVariants.productId, ids),
+          eq(productVariants.isActive, true),
+        ),
+      ),
+  ])
+
+  const byId = new Map(
+    (await withCampaignPrices(rows)).map((row) => {
+      const productVariantIds = variants
+        .filter((v) => v.productId === row.id)
+        .map((v) => v.id)
+      return [
+        row.id,
+        {
+          ...row,
+          image:
+            images.find((image) => image.productId === row.id)?.url ?? null,
+          variantId:
+            productVariantIds.length === 1 ? productVariantIds[0] : null,
+        },
+      ]
+    }),
+  )
+
+  return ids
+    .map((id) => byId.get(id))
+    .filter((product): product is RecommendedProduct => !!product)
+    .slice(0, limit)
+}
+
+function uniqueIds(sources: string[][], exclude: Set<string>): string[] {
+  const ids = new Set<string>()
+  for (const id of sources.flat()) {
+    if (!exclude.has(id)) ids.add(id)
+  }
+  return [...ids]
+}
+
+/**
+ * Recommendations for a product page: add-ons frequently bought together
+ * with it, and related products to consider instead.
+ */
+export async function getProductRecommendations(
+  productId: string,
+  limit = 4,
+): Promise<{
+  boughtTogether: RecommendedProduct[]
+  related: RecommendedProduct[]
+}> {
+  const [product] = await db
+    .select({ categoryId: products.categoryId })
+    .from(products)
+    .where(eq(products.id, productId))
+    .limit(1)
+
+  if (!product) {
+    return { boughtTogether: [], related: [] }
+  }
+
+  const [crossSells, coPurchased, relatedLinks] = await Promise.all([
+    getLinkedProductIds([productId], "cross_sell"),
+    getCoPurchasedProductIds([productId]),
+    getLinkedProductIds([productId], "related"),
+  ])
+
+  const boughtTogether = await loadRecommendedProducts(
+    uniqueIds([crossSells, coPurchased], new Set([productId])),
+    limit,
+  )
+
+  // Products already offered as add-ons aren't repeated as alternatives
+  const shown = [productId, ...boughtTogether.map((p) => p.id)]
+  const sameCategory = await getCategoryProductIds(
+    product.categoryId ? [product.categoryId] : [],
+    shown,
+  )
+  const related = await loadRecommendedProducts(
+    uniqueIds([relatedLinks, sameCategory], new Set(shown)),
+    limit,
+  )
+
+  return { boughtTogether, related }
+}
+
+/**
+ * Add-ons for a set of products, e.g. a cart or an order. The products
+ * themselves are never recommended.
+ */
+export async function getCrossSellRecommendations(
+  productIds: string[],
+  limit = 4,
+): Promise<RecommendedProduct[]> {
+  if (productIds.length === 0) {
+    return []
+  }
+
+  const [crossSells, coPurchased, categoryRows] = await Promise.all([
+    getLinkedProductIds(productIds, "cross_sell"),
+    getCoPurchasedProductIds(productIds),
+    db
+      .selectDistinct({ categoryId: products.categoryId })
+      .from(products)
+      .where(inArray(products.id, productIds)),
+  ])
+
+  const categoryIds = categoryRows
+    .map((row) => row.categoryId)
+    .filter((id): id is string => !!id)
+  const sameCategory = await getCategoryProductIds(categoryIds, productIds)
+
+  return loadRecommendedProducts(
+    uniqueIds([crossSells, coPurchased, sameCategory], new Set(productIds)),
+    limit,
+  )
+}
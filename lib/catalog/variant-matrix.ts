@@ -0,0 +1,185 @@
+/**
+ * Variant matrix writes
+ *
+ * Brings a product's option types, values and variants in line with a
+ * validated matrix. Shared by the product editor and the catalog import.
+ */
+
+import { and, eq, inArray } from "drizzle-orm"
+
+import { refreshBundlePrices } from "@/lib/catalog/bundles"
+import { type Database } from "@/lib/db"
+import {
+  inventoryItems,
+  inventoryMovements,
+  productImages,
+  productOptions,
+  productOptionValues,
+  productVariantOptionValues,
+  productVariants,
+} from "@/lib/db/schema"
+import { type VariantMatrixInput, variantName } from "@/lib/utils/variants"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+/**
+ * Replace a product's options and values, and update its variants to match.
+ * Rows matching an existing variant (by ID, else by SKU) update it; the
+ * others create a variant with its inventory item and initial stock.
+ * Variants left out of the matrix are deactivated rather than deleted,
+ * since orders reference them. Image links are rebuilt from `imageUrl`.
+ * Bundles priced off these variants are repriced to match.
+ *
+ * The caller validates the matrix and refreshes the search index.
+ */
+export async function writeVariantMatrix(
+  tx: Transaction,
+  productId: string,
+  data: VariantMatrixInput,
+  performedBy: string,
+): Promise<void> {
+  const currentVariants = await tx
+    .select({ id: productVariants.id, sku: productVariants.sku })
+    .from(productVariants)
+    .where(eq(productVariants.productId, productId))
+
+  // Match rows to existing variants by ID, then by SKU so a removed and
+  // re-added combination gets its old variant (and stock) back
+  const claimed = new Set<string>()
+  const rowVariantIds = data.variants.map((row) => {
+    const match = currentVariants.find((v) => v.id === row.id)
+    if (match) claimed.add(match.id)
+    return match?.id
+  })
+  for (const [index, row] of data.variants.entries()) {
+    if (rowVariantIds[index]) continue
+    const match = currentVariants.find(
+      (v) => v.sku === row.sku && !claimed.has(v.id),
+    )
+    if (match) {
+      claimed.add(match.id)
+      rowVariantIds[index] = match.id
+    }
+  }
+
+  // Recreate options; their links to variants go with them
+  await tx.delete(productOptions).where(eq(productOptions.productId, productId))
+
+  const valueIds: Map<string, string>[] = []
+  for (const [optionIndex, option] of data.options.entries()) {
+    const [createdOption] = await tx
+      .insert(productOptions)
+      .values({ productId, name: option.name, sortOrder: optionIndex })
+      .returning()
+
+    const createdValues = await tx
+      .insert(productOptionValues)
+      .values(
+        option.values.map((v, valueIndex) => ({
+          optionId: createdOption.id,
+          value: v.value,
+          swatch: v.swatch || null,
+          sortOrder: valueIndex,
+        })),
+      )
+      .returning()
+
+    valueIds.push(new Map(createdValues.map((v) => [v.value, v.id])))
+  }
+
+  const droppedIds = currentVariants
+    .filter((v) => !claimed.has(v.id))
+    .map((v) => v.id)
+  if (droppedIds.length > 0) {
+    await tx
+      .update(productVariants)
+      .set({ isActive: false, isDefault: false, updatedAt: new Date() })
+      .where(inArray(productVariants.id, droppedIds))
+  }
+
+  // The first active row is the default variant
+  const defaultIndex = Math.max(
+    data.variants.findIndex((v) => v.isActive),
+    0,
+  )
+
+  const imageVariants = new Map<string, string>()
+  for (const [index, row] of data.variants.entries()) {
+    const values = {
+      sku: row.sku,
+      name: variantName(row.values),
+      price: row.price,
+      compareAtPrice: row.compareAtPrice || null,
+      isActive: row.isActive,
+      isDefault: index === defaultIndex,
+      sortOrder: index,
+    }
+
+    let variantId = rowVariantIds[index]
+    if (variantId) {
+      await tx
+        .update(productVariants)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(productVariants.id, variantId))
+    } else {
+      const [created] = await tx
+        .insert(productVariants)
+        .values({ productId, ...values })
+        .returning()
+      variantId = created.id
+
+      const [inventory] = await tx
+        .insert(inventoryItems)
+        .values({ variantId, quantity: row.initialStock })
+        .returning()
+
+      if (row.initialStock > 0) {
+        await tx.insert(inventoryMovements).values({
+          inventoryItemId: inventory.id,
+          type: "purchase",
+          quantity: row.initialStock,
+          previousQuantity: 0,
+          newQuantity: row.initialStock,
+          notes: "Initial stock",
+          performedBy,
+        })
+      }
+    }
+
+    if (row.values.length > 0) {
+      await tx.insert(productVariantOptionValues).values(
+        row.values.map((value, optionIndex) => ({
+          variantId,
+          optionValueId: valueIds[optionIndex].get(value)!,
+        })),
+      )
+    }
+
+    if (row.imageUrl) imageVariants.set(row.imageUrl, variantId)
+  }
+
+  // Re-link images to the variants that show them
+  await tx
+    .update(productImages)
+    .set({ variantId: null })
+    .where(eq(productImages.productId, productId))
+  for (const [url, variantId] of imageVariants) {
+    await tx
+      .update(productImages)
+      .set({ variantId })
+      .where(
+        and(eq(productImages.productId, productId), eq(productImages.url, url)),
+      )
+  }
+
+  const variantIds = (
+    await tx
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId))
+  ).map((v) => v.id)
+  await refreshBundlePrices(tx, {
+    bundleVariantIds: variantIds,
+    componentVariantIds: variantIds,
+  })
+}
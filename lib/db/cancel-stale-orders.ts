@@ -0,0 +1,59 @@
+/**
+ * Cancel stale pending-payment orders from the command line.
+ *
+ * Usage: pnpm orders:cancel-stale [--dry-run] [--hours <n>]
+ */
+
+import "dotenv/config"
+
+async function main() {
+  const args = process.argv.slice(2)
+  const dryRun = args.includes("--dry-run")
+  const hoursIndex = args.indexOf("--hours")
+  const hours =
+    hoursIndex >= 0 ? parseFloat(args[hoursIndex + 1] ?? "") : undefined
+
+  if (!process.env.DATABASE_URL) {
+    console.error("❌ DATABASE_URL is not set")
+    process.exit(1)
+  }
+
+  if (hours !== undefined && !Number.isFinite(hours)) {
+    console.error("❌ --hours must be a number")
+    process.exit(1)
+  }
+
+  // Imported after dotenv so the database client sees DATABASE_URL
+  const { cancelStaleOrders } = await import("@/lib/jobs/cancel-stale-orders")
+
+  console.log(
+    dryRun
+      ? "🔍 Looking for stale orders (dry run)...\n"
+      : "🧹 Cancelling stale orders...\n",
+  )
+
+  const result = await cancelStaleOrders({ hours, dryRun })
+
+  if (result.hours <= 0) {
+    console.log("⏭️  Auto-cancel is disabled (window is 0 hours)")
+    process.exit(0)
+  }
+
+  for (const order of result.cancelled) {
+    console.log(
+      dryRun
+        ? `  • ${order.orderNumber}`
+        : `  ✅ ${order.orderNumber} - released ${order.releasedUnits} unit(s), expired ${order.expiredPayments} payment(s)`,
+    )
+  }
+
+  console.log(
+    `\n${dryRun ? "Would cancel" : "Cancelled"} ${result.cancelled.length} order(s) placed before ${result.cutoff.toISOString()} (${result.skipped} skipped)`,
+  )
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to cancel stale orders:", error)
+  process.exit(1)
+})
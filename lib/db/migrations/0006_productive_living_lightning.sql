@@ -0,0 +1,31 @@
+CREATE TABLE "shipping_zones" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"countries" text[] DEFAULT '{}' NOT NULL,
+	"states" text[] DEFAULT '{}' NOT NULL,
+	"standard_rate" numeric(10, 2) NOT NULL,
+	"express_rate" numeric(10, 2) NOT NULL,
+	"rate_per_kg" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"free_shipping_threshold" numeric(10, 2),
+	"is_active" boolean DEFAULT true NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tax_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"country" text NOT NULL,
+	"state" text,
+	"rate" numeric(6, 3) NOT NULL,
+	"applies_to_shipping" boolean DEFAULT false NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_method" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "cod_fee" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+CREATE INDEX "shipping_zones_active_idx" ON "shipping_zones" USING btree ("is_active");--> statement-breakpoint
+CREATE INDEX "tax_rates_country_idx" ON "tax_rates" USING btree ("country","state");
\ No newline at end of file
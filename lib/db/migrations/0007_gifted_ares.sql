@@ -0,0 +1,46 @@
+CREATE TYPE "public"."promotion_type" AS ENUM('percentage', 'fixed_amount', 'free_shipping');--> statement-breakpoint
+CREATE TABLE "promotion_redemptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"promotion_id" uuid NOT NULL,
+	"order_id" uuid NOT NULL,
+	"user_id" uuid,
+	"customer_email" text NOT NULL,
+	"code" text NOT NULL,
+	"discount_amount" numeric(10, 2) NOT NULL,
+	"released_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "promotions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"code" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"type" "promotion_type" NOT NULL,
+	"value" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"max_discount" numeric(10, 2),
+	"min_subtotal" numeric(10, 2),
+	"product_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"category_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"starts_at" timestamp with time zone,
+	"ends_at" timestamp with time zone,
+	"usage_limit" integer,
+	"usage_limit_per_customer" integer,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "promotions_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "public"."promotions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "promotion_redemptions_promotion_id_idx" ON "promotion_redemptions" USING btree ("promotion_id");--> statement-breakpoint
+CREATE INDEX "promotion_redemptions_order_id_idx" ON "promotion_redemptions" USING btree ("order_id");--> statement-breakpoint
+CREATE INDEX "promotion_redemptions_user_id_idx" ON "promotion_redemptions" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "promotion_redemptions_email_idx" ON "promotion_redemptions" USING btree ("customer_email");--> statement-breakpoint
+CREATE INDEX "promotions_code_idx" ON "promotions" USING btree ("code");--> statement-breakpoint
+CREATE INDEX "promotions_active_idx" ON "promotions" USING btree ("is_active");
\ No newline at end of file
@@ -0,0 +1,46 @@
+CREATE TYPE "public"."return_item_condition" AS ENUM('resellable', 'damaged');--> statement-breakpoint
+CREATE TYPE "public"."return_reason" AS ENUM('damaged', 'defective', 'wrong_item', 'not_as_described', 'no_longer_needed', 'other');--> statement-breakpoint
+CREATE TYPE "public"."return_status" AS ENUM('requested', 'approved', 'rejected', 'received', 'completed', 'cancelled');--> statement-breakpoint
+CREATE TABLE "return_request_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"return_request_id" uuid NOT NULL,
+	"order_item_id" uuid NOT NULL,
+	"quantity" integer NOT NULL,
+	"condition" "return_item_condition",
+	"inspection_notes" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "return_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rma_number" text NOT NULL,
+	"order_id" uuid NOT NULL,
+	"user_id" uuid,
+	"status" "return_status" DEFAULT 'requested' NOT NULL,
+	"reason" "return_reason" NOT NULL,
+	"customer_notes" text,
+	"photos" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"staff_notes" text,
+	"rejection_reason" text,
+	"refund_id" uuid,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp with time zone,
+	"received_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "return_requests_rma_number_unique" UNIQUE("rma_number")
+);
+--> statement-breakpoint
+ALTER TABLE "return_request_items" ADD CONSTRAINT "return_request_items_return_request_id_return_requests_id_fk" FOREIGN KEY ("return_request_id") REFERENCES "public"."return_requests"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_request_items" ADD CONSTRAINT "return_request_items_order_item_id_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_refund_id_refunds_id_fk" FOREIGN KEY ("refund_id") REFERENCES "public"."refunds"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "return_requests" ADD CONSTRAINT "return_requests_reviewed_by_user_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "return_request_items_return_request_id_idx" ON "return_request_items" USING btree ("return_request_id");--> statement-breakpoint
+CREATE INDEX "return_request_items_order_item_id_idx" ON "return_request_items" USING btree ("order_item_id");--> statement-breakpoint
+CREATE INDEX "return_requests_order_id_idx" ON "return_requests" USING btree ("order_id");--> statement-breakpoint
+CREATE INDEX "return_requests_user_id_idx" ON "return_requests" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "return_requests_status_idx" ON "return_requests" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "return_requests_created_at_idx" ON "return_requests" USING btree ("created_at");
\ No newline at end of file
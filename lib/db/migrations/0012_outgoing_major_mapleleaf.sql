@@ -0,0 +1,2 @@
+ALTER TABLE "payments" ADD COLUMN "provider" text;--> statement-breakpoint
+UPDATE "payments" SET "provider" = 'directpay' WHERE "method" = 'card';
\ No newline at end of file
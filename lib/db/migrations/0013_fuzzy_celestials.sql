@@ -0,0 +1,31 @@
+CREATE TYPE "public"."webhook_event_status" AS ENUM('received', 'processed', 'duplicate', 'ignored', 'rejected', 'failed');--> statement-breakpoint
+CREATE TABLE "webhook_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"provider" text NOT NULL,
+	"event_id" text,
+	"event_type" text,
+	"external_id" text,
+	"transaction_id" text,
+	"payment_id" uuid,
+	"payload" text NOT NULL,
+	"headers" text NOT NULL,
+	"signature_valid" boolean NOT NULL,
+	"status" "webhook_event_status" DEFAULT 'received' NOT NULL,
+	"outcome" text,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_replayed_by" uuid,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"processed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "payments" ADD COLUMN "transaction_id" text;--> statement-breakpoint
+UPDATE "payments" SET "transaction_id" = "captured"."transaction_id" FROM (SELECT DISTINCT ON ("provider", "metadata"::jsonb->>'transactionId') "id", "metadata"::jsonb->>'transactionId' AS "transaction_id" FROM "payments" WHERE "method" = 'card' AND "status" IN ('completed', 'refunded') AND "metadata" LIKE '{%' ORDER BY "provider", "metadata"::jsonb->>'transactionId', "created_at") AS "captured" WHERE "payments"."id" = "captured"."id" AND "captured"."transaction_id" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "webhook_events" ADD CONSTRAINT "webhook_events_payment_id_payments_id_fk" FOREIGN KEY ("payment_id") REFERENCES "public"."payments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "webhook_events" ADD CONSTRAINT "webhook_events_last_replayed_by_user_id_fk" FOREIGN KEY ("last_replayed_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "webhook_events_provider_event_id_idx" ON "webhook_events" USING btree ("provider","event_id");--> statement-breakpoint
+CREATE INDEX "webhook_events_external_id_idx" ON "webhook_events" USING btree ("external_id");--> statement-breakpoint
+CREATE INDEX "webhook_events_payment_id_idx" ON "webhook_events" USING btree ("payment_id");--> statement-breakpoint
+CREATE INDEX "webhook_events_status_idx" ON "webhook_events" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "webhook_events_received_at_idx" ON "webhook_events" USING btree ("received_at");--> statement-breakpoint
+ALTER TABLE "payments" ADD CONSTRAINT "payments_provider_transaction_id_unique" UNIQUE("provider","transaction_id");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+CREATE TABLE "search_queries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"query" text NOT NULL,
+	"result_count" integer NOT NULL,
+	"user_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "search_vector" "tsvector";--> statement-breakpoint
+UPDATE "products" SET "search_vector" =
+  setweight(to_tsvector('english', coalesce("products"."name", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce((select string_agg(sku, ' ') from product_variants where product_variants.product_id = "products"."id"), '')), 'A') ||
+  setweight(to_tsvector('english', coalesce((select name from categories where categories.id = "products"."category_id"), '')), 'B') ||
+  setweight(to_tsvector('english', coalesce((select string_agg(value, ' ') from product_attribute_values where product_attribute_values.product_id = "products"."id"), '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("products"."short_description", '')), 'C') ||
+  setweight(to_tsvector('english', coalesce("products"."description", '')), 'D');--> statement-breakpoint
+ALTER TABLE "search_queries" ADD CONSTRAINT "search_queries_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "search_queries_query_idx" ON "search_queries" USING btree ("query");--> statement-breakpoint
+CREATE INDEX "search_queries_created_at_idx" ON "search_queries" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "products_search_vector_idx" ON "products" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "products_name_trgm_idx" ON "products" USING gin ("name" gin_trgm_ops);
\ No newline at end of file
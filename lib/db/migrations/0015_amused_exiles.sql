@@ -0,0 +1,2 @@
+ALTER TABLE "product_attribute_values" DROP CONSTRAINT "product_attribute_values_unique";--> statement-breakpoint
+ALTER TABLE "product_attribute_values" ADD CONSTRAINT "product_attribute_values_unique" UNIQUE("product_id","attribute_id","value");
\ No newline at end of file
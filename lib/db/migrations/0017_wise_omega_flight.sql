@@ -0,0 +1,21 @@
+CREATE TYPE "public"."price_campaign_type" AS ENUM('percentage', 'fixed_price');--> statement-breakpoint
+CREATE TABLE "price_campaigns" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"type" "price_campaign_type" NOT NULL,
+	"value" numeric(10, 2) NOT NULL,
+	"product_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"variant_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"category_ids" uuid[] DEFAULT '{}' NOT NULL,
+	"starts_at" timestamp with time zone NOT NULL,
+	"ends_at" timestamp with time zone NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"caches_refreshed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "price_campaigns" ADD CONSTRAINT "price_campaigns_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "price_campaigns_active_window_idx" ON "price_campaigns" USING btree ("is_active","starts_at","ends_at");
\ No newline at end of file
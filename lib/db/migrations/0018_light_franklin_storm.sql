@@ -0,0 +1,26 @@
+CREATE TABLE "product_bundle_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bundle_id" uuid NOT NULL,
+	"component_variant_id" uuid NOT NULL,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "product_bundle_items_unique" UNIQUE("bundle_id","component_variant_id")
+);
+--> statement-breakpoint
+CREATE TABLE "product_bundles" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"variant_id" uuid NOT NULL,
+	"discount_percent" numeric(5, 2),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "product_bundles_variant_id_unique" UNIQUE("variant_id")
+);
+--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "bundle_variant_id" uuid;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "bundle_name" text;--> statement-breakpoint
+ALTER TABLE "product_bundle_items" ADD CONSTRAINT "product_bundle_items_bundle_id_product_bundles_id_fk" FOREIGN KEY ("bundle_id") REFERENCES "public"."product_bundles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_bundle_items" ADD CONSTRAINT "product_bundle_items_component_variant_id_product_variants_id_fk" FOREIGN KEY ("component_variant_id") REFERENCES "public"."product_variants"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_bundles" ADD CONSTRAINT "product_bundles_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "product_bundle_items_bundle_id_idx" ON "product_bundle_items" USING btree ("bundle_id");--> statement-breakpoint
+CREATE INDEX "product_bundle_items_component_idx" ON "product_bundle_items" USING btree ("component_variant_id");--> statement-breakpoint
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_bundle_variant_id_product_variants_id_fk" FOREIGN KEY ("bundle_variant_id") REFERENCES "public"."product_variants"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TYPE "public"."product_link_type" AS ENUM('related', 'cross_sell');--> statement-breakpoint
+CREATE TABLE "product_co_purchases" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"related_product_id" uuid NOT NULL,
+	"order_count" integer NOT NULL,
+	"refreshed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "product_co_purchases_unique" UNIQUE("product_id","related_product_id")
+);
+--> statement-breakpoint
+CREATE TABLE "product_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"linked_product_id" uuid NOT NULL,
+	"type" "product_link_type" NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "product_links_unique" UNIQUE("product_id","linked_product_id","type")
+);
+--> statement-breakpoint
+ALTER TABLE "product_co_purchases" ADD CONSTRAINT "product_co_purchases_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_co_purchases" ADD CONSTRAINT "product_co_purchases_related_product_id_products_id_fk" FOREIGN KEY ("related_product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_links" ADD CONSTRAINT "product_links_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "product_links" ADD CONSTRAINT "product_links_linked_product_id_products_id_fk" FOREIGN KEY ("linked_product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "product_co_purchases_product_id_idx" ON "product_co_purchases" USING btree ("product_id","order_count");--> statement-breakpoint
+CREATE INDEX "product_links_product_id_idx" ON "product_links" USING btree ("product_id","type");
\ No newline at end of file
@@ -0,0 +1,30 @@
+/**
+ * Rebuild the product search index from the command line.
+ *
+ * Usage: pnpm search:reindex
+ */
+
+import "dotenv/config"
+
+async function main() {
+  if (!process.env.DATABASE_URL) {
+    console.error("❌ DATABASE_URL is not set")
+    process.exit(1)
+  }
+
+  // Imported after dotenv so the database client sees DATABASE_URL
+  const { refreshProductSearchIndex } =
+    await import("@/lib/search/product-index")
+
+  console.log("🔎 Rebuilding product search index...\n")
+
+  await refreshProductSearchIndex()
+
+  console.log("✅ Search index rebuilt")
+  process.exit(0)
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to rebuild search index:", error)
+  process.exit(1)
+})
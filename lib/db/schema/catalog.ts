@@ -2,6 +2,7 @@ import { relations } from "drizzle-orm"
 import {
   type AnyPgColumn,
   boolean,
+  customType,
   decimal,
   index,
   integer,
@@ -12,9 +13,16 @@ import {
   uuid,
 } from "drizzle-orm/pg-core"
 
-import { productStatusEnum } from "./enums"
+import { productLinkTypeEnum, productStatusEnum } from "./enums"
 import { inventoryItems } from "./inventory"
 
+// Postgres full-text search document
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector"
+  },
+})
+
 /**
  * Categories - Product categories with hierarchical support.
  */
@@ -65,6 +73,8 @@ export const products = pgTable(
     isFeatured: boolean("is_featured").notNull().default(false),
     metaTitle: text("meta_title"),
     metaDescription: text("meta_description"),
+    // Weighted search document; maintained by lib/search/product-index.ts
+    searchVector: tsvector("search_vector"),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
@@ -77,6 +87,9 @@ export const products = pgTable(
     index("products_category_id_idx").on(table.categoryId),
     index("products_status_idx").on(table.status),
     index("products_is_featured_idx").on(table.isFeatured),
+    index("products_search_vector_idx").using("gin", table.searchVector),
+    // Trigram index for typo-tolerant name matching (pg_trgm)
+    index("products_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
   ],
 )
 
@@ -113,6 +126,81 @@ export const productVariants = pgTable(
   ],
 )
 
+/**
+ * Product options - Option types a product's variants differ by, e.g.
+ * "Color" or "Storage". Variants are the matrix of their values.
+ */
+export const productOptions = pgTable(
+  "product_options",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    productId: uuid("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("product_options_product_id_idx").on(table.productId),
+    unique("product_options_product_name_unique").on(
+      table.productId,
+      table.name,
+    ),
+  ],
+)
+
+/**
+ * Product option values - e.g. "Blue" or "256GB" for an option.
+ */
+export const productOptionValues = pgTable(
+  "product_option_values",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    optionId: uuid("option_id")
+      .notNull()
+      .references(() => productOptions.id, { onDelete: "cascade" }),
+    value: text("value").notNull(),
+    swatch: text("swatch"), // Hex color shown as a swatch instead of a button
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("product_option_values_option_id_idx").on(table.optionId),
+    unique("product_option_values_option_value_unique").on(
+      table.optionId,
+      table.value,
+    ),
+  ],
+)
+
+/**
+ * Variant option values - The option value a variant has for each option.
+ */
+export const productVariantOptionValues = pgTable(
+  "product_variant_option_values",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    variantId: uuid("variant_id")
+      .notNull()
+      .references(() => productVariants.id, { onDelete: "cascade" }),
+    optionValueId: uuid("option_value_id")
+      .notNull()
+      .references(() => productOptionValues.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    index("product_variant_option_values_variant_id_idx").on(table.variantId),
+    unique("product_variant_option_values_unique").on(
+      table.variantId,
+      table.optionValueId,
+    ),
+  ],
+)
+
 /**
  * Product images - Multiple images per product.
  */
@@ -155,6 +243,8 @@ export const productAttributes = pgTable("product_attributes", {
 
 /**
  * Product attribute values - Values for attributes on specific products.
+ * A product may carry several values of one attribute (e.g. every storage
+ * size its variants come in); each value is a storefront facet.
  */
 export const productAttributeValues = pgTable(
   "product_attribute_values",
@@ -177,6 +267,117 @@ export const productAttributeValues = pgTable(
     unique("product_attribute_values_unique").on(
       table.productId,
       table.attributeId,
+      table.value,
+    ),
+  ],
+)
+
+/**
+ * Product bundles - A variant sold as a kit of other variants, e.g. a phone
+ * with a case and charger. The bundle holds no stock of its own: it is
+ * available while its components are, and orders list the components.
+ */
+export const productBundles = pgTable("product_bundles", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  variantId: uuid("variant_id")
+    .notNull()
+    .unique()
+    .references(() => productVariants.id, { onDelete: "cascade" }),
+  // Percent off the components' prices; null keeps the variant's own price
+  discountPercent: decimal("discount_percent", { precision: 5, scale: 2 }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+})
+
+/**
+ * Product bundle items - Component variants of a bundle and how many of
+ * each it contains.
+ */
+export const productBundleItems = pgTable(
+  "product_bundle_items",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    bundleId: uuid("bundle_id")
+      .notNull()
+      .references(() => productBundles.id, { onDelete: "cascade" }),
+    // Restricted so a component can't disappear from under a bundle
+    componentVariantId: uuid("component_variant_id")
+      .notNull()
+      .references(() => productVariants.id, { onDelete: "restrict" }),
+    quantity: integer("quantity").notNull().default(1),
+    sortOrder: integer("sort_order").notNull().default(0),
+  },
+  (table) => [
+    index("product_bundle_items_bundle_id_idx").on(table.bundleId),
+    index("product_bundle_items_component_idx").on(table.componentVariantId),
+    unique("product_bundle_items_unique").on(
+      table.bundleId,
+      table.componentVariantId,
+    ),
+  ],
+)
+
+/**
+ * Product links - Hand-picked related products and cross-sells, shown
+ * ahead of computed recommendations.
+ */
+export const productLinks = pgTable(
+  "product_links",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    productId: uuid("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    linkedProductId: uuid("linked_product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    type: productLinkTypeEnum("type").notNull(),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("product_links_product_id_idx").on(table.productId, table.type),
+    unique("product_links_unique").on(
+      table.productId,
+      table.linkedProductId,
+      table.type,
+    ),
+  ],
+)
+
+/**
+ * Product co-purchases - How many paid orders contained both products.
+ * Rebuilt in the background by lib/jobs/co-purchases.ts.
+ */
+export const productCoPurchases = pgTable(
+  "product_co_purchases",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    productId: uuid("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    relatedProductId: uuid("related_product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    orderCount: integer("order_count").notNull(),
+    refreshedAt: timestamp("refreshed_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("product_co_purchases_product_id_idx").on(
+      table.productId,
+      table.orderCount,
+    ),
+    unique("product_co_purchases_unique").on(
+      table.productId,
+      table.relatedProductId,
     ),
   ],
 )
@@ -200,6 +401,7 @@ export const productsRelations = relations(products, ({ one, many }) => ({
     references: [categories.id],
   }),
   variants: many(productVariants),
+  options: many(productOptions),
   images: many(productImages),
   attributeValues: many(productAttributeValues),
 }))
@@ -212,10 +414,51 @@ export const productVariantsRelations = relations(
       references: [products.id],
     }),
     images: many(productImages),
+    optionValues: many(productVariantOptionValues),
     inventory: one(inventoryItems, {
       fields: [productVariants.id],
       references: [inventoryItems.variantId],
     }),
+    bundle: one(productBundles, {
+      fields: [productVariants.id],
+      references: [productBundles.variantId],
+    }),
+  }),
+)
+
+export const productOptionsRelations = relations(
+  productOptions,
+  ({ one, many }) => ({
+    product: one(products, {
+      fields: [productOptions.productId],
+      references: [products.id],
+    }),
+    values: many(productOptionValues),
+  }),
+)
+
+export const productOptionValuesRelations = relations(
+  productOptionValues,
+  ({ one, many }) => ({
+    option: one(productOptions, {
+      fields: [productOptionValues.optionId],
+      references: [productOptions.id],
+    }),
+    variants: many(productVariantOptionValues),
+  }),
+)
+
+export const productVariantOptionValuesRelations = relations(
+  productVariantOptionValues,
+  ({ one }) => ({
+    variant: one(productVariants, {
+      fields: [productVariantOptionValues.variantId],
+      references: [productVariants.id],
+    }),
+    optionValue: one(productOptionValues, {
+      fields: [productVariantOptionValues.optionValueId],
+      references: [productOptionValues.id],
+    }),
   }),
 )
 
@@ -250,3 +493,28 @@ export const productAttributeValuesRelations = relations(
     }),
   }),
 )
+
+export const productBundlesRelations = relations(
+  productBundles,
+  ({ one, many }) => ({
+    variant: one(productVariants, {
+      fields: [productBundles.variantId],
+      references: [productVariants.id],
+    }),
+    items: many(productBundleItems),
+  }),
+)
+
+export const productBundleItemsRelations = relations(
+  productBundleItems,
+  ({ one }) => ({
+    bundle: one(productBundles, {
+      fields: [productBundleItems.bundleId],
+      references: [productBundles.id],
+    }),
+    component: one(productVariants, {
+      fields: [productBundleItems.componentVariantId],
+      references: [productVariants.id],
+    }),
+  }),
+)
@@ -2,6 +2,7 @@ import { relations } from "drizzle-orm"
 import {
   boolean,
   index,
+  jsonb,
   pgTable,
   text,
   timestamp,
@@ -27,6 +28,11 @@ export const customerProfiles = pgTable(
     dateOfBirth: timestamp("date_of_birth", { withTimezone: true }),
     preferredLanguage: text("preferred_language").default("en"),
     marketingOptIn: boolean("marketing_opt_in").notNull().default(false),
+    // Per event and channel; events not listed use their defaults
+    notificationPreferences: jsonb("notification_preferences")
+      .$type<Record<string, { email?: boolean; inApp?: boolean }>>()
+      .notNull()
+      .default({}),
     createdAt: timestamp("created_at", { withTimezone: true })
       .notNull()
       .defaultNow(),
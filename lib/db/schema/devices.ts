@@ -0,0 +1,115 @@
+import { relations } from "drizzle-orm"
+import {
+  boolean,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uuid,
+} from "drizzle-orm/pg-core"
+
+import { products } from "./catalog"
+
+/**
+ * Device brands - Makers of the devices accessories are made for.
+ */
+export const deviceBrands = pgTable("device_brands", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  slug: text("slug").notNull().unique(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+})
+
+/**
+ * Device models - Phones, tablets and other devices customers shop for.
+ * The slug includes the brand ("apple-iphone-15") and is used in URLs.
+ */
+export const deviceModels = pgTable(
+  "device_models",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    brandId: uuid("brand_id")
+      .notNull()
+      .references(() => deviceBrands.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    slug: text("slug").notNull().unique(),
+    releaseYear: integer("release_year"),
+    sortOrder: integer("sort_order").notNull().default(0),
+    // Inactive models keep their links but are hidden from the storefront
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("device_models_brand_id_idx").on(table.brandId)],
+)
+
+/**
+ * Product compatible devices - The device models an accessory fits.
+ * Products without rows are not device-specific.
+ */
+export const productCompatibleDevices = pgTable(
+  "product_compatible_devices",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    productId: uuid("product_id")
+      .notNull()
+      .references(() => products.id, { onDelete: "cascade" }),
+    deviceModelId: uuid("device_model_id")
+      .notNull()
+      .references(() => deviceModels.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("product_compatible_devices_device_model_id_idx").on(
+      table.deviceModelId,
+    ),
+    unique("product_compatible_devices_unique").on(
+      table.productId,
+      table.deviceModelId,
+    ),
+  ],
+)
+
+// Relations
+export const deviceBrandsRelations = relations(deviceBrands, ({ many }) => ({
+  models: many(deviceModels),
+}))
+
+export const deviceModelsRelations = relations(
+  deviceModels,
+  ({ one, many }) => ({
+    brand: one(deviceBrands, {
+      fields: [deviceModels.brandId],
+      references: [deviceBrands.id],
+    }),
+    compatibleProducts: many(productCompatibleDevices),
+  }),
+)
+
+export const productCompatibleDevicesRelations = relations(
+  productCompatibleDevices,
+  ({ one }) => ({
+    product: one(products, {
+      fields: [productCompatibleDevices.productId],
+      references: [products.id],
+    }),
+    deviceModel: one(deviceModels, {
+      fields: [productCompatibleDevices.deviceModelId],
+      references: [deviceModels.id],
+    }),
+  }),
+)
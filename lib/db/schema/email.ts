@@ -0,0 +1,90 @@
+import { relations } from "drizzle-orm"
+import {
+  type AnyPgColumn,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core"
+
+import { user } from "./auth"
+import { emailStatusEnum } from "./enums"
+import { orders } from "./orders"
+
+/**
+ * Email outbox - Every transactional email, rendered when it is queued and
+ * delivered by the outbox worker with retries. Rows are kept after sending
+ * as the delivery log.
+ */
+export const emailOutbox = pgTable(
+  "email_outbox",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    template: text("template").notNull(),
+    recipient: text("recipient").notNull(),
+    replyTo: text("reply_to"),
+    subject: text("subject").notNull(),
+    htmlBody: text("html_body").notNull(),
+    textBody: text("text_body").notNull(),
+
+    // What the email is about
+    orderId: uuid("order_id").references(() => orders.id, {
+      onDelete: "set null",
+    }),
+    userId: uuid("user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+
+    // Delivery
+    status: emailStatusEnum("status").notNull().default("queued"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(5),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+    lastError: text("last_error"),
+    transport: text("transport"), // resend, capture
+    providerMessageId: text("provider_message_id"),
+
+    // Set when staff send an earlier message again
+    resendOf: uuid("resend_of").references((): AnyPgColumn => emailOutbox.id, {
+      onDelete: "set null",
+    }),
+    requestedBy: uuid("requested_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("email_outbox_status_next_attempt_idx").on(
+      table.status,
+      table.nextAttemptAt,
+    ),
+    index("email_outbox_order_id_idx").on(table.orderId),
+    index("email_outbox_user_id_idx").on(table.userId),
+    index("email_outbox_created_at_idx").on(table.createdAt),
+  ],
+)
+
+// Relations
+export const emailOutboxRelations = relations(emailOutbox, ({ one }) => ({
+  order: one(orders, {
+    fields: [emailOutbox.orderId],
+    references: [orders.id],
+  }),
+  user: one(user, {
+    fields: [emailOutbox.userId],
+    references: [user.id],
+  }),
+  requestedByUser: one(user, {
+    fields: [emailOutbox.requestedBy],
+    references: [user.id],
+  }),
+}))
@@ -42,6 +42,47 @@ export const paymentStatusEnum = pgEnum("payment_status", [
   "cancelled",
 ])
 
+/**
+ * Refund status. Gateway refunds start as pending until the provider confirms.
+ */
+export const refundStatusEnum = pgEnum("refund_status", [
+  "pending",
+  "completed",
+  "failed",
+])
+
+/**
+ * Processing outcome of an inbound payment webhook.
+ * - received: Stored, not processed yet
+ * - processed: Applied to the payment
+ * - duplicate: Payment or transaction already settled; nothing applied
+ * - ignored: Event type we do not act on
+ * - rejected: Signature check failed; never processed
+ * - failed: Processing error; can be replayed
+ */
+export const webhookEventStatusEnum = pgEnum("webhook_event_status", [
+  "received",
+  "processed",
+  "duplicate",
+  "ignored",
+  "rejected",
+  "failed",
+])
+
+/**
+ * Delivery status of an outbound email in the outbox.
+ * - queued: Waiting for its next delivery attempt
+ * - sending: Claimed by a worker; an attempt is in progress
+ * - sent: Accepted by the provider (or captured locally)
+ * - failed: Gave up after the last retry
+ */
+export const emailStatusEnum = pgEnum("email_status", [
+  "queued",
+  "sending",
+  "sent",
+  "failed",
+])
+
 /**
  * Payment methods supported by the platform.
  */
@@ -92,3 +133,70 @@ export const addressTypeEnum = pgEnum("address_type", [
   "billing",
   "both",
 ])
+
+/**
+ * Promotion types for coupon codes.
+ * - percentage: Percent off eligible items
+ * - fixed_amount: Fixed amount off eligible items
+ * - free_shipping: Waives the shipping charge
+ */
+export const promotionTypeEnum = pgEnum("promotion_type", [
+  "percentage",
+  "fixed_amount",
+  "free_shipping",
+])
+
+/**
+ * Price campaign types for scheduled sales.
+ * - percentage: Percent off the regular price
+ * - fixed_price: Sells at a set price while the campaign runs
+ */
+export const priceCampaignTypeEnum = pgEnum("price_campaign_type", [
+  "percentage",
+  "fixed_price",
+])
+
+/**
+ * Hand-picked product recommendations.
+ * - related: Alternatives shown on the product page
+ * - cross_sell: Add-ons offered with the product and in the cart
+ */
+export const productLinkTypeEnum = pgEnum("product_link_type", [
+  "related",
+  "cross_sell",
+])
+
+/**
+ * Return (RMA) request lifecycle.
+ * requested → approved → received → completed, or rejected / cancelled.
+ */
+export const returnStatusEnum = pgEnum("return_status", [
+  "requested",
+  "approved",
+  "rejected",
+  "received",
+  "completed",
+  "cancelled",
+])
+
+/**
+ * Why the customer is sending items back.
+ */
+export const returnReasonEnum = pgEnum("return_reason", [
+  "damaged",
+  "defective",
+  "wrong_item",
+  "not_as_described",
+  "no_longer_needed",
+  "other",
+])
+
+/**
+ * Inspection outcome for a returned item.
+ * - resellable: Returned to sellable stock
+ * - damaged: Written off in the inventory ledger
+ */
+export const returnItemConditionEnum = pgEnum("return_item_condition", [
+  "resellable",
+  "damaged",
+])
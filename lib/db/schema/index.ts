@@ -17,6 +17,9 @@ export * from "./customer"
 // Catalog Domain
 export * from "./catalog"
 
+// Device Compatibility Domain
+export * from "./devices"
+
 // Inventory Domain
 export * from "./inventory"
 
@@ -29,14 +32,32 @@ export * from "./orders"
 // Payments Domain
 export * from "./payments"
 
+// Returns Domain
+export * from "./returns"
+
+// Shipping & Tax Domain
+export * from "./shipping"
+
+// Promotions Domain
+export * from "./promotions"
+
 // Reviews Domain
 export * from "./reviews"
 
 // Admin Domain
 export * from "./admin"
 
+// Email Domain
+export * from "./email"
+
+// Notifications Domain
+export * from "./notifications"
+
 // Favorites Domain
 export * from "./favorites"
 
 // Newsletter Domain
 export * from "./newsletter"
+
+// Search Domain
+export * from "./search"
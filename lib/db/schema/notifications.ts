@@ -0,0 +1,87 @@
+import { relations } from "drizzle-orm"
+import {
+  index,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uuid,
+} from "drizzle-orm/pg-core"
+
+import { user } from "./auth"
+import { productVariants } from "./catalog"
+
+/**
+ * Notifications - A customer's in-app notification center.
+ */
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    event: text("event").notNull(), // order_status, payment, review, etc.
+    title: text("title").notNull(),
+    body: text("body"),
+    href: text("href"), // Site-relative link
+    readAt: timestamp("read_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("notifications_user_id_created_at_idx").on(
+      table.userId,
+      table.createdAt,
+    ),
+    index("notifications_user_id_read_at_idx").on(table.userId, table.readAt),
+  ],
+)
+
+/**
+ * Stock alerts - Customers waiting for an out of stock variant. An alert
+ * fires once; asking again re-arms it.
+ */
+export const stockAlerts = pgTable(
+  "stock_alerts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    variantId: uuid("variant_id")
+      .notNull()
+      .references(() => productVariants.id, { onDelete: "cascade" }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    notifiedAt: timestamp("notified_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("stock_alerts_variant_id_idx").on(table.variantId),
+    unique("stock_alerts_user_variant_unique").on(
+      table.userId,
+      table.variantId,
+    ),
+  ],
+)
+
+// Relations
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(user, {
+    fields: [notifications.userId],
+    references: [user.id],
+  }),
+}))
+
+export const stockAlertsRelations = relations(stockAlerts, ({ one }) => ({
+  user: one(user, {
+    fields: [stockAlerts.userId],
+    references: [user.id],
+  }),
+  variant: one(productVariants, {
+    fields: [stockAlerts.variantId],
+    references: [productVariants.id],
+  }),
+}))
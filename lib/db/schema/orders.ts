@@ -62,6 +62,8 @@ export const orders = pgTable(
       country: string
     }>(),
 
+    shippingMethod: text("shipping_method"), // standard | express
+
     // Totals (calculated server-side)
     subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
     shippingCost: decimal("shipping_cost", { precision: 10, scale: 2 })
@@ -73,6 +75,9 @@ export const orders = pgTable(
     discountAmount: decimal("discount_amount", { precision: 10, scale: 2 })
       .notNull()
       .default("0"),
+    codFee: decimal("cod_fee", { precision: 10, scale: 2 })
+      .notNull()
+      .default("0"),
     total: decimal("total", { precision: 10, scale: 2 }).notNull(),
 
     // Customer info (for guest orders)
@@ -119,6 +124,13 @@ export const orderItems = pgTable(
     variantName: text("variant_name").notNull(),
     sku: text("sku").notNull(),
 
+    // Set on component lines of a bundle sold as one item
+    bundleVariantId: uuid("bundle_variant_id").references(
+      () => productVariants.id,
+      { onDelete: "set null" },
+    ),
+    bundleName: text("bundle_name"),
+
     quantity: integer("quantity").notNull(),
     unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
     subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
@@ -160,7 +172,9 @@ export const orderStatusHistory = pgTable(
 )
 
 /**
- * Shipments - Shipping information for orders.
+ * Shipments - Parcels sent for an order.
+ * An order can ship in several parcels; each one lists its items.
+ * Carrier holds a key from lib/utils/shipments.ts or a free-text name.
  */
 export const shipments = pgTable(
   "shipments",
@@ -188,6 +202,52 @@ export const shipments = pgTable(
   ],
 )
 
+/**
+ * Shipment items - Order lines (and quantities) packed in a shipment.
+ */
+export const shipmentItems = pgTable(
+  "shipment_items",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    shipmentId: uuid("shipment_id")
+      .notNull()
+      .references(() => shipments.id, { onDelete: "cascade" }),
+    orderItemId: uuid("order_item_id")
+      .notNull()
+      .references(() => orderItems.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("shipment_items_shipment_id_idx").on(table.shipmentId),
+    index("shipment_items_order_item_id_idx").on(table.orderItemId),
+  ],
+)
+
+/**
+ * Invoices - Sequential invoice numbers issued per order.
+ * Issued on first download; the invoice content is rendered from the
+ * denormalized order data so it never changes once issued.
+ */
+export const invoices = pgTable(
+  "invoices",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    orderId: uuid("order_id")
+      .notNull()
+      .unique()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    sequence: integer("sequence").notNull().unique(),
+    invoiceNumber: text("invoice_number").notNull().unique(),
+    issuedAt: timestamp("issued_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("invoices_issued_at_idx").on(table.issuedAt)],
+)
+
 // Relations
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(user, {
@@ -205,6 +265,7 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
   items: many(orderItems),
   statusHistory: many(orderStatusHistory),
   shipments: many(shipments),
+  invoice: one(invoices),
 }))
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
@@ -232,9 +293,28 @@ export const orderStatusHistoryRelations = relations(
   }),
 )
 
-export const shipmentsRelations = relations(shipments, ({ one }) => ({
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
   order: one(orders, {
     fields: [shipments.orderId],
     references: [orders.id],
   }),
+  items: many(shipmentItems),
+}))
+
+export const shipmentItemsRelations = relations(shipmentItems, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentItems.shipmentId],
+    references: [shipments.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [shipmentItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}))
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  order: one(orders, {
+    fields: [invoices.orderId],
+    references: [orders.id],
+  }),
 }))
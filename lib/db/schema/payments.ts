@@ -1,16 +1,24 @@
 import { relations } from "drizzle-orm"
 import {
+  boolean,
   decimal,
   index,
+  integer,
   pgTable,
   text,
   timestamp,
+  unique,
   uuid,
 } from "drizzle-orm/pg-core"
 
 import { user } from "./auth"
-import { paymentMethodEnum, paymentStatusEnum } from "./enums"
-import { orders } from "./orders"
+import {
+  paymentMethodEnum,
+  paymentStatusEnum,
+  refundStatusEnum,
+  webhookEventStatusEnum,
+} from "./enums"
+import { orderItems, orders } from "./orders"
 
 /**
  * Payments - Payment records for orders.
@@ -29,8 +37,10 @@ export const payments = pgTable(
     currency: text("currency").notNull().default("USD"),
 
     // External payment provider references
+    provider: text("provider"), // Gateway that handled a card payment (directpay, stripe)
     externalId: text("external_id"), // Stripe payment intent ID, etc.
     externalStatus: text("external_status"),
+    transactionId: text("transaction_id"), // Gateway transaction of a captured payment
 
     // For idempotency
     idempotencyKey: text("idempotency_key").unique(),
@@ -52,6 +62,11 @@ export const payments = pgTable(
     index("payments_status_idx").on(table.status),
     index("payments_external_id_idx").on(table.externalId),
     index("payments_idempotency_key_idx").on(table.idempotencyKey),
+    // A gateway transaction settles at most one payment
+    unique("payments_provider_transaction_id_unique").on(
+      table.provider,
+      table.transactionId,
+    ),
   ],
 )
 
@@ -87,6 +102,125 @@ export const bankTransferProofs = pgTable(
   (table) => [index("bank_transfer_proofs_payment_id_idx").on(table.paymentId)],
 )
 
+/**
+ * Refunds - Money returned against a payment.
+ * Card refunds go through the gateway; bank transfer and COD refunds are
+ * recorded manually once staff have paid the customer back.
+ */
+export const refunds = pgTable(
+  "refunds",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    paymentId: uuid("payment_id")
+      .notNull()
+      .references(() => payments.id, { onDelete: "cascade" }),
+    status: refundStatusEnum("status").notNull().default("pending"),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    currency: text("currency").notNull().default("LKR"),
+    reason: text("reason"),
+    isManual: boolean("is_manual").notNull().default(false),
+    restock: boolean("restock").notNull().default(false),
+
+    // Gateway reference
+    externalId: text("external_id"),
+    failureReason: text("failure_reason"),
+
+    processedBy: uuid("processed_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    processedAt: timestamp("processed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("refunds_order_id_idx").on(table.orderId),
+    index("refunds_payment_id_idx").on(table.paymentId),
+    index("refunds_status_idx").on(table.status),
+  ],
+)
+
+/**
+ * Refund items - Order lines (and quantities) covered by a refund.
+ * A refund without items is a pure monetary adjustment.
+ */
+export const refundItems = pgTable(
+  "refund_items",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    refundId: uuid("refund_id")
+      .notNull()
+      .references(() => refunds.id, { onDelete: "cascade" }),
+    orderItemId: uuid("order_item_id")
+      .notNull()
+      .references(() => orderItems.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("refund_items_refund_id_idx").on(table.refundId),
+    index("refund_items_order_item_id_idx").on(table.orderItemId),
+  ],
+)
+
+/**
+ * Webhook events - Every inbound payment gateway notification, stored raw
+ * with its signature check and processing outcome so it can be audited
+ * and replayed.
+ */
+export const webhookEvents = pgTable(
+  "webhook_events",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    provider: text("provider").notNull(),
+    eventId: text("event_id"), // Provider's event ID, when it sends one
+    eventType: text("event_type"),
+    externalId: text("external_id"), // Gateway session the event refers to
+    transactionId: text("transaction_id"),
+    paymentId: uuid("payment_id").references(() => payments.id, {
+      onDelete: "set null",
+    }),
+
+    // Request as received
+    payload: text("payload").notNull(),
+    headers: text("headers").notNull(), // JSON string
+    signatureValid: boolean("signature_valid").notNull(),
+
+    // Processing
+    status: webhookEventStatusEnum("status").notNull().default("received"),
+    outcome: text("outcome"),
+    error: text("error"),
+    attempts: integer("attempts").notNull().default(0),
+    lastReplayedBy: uuid("last_replayed_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+
+    receivedAt: timestamp("received_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    processedAt: timestamp("processed_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("webhook_events_provider_event_id_idx").on(
+      table.provider,
+      table.eventId,
+    ),
+    index("webhook_events_external_id_idx").on(table.externalId),
+    index("webhook_events_payment_id_idx").on(table.paymentId),
+    index("webhook_events_status_idx").on(table.status),
+    index("webhook_events_received_at_idx").on(table.receivedAt),
+  ],
+)
+
 // Relations
 export const paymentsRelations = relations(payments, ({ one, many }) => ({
   order: one(orders, {
@@ -94,6 +228,8 @@ export const paymentsRelations = relations(payments, ({ one, many }) => ({
     references: [orders.id],
   }),
   bankTransferProofs: many(bankTransferProofs),
+  refunds: many(refunds),
+  webhookEvents: many(webhookEvents),
 }))
 
 export const bankTransferProofsRelations = relations(
@@ -109,3 +245,41 @@ export const bankTransferProofsRelations = relations(
     }),
   }),
 )
+
+export const refundsRelations = relations(refunds, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [refunds.orderId],
+    references: [orders.id],
+  }),
+  payment: one(payments, {
+    fields: [refunds.paymentId],
+    references: [payments.id],
+  }),
+  processedByUser: one(user, {
+    fields: [refunds.processedBy],
+    references: [user.id],
+  }),
+  items: many(refundItems),
+}))
+
+export const refundItemsRelations = relations(refundItems, ({ one }) => ({
+  refund: one(refunds, {
+    fields: [refundItems.refundId],
+    references: [refunds.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [refundItems.orderItemId],
+    references: [orderItems.id],
+  }),
+}))
+
+export const webhookEventsRelations = relations(webhookEvents, ({ one }) => ({
+  payment: one(payments, {
+    fields: [webhookEvents.paymentId],
+    references: [payments.id],
+  }),
+  lastReplayedByUser: one(user, {
+    fields: [webhookEvents.lastReplayedBy],
+    references: [user.id],
+  }),
+}))
@@ -0,0 +1,182 @@
+import { relations } from "drizzle-orm"
+import {
+  boolean,
+  decimal,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core"
+
+import { user } from "./auth"
+import { priceCampaignTypeEnum, promotionTypeEnum } from "./enums"
+import { orders } from "./orders"
+
+/**
+ * Promotions - Coupon codes redeemable at checkout.
+ * Empty product/category scopes mean the whole cart is eligible.
+ */
+export const promotions = pgTable(
+  "promotions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    code: text("code").notNull().unique(), // Stored uppercase
+    name: text("name").notNull(),
+    description: text("description"),
+    type: promotionTypeEnum("type").notNull(),
+    value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"), // Percent or amount
+    maxDiscount: decimal("max_discount", { precision: 10, scale: 2 }), // Cap for percentage codes
+    minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }),
+
+    // Scoping
+    productIds: uuid("product_ids").array().notNull().default([]),
+    categoryIds: uuid("category_ids").array().notNull().default([]),
+
+    // Validity window
+    startsAt: timestamp("starts_at", { withTimezone: true }),
+    endsAt: timestamp("ends_at", { withTimezone: true }),
+
+    // Usage limits (null = unlimited)
+    usageLimit: integer("usage_limit"),
+    usageLimitPerCustomer: integer("usage_limit_per_customer"),
+    usageCount: integer("usage_count").notNull().default(0),
+
+    isActive: boolean("is_active").notNull().default(true),
+    createdBy: uuid("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("promotions_code_idx").on(table.code),
+    index("promotions_active_idx").on(table.isActive),
+  ],
+)
+
+/**
+ * Promotion redemptions - One row per order that used a code.
+ * Used for per-customer limits and campaign revenue attribution.
+ */
+export const promotionRedemptions = pgTable(
+  "promotion_redemptions",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    promotionId: uuid("promotion_id")
+      .notNull()
+      .references(() => promotions.id, { onDelete: "cascade" }),
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    customerEmail: text("customer_email").notNull(),
+    code: text("code").notNull(), // Denormalized in case the code is renamed
+    discountAmount: decimal("discount_amount", {
+      precision: 10,
+      scale: 2,
+    }).notNull(), // Includes waived shipping for free_shipping codes
+    // Set when the order is cancelled; the use no longer counts
+    releasedAt: timestamp("released_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("promotion_redemptions_promotion_id_idx").on(table.promotionId),
+    index("promotion_redemptions_order_id_idx").on(table.orderId),
+    index("promotion_redemptions_user_id_idx").on(table.userId),
+    index("promotion_redemptions_email_idx").on(table.customerEmail),
+  ],
+)
+
+/**
+ * Price campaigns - Scheduled sales that lower the selling price of the
+ * targeted products, variants and categories (with their subcategories)
+ * between `startsAt` and `endsAt`. No code is needed.
+ */
+export const priceCampaigns = pgTable(
+  "price_campaigns",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(), // Shown to customers, e.g. "Weekend Sale"
+    description: text("description"),
+    type: priceCampaignTypeEnum("type").notNull(),
+    value: decimal("value", { precision: 10, scale: 2 }).notNull(), // Percent or price
+
+    // Targets; at least one is required
+    productIds: uuid("product_ids").array().notNull().default([]),
+    variantIds: uuid("variant_ids").array().notNull().default([]),
+    categoryIds: uuid("category_ids").array().notNull().default([]),
+
+    startsAt: timestamp("starts_at", { withTimezone: true }).notNull(),
+    endsAt: timestamp("ends_at", { withTimezone: true }).notNull(),
+    isActive: boolean("is_active").notNull().default(true),
+
+    // When storefront caches last picked up this campaign; the cron job
+    // refreshes them again once it starts or ends after this
+    cachesRefreshedAt: timestamp("caches_refreshed_at", {
+      withTimezone: true,
+    })
+      .notNull()
+      .defaultNow(),
+
+    createdBy: uuid("created_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("price_campaigns_active_window_idx").on(
+      table.isActive,
+      table.startsAt,
+      table.endsAt,
+    ),
+  ],
+)
+
+// Relations
+export const promotionsRelations = relations(promotions, ({ one, many }) => ({
+  creator: one(user, {
+    fields: [promotions.createdBy],
+    references: [user.id],
+  }),
+  redemptions: many(promotionRedemptions),
+}))
+
+export const promotionRedemptionsRelations = relations(
+  promotionRedemptions,
+  ({ one }) => ({
+    promotion: one(promotions, {
+      fields: [promotionRedemptions.promotionId],
+      references: [promotions.id],
+    }),
+    order: one(orders, {
+      fields: [promotionRedemptions.orderId],
+      references: [orders.id],
+    }),
+    user: one(user, {
+      fields: [promotionRedemptions.userId],
+      references: [user.id],
+    }),
+  }),
+)
+
+export const priceCampaignsRelations = relations(priceCampaigns, ({ one }) => ({
+  creator: one(user, {
+    fields: [priceCampaigns.createdBy],
+    references: [user.id],
+  }),
+}))
@@ -0,0 +1,134 @@
+import { relations } from "drizzle-orm"
+import {
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core"
+
+import { user } from "./auth"
+import {
+  returnItemConditionEnum,
+  returnReasonEnum,
+  returnStatusEnum,
+} from "./enums"
+import { orderItems, orders } from "./orders"
+import { refunds } from "./payments"
+
+/**
+ * Return requests - Customer RMA requests against delivered orders.
+ * Staff approve, receive and inspect the items before closing the request.
+ */
+export const returnRequests = pgTable(
+  "return_requests",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    rmaNumber: text("rma_number").notNull().unique(),
+    orderId: uuid("order_id")
+      .notNull()
+      .references(() => orders.id, { onDelete: "cascade" }),
+    userId: uuid("user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    status: returnStatusEnum("status").notNull().default("requested"),
+    reason: returnReasonEnum("reason").notNull(),
+    customerNotes: text("customer_notes"),
+    photos: jsonb("photos").$type<string[]>().notNull().default([]),
+
+    // Staff handling
+    staffNotes: text("staff_notes"),
+    rejectionReason: text("rejection_reason"),
+    refundId: uuid("refund_id").references(() => refunds.id, {
+      onDelete: "set null",
+    }),
+    reviewedBy: uuid("reviewed_by").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+    receivedAt: timestamp("received_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("return_requests_order_id_idx").on(table.orderId),
+    index("return_requests_user_id_idx").on(table.userId),
+    index("return_requests_status_idx").on(table.status),
+    index("return_requests_created_at_idx").on(table.createdAt),
+  ],
+)
+
+/**
+ * Return request items - Order lines (and quantities) being returned.
+ * Condition is recorded when the items are inspected.
+ */
+export const returnRequestItems = pgTable(
+  "return_request_items",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    returnRequestId: uuid("return_request_id")
+      .notNull()
+      .references(() => returnRequests.id, { onDelete: "cascade" }),
+    orderItemId: uuid("order_item_id")
+      .notNull()
+      .references(() => orderItems.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+    condition: returnItemConditionEnum("condition"),
+    inspectionNotes: text("inspection_notes"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("return_request_items_return_request_id_idx").on(
+      table.returnRequestId,
+    ),
+    index("return_request_items_order_item_id_idx").on(table.orderItemId),
+  ],
+)
+
+// Relations
+export const returnRequestsRelations = relations(
+  returnRequests,
+  ({ one, many }) => ({
+    order: one(orders, {
+      fields: [returnRequests.orderId],
+      references: [orders.id],
+    }),
+    user: one(user, {
+      fields: [returnRequests.userId],
+      references: [user.id],
+    }),
+    refund: one(refunds, {
+      fields: [returnRequests.refundId],
+      references: [refunds.id],
+    }),
+    reviewedByUser: one(user, {
+      fields: [returnRequests.reviewedBy],
+      references: [user.id],
+    }),
+    items: many(returnRequestItems),
+  }),
+)
+
+export const returnRequestItemsRelations = relations(
+  returnRequestItems,
+  ({ one }) => ({
+    returnRequest: one(returnRequests, {
+      fields: [returnRequestItems.returnRequestId],
+      references: [returnRequests.id],
+    }),
+    orderItem: one(orderItems, {
+      fields: [returnRequestItems.orderItemId],
+      references: [orderItems.id],
+    }),
+  }),
+)
@@ -0,0 +1,42 @@
+import { relations } from "drizzle-orm"
+import {
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core"
+
+import { user } from "./auth"
+
+/**
+ * Search queries - One row per storefront search, used for popular terms
+ * and the "searches with no results" report.
+ */
+export const searchQueries = pgTable(
+  "search_queries",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    query: text("query").notNull(), // Trimmed, lowercased, single-spaced
+    resultCount: integer("result_count").notNull(),
+    userId: uuid("user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index("search_queries_query_idx").on(table.query),
+    index("search_queries_created_at_idx").on(table.createdAt),
+  ],
+)
+
+// Relations
+export const searchQueriesRelations = relations(searchQueries, ({ one }) => ({
+  user: one(user, {
+    fields: [searchQueries.userId],
+    references: [user.id],
+  }),
+}))
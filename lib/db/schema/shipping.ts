@@ -0,0 +1,72 @@
+import {
+  boolean,
+  decimal,
+  index,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from "drizzle-orm/pg-core"
+
+/**
+ * Shipping zones - Region based shipping rates.
+ * A zone with no countries acts as the catch-all fallback.
+ * States narrow a zone down within its countries (empty = whole country).
+ */
+export const shippingZones = pgTable(
+  "shipping_zones",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    countries: text("countries").array().notNull().default([]),
+    states: text("states").array().notNull().default([]),
+    standardRate: decimal("standard_rate", {
+      precision: 10,
+      scale: 2,
+    }).notNull(),
+    expressRate: decimal("express_rate", { precision: 10, scale: 2 }).notNull(),
+    // Per kilogram surcharge added on top of the flat rate
+    ratePerKg: decimal("rate_per_kg", { precision: 10, scale: 2 })
+      .notNull()
+      .default("0"),
+    // Null falls back to the free_shipping_threshold site setting
+    freeShippingThreshold: decimal("free_shipping_threshold", {
+      precision: 10,
+      scale: 2,
+    }),
+    isActive: boolean("is_active").notNull().default(true),
+    sortOrder: integer("sort_order").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("shipping_zones_active_idx").on(table.isActive)],
+)
+
+/**
+ * Tax rates - Percentage tax rules per country/state.
+ * The most specific active match wins (country + state over country only).
+ */
+export const taxRates = pgTable(
+  "tax_rates",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    country: text("country").notNull(),
+    state: text("state"),
+    rate: decimal("rate", { precision: 6, scale: 3 }).notNull(), // Percentage
+    appliesToShipping: boolean("applies_to_shipping").notNull().default(false),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [index("tax_rates_country_idx").on(table.country, table.state)],
+)
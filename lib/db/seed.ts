@@ -3,12 +3,19 @@ import { eq } from "drizzle-orm"
 import { drizzle } from "drizzle-orm/postgres-js"
 import postgres from "postgres"
 
+import { variantName } from "@/lib/utils/variants"
+
 import {
   account,
   categories,
   inventoryItems,
+  productAttributes,
+  productAttributeValues,
   productImages,
+  productOptions,
+  productOptionValues,
   products,
+  productVariantOptionValues,
   productVariants,
   roles,
   user,
@@ -166,6 +173,35 @@ async function seed() {
       }
     }
 
+    console.log("\n🏷️  Seeding attributes...")
+    const attributeData = [
+      { name: "Brand", slug: "brand" },
+      { name: "Model", slug: "model" },
+      { name: "Storage", slug: "storage" },
+      { name: "Color", slug: "color" },
+    ]
+
+    const attributeMap = new Map<string, string>()
+    for (const attr of attributeData) {
+      const existing = await db
+        .select()
+        .from(productAttributes)
+        .where(eq(productAttributes.slug, attr.slug))
+        .limit(1)
+
+      if (existing.length === 0) {
+        const [created] = await db
+          .insert(productAttributes)
+          .values(attr)
+          .returning()
+        attributeMap.set(attr.slug, created.id)
+        console.log(`  ✅ Created attribute: ${attr.name}`)
+      } else {
+        attributeMap.set(attr.slug, existing[0].id)
+        console.log(`  ⏭️  Attribute already exists: ${attr.name}`)
+      }
+    }
+
     console.log("\n📦 Seeding products...")
     const productData = [
       {
@@ -181,27 +217,43 @@ async function seed() {
         costPrice: "700.00",
         status: "active" as const,
         isFeatured: true,
+        attributes: {
+          brand: ["Apple"],
+          model: ["iPhone 15 Pro"],
+          storage: ["128GB", "256GB"],
+          color: ["Natural Titanium", "Blue Titanium"],
+        },
+        options: [
+          { name: "Storage", values: [{ value: "128GB" }, { value: "256GB" }] },
+          {
+            name: "Color",
+            values: [
+              { value: "Natural Titanium", swatch: "#bab4a9" },
+              { value: "Blue Titanium", swatch: "#3f4a5c" },
+            ],
+          },
+        ],
         variants: [
           {
-            name: "128GB - Natural Titanium",
+            values: ["128GB", "Natural Titanium"],
             sku: "IPH15P-128-NAT",
             price: "999.00",
             stock: 25,
           },
           {
-            name: "256GB - Natural Titanium",
+            values: ["256GB", "Natural Titanium"],
             sku: "IPH15P-256-NAT",
             price: "1099.00",
             stock: 20,
           },
           {
-            name: "128GB - Blue Titanium",
+            values: ["128GB", "Blue Titanium"],
             sku: "IPH15P-128-BLU",
             price: "999.00",
             stock: 15,
           },
           {
-            name: "256GB - Blue Titanium",
+            values: ["256GB", "Blue Titanium"],
             sku: "IPH15P-256-BLU",
             price: "1099.00",
             stock: 18,
@@ -232,21 +284,37 @@ async function seed() {
         costPrice: "850.00",
         status: "active" as const,
         isFeatured: true,
+        attributes: {
+          brand: ["Samsung"],
+          model: ["Galaxy S24 Ultra"],
+          storage: ["256GB", "512GB"],
+          color: ["Titanium Black", "Titanium Gray"],
+        },
+        options: [
+          { name: "Storage", values: [{ value: "256GB" }, { value: "512GB" }] },
+          {
+            name: "Color",
+            values: [
+              { value: "Titanium Black", swatch: "#2b2b2d" },
+              { value: "Titanium Gray", swatch: "#8c8b88" },
+            ],
+          },
+        ],
         variants: [
           {
-            name: "256GB - Titanium Black",
+            values: ["256GB", "Titanium Black"],
             sku: "SGS24U-256-BLK",
             price: "1199.00",
             stock: 30,
           },
           {
-            name: "512GB - Titanium Black",
+            values: ["512GB", "Titanium Black"],
             sku: "SGS24U-512-BLK",
             price: "1319.00",
             stock: 22,
           },
           {
-            name: "256GB - Titanium Gray",
+            values: ["256GB", "Titanium Gray"],
             sku: "SGS24U-256-GRY",
             price: "1199.00",
             stock: 28,
@@ -273,21 +341,43 @@ async function seed() {
         costPrice: "1500.00",
         status: "active" as const,
         isFeatured: true,
+        attributes: {
+          brand: ["Apple"],
+          model: ['MacBook Pro 14"'],
+          storage: ["512GB", "1TB"],
+          color: ["Space Black", "Silver"],
+        },
+        options: [
+          {
+            name: "Configuration",
+            values: [
+              { value: "18GB RAM, 512GB SSD" },
+              { value: "36GB RAM, 1TB SSD" },
+            ],
+          },
+          {
+            name: "Color",
+            values: [
+              { value: "Space Black", swatch: "#2e2c2f" },
+              { value: "Silver", swatch: "#e3e4e5" },
+            ],
+          },
+        ],
         variants: [
           {
-            name: "18GB RAM / 512GB SSD - Space Black",
+            values: ["18GB RAM, 512GB SSD", "Space Black"],
             sku: "MBP14-M3P-18-512-BLK",
             price: "1999.00",
             stock: 12,
           },
           {
-            name: "36GB RAM / 1TB SSD - Space Black",
+            values: ["36GB RAM, 1TB SSD", "Space Black"],
             sku: "MBP14-M3P-36-1TB-BLK",
             price: "2499.00",
             stock: 8,
           },
           {
-            name: "18GB RAM / 512GB SSD - Silver",
+            values: ["18GB RAM, 512GB SSD", "Silver"],
             sku: "MBP14-M3P-18-512-SLV",
             price: "1999.00",
             stock: 10,
@@ -318,11 +408,36 @@ async function seed() {
         costPrice: "200.00",
         status: "active" as const,
         isFeatured: false,
+        attributes: {
+          brand: ["Sony"],
+          model: ["WH-1000XM5"],
+          color: ["Black", "Silver", "Midnight Blue"],
+        },
+        options: [
+          {
+            name: "Color",
+            values: [
+              { value: "Black", swatch: "#1f1f1f" },
+              { value: "Silver", swatch: "#d9d6d0" },
+              { value: "Midnight Blue", swatch: "#2c3a54" },
+            ],
+          },
+        ],
         variants: [
-          { name: "Black", sku: "SONY-XM5-BLK", price: "349.00", stock: 45 },
-          { name: "Silver", sku: "SONY-XM5-SLV", price: "349.00", stock: 38 },
           {
-            name: "Midnight Blue",
+            values: ["Black"],
+            sku: "SONY-XM5-BLK",
+            price: "349.00",
+            stock: 45,
+          },
+          {
+            values: ["Silver"],
+            sku: "SONY-XM5-SLV",
+            price: "349.00",
+            stock: 38,
+          },
+          {
+            values: ["Midnight Blue"],
             sku: "SONY-XM5-BLU",
             price: "349.00",
             stock: 25,
@@ -349,15 +464,26 @@ async function seed() {
         costPrice: "150.00",
         status: "active" as const,
         isFeatured: true,
+        attributes: {
+          brand: ["Apple"],
+          model: ["AirPods Pro (2nd generation)"],
+          color: ["White"],
+        },
+        options: [
+          {
+            name: "Charging Case",
+            values: [{ value: "MagSafe" }, { value: "USB-C" }],
+          },
+        ],
         variants: [
           {
-            name: "With MagSafe Charging Case",
+            values: ["MagSafe"],
             sku: "APP2-MAGSAFE",
             price: "249.00",
             stock: 60,
           },
           {
-            name: "With USB-C Charging Case",
+            values: ["USB-C"],
             sku: "APP2-USBC",
             price: "249.00",
             stock: 55,
@@ -383,9 +509,31 @@ async function seed() {
         costPrice: "12.00",
         status: "active" as const,
         isFeatured: false,
+        attributes: {
+          color: ["Black", "White"],
+        },
+        options: [
+          {
+            name: "Color",
+            values: [
+              { value: "Black", swatch: "#1f1f1f" },
+              { value: "White", swatch: "#f5f5f5" },
+            ],
+          },
+        ],
         variants: [
-          { name: "Black", sku: "CHRG-PAD-BLK", price: "29.00", stock: 200 },
-          { name: "White", sku: "CHRG-PAD-WHT", price: "29.00", stock: 180 },
+          {
+            values: ["Black"],
+            sku: "CHRG-PAD-BLK",
+            price: "29.00",
+            stock: 200,
+          },
+          {
+            values: ["White"],
+            sku: "CHRG-PAD-WHT",
+            price: "29.00",
+            stock: 180,
+          },
         ],
         images: [
           {
@@ -422,13 +570,42 @@ async function seed() {
           })
           .returning()
 
+        // Option value IDs by option index and value
+        const optionValueIds: Map<string, string>[] = []
+        for (let i = 0; i < prod.options.length; i++) {
+          const option = prod.options[i]
+          const [createdOption] = await db
+            .insert(productOptions)
+            .values({
+              productId: createdProduct.id,
+              name: option.name,
+              sortOrder: i,
+            })
+            .returning()
+
+          const createdValues = await db
+            .insert(productOptionValues)
+            .values(
+              option.values.map((v, valueIndex) => ({
+                optionId: createdOption.id,
+                value: v.value,
+                swatch: "swatch" in v ? v.swatch : null,
+                sortOrder: valueIndex,
+              })),
+            )
+            .returning()
+          optionValueIds.push(
+            new Map(createdValues.map((v) => [v.value, v.id])),
+          )
+        }
+
         for (let i = 0; i < prod.variants.length; i++) {
           const variant = prod.variants[i]
           const [createdVariant] = await db
             .insert(productVariants)
             .values({
               productId: createdProduct.id,
-              name: variant.name,
+              name: variantName(variant.values),
               sku: variant.sku,
               price: variant.price,
               isDefault: i === 0,
@@ -443,6 +620,25 @@ async function seed() {
             reservedQuantity: 0,
             lowStockThreshold: 5,
           })
+
+          await db.insert(productVariantOptionValues).values(
+            variant.values.map((value, optionIndex) => ({
+              variantId: createdVariant.id,
+              optionValueId: optionValueIds[optionIndex].get(value)!,
+            })),
+          )
+        }
+
+        for (const [attrSlug, values] of Object.entries(prod.attributes)) {
+          const attributeId = attributeMap.get(attrSlug)
+          if (!attributeId) continue
+          for (const value of values) {
+            await db.insert(productAttributeValues).values({
+              productId: createdProduct.id,
+              attributeId,
+              value,
+            })
+          }
         }
 
         for (let i = 0; i < prod.images.length; i++) {
@@ -464,6 +660,13 @@ async function seed() {
       }
     }
 
+    console.log("\n🔎 Building product search index...")
+    // Imported here so the shared database client sees DATABASE_URL
+    const { refreshProductSearchIndex } =
+      await import("@/lib/search/product-index")
+    await refreshProductSearchIndex()
+    console.log("  ✅ Search index built")
+
     console.log("\n✅ Database seed completed successfully!")
   } catch (error) {
     console.error("\n❌ Seed failed:", error)
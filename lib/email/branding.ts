@@ -0,0 +1,41 @@
+/**
+ * Email branding
+ *
+ * Store name, logo and contact details for email templates, read from the
+ * store settings. Falls back to the setting defaults when the database is
+ * unavailable so an email can still be rendered.
+ */
+
+import { db } from "@/lib/db"
+import { siteSettings } from "@/lib/db/schema"
+import { getSettingValue } from "@/lib/utils/settings-config"
+
+import { emailConfig } from "./resend"
+import { type EmailBranding } from "./templates"
+
+async function loadSettings(): Promise<Record<string, string>> {
+  try {
+    const rows = await db.select().from(siteSettings)
+    return Object.fromEntries(rows.map((row) => [row.key, row.value]))
+  } catch (error) {
+    console.error("Failed to load email branding settings:", error)
+    return {}
+  }
+}
+
+export async function getEmailBranding(): Promise<EmailBranding> {
+  const settings = await loadSettings()
+  const setting = (key: string) => getSettingValue(settings, key)
+
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"
+  const logo = setting("site_logo_url")
+
+  return {
+    siteName: setting("site_name"),
+    siteUrl,
+    // Uploaded logos are stored site-relative; mail clients need a full URL
+    logoUrl: logo ? (logo.startsWith("/") ? `${siteUrl}${logo}` : logo) : null,
+    supportEmail: setting("contact_email") || emailConfig.replyTo,
+    storeAddress: setting("store_address") || null,
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Order email data
+ *
+ * Loads an order into the shape the order notification templates expect.
+ * Callers are responsible for authorization.
+ */
+
+import { and, asc, eq, inArray, isNotNull, sql } from "drizzle-orm"
+
+import { getCrossSellRecommendations } from "@/lib/catalog/recommendations"
+import { db } from "@/lib/db"
+import {
+  orderItems,
+  orders,
+  productVariants,
+  shipmentItems,
+  shipments,
+} from "@/lib/db/schema"
+import {
+  CONFIRMATION_LINK_TTL,
+  createOrderAccessPath,
+} from "@/lib/orders/guest-access"
+import { getCarrierName } from "@/lib/utils/shipments"
+
+import { type OrderEmailData } from "./templates"
+
+export function formatPrice(amount: string | number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(typeof amount === "string" ? parseFloat(amount) : amount)
+}
+
+export async function getOrderEmailData(
+  orderId: string,
+): Promise<OrderEmailData | null> {
+  const order = await db.query.orders.findFirst({
+    where: eq(orders.id, orderId),
+  })
+
+  if (!order) return null
+
+  const items = await db
+    .select({
+      productName: orderItems.productName,
+      quantity: orderItems.quantity,
+      unitPrice: orderItems.unitPrice,
+    })
+    .from(orderItems)
+    .where(eq(orderItems.orderId, orderId))
+
+  // Bundle lines count as the bundle product
+  const orderedProducts = await db
+    .selectDistinct({ productId: productVariants.productId })
+    .from(orderItems)
+    .innerJoin(
+      productVariants,
+      eq(
+        productVariants.id,
+        sql`coalesce(${orderItems.bundleVariantId}, ${orderItems.variantId})`,
+      ),
+    )
+    .where(eq(orderItems.orderId, orderId))
+  const recommendations = await getCrossSellRecommendations(
+    orderedProducts.map((row) => row.productId),
+    3,
+  )
+
+  // Only parcels that have left the warehouse
+  const shippedParcels = await db
+    .select({
+      id: shipments.id,
+      carrier: shipments.carrier,
+      trackingNumber: shipments.trackingNumber,
+      trackingUrl: shipments.trackingUrl,
+    })
+    .from(shipments)
+    .where(and(eq(shipments.orderId, orderId), isNotNull(shipments.shippedAt)))
+    .orderBy(asc(shipments.shippedAt))
+
+  const parcels = shippedParcels.length
+    ? await db
+        .select({
+          shipmentId: shipmentItems.shipmentId,
+          name: orderItems.productName,
+          quantity: shipmentItems.quantity,
+        })
+        .from(shipmentItems)
+        .innerJoin(orderItems, eq(shipmentItems.orderItemId, orderItems.id))
+        .where(
+          inArray(
+            shipmentItems.shipmentId,
+            shippedParcels.map((parcel) => parcel.id),
+          ),
+        )
+    : []
+
+  const latest = shippedParcels[shippedParcels.length - 1]
+
+  return {
+    orderId: order.id,
+    userId: order.userId,
+    orderNumber: order.orderNumber,
+    customerName: order.customerName || "Customer",
+    customerEmail: order.customerEmail,
+    total: formatPrice(order.total),
+    items: items.map((item) => ({
+      name: item.productName,
+      quantity: item.quantity,
+      price: formatPrice(item.unitPrice),
+    })),
+    shippingAddress: order.shippingAddress as OrderEmailData["shippingAddress"],
+    trackingNumber: latest?.trackingNumber ?? undefined,
+    trackingUrl: latest?.trackingUrl ?? undefined,
+    shipments: shippedParcels.map((parcel) => ({
+      carrier: getCarrierName(parcel.carrier),
+      trackingNumber: parcel.trackingNumber,
+      trackingUrl: parcel.trackingUrl,
+      items: parcels
+        .filter((item) => item.shipmentId === parcel.id)
+        .map((item) => ({ name: item.name, quantity: item.quantity })),
+    })),
+    recommendations: recommendations.map((product) => ({
+      name: product.name,
+      path: `/products/${product.slug}`,
+      price: formatPrice(product.basePrice),
+    })),
+    // Guests have no account page, so they get a signed link
+    orderPath: order.userId
+      ? `/orders/${order.id}`
+      : createOrderAccessPath(order, CONFIRMATION_LINK_TTL),
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Email outbox
+ *
+ * Emails are rendered and stored in the outbox instead of being sent inline,
+ * so a slow or failing provider never holds up the request that sent them
+ * and a failed delivery is retried instead of lost. New messages are handed
+ * to the outbox worker once the response has gone out; retries and anything
+ * the worker didn't get to are picked up by `GET /api/cron/email-outbox`.
+ */
+
+import { after } from "next/server"
+
+import { eq } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { emailOutbox } from "@/lib/db/schema"
+import { processEmailOutbox } from "@/lib/jobs/email-outbox"
+
+export interface QueueEmailInput {
+  template: string
+  to: string
+  subject: string
+  html: string
+  text: string
+  replyTo?: string
+  // Links the message to the order's communications
+  orderId?: string
+  userId?: string
+}
+
+export async function queueEmail(input: QueueEmailInput): Promise<string> {
+  const [message] = await db
+    .insert(emailOutbox)
+    .values({
+      template: input.template,
+      recipient: input.to,
+      replyTo: input.replyTo,
+      subject: input.subject,
+      htmlBody: input.html,
+      textBody: input.text,
+      orderId: input.orderId,
+      userId: input.userId,
+    })
+    .returning({ id: emailOutbox.id })
+
+  await deliverSoon(message.id)
+  return message.id
+}
+
+/**
+ * Queue a copy of an earlier message, as it was rendered then. Returns null
+ * when the message doesn't exist or its body was redacted after sending.
+ * Callers are responsible for authorization.
+ */
+export async function resendEmail(
+  id: string,
+  requestedBy: string,
+): Promise<string | null> {
+  const original = await db.query.emailOutbox.findFirst({
+    where: eq(emailOutbox.id, id),
+  })
+
+  if (!original || !original.htmlBody) return null
+
+  const [message] = await db
+    .insert(emailOutbox)
+    .values({
+      template: original.template,
+      recipient: original.recipient,
+      replyTo: original.replyTo,
+      subject: original.subject,
+      htmlBody: original.htmlBody,
+      textBody: original.textBody,
+      orderId: original.orderId,
+      userId: original.userId,
+      resendOf: original.id,
+      requestedBy,
+    })
+    .returning({ id: emailOutbox.id })
+
+  await deliverSoon(message.id)
+  return message.id
+}
+
+async function deliverSoon(id: string) {
+  const deliver = () =>
+    processEmailOutbox({ ids: [id] })
+      .then(() => undefined)
+      .catch((error) => {
+        // Left queued for the cron route
+        console.error("Email outbox delivery failed:", error)
+      })
+
+  try {
+    after(deliver)
+  } catch {
+    // Outside a request (scripts), there is no response to wait for
+    await deliver()
+  }
+}
@@ -0,0 +1,224 @@
+import {
+  type EmailTemplateDefinition,
+  escapeHtml,
+  renderButton,
+  renderLayout,
+  renderNotice,
+  renderText,
+  siteLink,
+} from "./layout"
+
+export interface WelcomeData {
+  name: string
+}
+
+export interface StaffInvitationData {
+  name: string
+  email: string
+  temporaryPassword: string
+  role: string
+  invitedByName: string
+  loginUrl: string
+}
+
+export interface PasswordResetData {
+  name: string
+  url: string
+}
+
+export interface PasswordChangedData {
+  name: string
+  changedAt?: string // ISO date; defaults to when the email is rendered
+}
+
+export interface PasswordResetByAdminData {
+  name: string
+  temporaryPassword: string
+  loginUrl: string
+  adminName: string
+}
+
+export const welcomeEmail: EmailTemplateDefinition<WelcomeData> = {
+  name: "Welcome",
+  description: "Sent when a customer creates an account",
+  group: "Account",
+  sampleData: { name: "Jane Doe" },
+  render: (data, branding) => {
+    const shopUrl = siteLink(branding, "/products")
+
+    return {
+      subject: `Welcome to ${branding.siteName}!`,
+      html: renderLayout(branding, {
+        title: "Welcome",
+        heading: `Welcome to ${branding.siteName}!`,
+        body: `
+        <p>Hi ${escapeHtml(data.name)},</p>
+        <p>Thank you for joining ${escapeHtml(branding.siteName)}! We're excited to have you on board.</p>
+        <p>You can now:</p>
+        <ul>
+            <li>Save items to your favorites</li>
+            <li>Track all your orders in one place</li>
+            <li>Check out faster with saved addresses</li>
+            <li>Leave reviews for products you've purchased</li>
+        </ul>
+        ${renderButton(shopUrl, "Start Shopping")}`,
+      }),
+      text: renderText(branding, [
+        `Welcome to ${branding.siteName}!`,
+        `Hi ${data.name},`,
+        `Thank you for joining ${branding.siteName}! We're excited to have you on board.`,
+        `You can now:
+- Save items to your favorites
+- Track all your orders in one place
+- Check out faster with saved addresses
+- Leave reviews for products you've purchased`,
+        `Start shopping: ${shopUrl}`,
+      ]),
+    }
+  },
+}
+
+export const staffInvitationEmail: EmailTemplateDefinition<StaffInvitationData> =
+  {
+    name: "Staff Invitation",
+    description: "Sent to a new staff member with their temporary password",
+    group: "Account",
+    sampleData: {
+      name: "Alex Smith",
+      email: "alex@example.com",
+      temporaryPassword: "Temp-Pass-1234",
+      role: "manager",
+      invitedByName: "Store Admin",
+      loginUrl: "http://localhost:3000/auth/login",
+    },
+    render: (data, branding) => ({
+      subject: `You've been invited to join ${branding.siteName}`,
+      html: renderLayout(branding, {
+        title: "Staff Invitation",
+        heading: "You've Been Invited!",
+        accent: "#1e3a5f",
+        body: `
+        <p>Hi ${escapeHtml(data.name)},</p>
+        <p>${escapeHtml(data.invitedByName)} has invited you to join the ${escapeHtml(branding.siteName)} admin team as a <strong>${escapeHtml(data.role)}</strong>.</p>
+
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <h3 style="margin-top: 0; color: #1e3a5f;">Your Login Credentials</h3>
+            <p style="margin: 5px 0;"><strong>Email:</strong> ${escapeHtml(data.email)}</p>
+            <p style="margin: 5px 0;"><strong>Temporary Password:</strong> <code style="background: #e9ecef; padding: 4px 8px; border-radius: 4px;">${escapeHtml(data.temporaryPassword)}</code></p>
+        </div>
+        ${renderButton(data.loginUrl, "Login to Dashboard", "#1e3a5f")}
+        ${renderNotice("<strong>Important:</strong> You'll be required to change your password on first login. Please keep your new password secure and do not share it with anyone.", "warning")}
+        <p>If you didn't expect this invitation, please contact support.</p>`,
+      }),
+      text: renderText(branding, [
+        "You've Been Invited!",
+        `Hi ${data.name},`,
+        `${data.invitedByName} has invited you to join the ${branding.siteName} admin team as a ${data.role}.`,
+        `Email: ${data.email}
+Temporary Password: ${data.temporaryPassword}`,
+        `Login: ${data.loginUrl}`,
+        "You'll be required to change your password on first login.",
+      ]),
+    }),
+  }
+
+export const passwordResetEmail: EmailTemplateDefinition<PasswordResetData> = {
+  name: "Password Reset",
+  description: "Sent when someone asks to reset their password",
+  group: "Account",
+  sampleData: {
+    name: "Jane Doe",
+    url: "http://localhost:3000/auth/reset-password?token=sample",
+  },
+  render: (data, branding) => ({
+    subject: "Reset your password",
+    html: renderLayout(branding, {
+      title: "Reset Your Password",
+      heading: "Reset Your Password",
+      body: `
+        <p>Hi ${escapeHtml(data.name)},</p>
+        <p>We received a request to reset your password. Click the button below to create a new password:</p>
+        ${renderButton(data.url, "Reset Password")}
+        <p style="font-size: 14px; color: #666;">This link will expire in 1 hour for security reasons.</p>
+        <p style="font-size: 14px; color: #666;">If you didn't request a password reset, you can safely ignore this email. Your password will remain unchanged.</p>`,
+    }),
+    text: renderText(branding, [
+      "Reset Your Password",
+      `Hi ${data.name},`,
+      "We received a request to reset your password. Open this link to create a new password:",
+      data.url,
+      "This link will expire in 1 hour. If you didn't request a password reset, you can safely ignore this email.",
+    ]),
+  }),
+}
+
+export const passwordChangedEmail: EmailTemplateDefinition<PasswordChangedData> =
+  {
+    name: "Password Changed",
+    description: "Sent after a staff member changes their password",
+    group: "Account",
+    sampleData: { name: "Alex Smith" },
+    render: (data, branding) => {
+      const changedAt = data.changedAt ? new Date(data.changedAt) : new Date()
+      const when = `${changedAt.toLocaleDateString("en-US", { dateStyle: "long" })} at ${changedAt.toLocaleTimeString("en-US", { timeStyle: "short" })}`
+
+      return {
+        subject: "Your password has been changed",
+        html: renderLayout(branding, {
+          title: "Password Changed",
+          heading: "Password Changed",
+          accent: "#28a745",
+          body: `
+        <p>Hi ${escapeHtml(data.name)},</p>
+        <p>Your password has been successfully changed.</p>
+        ${renderNotice(`✓ Your account password was updated on ${when}.`, "success")}
+        <p style="font-size: 14px; color: #666;">If you did not make this change, please contact our support team immediately and secure your account.</p>`,
+        }),
+        text: renderText(branding, [
+          "Password Changed",
+          `Hi ${data.name},`,
+          `Your account password was updated on ${when}.`,
+          "If you did not make this change, please contact our support team immediately.",
+        ]),
+      }
+    },
+  }
+
+export const passwordResetByAdminEmail: EmailTemplateDefinition<PasswordResetByAdminData> =
+  {
+    name: "Password Reset by Admin",
+    description: "Sent when an admin resets a staff member's password",
+    group: "Account",
+    sampleData: {
+      name: "Alex Smith",
+      temporaryPassword: "Temp-Pass-5678",
+      loginUrl: "http://localhost:3000/auth/login",
+      adminName: "Store Admin",
+    },
+    render: (data, branding) => ({
+      subject: "Your password has been reset",
+      html: renderLayout(branding, {
+        title: "Password Reset",
+        heading: "Password Reset by Administrator",
+        accent: "#dc3545",
+        body: `
+        <p>Hi ${escapeHtml(data.name)},</p>
+        <p>Your password has been reset by ${escapeHtml(data.adminName)}. Here are your new login credentials:</p>
+
+        <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+            <p style="margin: 5px 0;"><strong>Temporary Password:</strong> <code style="background: #e9ecef; padding: 4px 8px; border-radius: 4px;">${escapeHtml(data.temporaryPassword)}</code></p>
+        </div>
+        ${renderButton(data.loginUrl, "Login Now")}
+        ${renderNotice("<strong>Important:</strong> You'll be required to change your password on your next login. Please choose a strong, unique password.", "warning")}
+        <p style="font-size: 14px; color: #666;">If you did not expect this password reset, please contact support immediately.</p>`,
+      }),
+      text: renderText(branding, [
+        "Password Reset by Administrator",
+        `Hi ${data.name},`,
+        `Your password has been reset by ${data.adminName}.`,
+        `Temporary Password: ${data.temporaryPassword}`,
+        `Login: ${data.loginUrl}`,
+        "You'll be required to change your password on your next login.",
+      ]),
+    }),
+  }
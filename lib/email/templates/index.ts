@@ -0,0 +1,125 @@
+/**
+ * Email template registry
+ *
+ * Every transactional email the store sends, keyed by template id. Each
+ * template renders a subject, HTML and plain text body from typed data and
+ * the store branding, and carries sample data for the admin preview
+ * gallery.
+ */
+
+import {
+  type PasswordChangedData,
+  passwordChangedEmail,
+  type PasswordResetByAdminData,
+  passwordResetByAdminEmail,
+  type PasswordResetData,
+  passwordResetEmail,
+  type StaffInvitationData,
+  staffInvitationEmail,
+  type WelcomeData,
+  welcomeEmail,
+} from "./account"
+import {
+  type EmailBranding,
+  type EmailTemplateDefinition,
+  type RenderedEmail,
+} from "./layout"
+import {
+  orderAccessEmail,
+  type OrderAccessEmailData,
+  orderCancelledEmail,
+  type OrderCancelledEmailData,
+  orderConfirmationEmail,
+  orderDeliveredEmail,
+  type OrderEmailData,
+  orderRefundedEmail,
+  type OrderRefundedEmailData,
+  orderShippedEmail,
+} from "./orders"
+import {
+  bankTransferApprovedEmail,
+  type BankTransferRejectedData,
+  bankTransferRejectedEmail,
+} from "./payments"
+import { type BackInStockData, backInStockEmail } from "./products"
+import { type ReviewApprovedData, reviewApprovedEmail } from "./reviews"
+
+export interface TemplateDataMap {
+  welcome: WelcomeData
+  "staff-invitation": StaffInvitationData
+  "password-reset": PasswordResetData
+  "password-changed": PasswordChangedData
+  "password-reset-by-admin": PasswordResetByAdminData
+  "order-confirmation": OrderEmailData
+  "order-shipped": OrderEmailData
+  "order-delivered": OrderEmailData
+  "order-cancelled": OrderCancelledEmailData
+  "order-refunded": OrderRefundedEmailData
+  "order-access": OrderAccessEmailData
+  "bank-transfer-approved": OrderEmailData
+  "bank-transfer-rejected": BankTransferRejectedData
+  "review-approved": ReviewApprovedData
+  "back-in-stock": BackInStockData
+}
+
+export type EmailTemplate = keyof TemplateDataMap
+
+export const emailTemplates: {
+  [T in EmailTemplate]: EmailTemplateDefinition<TemplateDataMap[T]>
+} = {
+  welcome: welcomeEmail,
+  "staff-invitation": staffInvitationEmail,
+  "password-reset": passwordResetEmail,
+  "password-changed": passwordChangedEmail,
+  "password-reset-by-admin": passwordResetByAdminEmail,
+  "order-confirmation": orderConfirmationEmail,
+  "order-shipped": orderShippedEmail,
+  "order-delivered": orderDeliveredEmail,
+  "order-cancelled": orderCancelledEmail,
+  "order-refunded": orderRefundedEmail,
+  "order-access": orderAccessEmail,
+  "bank-transfer-approved": bankTransferApprovedEmail,
+  "bank-transfer-rejected": bankTransferRejectedEmail,
+  "review-approved": reviewApprovedEmail,
+  "back-in-stock": backInStockEmail,
+}
+
+export function isEmailTemplate(value: string): value is EmailTemplate {
+  return Object.hasOwn(emailTemplates, value)
+}
+
+export function renderEmail<T extends EmailTemplate>(
+  template: T,
+  data: TemplateDataMap[T],
+  branding: EmailBranding,
+): RenderedEmail {
+  const definition = emailTemplates[template] as EmailTemplateDefinition<
+    TemplateDataMap[T]
+  >
+  return definition.render(data, branding)
+}
+
+/**
+ * Render a template with its sample data, for previews and test sends
+ */
+export function renderSampleEmail(
+  template: EmailTemplate,
+  branding: EmailBranding,
+): RenderedEmail {
+  const definition = emailTemplates[template] as EmailTemplateDefinition<
+    TemplateDataMap[typeof template]
+  >
+  return definition.render(definition.sampleData, branding)
+}
+
+export type {
+  BackInStockData,
+  BankTransferRejectedData,
+  EmailBranding,
+  OrderAccessEmailData,
+  OrderCancelledEmailData,
+  OrderEmailData,
+  OrderRefundedEmailData,
+  RenderedEmail,
+  ReviewApprovedData,
+}
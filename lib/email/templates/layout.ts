@@ -0,0 +1,172 @@
+/**
+ * Email layout
+ *
+ * The shell every transactional email is rendered into, plus the small
+ * helpers templates share. Branding comes from the store settings, so the
+ * name, logo and contact details match the storefront.
+ */
+
+export interface EmailBranding {
+  siteName: string
+  siteUrl: string
+  logoUrl: string | null
+  supportEmail: string
+  storeAddress: string | null
+}
+
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+}
+
+export type EmailTemplateGroup =
+  | "Account"
+  | "Orders"
+  | "Payments"
+  | "Reviews"
+  | "Products"
+
+export interface EmailTemplateDefinition<TData> {
+  name: string
+  description: string // When the email is sent
+  group: EmailTemplateGroup
+  sampleData: TData // Used by the admin preview gallery and test sends
+  render: (data: TData, branding: EmailBranding) => RenderedEmail
+}
+
+export interface EmailAddress {
+  recipientName: string
+  addressLine1: string
+  addressLine2?: string
+  city: string
+  state: string
+  postalCode: string
+  country: string
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+/**
+ * Absolute URL for a site-relative path
+ */
+export function siteLink(branding: EmailBranding, path: string): string {
+  return `${branding.siteUrl}${path}`
+}
+
+export function renderButton(
+  href: string,
+  label: string,
+  color = "#000",
+): string {
+  return `
+        <div style="text-align: center; margin: 30px 0;">
+            <a href="${escapeHtml(href)}" style="display: inline-block; background: ${color}; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: 600;">${escapeHtml(label)}</a>
+        </div>`
+}
+
+export function renderNotice(
+  html: string,
+  tone: "info" | "success" | "warning" = "info",
+): string {
+  const colors = {
+    info: { background: "#f8f9fa", border: "#6b7280" },
+    success: { background: "#d4edda", border: "#28a745" },
+    warning: { background: "#fff3cd", border: "#ffc107" },
+  }[tone]
+
+  return `
+        <div style="background: ${colors.background}; padding: 15px; border-radius: 8px; border-left: 4px solid ${colors.border}; margin: 20px 0;">
+            <p style="margin: 0; font-size: 14px;">${html}</p>
+        </div>`
+}
+
+export function renderAddress(title: string, address: EmailAddress): string {
+  return `
+    <div style="margin-bottom: 20px;">
+        <h3>${escapeHtml(title)}</h3>
+        <p style="margin: 0;">
+            ${escapeHtml(address.recipientName)}<br>
+            ${escapeHtml(address.addressLine1)}<br>
+            ${address.addressLine2 ? `${escapeHtml(address.addressLine2)}<br>` : ""}
+            ${escapeHtml(address.city)}, ${escapeHtml(address.state)} ${escapeHtml(address.postalCode)}<br>
+            ${escapeHtml(address.country)}
+        </p>
+    </div>`
+}
+
+export function formatAddressText(title: string, address: EmailAddress) {
+  return [
+    `${title}:`,
+    address.recipientName,
+    address.addressLine1,
+    address.addressLine2,
+    `${address.city}, ${address.state} ${address.postalCode}`,
+    address.country,
+  ]
+    .filter(Boolean)
+    .join("\n")
+}
+
+/**
+ * Wrap a template body in the branded document. `body` is trusted HTML;
+ * escape customer-supplied values before building it.
+ */
+export function renderLayout(
+  branding: EmailBranding,
+  options: { title: string; heading: string; accent?: string; body: string },
+): string {
+  const accent = options.accent ?? "#000"
+  const brand = branding.logoUrl
+    ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.siteName)}" style="max-height: 48px; max-width: 200px;">`
+    : `<h1 style="color: #000; margin: 0;">${escapeHtml(branding.siteName)}</h1>`
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(options.title)} - ${escapeHtml(branding.siteName)}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="text-align: center; margin-bottom: 30px;">
+        <a href="${escapeHtml(branding.siteUrl)}" style="text-decoration: none;">${brand}</a>
+    </div>
+
+    <div style="background: #f8f9fa; border-radius: 8px; padding: 30px; margin-bottom: 20px;">
+        <h2 style="margin-top: 0; color: ${accent};">${escapeHtml(options.heading)}</h2>
+        ${options.body}
+    </div>
+
+    <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; text-align: center; color: #666; font-size: 14px;">
+        <p>Questions? Contact us at ${escapeHtml(branding.supportEmail)}</p>
+        ${branding.storeAddress ? `<p>${escapeHtml(branding.storeAddress).replace(/\n/g, "<br>")}</p>` : ""}
+        <p>&copy; ${new Date().getFullYear()} ${escapeHtml(branding.siteName)}. All rights reserved.</p>
+    </div>
+</body>
+</html>
+    `.trim()
+}
+
+/**
+ * Join text sections with blank lines, dropping empty ones, and add the
+ * store footer
+ */
+export function renderText(
+  branding: EmailBranding,
+  sections: Array<string | false | null | undefined>,
+): string {
+  return [
+    ...sections.filter((section): section is string => !!section),
+    `Questions? Contact us at ${branding.supportEmail}`,
+    `${branding.siteName} - ${branding.siteUrl}`,
+  ].join("\n\n")
+}
@@ -0,0 +1,414 @@
+import {
+  type EmailAddress,
+  type EmailBranding,
+  type EmailTemplateDefinition,
+  escapeHtml,
+  formatAddressText,
+  renderAddress,
+  renderButton,
+  renderLayout,
+  renderNotice,
+  renderText,
+  siteLink,
+} from "./layout"
+
+export interface OrderEmailData {
+  // Not rendered; link the sent email to the order and its customer
+  orderId?: string
+  userId?: string | null
+  orderNumber: string
+  customerName: string
+  customerEmail: string
+  total: string
+  items: Array<{
+    name: string
+    quantity: number
+    price: string
+  }>
+  shippingAddress: EmailAddress | null
+  trackingNumber?: string
+  trackingUrl?: string
+  // Shipped parcels, when the order was sent in more than one
+  shipments?: Array<{
+    carrier: string | null
+    trackingNumber: string | null
+    trackingUrl: string | null
+    items: Array<{ name: string; quantity: number }>
+  }>
+  // Products to suggest with the order confirmation; `path` is site-relative
+  recommendations?: Array<{ name: string; path: string; price: string }>
+  // Site-relative link to the order; a signed guest link for guest orders
+  orderPath?: string
+}
+
+export interface OrderCancelledEmailData extends OrderEmailData {
+  reason?: string
+}
+
+export interface OrderRefundedEmailData extends OrderEmailData {
+  refundAmount: string
+  refundReason?: string
+  fullyRefunded: boolean
+}
+
+export interface OrderAccessEmailData {
+  orderId?: string
+  orderNumber: string
+  customerName: string
+  customerEmail: string
+  // Site-relative, signed guest link to the order
+  orderPath: string
+}
+
+export const sampleOrder: OrderEmailData = {
+  orderNumber: "ORD-SAMPLE-1234",
+  customerName: "Jane Doe",
+  customerEmail: "jane@example.com",
+  total: "$129.97",
+  items: [
+    { name: "Wireless Earbuds", quantity: 1, price: "$79.99" },
+    { name: "Silicone Phone Case", quantity: 2, price: "$24.99" },
+  ],
+  shippingAddress: {
+    recipientName: "Jane Doe",
+    addressLine1: "123 Main Street",
+    addressLine2: "Apt 4B",
+    city: "Springfield",
+    state: "IL",
+    postalCode: "62701",
+    country: "US",
+  },
+  trackingNumber: "1Z999AA10123456784",
+  trackingUrl: "https://www.ups.com/track?tracknum=1Z999AA10123456784",
+  shipments: [],
+  recommendations: [
+    { name: "Fast Wall Charger", path: "/products/sample", price: "$19.99" },
+  ],
+  orderPath: "/orders",
+}
+
+function orderLink(branding: EmailBranding, data: OrderEmailData) {
+  return siteLink(branding, data.orderPath ?? "/orders")
+}
+
+function renderOrderNumber(orderNumber: string): string {
+  return `
+        <div style="background: white; border-radius: 6px; padding: 20px; margin: 20px 0;">
+            <p style="margin: 0; color: #666;">Order Number</p>
+            <p style="margin: 5px 0; font-size: 20px; font-weight: bold; font-family: monospace;">${escapeHtml(orderNumber)}</p>
+        </div>`
+}
+
+function renderItems(data: OrderEmailData): string {
+  return `
+        <h3>Order Details</h3>
+        ${data.items
+          .map(
+            (item) => `
+            <div style="display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid #eee;">
+                <span>${escapeHtml(item.name)} × ${item.quantity}</span>
+                <span style="font-weight: 500;">${escapeHtml(item.price)}</span>
+            </div>`,
+          )
+          .join("")}
+        <div style="display: flex; justify-content: space-between; padding: 15px 0; font-size: 18px; font-weight: bold;">
+            <span>Total</span>
+            <span>${escapeHtml(data.total)}</span>
+        </div>`
+}
+
+function formatItemsText(data: OrderEmailData): string {
+  return `Order Details:
+${data.items.map((item) => `- ${item.name} x${item.quantity} - ${item.price}`).join("\n")}
+
+Total: ${data.total}`
+}
+
+export const orderConfirmationEmail: EmailTemplateDefinition<OrderEmailData> = {
+  name: "Order Confirmation",
+  description: "Sent when an order is placed",
+  group: "Orders",
+  sampleData: sampleOrder,
+  render: (data, branding) => {
+    const recommendations = data.recommendations ?? []
+    const url = orderLink(branding, data)
+
+    return {
+      subject: `Order Confirmed - ${data.orderNumber}`,
+      html: renderLayout(branding, {
+        title: "Order Confirmation",
+        heading: "✓ Order Confirmed",
+        accent: "#16a34a",
+        body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>Thank you for your order! We've received your order and will begin processing it shortly.</p>
+        ${renderOrderNumber(data.orderNumber)}
+        ${renderItems(data)}
+        ${data.shippingAddress ? renderAddress("Shipping Address", data.shippingAddress) : ""}
+        ${
+          recommendations.length > 0
+            ? `
+        <h3>You Might Also Like</h3>
+        ${recommendations
+          .map(
+            (product) => `
+            <div style="display: flex; justify-content: space-between; padding: 10px 0; border-bottom: 1px solid #eee;">
+                <a href="${escapeHtml(siteLink(branding, product.path))}" style="color: #000;">${escapeHtml(product.name)}</a>
+                <span style="font-weight: 500;">${escapeHtml(product.price)}</span>
+            </div>`,
+          )
+          .join("")}`
+            : ""
+        }
+        ${renderButton(url, "View Order Status")}`,
+      }),
+      text: renderText(branding, [
+        `Order Confirmed - ${data.orderNumber}`,
+        `Hi ${data.customerName},`,
+        "Thank you for your order! We've received your order and will begin processing it shortly.",
+        `Order Number: ${data.orderNumber}`,
+        formatItemsText(data),
+        data.shippingAddress &&
+          formatAddressText("Shipping Address", data.shippingAddress),
+        recommendations.length > 0 &&
+          `You Might Also Like:
+${recommendations.map((product) => `- ${product.name} - ${product.price}: ${siteLink(branding, product.path)}`).join("\n")}`,
+        `View your order: ${url}`,
+      ]),
+    }
+  },
+}
+
+export const orderShippedEmail: EmailTemplateDefinition<OrderEmailData> = {
+  name: "Order Shipped",
+  description: "Sent when an order or one of its parcels ships",
+  group: "Orders",
+  sampleData: sampleOrder,
+  render: (data, branding) => {
+    const parcels = data.shipments ?? []
+    const hasParcels = parcels.length > 1
+
+    return {
+      subject: `Your Order Has Shipped - ${data.orderNumber}`,
+      html: renderLayout(branding, {
+        title: "Order Shipped",
+        heading: "📦 Your Order is On Its Way!",
+        accent: "#7c3aed",
+        body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>Great news! Your order has been shipped and is on its way to you.</p>
+        ${renderOrderNumber(data.orderNumber)}
+        ${
+          data.trackingNumber && !hasParcels
+            ? `<p style="margin: 0; color: #666;">Tracking Number</p>
+        <p style="margin: 5px 0; font-size: 18px; font-weight: bold; font-family: monospace;">${escapeHtml(data.trackingNumber)}</p>`
+            : ""
+        }
+        ${
+          hasParcels
+            ? parcels
+                .map(
+                  (parcel, index) => `
+        <div style="background: white; border-radius: 6px; padding: 20px; margin: 10px 0;">
+            <p style="margin: 0; font-weight: bold;">Parcel ${index + 1} of ${parcels.length}${parcel.carrier ? ` · ${escapeHtml(parcel.carrier)}` : ""}</p>
+            ${parcel.trackingNumber ? `<p style="margin: 5px 0; font-family: monospace;">${escapeHtml(parcel.trackingNumber)}</p>` : ""}
+            <p style="margin: 5px 0; color: #666;">${parcel.items.map((item) => `${escapeHtml(item.name)} × ${item.quantity}`).join("<br>")}</p>
+            ${parcel.trackingUrl ? `<a href="${escapeHtml(parcel.trackingUrl)}" style="color: #7c3aed;">Track this parcel</a>` : ""}
+        </div>`,
+                )
+                .join("")
+            : ""
+        }
+        ${data.trackingUrl && !hasParcels ? renderButton(data.trackingUrl, "Track Your Package", "#7c3aed") : ""}
+        ${data.shippingAddress ? renderAddress("Delivering To", data.shippingAddress) : ""}`,
+      }),
+      text: renderText(branding, [
+        `Your Order Has Shipped - ${data.orderNumber}`,
+        `Hi ${data.customerName},`,
+        "Great news! Your order has been shipped and is on its way to you.",
+        `Order Number: ${data.orderNumber}`,
+        ...(hasParcels
+          ? parcels.map((parcel, index) =>
+              [
+                `Parcel ${index + 1} of ${parcels.length}${parcel.carrier ? ` (${parcel.carrier})` : ""}`,
+                ...parcel.items.map(
+                  (item) => `- ${item.name} x${item.quantity}`,
+                ),
+                parcel.trackingNumber &&
+                  `Tracking Number: ${parcel.trackingNumber}`,
+                parcel.trackingUrl &&
+                  `Track this parcel: ${parcel.trackingUrl}`,
+              ]
+                .filter(Boolean)
+                .join("\n"),
+            )
+          : [
+              data.trackingNumber && `Tracking Number: ${data.trackingNumber}`,
+              data.trackingUrl && `Track your package: ${data.trackingUrl}`,
+            ]),
+        data.shippingAddress &&
+          formatAddressText("Delivering To", data.shippingAddress),
+      ]),
+    }
+  },
+}
+
+export const orderDeliveredEmail: EmailTemplateDefinition<OrderEmailData> = {
+  name: "Order Delivered",
+  description: "Sent when an order is delivered, with a prompt to review",
+  group: "Orders",
+  sampleData: sampleOrder,
+  render: (data, branding) => {
+    const url = orderLink(branding, data)
+
+    return {
+      subject: `Order Delivered - ${data.orderNumber}`,
+      html: renderLayout(branding, {
+        title: "Order Delivered",
+        heading: "✓ Order Delivered!",
+        accent: "#16a34a",
+        body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>Your order has been delivered! We hope you love your purchase.</p>
+        ${renderOrderNumber(data.orderNumber)}
+        <div style="text-align: center; background: #fef3c7; border-radius: 8px; padding: 20px;">
+            <h3 style="margin-top: 0; color: #92400e;">⭐ Leave a Review</h3>
+            <p style="color: #92400e;">Your feedback helps other customers make informed decisions.</p>
+            ${renderButton(url, "Write a Review", "#f59e0b")}
+        </div>`,
+      }),
+      text: renderText(branding, [
+        `Order Delivered - ${data.orderNumber}`,
+        `Hi ${data.customerName},`,
+        "Your order has been delivered! We hope you love your purchase.",
+        `Order Number: ${data.orderNumber}`,
+        `Leave a Review
+Your feedback helps other customers make informed decisions.
+Write a review: ${url}`,
+      ]),
+    }
+  },
+}
+
+export const orderCancelledEmail: EmailTemplateDefinition<OrderCancelledEmailData> =
+  {
+    name: "Order Cancelled",
+    description:
+      "Sent when an order is cancelled by the customer, staff or for non-payment",
+    group: "Orders",
+    sampleData: { ...sampleOrder, reason: "Payment not received in time" },
+    render: (data, branding) => {
+      const url = orderLink(branding, data)
+
+      return {
+        subject: `Order Cancelled - ${data.orderNumber}`,
+        html: renderLayout(branding, {
+          title: "Order Cancelled",
+          heading: "Order Cancelled",
+          accent: "#dc2626",
+          body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>Your order has been cancelled.</p>
+        ${renderOrderNumber(data.orderNumber)}
+        ${data.reason ? renderNotice(`<strong>Reason:</strong> ${escapeHtml(data.reason)}`) : ""}
+        ${renderItems(data)}
+        <p>If you already paid, you'll get a separate email confirming your refund.</p>
+        ${renderButton(url, "View Order")}`,
+        }),
+        text: renderText(branding, [
+          `Order Cancelled - ${data.orderNumber}`,
+          `Hi ${data.customerName},`,
+          "Your order has been cancelled.",
+          `Order Number: ${data.orderNumber}`,
+          data.reason && `Reason: ${data.reason}`,
+          formatItemsText(data),
+          "If you already paid, you'll get a separate email confirming your refund.",
+          `View your order: ${url}`,
+        ]),
+      }
+    },
+  }
+
+export const orderRefundedEmail: EmailTemplateDefinition<OrderRefundedEmailData> =
+  {
+    name: "Refund Issued",
+    description: "Sent when a full or partial refund is issued for an order",
+    group: "Orders",
+    sampleData: {
+      ...sampleOrder,
+      refundAmount: "$24.99",
+      refundReason: "Item arrived damaged",
+      fullyRefunded: false,
+    },
+    render: (data, branding) => {
+      const url = orderLink(branding, data)
+      const summary = data.fullyRefunded
+        ? "Your order has been refunded in full."
+        : "We've issued a partial refund for your order."
+
+      return {
+        subject: `Refund Issued - ${data.orderNumber}`,
+        html: renderLayout(branding, {
+          title: "Refund Issued",
+          heading: "Refund Issued",
+          accent: "#2563eb",
+          body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>${summary}</p>
+        ${renderOrderNumber(data.orderNumber)}
+        <div style="background: white; border-radius: 6px; padding: 20px; margin: 20px 0;">
+            <p style="margin: 0; color: #666;">Refund Amount</p>
+            <p style="margin: 5px 0; font-size: 24px; font-weight: bold;">${escapeHtml(data.refundAmount)}</p>
+            ${data.refundReason ? `<p style="margin: 0; color: #666;">${escapeHtml(data.refundReason)}</p>` : ""}
+        </div>
+        <p style="font-size: 14px; color: #666;">Card refunds usually reach your account within 5-10 business days, depending on your bank.</p>
+        ${renderButton(url, "View Order")}`,
+        }),
+        text: renderText(branding, [
+          `Refund Issued - ${data.orderNumber}`,
+          `Hi ${data.customerName},`,
+          summary,
+          `Order Number: ${data.orderNumber}`,
+          `Refund Amount: ${data.refundAmount}`,
+          data.refundReason && `Reason: ${data.refundReason}`,
+          "Card refunds usually reach your account within 5-10 business days, depending on your bank.",
+          `View your order: ${url}`,
+        ]),
+      }
+    },
+  }
+
+export const orderAccessEmail: EmailTemplateDefinition<OrderAccessEmailData> = {
+  name: "Guest Order Link",
+  description: "Sent when a guest looks up their order",
+  group: "Orders",
+  sampleData: {
+    orderNumber: sampleOrder.orderNumber,
+    customerName: sampleOrder.customerName,
+    customerEmail: sampleOrder.customerEmail,
+    orderPath: "/orders/lookup",
+  },
+  render: (data, branding) => {
+    const url = siteLink(branding, data.orderPath)
+
+    return {
+      subject: `Your order link - ${data.orderNumber}`,
+      html: renderLayout(branding, {
+        title: "Your Order Link",
+        heading: "View Your Order",
+        body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>Someone, hopefully you, asked to look up order <strong style="font-family: monospace;">${escapeHtml(data.orderNumber)}</strong>. Use the button below to see its status and details.</p>
+        ${renderButton(url, "View Order")}
+        <p style="color: #666; font-size: 14px;">This link expires in 24 hours. If you didn't ask for it, you can ignore this email.</p>`,
+      }),
+      text: renderText(branding, [
+        `Your order link - ${data.orderNumber}`,
+        `Hi ${data.customerName},`,
+        `Someone, hopefully you, asked to look up order ${data.orderNumber}. Open this link to see its status and details:`,
+        url,
+        "This link expires in 24 hours. If you didn't ask for it, you can ignore this email.",
+      ]),
+    }
+  },
+}
@@ -0,0 +1,82 @@
+import {
+  type EmailTemplateDefinition,
+  escapeHtml,
+  renderButton,
+  renderLayout,
+  renderNotice,
+  renderText,
+  siteLink,
+} from "./layout"
+import { type OrderEmailData, sampleOrder } from "./orders"
+
+export interface BankTransferRejectedData extends OrderEmailData {
+  reason?: string
+}
+
+export const bankTransferApprovedEmail: EmailTemplateDefinition<OrderEmailData> =
+  {
+    name: "Bank Transfer Approved",
+    description: "Sent when staff verify a bank transfer payment",
+    group: "Payments",
+    sampleData: sampleOrder,
+    render: (data, branding) => {
+      const url = siteLink(branding, data.orderPath ?? "/orders")
+
+      return {
+        subject: `Payment Received - ${data.orderNumber}`,
+        html: renderLayout(branding, {
+          title: "Payment Received",
+          heading: "✓ Payment Received",
+          accent: "#16a34a",
+          body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>We've verified your bank transfer of <strong>${escapeHtml(data.total)}</strong> for order <strong style="font-family: monospace;">${escapeHtml(data.orderNumber)}</strong>. Your order is now being prepared.</p>
+        ${renderButton(url, "View Order Status")}`,
+        }),
+        text: renderText(branding, [
+          `Payment Received - ${data.orderNumber}`,
+          `Hi ${data.customerName},`,
+          `We've verified your bank transfer of ${data.total} for order ${data.orderNumber}. Your order is now being prepared.`,
+          `View your order: ${url}`,
+        ]),
+      }
+    },
+  }
+
+export const bankTransferRejectedEmail: EmailTemplateDefinition<BankTransferRejectedData> =
+  {
+    name: "Bank Transfer Rejected",
+    description:
+      "Sent when staff can't verify a bank transfer and the order is cancelled",
+    group: "Payments",
+    sampleData: {
+      ...sampleOrder,
+      reason: "The transfer amount did not match the order total",
+    },
+    render: (data, branding) => {
+      const shopUrl = siteLink(branding, "/products")
+
+      return {
+        subject: `Payment Not Verified - ${data.orderNumber}`,
+        html: renderLayout(branding, {
+          title: "Payment Not Verified",
+          heading: "We Couldn't Verify Your Payment",
+          accent: "#dc2626",
+          body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>We couldn't verify the bank transfer for order <strong style="font-family: monospace;">${escapeHtml(data.orderNumber)}</strong>, so the order has been cancelled.</p>
+        ${data.reason ? renderNotice(`<strong>Reason:</strong> ${escapeHtml(data.reason)}`, "warning") : ""}
+        <p>If you believe this is a mistake, reply to this email with your transfer receipt and we'll look into it. You're welcome to place the order again at any time.</p>
+        ${renderButton(shopUrl, "Continue Shopping")}`,
+        }),
+        text: renderText(branding, [
+          `Payment Not Verified - ${data.orderNumber}`,
+          `Hi ${data.customerName},`,
+          `We couldn't verify the bank transfer for order ${data.orderNumber}, so the order has been cancelled.`,
+          data.reason && `Reason: ${data.reason}`,
+          "If you believe this is a mistake, reply to this email with your transfer receipt and we'll look into it.",
+          `Continue shopping: ${shopUrl}`,
+        ]),
+      }
+    },
+  }
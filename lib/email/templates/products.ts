@@ -0,0 +1,58 @@
+import {
+  type EmailTemplateDefinition,
+  escapeHtml,
+  renderButton,
+  renderLayout,
+  renderText,
+  siteLink,
+} from "./layout"
+
+export interface BackInStockData {
+  customerName: string
+  productName: string
+  variantName: string | null // Null for products without options
+  productPath: string // Site-relative
+  price: string
+}
+
+export const backInStockEmail: EmailTemplateDefinition<BackInStockData> = {
+  name: "Back in Stock",
+  description: "Sent when a product a customer asked about is available again",
+  group: "Products",
+  sampleData: {
+    customerName: "Jane Doe",
+    productName: "Wireless Earbuds",
+    variantName: "Black",
+    productPath: "/products/sample",
+    price: "$49.99",
+  },
+  render: (data, branding) => {
+    const url = siteLink(branding, data.productPath)
+    const fullName = data.variantName
+      ? `${data.productName} (${data.variantName})`
+      : data.productName
+
+    return {
+      subject: `${data.productName} is back in stock`,
+      html: renderLayout(branding, {
+        title: "Back in Stock",
+        heading: "🎉 It's Back in Stock",
+        accent: "#10b981",
+        body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>Good news: <strong>${escapeHtml(fullName)}</strong> is available again. Stock can run out quickly, so don't wait too long.</p>
+        <div style="background: white; border-radius: 6px; padding: 20px; margin: 20px 0;">
+            <p style="margin: 0; font-weight: bold;">${escapeHtml(fullName)}</p>
+            <p style="margin: 5px 0 0; font-size: 18px; color: #10b981;">${escapeHtml(data.price)}</p>
+        </div>
+        ${renderButton(url, "Shop Now")}`,
+      }),
+      text: renderText(branding, [
+        `${data.productName} is back in stock`,
+        `Hi ${data.customerName},`,
+        `Good news: ${fullName} is available again at ${data.price}. Stock can run out quickly, so don't wait too long.`,
+        `Shop now: ${url}`,
+      ]),
+    }
+  },
+}
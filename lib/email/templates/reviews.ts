@@ -0,0 +1,58 @@
+import {
+  type EmailTemplateDefinition,
+  escapeHtml,
+  renderButton,
+  renderLayout,
+  renderText,
+  siteLink,
+} from "./layout"
+
+export interface ReviewApprovedData {
+  customerName: string
+  productName: string
+  productPath: string // Site-relative
+  rating: number
+  title: string | null
+}
+
+export const reviewApprovedEmail: EmailTemplateDefinition<ReviewApprovedData> =
+  {
+    name: "Review Approved",
+    description: "Sent when a customer's review is published",
+    group: "Reviews",
+    sampleData: {
+      customerName: "Jane Doe",
+      productName: "Wireless Earbuds",
+      productPath: "/products/sample",
+      rating: 5,
+      title: "Great sound for the price",
+    },
+    render: (data, branding) => {
+      const url = siteLink(branding, data.productPath)
+      const stars = "★".repeat(data.rating) + "☆".repeat(5 - data.rating)
+
+      return {
+        subject: `Your review of ${data.productName} is live`,
+        html: renderLayout(branding, {
+          title: "Review Published",
+          heading: "⭐ Your Review is Live",
+          accent: "#f59e0b",
+          body: `
+        <p>Hi ${escapeHtml(data.customerName)},</p>
+        <p>Thanks for sharing your thoughts on <strong>${escapeHtml(data.productName)}</strong>. Your review is now published and helps other customers choose.</p>
+        <div style="background: white; border-radius: 6px; padding: 20px; margin: 20px 0;">
+            <p style="margin: 0; color: #f59e0b; font-size: 20px;">${stars}</p>
+            ${data.title ? `<p style="margin: 5px 0; font-weight: bold;">${escapeHtml(data.title)}</p>` : ""}
+        </div>
+        ${renderButton(url, "See Your Review")}`,
+        }),
+        text: renderText(branding, [
+          `Your review of ${data.productName} is live`,
+          `Hi ${data.customerName},`,
+          `Thanks for sharing your thoughts on ${data.productName}. Your review is now published and helps other customers choose.`,
+          `${stars}${data.title ? ` ${data.title}` : ""}`,
+          `See your review: ${url}`,
+        ]),
+      }
+    },
+  }
@@ -0,0 +1,106 @@
+/**
+ * Email transport
+ *
+ * Delivers rendered emails through Resend. Without a RESEND_API_KEY, or
+ * with EMAIL_TRANSPORT=capture, mail goes to a local capture transport
+ * instead: each message is written to EMAIL_CAPTURE_DIR (default
+ * `.email-capture/`) as an HTML file and a JSON file with the headers and
+ * text body, so development and test sends can be inspected without a mail
+ * provider.
+ */
+
+import { mkdir, writeFile } from "fs/promises"
+import path from "path"
+
+import { emailConfig, isEmailConfigured, resend } from "./resend"
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+  replyTo?: string
+}
+
+export type DeliveryResult =
+  | { success: true; transport: "resend"; id: string | null }
+  | { success: true; transport: "capture"; file: string }
+  | { success: false; error: string }
+
+const CAPTURE_DIR =
+  process.env.EMAIL_CAPTURE_DIR || path.join(process.cwd(), ".email-capture")
+
+// Capture can be forced even when Resend is configured
+const useCapture =
+  process.env.EMAIL_TRANSPORT === "capture" || !isEmailConfigured
+
+async function captureEmail(message: EmailMessage): Promise<DeliveryResult> {
+  const sentAt = new Date()
+  const slug = message.subject
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 60)
+  const base = path.join(
+    CAPTURE_DIR,
+    `${sentAt.toISOString().replace(/[:.]/g, "-")}-${slug}`,
+  )
+
+  await mkdir(CAPTURE_DIR, { recursive: true })
+  await writeFile(`${base}.html`, message.html)
+  await writeFile(
+    `${base}.json`,
+    JSON.stringify(
+      {
+        from: emailConfig.from,
+        to: message.to,
+        replyTo: message.replyTo ?? emailConfig.replyTo,
+        subject: message.subject,
+        sentAt: sentAt.toISOString(),
+        text: message.text,
+      },
+      null,
+      2,
+    ),
+  )
+
+  console.log(`[Email - Capture] ${message.subject} → ${message.to}`)
+  return { success: true, transport: "capture", file: `${base}.html` }
+}
+
+export async function deliverEmail(
+  message: EmailMessage,
+): Promise<DeliveryResult> {
+  try {
+    if (useCapture) {
+      if (!isEmailConfigured && process.env.NODE_ENV === "production") {
+        console.warn(
+          "Email not configured (RESEND_API_KEY missing). Capturing email locally.",
+        )
+      }
+      return await captureEmail(message)
+    }
+
+    const { data, error } = await resend.emails.send({
+      from: emailConfig.from,
+      to: message.to,
+      replyTo: message.replyTo ?? emailConfig.replyTo,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    })
+
+    if (error) {
+      console.error("Failed to send email:", error)
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, transport: "resend", id: data?.id ?? null }
+  } catch (err) {
+    console.error("Email sending error:", err)
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown error",
+    }
+  }
+}
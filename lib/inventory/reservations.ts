@@ -0,0 +1,341 @@
+/**
+ * Inventory reservations
+ *
+ * Orders hold stock through `reserved` movements in the inventory ledger.
+ * A reservation ends when it is converted to a `sale` or `released`, so the
+ * stock an order still holds is derived from its movements. Every helper
+ * here works from that ledger, which makes them safe to call more than once
+ * (a webhook and the return URL may both report the same payment).
+ */
+
+import { and, eq, inArray, sql } from "drizzle-orm"
+
+import { type Database, db } from "@/lib/db"
+import {
+  inventoryItems,
+  inventoryMovements,
+  orderItems,
+  orders,
+  orderStatusHistory,
+} from "@/lib/db/schema"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+interface StockOptions {
+  notes: string
+  performedBy?: string | null
+}
+
+export type ReserveStockResult =
+  | { success: true; reservedUnits: number }
+  | { success: false; error: string }
+
+// Units an inventory item has on hand that no order is holding
+export const availableQuantity = sql<number>`${inventoryItems.quantity} - ${inventoryItems.reservedQuantity}`
+
+/**
+ * Reserved, sold and released units per inventory item for an order
+ */
+async function getOrderMovementTotals(
+  orderId: string,
+  executor: Database | Transaction,
+) {
+  const rows = await executor
+    .select({
+      inventoryItemId: inventoryMovements.inventoryItemId,
+      // Reserved and sold units are recorded as negative quantities,
+      // released units as positive ones
+      reserved: sql<number>`-SUM(CASE WHEN ${inventoryMovements.type} = 'reserved' THEN ${inventoryMovements.quantity} ELSE 0 END)::int`,
+      sold: sql<number>`-SUM(CASE WHEN ${inventoryMovements.type} = 'sale' THEN ${inventoryMovements.quantity} ELSE 0 END)::int`,
+      released: sql<number>`SUM(CASE WHEN ${inventoryMovements.type} = 'released' THEN ${inventoryMovements.quantity} ELSE 0 END)::int`,
+    })
+    .from(inventoryMovements)
+    .where(
+      and(
+        eq(inventoryMovements.referenceType, "order"),
+        eq(inventoryMovements.referenceId, orderId),
+        inArray(inventoryMovements.type, ["reserved", "sale", "released"]),
+      ),
+    )
+    .groupBy(inventoryMovements.inventoryItemId)
+
+  return new Map(
+    rows.map((row) => [
+      row.inventoryItemId,
+      {
+        sold: row.sold,
+        held: Math.max(0, row.reserved - row.sold - row.released),
+      },
+    ]),
+  )
+}
+
+/**
+ * Ordered units per inventory item, sorted by id so concurrent orders
+ * lock inventory rows in the same order
+ */
+async function getOrderStockLines(orderId: string, tx: Transaction) {
+  const items = await tx
+    .select({
+      inventoryItemId: inventoryItems.id,
+      productName: orderItems.productName,
+      variantName: orderItems.variantName,
+      quantity: orderItems.quantity,
+    })
+    .from(orderItems)
+    .innerJoin(
+      inventoryItems,
+      eq(inventoryItems.variantId, orderItems.variantId),
+    )
+    .where(eq(orderItems.orderId, orderId))
+
+  const lines = new Map<
+    string,
+    { inventoryItemId: string; label: string; quantity: number }
+  >()
+
+  for (const item of items) {
+    const line = lines.get(item.inventoryItemId)
+    if (line) {
+      line.quantity += item.quantity
+    } else {
+      lines.set(item.inventoryItemId, {
+        inventoryItemId: item.inventoryItemId,
+        label: item.variantName
+          ? `${item.productName} (${item.variantName})`
+          : item.productName,
+        quantity: item.quantity,
+      })
+    }
+  }
+
+  return [...lines.values()].sort((a, b) =>
+    a.inventoryItemId.localeCompare(b.inventoryItemId),
+  )
+}
+
+/**
+ * Units per inventory item an order still holds in reserve
+ */
+export async function getOutstandingReservations(
+  orderId: string,
+  executor: Database | Transaction = db,
+): Promise<Map<string, number>> {
+  const totals = await getOrderMovementTotals(orderId, executor)
+
+  return new Map(
+    [...totals]
+      .filter(([, total]) => total.held > 0)
+      .map(([inventoryItemId, total]) => [inventoryItemId, total.held]),
+  )
+}
+
+/**
+ * Hold stock for every unsold unit of an order that is not already held.
+ * Writes nothing when any line is short of available stock.
+ */
+export async function reserveOrderStock(
+  tx: Transaction,
+  orderId: string,
+  options: StockOptions,
+): Promise<ReserveStockResult> {
+  const lines = await getOrderStockLines(orderId, tx)
+  const totals = await getOrderMovementTotals(orderId, tx)
+  const holds: Array<{
+    inventory: typeof inventoryItems.$inferSelect
+    needed: number
+  }> = []
+
+  // Lock and check every line before writing anything
+  for (const line of lines) {
+    const total = totals.get(line.inventoryItemId)
+    const needed = line.quantity - (total?.sold ?? 0) - (total?.held ?? 0)
+
+    if (needed <= 0) continue
+
+    const [inventory] = await tx
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.id, line.inventoryItemId))
+      .for("update")
+
+    const available = inventory.quantity - inventory.reservedQuantity
+
+    if (available < needed) {
+      return {
+        success: false,
+        error:
+          available <= 0
+            ? `${line.label} is out of stock`
+            : `${line.label}: only ${available} available`,
+      }
+    }
+
+    holds.push({ inventory, needed })
+  }
+
+  let reservedUnits = 0
+
+  for (const { inventory, needed } of holds) {
+    const newReserved = inventory.reservedQuantity + needed
+
+    await tx
+      .update(inventoryItems)
+      .set({ reservedQuantity: newReserved, updatedAt: new Date() })
+      .where(eq(inventoryItems.id, inventory.id))
+
+    // Quantities track available stock
+    await tx.insert(inventoryMovements).values({
+      inventoryItemId: inventory.id,
+      type: "reserved",
+      quantity: -needed,
+      previousQuantity: inventory.quantity - inventory.reservedQuantity,
+      newQuantity: inventory.quantity - newReserved,
+      referenceType: "order",
+      referenceId: orderId,
+      notes: options.notes,
+      performedBy: options.performedBy ?? null,
+    })
+
+    reservedUnits += needed
+  }
+
+  return { success: true, reservedUnits }
+}
+
+/**
+ * Convert an order's reservation into a sale once it is paid. Units that
+ * were released in the meantime are sold from available stock; whatever
+ * that cannot cover is left unsold and flagged on the order for staff, so
+ * other orders' reservations are never eaten into. Calling this again
+ * after a restock sells the rest.
+ */
+export async function commitOrderStock(
+  tx: Transaction,
+  orderId: string,
+  options: StockOptions,
+): Promise<number> {
+  const lines = await getOrderStockLines(orderId, tx)
+  const totals = await getOrderMovementTotals(orderId, tx)
+  const shortages: string[] = []
+  let soldUnits = 0
+
+  for (const line of lines) {
+    const total = totals.get(line.inventoryItemId)
+    const unsold = line.quantity - (total?.sold ?? 0)
+
+    if (unsold <= 0) continue
+
+    const [inventory] = await tx
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.id, line.inventoryItemId))
+      .for("update")
+
+    const held = Math.min(total?.held ?? 0, unsold, inventory.reservedQuantity)
+    const available = Math.max(
+      0,
+      inventory.quantity - inventory.reservedQuantity,
+    )
+    const toSell = held + Math.min(unsold - held, available)
+
+    if (toSell < unsold) {
+      shortages.push(`${line.label} (${unsold - toSell} short)`)
+    }
+    if (toSell <= 0) continue
+
+    const newQuantity = inventory.quantity - toSell
+    const newReserved = inventory.reservedQuantity - held
+
+    await tx
+      .update(inventoryItems)
+      .set({
+        quantity: newQuantity,
+        reservedQuantity: newReserved,
+        updatedAt: new Date(),
+      })
+      .where(eq(inventoryItems.id, inventory.id))
+
+    await tx.insert(inventoryMovements).values({
+      inventoryItemId: inventory.id,
+      type: "sale",
+      quantity: -toSell,
+      previousQuantity: inventory.quantity,
+      newQuantity,
+      referenceType: "order",
+      referenceId: orderId,
+      notes: options.notes,
+      performedBy: options.performedBy ?? null,
+    })
+
+    soldUnits += toSell
+  }
+
+  if (shortages.length > 0) {
+    const [order] = await tx
+      .select({ status: orders.status })
+      .from(orders)
+      .where(eq(orders.id, orderId))
+
+    if (order) {
+      await tx.insert(orderStatusHistory).values({
+        orderId,
+        fromStatus: order.status,
+        toStatus: order.status,
+        notes: `Not enough stock to fulfil: ${shortages.join(", ")} - restock or contact the customer`,
+        changedBy: options.performedBy ?? null,
+      })
+    }
+  }
+
+  return soldUnits
+}
+
+/**
+ * Return everything an order still holds in reserve to available stock.
+ * Safe to call more than once; already released units are skipped.
+ */
+export async function releaseOrderReservations(
+  tx: Transaction,
+  orderId: string,
+  options: StockOptions,
+): Promise<number> {
+  const outstanding = await getOutstandingReservations(orderId, tx)
+  let released = 0
+
+  const sorted = [...outstanding].sort(([a], [b]) => a.localeCompare(b))
+
+  for (const [inventoryItemId, quantity] of sorted) {
+    const [inventory] = await tx
+      .select()
+      .from(inventoryItems)
+      .where(eq(inventoryItems.id, inventoryItemId))
+      .for("update")
+
+    if (!inventory) continue
+
+    const newReserved = Math.max(0, inventory.reservedQuantity - quantity)
+
+    await tx
+      .update(inventoryItems)
+      .set({ reservedQuantity: newReserved, updatedAt: new Date() })
+      .where(eq(inventoryItems.id, inventory.id))
+
+    // Quantities track available stock, matching the reserved movement
+    await tx.insert(inventoryMovements).values({
+      inventoryItemId: inventory.id,
+      type: "released",
+      quantity,
+      previousQuantity: inventory.quantity - inventory.reservedQuantity,
+      newQuantity: inventory.quantity - newReserved,
+      referenceType: "order",
+      referenceId: orderId,
+      notes: options.notes,
+      performedBy: options.performedBy ?? null,
+    })
+
+    released += quantity
+  }
+
+  return released
+}
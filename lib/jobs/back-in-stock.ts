@@ -0,0 +1,118 @@
+/**
+ * Back in stock alerts
+ *
+ * Sends pending stock alerts for variants that have stock available again
+ * and marks them as sent, so each alert fires once. Only active variants of
+ * active products are announced; alerts for anything else wait. Runs after
+ * stock adjustments and from the cron route (which covers released
+ * reservations and restocked returns), so it must not depend on a request
+ * context.
+ */
+
+import { and, eq, inArray, isNull, sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import {
+  inventoryItems,
+  products,
+  productVariants,
+  stockAlerts,
+  user,
+} from "@/lib/db/schema"
+import { availableQuantity } from "@/lib/inventory/reservations"
+import { notifyCustomer } from "@/lib/notifications/notify"
+import { formatCurrency } from "@/lib/utils"
+import { DEFAULT_VARIANT_NAME } from "@/lib/utils/variants"
+
+export async function sendBackInStockAlerts({
+  variantIds,
+  limit = 200,
+}: {
+  variantIds?: string[]
+  limit?: number
+} = {}): Promise<{ notified: number }> {
+  const claimed = await db.transaction(async (tx) => {
+    // Locked so overlapping runs send each alert once
+    const due = await tx
+      .select({ id: stockAlerts.id })
+      .from(stockAlerts)
+      .innerJoin(
+        inventoryItems,
+        eq(inventoryItems.variantId, stockAlerts.variantId),
+      )
+      .innerJoin(productVariants, eq(productVariants.id, stockAlerts.variantId))
+      .innerJoin(products, eq(products.id, productVariants.productId))
+      .where(
+        and(
+          isNull(stockAlerts.notifiedAt),
+          sql`${availableQuantity} > 0`,
+          eq(productVariants.isActive, true),
+          eq(products.status, "active"),
+          variantIds ? inArray(stockAlerts.variantId, variantIds) : undefined,
+        ),
+      )
+      .limit(limit)
+      .for("update", { of: stockAlerts, skipLocked: true })
+
+    if (due.length === 0) return []
+
+    await tx
+      .update(stockAlerts)
+      .set({ notifiedAt: new Date() })
+      .where(
+        inArray(
+          stockAlerts.id,
+          due.map((alert) => alert.id),
+        ),
+      )
+
+    return due.map((alert) => alert.id)
+  })
+
+  if (claimed.length === 0) return { notified: 0 }
+
+  const alerts = await db
+    .select({
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      productName: products.name,
+      productSlug: products.slug,
+      variantName: productVariants.name,
+      price: productVariants.price,
+    })
+    .from(stockAlerts)
+    .innerJoin(user, eq(user.id, stockAlerts.userId))
+    .innerJoin(productVariants, eq(productVariants.id, stockAlerts.variantId))
+    .innerJoin(products, eq(products.id, productVariants.productId))
+    .where(inArray(stockAlerts.id, claimed))
+
+  for (const alert of alerts) {
+    const productPath = `/products/${alert.productSlug}`
+    const variantName =
+      alert.variantName === DEFAULT_VARIANT_NAME ? null : alert.variantName
+
+    await notifyCustomer({
+      event: "back_in_stock",
+      userId: alert.userId,
+      email: {
+        to: alert.email,
+        template: "back-in-stock",
+        data: {
+          customerName: alert.name,
+          productName: alert.productName,
+          variantName,
+          productPath,
+          price: formatCurrency(parseFloat(alert.price)),
+        },
+      },
+      inApp: {
+        title: `${alert.productName} is back in stock`,
+        body: variantName ?? undefined,
+        href: productPath,
+      },
+    })
+  }
+
+  return { notified: alerts.length }
+}
@@ -0,0 +1,216 @@
+/**
+ * Stale order cancellation
+ *
+ * Cancels draft and pending-payment orders older than the
+ * `auto_cancel_pending_orders_hours` setting, releases the stock and
+ * promotion uses they hold, expires their pending payments and emails the
+ * customer. Runs from the cron route and the CLI script, so it must not
+ * depend on a request context.
+ */
+
+import { and, eq, exists, inArray, lt } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import {
+  bankTransferProofs,
+  orders,
+  orderStatusHistory,
+  payments,
+  siteSettings,
+} from "@/lib/db/schema"
+import { getOrderEmailData } from "@/lib/email/order-email-data"
+import { sendOrderCancelledEmail } from "@/lib/email/order-notifications"
+import { releaseOrderReservations } from "@/lib/inventory/reservations"
+import { releaseOrderPromotion } from "@/lib/orders/promotions"
+import { isValidTransition } from "@/lib/utils/order-status"
+import { getSettingValue } from "@/lib/utils/settings-config"
+
+const STALE_ORDER_STATUSES = ["draft", "pending_payment"] as const
+
+// Payments that have not settled yet
+const OPEN_PAYMENT_STATUSES = ["pending", "processing"] as const
+
+export interface CancelStaleOrdersOptions {
+  now?: Date
+  hours?: number // Overrides the store setting
+  limit?: number
+  dryRun?: boolean
+}
+
+export interface CancelStaleOrdersResult {
+  hours: number
+  cutoff: Date
+  cancelled: Array<{
+    orderId: string
+    orderNumber: string
+    releasedUnits: number
+    expiredPayments: number
+  }>
+  skipped: number
+}
+
+async function getAutoCancelHours(): Promise<number> {
+  const [setting] = await db
+    .select({ value: siteSettings.value })
+    .from(siteSettings)
+    .where(eq(siteSettings.key, "auto_cancel_pending_orders_hours"))
+    .limit(1)
+
+  const value = setting
+    ? setting.value
+    : getSettingValue({}, "auto_cancel_pending_orders_hours")
+
+  return parseFloat(value) || 0
+}
+
+// Email failures never stop the job; the order is already cancelled
+async function notifyCustomer(orderId: string, hours: number) {
+  try {
+    const orderData = await getOrderEmailData(orderId)
+    if (orderData) {
+      await sendOrderCancelledEmail({
+        ...orderData,
+        reason: `Payment was not received within ${hours} hours`,
+      })
+    }
+  } catch (error) {
+    console.error("Failed to send order cancelled email:", error)
+  }
+}
+
+/**
+ * Cancel every order that has waited for payment longer than allowed.
+ * A window of 0 hours disables the job.
+ */
+export async function cancelStaleOrders(
+  options: CancelStaleOrdersOptions = {},
+): Promise<CancelStaleOrdersResult> {
+  const now = options.now ?? new Date()
+  const hours = options.hours ?? (await getAutoCancelHours())
+  const cutoff = new Date(now.getTime() - hours * 60 * 60 * 1000)
+  const result: CancelStaleOrdersResult = {
+    hours,
+    cutoff,
+    cancelled: [],
+    skipped: 0,
+  }
+
+  if (hours <= 0) {
+    return result
+  }
+
+  const candidates = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(
+      and(
+        inArray(orders.status, [...STALE_ORDER_STATUSES]),
+        lt(orders.createdAt, cutoff),
+      ),
+    )
+    .orderBy(orders.createdAt)
+    .limit(options.limit ?? 500)
+
+  for (const candidate of candidates) {
+    const cancelled = await db.transaction(async (tx) => {
+      // Re-check under lock: a payment may have landed since the scan
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, candidate.id))
+        .for("update")
+
+      if (
+        !order ||
+        order.createdAt >= cutoff ||
+        !isValidTransition(order.status, "cancelled") ||
+        !(STALE_ORDER_STATUSES as readonly string[]).includes(order.status)
+      ) {
+        return null
+      }
+
+      // Bank transfers with an uploaded proof wait for staff verification
+      const [awaitingVerification] = await tx
+        .select({ id: payments.id })
+        .from(payments)
+        .where(
+          and(
+            eq(payments.orderId, order.id),
+            eq(payments.status, "pending"),
+            exists(
+              tx
+                .select({ id: bankTransferProofs.id })
+                .from(bankTransferProofs)
+                .where(eq(bankTransferProofs.paymentId, payments.id)),
+            ),
+          ),
+        )
+        .limit(1)
+
+      if (awaitingVerification) {
+        return null
+      }
+
+      if (options.dryRun) {
+        return {
+          orderId: order.id,
+          orderNumber: order.orderNumber,
+          releasedUnits: 0,
+          expiredPayments: 0,
+        }
+      }
+
+      await tx
+        .update(orders)
+        .set({ status: "cancelled", updatedAt: now })
+        .where(eq(orders.id, order.id))
+
+      // No changedBy: the system made this change
+      await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: "cancelled",
+        notes: `Automatically cancelled: payment not received within ${hours} hours`,
+        changedBy: null,
+      })
+
+      const releasedUnits = await releaseOrderReservations(tx, order.id, {
+        notes: `Released - Order ${order.orderNumber} expired`,
+      })
+      await releaseOrderPromotion(tx, order.id)
+
+      const expired = await tx
+        .update(payments)
+        .set({
+          status: "cancelled",
+          failureReason: "Payment window expired",
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(payments.orderId, order.id),
+            inArray(payments.status, [...OPEN_PAYMENT_STATUSES]),
+          ),
+        )
+        .returning({ id: payments.id })
+
+      return {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        releasedUnits,
+        expiredPayments: expired.length,
+      }
+    })
+
+    if (cancelled) {
+      result.cancelled.push(cancelled)
+      if (!options.dryRun) {
+        await notifyCustomer(cancelled.orderId, hours)
+      }
+    } else {
+      result.skipped++
+    }
+  }
+
+  return result
+}
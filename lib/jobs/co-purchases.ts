@@ -0,0 +1,75 @@
+/**
+ * Co-purchase refresh
+ *
+ * Rebuilds `product_co_purchases` from paid orders: for every product, the
+ * products most often bought in the same order. Bundle lines count as the
+ * bundle product. Runs from the cron route, so it must not depend on a
+ * request context.
+ */
+
+import { sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import {
+  orderItems,
+  orders,
+  productCoPurchases,
+  productVariants,
+} from "@/lib/db/schema"
+import { PAID_ORDER_STATUSES } from "@/lib/utils/order-status"
+
+// Orders older than this no longer shape recommendations
+const CO_PURCHASE_WINDOW_DAYS = 365
+
+// Pairs kept per product; pages show far fewer
+const MAX_PAIRS_PER_PRODUCT = 20
+
+export async function refreshCoPurchases(
+  now: Date = new Date(),
+): Promise<{ pairs: number }> {
+  const since = new Date(
+    now.getTime() - CO_PURCHASE_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  )
+  const statuses = sql.join(
+    PAID_ORDER_STATUSES.map((status) => sql`${status}`),
+    sql`, `,
+  )
+
+  return db.transaction(async (tx) => {
+    // Serialize runs; a second one waits and rebuilds from fresh data
+    await tx.execute(
+      sql`lock table ${productCoPurchases} in share row exclusive mode`,
+    )
+    await tx.delete(productCoPurchases)
+
+    const inserted = await tx.execute(sql`
+      with order_products as (
+        select distinct ${orderItems.orderId} as order_id,
+          ${productVariants.productId} as product_id
+        from ${orderItems}
+        inner join ${orders} on ${orders.id} = ${orderItems.orderId}
+        inner join ${productVariants} on ${productVariants.id} =
+          coalesce(${orderItems.bundleVariantId}, ${orderItems.variantId})
+        where ${orders.status} in (${statuses})
+          and ${orders.createdAt} >= ${since}
+      )
+      insert into ${productCoPurchases}
+        (product_id, related_product_id, order_count, refreshed_at)
+      select product_id, related_product_id, order_count, ${now}
+      from (
+        select a.product_id, b.product_id as related_product_id,
+          count(*)::int as order_count,
+          row_number() over (
+            partition by a.product_id order by count(*) desc, b.product_id
+          ) as rank
+        from order_products a
+        inner join order_products b
+          on b.order_id = a.order_id and b.product_id <> a.product_id
+        group by a.product_id, b.product_id
+      ) ranked
+      where rank <= ${MAX_PAIRS_PER_PRODUCT}
+    `)
+
+    return { pairs: inserted.count ?? 0 }
+  })
+}
@@ -0,0 +1,30 @@
+/**
+ * Cron route authentication
+ *
+ * Scheduled jobs authenticate with a shared secret, which Vercel Cron sends
+ * as a bearer token. Without a `CRON_SECRET` every request is refused.
+ */
+
+import { NextResponse } from "next/server"
+
+import crypto from "crypto"
+
+/**
+ * A 401 response when the request does not carry the cron secret, or null
+ * when the job may run
+ */
+export function verifyCronRequest(request: Request): NextResponse | null {
+  const secret = process.env.CRON_SECRET
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get("authorization") ?? "")
+
+  if (
+    !secret ||
+    received.length !== expected.length ||
+    !crypto.timingSafeEqual(received, expected)
+  ) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  return null
+}
@@ -0,0 +1,145 @@
+/**
+ * Email outbox worker
+ *
+ * Claims due messages from the email outbox, delivers them and records the
+ * outcome. A failed attempt is retried with backoff until the message's
+ * attempts are used up, then marked failed. Messages left in `sending` by a
+ * worker that died mid-attempt are claimed again after a few minutes.
+ * Bodies carrying credentials or reset links are cleared once delivered.
+ *
+ * Runs after the request that queued a message and from the cron route, so
+ * it must not depend on a request context.
+ */
+
+import { and, asc, eq, inArray, lte, or, sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { emailOutbox } from "@/lib/db/schema"
+import { deliverEmail } from "@/lib/email/transport"
+
+// Wait before each retry; the last delay repeats
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120]
+const STALE_SENDING_MINUTES = 10
+
+// Not kept (or resendable) once delivered
+export const REDACTED_TEMPLATES = [
+  "staff-invitation",
+  "password-reset",
+  "password-reset-by-admin",
+]
+
+export interface EmailOutboxRun {
+  sent: number
+  retrying: number
+  failed: number
+}
+
+export async function processEmailOutbox({
+  ids,
+  limit = 50,
+  now = new Date(),
+}: {
+  // Only these messages, whether or not their retry is due
+  ids?: string[]
+  limit?: number
+  now?: Date
+} = {}): Promise<EmailOutboxRun> {
+  const staleBefore = new Date(now.getTime() - STALE_SENDING_MINUTES * 60_000)
+
+  const claimed = await db.transaction(async (tx) => {
+    // Locked so overlapping workers never deliver a message twice
+    const due = await tx
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(
+        ids
+          ? and(inArray(emailOutbox.id, ids), eq(emailOutbox.status, "queued"))
+          : or(
+              and(
+                eq(emailOutbox.status, "queued"),
+                lte(emailOutbox.nextAttemptAt, now),
+              ),
+              and(
+                eq(emailOutbox.status, "sending"),
+                lte(emailOutbox.lastAttemptAt, staleBefore),
+              ),
+            ),
+      )
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true })
+
+    if (due.length === 0) return []
+
+    return tx
+      .update(emailOutbox)
+      .set({
+        status: "sending",
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        lastAttemptAt: now,
+      })
+      .where(
+        inArray(
+          emailOutbox.id,
+          due.map((message) => message.id),
+        ),
+      )
+      .returning()
+  })
+
+  const run: EmailOutboxRun = { sent: 0, retrying: 0, failed: 0 }
+
+  for (const message of claimed) {
+    const result = await deliverEmail({
+      to: message.recipient,
+      subject: message.subject,
+      html: message.htmlBody,
+      text: message.textBody,
+      replyTo: message.replyTo ?? undefined,
+    })
+
+    if (result.success) {
+      await db
+        .update(emailOutbox)
+        .set({
+          status: "sent",
+          transport: result.transport,
+          providerMessageId:
+            result.transport === "resend" ? result.id : result.file,
+          lastError: null,
+          sentAt: new Date(),
+          ...(REDACTED_TEMPLATES.includes(message.template)
+            ? { htmlBody: "", textBody: "" }
+            : {}),
+        })
+        .where(eq(emailOutbox.id, message.id))
+      run.sent++
+      continue
+    }
+
+    if (message.attempts >= message.maxAttempts) {
+      await db
+        .update(emailOutbox)
+        .set({ status: "failed", lastError: result.error })
+        .where(eq(emailOutbox.id, message.id))
+      run.failed++
+      continue
+    }
+
+    const delay =
+      RETRY_DELAYS_MINUTES[
+        Math.min(message.attempts, RETRY_DELAYS_MINUTES.length) - 1
+      ]
+    await db
+      .update(emailOutbox)
+      .set({
+        status: "queued",
+        lastError: result.error,
+        nextAttemptAt: new Date(Date.now() + delay * 60_000),
+      })
+      .where(eq(emailOutbox.id, message.id))
+    run.retrying++
+  }
+
+  return run
+}
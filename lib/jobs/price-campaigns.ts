@@ -0,0 +1,71 @@
+/**
+ * Price campaign transitions
+ *
+ * Finds price campaigns that started or ended since storefront caches last
+ * picked them up and marks them as picked up, so the cron route can
+ * revalidate cached listings once per transition. Runs from the cron route,
+ * so it must not depend on a request context.
+ */
+
+import { and, eq, gt, inArray, lte, or } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { priceCampaigns } from "@/lib/db/schema"
+
+export interface PriceCampaignTransitions {
+  started: Array<{ id: string; name: string }>
+  ended: Array<{ id: string; name: string }>
+}
+
+export async function collectPriceCampaignTransitions(
+  now: Date = new Date(),
+): Promise<PriceCampaignTransitions> {
+  return db.transaction(async (tx) => {
+    // Locked so overlapping runs report each transition once
+    const due = await tx
+      .select({
+        id: priceCampaigns.id,
+        name: priceCampaigns.name,
+        endsAt: priceCampaigns.endsAt,
+      })
+      .from(priceCampaigns)
+      .where(
+        and(
+          eq(priceCampaigns.isActive, true),
+          or(
+            and(
+              lte(priceCampaigns.startsAt, now),
+              gt(priceCampaigns.startsAt, priceCampaigns.cachesRefreshedAt),
+            ),
+            and(
+              lte(priceCampaigns.endsAt, now),
+              gt(priceCampaigns.endsAt, priceCampaigns.cachesRefreshedAt),
+            ),
+          ),
+        ),
+      )
+      .for("update", { skipLocked: true })
+
+    if (due.length > 0) {
+      await tx
+        .update(priceCampaigns)
+        .set({ cachesRefreshedAt: now })
+        .where(
+          inArray(
+            priceCampaigns.id,
+            due.map((campaign) => campaign.id),
+          ),
+        )
+    }
+
+    const summary = ({ id, name }: { id: string; name: string }) => ({
+      id,
+      name,
+    })
+
+    return {
+      started: due.filter((c) => c.endsAt > now).map(summary),
+      ended: due.filter((c) => c.endsAt <= now).map(summary),
+    }
+  })
+}
@@ -0,0 +1,89 @@
+/**
+ * Customer notifications
+ *
+ * Sends an event to a customer by email and to their in-app notification
+ * center, as their notification preferences allow. Guests have no
+ * preferences or notification center, so they get the email only.
+ * Account emails (welcome, password) are not optional and are sent with
+ * `sendEmail` directly.
+ */
+
+import { eq } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { customerProfiles, notifications } from "@/lib/db/schema"
+import { sendEmail } from "@/lib/email/send"
+import { type EmailTemplate, type TemplateDataMap } from "@/lib/email/templates"
+import {
+  isNotificationEnabled,
+  type NotificationEvent,
+  type NotificationPreferences,
+} from "@/lib/utils/notifications"
+
+export interface CustomerNotification<T extends EmailTemplate> {
+  event: NotificationEvent
+  userId: string | null | undefined
+  email?: {
+    to: string
+    template: T
+    data: TemplateDataMap[T]
+    orderId?: string
+  }
+  inApp?: {
+    title: string
+    body?: string
+    // Site-relative link
+    href?: string
+  }
+}
+
+export async function getNotificationPreferences(
+  userId: string,
+): Promise<NotificationPreferences> {
+  const [profile] = await db
+    .select({ preferences: customerProfiles.notificationPreferences })
+    .from(customerProfiles)
+    .where(eq(customerProfiles.userId, userId))
+    .limit(1)
+
+  return (profile?.preferences ?? {}) as NotificationPreferences
+}
+
+/**
+ * Returns whether the email was queued. Never throws; failures are logged.
+ */
+export async function notifyCustomer<T extends EmailTemplate>(
+  notification: CustomerNotification<T>,
+): Promise<boolean> {
+  const { event, userId, email, inApp } = notification
+
+  try {
+    const preferences = userId ? await getNotificationPreferences(userId) : {}
+
+    if (userId && inApp && isNotificationEnabled(preferences, event, "inApp")) {
+      await db.insert(notifications).values({
+        userId,
+        event,
+        title: inApp.title,
+        body: inApp.body,
+        href: inApp.href,
+      })
+    }
+
+    if (email && isNotificationEnabled(preferences, event, "email")) {
+      const result = await sendEmail({
+        to: email.to,
+        template: email.template,
+        data: email.data,
+        orderId: email.orderId,
+        userId: userId ?? undefined,
+      })
+      return result.success
+    }
+
+    return false
+  } catch (error) {
+    console.error(`Failed to send ${event} notification:`, error)
+    return false
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Guest order access
+ *
+ * Guests have no account to see their orders in, so they get signed,
+ * expiring links instead: one in the order confirmation email, and one on
+ * request from the order lookup page. A link is signed with the order's
+ * email, so whoever holds it has shown they read that inbox. Guest orders
+ * move into an account once its owner proves the same email.
+ */
+
+import crypto from "crypto"
+import { and, eq, isNull, sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { orders, user } from "@/lib/db/schema"
+
+// Links in the order confirmation email; long enough to follow a delivery
+export const CONFIRMATION_LINK_TTL = 90 * 24 * 60 * 60 * 1000
+// Links requested from the order lookup page
+export const LOOKUP_LINK_TTL = 24 * 60 * 60 * 1000
+
+function getSigningSecret(): string {
+  const secret = process.env.BETTER_AUTH_SECRET
+  if (!secret) {
+    throw new Error("BETTER_AUTH_SECRET is required to sign order links")
+  }
+  return secret
+}
+
+function sign(orderId: string, expiresAt: number, email: string): string {
+  return crypto
+    .createHmac("sha256", getSigningSecret())
+    .update(`order-access:${orderId}:${expiresAt}:${email.toLowerCase()}`)
+    .digest("base64url")
+}
+
+/**
+ * Site-relative path of the guest page for an order, valid for `ttl` ms.
+ */
+export function createOrderAccessPath(
+  order: { id: string; customerEmail: string },
+  ttl: number,
+  now = new Date(),
+): string {
+  const expiresAt = now.getTime() + ttl
+  const signature = sign(order.id, expiresAt, order.customerEmail)
+  return `/orders/guest/${order.id}.${expiresAt.toString(36)}.${signature}`
+}
+
+/**
+ * The order a guest link grants access to, or null when the link is
+ * malformed, expired or was not signed for the order's email.
+ */
+export async function getOrderByAccessToken(token: string, now = new Date()) {
+  const [orderId, expiry, signature] = token.split(".")
+  const expiresAt = parseInt(expiry ?? "", 36)
+  if (
+    !orderId ||
+    !signature ||
+    !/^[0-9a-f-]{36}$/i.test(orderId) ||
+    !Number.isFinite(expiresAt) ||
+    expiresAt < now.getTime()
+  ) {
+    return null
+  }
+
+  const order = await db.query.orders.findFirst({
+    where: eq(orders.id, orderId),
+  })
+  if (!order) return null
+
+  const expected = Buffer.from(sign(order.id, expiresAt, order.customerEmail))
+  const received = Buffer.from(signature)
+  if (
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    return null
+  }
+
+  return order
+}
+
+/**
+ * Attach every guest order placed with `email` to a user. Only call this
+ * once the user has proven they own the email. Returns how many orders
+ * were claimed.
+ */
+export async function claimGuestOrders(
+  userId: string,
+  email: string,
+): Promise<number> {
+  const claimed = await db
+    .update(orders)
+    .set({ userId, updatedAt: new Date() })
+    .where(
+      and(
+        isNull(orders.userId),
+        sql`lower(${orders.customerEmail}) = ${email.toLowerCase()}`,
+      ),
+    )
+    .returning({ id: orders.id })
+
+  return claimed.length
+}
+
+/**
+ * Claim guest orders for a user whose email is verified; called when they
+ * sign in or verify their email. Failures are logged, never thrown, so
+ * signing in always works.
+ */
+export async function claimGuestOrdersForUser(userId: string): Promise<void> {
+  try {
+    const [owner] = await db
+      .select({ email: user.email, emailVerified: user.emailVerified })
+      .from(user)
+      .where(eq(user.id, userId))
+      .limit(1)
+
+    if (owner?.emailVerified) {
+      await claimGuestOrders(userId, owner.email)
+    }
+  } catch (error) {
+    console.error("Failed to claim guest orders:", error)
+  }
+}
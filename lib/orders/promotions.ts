@@ -0,0 +1,48 @@
+/**
+ * Order promotion redemptions
+ *
+ * Checkout records a redemption and counts a use of the code when the order
+ * is created, so usage limits hold while the order waits for payment. An
+ * order that is cancelled gives its use back, so an unpaid order never
+ * burns a single-use or per-customer code. Its redemption is kept, marked
+ * released, so the code stays attributed to the order.
+ */
+
+import { and, eq, isNull, sql } from "drizzle-orm"
+
+import { type Database } from "@/lib/db"
+import { promotionRedemptions, promotions } from "@/lib/db/schema"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+/**
+ * Release an order's redemptions and return their uses to the promotions.
+ * Safe to call more than once; released redemptions are skipped.
+ */
+export async function releaseOrderPromotion(
+  tx: Transaction,
+  orderId: string,
+): Promise<number> {
+  const released = await tx
+    .update(promotionRedemptions)
+    .set({ releasedAt: new Date() })
+    .where(
+      and(
+        eq(promotionRedemptions.orderId, orderId),
+        isNull(promotionRedemptions.releasedAt),
+      ),
+    )
+    .returning({ promotionId: promotionRedemptions.promotionId })
+
+  for (const { promotionId } of released) {
+    await tx
+      .update(promotions)
+      .set({
+        usageCount: sql`GREATEST(${promotions.usageCount} - 1, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(promotions.id, promotionId))
+  }
+
+  return released.length
+}
@@ -0,0 +1,220 @@
+/**
+ * Card payment settlement
+ *
+ * Applies the state a gateway reports for a payment to our payment and
+ * order records. The return-URL check and every provider's webhook go
+ * through here, so a payment settles once, whichever arrives first.
+ */
+
+import { and, eq } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { orders, orderStatusHistory, payments } from "@/lib/db/schema"
+import {
+  commitOrderStock,
+  releaseOrderReservations,
+} from "@/lib/inventory/reservations"
+import { notifyCustomer } from "@/lib/notifications/notify"
+import { isValidTransition } from "@/lib/utils/order-status"
+
+import { type GatewayPayment, type PaymentProvider } from "./types"
+
+// Payments in these states are final and ignore further gateway updates
+const SETTLED_STATUSES = ["completed", "refunded"]
+
+// Failed and expired attempts still accept a late capture, so money taken
+// is on record even when events arrive out of order
+const CLOSED_STATUSES = ["failed", "cancelled"]
+
+export type SettlementResult =
+  | "completed"
+  | "failed"
+  | "pending"
+  | "already_settled"
+
+function parseMetadata(metadata: string | null): Record<string, unknown> {
+  try {
+    return metadata ? JSON.parse(metadata) : {}
+  } catch {
+    return {}
+  }
+}
+
+export async function settleCardPayment(
+  paymentId: string,
+  provider: PaymentProvider,
+  gateway: GatewayPayment,
+  options: { changedBy?: string | null; source: "return" | "webhook" },
+): Promise<SettlementResult> {
+  const settlement = await db.transaction(async (tx) => {
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(eq(payments.id, paymentId))
+      .for("update")
+
+    if (
+      !payment ||
+      SETTLED_STATUSES.includes(payment.status) ||
+      (CLOSED_STATUSES.includes(payment.status) &&
+        gateway.status !== "completed")
+    ) {
+      return { result: "already_settled" as const }
+    }
+
+    if (gateway.status === "pending") {
+      await tx
+        .update(payments)
+        .set({ externalStatus: gateway.externalStatus, updatedAt: new Date() })
+        .where(eq(payments.id, payment.id))
+      return { result: "pending" as const }
+    }
+
+    const [order] = await tx
+      .select({
+        id: orders.id,
+        status: orders.status,
+        orderNumber: orders.orderNumber,
+        userId: orders.userId,
+      })
+      .from(orders)
+      .where(eq(orders.id, payment.orderId))
+      .for("update")
+
+    if (gateway.status === "completed") {
+      // A gateway transaction is applied once, whichever payment reports it
+      if (gateway.transactionId && payment.provider) {
+        const [captured] = await tx
+          .select({ id: payments.id })
+          .from(payments)
+          .where(
+            and(
+              eq(payments.provider, payment.provider),
+              eq(payments.transactionId, gateway.transactionId),
+            ),
+          )
+          .limit(1)
+
+        if (captured) {
+          console.warn(
+            `Transaction ${gateway.transactionId} already settled payment ${captured.id}`,
+          )
+          return { result: "already_settled" as const }
+        }
+      }
+
+      await tx
+        .update(payments)
+        .set({
+          status: "completed",
+          externalStatus: gateway.externalStatus,
+          transactionId: gateway.transactionId || null,
+          processedAt: gateway.paidAt ?? new Date(),
+          metadata: JSON.stringify({
+            ...parseMetadata(payment.metadata),
+            transactionId: gateway.transactionId,
+            cardLast4: gateway.cardLast4,
+            cardBrand: gateway.cardBrand,
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(payments.id, payment.id))
+
+      if (!isValidTransition(order.status, "paid")) {
+        console.warn(
+          `Payment ${payment.id} captured for order ${order.id} in status ${order.status}`,
+        )
+        await tx.insert(orderStatusHistory).values({
+          orderId: order.id,
+          fromStatus: order.status,
+          toStatus: order.status,
+          notes: `Card payment received via ${provider.name} after the order was ${order.status} - refund required`,
+          changedBy: options.changedBy ?? null,
+        })
+        return { result: "completed" as const }
+      }
+
+      const card =
+        gateway.cardBrand && gateway.cardLast4
+          ? ` (${gateway.cardBrand} ****${gateway.cardLast4})`
+          : ""
+
+      await tx
+        .update(orders)
+        .set({ status: "paid", updatedAt: new Date() })
+        .where(eq(orders.id, order.id))
+
+      await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        fromStatus: order.status,
+        toStatus: "paid",
+        notes: `Payment completed via ${provider.name}${card}`,
+        changedBy: options.changedBy ?? null,
+      })
+
+      // Convert reserved inventory to sold
+      await commitOrderStock(tx, order.id, {
+        notes:
+          options.source === "webhook"
+            ? "Sold - Payment webhook confirmed"
+            : "Sold - Order payment completed",
+        performedBy: options.changedBy ?? null,
+      })
+
+      return { result: "completed" as const, paidOrder: order }
+    }
+
+    // Failed or cancelled attempts; the customer may retry
+    await tx
+      .update(payments)
+      .set({
+        status: "failed",
+        externalStatus: gateway.externalStatus,
+        failureReason:
+          gateway.failureReason ||
+          (gateway.status === "cancelled"
+            ? "Payment cancelled by user"
+            : "Payment declined"),
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, payment.id))
+
+    // Free the stock for other customers; a retry reserves it again
+    await releaseOrderReservations(tx, order.id, {
+      notes:
+        gateway.status === "cancelled"
+          ? "Released - Payment cancelled"
+          : "Released - Payment failed",
+    })
+
+    if (order.status === "pending_payment") {
+      await tx.insert(orderStatusHistory).values({
+        orderId: order.id,
+        fromStatus: "pending_payment",
+        toStatus: "pending_payment",
+        notes:
+          gateway.status === "cancelled"
+            ? "Payment cancelled by customer"
+            : "Payment attempt failed - customer may retry",
+        changedBy: options.changedBy ?? null,
+      })
+    }
+
+    return { result: "failed" as const }
+  })
+
+  // Customers hear about the payment once it is on record
+  if (settlement.paidOrder) {
+    const { id, orderNumber, userId } = settlement.paidOrder
+    await notifyCustomer({
+      event: "payment",
+      userId,
+      inApp: {
+        title: `Payment received for order ${orderNumber}`,
+        href: `/orders/${id}`,
+      },
+    })
+  }
+
+  return settlement.result
+}
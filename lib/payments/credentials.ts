@@ -0,0 +1,26 @@
+/**
+ * Gateway credentials
+ *
+ * The test credentials the mock gateways accept are published in this
+ * repo, so they only stand in for unset variables outside production. In
+ * production a missing credential stays empty and the provider refuses to
+ * make requests or accept webhooks.
+ */
+
+export function gatewayCredential(
+  value: string | undefined,
+  testValue: string,
+): string {
+  if (value) return value
+  return process.env.NODE_ENV === "production" ? "" : testValue
+}
+
+/**
+ * Throws when a credential is missing, naming the variable to set
+ */
+export function requireCredential(value: string, variable: string): string {
+  if (!value) {
+    throw new Error(`${variable} is not set`)
+  }
+  return value
+}
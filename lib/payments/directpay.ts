@@ -0,0 +1,240 @@
+/**
+ * DirectPay IPG provider
+ *
+ * Server-to-server calls and webhook handling for the DirectPay gateway.
+ * Run `node scripts/mock-ipg.js` for a local mock.
+ */
+
+import crypto from "crypto"
+
+import { gatewayCredential, requireCredential } from "./credentials"
+import { type GatewayPaymentStatus, type PaymentProvider } from "./types"
+
+export const DIRECTPAY_CONFIG = {
+  baseUrl: process.env.DIRECTPAY_API_URL || "http://localhost:3001",
+  merchantId: gatewayCredential(
+    process.env.DIRECTPAY_MERCHANT_ID,
+    "MERCHANT_TEST",
+  ),
+  apiKey: gatewayCredential(process.env.DIRECTPAY_API_KEY, "test_api_key"),
+  secretKey: gatewayCredential(
+    process.env.DIRECTPAY_SECRET_KEY,
+    "test_secret_key",
+  ),
+  webhookSecret: gatewayCredential(
+    process.env.DIRECTPAY_WEBHOOK_SECRET,
+    "test_webhook_secret",
+  ),
+}
+
+interface WebhookPayload {
+  event: "payment.completed" | "payment.failed" | "payment.cancelled"
+  sessionId: string
+  transactionId?: string
+  orderId: string
+  amount: number
+  currency: string
+  status: string
+  timestamp?: string
+  paidAt?: string
+  cardLast4?: string
+  cardBrand?: string
+}
+
+const WEBHOOK_EVENTS: Record<WebhookPayload["event"], GatewayPaymentStatus> = {
+  "payment.completed": "completed",
+  "payment.failed": "failed",
+  "payment.cancelled": "cancelled",
+}
+
+type DirectPayResponse<T> =
+  | ({ success: true } & T)
+  | { success: false; error?: string }
+
+async function directPayRequest<T>(
+  path: string,
+  body: Record<string, unknown>,
+): Promise<DirectPayResponse<T>> {
+  const response = await fetch(`${DIRECTPAY_CONFIG.baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-API-Key": requireCredential(
+        DIRECTPAY_CONFIG.apiKey,
+        "DIRECTPAY_API_KEY",
+      ),
+    },
+    body: JSON.stringify(body),
+  })
+
+  return response.json()
+}
+
+function toStatus(status: string): GatewayPaymentStatus {
+  return status === "completed" || status === "refunded"
+    ? "completed"
+    : status === "failed" || status === "cancelled"
+      ? status
+      : "pending"
+}
+
+// X-Webhook-Signature: hex HMAC-SHA256 of the raw body with the webhook secret
+function verifySignature(payload: string, signature: string): boolean {
+  if (!DIRECTPAY_CONFIG.webhookSecret) {
+    console.error("DIRECTPAY_WEBHOOK_SECRET is not set; rejecting webhook")
+    return false
+  }
+
+  const expected = crypto
+    .createHmac("sha256", DIRECTPAY_CONFIG.webhookSecret)
+    .update(payload)
+    .digest("hex")
+
+  return (
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  )
+}
+
+export const directPayProvider: PaymentProvider = {
+  id: "directpay",
+  name: "DirectPay",
+  webhookPath: "/api/payment/webhook",
+
+  async initiatePayment(request) {
+    try {
+      const data = await directPayRequest<{
+        sessionId: string
+        paymentUrl: string
+      }>("/api/v1/payment/initiate", {
+        merchantId: DIRECTPAY_CONFIG.merchantId,
+        amount: request.amount,
+        currency: request.currency,
+        orderId: request.orderNumber,
+        description: request.description,
+        customerEmail: request.customer.email,
+        customerPhone: request.customer.phone || "",
+        customerName: request.customer.name || "",
+        returnUrl: request.returnUrl,
+        cancelUrl: request.cancelUrl,
+        notifyUrl: request.notifyUrl,
+      })
+
+      if (!data.success) {
+        return {
+          success: false,
+          error: data.error || "Failed to initiate payment",
+        }
+      }
+
+      return {
+        success: true,
+        externalId: data.sessionId,
+        paymentUrl: data.paymentUrl,
+      }
+    } catch (error) {
+      console.error("DirectPay initiate request failed:", error)
+      return { success: false, error: "Could not reach the payment gateway" }
+    }
+  },
+
+  async verifyPayment(externalId) {
+    try {
+      const data = await directPayRequest<{
+        status: string
+        transactionId: string | null
+        paidAt: string | null
+        cardBrand: string | null
+        cardLast4: string | null
+      }>("/api/v1/payment/verify", { sessionId: externalId })
+
+      if (!data.success) {
+        return { success: false, error: data.error || "Verification failed" }
+      }
+
+      return {
+        success: true,
+        externalId,
+        status: toStatus(data.status),
+        externalStatus: data.status,
+        transactionId: data.transactionId,
+        paidAt: data.paidAt ? new Date(data.paidAt) : null,
+        cardBrand: data.cardBrand,
+        cardLast4: data.cardLast4,
+        failureReason:
+          data.status === "cancelled"
+            ? "Payment cancelled by user"
+            : data.status === "failed"
+              ? "Payment declined"
+              : null,
+      }
+    } catch (error) {
+      console.error("DirectPay verify request failed:", error)
+      return { success: false, error: "Could not reach the payment gateway" }
+    }
+  },
+
+  async refundPayment(request) {
+    try {
+      const data = await directPayRequest<{
+        refundId: string
+        status: string
+      }>("/api/v1/payment/refund", {
+        merchantId: DIRECTPAY_CONFIG.merchantId,
+        sessionId: request.externalId,
+        amount: request.amount,
+        reason: request.reason || "",
+        reference: request.reference,
+      })
+
+      if (!data.success) {
+        return { success: false, error: data.error || "Refund was declined" }
+      }
+
+      return { success: true, refundId: data.refundId, status: data.status }
+    } catch (error) {
+      console.error("DirectPay refund request failed:", error)
+      return { success: false, error: "Could not reach the payment gateway" }
+    }
+  },
+
+  verifyWebhook(body, headers) {
+    return verifySignature(body, headers.get("x-webhook-signature") || "")
+  },
+
+  parseWebhook(body) {
+    let data: WebhookPayload
+    try {
+      data = JSON.parse(body)
+    } catch {
+      return null
+    }
+
+    const status = WEBHOOK_EVENTS[data.event]
+    if (!status || !data.sessionId) {
+      return { eventId: null, eventType: String(data.event), payment: null }
+    }
+
+    const timestamp = data.paidAt || data.timestamp
+
+    return {
+      eventId: null,
+      eventType: data.event,
+      payment: {
+        externalId: data.sessionId,
+        status,
+        externalStatus: status === "cancelled" ? "cancelled" : data.status,
+        transactionId: data.transactionId,
+        paidAt: timestamp ? new Date(timestamp) : null,
+        cardBrand: data.cardBrand,
+        cardLast4: data.cardLast4,
+        failureReason:
+          status === "failed"
+            ? "Payment declined by payment provider"
+            : status === "cancelled"
+              ? "Payment cancelled by user"
+              : null,
+      },
+    }
+  },
+}
@@ -0,0 +1,57 @@
+/**
+ * Payment provider registry
+ *
+ * The card gateway used for new payments is chosen with the
+ * `card_payment_provider` setting. Existing payments keep the provider
+ * they were created with, so refunds and late webhooks still reach it.
+ */
+
+import { eq } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { siteSettings } from "@/lib/db/schema"
+import { getSettingValue } from "@/lib/utils/settings-config"
+
+import { directPayProvider } from "./directpay"
+import { stripeProvider } from "./stripe"
+import { type PaymentProvider, type PaymentProviderId } from "./types"
+
+const PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  directpay: directPayProvider,
+  stripe: stripeProvider,
+}
+
+const DEFAULT_PROVIDER: PaymentProviderId = "directpay"
+
+export function isPaymentProviderId(id: string): id is PaymentProviderId {
+  return Object.hasOwn(PROVIDERS, id)
+}
+
+/**
+ * Provider that handled an existing payment.
+ */
+export function getPaymentProvider(id: string | null): PaymentProvider | null {
+  return id && isPaymentProviderId(id) ? PROVIDERS[id] : null
+}
+
+/**
+ * Provider to use for new card payments.
+ */
+export async function getActivePaymentProvider(): Promise<PaymentProvider> {
+  const [setting] = await db
+    .select({ value: siteSettings.value })
+    .from(siteSettings)
+    .where(eq(siteSettings.key, "card_payment_provider"))
+    .limit(1)
+
+  const value = setting
+    ? setting.value
+    : getSettingValue({}, "card_payment_provider")
+
+  if (!isPaymentProviderId(value)) {
+    console.error(`Unknown card payment provider "${value}", using default`)
+    return PROVIDERS[DEFAULT_PROVIDER]
+  }
+
+  return PROVIDERS[value]
+}
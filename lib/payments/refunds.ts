@@ -0,0 +1,468 @@
+/**
+ * Refund processing
+ *
+ * Issues full or partial refunds against a completed payment. Card payments
+ * are refunded through the gateway; bank transfer and COD refunds are
+ * recorded as manual refunds. The customer is emailed once a refund
+ * completes. Callers are responsible for authorization.
+ */
+
+import { and, desc, eq, inArray, sql } from "drizzle-orm"
+
+import { logActivity } from "@/lib/actions/activity-log"
+import { type Database, db } from "@/lib/db"
+import {
+  inventoryItems,
+  inventoryMovements,
+  orderItems,
+  orders,
+  orderStatusHistory,
+  payments,
+  refundItems,
+  refunds,
+} from "@/lib/db/schema"
+import { formatPrice, getOrderEmailData } from "@/lib/email/order-email-data"
+import { sendOrderRefundedEmail } from "@/lib/email/order-notifications"
+import { isValidTransition } from "@/lib/utils/order-status"
+import { calculateLineRefund } from "@/lib/utils/refunds"
+
+import { getPaymentProvider } from "./providers"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+export interface RefundRequest {
+  orderId: string
+  items?: Array<{ orderItemId: string; quantity: number }>
+  fullRefund?: boolean // Refund every remaining line and the full balance
+  amount?: number | null // Overrides the calculated amount
+  reason?: string | null
+  restock: boolean
+  keepOrderStatus?: boolean // The caller updates the order status itself
+  performedBy: string | null
+}
+
+export type RefundResult =
+  | {
+      success: true
+      refundId: string
+      amount: number
+      fullyRefunded: boolean
+    }
+  | { success: false; error: string }
+
+// Refunds that count against the balance (failed attempts do not)
+const ACTIVE_REFUND_STATUSES = ["pending", "completed"] as const
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * The completed payment refunds are issued against, if any
+ */
+export async function getRefundablePayment(
+  orderId: string,
+  executor: Database | Transaction = db,
+) {
+  const [payment] = await executor
+    .select()
+    .from(payments)
+    .where(and(eq(payments.orderId, orderId), eq(payments.status, "completed")))
+    .orderBy(desc(payments.createdAt))
+    .limit(1)
+
+  return payment || null
+}
+
+/**
+ * Quantities already refunded per order item
+ */
+export async function getRefundedQuantities(
+  orderId: string,
+  executor: Database | Transaction = db,
+): Promise<Map<string, number>> {
+  const rows = await executor
+    .select({
+      orderItemId: refundItems.orderItemId,
+      quantity: sql<number>`SUM(${refundItems.quantity})::int`,
+    })
+    .from(refundItems)
+    .innerJoin(refunds, eq(refundItems.refundId, refunds.id))
+    .where(
+      and(
+        eq(refunds.orderId, orderId),
+        inArray(refunds.status, [...ACTIVE_REFUND_STATUSES]),
+      ),
+    )
+    .groupBy(refundItems.orderItemId)
+
+  return new Map(rows.map((row) => [row.orderItemId, row.quantity]))
+}
+
+/**
+ * Total already refunded (or in flight) against a payment
+ */
+export async function getRefundedAmount(
+  paymentId: string,
+  executor: Database | Transaction = db,
+): Promise<number> {
+  const [row] = await executor
+    .select({
+      total: sql<string>`COALESCE(SUM(${refunds.amount}::numeric), 0)::text`,
+    })
+    .from(refunds)
+    .where(
+      and(
+        eq(refunds.paymentId, paymentId),
+        inArray(refunds.status, [...ACTIVE_REFUND_STATUSES]),
+      ),
+    )
+
+  return parseFloat(row?.total || "0")
+}
+
+/**
+ * Issue a refund. The refund is staged as pending, sent to the gateway for
+ * card payments, then completed together with restocking and status updates.
+ */
+export async function issueRefund(input: RefundRequest): Promise<RefundResult> {
+  // 1. Validate and stage the refund while holding the payment lock
+  const staged = await db.transaction(async (tx) => {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, input.orderId))
+      .limit(1)
+
+    if (!order) {
+      return { success: false as const, error: "Order not found" }
+    }
+
+    const [payment] = await tx
+      .select()
+      .from(payments)
+      .where(
+        and(eq(payments.orderId, order.id), eq(payments.status, "completed")),
+      )
+      .orderBy(desc(payments.createdAt))
+      .limit(1)
+      .for("update")
+
+    if (!payment) {
+      return {
+        success: false as const,
+        error: "This order has no completed payment to refund",
+      }
+    }
+
+    const items = await tx
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, order.id))
+    const refundedQuantities = await getRefundedQuantities(order.id, tx)
+    const refundedAmount = await getRefundedAmount(payment.id, tx)
+
+    const balance = round(parseFloat(payment.amount) - refundedAmount)
+    if (balance <= 0) {
+      return {
+        success: false as const,
+        error: "This payment has already been fully refunded",
+      }
+    }
+
+    const requested = input.fullRefund
+      ? items
+          .map((item) => ({
+            orderItemId: item.id,
+            quantity: item.quantity - (refundedQuantities.get(item.id) || 0),
+          }))
+          .filter((line) => line.quantity > 0)
+      : (input.items || []).filter((line) => line.quantity > 0)
+
+    const totals = {
+      subtotal: parseFloat(order.subtotal),
+      discountAmount: parseFloat(order.discountAmount),
+      taxAmount: parseFloat(order.taxAmount),
+    }
+
+    const lines: Array<{
+      item: (typeof items)[number]
+      quantity: number
+      amount: number
+    }> = []
+    for (const line of requested) {
+      const item = items.find((i) => i.id === line.orderItemId)
+      if (!item) {
+        return { success: false as const, error: "Invalid order item" }
+      }
+
+      const remaining = item.quantity - (refundedQuantities.get(item.id) || 0)
+      if (!Number.isInteger(line.quantity) || line.quantity > remaining) {
+        return {
+          success: false as const,
+          error: `Only ${remaining} of ${item.productName} can be refunded`,
+        }
+      }
+
+      lines.push({
+        item,
+        quantity: line.quantity,
+        amount: calculateLineRefund(totals, {
+          unitPrice: parseFloat(item.unitPrice),
+          quantity: line.quantity,
+        }),
+      })
+    }
+
+    const completesOrder = items.every((item) => {
+      const line = lines.find((l) => l.item.id === item.id)
+      const refunded = refundedQuantities.get(item.id) || 0
+      return item.quantity - refunded - (line?.quantity || 0) <= 0
+    })
+
+    if (lines.length === 0 && input.amount == null && !input.fullRefund) {
+      return {
+        success: false as const,
+        error: "Select items to refund or enter an amount",
+      }
+    }
+
+    // The last refund returns whatever is left, including shipping and fees
+    const amount = round(
+      input.amount ??
+        (input.fullRefund || completesOrder
+          ? balance
+          : lines.reduce((sum, line) => sum + line.amount, 0)),
+    )
+
+    if (amount <= 0) {
+      return {
+        success: false as const,
+        error: "Refund amount must be greater than zero",
+      }
+    }
+
+    if (amount > balance) {
+      return {
+        success: false as const,
+        error: `Refund amount exceeds the refundable balance of ${balance.toFixed(2)}`,
+      }
+    }
+
+    const [refund] = await tx
+      .insert(refunds)
+      .values({
+        orderId: order.id,
+        paymentId: payment.id,
+        status: "pending",
+        amount: amount.toFixed(2),
+        currency: payment.currency,
+        reason: input.reason || null,
+        isManual: payment.method !== "card",
+        restock: input.restock,
+        processedBy: input.performedBy,
+      })
+      .returning()
+
+    if (lines.length > 0) {
+      await tx.insert(refundItems).values(
+        lines.map((line) => ({
+          refundId: refund.id,
+          orderItemId: line.item.id,
+          quantity: line.quantity,
+          amount: line.amount.toFixed(2),
+        })),
+      )
+    }
+
+    return {
+      success: true as const,
+      order,
+      payment,
+      refund,
+      lines,
+      fullyRefunded: amount >= balance,
+    }
+  })
+
+  if (!staged.success) {
+    return staged
+  }
+
+  const { order, payment, refund, lines, fullyRefunded } = staged
+  const amount = parseFloat(refund.amount)
+
+  // 2. Card refunds go through the gateway before anything is restocked
+  let externalId: string | null = null
+  if (payment.method === "card") {
+    if (!payment.externalId) {
+      await markRefundFailed(refund.id, "Payment has no gateway reference")
+      return {
+        success: false,
+        error: "This card payment has no gateway reference to refund",
+      }
+    }
+
+    const provider = getPaymentProvider(payment.provider)
+    if (!provider) {
+      await markRefundFailed(refund.id, "Unknown payment provider")
+      return {
+        success: false,
+        error: "This card payment has no known gateway to refund through",
+      }
+    }
+
+    const gateway = await provider.refundPayment({
+      externalId: payment.externalId,
+      amount,
+      currency: payment.currency,
+      reason: input.reason,
+      reference: refund.id,
+    })
+
+    if (!gateway.success) {
+      await markRefundFailed(refund.id, gateway.error)
+      return {
+        success: false,
+        error: `Gateway refund failed: ${gateway.error}`,
+      }
+    }
+
+    externalId = gateway.refundId
+  }
+
+  // 3. Complete the refund, restock and update statuses
+  await db.transaction(async (tx) => {
+    await tx
+      .update(refunds)
+      .set({
+        status: "completed",
+        externalId,
+        processedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(refunds.id, refund.id))
+
+    if (input.restock) {
+      for (const line of lines) {
+        if (!line.item.variantId) continue
+
+        const [inventory] = await tx
+          .select()
+          .from(inventoryItems)
+          .where(eq(inventoryItems.variantId, line.item.variantId))
+          .for("update")
+
+        if (!inventory) continue
+
+        const newQuantity = inventory.quantity + line.quantity
+
+        await tx
+          .update(inventoryItems)
+          .set({ quantity: newQuantity, updatedAt: new Date() })
+          .where(eq(inventoryItems.id, inventory.id))
+
+        await tx.insert(inventoryMovements).values({
+          inventoryItemId: inventory.id,
+          type: "return",
+          quantity: line.quantity,
+          previousQuantity: inventory.quantity,
+          newQuantity,
+          referenceType: "refund",
+          referenceId: refund.id,
+          notes: `Restocked from refund on order ${order.orderNumber}`,
+          performedBy: input.performedBy,
+        })
+      }
+    }
+
+    if (fullyRefunded) {
+      await tx
+        .update(payments)
+        .set({ status: "refunded", updatedAt: new Date() })
+        .where(eq(payments.id, payment.id))
+
+      // Re-read the status: cancellation flows update it before refunding
+      const [current] = await tx
+        .select({ status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, order.id))
+        .limit(1)
+
+      if (
+        current &&
+        !input.keepOrderStatus &&
+        isValidTransition(current.status, "refunded")
+      ) {
+        await tx
+          .update(orders)
+          .set({ status: "refunded", updatedAt: new Date() })
+          .where(eq(orders.id, order.id))
+
+        await tx.insert(orderStatusHistory).values({
+          orderId: order.id,
+          fromStatus: current.status,
+          toStatus: "refunded",
+          notes: input.reason
+            ? `Refunded ${amount.toFixed(2)}: ${input.reason}`
+            : `Refunded ${amount.toFixed(2)}`,
+          changedBy: input.performedBy,
+        })
+      }
+    }
+  })
+
+  await logActivity({
+    action: "payment.refund",
+    entityType: "payment",
+    entityId: payment.id,
+    details: {
+      refundId: refund.id,
+      orderId: order.id,
+      amount,
+      manual: refund.isManual,
+      externalId,
+    },
+  })
+
+  await logActivity({
+    action: "order.refund",
+    entityType: "order",
+    entityId: order.id,
+    details: {
+      refundId: refund.id,
+      orderNumber: order.orderNumber,
+      amount,
+      items: lines.map((line) => ({
+        orderItemId: line.item.id,
+        quantity: line.quantity,
+      })),
+      restock: input.restock,
+      fullyRefunded,
+    },
+  })
+
+  // The refund is complete either way; the email is best effort
+  try {
+    const orderData = await getOrderEmailData(order.id)
+    if (orderData) {
+      await sendOrderRefundedEmail({
+        ...orderData,
+        refundAmount: formatPrice(amount),
+        refundReason: input.reason || undefined,
+        fullyRefunded,
+      })
+    }
+  } catch (error) {
+    console.error("Failed to send refund email:", error)
+  }
+
+  return { success: true, refundId: refund.id, amount, fullyRefunded }
+}
+
+async function markRefundFailed(refundId: string, reason: string) {
+  await db
+    .update(refunds)
+    .set({ status: "failed", failureReason: reason, updatedAt: new Date() })
+    .where(eq(refunds.id, refundId))
+}
@@ -0,0 +1,308 @@
+/**
+ * Stripe provider
+ *
+ * Hosted Checkout Sessions over Stripe's REST API (no SDK needed).
+ * Run `node scripts/mock-stripe.js` and point STRIPE_API_URL at it for a
+ * local mock.
+ */
+
+import crypto from "crypto"
+
+import { gatewayCredential, requireCredential } from "./credentials"
+import {
+  type GatewayPayment,
+  type GatewayPaymentStatus,
+  type PaymentProvider,
+} from "./types"
+
+export const STRIPE_CONFIG = {
+  baseUrl: process.env.STRIPE_API_URL || "https://api.stripe.com",
+  secretKey: gatewayCredential(process.env.STRIPE_SECRET_KEY, "sk_test_mock"),
+  webhookSecret: gatewayCredential(
+    process.env.STRIPE_WEBHOOK_SECRET,
+    "whsec_test",
+  ),
+}
+
+// Reject webhook signatures older than this (seconds)
+const WEBHOOK_TOLERANCE = 300
+
+interface CheckoutSession {
+  id: string
+  url: string | null
+  status: "open" | "complete" | "expired"
+  payment_status: "paid" | "unpaid" | "no_payment_required"
+  payment_intent:
+    | string
+    | {
+        id: string
+        status: string
+        created: number
+        latest_charge?: {
+          payment_method_details?: {
+            card?: { brand: string; last4: string }
+          }
+        } | null
+      }
+    | null
+}
+
+interface StripeEvent {
+  id: string
+  type: string
+  created: number
+  data: { object: CheckoutSession }
+}
+
+type StripeResponse<T> = T & { error?: { message: string } }
+
+// Stripe expects form-encoded bodies with bracketed keys for nesting
+function encodeForm(
+  value: Record<string, unknown>,
+  prefix = "",
+  params = new URLSearchParams(),
+): URLSearchParams {
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry === undefined || entry === null) continue
+    const name = prefix ? `${prefix}[${key}]` : key
+
+    if (typeof entry === "object") {
+      encodeForm(entry as Record<string, unknown>, name, params)
+    } else {
+      params.append(name, String(entry))
+    }
+  }
+  return params
+}
+
+async function stripeRequest<T>(
+  method: "GET" | "POST",
+  path: string,
+  body?: Record<string, unknown>,
+  idempotencyKey?: string,
+): Promise<StripeResponse<T>> {
+  const response = await fetch(`${STRIPE_CONFIG.baseUrl}${path}`, {
+    method,
+    headers: {
+      Authorization: `Bearer ${requireCredential(STRIPE_CONFIG.secretKey, "STRIPE_SECRET_KEY")}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+    },
+    body: body ? encodeForm(body).toString() : undefined,
+  })
+
+  return response.json()
+}
+
+// Two-decimal currencies only (LKR, USD, EUR, GBP)
+function toMinorUnits(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+function toGatewayPayment(session: CheckoutSession): GatewayPayment {
+  const intent =
+    typeof session.payment_intent === "object" ? session.payment_intent : null
+  const card = intent?.latest_charge?.payment_method_details?.card
+
+  let status: GatewayPaymentStatus = "pending"
+  if (session.status === "complete" && session.payment_status === "paid") {
+    status = "completed"
+  } else if (session.status === "expired") {
+    status = "cancelled"
+  }
+
+  return {
+    externalId: session.id,
+    status,
+    externalStatus: `${session.status}/${session.payment_status}`,
+    transactionId:
+      typeof session.payment_intent === "string"
+        ? session.payment_intent
+        : (intent?.id ?? null),
+    paidAt:
+      status === "completed" && intent ? new Date(intent.created * 1000) : null,
+    cardBrand: card?.brand ?? null,
+    cardLast4: card?.last4 ?? null,
+    failureReason:
+      status === "cancelled" ? "Checkout session expired or cancelled" : null,
+  }
+}
+
+/**
+ * Stripe-Signature: t=<unix time>,v1=<hex hmac of "t.body">
+ */
+function verifySignature(body: string, header: string): boolean {
+  if (!STRIPE_CONFIG.webhookSecret) {
+    console.error("STRIPE_WEBHOOK_SECRET is not set; rejecting webhook")
+    return false
+  }
+
+  const parts = Object.fromEntries(
+    header.split(",").map((part) => part.split("=") as [string, string]),
+  )
+  const timestamp = Number(parts.t)
+  const signature = parts.v1 || ""
+
+  if (
+    !timestamp ||
+    Math.abs(Date.now() / 1000 - timestamp) > WEBHOOK_TOLERANCE
+  ) {
+    return false
+  }
+
+  const expected = crypto
+    .createHmac("sha256", STRIPE_CONFIG.webhookSecret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex")
+
+  return (
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  )
+}
+
+export const stripeProvider: PaymentProvider = {
+  id: "stripe",
+  name: "Stripe",
+  webhookPath: "/api/payment/stripe/webhook",
+
+  async initiatePayment(request) {
+    try {
+      const separator = request.returnUrl.includes("?") ? "&" : "?"
+      const session = await stripeRequest<CheckoutSession>(
+        "POST",
+        "/v1/checkout/sessions",
+        {
+          mode: "payment",
+          success_url: `${request.returnUrl}${separator}session_id={CHECKOUT_SESSION_ID}`,
+          cancel_url: request.cancelUrl,
+          client_reference_id: request.paymentId,
+          customer_email: request.customer.email,
+          line_items: [
+            {
+              quantity: 1,
+              price_data: {
+                currency: request.currency.toLowerCase(),
+                unit_amount: toMinorUnits(request.amount),
+                product_data: { name: request.description },
+              },
+            },
+          ],
+          metadata: {
+            order_number: request.orderNumber,
+            payment_id: request.paymentId,
+          },
+        },
+        request.paymentId,
+      )
+
+      if (session.error || !session.url) {
+        return {
+          success: false,
+          error: session.error?.message || "Failed to initiate payment",
+        }
+      }
+
+      return { success: true, externalId: session.id, paymentUrl: session.url }
+    } catch (error) {
+      console.error("Stripe checkout request failed:", error)
+      return { success: false, error: "Could not reach the payment gateway" }
+    }
+  },
+
+  async verifyPayment(externalId) {
+    try {
+      const session = await stripeRequest<CheckoutSession>(
+        "GET",
+        `/v1/checkout/sessions/${encodeURIComponent(externalId)}?expand[]=payment_intent.latest_charge`,
+      )
+
+      if (session.error) {
+        return { success: false, error: session.error.message }
+      }
+
+      return { success: true, ...toGatewayPayment(session) }
+    } catch (error) {
+      console.error("Stripe verify request failed:", error)
+      return { success: false, error: "Could not reach the payment gateway" }
+    }
+  },
+
+  async refundPayment(request) {
+    try {
+      // Refunds are made against the session's payment intent
+      const session = await stripeRequest<CheckoutSession>(
+        "GET",
+        `/v1/checkout/sessions/${encodeURIComponent(request.externalId)}`,
+      )
+      const paymentIntent =
+        typeof session.payment_intent === "string"
+          ? session.payment_intent
+          : session.payment_intent?.id
+
+      if (session.error || !paymentIntent) {
+        return {
+          success: false,
+          error: session.error?.message || "Payment has not been captured",
+        }
+      }
+
+      const refund = await stripeRequest<{ id: string; status: string }>(
+        "POST",
+        "/v1/refunds",
+        {
+          payment_intent: paymentIntent,
+          amount: toMinorUnits(request.amount),
+          metadata: {
+            reference: request.reference,
+            reason: request.reason || undefined,
+          },
+        },
+        request.reference,
+      )
+
+      if (refund.error) {
+        return { success: false, error: refund.error.message }
+      }
+
+      return { success: true, refundId: refund.id, status: refund.status }
+    } catch (error) {
+      console.error("Stripe refund request failed:", error)
+      return { success: false, error: "Could not reach the payment gateway" }
+    }
+  },
+
+  verifyWebhook(body, headers) {
+    return verifySignature(body, headers.get("stripe-signature") || "")
+  },
+
+  parseWebhook(body) {
+    let event: StripeEvent
+    try {
+      event = JSON.parse(body)
+    } catch {
+      return null
+    }
+
+    const session = event.data?.object
+    const parsed = { eventId: event.id ?? null, eventType: String(event.type) }
+
+    switch (event.type) {
+      case "checkout.session.completed":
+      case "checkout.session.async_payment_succeeded":
+      case "checkout.session.expired":
+        return { ...parsed, payment: toGatewayPayment(session) }
+      case "checkout.session.async_payment_failed":
+        return {
+          ...parsed,
+          payment: {
+            ...toGatewayPayment(session),
+            status: "failed",
+            failureReason: "Payment declined by payment provider",
+          },
+        }
+      default:
+        return { ...parsed, payment: null }
+    }
+  },
+}
@@ -0,0 +1,86 @@
+/**
+ * Payment provider interface
+ *
+ * Card gateways implement this so order logic never depends on a
+ * provider's request shapes. Register new providers in ./providers.ts.
+ */
+
+export type PaymentProviderId = "directpay" | "stripe"
+
+export type ProviderResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string }
+
+export interface InitiatePaymentRequest {
+  paymentId: string // Our payment ID, used by gateways for idempotency
+  orderNumber: string
+  amount: number
+  currency: string
+  description: string
+  customer: {
+    email: string
+    name: string | null
+    phone: string | null
+  }
+  returnUrl: string
+  cancelUrl: string
+  notifyUrl: string
+}
+
+// Normalized gateway state of a payment
+export type GatewayPaymentStatus =
+  | "pending"
+  | "completed"
+  | "failed"
+  | "cancelled"
+
+export interface GatewayPayment {
+  externalId: string
+  status: GatewayPaymentStatus
+  externalStatus: string // The gateway's own status, kept for support
+  transactionId?: string | null
+  paidAt?: Date | null
+  cardBrand?: string | null
+  cardLast4?: string | null
+  failureReason?: string | null
+}
+
+export interface RefundPaymentRequest {
+  externalId: string
+  amount: number
+  currency: string
+  reason?: string | null
+  reference: string // Our refund ID, used by gateways for idempotency
+}
+
+export interface WebhookEvent {
+  eventId: string | null // Provider's event ID, when it sends one
+  eventType: string
+  payment: GatewayPayment | null // null: event we do not act on
+}
+
+export interface PaymentProvider {
+  id: PaymentProviderId
+  name: string
+  // Route the gateway posts payment notifications to
+  webhookPath: string
+
+  initiatePayment(
+    request: InitiatePaymentRequest,
+  ): Promise<ProviderResult<{ externalId: string; paymentUrl: string }>>
+
+  // Fetch the current state of a payment from the gateway
+  verifyPayment(externalId: string): Promise<ProviderResult<GatewayPayment>>
+
+  // Full or partial refund of a completed payment
+  refundPayment(
+    request: RefundPaymentRequest,
+  ): Promise<ProviderResult<{ refundId: string; status: string }>>
+
+  // Check a webhook request really came from the gateway
+  verifyWebhook(body: string, headers: Headers): boolean
+
+  // Read the payment a webhook reports on; null when the body is unreadable.
+  // Called again on replay, so it must not depend on the request headers.
+  parseWebhook(body: string): WebhookEvent | null
+}
@@ -0,0 +1,198 @@
+/**
+ * Payment webhooks
+ *
+ * Shared handler behind each provider's webhook route. Every request is
+ * stored in `webhook_events` before anything else happens, so there is a
+ * record of what each gateway sent even when it is rejected or fails.
+ * Processing reads only the stored event, which lets staff replay it.
+ */
+
+import { revalidatePath } from "next/cache"
+import { NextRequest, NextResponse } from "next/server"
+
+import { and, eq, ne, sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import { payments, webhookEvents } from "@/lib/db/schema"
+
+import { settleCardPayment } from "./card-payments"
+import { getPaymentProvider } from "./providers"
+import { type PaymentProvider } from "./types"
+
+type WebhookEventStatus = (typeof webhookEvents.$inferSelect)["status"]
+
+// Never persist credentials that may ride along with a request
+const REDACTED_HEADERS = ["authorization", "cookie", "proxy-authorization"]
+
+export async function handlePaymentWebhook(
+  provider: PaymentProvider,
+  request: NextRequest,
+) {
+  try {
+    const body = await request.text()
+    const signatureValid = provider.verifyWebhook(body, request.headers)
+
+    // Parsed only to label the stored event; rejected events are not applied
+    const parsed = provider.parseWebhook(body)
+
+    const headers = Object.fromEntries(
+      [...request.headers.entries()].filter(
+        ([name]) => !REDACTED_HEADERS.includes(name),
+      ),
+    )
+
+    const [event] = await db
+      .insert(webhookEvents)
+      .values({
+        provider: provider.id,
+        eventId: parsed?.eventId ?? null,
+        eventType: parsed?.eventType ?? null,
+        externalId: parsed?.payment?.externalId ?? null,
+        transactionId: parsed?.payment?.transactionId ?? null,
+        payload: body,
+        headers: JSON.stringify(headers),
+        signatureValid,
+        status: signatureValid ? "received" : "rejected",
+        error: signatureValid ? null : "Invalid signature",
+      })
+      .returning({ id: webhookEvents.id })
+
+    if (!signatureValid) {
+      console.error(`Rejected ${provider.name} webhook: invalid signature`)
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 })
+    }
+
+    const result = await processWebhookEvent(event.id)
+
+    // A failure asks the gateway to retry; everything else is final
+    if (result.status === "failed") {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, status: result.status })
+  } catch (error) {
+    console.error(`${provider.name} webhook processing error:`, error)
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    )
+  }
+}
+
+/**
+ * Apply a stored webhook event to its payment. Safe to run more than once:
+ * settlement ignores payments and gateway transactions already applied.
+ */
+export async function processWebhookEvent(
+  eventId: string,
+  options: { replayedBy?: string | null } = {},
+): Promise<{ status: WebhookEventStatus; error: string | null }> {
+  const event = await db.query.webhookEvents.findFirst({
+    where: eq(webhookEvents.id, eventId),
+  })
+
+  if (!event) {
+    return { status: "failed", error: "Webhook event not found" }
+  }
+
+  const finish = async (
+    status: WebhookEventStatus,
+    values: {
+      outcome?: string | null
+      error?: string | null
+      paymentId?: string | null
+    } = {},
+  ) => {
+    await db
+      .update(webhookEvents)
+      .set({
+        status,
+        outcome: values.outcome ?? null,
+        error: values.error ?? null,
+        paymentId: values.paymentId ?? event.paymentId,
+        attempts: sql`${webhookEvents.attempts} + 1`,
+        lastReplayedBy: options.replayedBy ?? event.lastReplayedBy,
+        processedAt: new Date(),
+      })
+      .where(eq(webhookEvents.id, event.id))
+
+    return { status, error: values.error ?? null }
+  }
+
+  // Rejected events never become trusted, even on replay
+  if (!event.signatureValid) {
+    return { status: "rejected", error: "Invalid signature" }
+  }
+
+  const provider = getPaymentProvider(event.provider)
+  if (!provider) {
+    return finish("failed", { error: `Unknown provider "${event.provider}"` })
+  }
+
+  try {
+    // Gateways redeliver events they think we missed; apply each one once
+    if (event.eventId) {
+      const [earlier] = await db
+        .select({ id: webhookEvents.id })
+        .from(webhookEvents)
+        .where(
+          and(
+            eq(webhookEvents.provider, event.provider),
+            eq(webhookEvents.eventId, event.eventId),
+            eq(webhookEvents.status, "processed"),
+            ne(webhookEvents.id, event.id),
+          ),
+        )
+        .limit(1)
+
+      if (earlier) {
+        return finish("duplicate", { outcome: `Redelivery of ${earlier.id}` })
+      }
+    }
+
+    const parsed = provider.parseWebhook(event.payload)
+
+    if (!parsed) {
+      return finish("failed", { error: "Invalid payload" })
+    }
+
+    if (!parsed.payment) {
+      return finish("ignored", {
+        outcome: `Unhandled event ${parsed.eventType}`,
+      })
+    }
+
+    const gateway = parsed.payment
+    const payment = await db.query.payments.findFirst({
+      where: and(
+        eq(payments.externalId, gateway.externalId),
+        eq(payments.provider, provider.id),
+      ),
+    })
+
+    if (!payment) {
+      return finish("failed", {
+        error: `Payment not found for session ${gateway.externalId}`,
+      })
+    }
+
+    const settlement = await settleCardPayment(payment.id, provider, gateway, {
+      changedBy: options.replayedBy ?? null,
+      source: "webhook",
+    })
+
+    revalidatePath(`/orders/${payment.orderId}`)
+    revalidatePath("/admin/orders")
+    revalidatePath("/admin/payments")
+
+    return finish(
+      settlement === "already_settled" ? "duplicate" : "processed",
+      { outcome: settlement, paymentId: payment.id },
+    )
+  } catch (error) {
+    console.error(`${provider.name} webhook ${event.id} failed:`, error)
+    return finish("failed", {
+      error: error instanceof Error ? error.message : "Processing failed",
+    })
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Minimal PDF writer
+ *
+ * Produces text-and-rule documents (invoices, packing slips) using the
+ * standard Helvetica fonts, so no font files or native dependencies are
+ * needed. Coordinates are in points measured from the top-left corner of
+ * an A4 page. Text is WinAnsi encoded; characters outside it print as "?".
+ */
+
+export const PAGE_WIDTH = 595.28
+export const PAGE_HEIGHT = 841.89
+
+type Rgb = [number, number, number]
+
+export interface TextOptions {
+  size?: number
+  bold?: boolean
+  color?: Rgb
+  align?: "left" | "right" | "center"
+}
+
+// Advance widths (per 1000 units) for characters 32-126
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+]
+
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+]
+
+// Unicode punctuation that WinAnsi stores outside the Latin-1 range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 128,
+  "‘": 145,
+  "’": 146,
+  "“": 147,
+  "”": 148,
+  "•": 149,
+  "–": 150,
+  "—": 151,
+  "™": 153,
+}
+
+function toWinAnsi(text: string): string {
+  let result = ""
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    if (WIN_ANSI_EXTRAS[char]) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char])
+    } else if (code === 9 || code === 10 || code === 13) {
+      result += " "
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      result += char
+    } else {
+      result += "?"
+    }
+  }
+  return result
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`)
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+/**
+ * Width of a string in points at the given font size.
+ */
+export function measureText(text: string, size: number, bold = false) {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  let units = 0
+  for (const char of toWinAnsi(text)) {
+    const code = char.charCodeAt(0)
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556
+  }
+  return (units * size) / 1000
+}
+
+/**
+ * Break text into lines that fit within maxWidth, splitting on spaces and
+ * hard-breaking words that are too long on their own.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  size: number,
+  bold = false,
+): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of text.split("\n")) {
+    let line = ""
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate
+        continue
+      }
+      if (line) lines.push(line)
+
+      line = word
+      while (measureText(line, size, bold) > maxWidth && line.length > 1) {
+        let cut = line.length - 1
+        while (
+          cut > 1 &&
+          measureText(line.slice(0, cut), size, bold) > maxWidth
+        ) {
+          cut--
+        }
+        lines.push(line.slice(0, cut))
+        line = line.slice(cut)
+      }
+    }
+    lines.push(line)
+  }
+
+  return lines
+}
+
+export class PdfDocument {
+  private pages: string[][] = []
+
+  constructor(private title = "Document") {}
+
+  get pageCount() {
+    return this.pages.length
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  private get current() {
+    if (this.pages.length === 0) this.addPage()
+    return this.pages[this.pages.length - 1]
+  }
+
+  text(value: string, x: number, y: number, options: TextOptions = {}) {
+    const size = options.size ?? 10
+    const bold = options.bold ?? false
+    const [r, g, b] = options.color ?? [0, 0, 0]
+    const width = measureText(value, size, bold)
+    const left =
+      options.align === "right"
+        ? x - width
+        : options.align === "center"
+          ? x - width / 2
+          : x
+
+    this.current.push(
+      `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg`,
+      `BT /${bold ? "F2" : "F1"} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y - size)} Td (${escapeText(toWinAnsi(value))}) Tj ET`,
+    )
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    options: { width?: number; color?: Rgb } = {},
+  ) {
+    const [r, g, b] = options.color ?? [0.8, 0.8, 0.8]
+    this.current.push(
+      `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} RG ${formatNumber(options.width ?? 0.5)} w`,
+      `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`,
+    )
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: { fill?: Rgb; stroke?: Rgb } = {},
+  ) {
+    const path = `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re`
+
+    if (options.fill) {
+      const [r, g, b] = options.fill
+      this.current.push(
+        `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg`,
+        `${path} f`,
+      )
+    }
+    if (options.stroke || !options.fill) {
+      const [r, g, b] = options.stroke ?? [0, 0, 0]
+      this.current.push(
+        `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} RG 0.75 w`,
+        `${path} S`,
+      )
+    }
+  }
+
+  /**
+   * Serialize the document. Object layout: 1 catalog, 2 page tree,
+   * 3-4 fonts, 5 info, then a page and content stream per page.
+   */
+  toBuffer(): Buffer {
+    if (this.pages.length === 0) this.addPage()
+
+    const objects: string[] = []
+    const pageIds = this.pages.map((_, index) => 6 + index * 2)
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>")
+    objects.push(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    )
+    objects.push(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    )
+    objects.push(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    )
+    objects.push(
+      `<< /Title (${escapeText(toWinAnsi(this.title))}) /Producer (IUS Storefront) >>`,
+    )
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join("\n")
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      )
+      objects.push(
+        `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+      )
+    })
+
+    let output = "%PDF-1.4\n"
+    const offsets: number[] = []
+    objects.forEach((body, index) => {
+      offsets.push(Buffer.byteLength(output, "latin1"))
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`
+    })
+
+    const xrefOffset = Buffer.byteLength(output, "latin1")
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets
+      .map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`)
+      .join("")
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, "latin1")
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Invoice PDF
+ */
+
+import { formatCurrency, formatDate } from "@/lib/utils"
+
+import { PAGE_WIDTH, type PdfDocument } from "./document"
+import {
+  CONTENT_WIDTH,
+  drawColumns,
+  drawFooter,
+  drawHeader,
+  drawMeta,
+  drawTable,
+  ensureSpace,
+  formatAddress,
+  MARGIN,
+  MUTED,
+} from "./layout"
+import { type OrderDocumentData, type StoreDetails } from "./order-documents"
+
+function money(amount: string | number): string {
+  return formatCurrency(
+    typeof amount === "string" ? parseFloat(amount) : amount,
+  )
+}
+
+export function renderInvoice(
+  doc: PdfDocument,
+  data: OrderDocumentData & {
+    invoice: NonNullable<OrderDocumentData["invoice"]>
+  },
+  store: StoreDetails,
+) {
+  const { order, invoice } = data
+  const title = "Invoice"
+
+  let y = drawHeader(doc, title, store)
+
+  y = drawMeta(
+    doc,
+    [
+      ["Invoice number", invoice.invoiceNumber],
+      ["Invoice date", formatDate(invoice.issuedAt)],
+      ["Order number", order.orderNumber],
+      ["Order date", formatDate(order.createdAt)],
+      ...(data.paymentMethod
+        ? [["Payment method", data.paymentMethod] as [string, string]]
+        : []),
+    ],
+    y,
+  )
+  y += 16
+
+  const customer = [
+    order.customerName,
+    order.customerEmail,
+    order.customerPhone,
+  ].filter((line): line is string => Boolean(line))
+
+  y = drawColumns(
+    doc,
+    [
+      {
+        title: "BILL TO",
+        lines: order.billingAddress
+          ? [...formatAddress(order.billingAddress), order.customerEmail]
+          : customer,
+      },
+      {
+        title: "SHIP TO",
+        lines: formatAddress(order.shippingAddress),
+      },
+    ],
+    y,
+  )
+
+  y = drawTable(
+    doc,
+    [
+      { header: "ITEM", width: CONTENT_WIDTH - 250 },
+      { header: "QTY", width: 50, align: "right" },
+      { header: "UNIT PRICE", width: 100, align: "right" },
+      { header: "AMOUNT", width: 100, align: "right" },
+    ],
+    order.items.map((item) => [
+      [
+        item.productName,
+        [
+          item.variantName,
+          item.sku && `SKU ${item.sku}`,
+          item.bundleName && `Part of ${item.bundleName}`,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+      ],
+      item.quantity.toString(),
+      money(item.unitPrice),
+      money(item.subtotal),
+    ]),
+    y,
+    { continuedTitle: `${title} (continued)`, store },
+  )
+
+  const totals: Array<[string, string]> = [["Subtotal", money(order.subtotal)]]
+  if (parseFloat(order.discountAmount) > 0) {
+    totals.push(["Discount", `-${money(order.discountAmount)}`])
+  }
+  totals.push([
+    "Shipping",
+    parseFloat(order.shippingCost) > 0 ? money(order.shippingCost) : "Free",
+  ])
+  if (parseFloat(order.codFee) > 0) {
+    totals.push(["Cash on delivery fee", money(order.codFee)])
+  }
+  if (parseFloat(order.taxAmount) > 0) {
+    totals.push([data.taxLabel, money(order.taxAmount)])
+  }
+
+  y = ensureSpace(
+    doc,
+    y,
+    totals.length * 16 + 40,
+    `${title} (continued)`,
+    store,
+  )
+
+  const labelX = PAGE_WIDTH - MARGIN - 210
+  for (const [label, value] of totals) {
+    doc.text(label, labelX, y, { size: 10, color: MUTED })
+    doc.text(value, PAGE_WIDTH - MARGIN, y, { size: 10, align: "right" })
+    y += 16
+  }
+
+  doc.line(labelX, y, PAGE_WIDTH - MARGIN, y, { color: [0, 0, 0] })
+  y += 8
+  doc.text("Total", labelX, y, { size: 12, bold: true })
+  doc.text(money(order.total), PAGE_WIDTH - MARGIN, y, {
+    size: 12,
+    bold: true,
+    align: "right",
+  })
+
+  if (order.status === "refunded") {
+    y += 24
+    doc.text("This order has been refunded.", labelX, y, {
+      size: 9,
+      color: MUTED,
+    })
+  }
+
+  drawFooter(doc, `Thank you for shopping with ${store.name}.`)
+}
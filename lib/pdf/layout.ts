@@ -0,0 +1,224 @@
+/**
+ * Shared layout for order documents
+ */
+
+import { PAGE_HEIGHT, PAGE_WIDTH, type PdfDocument, wrapText } from "./document"
+import { type OrderDocumentData, type StoreDetails } from "./order-documents"
+
+export const MARGIN = 48
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+export const MUTED: [number, number, number] = [0.42, 0.42, 0.45]
+const HEADER_FILL: [number, number, number] = [0.95, 0.95, 0.96]
+
+const LINE_HEIGHT = 13
+// Space kept free at the bottom of each page
+const BOTTOM = PAGE_HEIGHT - MARGIN - 24
+
+type Address = NonNullable<OrderDocumentData["order"]["shippingAddress"]>
+
+export function formatAddress(address: Partial<Address> | null): string[] {
+  if (!address) return []
+
+  return [
+    address.recipientName,
+    address.addressLine1,
+    address.addressLine2,
+    [address.city, address.state, address.postalCode]
+      .filter(Boolean)
+      .join(", "),
+    address.country,
+    address.phone,
+  ].filter((line): line is string => Boolean(line))
+}
+
+/**
+ * Store name and contact details on the left, document title on the right.
+ * Returns the y position below the header.
+ */
+export function drawHeader(
+  doc: PdfDocument,
+  title: string,
+  store: StoreDetails,
+): number {
+  doc.addPage()
+
+  doc.text(store.name, MARGIN, MARGIN, { size: 18, bold: true })
+  doc.text(title.toUpperCase(), PAGE_WIDTH - MARGIN, MARGIN, {
+    size: 18,
+    bold: true,
+    color: MUTED,
+    align: "right",
+  })
+
+  let y = MARGIN + 26
+  const details = [
+    ...store.address.split("\n"),
+    [store.email, store.phone].filter(Boolean).join(" · "),
+    store.taxRegistrationNumber
+      ? `Tax Reg. No: ${store.taxRegistrationNumber}`
+      : "",
+  ].filter((line) => line.trim())
+
+  for (const line of details) {
+    doc.text(line.trim(), MARGIN, y, { size: 9, color: MUTED })
+    y += 12
+  }
+
+  return Math.max(y, MARGIN + 40) + 12
+}
+
+/**
+ * Label/value pairs aligned to the right edge (invoice number, dates...).
+ */
+export function drawMeta(
+  doc: PdfDocument,
+  rows: Array<[string, string]>,
+  y: number,
+): number {
+  const labelX = PAGE_WIDTH - MARGIN - 210
+
+  for (const [label, value] of rows) {
+    doc.text(label, labelX, y, { size: 9, color: MUTED })
+    doc.text(value, PAGE_WIDTH - MARGIN, y, {
+      size: 9,
+      bold: true,
+      align: "right",
+    })
+    y += LINE_HEIGHT
+  }
+
+  return y
+}
+
+/**
+ * Titled blocks of lines side by side (e.g. bill to / ship to).
+ */
+export function drawColumns(
+  doc: PdfDocument,
+  columns: Array<{ title: string; lines: string[] }>,
+  y: number,
+): number {
+  const width = CONTENT_WIDTH / columns.length
+  let bottom = y
+
+  columns.forEach((column, index) => {
+    const x = MARGIN + index * width
+    let lineY = y
+
+    doc.text(column.title, x, lineY, { size: 8, bold: true, color: MUTED })
+    lineY += LINE_HEIGHT
+
+    for (const line of column.lines) {
+      for (const wrapped of wrapText(line, width - 16, 10)) {
+        doc.text(wrapped, x, lineY, { size: 10 })
+        lineY += LINE_HEIGHT
+      }
+    }
+
+    bottom = Math.max(bottom, lineY)
+  })
+
+  return bottom + 16
+}
+
+export interface TableColumn {
+  header: string
+  width: number
+  align?: "left" | "right"
+}
+
+/**
+ * Draw a table, wrapping the first column and continuing on a new page
+ * (with the header repeated) when the rows run past the bottom margin.
+ */
+export function drawTable(
+  doc: PdfDocument,
+  columns: TableColumn[],
+  rows: Array<Array<string | string[]>>,
+  y: number,
+  options: { continuedTitle: string; store: StoreDetails },
+): number {
+  const drawHeaderRow = (top: number) => {
+    doc.rect(MARGIN, top, CONTENT_WIDTH, 20, { fill: HEADER_FILL })
+    let x = MARGIN
+    for (const column of columns) {
+      doc.text(
+        column.header,
+        column.align === "right" ? x + column.width - 8 : x + 8,
+        top + 6,
+        { size: 8, bold: true, color: MUTED, align: column.align },
+      )
+      x += column.width
+    }
+    return top + 26
+  }
+
+  y = drawHeaderRow(y)
+
+  for (const row of rows) {
+    // The first cell may carry secondary lines (variant, SKU)
+    const [first, ...rest] = row
+    const [primary, ...secondary] = Array.isArray(first) ? first : [first]
+    const primaryLines = wrapText(primary, columns[0].width - 16, 10)
+    const secondaryLines = secondary.flatMap((line) =>
+      wrapText(line, columns[0].width - 16, 8),
+    )
+    const height =
+      primaryLines.length * LINE_HEIGHT + secondaryLines.length * 11 + 8
+
+    if (y + height > BOTTOM) {
+      y = drawHeader(doc, options.continuedTitle, options.store)
+      y = drawHeaderRow(y)
+    }
+
+    let lineY = y
+    for (const line of primaryLines) {
+      doc.text(line, MARGIN + 8, lineY, { size: 10 })
+      lineY += LINE_HEIGHT
+    }
+    for (const line of secondaryLines) {
+      doc.text(line, MARGIN + 8, lineY, { size: 8, color: MUTED })
+      lineY += 11
+    }
+
+    let x = MARGIN + columns[0].width
+    rest.forEach((cell, index) => {
+      const column = columns[index + 1]
+      const value = Array.isArray(cell) ? cell.join(" ") : cell
+      doc.text(
+        value,
+        column.align === "right" ? x + column.width - 8 : x + 8,
+        y,
+        { size: 10, align: column.align },
+      )
+      x += column.width
+    })
+
+    y += height
+    doc.line(MARGIN, y - 4, PAGE_WIDTH - MARGIN, y - 4)
+  }
+
+  return y + 8
+}
+
+/**
+ * Start a new page when the next block would not fit.
+ */
+export function ensureSpace(
+  doc: PdfDocument,
+  y: number,
+  height: number,
+  title: string,
+  store: StoreDetails,
+): number {
+  return y + height > BOTTOM ? drawHeader(doc, title, store) : y
+}
+
+export function drawFooter(doc: PdfDocument, text: string) {
+  doc.text(text, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN, {
+    size: 8,
+    color: MUTED,
+    align: "center",
+  })
+}
@@ -0,0 +1,287 @@
+/**
+ * Order documents
+ *
+ * Loads orders for invoices and packing slips, issues sequential invoice
+ * numbers and renders the PDFs. Callers are responsible for authorization.
+ */
+
+import { and, desc, eq, inArray, max, ne, sql } from "drizzle-orm"
+
+import { db } from "@/lib/db"
+import {
+  invoices,
+  orders,
+  payments,
+  siteSettings,
+  taxRates,
+} from "@/lib/db/schema"
+import { matchTaxRule } from "@/lib/utils/pricing"
+import { getSettingValue } from "@/lib/utils/settings-config"
+
+import { PdfDocument } from "./document"
+import { renderInvoice } from "./invoice"
+import { renderPackingSlip } from "./packing-slip"
+
+export type OrderDocumentType = "invoice" | "packing-slip"
+
+// Invoices exist once an order has been paid for (or is paid on delivery)
+export const INVOICE_STATUSES = [
+  "paid",
+  "processing",
+  "packing",
+  "shipped",
+  "delivered",
+  "refunded",
+]
+
+export const PACKING_SLIP_STATUSES = [
+  "paid",
+  "processing",
+  "packing",
+  "shipped",
+  "delivered",
+]
+
+// Bulk downloads are capped to keep a single response reasonable
+export const MAX_DOCUMENTS_PER_DOWNLOAD = 100
+
+export interface StoreDetails {
+  name: string
+  address: string
+  email: string
+  phone: string
+  taxRegistrationNumber: string
+}
+
+type Order = typeof orders.$inferSelect
+type Invoice = typeof invoices.$inferSelect
+
+export interface OrderDocumentData {
+  order: Order & {
+    items: Array<{
+      id: string
+      productName: string
+      variantName: string
+      sku: string
+      bundleName: string | null
+      quantity: number
+      unitPrice: string
+      subtotal: string
+    }>
+  }
+  invoice: Invoice | null
+  paymentMethod: string | null
+  taxLabel: string
+}
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  card: "Credit/Debit Card",
+  bank_transfer: "Bank Transfer",
+  cash_on_delivery: "Cash on Delivery",
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+async function loadSettings(): Promise<Record<string, string>> {
+  const rows = await db.select().from(siteSettings)
+  return Object.fromEntries(rows.map((row) => [row.key, row.value]))
+}
+
+function getStoreDetails(settings: Record<string, string>): StoreDetails {
+  const setting = (key: string) => getSettingValue(settings, key)
+
+  return {
+    name: setting("site_name"),
+    address: setting("store_address"),
+    email: setting("contact_email"),
+    phone: setting("contact_phone"),
+    taxRegistrationNumber: setting("tax_registration_number"),
+  }
+}
+
+/**
+ * Label the tax line with the rule that produced it. Orders only store
+ * the amount, so a rule is named only when it reproduces that amount;
+ * rates edited after the order fall back to a plain "Tax" label.
+ */
+function getTaxLabel(
+  order: Order,
+  rules: Parameters<typeof matchTaxRule>[0],
+  settings: Record<string, string>,
+): string {
+  const taxAmount = parseFloat(order.taxAmount)
+  const rule = matchTaxRule(
+    rules,
+    order.shippingAddress?.country,
+    order.shippingAddress?.state,
+  )
+  const rate = rule
+    ? rule.rate
+    : parseFloat(getSettingValue(settings, "default_tax_rate")) || 0
+  const taxShipping = rule
+    ? rule.appliesToShipping
+    : getSettingValue(settings, "tax_shipping") === "true"
+
+  const taxable =
+    parseFloat(order.subtotal) -
+    parseFloat(order.discountAmount) +
+    (taxShipping
+      ? parseFloat(order.shippingCost) + parseFloat(order.codFee)
+      : 0)
+
+  if (rate > 0 && round((taxable * rate) / 100) === round(taxAmount)) {
+    return `${rule?.name || "Tax"} (${rate}%)`
+  }
+
+  return "Tax"
+}
+
+/**
+ * Load everything needed to render documents for the given orders,
+ * preserving the requested order.
+ */
+async function getOrderDocumentData(
+  orderIds: string[],
+  settings: Record<string, string>,
+): Promise<OrderDocumentData[]> {
+  if (orderIds.length === 0) return []
+
+  const [rows, orderInvoices, orderPayments, rules] = await Promise.all([
+    db.query.orders.findMany({
+      where: inArray(orders.id, orderIds),
+      with: { items: true },
+    }),
+    db.select().from(invoices).where(inArray(invoices.orderId, orderIds)),
+    db
+      .select({ orderId: payments.orderId, method: payments.method })
+      .from(payments)
+      .where(
+        and(inArray(payments.orderId, orderIds), ne(payments.status, "failed")),
+      )
+      .orderBy(desc(payments.createdAt)),
+    db.select().from(taxRates),
+  ])
+
+  const byId = new Map(rows.map((row) => [row.id, row]))
+
+  return orderIds.flatMap((id) => {
+    const order = byId.get(id)
+    if (!order) return []
+
+    const method = orderPayments.find((p) => p.orderId === id)?.method
+
+    return [
+      {
+        order,
+        invoice: orderInvoices.find((inv) => inv.orderId === id) ?? null,
+        paymentMethod: method
+          ? (PAYMENT_METHOD_LABELS[method] ?? method)
+          : null,
+        taxLabel: getTaxLabel(
+          order,
+          rules.map((rule) => ({ ...rule, rate: parseFloat(rule.rate) })),
+          settings,
+        ),
+      },
+    ]
+  })
+}
+
+/**
+ * Get the invoice for an order, issuing the next number if it has none.
+ * The table lock keeps numbers gapless when invoices are issued
+ * concurrently; orders that already have an invoice never take it.
+ */
+async function issueInvoice(orderId: string): Promise<Invoice> {
+  return db.transaction(async (tx) => {
+    const [existing] = await tx
+      .select()
+      .from(invoices)
+      .where(eq(invoices.orderId, orderId))
+      .limit(1)
+    if (existing) return existing
+
+    await tx.execute(sql`lock table ${invoices} in share row exclusive mode`)
+
+    // Another request may have issued it while we waited for the lock
+    const [issued] = await tx
+      .select()
+      .from(invoices)
+      .where(eq(invoices.orderId, orderId))
+      .limit(1)
+    if (issued) return issued
+
+    const [last] = await tx
+      .select({ sequence: max(invoices.sequence) })
+      .from(invoices)
+    const [prefixSetting] = await tx
+      .select({ value: siteSettings.value })
+      .from(siteSettings)
+      .where(eq(siteSettings.key, "invoice_prefix"))
+      .limit(1)
+
+    const sequence = (last?.sequence ?? 0) + 1
+    const prefix = prefixSetting
+      ? prefixSetting.value
+      : getSettingValue({}, "invoice_prefix")
+
+    const [invoice] = await tx
+      .insert(invoices)
+      .values({
+        orderId,
+        sequence,
+        invoiceNumber: `${prefix ? `${prefix}-` : ""}${sequence.toString().padStart(6, "0")}`,
+      })
+      .returning()
+
+    return invoice
+  })
+}
+
+/**
+ * Render invoices or packing slips for several orders into one PDF,
+ * one order per page (or more for long orders). Orders that are not in
+ * an eligible status are skipped, except invoices that were already
+ * issued, which can always be downloaded again.
+ */
+export async function renderOrderDocuments(
+  type: OrderDocumentType,
+  orderIds: string[],
+): Promise<{ pdf: Buffer; orderNumbers: string[] } | null> {
+  const settings = await loadSettings()
+  const data = await getOrderDocumentData(orderIds, settings)
+
+  const eligible = data.filter((entry) =>
+    type === "invoice"
+      ? entry.invoice || INVOICE_STATUSES.includes(entry.order.status)
+      : PACKING_SLIP_STATUSES.includes(entry.order.status),
+  )
+
+  if (eligible.length === 0) return null
+
+  const store = getStoreDetails(settings)
+  const doc = new PdfDocument(
+    eligible.length === 1
+      ? `${type === "invoice" ? "Invoice" : "Packing slip"} ${eligible[0].order.orderNumber}`
+      : type === "invoice"
+        ? "Invoices"
+        : "Packing slips",
+  )
+
+  // Sequential so invoice numbers follow the requested order
+  for (const entry of eligible) {
+    if (type === "invoice") {
+      const invoice = entry.invoice ?? (await issueInvoice(entry.order.id))
+      renderInvoice(doc, { ...entry, invoice }, store)
+    } else {
+      renderPackingSlip(doc, entry, store)
+    }
+  }
+
+  return {
+    pdf: doc.toBuffer(),
+    orderNumbers: eligible.map((entry) => entry.order.orderNumber),
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Packing slip PDF
+ * Lists what goes in the box for the warehouse; no prices.
+ */
+
+import { formatDate } from "@/lib/utils"
+
+import { type PdfDocument, wrapText } from "./document"
+import {
+  CONTENT_WIDTH,
+  drawColumns,
+  drawFooter,
+  drawHeader,
+  drawMeta,
+  drawTable,
+  ensureSpace,
+  formatAddress,
+  MARGIN,
+  MUTED,
+} from "./layout"
+import { type OrderDocumentData, type StoreDetails } from "./order-documents"
+
+export function renderPackingSlip(
+  doc: PdfDocument,
+  data: OrderDocumentData,
+  store: StoreDetails,
+) {
+  const { order } = data
+  const title = "Packing Slip"
+
+  let y = drawHeader(doc, title, store)
+
+  y = drawMeta(
+    doc,
+    [
+      ["Order number", order.orderNumber],
+      ["Order date", formatDate(order.createdAt)],
+      ...(order.shippingMethod
+        ? [
+            [
+              "Shipping method",
+              order.shippingMethod.charAt(0).toUpperCase() +
+                order.shippingMethod.slice(1),
+            ] as [string, string],
+          ]
+        : []),
+    ],
+    y,
+  )
+  y += 16
+
+  y = drawColumns(
+    doc,
+    [
+      { title: "SHIP TO", lines: formatAddress(order.shippingAddress) },
+      {
+        title: "CUSTOMER",
+        lines: [order.customerName, order.customerEmail].filter(
+          (line): line is string => Boolean(line),
+        ),
+      },
+    ],
+    y,
+  )
+
+  y = drawTable(
+    doc,
+    [
+      { header: "ITEM", width: CONTENT_WIDTH - 200 },
+      { header: "SKU", width: 120 },
+      { header: "QTY", width: 40, align: "right" },
+      { header: "PACKED", width: 40, align: "right" },
+    ],
+    order.items.map((item) => [
+      [
+        item.productName,
+        [item.variantName, item.bundleName && `Part of ${item.bundleName}`]
+          .filter(Boolean)
+          .join(" · "),
+      ],
+      item.sku,
+      item.quantity.toString(),
+      "[   ]",
+    ]),
+    y,
+    { continuedTitle: `${title} (continued)`, store },
+  )
+
+  const units = order.items.reduce((sum, item) => sum + item.quantity, 0)
+  doc.text(`Total units: ${units}`, MARGIN, y, { size: 10, bold: true })
+  y += 24
+
+  // Delivery instructions and customer notes matter to the packer
+  const notes = [
+    order.shippingAddress?.instructions &&
+      `Delivery instructions: ${order.shippingAddress.instructions}`,
+    order.notes && `Customer note: ${order.notes}`,
+  ].filter((note): note is string => Boolean(note))
+
+  for (const note of notes) {
+    const lines = wrapText(note, CONTENT_WIDTH, 9)
+    y = ensureSpace(doc, y, lines.length * 12, `${title} (continued)`, store)
+    for (const line of lines) {
+      doc.text(line, MARGIN, y, { size: 9, color: MUTED })
+      y += 12
+    }
+    y += 4
+  }
+
+  drawFooter(doc, `${store.name} · Order ${order.orderNumber}`)
+}
@@ -28,12 +28,30 @@ export const checkoutDataSchema = z.object({
   shipping: shippingAddressSchema,
   shippingMethod: z.enum(["standard", "express"]),
   paymentMethod: z.enum(["card", "bank_transfer", "cod"]),
+  promotionCode: z.string().trim().max(64).optional(),
   notes: z.string().optional(),
 })
 
+// Optional account created by a guest part-way through checkout
+export const checkoutAccountSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  email: z.string().email("Valid email required"),
+  password: z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .regex(
+      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+      "Password must contain at least one uppercase letter, one lowercase letter, and one number",
+    ),
+  shipping: shippingAddressSchema,
+})
+
 export type CheckoutData = z.infer<typeof checkoutDataSchema>
+export type CheckoutAccountInput = z.infer<typeof checkoutAccountSchema>
 export type ContactInfo = z.infer<typeof contactInfoSchema>
 export type ShippingAddress = z.infer<typeof shippingAddressSchema>
+export type ShippingMethod = CheckoutData["shippingMethod"]
+export type CheckoutPaymentMethod = CheckoutData["paymentMethod"]
 
 // ============================================
 // Checkout Interfaces
@@ -70,6 +88,8 @@ export interface CartValidationResult {
       productSlug: string
       productStatus: string
       availableQuantity: number
+      categoryId: string | null
+      weight: number | null // kg per unit
     }>
     subtotal: number
     itemCount: number
@@ -79,11 +99,33 @@ export interface CartValidationResult {
 
 export interface OrderTotals {
   subtotal: number
+  discount: number
   shipping: number
+  codFee: number
   tax: number
   total: number
 }
 
+export interface CheckoutQuote extends OrderTotals {
+  // Shipping cost for each method so the UI can show both options
+  shippingOptions: Record<ShippingMethod, number>
+  shippingDiscount: number // Shipping waived by a free shipping promotion
+  freeShippingThreshold: number | null
+  codAvailable: boolean
+  zoneName: string | null
+  promotion?: { code: string; name: string } | null
+  promotionError?: string | null
+}
+
+export interface CheckoutQuoteInput {
+  shippingMethod: ShippingMethod
+  paymentMethod?: CheckoutPaymentMethod
+  country?: string
+  state?: string
+  promotionCode?: string
+  email?: string // Used for per-customer promotion limits
+}
+
 export interface CreateOrderResult {
   success: boolean
   orderId?: string
@@ -91,6 +133,13 @@ export interface CreateOrderResult {
   error?: string
 }
 
+export interface CheckoutAccountResult {
+  success: boolean
+  signedIn?: boolean // False when the account must verify its email first
+  addressId?: string // The shipping address, now saved to the account
+  error?: string
+}
+
 export interface CheckoutSummary {
   items: Array<{
     id: string
@@ -102,27 +151,5 @@ export interface CheckoutSummary {
   }>
   subtotal: number
   itemCount: number
-}
-
-// ============================================
-// Calculate Order Totals (Pure Function)
-// ============================================
-
-export function calculateOrderTotals(
-  subtotal: number,
-  shippingMethod: "standard" | "express",
-): OrderTotals {
-  // Free shipping over $100 for standard, express always $19.99
-  const shipping =
-    shippingMethod === "express" ? 19.99 : subtotal >= 100 ? 0 : 9.99
-
-  // Estimate tax at 8%
-  const tax = subtotal * 0.08
-
-  return {
-    subtotal,
-    shipping,
-    tax: Math.round(tax * 100) / 100,
-    total: Math.round((subtotal + shipping + tax) * 100) / 100,
-  }
+  totals: CheckoutQuote
 }
@@ -0,0 +1,119 @@
+import { z } from "zod"
+
+import { MAX_VARIANT_OPTIONS } from "@/lib/utils/variants"
+
+// ============================================
+// Validation Schemas
+// ============================================
+
+const priceString = z
+  .string()
+  .refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
+    message: "Invalid price",
+  })
+
+// Schema for creating a product
+export const createProductSchema = z.object({
+  name: z.string().min(1).max(255),
+  slug: z.string().min(1).max(255).optional(),
+  description: z.string().optional(),
+  shortDescription: z.string().max(500).optional(),
+  categoryId: z.string().uuid().optional().nullable(),
+  basePrice: priceString,
+  compareAtPrice: z.string().optional().nullable(),
+  costPrice: z.string().optional().nullable(),
+  status: z.enum(["draft", "active", "archived"]).default("draft"),
+  isFeatured: z.boolean().default(false),
+  metaTitle: z.string().max(100).optional(),
+  metaDescription: z.string().max(300).optional(),
+})
+
+// Schema for creating a product variant
+export const createVariantSchema = z.object({
+  productId: z.string().uuid(),
+  sku: z.string().min(1).max(100).optional(),
+  name: z.string().min(1).max(255),
+  price: priceString,
+  compareAtPrice: z.string().optional().nullable(),
+  costPrice: z.string().optional().nullable(),
+  weight: z.string().optional().nullable(),
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+  initialStock: z.number().int().min(0).default(0),
+})
+
+// Schema for a product's options and variant matrix
+export const variantMatrixSchema = z.object({
+  options: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1).max(50),
+        values: z
+          .array(
+            z.object({
+              value: z.string().trim().min(1).max(100),
+              swatch: z
+                .string()
+                .regex(/^#[0-9a-fA-F]{6}$/)
+                .optional()
+                .nullable(),
+            }),
+          )
+          .min(1, "Every option needs at least one value"),
+      }),
+    )
+    .max(MAX_VARIANT_OPTIONS),
+  variants: z
+    .array(
+      z.object({
+        id: z.string().uuid().optional(),
+        values: z.array(z.string().trim()),
+        sku: z.string().trim().min(1, "Every variant needs a SKU").max(100),
+        price: priceString,
+        compareAtPrice: z.string().optional().nullable(),
+        initialStock: z.number().int().min(0).default(0),
+        isActive: z.boolean().default(true),
+        imageUrl: z.string().optional().nullable(),
+      }),
+    )
+    .min(1, "A product needs at least one variant"),
+})
+
+// Schema for the contents and pricing of a bundle variant
+export const productBundleSchema = z.object({
+  variantId: z.string().uuid(),
+  items: z
+    .array(
+      z.object({
+        componentVariantId: z.string().uuid(),
+        quantity: z.number().int().min(1).max(99),
+      }),
+    )
+    .min(1, "A bundle needs at least one component")
+    .refine(
+      (items) =>
+        new Set(items.map((i) => i.componentVariantId)).size === items.length,
+      { message: "Each component can only be listed once" },
+    ),
+  // Percent off the components; omit to sell at the variant's own price
+  discountPercent: z.number().min(0).max(100).nullable(),
+})
+
+const linkedProductIds = z
+  .array(z.string().uuid())
+  .max(20, "Link at most 20 products")
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: "Each product can only be linked once",
+  })
+
+// Schema for a product's hand-picked recommendations, in display order
+export const productLinksSchema = z.object({
+  productId: z.string().uuid(),
+  related: linkedProductIds,
+  crossSell: linkedProductIds,
+})
+
+export type CreateProductInput = z.infer<typeof createProductSchema>
+export type CreateVariantInput = z.infer<typeof createVariantSchema>
+export type ProductBundleInput = z.infer<typeof productBundleSchema>
+export type ProductLinksInput = z.infer<typeof productLinksSchema>
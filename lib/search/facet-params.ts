@@ -0,0 +1,101 @@
+/**
+ * Facet filters in the URL
+ *
+ * Listings encode facets as plain query parameters so filtered pages can be
+ * shared and crawled:
+ *
+ *   attr_<slug>=<value>  attribute value; repeat it to match any of several
+ *   inStock=1            only products with sellable stock
+ *   onSale=1             only discounted products
+ *   rating=<1-4>         average rating of at least this many stars
+ *
+ * Kept free of database imports so client components can use it too.
+ */
+
+export interface ProductFacetFilters {
+  attributes: Record<string, string[]> // Attribute slug -> accepted values
+  inStock: boolean
+  onSale: boolean
+  minRating: number | null
+}
+
+export type SearchParamsRecord = Record<string, string | string[] | undefined>
+
+const ATTRIBUTE_PARAM_PREFIX = "attr_"
+
+// "& up" rating filters offered on listings
+export const RATING_BUCKETS = [4, 3, 2, 1]
+
+export function attributeParam(slug: string): string {
+  return `${ATTRIBUTE_PARAM_PREFIX}${slug}`
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+export function parseFacetFilters(
+  params: SearchParamsRecord,
+): ProductFacetFilters {
+  const attributes: Record<string, string[]> = {}
+  for (const [key, value] of Object.entries(params)) {
+    if (!key.startsWith(ATTRIBUTE_PARAM_PREFIX)) continue
+    const slug = key.slice(ATTRIBUTE_PARAM_PREFIX.length)
+    const values = [...new Set(toArray(value).filter(Boolean))]
+    if (slug && values.length > 0) attributes[slug] = values
+  }
+
+  const rating = parseInt(toArray(params.rating)[0] ?? "")
+
+  return {
+    attributes,
+    inStock: toArray(params.inStock)[0] === "1",
+    onSale: toArray(params.onSale)[0] === "1",
+    minRating: RATING_BUCKETS.includes(rating) ? rating : null,
+  }
+}
+
+export function hasFacetFilters(filters: ProductFacetFilters): boolean {
+  return (
+    Object.keys(filters.attributes).length > 0 ||
+    filters.inStock ||
+    filters.onSale ||
+    filters.minRating !== null
+  )
+}
+
+/**
+ * Write facet filters onto a query string, e.g. to keep them across
+ * pagination links.
+ */
+export function appendFacetParams(
+  params: URLSearchParams,
+  filters: ProductFacetFilters,
+): void {
+  for (const [slug, values] of Object.entries(filters.attributes)) {
+    for (const value of values) params.append(attributeParam(slug), value)
+  }
+  if (filters.inStock) params.set("inStock", "1")
+  if (filters.onSale) params.set("onSale", "1")
+  if (filters.minRating !== null) {
+    params.set("rating", filters.minRating.toString())
+  }
+}
+
+export function clearFacetParams(params: URLSearchParams): void {
+  for (const key of [...params.keys()]) {
+    if (key.startsWith(ATTRIBUTE_PARAM_PREFIX)) params.delete(key)
+  }
+  params.delete("inStock")
+  params.delete("onSale")
+  params.delete("rating")
+}
+
+export function toURLSearchParams(params: SearchParamsRecord): URLSearchParams {
+  const result = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    for (const item of toArray(value)) result.append(key, item)
+  }
+  return result
+}
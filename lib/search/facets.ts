@@ -0,0 +1,256 @@
+/**
+ * Product facets
+ *
+ * Filter conditions for facet selections, and the counts shown next to each
+ * option for the current result set. Counts are disjunctive: an option's
+ * count applies every selection except those of its own facet, so picking
+ * "Samsung" still shows how many "Apple" products there are.
+ */
+
+import {
+  and,
+  eq,
+  exists,
+  gt,
+  inArray,
+  notExists,
+  notInArray,
+  or,
+  type SQL,
+  sql,
+} from "drizzle-orm"
+
+import { bundleInStockCondition } from "@/lib/catalog/bundles"
+import { onCampaignCondition } from "@/lib/catalog/price-campaigns"
+import { db } from "@/lib/db"
+import {
+  inventoryItems,
+  productAttributes,
+  productAttributeValues,
+  productBundles,
+  products,
+  productVariants,
+  reviews,
+} from "@/lib/db/schema"
+
+import { type ProductFacetFilters, RATING_BUCKETS } from "./facet-params"
+
+export interface ProductFacets {
+  attributes: {
+    slug: string
+    name: string
+    values: { value: string; count: number }[]
+  }[]
+  inStock: number
+  onSale: number
+  ratings: { rating: number; count: number }[]
+}
+
+// An active variant with stock that is not reserved by open orders, or a
+// bundle whose components are all in stock
+const inStockCondition = or(
+  exists(
+    db
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .innerJoin(
+        inventoryItems,
+        eq(inventoryItems.variantId, productVariants.id),
+      )
+      .where(
+        and(
+          eq(productVariants.productId, products.id),
+          eq(productVariants.isActive, true),
+          notExists(
+            db
+              .select({ id: productBundles.id })
+              .from(productBundles)
+              .where(eq(productBundles.variantId, productVariants.id)),
+          ),
+          gt(
+            sql`${inventoryItems.quantity} - ${inventoryItems.reservedQuantity}`,
+            0,
+          ),
+        ),
+      ),
+  ),
+  bundleInStockCondition,
+)!
+
+// Discounted on the product itself or on any active variant, or part of a
+// running price campaign
+const onSaleCondition = or(
+  onCampaignCondition,
+  sql`${products.compareAtPrice}::numeric > ${products.basePrice}::numeric`,
+  exists(
+    db
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .where(
+        and(
+          eq(productVariants.productId, products.id),
+          eq(productVariants.isActive, true),
+          sql`${productVariants.compareAtPrice}::numeric > ${productVariants.price}::numeric`,
+        ),
+      ),
+  ),
+)!
+
+function ratingCondition(minRating: number) {
+  return sql`(
+    select avg(${reviews.rating}) from ${reviews}
+    where ${reviews.productId} = ${products.id} and ${reviews.status} = 'approved'
+  ) >= ${minRating}`
+}
+
+function attributeCondition(slug: string, values: string[]) {
+  return exists(
+    db
+      .select({ id: productAttributeValues.id })
+      .from(productAttributeValues)
+      .innerJoin(
+        productAttributes,
+        eq(productAttributeValues.attributeId, productAttributes.id),
+      )
+      .where(
+        and(
+          eq(productAttributeValues.productId, products.id),
+          eq(productAttributes.slug, slug),
+          inArray(productAttributeValues.value, values),
+        ),
+      ),
+  )
+}
+
+// Values within one attribute are OR'ed, attributes are AND'ed
+function attributeConditions(
+  filters: ProductFacetFilters,
+  exceptSlug?: string,
+): SQL[] {
+  return Object.entries(filters.attributes)
+    .filter(([slug]) => slug !== exceptSlug)
+    .map(([slug, values]) => attributeCondition(slug, values))
+}
+
+function toggleConditions(filters: ProductFacetFilters): SQL[] {
+  const conditions: SQL[] = []
+  if (filters.inStock) conditions.push(inStockCondition)
+  if (filters.onSale) conditions.push(onSaleCondition)
+  if (filters.minRating !== null) {
+    conditions.push(ratingCondition(filters.minRating))
+  }
+  return conditions
+}
+
+/**
+ * Conditions on `products` for every selected facet.
+ */
+export function productFacetConditions(filters: ProductFacetFilters): SQL[] {
+  return [...attributeConditions(filters), ...toggleConditions(filters)]
+}
+
+/**
+ * Facet options and counts for the products matching `baseConditions`
+ * (status, search, category, price...) under the selected facets.
+ */
+export async function getProductFacets(
+  baseConditions: SQL[],
+  filters: ProductFacetFilters,
+): Promise<ProductFacets> {
+  const selectedSlugs = Object.keys(filters.attributes)
+
+  const valueCounts = (conditions: (SQL | undefined)[]) =>
+    db
+      .select({
+        slug: productAttributes.slug,
+        name: productAttributes.name,
+        value: productAttributeValues.value,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(productAttributeValues)
+      .innerJoin(
+        productAttributes,
+        eq(productAttributeValues.attributeId, productAttributes.id),
+      )
+      .innerJoin(products, eq(productAttributeValues.productId, products.id))
+      .where(and(...baseConditions, ...conditions))
+      .groupBy(
+        productAttributes.slug,
+        productAttributes.name,
+        productAttributeValues.value,
+      )
+
+  // Each toggle is counted with the other toggles applied
+  const { inStock, onSale, minRating } = filters
+  const rating = minRating !== null ? ratingCondition(minRating) : undefined
+  const inStockFilter = inStock ? inStockCondition : undefined
+  const onSaleFilter = onSale ? onSaleCondition : undefined
+
+  const [unselectedRows, selectedRows, [toggleCounts]] = await Promise.all([
+    valueCounts([
+      ...productFacetConditions(filters),
+      selectedSlugs.length > 0
+        ? notInArray(productAttributes.slug, selectedSlugs)
+        : undefined,
+    ]),
+    Promise.all(
+      selectedSlugs.map((slug) =>
+        valueCounts([
+          ...attributeConditions(filters, slug),
+          ...toggleConditions(filters),
+          eq(productAttributes.slug, slug),
+        ]),
+      ),
+    ),
+    db
+      .select({
+        inStock: sql<number>`count(*) filter (where ${and(inStockCondition, onSaleFilter, rating)})::int`,
+        onSale: sql<number>`count(*) filter (where ${and(onSaleCondition, inStockFilter, rating)})::int`,
+        ...Object.fromEntries(
+          RATING_BUCKETS.map((bucket) => [
+            `rating${bucket}`,
+            sql<number>`count(*) filter (where ${and(ratingCondition(bucket), inStockFilter, onSaleFilter)})::int`,
+          ]),
+        ),
+      })
+      .from(products)
+      .where(and(...baseConditions, ...attributeConditions(filters))),
+  ])
+
+  // Group value counts by attribute, keeping selected values that no
+  // longer match anything so they can still be unticked
+  const attributeMap = new Map<string, ProductFacets["attributes"][number]>()
+  for (const row of [...unselectedRows, ...selectedRows.flat()]) {
+    const attribute = attributeMap.get(row.slug) ?? {
+      slug: row.slug,
+      name: row.name,
+      values: [],
+    }
+    attribute.values.push({ value: row.value, count: row.count })
+    attributeMap.set(row.slug, attribute)
+  }
+  for (const attribute of attributeMap.values()) {
+    for (const value of filters.attributes[attribute.slug] ?? []) {
+      if (!attribute.values.some((v) => v.value === value)) {
+        attribute.values.push({ value, count: 0 })
+      }
+    }
+    attribute.values.sort((a, b) =>
+      a.value.localeCompare(b.value, undefined, { numeric: true }),
+    )
+  }
+
+  const counts = toggleCounts as Record<string, number> | undefined
+
+  return {
+    attributes: [...attributeMap.values()].sort((a, b) =>
+      a.name.localeCompare(b.name),
+    ),
+    inStock: counts?.inStock ?? 0,
+    onSale: counts?.onSale ?? 0,
+    ratings: RATING_BUCKETS.map((bucket) => ({
+      rating: bucket,
+      count: counts?.[`rating${bucket}`] ?? 0,
+    })),
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Product search index
+ *
+ * Products carry a weighted `search_vector` built from their own text and
+ * from related rows (variant SKUs, category, attribute values, compatible
+ * devices), so it has to be refreshed whenever any of those change:
+ *
+ *   A  name, variant SKUs
+ *   B  category name, attribute values, compatible device names
+ *   C  short description
+ *   D  description
+ */
+
+import { inArray, sql } from "drizzle-orm"
+
+import { type Database, db } from "@/lib/db"
+import { products } from "@/lib/db/schema"
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0]
+
+// Stemming dictionary for product text; SKUs use "simple" so they match verbatim
+export const SEARCH_CONFIG = "english"
+
+const searchDocument = sql`
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(${products.name}, '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce((
+    select string_agg(sku, ' ') from product_variants
+    where product_variants.product_id = ${products.id}
+  ), '')), 'A') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce((
+    select name from categories where categories.id = ${products.categoryId}
+  ), '')), 'B') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce((
+    select string_agg(value, ' ') from product_attribute_values
+    where product_attribute_values.product_id = ${products.id}
+  ), '')), 'B') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce((
+    select string_agg(device_brands.name || ' ' || device_models.name, ' ')
+    from product_compatible_devices
+    inner join device_models on device_models.id = product_compatible_devices.device_model_id
+    inner join device_brands on device_brands.id = device_models.brand_id
+    where product_compatible_devices.product_id = ${products.id}
+  ), '')), 'B') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(${products.shortDescription}, '')), 'C') ||
+  setweight(to_tsvector(${SEARCH_CONFIG}::regconfig, coalesce(${products.description}, '')), 'D')
+`
+
+/**
+ * Rebuild the search document of the given products, or of every product
+ * when no IDs are passed.
+ */
+export async function refreshProductSearchIndex(
+  productIds?: string[],
+  executor: Transaction | Database = db,
+): Promise<void> {
+  if (productIds && productIds.length === 0) return
+
+  await executor
+    .update(products)
+    .set({ searchVector: searchDocument })
+    .where(productIds ? inArray(products.id, productIds) : undefined)
+}
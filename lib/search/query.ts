@@ -0,0 +1,72 @@
+/**
+ * Product search queries
+ *
+ * Full-text matches against `products.search_vector`, with a pg_trgm
+ * fallback on the product name so typos ("samsng") still find results.
+ */
+
+import { sql } from "drizzle-orm"
+
+import { products } from "@/lib/db/schema"
+
+import { SEARCH_CONFIG } from "./product-index"
+
+// Longest query we search for or log
+const MAX_QUERY_LENGTH = 200
+
+/**
+ * Canonical form of a search: trimmed, lowercased and single-spaced, so
+ * "  Samsung   Case" and "samsung case" are logged as the same term.
+ */
+export function normalizeSearchQuery(query: string): string {
+  return query
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase()
+    .slice(0, MAX_QUERY_LENGTH)
+}
+
+// Stemmed for prose, plain for SKUs and model numbers
+function fullTextQuery(query: string) {
+  return sql`(websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${query}) || websearch_to_tsquery('simple', ${query}))`
+}
+
+// Every word as a prefix, for autocomplete while the customer is typing
+function prefixQuery(query: string) {
+  const terms = query
+    .split(" ")
+    .map((word) => word.replace(/[^\p{L}\p{N}]/gu, ""))
+    .filter(Boolean)
+    .map((word) => `${word}:*`)
+
+  if (terms.length === 0) return sql`''::tsquery`
+
+  return sql`to_tsquery('simple', ${terms.join(" & ")})`
+}
+
+/**
+ * Products matching a normalized query, by text or by a close name.
+ * `<%` uses pg_trgm's word similarity threshold (0.6 by default).
+ */
+export function productSearchCondition(
+  query: string,
+  options: { prefix?: boolean } = {},
+) {
+  const tsQuery = options.prefix ? prefixQuery(query) : fullTextQuery(query)
+  return sql`(${products.searchVector} @@ ${tsQuery} or ${query} <% ${products.name})`
+}
+
+/**
+ * Relevance of a product for a normalized query: text rank first, then
+ * name similarity for typo matches, which have no text rank.
+ */
+export function productSearchRank(
+  query: string,
+  options: { prefix?: boolean } = {},
+) {
+  const tsQuery = options.prefix ? prefixQuery(query) : fullTextQuery(query)
+  return {
+    textRank: sql<number>`ts_rank(${products.searchVector}, ${tsQuery})`,
+    similarity: sql<number>`word_similarity(${query}, ${products.name})`,
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Pricing configuration
+ *
+ * Loads the shipping and tax settings and the active regional rules the
+ * pricing engine in lib/utils/pricing.ts works from. Read by checkout and
+ * the cart page; the admin actions that edit the rules live in
+ * lib/actions/shipping.ts.
+ */
+
+import { asc, eq } from "drizzle-orm"
+
+import { getSiteSettings } from "@/lib/actions/settings"
+import { db } from "@/lib/db"
+import { shippingZones, taxRates } from "@/lib/db/schema"
+import type { PricingConfig } from "@/lib/utils/pricing"
+import { getSettingValue } from "@/lib/utils/settings-config"
+
+function toNumber(value: string | null | undefined): number {
+  const parsed = parseFloat(value ?? "")
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+/**
+ * Load shipping/tax settings and active regional rules for the pricing engine
+ */
+export async function getPricingConfig(): Promise<PricingConfig> {
+  const [settings, zones, rates] = await Promise.all([
+    getSiteSettings(),
+    db
+      .select()
+      .from(shippingZones)
+      .where(eq(shippingZones.isActive, true))
+      .orderBy(asc(shippingZones.sortOrder)),
+    db.select().from(taxRates).where(eq(taxRates.isActive, true)),
+  ])
+
+  const setting = (key: string) => getSettingValue(settings, key)
+
+  return {
+    standardRate: toNumber(setting("standard_shipping_rate")),
+    expressRate: toNumber(setting("express_shipping_rate")),
+    ratePerKg: toNumber(setting("shipping_rate_per_kg")),
+    freeShippingThreshold: toNumber(setting("free_shipping_threshold")),
+    codEnabled: setting("enable_cod") === "true",
+    codFee: toNumber(setting("cod_fee")),
+    defaultTaxRate: toNumber(setting("default_tax_rate")),
+    taxShipping: setting("tax_shipping") === "true",
+    zones: zones.map((zone) => ({
+      id: zone.id,
+      name: zone.name,
+      countries: zone.countries,
+      states: zone.states,
+      standardRate: toNumber(zone.standardRate),
+      expressRate: toNumber(zone.expressRate),
+      ratePerKg: toNumber(zone.ratePerKg),
+      freeShippingThreshold:
+        zone.freeShippingThreshold === null
+          ? null
+          : toNumber(zone.freeShippingThreshold),
+      sortOrder: zone.sortOrder,
+    })),
+    taxRates: rates.map((rate) => ({
+      id: rate.id,
+      name: rate.name,
+      country: rate.country,
+      state: rate.state,
+      rate: toNumber(rate.rate),
+      appliesToShipping: rate.appliesToShipping,
+    })),
+  }
+}
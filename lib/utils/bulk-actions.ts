@@ -0,0 +1,53 @@
+/**
+ * Bulk action utilities
+ * Pure helpers shared by the admin bulk actions and the tables that call
+ * them. Each selected row is processed on its own, so one failing row does
+ * not stop the others.
+ */
+
+import { z } from "zod"
+
+export const MAX_BULK_ITEMS = 100
+
+export const bulkIdsSchema = z
+  .array(z.string().uuid())
+  .min(1, "Select at least one row")
+  .max(MAX_BULK_ITEMS, `Select at most ${MAX_BULK_ITEMS} rows at a time`)
+
+export interface BulkRowResult {
+  id: string
+  label: string // Shown to the admin, e.g. the product name or order number
+  success: boolean
+  error?: string
+}
+
+/**
+ * Summary of per-row results for a toast, e.g. "3 products updated" with
+ * the failed rows listed in the description.
+ */
+export function summarizeBulkResults(
+  results: BulkRowResult[],
+  noun: string,
+  verb: string,
+): { title: string; description?: string; allSucceeded: boolean } {
+  const succeeded = results.filter((r) => r.success).length
+  const failed = results.filter((r) => !r.success)
+  const title = `${succeeded} ${noun}${succeeded === 1 ? "" : "s"} ${verb}`
+
+  if (failed.length === 0) {
+    return { title, allSucceeded: true }
+  }
+
+  const shown = failed
+    .slice(0, 5)
+    .map((r) => `${r.label}: ${r.error || "Failed"}`)
+  if (failed.length > shown.length) {
+    shown.push(`and ${failed.length - shown.length} more`)
+  }
+
+  return {
+    title: `${title}, ${failed.length} failed`,
+    description: shown.join("\n"),
+    allSucceeded: false,
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Bundle utilities
+ * Pure availability and price calculations for bundles. Bundle contents
+ * are loaded server-side (see lib/catalog/bundles.ts).
+ */
+
+export interface BundleComponentLine {
+  price: number // Regular unit price of the component variant
+  quantity: number // Units per bundle
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Bundles that can be sold from component stock: the scarcest component
+ * decides. A bundle without components is never available.
+ */
+export function bundleAvailability(
+  components: Array<{ available: number; quantity: number }>,
+): number {
+  if (components.length === 0) return 0
+
+  return Math.max(
+    Math.min(...components.map((c) => Math.floor(c.available / c.quantity))),
+    0,
+  )
+}
+
+/**
+ * What the components of one bundle cost bought separately.
+ */
+export function bundleComponentTotal(
+  components: BundleComponentLine[],
+): number {
+  return round(components.reduce((sum, c) => sum + c.price * c.quantity, 0))
+}
+
+/**
+ * Bundle price for a percent discount off its components.
+ */
+export function discountedBundlePrice(
+  components: BundleComponentLine[],
+  discountPercent: number,
+): number {
+  return round(bundleComponentTotal(components) * (1 - discountPercent / 100))
+}
+
+/**
+ * Split one bundle's selling price into a unit price per component, in
+ * proportion to what the components cost separately. Order lines carry
+ * these prices, so refunds and reports see what each component earned.
+ *
+ * Works in cents. Leftover cents go to the components with the fewest
+ * units per bundle; when every component has several units a cent or two
+ * may be left unallocated, never over-allocated.
+ */
+export function allocateBundlePrice(
+  bundlePrice: number,
+  components: BundleComponentLine[],
+): number[] {
+  if (components.length === 0) return []
+
+  const totalCents = Math.round(bundlePrice * 100)
+  const weights = components.map((c) => c.price * c.quantity)
+  const weightSum = weights.reduce((sum, w) => sum + w, 0)
+  // Free components split the price by units instead
+  const shares =
+    weightSum > 0
+      ? weights.map((w) => w / weightSum)
+      : components.map(
+          (c) =>
+            c.quantity / components.reduce((sum, x) => sum + x.quantity, 0),
+        )
+
+  const unitCents = components.map((c, i) =>
+    Math.floor((totalCents * shares[i]) / c.quantity),
+  )
+  let remaining =
+    totalCents -
+    unitCents.reduce((sum, cents, i) => sum + cents * components[i].quantity, 0)
+
+  const byQuantity = components
+    .map((c, i) => ({ index: i, quantity: c.quantity }))
+    .sort((a, b) => a.quantity - b.quantity)
+  for (const { index, quantity } of byQuantity) {
+    const steps = Math.floor(remaining / quantity)
+    if (steps <= 0) continue
+    unitCents[index] += steps
+    remaining -= steps * quantity
+  }
+
+  return unitCents.map((cents) => cents / 100)
+}
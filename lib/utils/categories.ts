@@ -0,0 +1,84 @@
+/**
+ * Category tree utilities
+ * Pure helpers to nest, flatten and check category hierarchies, shared by
+ * the admin tree editor and the category actions.
+ */
+
+interface CategoryRow {
+  id: string
+  parentId: string | null
+}
+
+export type CategoryNode<T> = T & { children: CategoryNode<T>[] }
+
+/**
+ * Nest categories under their parents, keeping the order of `rows` among
+ * siblings. Categories whose parent is missing (e.g. filtered out as
+ * inactive) are dropped along with their subtree.
+ */
+export function buildCategoryTree<T extends CategoryRow>(
+  rows: T[],
+): CategoryNode<T>[] {
+  const nodes = new Map<string, CategoryNode<T>>(
+    rows.map((row) => [row.id, { ...row, children: [] }]),
+  )
+  const roots: CategoryNode<T>[] = []
+
+  for (const row of rows) {
+    const node = nodes.get(row.id)!
+    if (!row.parentId) {
+      roots.push(node)
+    } else {
+      nodes.get(row.parentId)?.children.push(node)
+    }
+  }
+
+  return roots
+}
+
+/**
+ * Depth-first list of a tree with each category's depth and name path,
+ * e.g. for indented select options.
+ */
+export function flattenCategoryTree<T extends { name: string }>(
+  tree: CategoryNode<T>[],
+  level = 0,
+  parentPath = "",
+): (T & { level: number; path: string })[] {
+  return tree.flatMap(({ children, ...category }) => {
+    const path = parentPath ? `${parentPath} / ${category.name}` : category.name
+    return [
+      { ...(category as unknown as T), level, path },
+      ...flattenCategoryTree(children, level + 1, path),
+    ]
+  })
+}
+
+/**
+ * IDs of a category and everything below it.
+ */
+export function descendantIds(rows: CategoryRow[], id: string): Set<string> {
+  const ids = new Set([id])
+  let added = true
+  while (added) {
+    added = false
+    for (const row of rows) {
+      if (row.parentId && ids.has(row.parentId) && !ids.has(row.id)) {
+        ids.add(row.id)
+        added = true
+      }
+    }
+  }
+  return ids
+}
+
+/**
+ * Whether moving `id` under `parentId` would make it its own ancestor.
+ */
+export function wouldCreateCycle(
+  rows: CategoryRow[],
+  id: string,
+  parentId: string | null,
+): boolean {
+  return parentId !== null && descendantIds(rows, id).has(parentId)
+}
@@ -0,0 +1,89 @@
+/**
+ * CSV utilities
+ * Pure helpers to read and write RFC 4180 CSV, shared by the catalog import
+ * and export.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with commas,
+ * quotes and line breaks, CRLF line endings and a UTF-8 byte order mark.
+ * Semicolon-separated files (saved by some Excel locales) are detected
+ * from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "")
+  const headerLine = input.slice(0, input.search(/\r?\n|$/))
+  const delimiter =
+    headerLine.split(";").length > headerLine.split(",").length ? ";" : ","
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.map((cells) => cells.map(unescapeFormula))
+}
+
+// Undo the apostrophe `toCsv` puts in front of formula-like cells
+function unescapeFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell
+}
+
+function formatCell(value: CsvCell): string {
+  if (value === null || value === undefined) return ""
+
+  let cell = String(value)
+  if (typeof value === "string" && FORMULA_PREFIX.test(cell)) {
+    cell = `'${cell}`
+  }
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+}
+
+/**
+ * Serialize rows to CSV. Formula-like text is prefixed with an apostrophe
+ * so spreadsheet apps do not evaluate it; `parseCsv` removes it again.
+ */
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(formatCell).join(",")).join("\r\n") + "\r\n"
+}
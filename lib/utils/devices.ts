@@ -0,0 +1,14 @@
+/**
+ * Device utilities
+ * Pure helpers for naming device models.
+ */
+
+/**
+ * Full name of a device model: "Apple iPhone 15". Model names that already
+ * start with the brand aren't prefixed twice.
+ */
+export function deviceDisplayName(brandName: string, modelName: string) {
+  return modelName.toLowerCase().startsWith(brandName.toLowerCase())
+    ? modelName
+    : `${brandName} ${modelName}`
+}
@@ -0,0 +1,63 @@
+/**
+ * Notification utilities
+ * Customer notification events and channels, shared by the preferences
+ * form and the server-side senders.
+ */
+
+export const NOTIFICATION_CHANNELS = ["email", "inApp"] as const
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number]
+
+export const NOTIFICATION_EVENTS = [
+  "order_confirmation",
+  "order_status",
+  "order_cancellation",
+  "payment",
+  "review",
+  "back_in_stock",
+] as const
+
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number]
+
+export const notificationEventConfig: Record<
+  NotificationEvent,
+  { label: string; description: string }
+> = {
+  order_confirmation: {
+    label: "Order confirmation",
+    description: "When you place an order",
+  },
+  order_status: {
+    label: "Shipping updates",
+    description: "When your order is processed, ships and is delivered",
+  },
+  order_cancellation: {
+    label: "Cancellations and refunds",
+    description: "When an order is cancelled or refunded",
+  },
+  payment: {
+    label: "Payment updates",
+    description: "When your bank transfer is approved or rejected",
+  },
+  review: {
+    label: "Review updates",
+    description: "When your review is published or declined",
+  },
+  back_in_stock: {
+    label: "Back in stock",
+    description: "When a product you asked about is available again",
+  },
+}
+
+export type NotificationPreferences = Partial<
+  Record<NotificationEvent, Partial<Record<NotificationChannel, boolean>>>
+>
+
+// Every channel is on until the customer turns it off
+export function isNotificationEnabled(
+  preferences: NotificationPreferences | null | undefined,
+  event: NotificationEvent,
+  channel: NotificationChannel,
+): boolean {
+  return preferences?.[event]?.[channel] ?? true
+}
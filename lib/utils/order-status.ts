@@ -17,6 +17,15 @@ export const ORDER_STATUSES = [
 
 export type OrderStatus = (typeof ORDER_STATUSES)[number]
 
+// Orders that have been paid for and not cancelled or refunded since
+export const PAID_ORDER_STATUSES = [
+  "paid",
+  "processing",
+  "packing",
+  "shipped",
+  "delivered",
+] as const satisfies readonly OrderStatus[]
+
 export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
   draft: "Draft",
   pending_payment: "Pending Payment",
@@ -46,10 +55,11 @@ export function getValidTransitions(currentStatus: string): string[] {
   const validTransitions: Record<string, string[]> = {
     draft: ["pending_payment", "cancelled"],
     pending_payment: ["paid", "cancelled"],
-    paid: ["processing", "cancelled"],
-    processing: ["packing", "cancelled"],
-    packing: ["shipped", "cancelled"],
-    shipped: ["delivered"],
+    // A full refund closes a paid order at any point until delivery
+    paid: ["processing", "cancelled", "refunded"],
+    processing: ["packing", "cancelled", "refunded"],
+    packing: ["shipped", "cancelled", "refunded"],
+    shipped: ["delivered", "refunded"],
     delivered: ["refunded"],
     cancelled: [],
     refunded: [],
@@ -0,0 +1,111 @@
+/**
+ * Price campaign utilities
+ * Pure effective-price resolution for scheduled sales. Active campaigns are
+ * loaded server-side (see lib/catalog/price-campaigns.ts).
+ */
+
+export type PriceCampaignType = "percentage" | "fixed_price"
+
+export interface PriceCampaignRule {
+  id: string
+  name: string
+  type: PriceCampaignType
+  value: number
+  productIds: string[]
+  variantIds: string[]
+  categoryIds: string[] // Including subcategories
+  startsAt: Date
+  endsAt: Date
+}
+
+export interface PricedItem {
+  productId: string
+  variantId?: string | null // Omitted for product-level (listing) prices
+  categoryId: string | null
+}
+
+// Serializable, so it survives unstable_cache and client props
+export interface AppliedCampaign {
+  id: string
+  name: string
+  endsAt: string
+}
+
+export interface EffectivePrice {
+  price: number
+  compareAtPrice: number | null
+  campaign: AppliedCampaign | null
+}
+
+export const PRICE_CAMPAIGN_TYPE_LABELS: Record<PriceCampaignType, string> = {
+  percentage: "Percentage Off",
+  fixed_price: "Fixed Sale Price",
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Check whether a campaign targets an item
+ */
+export function campaignTargets(
+  rule: PriceCampaignRule,
+  item: PricedItem,
+): boolean {
+  return (
+    rule.productIds.includes(item.productId) ||
+    (!!item.variantId && rule.variantIds.includes(item.variantId)) ||
+    (item.categoryId !== null && rule.categoryIds.includes(item.categoryId))
+  )
+}
+
+/**
+ * Price of an item under a campaign. Never above the regular price.
+ */
+export function campaignPrice(rule: PriceCampaignRule, price: number): number {
+  const discounted =
+    rule.type === "percentage"
+      ? price * (1 - Math.min(rule.value, 100) / 100)
+      : rule.value
+  return round(Math.max(0, Math.min(price, discounted)))
+}
+
+/**
+ * Resolve what an item sells for right now. When campaigns overlap the
+ * lowest price wins. A campaign price is shown against the higher of the
+ * regular price and the item's own compare-at price.
+ */
+export function resolveEffectivePrice(
+  item: PricedItem,
+  price: number,
+  compareAtPrice: number | null,
+  rules: PriceCampaignRule[],
+  now: Date = new Date(),
+): EffectivePrice {
+  let best: { price: number; rule: PriceCampaignRule } | null = null
+
+  for (const rule of rules) {
+    if (now < rule.startsAt || now >= rule.endsAt) continue
+    if (!campaignTargets(rule, item)) continue
+
+    const candidate = campaignPrice(rule, price)
+    if (candidate < price && (!best || candidate < best.price)) {
+      best = { price: candidate, rule }
+    }
+  }
+
+  if (!best) {
+    return { price, compareAtPrice, campaign: null }
+  }
+
+  return {
+    price: best.price,
+    compareAtPrice: Math.max(price, compareAtPrice ?? 0),
+    campaign: {
+      id: best.rule.id,
+      name: best.rule.name,
+      endsAt: best.rule.endsAt.toISOString(),
+    },
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Pricing utilities
+ * Pure shipping and tax calculations shared by checkout actions.
+ * Configuration is loaded server-side (see lib/actions/shipping.ts).
+ */
+
+import type {
+  CheckoutPaymentMethod,
+  CheckoutQuote,
+  ShippingMethod,
+} from "@/lib/schemas/checkout"
+
+export interface ShippingZoneRule {
+  id: string
+  name: string
+  countries: string[]
+  states: string[]
+  standardRate: number
+  expressRate: number
+  ratePerKg: number
+  freeShippingThreshold: number | null
+  sortOrder: number
+}
+
+export interface TaxRule {
+  id: string
+  name: string
+  country: string
+  state: string | null
+  rate: number // Percentage
+  appliesToShipping: boolean
+}
+
+export interface PricingConfig {
+  standardRate: number
+  expressRate: number
+  ratePerKg: number
+  freeShippingThreshold: number // 0 disables free shipping
+  codEnabled: boolean
+  codFee: number
+  defaultTaxRate: number // Percentage
+  taxShipping: boolean
+  zones: ShippingZoneRule[]
+  taxRates: TaxRule[]
+}
+
+export interface PricingInput {
+  subtotal: number
+  weight: number // Total cart weight in kg
+  discount?: number
+  freeShipping?: boolean // Waives shipping (e.g. free shipping promotion)
+  shippingMethod: ShippingMethod
+  paymentMethod?: CheckoutPaymentMethod
+  country?: string
+  state?: string
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function normalize(value: string | null | undefined): string {
+  return (value ?? "").trim().toUpperCase()
+}
+
+/**
+ * Find the most specific active zone for a destination.
+ * Country + state beats country only, which beats the catch-all zone.
+ */
+export function matchShippingZone(
+  zones: ShippingZoneRule[],
+  country?: string,
+  state?: string,
+): ShippingZoneRule | null {
+  const c = normalize(country)
+  const s = normalize(state)
+
+  let best: { zone: ShippingZoneRule; score: number } | null = null
+
+  for (const zone of zones) {
+    const countries = zone.countries.map(normalize)
+    const states = zone.states.map(normalize)
+
+    if (countries.length > 0 && !countries.includes(c)) continue
+    if (states.length > 0 && !states.includes(s)) continue
+
+    const score = (countries.length > 0 ? 2 : 0) + (states.length > 0 ? 1 : 0)
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && zone.sortOrder < best.zone.sortOrder)
+    ) {
+      best = { zone, score }
+    }
+  }
+
+  return best?.zone ?? null
+}
+
+/**
+ * Find the most specific tax rule for a destination
+ */
+export function matchTaxRule(
+  rules: TaxRule[],
+  country?: string,
+  state?: string,
+): TaxRule | null {
+  const c = normalize(country)
+  const s = normalize(state)
+
+  const countryRules = rules.filter((r) => normalize(r.country) === c)
+
+  return (
+    countryRules.find((r) => r.state && normalize(r.state) === s) ??
+    countryRules.find((r) => !r.state) ??
+    null
+  )
+}
+
+/**
+ * Calculate order totals from a pricing configuration
+ */
+export function calculateOrderTotals(
+  input: PricingInput,
+  config: PricingConfig,
+): CheckoutQuote {
+  const subtotal = round(input.subtotal)
+  const discount = round(Math.min(input.discount ?? 0, subtotal))
+  const zone = matchShippingZone(config.zones, input.country, input.state)
+
+  const ratePerKg = zone ? zone.ratePerKg : config.ratePerKg
+  const weightCharge = Math.max(0, input.weight) * ratePerKg
+  const threshold = zone?.freeShippingThreshold ?? config.freeShippingThreshold
+
+  // Free shipping only applies to the standard method
+  const qualifiesForFree = threshold > 0 && subtotal - discount >= threshold
+
+  const baseOptions: Record<ShippingMethod, number> = {
+    standard: qualifiesForFree
+      ? 0
+      : round((zone ? zone.standardRate : config.standardRate) + weightCharge),
+    express: round(
+      (zone ? zone.expressRate : config.expressRate) + weightCharge,
+    ),
+  }
+  const shippingOptions: Record<ShippingMethod, number> = input.freeShipping
+    ? { standard: 0, express: 0 }
+    : baseOptions
+
+  const shipping = shippingOptions[input.shippingMethod]
+  const shippingDiscount = baseOptions[input.shippingMethod] - shipping
+  const codFee =
+    input.paymentMethod === "cod" && config.codEnabled
+      ? round(config.codFee)
+      : 0
+
+  const taxRule = matchTaxRule(config.taxRates, input.country, input.state)
+  const taxRate = taxRule ? taxRule.rate : config.defaultTaxRate
+  const taxShipping = taxRule ? taxRule.appliesToShipping : config.taxShipping
+  const taxable = subtotal - discount + (taxShipping ? shipping + codFee : 0)
+  const tax = round((taxable * taxRate) / 100)
+
+  return {
+    subtotal,
+    discount,
+    shipping,
+    codFee,
+    tax,
+    total: round(subtotal - discount + shipping + codFee + tax),
+    shippingOptions,
+    shippingDiscount,
+    freeShippingThreshold: threshold > 0 ? threshold : null,
+    codAvailable: config.codEnabled,
+    zoneName: zone?.name ?? null,
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Promotion utilities
+ * Pure discount calculations for coupon codes.
+ * Usage limits are enforced server-side at checkout
+ * (see lib/actions/checkout.ts).
+ */
+
+export type PromotionType = "percentage" | "fixed_amount" | "free_shipping"
+
+export interface PromotionRule {
+  code: string
+  type: PromotionType
+  value: number
+  maxDiscount: number | null
+  minSubtotal: number | null
+  productIds: string[]
+  categoryIds: string[]
+  startsAt: Date | null
+  endsAt: Date | null
+  isActive: boolean
+}
+
+export interface PromotionCartItem {
+  productId: string
+  categoryId: string | null
+  price: number
+  quantity: number
+}
+
+export type PromotionResult =
+  | { success: true; discount: number; freeShipping: boolean }
+  | { success: false; error: string }
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percentage: "Percentage",
+  fixed_amount: "Fixed Amount",
+  free_shipping: "Free Shipping",
+}
+
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Check whether an item falls inside the promotion scope
+ */
+function isEligible(rule: PromotionRule, item: PromotionCartItem): boolean {
+  if (rule.productIds.length === 0 && rule.categoryIds.length === 0) {
+    return true
+  }
+
+  return (
+    rule.productIds.includes(item.productId) ||
+    (item.categoryId !== null && rule.categoryIds.includes(item.categoryId))
+  )
+}
+
+/**
+ * Calculate the discount a promotion gives for a cart
+ */
+export function calculatePromotionDiscount(
+  rule: PromotionRule,
+  items: PromotionCartItem[],
+  now: Date = new Date(),
+): PromotionResult {
+  if (!rule.isActive) {
+    return { success: false, error: "This code is no longer active" }
+  }
+
+  if (rule.startsAt && now < rule.startsAt) {
+    return { success: false, error: "This code is not active yet" }
+  }
+
+  if (rule.endsAt && now > rule.endsAt) {
+    return { success: false, error: "This code has expired" }
+  }
+
+  const subtotal = items.reduce((sum, i) => sum + i.price * i.quantity, 0)
+  if (rule.minSubtotal !== null && subtotal < rule.minSubtotal) {
+    return {
+      success: false,
+      error: `A minimum subtotal of ${rule.minSubtotal.toFixed(2)} is required`,
+    }
+  }
+
+  const eligibleSubtotal = items
+    .filter((item) => isEligible(rule, item))
+    .reduce((sum, i) => sum + i.price * i.quantity, 0)
+
+  if (eligibleSubtotal === 0) {
+    return {
+      success: false,
+      error: "This code does not apply to any items in your cart",
+    }
+  }
+
+  switch (rule.type) {
+    case "percentage": {
+      const discount = (eligibleSubtotal * rule.value) / 100
+      return {
+        success: true,
+        discount: round(
+          rule.maxDiscount !== null
+            ? Math.min(discount, rule.maxDiscount)
+            : discount,
+        ),
+        freeShipping: false,
+      }
+    }
+    case "fixed_amount":
+      return {
+        success: true,
+        discount: round(Math.min(rule.value, eligibleSubtotal)),
+        freeShipping: false,
+      }
+    case "free_shipping":
+      return { success: true, discount: 0, freeShipping: true }
+  }
+}
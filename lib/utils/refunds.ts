@@ -0,0 +1,51 @@
+/**
+ * Refund utilities
+ * Pure amount calculations shared by the refund dialog and the server.
+ */
+
+export interface RefundOrderTotals {
+  subtotal: number
+  discountAmount: number
+  taxAmount: number
+}
+
+export interface RefundLine {
+  unitPrice: number
+  quantity: number
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Amount owed back for a single order line. The line carries its share of
+ * the order discount and tax so partial refunds never exceed what was paid.
+ */
+export function calculateLineRefund(
+  order: RefundOrderTotals,
+  line: RefundLine,
+): number {
+  const lineSubtotal = line.unitPrice * line.quantity
+  if (order.subtotal <= 0) return 0
+
+  const share = lineSubtotal / order.subtotal
+  return round(
+    lineSubtotal - order.discountAmount * share + order.taxAmount * share,
+  )
+}
+
+/**
+ * Suggested refund for a set of lines, capped at the remaining balance
+ */
+export function calculateRefundAmount(
+  order: RefundOrderTotals,
+  lines: RefundLine[],
+  refundableBalance: number,
+): number {
+  const total = lines.reduce(
+    (sum, line) => sum + calculateLineRefund(order, line),
+    0,
+  )
+  return round(Math.max(0, Math.min(total, refundableBalance)))
+}
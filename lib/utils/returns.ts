@@ -0,0 +1,113 @@
+/**
+ * Return (RMA) utilities
+ * Pure helpers shared by the storefront return form and the admin queue.
+ */
+
+export const RETURN_STATUSES = [
+  "requested",
+  "approved",
+  "rejected",
+  "received",
+  "completed",
+  "cancelled",
+] as const
+
+export type ReturnStatus = (typeof RETURN_STATUSES)[number]
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Requested",
+  approved: "Approved",
+  rejected: "Rejected",
+  received: "Received",
+  completed: "Completed",
+  cancelled: "Cancelled",
+}
+
+export const RETURN_STATUS_COLORS: Record<ReturnStatus, string> = {
+  requested: "bg-yellow-100 text-yellow-800",
+  approved: "bg-blue-100 text-blue-800",
+  rejected: "bg-red-100 text-red-800",
+  received: "bg-purple-100 text-purple-800",
+  completed: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+}
+
+export const RETURN_REASONS = [
+  "damaged",
+  "defective",
+  "wrong_item",
+  "not_as_described",
+  "no_longer_needed",
+  "other",
+] as const
+
+export type ReturnReason = (typeof RETURN_REASONS)[number]
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  damaged: "Arrived damaged",
+  defective: "Defective or not working",
+  wrong_item: "Wrong item received",
+  not_as_described: "Not as described",
+  no_longer_needed: "No longer needed",
+  other: "Other",
+}
+
+// Requests that no longer hold on to their items
+export const CLOSED_RETURN_STATUSES: ReturnStatus[] = ["rejected", "cancelled"]
+
+export const MAX_RETURN_PHOTOS = 5
+
+/**
+ * Return photos must be files uploaded to the store's blob storage
+ */
+export function isReturnPhotoUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return (
+      url.protocol === "https:" &&
+      url.hostname.endsWith(".public.blob.vercel-storage.com") &&
+      url.pathname.startsWith("/returns/")
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Last day a delivered order can be returned
+ */
+export function getReturnDeadline(
+  deliveredAt: Date | string | null,
+  windowDays: number,
+): Date | null {
+  if (!deliveredAt) return null
+
+  const deadline = new Date(deliveredAt)
+  deadline.setDate(deadline.getDate() + windowDays)
+  return deadline
+}
+
+/**
+ * Whether a delivered order is still inside the return window
+ */
+export function isWithinReturnWindow(
+  deliveredAt: Date | string | null,
+  windowDays: number,
+  now: Date = new Date(),
+): boolean {
+  const deadline = getReturnDeadline(deliveredAt, windowDays)
+  return deadline !== null && now <= deadline
+}
+
+/**
+ * Units of an order line the customer can still send back. A completed
+ * return is refunded against the same line, so the larger of the two
+ * counts is what has already been used up.
+ */
+export function getReturnableQuantity(
+  ordered: number,
+  returned: number,
+  refunded: number,
+): number {
+  return Math.max(0, ordered - Math.max(returned, refunded))
+}
@@ -55,6 +55,18 @@ export function getSettingCategories(): SettingCategory[] {
           type: "tel",
           default: "",
         },
+        {
+          key: "store_address",
+          label: "Store Address",
+          type: "textarea",
+          default: "",
+        },
+        {
+          key: "tax_registration_number",
+          label: "Tax Registration Number",
+          type: "text",
+          default: "",
+        },
       ],
     },
     {
@@ -114,6 +126,31 @@ export function getSettingCategories(): SettingCategory[] {
           default: "true",
         },
         { key: "cod_fee", label: "COD Fee", type: "number", default: "100" },
+        {
+          key: "shipping_rate_per_kg",
+          label: "Weight Rate (per kg)",
+          type: "number",
+          default: "0",
+        },
+      ],
+    },
+    {
+      id: "tax",
+      name: "Tax",
+      description: "Default tax rules (regional rates are managed separately)",
+      settings: [
+        {
+          key: "default_tax_rate",
+          label: "Default Tax Rate (%)",
+          type: "number",
+          default: "0",
+        },
+        {
+          key: "tax_shipping",
+          label: "Apply Tax to Shipping",
+          type: "boolean",
+          default: "false",
+        },
       ],
     },
     {
@@ -127,6 +164,12 @@ export function getSettingCategories(): SettingCategory[] {
           type: "text",
           default: "IUS",
         },
+        {
+          key: "invoice_prefix",
+          label: "Invoice Number Prefix",
+          type: "text",
+          default: "INV",
+        },
         {
           key: "low_stock_threshold",
           label: "Low Stock Alert Threshold",
@@ -145,6 +188,12 @@ export function getSettingCategories(): SettingCategory[] {
           type: "boolean",
           default: "true",
         },
+        {
+          key: "return_window_days",
+          label: "Return window after delivery (days)",
+          type: "number",
+          default: "30",
+        },
       ],
     },
     {
@@ -183,6 +232,13 @@ export function getSettingCategories(): SettingCategory[] {
           type: "boolean",
           default: "true",
         },
+        {
+          key: "card_payment_provider",
+          label: "Card Payment Provider",
+          type: "select",
+          default: "directpay",
+          options: ["directpay", "stripe"],
+        },
         {
           key: "enable_bank_transfer",
           label: "Enable Bank Transfer",
@@ -239,3 +295,21 @@ export function getSettingCategories(): SettingCategory[] {
     },
   ]
 }
+
+/**
+ * Resolve a setting value, falling back to its definition default
+ * when it has never been saved.
+ */
+export function getSettingValue(
+  settings: Record<string, string>,
+  key: string,
+): string {
+  if (settings[key] !== undefined) return settings[key]
+
+  for (const category of getSettingCategories()) {
+    const definition = category.settings.find((s) => s.key === key)
+    if (definition) return definition.default
+  }
+
+  return ""
+}
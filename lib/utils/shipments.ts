@@ -0,0 +1,85 @@
+/**
+ * Shipment utilities
+ * Pure helpers shared by the admin shipment tools, emails and the storefront.
+ */
+
+export interface Carrier {
+  id: string
+  name: string
+  // {tracking} is replaced with the URL-encoded tracking number
+  trackingUrlTemplate: string | null
+}
+
+export const CARRIERS: Carrier[] = [
+  {
+    id: "dhl",
+    name: "DHL Express",
+    trackingUrlTemplate:
+      "https://www.dhl.com/global-en/home/tracking/tracking-express.html?submit=1&tracking-id={tracking}",
+  },
+  {
+    id: "fedex",
+    name: "FedEx",
+    trackingUrlTemplate: "https://www.fedex.com/fedextrack/?trknbr={tracking}",
+  },
+  {
+    id: "ups",
+    name: "UPS",
+    trackingUrlTemplate: "https://www.ups.com/track?tracknum={tracking}",
+  },
+  {
+    id: "aramex",
+    name: "Aramex",
+    trackingUrlTemplate:
+      "https://www.aramex.com/us/en/track/results?ShipmentNumber={tracking}",
+  },
+  {
+    id: "other",
+    name: "Other",
+    trackingUrlTemplate: null,
+  },
+]
+
+export function getCarrier(carrier: string | null): Carrier | undefined {
+  return CARRIERS.find((c) => c.id === carrier)
+}
+
+// Known carriers show their name; anything else was typed in by staff
+export function getCarrierName(carrier: string | null): string | null {
+  return getCarrier(carrier)?.name ?? carrier
+}
+
+export function buildTrackingUrl(
+  carrier: string | null,
+  trackingNumber: string | null,
+): string | null {
+  const template = getCarrier(carrier)?.trackingUrlTemplate
+  if (!template || !trackingNumber?.trim()) return null
+  return template.replace(
+    "{tracking}",
+    encodeURIComponent(trackingNumber.trim()),
+  )
+}
+
+export type ShipmentStatus = "pending" | "shipped" | "delivered"
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: "Awaiting dispatch",
+  shipped: "Shipped",
+  delivered: "Delivered",
+}
+
+export const SHIPMENT_STATUS_COLORS: Record<ShipmentStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  shipped: "bg-cyan-100 text-cyan-800",
+  delivered: "bg-green-100 text-green-800",
+}
+
+export function getShipmentStatus(shipment: {
+  shippedAt: Date | null
+  deliveredAt: Date | null
+}): ShipmentStatus {
+  if (shipment.deliveredAt) return "delivered"
+  if (shipment.shippedAt) return "shipped"
+  return "pending"
+}
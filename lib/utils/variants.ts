@@ -0,0 +1,233 @@
+/**
+ * Variant utilities
+ * Pure helpers for the option × value variant matrix, shared by the admin
+ * matrix editor, the variant actions and the storefront option picker.
+ */
+
+export const MAX_VARIANT_OPTIONS = 3
+
+// Name of the only variant of a product without options
+export const DEFAULT_VARIANT_NAME = "Default"
+
+export interface VariantOptionInput {
+  name: string
+  values: { value: string; swatch?: string | null }[]
+}
+
+export interface VariantRowInput {
+  id?: string // Existing variant; omitted for new ones
+  values: string[] // One value per option, in option order
+  sku: string
+  price: string
+  compareAtPrice?: string | null
+  initialStock: number // Only used when the variant is created
+  isActive: boolean
+  imageUrl?: string | null // Product image shown for this variant
+}
+
+export interface VariantMatrixInput {
+  options: VariantOptionInput[]
+  variants: VariantRowInput[]
+}
+
+/**
+ * Display name of a combination, e.g. "256GB / Blue".
+ */
+export function variantName(values: string[]): string {
+  return values.length > 0 ? values.join(" / ") : DEFAULT_VARIANT_NAME
+}
+
+/**
+ * Stable key of a combination, for matching rows across regenerations.
+ */
+export function combinationKey(values: string[]): string {
+  return values.map((value) => value.trim().toLowerCase()).join("\u0000")
+}
+
+/**
+ * Every combination of option values, in option order. A product without
+ * options has exactly one (empty) combination.
+ */
+export function optionCombinations(options: VariantOptionInput[]): string[][] {
+  return options.reduce<string[][]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) =>
+        option.values.map((v) => [...combination, v.value]),
+      ),
+    [[]],
+  )
+}
+
+// "Natural Titanium" -> "NATURALTITANIUM"
+function skuCode(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "")
+}
+
+export function skuPrefix(productName: string): string {
+  return skuCode(productName).slice(0, 8) || "SKU"
+}
+
+export function defaultSkuPattern(
+  prefix: string,
+  options: VariantOptionInput[],
+): string {
+  return [prefix, ...options.map((o) => `{${o.name.trim().toLowerCase()}}`)]
+    .filter(Boolean)
+    .join("-")
+}
+
+/**
+ * Fill a SKU pattern for a combination: each {option name} placeholder
+ * becomes the value's code, e.g. "IPH15-{storage}-{color}" gives
+ * "IPH15-256GB-BLUE". Unknown placeholders are left as they are.
+ */
+export function applySkuPattern(
+  pattern: string,
+  options: VariantOptionInput[],
+  values: string[],
+): string {
+  return pattern.replace(/\{([^}]+)\}/g, (placeholder, name: string) => {
+    const index = options.findIndex(
+      (o) => o.name.trim().toLowerCase() === name.trim().toLowerCase(),
+    )
+    return index >= 0 ? skuCode(values[index] ?? "") : placeholder
+  })
+}
+
+/**
+ * Price of a combination: the base price plus the adjustment of each of its
+ * values (`adjustments[optionIndex][value]`).
+ */
+export function combinationPrice(
+  basePrice: string,
+  values: string[],
+  adjustments: Record<string, number>[],
+): string {
+  const base = parseFloat(basePrice) || 0
+  const total = values.reduce(
+    (sum, value, index) => sum + (adjustments[index]?.[value] ?? 0),
+    base,
+  )
+  return Math.max(0, total).toFixed(2)
+}
+
+/**
+ * Structural checks on a matrix that its schema cannot express. Returns an
+ * error message, or null when the matrix is consistent.
+ */
+export function validateVariantMatrix(
+  input: VariantMatrixInput,
+): string | null {
+  const optionNames = input.options.map((o) => o.name.toLowerCase())
+  if (new Set(optionNames).size !== optionNames.length) {
+    return "Option names must be unique"
+  }
+
+  for (const option of input.options) {
+    const values = option.values.map((v) => v.value.toLowerCase())
+    if (new Set(values).size !== values.length) {
+      return `Values of "${option.name}" must be unique`
+    }
+  }
+
+  const combinations = new Set<string>()
+  const skus = new Set<string>()
+  for (const variant of input.variants) {
+    if (variant.values.length !== input.options.length) {
+      return "Every variant needs one value per option"
+    }
+    const unknown = variant.values.find(
+      (value, i) => !input.options[i].values.some((v) => v.value === value),
+    )
+    if (unknown !== undefined) {
+      return `Unknown option value "${unknown}"`
+    }
+
+    const key = combinationKey(variant.values)
+    if (combinations.has(key)) {
+      return `Duplicate variant "${variantName(variant.values)}"`
+    }
+    combinations.add(key)
+
+    const sku = variant.sku.toUpperCase()
+    if (skus.has(sku)) {
+      return `Duplicate SKU "${variant.sku}"`
+    }
+    skus.add(sku)
+  }
+
+  return null
+}
+
+/**
+ * Rows for every combination of the options. Rows already in the matrix
+ * keep their SKU, price and stock; new ones get the SKU pattern and the
+ * base price plus value adjustments.
+ */
+export function buildVariantRows(
+  options: VariantOptionInput[],
+  existing: VariantRowInput[],
+  defaults: {
+    skuPattern: string
+    basePrice: string
+    compareAtPrice?: string | null
+    adjustments: Record<string, number>[]
+  },
+): VariantRowInput[] {
+  const existingByKey = new Map(
+    existing.map((row) => [combinationKey(row.values), row]),
+  )
+
+  return optionCombinations(options).map((values) => {
+    const row = existingByKey.get(combinationKey(values))
+    if (row) return { ...row, values }
+
+    return {
+      values,
+      sku: applySkuPattern(defaults.skuPattern, options, values),
+      price: combinationPrice(defaults.basePrice, values, defaults.adjustments),
+      compareAtPrice: defaults.compareAtPrice || null,
+      initialStock: 0,
+      isActive: true,
+      imageUrl: null,
+    }
+  })
+}
+
+/**
+ * Images to show for a variant: its own, else those of the variant sharing
+ * the most option values with it (so every storage size of a color shows
+ * that color's photos), else the product's images.
+ */
+export function imagesForVariant<T extends { variantId: string | null }>(
+  images: T[],
+  variants: { id: string; optionValueIds: string[] }[],
+  variantId: string | undefined,
+): T[] {
+  const selected = variants.find((v) => v.id === variantId)
+  if (!selected) return images
+
+  const own = images.filter((image) => image.variantId === selected.id)
+  if (own.length > 0) return own
+
+  let best: T[] = []
+  let bestScore = 0
+  for (const variant of variants) {
+    if (variant.id === selected.id) continue
+    const score = variant.optionValueIds.filter((id) =>
+      selected.optionValueIds.includes(id),
+    ).length
+    if (score <= bestScore) continue
+    const variantImages = images.filter(
+      (image) => image.variantId === variant.id,
+    )
+    if (variantImages.length > 0) {
+      best = variantImages
+      bestScore = score
+    }
+  }
+  if (best.length > 0) return best
+
+  const general = images.filter((image) => image.variantId === null)
+  return general.length > 0 ? general : images
+}
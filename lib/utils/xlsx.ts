@@ -0,0 +1,242 @@
+/**
+ * XLSX utilities
+ * Reads the cell text of the first worksheet of an .xlsx workbook, enough
+ * for tabular imports. Formulas are read as their cached values; styles,
+ * dates and further sheets are ignored. Uses node:zlib, so server only.
+ *
+ * Uploaded workbooks are untrusted, so decompressed entries and sheet
+ * dimensions are capped before anything is allocated for them.
+ */
+
+import { inflateRawSync } from "node:zlib"
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+
+export interface XlsxLimits {
+  maxEntrySize: number // Decompressed bytes per file in the archive
+  maxRows: number
+  maxColumns: number
+}
+
+const DEFAULT_LIMITS: XlsxLimits = {
+  maxEntrySize: 32 * 1024 * 1024, // 32MB
+  maxRows: 10000,
+  maxColumns: 256,
+}
+
+// Read the files of a zip archive by name
+function readZip(
+  buffer: Buffer,
+  maxEntrySize: number,
+): Map<string, () => Buffer> {
+  let eocd = -1
+  for (let i = buffer.length - 22; i >= 0; i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error("Not a valid .xlsx file")
+
+  const entryCount = buffer.readUInt16LE(eocd + 10)
+  let offset = buffer.readUInt32LE(eocd + 16)
+  const files = new Map<string, () => Buffer>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Not a valid .xlsx file")
+    }
+    const method = buffer.readUInt16LE(offset + 10)
+    const compressedSize = buffer.readUInt32LE(offset + 20)
+    const size = buffer.readUInt32LE(offset + 24)
+    const nameLength = buffer.readUInt16LE(offset + 28)
+    const extraLength = buffer.readUInt16LE(offset + 30)
+    const commentLength = buffer.readUInt16LE(offset + 32)
+    const localOffset = buffer.readUInt32LE(offset + 42)
+    const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength)
+
+    files.set(name, () => {
+      if (size > maxEntrySize) {
+        throw new Error("The workbook is too large to import")
+      }
+      if (buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error("Not a valid .xlsx file")
+      }
+      const dataStart =
+        localOffset +
+        30 +
+        buffer.readUInt16LE(localOffset + 26) +
+        buffer.readUInt16LE(localOffset + 28)
+      const data = buffer.subarray(dataStart, dataStart + compressedSize)
+      let contents: Buffer
+      if (method === 0) {
+        contents = data
+      } else if (method === 8) {
+        // The header size may lie, so the output is capped as well
+        try {
+          contents = inflateRawSync(data, { maxOutputLength: maxEntrySize })
+        } catch {
+          throw new Error("Not a valid .xlsx file")
+        }
+      } else {
+        throw new Error("Unsupported .xlsx compression")
+      }
+      if (contents.length !== size) throw new Error("Not a valid .xlsx file")
+      return contents
+    })
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return files
+}
+
+function decodeXml(text: string): string {
+  return text.replace(
+    /&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g,
+    (_, entity: string) => {
+      switch (entity) {
+        case "lt":
+          return "<"
+        case "gt":
+          return ">"
+        case "amp":
+          return "&"
+        case "quot":
+          return '"'
+        case "apos":
+          return "'"
+        default:
+          return String.fromCodePoint(
+            entity[1] === "x"
+              ? parseInt(entity.slice(2), 16)
+              : parseInt(entity.slice(1), 10),
+          )
+      }
+    },
+  )
+}
+
+// Text of an <si> or <is> element: its <t> runs joined
+function richText(xml: string): string {
+  return [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)]
+    .map((match) => decodeXml(match[1]))
+    .join("")
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1]
+}
+
+// "AB12" -> 27
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? "A"
+  return (
+    [...letters].reduce((index, c) => index * 26 + c.charCodeAt(0) - 64, 0) - 1
+  )
+}
+
+// Path of the first sheet in workbook order
+function firstSheetPath(files: Map<string, () => Buffer>): string {
+  const fallback = "xl/worksheets/sheet1.xml"
+  const workbook = files.get("xl/workbook.xml")?.().toString("utf8")
+  const rels = files.get("xl/_rels/workbook.xml.rels")?.().toString("utf8")
+  const sheetTag = workbook?.match(/<sheet\s[^>]*>/)?.[0]
+  const relationId = sheetTag && attribute(sheetTag, "r:id")
+  if (!rels || !relationId) return fallback
+
+  const relationship = [...rels.matchAll(/<Relationship\s[^>]*>/g)]
+    .map((match) => match[0])
+    .find((tag) => attribute(tag, "Id") === relationId)
+  const target = relationship && attribute(relationship, "Target")
+  if (!target) return fallback
+
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`
+}
+
+/**
+ * Cell text of the first worksheet, one array per row. Row and column gaps
+ * are kept as empty cells so positions match the sheet. Throws when the
+ * workbook exceeds the given limits.
+ */
+export function readXlsxRows(
+  buffer: Buffer,
+  limits: Partial<XlsxLimits> = {},
+): string[][] {
+  const { maxEntrySize, maxRows, maxColumns } = {
+    ...DEFAULT_LIMITS,
+    ...limits,
+  }
+  const files = readZip(buffer, maxEntrySize)
+
+  const sharedStringsXml = files
+    .get("xl/sharedStrings.xml")?.()
+    .toString("utf8")
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) =>
+        richText(match[1]),
+      )
+    : []
+
+  const sheet = files.get(firstSheetPath(files))
+  if (!sheet) throw new Error("The workbook has no worksheet")
+  const sheetXml = sheet().toString("utf8")
+
+  const rows: string[][] = []
+  for (const rowMatch of sheetXml.matchAll(
+    /<row(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/row>)/g,
+  )) {
+    const rowNumber = parseInt(attribute(rowMatch[1] ?? "", "r") ?? "")
+    const rowIndex = Number.isNaN(rowNumber) ? rows.length : rowNumber - 1
+    const cells: string[] = []
+
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(
+      /<c(\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/c>)/g,
+    )) {
+      const tag = cellMatch[1] ?? ""
+      const body = cellMatch[2] ?? ""
+      const reference = attribute(tag, "r")
+      const index = reference ? columnIndex(reference) : cells.length
+      if (index >= maxColumns) {
+        throw new Error(`The sheet has more than ${maxColumns} columns`)
+      }
+      const type = attribute(tag, "t")
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let text = ""
+      if (type === "s" && value !== undefined) {
+        text = sharedStrings[parseInt(value)] ?? ""
+      } else if (type === "inlineStr") {
+        text = richText(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? "")
+      } else if (type === "b") {
+        text = value === "1" ? "TRUE" : "FALSE"
+      } else if (value !== undefined) {
+        const number = Number(value)
+        // Drop binary float noise such as 1099.9899999999999
+        text =
+          type === undefined || type === "n"
+            ? Number.isFinite(number)
+              ? String(number)
+              : value
+            : decodeXml(value)
+      }
+
+      while (cells.length < index) cells.push("")
+      cells[index] = text
+    }
+
+    if (rowIndex < 0) throw new Error("Not a valid .xlsx file")
+    // Formatted but empty rows far below the data are skipped, not padded to
+    if (rowIndex >= maxRows) {
+      if (cells.every((cell) => cell === "")) continue
+      throw new Error(`The sheet has more than ${maxRows} rows`)
+    }
+
+    while (rows.length < rowIndex) rows.push([])
+    rows[rowIndex] = cells
+  }
+
+  return rows
+}
@@ -23,6 +23,10 @@ const nextConfig: NextConfig = {
   // Optimize production builds
   experimental: {
     optimizePackageImports: ["lucide-react", "@tanstack/react-query"],
+    // Product sheet imports are uploaded through a server action
+    serverActions: {
+      bodySizeLimit: "5mb",
+    },
   },
   // Enable compression
   compress: true,
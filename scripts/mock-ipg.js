@@ -9,6 +9,7 @@
  * The server will run on port 3001 and provide these endpoints:
  *   POST /api/v1/payment/initiate - Initiate a payment
  *   POST /api/v1/payment/verify - Verify payment status
+ *   POST /api/v1/payment/refund - Refund a completed payment (full or partial)
  *   GET /payment/:sessionId - Payment page (simulated)
  *   POST /payment/:sessionId/complete - Complete payment (for testing)
  */
@@ -18,6 +19,8 @@ const url = require("url")
 const crypto = require("crypto")
 
 const PORT = process.env.MOCK_IPG_PORT || 3001
+const WEBHOOK_SECRET =
+  process.env.DIRECTPAY_WEBHOOK_SECRET || "test_webhook_secret"
 
 // In-memory storage for payment sessions
 const sessions = new Map()
@@ -167,6 +170,7 @@ async function handleVerify(req, res) {
       paidAt: session.paidAt || null,
       cardLast4: session.cardLast4 || null,
       cardBrand: session.cardBrand || null,
+      refundedAmount: session.refundedAmount || 0,
     })
   } catch (error) {
     console.error("[IPG] Verify error:", error)
@@ -177,6 +181,91 @@ async function handleVerify(req, res) {
   }
 }
 
+// Refund endpoint
+async function handleRefund(req, res) {
+  try {
+    const body = await parseBody(req)
+
+    if (!body.sessionId || !body.amount) {
+      return jsonResponse(res, 400, {
+        success: false,
+        error: "Session ID and amount required",
+      })
+    }
+
+    const session = sessions.get(body.sessionId)
+
+    if (!session) {
+      return jsonResponse(res, 404, {
+        success: false,
+        error: "Session not found",
+      })
+    }
+
+    session.refunds = session.refunds || []
+
+    // Idempotent on the merchant's refund reference
+    const existing = body.reference
+      ? session.refunds.find((r) => r.reference === body.reference)
+      : null
+    if (existing) {
+      return jsonResponse(res, 200, {
+        success: true,
+        refundId: existing.id,
+        amount: existing.amount,
+        status: session.status,
+      })
+    }
+
+    if (session.status !== "completed" && session.status !== "refunded") {
+      return jsonResponse(res, 400, {
+        success: false,
+        error: `Payment cannot be refunded in status ${session.status}`,
+      })
+    }
+
+    const amount = parseFloat(body.amount)
+    const refunded = session.refundedAmount || 0
+    if (amount <= 0 || amount > session.amount - refunded + 0.001) {
+      return jsonResponse(res, 400, {
+        success: false,
+        error: "Refund amount exceeds the refundable balance",
+      })
+    }
+
+    const refund = {
+      id: `RFD${Date.now()}${Math.random().toString(36).substr(2, 6).toUpperCase()}`,
+      reference: body.reference || null,
+      amount,
+      reason: body.reason || "",
+      createdAt: new Date().toISOString(),
+    }
+    session.refunds.push(refund)
+    session.refundedAmount = refunded + amount
+    if (session.refundedAmount >= session.amount - 0.001) {
+      session.status = "refunded"
+    }
+
+    console.log(
+      `[IPG] Refund ${refund.id}: ${amount} ${session.currency} on ${session.id}`,
+    )
+
+    return jsonResponse(res, 200, {
+      success: true,
+      refundId: refund.id,
+      amount,
+      refundedAmount: session.refundedAmount,
+      status: session.status,
+    })
+  } catch (error) {
+    console.error("[IPG] Refund error:", error)
+    return jsonResponse(res, 500, {
+      success: false,
+      error: "Internal server error",
+    })
+  }
+}
+
 // Payment page (simulated checkout)
 function handlePaymentPage(req, res, sessionId) {
   const session = sessions.get(sessionId)
@@ -408,7 +497,13 @@ async function handleCompletePayment(req, res, sessionId) {
         port: notifyUrl.port || 80,
         path: notifyUrl.pathname,
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Signature": crypto
+            .createHmac("sha256", WEBHOOK_SECRET)
+            .update(notifyData)
+            .digest("hex"),
+        },
       })
       notifyReq.write(notifyData)
       notifyReq.end()
@@ -467,6 +562,10 @@ async function handleRequest(req, res) {
     return handleVerify(req, res)
   }
 
+  if (pathname === "/api/v1/payment/refund" && req.method === "POST") {
+    return handleRefund(req, res)
+  }
+
   // Payment page routes
   const paymentPageMatch = pathname.match(/^\/payment\/([^\/]+)$/)
   if (paymentPageMatch && req.method === "GET") {
@@ -527,6 +626,9 @@ server.listen(PORT, () => {
   console.log(
     "║   POST /api/v1/payment/verify   - Check payment status        ║",
   )
+  console.log(
+    "║   POST /api/v1/payment/refund   - Refund a payment            ║",
+  )
   console.log(
     "║   GET  /payment/:sessionId      - Payment page                ║",
   )
@@ -0,0 +1,523 @@
+/**
+ * Stripe Checkout Mock Server
+ *
+ * This simulates the parts of the Stripe API the store uses for card
+ * payments, for development/testing.
+ *
+ * Usage:
+ *   node scripts/mock-stripe.js
+ *
+ * Point the app at it with STRIPE_API_URL=http://localhost:3002 and set
+ * the card payment provider to "stripe" in Settings > Payments.
+ *
+ * The server will run on port 3002 and provide these endpoints:
+ *   POST /v1/checkout/sessions - Create a checkout session
+ *   GET /v1/checkout/sessions/:id - Retrieve a checkout session
+ *   POST /v1/refunds - Refund a payment intent (full or partial)
+ *   GET /checkout/:id - Checkout page (simulated)
+ *   POST /checkout/:id/complete - Complete payment (for testing)
+ *   POST /checkout/:id/cancel - Abandon checkout (expires the session)
+ */
+
+const http = require("http")
+const url = require("url")
+const crypto = require("crypto")
+
+const PORT = process.env.MOCK_STRIPE_PORT || 3002
+const WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || "whsec_test"
+
+// In-memory storage
+const sessions = new Map()
+const paymentIntents = new Map()
+const refunds = new Map()
+
+function generateId(prefix) {
+  return `${prefix}_${crypto.randomBytes(12).toString("hex")}`
+}
+
+// Parse a form-encoded body, expanding bracketed keys into objects
+async function parseBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    req.on("data", (chunk) => (body += chunk))
+    req.on("end", () => {
+      const result = {}
+      for (const [key, value] of new URLSearchParams(body)) {
+        const path = key.replace(/\]/g, "").split("[")
+        let target = result
+        path.slice(0, -1).forEach((part) => {
+          target[part] = target[part] || {}
+          target = target[part]
+        })
+        target[path[path.length - 1]] = value
+      }
+      resolve(result)
+    })
+    req.on("error", reject)
+  })
+}
+
+// JSON response helper
+function jsonResponse(res, status, data) {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(data))
+}
+
+// Stripe-style error response
+function errorResponse(res, status, message) {
+  return jsonResponse(res, status, {
+    error: { type: "invalid_request_error", message },
+  })
+}
+
+// HTML response helper
+function htmlResponse(res, status, html) {
+  res.writeHead(status, { "Content-Type": "text/html" })
+  res.end(html)
+}
+
+function isAuthorized(req) {
+  return (req.headers.authorization || "").startsWith("Bearer sk_")
+}
+
+function formatAmount(amount, currency) {
+  return `${currency.toUpperCase()} ${(amount / 100).toLocaleString("en-US", { minimumFractionDigits: 2 })}`
+}
+
+// Session as returned by the API, optionally expanding the payment intent
+function serializeSession(session, expand = []) {
+  const expandIntent = expand.some((e) => e.startsWith("payment_intent"))
+  const intent = session.payment_intent
+    ? paymentIntents.get(session.payment_intent)
+    : null
+
+  return {
+    ...session,
+    payment_intent: expandIntent && intent ? intent : session.payment_intent,
+  }
+}
+
+// Sends a signed event the way Stripe does (Stripe-Signature: t=...,v1=...)
+function sendWebhook(session, type) {
+  if (!session.notify_url) return
+
+  const event = JSON.stringify({
+    id: generateId("evt"),
+    object: "event",
+    type,
+    created: Math.floor(Date.now() / 1000),
+    data: { object: serializeSession(session, ["payment_intent"]) },
+  })
+  const timestamp = Math.floor(Date.now() / 1000)
+  const signature = crypto
+    .createHmac("sha256", WEBHOOK_SECRET)
+    .update(`${timestamp}.${event}`)
+    .digest("hex")
+
+  try {
+    const notifyUrl = new URL(session.notify_url)
+    const notifyReq = http.request({
+      hostname: notifyUrl.hostname,
+      port: notifyUrl.port || 80,
+      path: notifyUrl.pathname,
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Stripe-Signature": `t=${timestamp},v1=${signature}`,
+      },
+    })
+    notifyReq.on("error", (e) =>
+      console.error("[Stripe] Webhook failed:", e.message),
+    )
+    notifyReq.write(event)
+    notifyReq.end()
+    console.log(`[Stripe] Webhook ${type} sent to: ${session.notify_url}`)
+  } catch (e) {
+    console.error("[Stripe] Webhook failed:", e.message)
+  }
+}
+
+// Create checkout session endpoint
+async function handleCreateSession(req, res) {
+  const body = await parseBody(req)
+  const item = body.line_items && body.line_items["0"]
+  const price = item && item.price_data
+
+  if (!body.success_url || !body.cancel_url || !price) {
+    return errorResponse(
+      res,
+      400,
+      "Missing required param: success_url, cancel_url or line_items",
+    )
+  }
+
+  // Idempotent on the Idempotency-Key header
+  const idempotencyKey = req.headers["idempotency-key"]
+  const existing = idempotencyKey
+    ? [...sessions.values()].find((s) => s.idempotency_key === idempotencyKey)
+    : null
+  if (existing) {
+    return jsonResponse(res, 200, serializeSession(existing))
+  }
+
+  const id = generateId("cs_test")
+  const session = {
+    id,
+    object: "checkout.session",
+    url: `http://localhost:${PORT}/checkout/${id}`,
+    status: "open",
+    payment_status: "unpaid",
+    payment_intent: null,
+    mode: body.mode || "payment",
+    amount_total:
+      parseInt(price.unit_amount, 10) * (parseInt(item.quantity, 10) || 1),
+    currency: price.currency,
+    description: (price.product_data && price.product_data.name) || "",
+    customer_email: body.customer_email || null,
+    client_reference_id: body.client_reference_id || null,
+    metadata: body.metadata || {},
+    success_url: body.success_url.replace("{CHECKOUT_SESSION_ID}", id),
+    cancel_url: body.cancel_url,
+    // Webhook endpoint; configured in the Stripe dashboard in production
+    notify_url:
+      process.env.STRIPE_WEBHOOK_URL ||
+      "http://localhost:3000/api/payment/stripe/webhook",
+    idempotency_key: idempotencyKey || null,
+    created: Math.floor(Date.now() / 1000),
+  }
+
+  sessions.set(id, session)
+
+  console.log(
+    `[Stripe] Session created: ${id}, amount: ${formatAmount(session.amount_total, session.currency)}`,
+  )
+
+  return jsonResponse(res, 200, serializeSession(session))
+}
+
+// Retrieve checkout session endpoint
+function handleGetSession(req, res, id, query) {
+  const session = sessions.get(id)
+
+  if (!session) {
+    return errorResponse(res, 404, `No such checkout.session: '${id}'`)
+  }
+
+  const expand = [].concat(query["expand[]"] || [])
+  return jsonResponse(res, 200, serializeSession(session, expand))
+}
+
+// Refund endpoint
+async function handleRefund(req, res) {
+  const body = await parseBody(req)
+  const intent = paymentIntents.get(body.payment_intent)
+
+  if (!intent) {
+    return errorResponse(
+      res,
+      404,
+      `No such payment_intent: '${body.payment_intent}'`,
+    )
+  }
+
+  // Idempotent on the Idempotency-Key header
+  const idempotencyKey = req.headers["idempotency-key"]
+  const existing = idempotencyKey
+    ? [...refunds.values()].find((r) => r.idempotency_key === idempotencyKey)
+    : null
+  if (existing) {
+    return jsonResponse(res, 200, existing)
+  }
+
+  const amount = body.amount
+    ? parseInt(body.amount, 10)
+    : intent.amount - intent.amount_refunded
+  if (amount <= 0 || amount > intent.amount - intent.amount_refunded) {
+    return errorResponse(
+      res,
+      400,
+      "Refund amount is greater than the unrefunded amount on the charge",
+    )
+  }
+
+  const refund = {
+    id: generateId("re"),
+    object: "refund",
+    amount,
+    currency: intent.currency,
+    payment_intent: intent.id,
+    status: "succeeded",
+    metadata: body.metadata || {},
+    idempotency_key: idempotencyKey || null,
+    created: Math.floor(Date.now() / 1000),
+  }
+  refunds.set(refund.id, refund)
+  intent.amount_refunded += amount
+
+  console.log(
+    `[Stripe] Refund ${refund.id}: ${formatAmount(amount, intent.currency)} on ${intent.id}`,
+  )
+
+  return jsonResponse(res, 200, refund)
+}
+
+// Checkout page (simulated)
+function handleCheckoutPage(req, res, id, query) {
+  const session = sessions.get(id)
+
+  if (!session) {
+    return htmlResponse(
+      res,
+      404,
+      `
+            <html>
+            <head><title>Checkout Not Found</title></head>
+            <body style="font-family: Arial; padding: 40px; text-align: center;">
+                <h1>Checkout Session Not Found</h1>
+                <p>The checkout session has expired or does not exist.</p>
+            </body>
+            </html>
+        `,
+    )
+  }
+
+  if (session.status !== "open") {
+    return htmlResponse(
+      res,
+      400,
+      `
+            <html>
+            <head><title>Checkout Closed</title></head>
+            <body style="font-family: Arial; padding: 40px; text-align: center;">
+                <h1>Checkout Closed</h1>
+                <p>Status: ${session.status}</p>
+                <a href="${session.status === "complete" ? session.success_url : session.cancel_url}">Return to merchant</a>
+            </body>
+            </html>
+        `,
+    )
+  }
+
+  const amount = formatAmount(session.amount_total, session.currency)
+
+  return htmlResponse(
+    res,
+    200,
+    `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <title>Stripe Checkout (Mock)</title>
+            <meta name="viewport" content="width=device-width, initial-scale=1">
+            <style>
+                * { box-sizing: border-box; }
+                body {
+                    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+                    margin: 0; padding: 20px; background: #f6f9fc; min-height: 100vh;
+                }
+                .container {
+                    max-width: 400px; margin: 40px auto; background: white;
+                    border-radius: 8px; box-shadow: 0 4px 16px rgba(50,50,93,0.12);
+                    padding: 30px;
+                }
+                h1 { margin: 0 0 4px; font-size: 16px; color: #635bff; }
+                .amount { font-size: 32px; font-weight: 600; color: #1a1f36; margin-bottom: 4px; }
+                .description { color: #697386; font-size: 14px; margin-bottom: 24px; }
+                .form-group { margin-bottom: 15px; }
+                .form-group label { display: block; margin-bottom: 5px; font-size: 14px; color: #3c4257; }
+                .form-group input {
+                    width: 100%; padding: 10px; border: 1px solid #e0e6eb;
+                    border-radius: 6px; font-size: 16px;
+                }
+                .declined { color: #df1b41; font-size: 14px; }
+                .btn {
+                    width: 100%; padding: 12px; border: none; border-radius: 6px;
+                    font-size: 16px; font-weight: 600; cursor: pointer;
+                }
+                .btn-primary { background: #635bff; color: white; }
+                .btn-link { background: none; color: #697386; margin-top: 10px; }
+                .test-note {
+                    margin-top: 20px; padding: 15px; background: #fff8e6;
+                    border-radius: 6px; font-size: 12px; color: #8a6100;
+                }
+                .test-note strong { display: block; margin-bottom: 5px; }
+            </style>
+        </head>
+        <body>
+            <div class="container">
+                <h1>Stripe Checkout (Mock)</h1>
+                <div class="amount">${amount}</div>
+                <div class="description">${session.description}</div>
+                ${query.declined ? '<p class="declined">Your card was declined.</p>' : ""}
+
+                <form action="/checkout/${id}/complete" method="POST">
+                    <div class="form-group">
+                        <label>Email</label>
+                        <input type="email" name="email" value="${session.customer_email || ""}" required>
+                    </div>
+                    <div class="form-group">
+                        <label>Card number</label>
+                        <input type="text" name="cardNumber" placeholder="4242 4242 4242 4242" maxlength="19" required>
+                    </div>
+                    <button type="submit" class="btn btn-primary">Pay ${amount}</button>
+                </form>
+
+                <form action="/checkout/${id}/cancel" method="POST">
+                    <button type="submit" class="btn btn-link">Cancel and return</button>
+                </form>
+
+                <div class="test-note">
+                    <strong>Test Mode</strong>
+                    Use card <code>4242 4242 4242 4242</code> for success.<br>
+                    Use card <code>4000 0000 0000 0002</code> to simulate decline.
+                </div>
+            </div>
+        </body>
+        </html>
+    `,
+  )
+}
+
+// Complete payment (process form submission)
+async function handleCompleteCheckout(req, res, id) {
+  const session = sessions.get(id)
+
+  if (!session || session.status !== "open") {
+    return res.writeHead(302, { Location: session?.cancel_url || "/" }).end()
+  }
+
+  const body = await parseBody(req)
+  const cardNumber = (body.cardNumber || "").replace(/\s/g, "")
+
+  // Declined cards keep the session open so the customer can retry
+  if (cardNumber.startsWith("4000000000000002")) {
+    console.log(`[Stripe] Card DECLINED on session: ${id}`)
+    return res.writeHead(302, { Location: `/checkout/${id}?declined=1` }).end()
+  }
+
+  const intent = {
+    id: generateId("pi"),
+    object: "payment_intent",
+    amount: session.amount_total,
+    amount_refunded: 0,
+    currency: session.currency,
+    status: "succeeded",
+    created: Math.floor(Date.now() / 1000),
+    latest_charge: {
+      id: generateId("ch"),
+      object: "charge",
+      payment_method_details: {
+        type: "card",
+        card: {
+          brand: cardNumber.startsWith("4")
+            ? "visa"
+            : cardNumber.startsWith("5")
+              ? "mastercard"
+              : "unknown",
+          last4: cardNumber.slice(-4),
+        },
+      },
+    },
+  }
+  paymentIntents.set(intent.id, intent)
+
+  session.status = "complete"
+  session.payment_status = "paid"
+  session.payment_intent = intent.id
+
+  console.log(`[Stripe] Checkout COMPLETED: ${id}, PaymentIntent: ${intent.id}`)
+
+  sendWebhook(session, "checkout.session.completed")
+
+  return res.writeHead(302, { Location: session.success_url }).end()
+}
+
+// Cancel checkout; Stripe expires abandoned sessions
+async function handleCancelCheckout(req, res, id) {
+  const session = sessions.get(id)
+
+  if (session && session.status === "open") {
+    session.status = "expired"
+    console.log(`[Stripe] Checkout EXPIRED: ${id}`)
+    sendWebhook(session, "checkout.session.expired")
+  }
+
+  return res.writeHead(302, { Location: session?.cancel_url || "/" }).end()
+}
+
+// Main request handler
+async function handleRequest(req, res) {
+  const parsedUrl = url.parse(req.url, true)
+  const pathname = parsedUrl.pathname
+
+  console.log(`[Stripe] ${req.method} ${pathname}`)
+
+  try {
+    // API Routes
+    if (pathname.startsWith("/v1/") && !isAuthorized(req)) {
+      return errorResponse(res, 401, "Invalid API Key provided")
+    }
+
+    if (pathname === "/v1/checkout/sessions" && req.method === "POST") {
+      return await handleCreateSession(req, res)
+    }
+
+    const sessionMatch = pathname.match(/^\/v1\/checkout\/sessions\/([^/]+)$/)
+    if (sessionMatch && req.method === "GET") {
+      return handleGetSession(req, res, sessionMatch[1], parsedUrl.query)
+    }
+
+    if (pathname === "/v1/refunds" && req.method === "POST") {
+      return await handleRefund(req, res)
+    }
+
+    // Checkout page routes
+    const checkoutMatch = pathname.match(/^\/checkout\/([^/]+)$/)
+    if (checkoutMatch && req.method === "GET") {
+      return handleCheckoutPage(req, res, checkoutMatch[1], parsedUrl.query)
+    }
+
+    const completeMatch = pathname.match(/^\/checkout\/([^/]+)\/complete$/)
+    if (completeMatch && req.method === "POST") {
+      return await handleCompleteCheckout(req, res, completeMatch[1])
+    }
+
+    const cancelMatch = pathname.match(/^\/checkout\/([^/]+)\/cancel$/)
+    if (cancelMatch && req.method === "POST") {
+      return await handleCancelCheckout(req, res, cancelMatch[1])
+    }
+
+    // Health check
+    if (pathname === "/health") {
+      return jsonResponse(res, 200, {
+        status: "ok",
+        service: "Stripe Checkout Mock",
+      })
+    }
+
+    // 404
+    return errorResponse(res, 404, "Unrecognized request URL")
+  } catch (error) {
+    console.error("[Stripe] Request error:", error)
+    return errorResponse(res, 500, "Internal server error")
+  }
+}
+
+// Start server
+const server = http.createServer(handleRequest)
+
+server.listen(PORT, () => {
+  console.log("")
+  console.log(`Stripe Checkout Mock Server running on http://localhost:${PORT}`)
+  console.log("")
+  console.log("Endpoints:")
+  console.log("  POST /v1/checkout/sessions     - Create checkout session")
+  console.log("  GET  /v1/checkout/sessions/:id - Retrieve checkout session")
+  console.log("  POST /v1/refunds               - Refund a payment")
+  console.log("  GET  /checkout/:id             - Checkout page")
+  console.log("")
+  console.log("Test Cards:")
+  console.log("  4242 4242 4242 4242 - Success")
+  console.log("  4000 0000 0000 0002 - Decline")
+  console.log("")
+})